@@ -0,0 +1,45 @@
+-- Migration: Binary bonus engine
+-- Adds: matrix_placement carry-over columns, binary settings, binary_bonus_log
+
+ALTER TABLE "matrix_placement" ADD COLUMN IF NOT EXISTS "left_carry_pv" NUMERIC(12, 2) NOT NULL DEFAULT 0;
+ALTER TABLE "matrix_placement" ADD COLUMN IF NOT EXISTS "right_carry_pv" NUMERIC(12, 2) NOT NULL DEFAULT 0;
+
+ALTER TABLE "matrix_placement"
+ADD CONSTRAINT "chk_matrix_placement_carry"
+CHECK ("left_carry_pv" >= 0 AND "right_carry_pv" >= 0);
+
+ALTER TABLE "settlement_settings" ADD COLUMN IF NOT EXISTS "binary_bonus_percent" NUMERIC(5, 2) NOT NULL DEFAULT 10;
+ALTER TABLE "settlement_settings" ADD COLUMN IF NOT EXISTS "binary_period_cap_rub" NUMERIC(12, 2);
+
+ALTER TABLE "settlement_settings"
+ADD CONSTRAINT "chk_settle_binary"
+CHECK ("binary_bonus_percent" >= 0 AND "binary_bonus_percent" <= 100);
+
+ALTER TABLE "settlement_settings"
+ADD CONSTRAINT "chk_settle_binary_cap"
+CHECK ("binary_period_cap_rub" IS NULL OR "binary_period_cap_rub" >= 0);
+
+CREATE TABLE IF NOT EXISTS "binary_bonus_log" (
+    "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+    "order_id" uuid NOT NULL,
+    "user_id" uuid NOT NULL REFERENCES "app_user"("id") ON DELETE CASCADE,
+    "source_user_id" uuid REFERENCES "app_user"("id") ON DELETE SET NULL,
+    "leg" text NOT NULL,
+    "period" text NOT NULL,
+    "pv_added" numeric(12, 2) DEFAULT '0' NOT NULL,
+    "matched_pv" numeric(12, 2) DEFAULT '0' NOT NULL,
+    "flushed_pv" numeric(12, 2) DEFAULT '0' NOT NULL,
+    "payout_rub" numeric(12, 2) DEFAULT '0' NOT NULL,
+    "ledger_txn_id" uuid,
+    "created_at" timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT "chk_binary_bonus_log_leg" CHECK ("leg" IN ('left', 'right')),
+    CONSTRAINT "chk_binary_bonus_log_non_neg" CHECK ("pv_added" >= 0 AND "matched_pv" >= 0 AND "flushed_pv" >= 0 AND "payout_rub" >= 0)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "ux_binary_bonus_log_order_user" ON "binary_bonus_log" ("order_id", "user_id");
+CREATE INDEX IF NOT EXISTS "ix_binary_bonus_log_user_period" ON "binary_bonus_log" ("user_id", "period");
+CREATE INDEX IF NOT EXISTS "ix_binary_bonus_log_order" ON "binary_bonus_log" ("order_id");
+
+COMMENT ON COLUMN "matrix_placement"."left_carry_pv" IS 'Unmatched left-leg PV carried over to the next binary match';
+COMMENT ON COLUMN "matrix_placement"."right_carry_pv" IS 'Unmatched right-leg PV carried over to the next binary match';
+COMMENT ON COLUMN "settlement_settings"."binary_period_cap_rub" IS 'Max binary payout per user per calendar month (NULL = no cap)';
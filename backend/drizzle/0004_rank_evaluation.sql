@@ -0,0 +1,25 @@
+-- Migration: Monthly rank qualification
+-- Adds: mlm_monthly_stats (if missing) + qualification metrics
+
+CREATE TABLE IF NOT EXISTS "mlm_monthly_stats" (
+    "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+    "user_id" uuid NOT NULL REFERENCES "app_user"("id") ON DELETE CASCADE,
+    "month" text NOT NULL,
+    "go_amount" numeric(14, 2) DEFAULT '0' NOT NULL,
+    "lo_amount" numeric(14, 2) DEFAULT '0' NOT NULL,
+    "rank" "mlm_rank" DEFAULT 'member' NOT NULL,
+    "created_at" timestamp with time zone DEFAULT now() NOT NULL,
+    "updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+
+ALTER TABLE "mlm_monthly_stats" ADD COLUMN IF NOT EXISTS "pv_amount" NUMERIC(14, 2) NOT NULL DEFAULT 0;
+ALTER TABLE "mlm_monthly_stats" ADD COLUMN IF NOT EXISTS "active_partners" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "mlm_monthly_stats" ADD COLUMN IF NOT EXISTS "branches" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "mlm_monthly_stats" ADD COLUMN IF NOT EXISTS "qualified_rank" "mlm_rank";
+ALTER TABLE "mlm_monthly_stats" ADD COLUMN IF NOT EXISTS "closed_at" timestamp with time zone;
+
+CREATE UNIQUE INDEX IF NOT EXISTS "ux_mlm_monthly_stats_user_month" ON "mlm_monthly_stats" ("user_id", "month");
+CREATE INDEX IF NOT EXISTS "ix_mlm_monthly_stats_month" ON "mlm_monthly_stats" ("month");
+
+COMMENT ON COLUMN "mlm_monthly_stats"."qualified_rank" IS 'Highest rank whose requirements were met in the month (NULL = month not closed)';
+COMMENT ON COLUMN "mlm_monthly_stats"."rank" IS 'Rank held after the month close (includes hold-period decisions)';
@@ -0,0 +1,42 @@
+-- Migration: Persistent job scheduler
+-- Adds: scheduled_job (state of periodic jobs), job_run (run history)
+
+CREATE TABLE IF NOT EXISTS "scheduled_job" (
+    "name" text PRIMARY KEY NOT NULL,
+    "description" text,
+    "cron_expression" text NOT NULL,
+    "is_paused" boolean DEFAULT false NOT NULL,
+    "max_retries" integer DEFAULT 0 NOT NULL,
+    "retry_delay_ms" integer DEFAULT 30000 NOT NULL,
+    "lock_ttl_ms" integer DEFAULT 600000 NOT NULL,
+    "next_run_at" timestamp with time zone,
+    "last_run_at" timestamp with time zone,
+    "last_status" text,
+    "created_at" timestamp with time zone DEFAULT now() NOT NULL,
+    "updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT "chk_scheduled_job_retries" CHECK ("max_retries" >= 0 AND "retry_delay_ms" >= 0 AND "lock_ttl_ms" > 0)
+);
+
+CREATE INDEX IF NOT EXISTS "ix_scheduled_job_next_run" ON "scheduled_job" ("next_run_at");
+
+CREATE TABLE IF NOT EXISTS "job_run" (
+    "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+    "job_name" text NOT NULL REFERENCES "scheduled_job"("name") ON DELETE CASCADE,
+    "trigger" text DEFAULT 'schedule' NOT NULL,
+    "status" text DEFAULT 'running' NOT NULL,
+    "attempt" integer DEFAULT 1 NOT NULL,
+    "triggered_by" uuid REFERENCES "app_user"("id") ON DELETE SET NULL,
+    "started_at" timestamp with time zone DEFAULT now() NOT NULL,
+    "finished_at" timestamp with time zone,
+    "duration_ms" integer,
+    "result" jsonb,
+    "error" text,
+    "created_at" timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT "chk_job_run_trigger" CHECK ("trigger" IN ('schedule', 'manual')),
+    CONSTRAINT "chk_job_run_status" CHECK ("status" IN ('running', 'succeeded', 'failed', 'skipped'))
+);
+
+CREATE INDEX IF NOT EXISTS "ix_job_run_job_started" ON "job_run" ("job_name", "started_at");
+CREATE INDEX IF NOT EXISTS "ix_job_run_status" ON "job_run" ("status");
+
+COMMENT ON COLUMN "scheduled_job"."next_run_at" IS 'Next cron slot; advanced with compare-and-set so one instance runs each slot';
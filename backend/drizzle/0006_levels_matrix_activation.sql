@@ -0,0 +1,9 @@
+-- Migration: Levels matrix versions are resolved by activate_at
+-- Backfill: versions activated before scheduling existed are effective from their creation time
+
+UPDATE "levels_matrix_versions"
+SET "activate_at" = "created_at"
+WHERE "is_active" = true AND "activate_at" IS NULL;
+
+COMMENT ON COLUMN "levels_matrix_versions"."activate_at" IS 'Version is in effect from this moment; payouts use the version effective at order delivery time';
+COMMENT ON COLUMN "levels_matrix_versions"."levels" IS 'L1-L15 shares of the order network fund (sum 0.93 for reserve_7pct, 1.00 for full)';
@@ -0,0 +1,10 @@
+-- Migration: Compression activity window for L1-L15 referral bonuses
+
+ALTER TABLE "settlement_settings" ADD COLUMN IF NOT EXISTS "compression_activity_days" INTEGER NOT NULL DEFAULT 30;
+ALTER TABLE "settlement_settings" ADD COLUMN IF NOT EXISTS "compression_min_pv" NUMERIC(12, 2) NOT NULL DEFAULT 1;
+
+ALTER TABLE "settlement_settings"
+ADD CONSTRAINT "chk_settle_compression"
+CHECK ("compression_activity_days" BETWEEN 1 AND 365 AND "compression_min_pv" >= 0);
+
+COMMENT ON COLUMN "settlement_settings"."compression_activity_days" IS 'Compression: partner is active if personal delivered PV within this many days >= compression_min_pv';
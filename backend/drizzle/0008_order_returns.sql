@@ -0,0 +1,46 @@
+-- Migration: Order returns with full/partial reversal of order ledger transactions
+-- Adds: order_return, order_return_item, binary_bonus_log.pv_reversed, account_type 'receivable'
+
+ALTER TYPE "account_type" ADD VALUE IF NOT EXISTS 'receivable';
+
+CREATE TABLE IF NOT EXISTS "order_return" (
+    "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+    "order_id" uuid NOT NULL REFERENCES "order"("id") ON DELETE CASCADE,
+    "kind" text NOT NULL,
+    "reason" text,
+    "amount_rub" numeric(12, 2) DEFAULT '0' NOT NULL,
+    "pv_returned" integer DEFAULT 0 NOT NULL,
+    "share_before" numeric(9, 6) DEFAULT '0' NOT NULL,
+    "share_after" numeric(9, 6) NOT NULL,
+    "summary" jsonb,
+    "created_by" uuid REFERENCES "app_user"("id") ON DELETE SET NULL,
+    "created_at" timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT "chk_order_return_kind" CHECK ("kind" IN ('partial', 'full')),
+    CONSTRAINT "chk_order_return_share" CHECK ("share_before" >= 0 AND "share_after" >= "share_before" AND "share_after" <= 1)
+);
+
+CREATE INDEX IF NOT EXISTS "ix_order_return_order" ON "order_return" ("order_id");
+
+CREATE TABLE IF NOT EXISTS "order_return_item" (
+    "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+    "return_id" uuid NOT NULL REFERENCES "order_return"("id") ON DELETE CASCADE,
+    "order_item_id" uuid NOT NULL REFERENCES "order_item"("id") ON DELETE CASCADE,
+    "qty" integer NOT NULL,
+    "amount_rub" numeric(12, 2) DEFAULT '0' NOT NULL,
+    "pv_total" integer DEFAULT 0 NOT NULL,
+    "restocked" boolean DEFAULT true NOT NULL,
+    "created_at" timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT "chk_order_return_item_qty" CHECK ("qty" > 0)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "ux_order_return_item" ON "order_return_item" ("return_id", "order_item_id");
+CREATE INDEX IF NOT EXISTS "ix_order_return_item_order_item" ON "order_return_item" ("order_item_id");
+
+ALTER TABLE "binary_bonus_log" ADD COLUMN IF NOT EXISTS "pv_reversed" numeric(12, 2) DEFAULT '0' NOT NULL;
+
+ALTER TABLE "binary_bonus_log" DROP CONSTRAINT IF EXISTS "chk_binary_bonus_log_non_neg";
+ALTER TABLE "binary_bonus_log"
+ADD CONSTRAINT "chk_binary_bonus_log_non_neg"
+CHECK ("pv_added" >= 0 AND "matched_pv" >= 0 AND "flushed_pv" >= 0 AND "payout_rub" >= 0 AND "pv_reversed" >= 0);
+
+COMMENT ON COLUMN "binary_bonus_log"."pv_reversed" IS 'PV removed from the ancestor leg by order returns (idempotent reversal)';
@@ -0,0 +1,44 @@
+-- Migration: Ledger reconciliation runs, findings and trial balance snapshots
+-- Adds: ledger_reconciliation_run, ledger_reconciliation_finding
+
+CREATE TABLE IF NOT EXISTS "ledger_reconciliation_run" (
+    "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+    "as_of" timestamp with time zone NOT NULL,
+    "trigger" text DEFAULT 'manual' NOT NULL,
+    "status" text DEFAULT 'running' NOT NULL,
+    "triggered_by" uuid REFERENCES "app_user"("id") ON DELETE SET NULL,
+    "findings_count" integer DEFAULT 0 NOT NULL,
+    "stats" jsonb,
+    "trial_balance" jsonb,
+    "error" text,
+    "started_at" timestamp with time zone DEFAULT now() NOT NULL,
+    "finished_at" timestamp with time zone,
+    "created_at" timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT "chk_ledger_recon_run_trigger" CHECK ("trigger" IN ('schedule', 'manual')),
+    CONSTRAINT "chk_ledger_recon_run_status" CHECK ("status" IN ('running', 'ok', 'issues', 'failed'))
+);
+
+CREATE INDEX IF NOT EXISTS "ix_ledger_recon_run_started" ON "ledger_reconciliation_run" ("started_at");
+
+CREATE TABLE IF NOT EXISTS "ledger_reconciliation_finding" (
+    "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+    "run_id" uuid NOT NULL REFERENCES "ledger_reconciliation_run"("id") ON DELETE CASCADE,
+    "kind" text NOT NULL,
+    "severity" text DEFAULT 'error' NOT NULL,
+    "txn_id" uuid,
+    "account_id" uuid,
+    "user_id" uuid,
+    "currency" "currency",
+    "expected" numeric(14, 2),
+    "actual" numeric(14, 2),
+    "details" jsonb,
+    "created_at" timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT "chk_ledger_recon_finding_kind" CHECK ("kind" IN ('unbalanced_txn', 'empty_txn', 'user_balance_mismatch', 'negative_account', 'orphan_account')),
+    CONSTRAINT "chk_ledger_recon_finding_severity" CHECK ("severity" IN ('error', 'warning'))
+);
+
+CREATE INDEX IF NOT EXISTS "ix_ledger_recon_finding_run" ON "ledger_reconciliation_finding" ("run_id");
+CREATE INDEX IF NOT EXISTS "ix_ledger_recon_finding_kind" ON "ledger_reconciliation_finding" ("run_id", "kind");
+
+COMMENT ON COLUMN "ledger_reconciliation_run"."as_of" IS 'Balances are computed from postings with created_at <= as_of';
+COMMENT ON COLUMN "ledger_reconciliation_finding"."txn_id" IS 'No FK: findings must survive deletion of the referenced txn/account/user';
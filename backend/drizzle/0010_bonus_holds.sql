@@ -0,0 +1,37 @@
+-- Migration: Pending balances — delivery bonuses held for the return window
+-- Adds: account_type 'hold', ledger_op_type 'hold_release', ledger_hold, settlement_settings.bonus_hold_days
+
+ALTER TYPE "account_type" ADD VALUE IF NOT EXISTS 'hold';
+ALTER TYPE "ledger_op_type" ADD VALUE IF NOT EXISTS 'hold_release';
+
+ALTER TABLE "settlement_settings" ADD COLUMN IF NOT EXISTS "bonus_hold_days" INTEGER NOT NULL DEFAULT 14;
+
+ALTER TABLE "settlement_settings" DROP CONSTRAINT IF EXISTS "chk_settle_bonus_hold";
+ALTER TABLE "settlement_settings"
+ADD CONSTRAINT "chk_settle_bonus_hold" CHECK ("bonus_hold_days" BETWEEN 0 AND 365);
+
+COMMENT ON COLUMN "settlement_settings"."bonus_hold_days" IS 'Return window: delivery bonuses stay on the hold account this many days (0 = credit immediately)';
+
+CREATE TABLE IF NOT EXISTS "ledger_hold" (
+    "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+    "user_id" uuid NOT NULL REFERENCES "app_user"("id") ON DELETE CASCADE,
+    "order_id" uuid,
+    "txn_id" uuid NOT NULL REFERENCES "ledger_txn"("id") ON DELETE CASCADE,
+    "hold_account_id" uuid NOT NULL REFERENCES "ledger_account"("id"),
+    "target_type" "account_type" NOT NULL,
+    "currency" "currency" NOT NULL,
+    "amount" numeric(12, 2) NOT NULL,
+    "release_at" timestamp with time zone NOT NULL,
+    "status" text DEFAULT 'held' NOT NULL,
+    "released_amount" numeric(12, 2),
+    "release_txn_id" uuid,
+    "released_at" timestamp with time zone,
+    "created_at" timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT "chk_ledger_hold_status" CHECK ("status" IN ('held', 'released', 'canceled')),
+    CONSTRAINT "chk_ledger_hold_amount" CHECK ("amount" > 0 AND ("released_amount" IS NULL OR "released_amount" >= 0))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "ux_ledger_hold_txn" ON "ledger_hold" ("txn_id");
+CREATE INDEX IF NOT EXISTS "ix_ledger_hold_due" ON "ledger_hold" ("status", "release_at");
+CREATE INDEX IF NOT EXISTS "ix_ledger_hold_user" ON "ledger_hold" ("user_id", "status");
+CREATE INDEX IF NOT EXISTS "ix_ledger_hold_order" ON "ledger_hold" ("order_id");
@@ -0,0 +1,12 @@
+-- Migration: 54-FZ fiscal receipts — VAT rate per product
+-- Adds: vat_rate enum, product.vat (NULL = default rate from TINKOFF_RECEIPT_VAT)
+
+DO $$ BEGIN
+    CREATE TYPE "vat_rate" AS ENUM ('none', 'vat0', 'vat5', 'vat7', 'vat10', 'vat20', 'vat105', 'vat107', 'vat110', 'vat120');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+ALTER TABLE "product" ADD COLUMN IF NOT EXISTS "vat" "vat_rate";
+
+COMMENT ON COLUMN "product"."vat" IS 'VAT rate for the 54-FZ receipt line; NULL = terminal default';
@@ -0,0 +1,29 @@
+-- Migration: Payment refunds via provider Cancel (full / partial)
+-- Adds: payment_refund
+
+CREATE TABLE IF NOT EXISTS "payment_refund" (
+    "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+    "payment_id" uuid NOT NULL REFERENCES "payment"("id") ON DELETE CASCADE,
+    "order_id" uuid NOT NULL REFERENCES "order"("id") ON DELETE CASCADE,
+    "return_id" uuid REFERENCES "order_return"("id") ON DELETE SET NULL,
+    "amount_rub" numeric(12, 2) NOT NULL,
+    "status" text DEFAULT 'pending' NOT NULL,
+    "provider_status" text,
+    "idempotency_key" text NOT NULL,
+    "items" jsonb,
+    "include_delivery" boolean DEFAULT false NOT NULL,
+    "restock" boolean DEFAULT true NOT NULL,
+    "receipt" jsonb,
+    "reason" text,
+    "error_code" text,
+    "error_message" text,
+    "created_by" uuid REFERENCES "app_user"("id") ON DELETE SET NULL,
+    "created_at" timestamp with time zone DEFAULT now() NOT NULL,
+    "completed_at" timestamp with time zone,
+    CONSTRAINT "chk_payment_refund_status" CHECK ("status" IN ('pending', 'succeeded', 'failed')),
+    CONSTRAINT "chk_payment_refund_amount" CHECK ("amount_rub" > 0)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "ux_payment_refund_idempotency" ON "payment_refund" ("idempotency_key");
+CREATE INDEX IF NOT EXISTS "ix_payment_refund_payment" ON "payment_refund" ("payment_id");
+CREATE INDEX IF NOT EXISTS "ix_payment_refund_order" ON "payment_refund" ("order_id");
@@ -0,0 +1,11 @@
+-- Migration: Pluggable payment providers and mixed (wallet + card) checkout
+-- Adds: payment_method 'mixed', payment.provider
+
+ALTER TYPE "payment_method" ADD VALUE IF NOT EXISTS 'mixed';
+
+ALTER TABLE "payment" ADD COLUMN IF NOT EXISTS "provider" text;
+
+-- Existing card payments were all made through Tinkoff
+UPDATE "payment" SET "provider" = 'tinkoff' WHERE "provider" IS NULL AND "method" = 'card' AND "external_id" IS NOT NULL;
+
+COMMENT ON COLUMN "payment"."provider" IS 'Payment provider: tinkoff | sbp | fake | wallet (NULL = manual)';
@@ -0,0 +1,48 @@
+-- Migration: Payment webhook log with deduplication and provider reconciliation
+-- Adds: payment_webhook, payment_mismatch
+
+CREATE TABLE IF NOT EXISTS "payment_webhook" (
+    "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+    "provider" text NOT NULL,
+    "external_id" text,
+    "order_id" text,
+    "status" text,
+    "amount_rub" numeric(12, 2),
+    "payload" jsonb NOT NULL,
+    "signature_valid" boolean NOT NULL,
+    "dedup_key" text,
+    "outcome" text DEFAULT 'received' NOT NULL,
+    "error" text,
+    "received_at" timestamp with time zone DEFAULT now() NOT NULL,
+    "processed_at" timestamp with time zone,
+    CONSTRAINT "chk_payment_webhook_outcome"
+        CHECK ("outcome" IN ('received', 'processed', 'duplicate', 'stale', 'rejected', 'failed'))
+);
+
+-- Only the accepted notification carries dedup_key: provider retries of PaymentId+Status are skipped
+CREATE UNIQUE INDEX IF NOT EXISTS "ux_payment_webhook_dedup" ON "payment_webhook" ("dedup_key") WHERE "dedup_key" IS NOT NULL;
+CREATE INDEX IF NOT EXISTS "ix_payment_webhook_external" ON "payment_webhook" ("provider", "external_id");
+CREATE INDEX IF NOT EXISTS "ix_payment_webhook_received" ON "payment_webhook" ("received_at");
+
+CREATE TABLE IF NOT EXISTS "payment_mismatch" (
+    "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+    "payment_id" uuid NOT NULL REFERENCES "payment"("id") ON DELETE CASCADE,
+    "order_id" uuid NOT NULL REFERENCES "order"("id") ON DELETE CASCADE,
+    "kind" text NOT NULL,
+    "local_status" text,
+    "provider_status" text,
+    "order_status" text,
+    "details" jsonb,
+    "repaired" boolean DEFAULT false NOT NULL,
+    "detected_at" timestamp with time zone DEFAULT now() NOT NULL,
+    "last_seen_at" timestamp with time zone DEFAULT now() NOT NULL,
+    "resolved_at" timestamp with time zone,
+    "resolved_by" uuid REFERENCES "app_user"("id") ON DELETE SET NULL,
+    "resolution" text,
+    CONSTRAINT "chk_payment_mismatch_kind"
+        CHECK ("kind" IN ('missed_webhook', 'paid_order_not_paid', 'amount_mismatch', 'status_regression'))
+);
+
+-- One open mismatch per payment and kind
+CREATE UNIQUE INDEX IF NOT EXISTS "ux_payment_mismatch_open" ON "payment_mismatch" ("payment_id", "kind") WHERE "resolved_at" IS NULL;
+CREATE INDEX IF NOT EXISTS "ix_payment_mismatch_detected" ON "payment_mismatch" ("detected_at");
@@ -0,0 +1,39 @@
+-- Migration: Carrier integrations (CDEK, Russian Post, Yandex Delivery)
+-- Adds: product weight/dimensions, order.delivery_destination, delivery_shipment
+
+ALTER TABLE "product" ADD COLUMN IF NOT EXISTS "weight_g" integer;
+ALTER TABLE "product" ADD COLUMN IF NOT EXISTS "length_cm" integer;
+ALTER TABLE "product" ADD COLUMN IF NOT EXISTS "width_cm" integer;
+ALTER TABLE "product" ADD COLUMN IF NOT EXISTS "height_cm" integer;
+
+DO $$ BEGIN
+    ALTER TABLE "product" ADD CONSTRAINT "chk_product_weight_pos"
+        CHECK ("weight_g" IS NULL OR "weight_g" > 0);
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+COMMENT ON COLUMN "product"."weight_g" IS 'Packed unit weight in grams; NULL = DELIVERY_DEFAULT_WEIGHT_G';
+
+ALTER TABLE "order" ADD COLUMN IF NOT EXISTS "delivery_destination" jsonb;
+
+COMMENT ON COLUMN "order"."delivery_destination" IS 'Carrier destination: postal code, city / CDEK city code, pickup point, recipient';
+
+CREATE TABLE IF NOT EXISTS "delivery_shipment" (
+    "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+    "order_id" uuid NOT NULL REFERENCES "order"("id") ON DELETE CASCADE,
+    "carrier" "delivery_service" NOT NULL,
+    "status" text DEFAULT 'pending' NOT NULL,
+    "external_id" text,
+    "tracking_code" text,
+    "carrier_status" text,
+    "attempts" integer DEFAULT 0 NOT NULL,
+    "last_error" text,
+    "request" jsonb,
+    "created_at" timestamp with time zone DEFAULT now() NOT NULL,
+    "updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT "chk_delivery_shipment_status" CHECK ("status" IN ('pending', 'created', 'failed'))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "ux_delivery_shipment_order" ON "delivery_shipment" ("order_id");
+CREATE INDEX IF NOT EXISTS "ix_delivery_shipment_status" ON "delivery_shipment" ("status");
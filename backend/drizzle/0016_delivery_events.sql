@@ -0,0 +1,27 @@
+-- Migration: Delivery tracking events
+-- Adds: delivery_event (carrier webhook / polling / admin timeline) with per-event dedup key
+
+CREATE TABLE IF NOT EXISTS "delivery_event" (
+    "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+    "order_id" uuid NOT NULL REFERENCES "order"("id") ON DELETE CASCADE,
+    "provider" text,
+    "status" "delivery_status" NOT NULL,
+    "provider_status" text,
+    "payload" jsonb,
+    "created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+
+ALTER TABLE "delivery_event" ADD COLUMN IF NOT EXISTS "source" text DEFAULT 'admin' NOT NULL;
+ALTER TABLE "delivery_event" ADD COLUMN IF NOT EXISTS "description" text;
+ALTER TABLE "delivery_event" ADD COLUMN IF NOT EXISTS "location" text;
+ALTER TABLE "delivery_event" ADD COLUMN IF NOT EXISTS "occurred_at" timestamp with time zone;
+ALTER TABLE "delivery_event" ADD COLUMN IF NOT EXISTS "dedup_key" text;
+
+COMMENT ON COLUMN "delivery_event"."source" IS 'webhook | poll | admin';
+COMMENT ON COLUMN "delivery_event"."dedup_key" IS 'carrier:externalId:providerStatus:occurredAt; NULL for admin events';
+
+CREATE UNIQUE INDEX IF NOT EXISTS "ux_delivery_event_dedup" ON "delivery_event" ("dedup_key") WHERE "dedup_key" IS NOT NULL;
+CREATE INDEX IF NOT EXISTS "ix_delivery_event_order" ON "delivery_event" ("order_id");
+CREATE INDEX IF NOT EXISTS "ix_delivery_event_status" ON "delivery_event" ("status");
+CREATE INDEX IF NOT EXISTS "ix_delivery_event_provider" ON "delivery_event" ("provider");
+CREATE INDEX IF NOT EXISTS "ix_delivery_event_created" ON "delivery_event" ("created_at");
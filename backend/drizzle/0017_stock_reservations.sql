@@ -0,0 +1,34 @@
+-- Migration: Stock reservations
+-- Adds: stock_reservation (checkout / payment-init holds with TTL, released on cancel or timeout, converted on payment)
+
+CREATE TABLE IF NOT EXISTS "stock_reservation" (
+    "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+    "product_id" uuid NOT NULL REFERENCES "product"("id") ON DELETE CASCADE,
+    "order_id" uuid NOT NULL REFERENCES "order"("id") ON DELETE CASCADE,
+    "qty" integer NOT NULL,
+    "status" text DEFAULT 'active' NOT NULL,
+    "expires_at" timestamp with time zone NOT NULL,
+    "release_reason" text,
+    "created_at" timestamp with time zone DEFAULT now() NOT NULL,
+    "updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT "chk_stock_reservation_qty_pos" CHECK ("qty" > 0),
+    CONSTRAINT "chk_stock_reservation_status" CHECK ("status" IN ('active', 'released', 'converted'))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "ux_stock_reservation_order_product" ON "stock_reservation" ("order_id", "product_id");
+CREATE INDEX IF NOT EXISTS "ix_stock_reservation_product_active" ON "stock_reservation" ("product_id") WHERE "status" = 'active';
+CREATE INDEX IF NOT EXISTS "ix_stock_reservation_expires" ON "stock_reservation" ("expires_at") WHERE "status" = 'active';
+
+COMMENT ON TABLE "stock_reservation" IS 'Per-order stock holds; available = product.stock - active unexpired reservations';
+
+-- Backfill: orders checked out before this migration already decremented product.stock at checkout.
+-- Record their lines as converted so that cancellation still puts the stock back exactly once.
+INSERT INTO "stock_reservation" ("product_id", "order_id", "qty", "status", "expires_at")
+SELECT oi."product_id", oi."order_id", SUM(oi."qty"), 'converted', o."created_at"
+FROM "order_item" oi
+JOIN "order" o ON o."id" = oi."order_id"
+WHERE o."status" <> 'canceled'
+  AND (o."status" <> 'pending' OR EXISTS (SELECT 1 FROM "payment" p WHERE p."order_id" = o."id"))
+GROUP BY oi."product_id", oi."order_id", o."created_at"
+HAVING SUM(oi."qty") > 0
+ON CONFLICT DO NOTHING;
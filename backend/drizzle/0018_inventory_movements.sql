@@ -0,0 +1,48 @@
+-- Migration: Inventory movement journal and low-stock alerts
+-- Adds: inventory_movement, product.low_stock_threshold / low_stock_alerted_at, opening balances
+
+CREATE TABLE IF NOT EXISTS "inventory_movement" (
+    "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+    "product_id" uuid NOT NULL REFERENCES "product"("id") ON DELETE CASCADE,
+    "type" text NOT NULL,
+    "qty" integer NOT NULL,
+    "stock_after" integer,
+    "reason" text,
+    "reference" text,
+    "order_id" uuid REFERENCES "order"("id") ON DELETE SET NULL,
+    "user_id" uuid REFERENCES "app_user"("id") ON DELETE SET NULL,
+    "created_at" timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT "chk_inventory_movement_type"
+        CHECK ("type" IN ('receipt', 'sale', 'return', 'adjustment', 'write_off', 'reservation')),
+    CONSTRAINT "chk_inventory_movement_qty_nonzero" CHECK ("qty" <> 0)
+);
+
+CREATE INDEX IF NOT EXISTS "ix_inventory_movement_product_created" ON "inventory_movement" ("product_id", "created_at");
+CREATE INDEX IF NOT EXISTS "ix_inventory_movement_order" ON "inventory_movement" ("order_id");
+
+COMMENT ON TABLE "inventory_movement" IS 'Stock journal; product.stock = sum(qty) of all non-reservation movements';
+
+ALTER TABLE "product" ADD COLUMN IF NOT EXISTS "low_stock_threshold" integer;
+ALTER TABLE "product" ADD COLUMN IF NOT EXISTS "low_stock_alerted_at" timestamp with time zone;
+
+DO $$ BEGIN
+    ALTER TABLE "product" ADD CONSTRAINT "chk_product_low_stock_threshold_nonneg"
+        CHECK ("low_stock_threshold" IS NULL OR "low_stock_threshold" >= 0);
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+COMMENT ON COLUMN "product"."low_stock_threshold" IS 'Telegram alert to admins when stock drops to this level; NULL = no alert';
+
+-- Opening balances: current stock becomes the first journal entry, active holds the first reservation entries
+INSERT INTO "inventory_movement" ("product_id", "type", "qty", "stock_after", "reason")
+SELECT p."id", 'adjustment', p."stock", p."stock", 'Opening balance'
+FROM "product" p
+WHERE p."stock" <> 0
+  AND NOT EXISTS (SELECT 1 FROM "inventory_movement" m WHERE m."product_id" = p."id");
+
+INSERT INTO "inventory_movement" ("product_id", "type", "qty", "order_id", "reason")
+SELECT r."product_id", 'reservation', r."qty", r."order_id", 'Opening balance'
+FROM "stock_reservation" r
+WHERE r."status" = 'active'
+  AND NOT EXISTS (SELECT 1 FROM "inventory_movement" m WHERE m."order_id" = r."order_id" AND m."type" = 'reservation');
@@ -0,0 +1,52 @@
+-- Migration: Product variants (size, flavor, pack count) with own SKU, price and stock
+-- Adds: product_variant, variant_id on order_item / stock_reservation / inventory_movement
+
+CREATE TABLE IF NOT EXISTS "product_variant" (
+    "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+    "product_id" uuid NOT NULL REFERENCES "product"("id") ON DELETE CASCADE,
+    "name" text NOT NULL,
+    "size" text,
+    "flavor" text,
+    "pack_count" integer,
+    "sku" varchar(100),
+    "price" numeric(12, 2) NOT NULL,
+    "original_price" numeric(12, 2),
+    "stock" integer DEFAULT 0 NOT NULL,
+    "custom_pv" integer,
+    "custom_cashback" numeric(5, 2),
+    "images" jsonb DEFAULT '[]'::jsonb NOT NULL,
+    "sort_order" integer DEFAULT 0 NOT NULL,
+    "is_active" boolean DEFAULT true NOT NULL,
+    "created_at" timestamp with time zone DEFAULT now() NOT NULL,
+    "updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT "chk_product_variant_price_nonneg" CHECK ("price" >= 0),
+    CONSTRAINT "chk_product_variant_stock_nonneg" CHECK ("stock" >= 0),
+    CONSTRAINT "chk_product_variant_pack_count_pos" CHECK ("pack_count" IS NULL OR "pack_count" > 0),
+    CONSTRAINT "chk_product_variant_custom_pv_nonneg" CHECK ("custom_pv" IS NULL OR "custom_pv" >= 0),
+    CONSTRAINT "chk_product_variant_cashback_0_100"
+        CHECK ("custom_cashback" IS NULL OR ("custom_cashback" >= 0 AND "custom_cashback" <= 100))
+);
+
+CREATE INDEX IF NOT EXISTS "ix_product_variant_product" ON "product_variant" ("product_id", "sort_order");
+CREATE UNIQUE INDEX IF NOT EXISTS "ux_product_variant_sku_nullable" ON "product_variant" ("sku") WHERE "sku" IS NOT NULL;
+
+COMMENT ON TABLE "product_variant" IS 'Sellable variant of a product; when a product has variants, product.stock = sum(variant.stock)';
+
+-- Order lines keep the variant they were bought in
+ALTER TABLE "order_item" ADD COLUMN IF NOT EXISTS "variant_id" uuid REFERENCES "product_variant"("id") ON DELETE RESTRICT;
+ALTER TABLE "order_item" ADD COLUMN IF NOT EXISTS "variant_name" text;
+CREATE INDEX IF NOT EXISTS "ix_order_item_variant" ON "order_item" ("variant_id") WHERE "variant_id" IS NOT NULL;
+
+-- Reservations: one row per (order, product, variant); NULL variant = product without variants
+ALTER TABLE "stock_reservation" ADD COLUMN IF NOT EXISTS "variant_id" uuid REFERENCES "product_variant"("id") ON DELETE CASCADE;
+DROP INDEX IF EXISTS "ux_stock_reservation_order_product";
+DO $$ BEGIN
+    ALTER TABLE "stock_reservation" ADD CONSTRAINT "ux_stock_reservation_order_item"
+        UNIQUE NULLS NOT DISTINCT ("order_id", "product_id", "variant_id");
+EXCEPTION
+    WHEN duplicate_object OR duplicate_table THEN null;
+END $$;
+
+-- Journal rows of a deleted variant stay on the product so product.stock still matches the journal
+ALTER TABLE "inventory_movement" ADD COLUMN IF NOT EXISTS "variant_id" uuid REFERENCES "product_variant"("id") ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS "ix_inventory_movement_variant" ON "inventory_movement" ("variant_id") WHERE "variant_id" IS NOT NULL;
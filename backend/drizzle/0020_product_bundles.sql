@@ -0,0 +1,42 @@
+-- Migration: Bundles (courses / kits) sold as one product with its own price and PV
+-- Adds: product.is_bundle, product_bundle_item, order_item_component
+
+ALTER TABLE "product" ADD COLUMN IF NOT EXISTS "is_bundle" boolean DEFAULT false NOT NULL;
+
+CREATE TABLE IF NOT EXISTS "product_bundle_item" (
+    "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+    "bundle_id" uuid NOT NULL REFERENCES "product"("id") ON DELETE CASCADE,
+    "product_id" uuid NOT NULL REFERENCES "product"("id") ON DELETE RESTRICT,
+    "variant_id" uuid REFERENCES "product_variant"("id") ON DELETE RESTRICT,
+    "qty" integer NOT NULL,
+    "sort_order" integer DEFAULT 0 NOT NULL,
+    "created_at" timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT "ux_product_bundle_item_component" UNIQUE NULLS NOT DISTINCT ("bundle_id", "product_id", "variant_id"),
+    CONSTRAINT "chk_product_bundle_item_qty_pos" CHECK ("qty" > 0),
+    CONSTRAINT "chk_product_bundle_item_not_self" CHECK ("bundle_id" <> "product_id")
+);
+
+CREATE INDEX IF NOT EXISTS "ix_product_bundle_item_bundle" ON "product_bundle_item" ("bundle_id", "sort_order");
+CREATE INDEX IF NOT EXISTS "ix_product_bundle_item_product" ON "product_bundle_item" ("product_id");
+
+COMMENT ON TABLE "product_bundle_item" IS 'Bundle composition; bundle stock is derived from component stock';
+
+-- Bundle lines keep their composition and price split as of adding to cart
+CREATE TABLE IF NOT EXISTS "order_item_component" (
+    "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+    "order_item_id" uuid NOT NULL REFERENCES "order_item"("id") ON DELETE CASCADE,
+    "product_id" uuid NOT NULL REFERENCES "product"("id") ON DELETE RESTRICT,
+    "variant_id" uuid REFERENCES "product_variant"("id") ON DELETE RESTRICT,
+    "product_name" text NOT NULL,
+    "variant_name" text,
+    "sku" text,
+    "qty" integer NOT NULL,
+    "amount_rub" numeric(12, 2) NOT NULL,
+    "created_at" timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT "chk_order_item_component_qty" CHECK ("qty" > 0),
+    CONSTRAINT "chk_order_item_component_amount" CHECK ("amount_rub" >= 0)
+);
+
+CREATE INDEX IF NOT EXISTS "ix_order_item_component_item" ON "order_item_component" ("order_item_id");
+
+COMMENT ON COLUMN "order_item_component"."amount_rub" IS 'Share of one bundle unit price allocated to this component (all units of it)';
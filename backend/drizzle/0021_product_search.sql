@@ -0,0 +1,27 @@
+-- Migration: Full-text product search (Russian morphology, weighted fields, composition) with trigram typo tolerance
+-- Adds: pg_trgm, product.search_vector (generated), GIN indexes for search, trigram name match and facets
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- Weights: A — name, B — SKU / manufacturer, C — short description and composition (ingredient keys and values), D — long texts.
+-- SKU and manufacturer go through 'simple' so codes and brand names are not stemmed.
+ALTER TABLE "product" ADD COLUMN IF NOT EXISTS "search_vector" tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('russian', coalesce("name", '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce("sku", '') || ' ' || coalesce("manufacturer", '')), 'B') ||
+    setweight(to_tsvector('russian', coalesce("description", '')), 'C') ||
+    setweight(jsonb_to_tsvector('russian', coalesce("composition", '{}'::jsonb), '["key", "string"]'), 'C') ||
+    setweight(
+        to_tsvector('russian', coalesce("long_description", '') || ' ' || coalesce("usage", '') || ' ' || coalesce("additional_info", '')),
+        'D'
+    )
+) STORED;
+
+COMMENT ON COLUMN "product"."search_vector" IS 'Generated full-text document; not mapped in the ORM schema, queried via productsStorage search helpers';
+
+CREATE INDEX IF NOT EXISTS "ix_product_search_vector" ON "product" USING gin ("search_vector");
+
+-- Typo tolerance: word similarity of the query against the product name ("витамн" → "Витамин D3")
+CREATE INDEX IF NOT EXISTS "ix_product_name_trgm" ON "product" USING gin ("name" gin_trgm_ops);
+
+-- Manufacturer facet / filter
+CREATE INDEX IF NOT EXISTS "ix_product_manufacturer" ON "product" ("manufacturer") WHERE "manufacturer" IS NOT NULL;
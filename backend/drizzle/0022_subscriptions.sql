@@ -0,0 +1,57 @@
+-- Migration: Auto-replenishment subscriptions (recurring orders charged from the wallet or a saved card)
+-- Adds: subscription, subscription_item, order.subscription_id, order.subscription_discount_rub
+
+CREATE TABLE IF NOT EXISTS "subscription" (
+    "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+    "user_id" uuid NOT NULL REFERENCES "app_user"("id") ON DELETE CASCADE,
+    "status" text DEFAULT 'active' NOT NULL,
+    "interval_months" integer DEFAULT 1 NOT NULL,
+    "next_run_at" timestamp with time zone NOT NULL,
+    "retry_at" timestamp with time zone,
+    "failed_attempts" integer DEFAULT 0 NOT NULL,
+    "notified_run_at" timestamp with time zone,
+    "payment_source" text NOT NULL,
+    "rebill_id" text,
+    "delivery_service" text,
+    "delivery_address" text,
+    "delivery_destination" jsonb,
+    "paused_at" timestamp with time zone,
+    "canceled_at" timestamp with time zone,
+    "created_at" timestamp with time zone DEFAULT now() NOT NULL,
+    "updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT "chk_subscription_status" CHECK ("status" IN ('active', 'paused', 'canceled')),
+    CONSTRAINT "chk_subscription_payment_source" CHECK ("payment_source" IN ('card', 'wallet')),
+    CONSTRAINT "chk_subscription_interval" CHECK ("interval_months" BETWEEN 1 AND 6)
+);
+
+CREATE INDEX IF NOT EXISTS "ix_subscription_user" ON "subscription" ("user_id");
+CREATE INDEX IF NOT EXISTS "ix_subscription_due" ON "subscription" ("next_run_at") WHERE "status" = 'active';
+
+COMMENT ON COLUMN "subscription"."rebill_id" IS 'Tinkoff RebillId of the saved card, received with the first recurrent payment';
+COMMENT ON COLUMN "subscription"."notified_run_at" IS 'next_run_at the pre-charge reminder was sent for';
+
+CREATE TABLE IF NOT EXISTS "subscription_item" (
+    "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+    "subscription_id" uuid NOT NULL REFERENCES "subscription"("id") ON DELETE CASCADE,
+    "product_id" uuid NOT NULL REFERENCES "product"("id") ON DELETE CASCADE,
+    "variant_id" uuid REFERENCES "product_variant"("id") ON DELETE CASCADE,
+    "qty" integer NOT NULL,
+    "created_at" timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT "ux_subscription_item_line" UNIQUE NULLS NOT DISTINCT ("subscription_id", "product_id", "variant_id"),
+    CONSTRAINT "chk_subscription_item_qty_pos" CHECK ("qty" > 0)
+);
+
+CREATE INDEX IF NOT EXISTS "ix_subscription_item_subscription" ON "subscription_item" ("subscription_id");
+
+-- Orders placed by a subscription; the subscriber discount is kept apart from promo / referral discounts
+ALTER TABLE "order" ADD COLUMN IF NOT EXISTS "subscription_id" uuid REFERENCES "subscription"("id") ON DELETE SET NULL;
+ALTER TABLE "order" ADD COLUMN IF NOT EXISTS "subscription_discount_rub" numeric(12, 2) DEFAULT '0' NOT NULL;
+
+DO $$ BEGIN
+    ALTER TABLE "order" ADD CONSTRAINT "chk_subscription_discount_nonneg"
+        CHECK ("subscription_discount_rub" >= 0);
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+CREATE INDEX IF NOT EXISTS "ix_order_subscription" ON "order" ("subscription_id");
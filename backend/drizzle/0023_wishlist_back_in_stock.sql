@@ -0,0 +1,25 @@
+-- Migration: Wishlist and back-in-stock notifications
+-- Adds: wishlist_item, back_in_stock_request
+
+CREATE TABLE IF NOT EXISTS "wishlist_item" (
+    "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+    "user_id" uuid NOT NULL REFERENCES "app_user"("id") ON DELETE CASCADE,
+    "product_id" uuid NOT NULL REFERENCES "product"("id") ON DELETE CASCADE,
+    "created_at" timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT "ux_wishlist_item_user_product" UNIQUE ("user_id", "product_id")
+);
+
+CREATE INDEX IF NOT EXISTS "ix_wishlist_item_product" ON "wishlist_item" ("product_id");
+
+CREATE TABLE IF NOT EXISTS "back_in_stock_request" (
+    "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+    "user_id" uuid NOT NULL REFERENCES "app_user"("id") ON DELETE CASCADE,
+    "product_id" uuid NOT NULL REFERENCES "product"("id") ON DELETE CASCADE,
+    "notified_at" timestamp with time zone,
+    "notification_id" integer REFERENCES "notification"("id") ON DELETE SET NULL,
+    "created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+
+-- One waiting request per user and product; notified rows are kept as history
+CREATE UNIQUE INDEX IF NOT EXISTS "ux_back_in_stock_pending" ON "back_in_stock_request" ("user_id", "product_id") WHERE "notified_at" IS NULL;
+CREATE INDEX IF NOT EXISTS "ix_back_in_stock_product_pending" ON "back_in_stock_request" ("product_id") WHERE "notified_at" IS NULL;
@@ -0,0 +1,26 @@
+-- Migration: Product recommendations (frequently bought together, personalised picks)
+-- Adds: product_affinity, user_recommendation — both rebuilt by the recommendations-refresh job
+
+CREATE TABLE IF NOT EXISTS "product_affinity" (
+    "product_id" uuid NOT NULL REFERENCES "product"("id") ON DELETE CASCADE,
+    "related_product_id" uuid NOT NULL REFERENCES "product"("id") ON DELETE CASCADE,
+    "co_orders" integer NOT NULL,
+    "score" double precision NOT NULL,
+    "computed_at" timestamp with time zone NOT NULL,
+    CONSTRAINT "pk_product_affinity" PRIMARY KEY ("product_id", "related_product_id")
+);
+
+CREATE INDEX IF NOT EXISTS "ix_product_affinity_top" ON "product_affinity" ("product_id", "score");
+
+COMMENT ON COLUMN "product_affinity"."score" IS 'co_orders / sqrt(orders with product × orders with related product), 0..1';
+
+CREATE TABLE IF NOT EXISTS "user_recommendation" (
+    "user_id" uuid NOT NULL REFERENCES "app_user"("id") ON DELETE CASCADE,
+    "product_id" uuid NOT NULL REFERENCES "product"("id") ON DELETE CASCADE,
+    "score" double precision NOT NULL,
+    "position" integer NOT NULL,
+    "computed_at" timestamp with time zone NOT NULL,
+    CONSTRAINT "pk_user_recommendation" PRIMARY KEY ("user_id", "product_id")
+);
+
+CREATE INDEX IF NOT EXISTS "ix_user_recommendation_position" ON "user_recommendation" ("user_id", "position");
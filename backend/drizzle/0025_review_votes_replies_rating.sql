@@ -0,0 +1,55 @@
+-- Migration: Review helpful votes, merchant replies and product rating summary
+-- Adds: product_review_vote, product_review.helpful_count / reply_*, product.rating / review_count / rating_distribution
+-- Backfills: product_review.verified_purchase from delivered orders, product rating summary from published reviews
+
+ALTER TABLE "product_review" ADD COLUMN IF NOT EXISTS "helpful_count" integer DEFAULT 0 NOT NULL;
+ALTER TABLE "product_review" ADD COLUMN IF NOT EXISTS "reply_body" text;
+ALTER TABLE "product_review" ADD COLUMN IF NOT EXISTS "reply_author_id" uuid REFERENCES "app_user"("id") ON DELETE SET NULL;
+ALTER TABLE "product_review" ADD COLUMN IF NOT EXISTS "replied_at" timestamp with time zone;
+
+CREATE INDEX IF NOT EXISTS "ix_review_product_helpful" ON "product_review" ("product_id", "helpful_count");
+
+CREATE TABLE IF NOT EXISTS "product_review_vote" (
+    "review_id" uuid NOT NULL REFERENCES "product_review"("id") ON DELETE CASCADE,
+    "user_id" uuid NOT NULL REFERENCES "app_user"("id") ON DELETE CASCADE,
+    "created_at" timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT "pk_review_vote" PRIMARY KEY ("review_id", "user_id")
+);
+
+CREATE INDEX IF NOT EXISTS "ix_review_vote_user" ON "product_review_vote" ("user_id");
+
+ALTER TABLE "product" ADD COLUMN IF NOT EXISTS "rating" numeric(3, 2) DEFAULT '0' NOT NULL;
+ALTER TABLE "product" ADD COLUMN IF NOT EXISTS "review_count" integer DEFAULT 0 NOT NULL;
+ALTER TABLE "product" ADD COLUMN IF NOT EXISTS "rating_distribution" jsonb DEFAULT '{"1":0,"2":0,"3":0,"4":0,"5":0}'::jsonb NOT NULL;
+
+-- verified_purchase was never derived before: a review is verified when its author received the product
+UPDATE "product_review" r
+SET "verified_purchase" = EXISTS (
+    SELECT 1
+    FROM "order" o
+    JOIN "order_item" oi ON oi.order_id = o.id
+    WHERE o.user_id = r.user_id
+      AND oi.product_id = r.product_id
+      AND o.delivery_status = 'delivered'
+);
+
+UPDATE "product" p
+SET "rating" = s.avg_rating,
+    "review_count" = s.total,
+    "rating_distribution" = s.distribution
+FROM (
+    SELECT product_id,
+           ROUND(AVG(rating)::numeric, 2) AS avg_rating,
+           COUNT(*)::int AS total,
+           jsonb_build_object(
+               '1', COUNT(*) FILTER (WHERE rating = 1),
+               '2', COUNT(*) FILTER (WHERE rating = 2),
+               '3', COUNT(*) FILTER (WHERE rating = 3),
+               '4', COUNT(*) FILTER (WHERE rating = 4),
+               '5', COUNT(*) FILTER (WHERE rating = 5)
+           ) AS distribution
+    FROM "product_review"
+    WHERE status = 'published'
+    GROUP BY product_id
+) s
+WHERE s.product_id = p.id;
@@ -0,0 +1,6 @@
+-- Migration: Separate ledger op type for releasing a rejected / canceled withdrawal
+-- Adds: ledger_op_type 'withdrawal_unlock'
+-- Earlier unlocks stay 'withdrawal_request' and are told apart by meta.kind = 'unlock'
+-- (a new enum value cannot be used in the transaction that adds it)
+
+ALTER TYPE "ledger_op_type" ADD VALUE IF NOT EXISTS 'withdrawal_unlock';
@@ -19,6 +19,15 @@ export interface SettlementRuntime {
     referralLevel1Percent: number;
     referralLevel2Percent: number;
     referralLevel3Percent: number;
+    // Binary bonus
+    binaryBonusPercent: number;
+    binaryPeriodCapRub: number | null;
+    // Compression (L1-L15)
+    isCompressionEnabled: boolean;
+    compressionActivityDays: number;
+    compressionMinPv: number;
+    // Окно возврата (холд бонусов за доставку)
+    bonusHoldDays: number;
 }
 
 export let settlementSettingsRuntime: SettlementRuntime = {
@@ -33,6 +42,12 @@ export let settlementSettingsRuntime: SettlementRuntime = {
     referralLevel1Percent: 20,
     referralLevel2Percent: 5,
     referralLevel3Percent: 1,
+    binaryBonusPercent: 10,
+    binaryPeriodCapRub: null,
+    isCompressionEnabled: false,
+    compressionActivityDays: 30,
+    compressionMinPv: 1,
+    bonusHoldDays: 14,
 };
 
 /**
@@ -61,6 +76,12 @@ export async function loadSettlementSettings() {
                 referralLevel1Percent: Number((active as any).referralLevel1Percent ?? 20),
                 referralLevel2Percent: Number((active as any).referralLevel2Percent ?? 5),
                 referralLevel3Percent: Number((active as any).referralLevel3Percent ?? 1),
+                binaryBonusPercent: Number(active.binaryBonusPercent ?? 10),
+                binaryPeriodCapRub: active.binaryPeriodCapRub != null ? Number(active.binaryPeriodCapRub) : null,
+                isCompressionEnabled: Boolean(active.isCompressionEnabled),
+                compressionActivityDays: Number(active.compressionActivityDays ?? 30),
+                compressionMinPv: Number(active.compressionMinPv ?? 1),
+                bonusHoldDays: Number(active.bonusHoldDays ?? 14),
             };
             console.log('✅ Loaded settlement_settings from DB:', settlementSettingsRuntime);
         } else {
@@ -77,10 +98,14 @@ export async function loadSettlementSettings() {
                 roundingPv: 'floor',
                 calcTimezone: 'Europe/Moscow',
                 isCompressionEnabled: false,
+                compressionActivityDays: 30,
+                compressionMinPv: '1',
+                bonusHoldDays: 14,
                 fastStartWeeks: 8,
                 fastStartStartPoint: 'activation',
                 infinityRate: '0.0025',
                 optionBonusPercent: '3',
+                binaryBonusPercent: '10',
                 isActive: true,
             });
             console.log('✅ Created default settlement_settings, using defaults:', settlementSettingsRuntime);
@@ -6,16 +6,21 @@ import { asyncHandler, AppError, AppErrorCode } from '../middleware/errorHandler
 import { orderItemStorage } from '#storage/orderItemStorage';
 import ordersStorage from '#storage/ordersStorage';
 import { productStorage } from '#storage/productsStorage';
+import { productVariantsStorage } from '#storage/productVariantsStorage';
+import { productBundlesStorage, bundleStock } from '#storage/productBundlesStorage';
 import { product } from '#db/schema/products';
+import { productVariant } from '#db/schema/productVariants';
 import { orderItem } from '#db/schema/orderItem';
 import { db } from '#db/db';
-import { eq } from 'drizzle-orm';
+import { and, eq, sql } from 'drizzle-orm';
 
 /* ───────────────── Validation Schemas ───────────────── */
 
 const CartActionSchema = z.object({
     action: z.enum(['add', 'update', 'remove']),
     product_id: z.string().uuid(),
+    // Обязателен для товара с вариантами
+    variant_id: z.string().uuid().nullable().optional(),
     quantity: z.number().int().min(0).optional(),
 });
 
@@ -24,6 +29,7 @@ const SyncCartSchema = z.object({
     items: z.array(
         z.object({
             productId: z.string().uuid(),
+            variantId: z.string().uuid().nullable().optional(),
             quantity: z.number().int().min(1),
         })
     ),
@@ -56,6 +62,8 @@ export const cartController = {
                     items: items.map((i) => ({
                         id: i.id,
                         productId: i.productId,
+                        variantId: i.variantId,
+                        variantName: i.variantName,
                         name: i.productName,
                         slug: i.productSlug,
                         price: i.unitPriceRub,
@@ -112,10 +120,11 @@ export const cartController = {
                     productId: orderItem.productId,
                     unitPrice: orderItem.unitPriceRub,
                     qty: orderItem.qty,
-                    customCashback: product.customCashback,
+                    customCashback: sql<string | null>`coalesce(${productVariant.customCashback}, ${product.customCashback})`,
                 })
                 .from(orderItem)
                 .leftJoin(product, eq(orderItem.productId, product.id))
+                .leftJoin(productVariant, eq(orderItem.variantId, productVariant.id))
                 .where(eq(orderItem.orderId, order.id));
 
             const totalCashback = itemsWithCashback.reduce((sum, item) => {
@@ -135,6 +144,8 @@ export const cartController = {
                     items: items.map((i) => ({
                         id: i.id,
                         productId: i.productId,
+                        variantId: i.variantId,
+                        variantName: i.variantName,
                         name: i.productName,
                         slug: i.productSlug,
                         imageUrl: i.imageUrl,
@@ -244,6 +255,8 @@ export const cartController = {
                     items: items.map((i) => ({
                         id: i.id,
                         productId: i.productId,
+                        variantId: i.variantId,
+                        variantName: i.variantName,
                         name: i.productName,
                         slug: i.productSlug,
                         imageUrl: i.imageUrl,
@@ -275,7 +288,8 @@ export const cartController = {
         authMiddleware,
         asyncHandler(async (req: Request, res: Response) => {
             const userId = req.user!.id;
-            const { action, product_id, quantity } = CartActionSchema.parse(req.body);
+            const { action, product_id, variant_id, quantity } = CartActionSchema.parse(req.body);
+            const variantId = variant_id ?? null;
 
             const order = await ordersStorage.findOrCreateDraftOrder(userId);
 
@@ -285,16 +299,26 @@ export const cartController = {
                 throw new AppError(AppErrorCode.NOT_FOUND, 'Product not found', 404);
             }
 
+            // Товар с вариантами кладётся в корзину только вариантом
+            if (variantId) {
+                const variant = await productVariantsStorage.getById(variantId);
+                if (!variant || variant.productId !== product_id) {
+                    throw new AppError(AppErrorCode.NOT_FOUND, 'Product variant not found', 404);
+                }
+            } else if (action !== 'remove' && (await productVariantsStorage.productsWithVariants([product_id])).size > 0) {
+                throw new AppError(AppErrorCode.VALIDATION_ERROR, 'variant_id is required for products with variants', 400);
+            }
+
             // Выполнить действие
             switch (action) {
                 case 'add':
-                    await orderItemStorage.addItem(order.id, product_id, quantity ?? 1);
+                    await orderItemStorage.addItem(order.id, product_id, quantity ?? 1, undefined, variantId);
                     break;
                 case 'update':
-                    await orderItemStorage.setQuantity(order.id, product_id, quantity ?? 1);
+                    await orderItemStorage.setQuantity(order.id, product_id, quantity ?? 1, variantId);
                     break;
                 case 'remove':
-                    await orderItemStorage.removeItem(order.id, product_id);
+                    await orderItemStorage.removeItem(order.id, product_id, variantId);
                     break;
             }
 
@@ -309,6 +333,8 @@ export const cartController = {
                     items: items.map((i) => ({
                         id: i.id,
                         productId: i.productId,
+                        variantId: i.variantId,
+                        variantName: i.variantName,
                         name: i.productName,
                         price: i.unitPriceRub,
                         qty: i.qty,
@@ -357,11 +383,13 @@ export const cartController = {
             await db.transaction(async (tx) => {
                 for (const item of items) {
                     try {
-                        // ✅ FIX-0.3: Проверяем stock ПЕРЕД добавлением
+                        // ✅ FIX-0.3: Проверяем stock ПЕРЕД добавлением (у варианта — его остаток)
+                        const variantId = item.variantId ?? null;
                         const [productData] = await tx
                             .select({
                                 id: product.id,
                                 stock: product.stock,
+                                isBundle: product.isBundle,
                                 name: product.name,
                             })
                             .from(product)
@@ -377,17 +405,38 @@ export const cartController = {
                             continue;
                         }
 
+                        let stock = productData.stock;
+                        if (variantId) {
+                            const [variantData] = await tx
+                                .select({ stock: productVariant.stock })
+                                .from(productVariant)
+                                .where(and(eq(productVariant.id, variantId), eq(productVariant.productId, item.productId), eq(productVariant.isActive, true)))
+                                .limit(1);
+                            if (!variantData) {
+                                results.skipped.push({ productId: item.productId, reason: 'Variant not available' });
+                                continue;
+                            }
+                            stock = variantData.stock;
+                        } else if (productData.isBundle) {
+                            // У набора своего остатка нет — сколько собирается из компонентов
+                            const components = (await productBundlesStorage.listComponents([item.productId], tx)).get(item.productId) ?? [];
+                            stock = bundleStock(components);
+                        } else if ((await productVariantsStorage.productsWithVariants([item.productId], tx)).size > 0) {
+                            results.skipped.push({ productId: item.productId, reason: 'Variant is required' });
+                            continue;
+                        }
+
                         // ✅ FIX-0.3: Проверка stock
-                        if (productData.stock < item.quantity) {
+                        if (stock < item.quantity) {
                             results.skipped.push({
                                 productId: item.productId,
-                                reason: `Insufficient stock (available: ${productData.stock}, requested: ${item.quantity})`,
+                                reason: `Insufficient stock (available: ${stock}, requested: ${item.quantity})`,
                             });
                             continue;
                         }
 
                         // ✅ FIX-0.1: Передаём tx в addItem
-                        await orderItemStorage.addItem(order.id, item.productId, item.quantity, tx);
+                        await orderItemStorage.addItem(order.id, item.productId, item.quantity, tx, variantId);
                         results.synced.push(item.productId);
                     } catch (error: any) {
                         // ✅ FIX-0.5: Ловим ошибки для каждого item
@@ -413,6 +462,8 @@ export const cartController = {
                     items: cartItems.map((i) => ({
                         id: i.id,
                         productId: i.productId,
+                        variantId: i.variantId,
+                        variantName: i.variantName,
                         name: i.productName,
                         price: i.unitPriceRub,
                         qty: i.qty,
@@ -0,0 +1,108 @@
+// backend/src/controllers/deliveryController.ts
+import type { Request, Response } from 'express';
+import { timingSafeEqual } from 'crypto';
+import { z } from 'zod';
+import { authMiddleware } from '../middleware/auth';
+import { asyncHandler, AppError, AppErrorCode } from '../middleware/errorHandler';
+import ordersStorage from '#storage/ordersStorage';
+import { orderItemStorage } from '#storage/orderItemStorage';
+import { deliveryFeeService } from '../services/deliveryFeeService';
+import { deliveryShipmentService } from '../services/deliveryShipmentService';
+import { deliveryTrackingService } from '../services/deliveryTrackingService';
+import { CarrierApiError, loadOrderParcel } from '../services/delivery';
+
+const Carrier = z.enum(['sdek', 'russianpost', 'yandex']);
+
+const Destination = z.object({
+    postalCode: z.string().regex(/^\d{6}$/).optional(),
+    city: z.string().max(200).optional(),
+    cityCode: z.number().int().positive().optional(),
+    pickupPointCode: z.string().max(100).optional(),
+});
+
+const QuoteBody = z.object({
+    carrier: Carrier,
+    destination: Destination.default({}),
+    address: z.string().max(1000).optional(),
+});
+
+const PickupPointsQuery = z
+    .object({
+        carrier: Carrier,
+        city: z.string().max(200).optional(),
+        postalCode: z.string().regex(/^\d{6}$/).optional(),
+        cityCode: z.coerce.number().int().positive().optional(),
+        limit: z.coerce.number().int().min(1).max(100).default(50),
+    })
+    .refine((q) => q.city || q.postalCode || q.cityCode, { message: 'city, postalCode or cityCode is required' });
+
+/**
+ * Вебхуки перевозчиков подписи не имеют — URL подписки содержит секрет DELIVERY_WEBHOOK_SECRET.
+ * Без секрета вебхуки не принимаются.
+ */
+function webhookTokenValid(token: string): boolean {
+    const secret = process.env.DELIVERY_WEBHOOK_SECRET;
+    if (!secret) return false;
+    const a = Buffer.from(token);
+    const b = Buffer.from(secret);
+    return a.length === b.length && timingSafeEqual(a, b);
+}
+
+export const deliveryController = {
+    // POST /api/delivery/quote — стоимость доставки текущей корзины
+    quote: [
+        authMiddleware,
+        asyncHandler(async (req: Request, res: Response) => {
+            const body = QuoteBody.parse(req.body);
+
+            const draft = await ordersStorage.findDraftOrder(req.user!.id);
+            if (!draft) throw new AppError(AppErrorCode.NOT_FOUND, 'No draft order (cart) found', 404);
+
+            const items = await orderItemStorage.listByOrder(draft.id);
+            const subtotal = items.reduce((sum, i) => sum + Number(i.lineTotalRub ?? 0), 0);
+            const { parcel } = await loadOrderParcel(draft.id);
+            const fee = await deliveryFeeService.calculateFee({
+                deliveryService: body.carrier,
+                // Адрес нужен только как признак доставки, если клиент выбрал ПВЗ
+                deliveryAddress: body.address ?? body.destination.pickupPointCode ?? body.destination.city ?? null,
+                cartSubtotalRub: subtotal,
+                destination: body.destination,
+                parcel,
+            });
+
+            return res.json({ success: true, data: { ...fee, parcel } });
+        }),
+    ],
+
+    // GET /api/delivery/pickup-points?carrier=sdek&city=Москва
+    pickupPoints: [
+        asyncHandler(async (req: Request, res: Response) => {
+            const { carrier, limit, ...query } = PickupPointsQuery.parse(req.query);
+            try {
+                const data = await deliveryShipmentService.findPickupPoints(carrier, { ...query, limit });
+                return res.json({ success: true, data });
+            } catch (e) {
+                if (e instanceof CarrierApiError) {
+                    throw new AppError(AppErrorCode.EXTERNAL_SERVICE_ERROR, e.message, 502);
+                }
+                throw e;
+            }
+        }),
+    ],
+
+    // POST /api/delivery/webhooks/:carrier/:token — статусы отправлений от перевозчика
+    webhook: [
+        asyncHandler(async (req: Request, res: Response) => {
+            const { carrier, token } = z.object({ carrier: Carrier, token: z.string().min(1) }).parse(req.params);
+            if (!webhookTokenValid(token)) {
+                throw new AppError(AppErrorCode.FORBIDDEN, 'Invalid webhook token', 403);
+            }
+
+            const results = await deliveryTrackingService.handleWebhook(carrier, req.body);
+            return res.json({
+                success: true,
+                recorded: results.reduce((sum, r) => sum + r.recorded, 0),
+            });
+        }),
+    ],
+};
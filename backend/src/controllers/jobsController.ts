@@ -0,0 +1,130 @@
+// backend/src/controllers/jobsController.ts
+import type { Request, Response } from 'express';
+import { z } from 'zod';
+import { authMiddleware } from '../middleware/auth';
+import { requireAdmin } from '../middleware/rbacMiddleware';
+import { asyncHandler, AppError, AppErrorCode } from '../middleware/errorHandler';
+import { scheduledJobsStorage } from '#storage/scheduledJobsStorage';
+import type { ScheduledJob } from '#db/schema/scheduledJobs';
+import { jobScheduler } from '../services/jobScheduler';
+
+/* ───────────────── Validation Schemas ───────────────── */
+
+const JobNameParams = z.object({ name: z.string().min(1).max(100) });
+
+const RunsQuery = z.object({
+    limit: z.coerce.number().int().min(1).max(200).default(20),
+    offset: z.coerce.number().int().min(0).default(0),
+});
+
+/* ───────────────── Helpers ───────────────── */
+
+function toJobDto(job: ScheduledJob) {
+    return {
+        ...job,
+        registered: jobScheduler.isRegistered(job.name),
+        running: jobScheduler.isRunning(job.name),
+    };
+}
+
+async function mustGetJob(name: string): Promise<ScheduledJob> {
+    const job = await scheduledJobsStorage.getJob(name);
+    if (!job) {
+        throw new AppError(AppErrorCode.NOT_FOUND, 'Job not found', 404);
+    }
+    return job;
+}
+
+/* ───────────────── Jobs Controller (ADMIN) ───────────────── */
+
+export const jobsController = {
+    /** GET /api/admin/jobs — список задач планировщика */
+    listJobs: [
+        authMiddleware,
+        requireAdmin,
+        asyncHandler(async (_req: Request, res: Response) => {
+            const jobs = await scheduledJobsStorage.listJobs();
+            return res.json({ success: true, jobs: jobs.map(toJobDto) });
+        }),
+    ],
+
+    /** GET /api/admin/jobs/:name — задача + последние запуски */
+    getJob: [
+        authMiddleware,
+        requireAdmin,
+        asyncHandler(async (req: Request, res: Response) => {
+            const { name } = JobNameParams.parse(req.params);
+            const job = await mustGetJob(name);
+            const runs = await scheduledJobsStorage.listRuns(name, { limit: 10 });
+
+            return res.json({ success: true, job: toJobDto(job), runs });
+        }),
+    ],
+
+    /** GET /api/admin/jobs/:name/runs — история запусков */
+    listRuns: [
+        authMiddleware,
+        requireAdmin,
+        asyncHandler(async (req: Request, res: Response) => {
+            const { name } = JobNameParams.parse(req.params);
+            const { limit, offset } = RunsQuery.parse(req.query);
+            await mustGetJob(name);
+
+            const runs = await scheduledJobsStorage.listRuns(name, { limit, offset });
+            return res.json({ success: true, runs, limit, offset });
+        }),
+    ],
+
+    /** POST /api/admin/jobs/:name/trigger — запустить сейчас (игнорирует паузу) */
+    triggerJob: [
+        authMiddleware,
+        requireAdmin,
+        asyncHandler(async (req: Request, res: Response) => {
+            const { name } = JobNameParams.parse(req.params);
+            await mustGetJob(name);
+
+            if (!jobScheduler.isRegistered(name)) {
+                throw new AppError(
+                    AppErrorCode.VALIDATION_ERROR,
+                    'Job has no handler registered in this instance',
+                    400,
+                );
+            }
+
+            const outcome = await jobScheduler.trigger(name, req.user!.id);
+
+            return res.json({
+                success: outcome.status === 'succeeded',
+                message: `Job ${outcome.status}`,
+                status: outcome.status,
+                runs: outcome.runs,
+            });
+        }),
+    ],
+
+    /** POST /api/admin/jobs/:name/pause — приостановить запуски по расписанию */
+    pauseJob: [
+        authMiddleware,
+        requireAdmin,
+        asyncHandler(async (req: Request, res: Response) => {
+            const { name } = JobNameParams.parse(req.params);
+            await mustGetJob(name);
+
+            const job = await jobScheduler.pause(name);
+            return res.json({ success: true, message: 'Job paused', job: job && toJobDto(job) });
+        }),
+    ],
+
+    /** POST /api/admin/jobs/:name/resume — возобновить запуски по расписанию */
+    resumeJob: [
+        authMiddleware,
+        requireAdmin,
+        asyncHandler(async (req: Request, res: Response) => {
+            const { name } = JobNameParams.parse(req.params);
+            await mustGetJob(name);
+
+            const job = await jobScheduler.resume(name);
+            return res.json({ success: true, message: 'Job resumed', job: job && toJobDto(job) });
+        }),
+    ],
+};
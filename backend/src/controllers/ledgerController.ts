@@ -5,12 +5,19 @@ import { authMiddleware } from '../middleware/auth';
 import { requireAdmin } from '../middleware/rbacMiddleware';
 import { asyncHandler, AppError, AppErrorCode } from '../middleware/errorHandler';
 import { ledgerStorage, type LedgerPostingView } from '#storage/ledgerStorage';
+import { ledgerReconciliationStorage } from '#storage/ledgerReconciliationStorage';
+import { ledgerReconciliationService, type TrialBalanceRow } from '../services/ledgerReconciliationService';
+import type { LedgerReconciliationFinding } from '#db/schema/ledgerReconciliation';
+import { toCsv, sendCsv, type CsvColumn } from '#utils/csv';
+import { accountStatementService, type AccountStatement } from '../services/accountStatementService';
+import { usersStorage } from '#storage/usersStorage';
+import { bonusHoldService } from '../services/bonusHoldService';
 
 /* ───────────────── Validation Schemas ───────────────── */
 
 const GetBalanceQuery = z.object({
     currency: z.enum(['RUB', 'VWC', 'PV']),
-    type: z.enum(['cash_rub', 'pv', 'vwc', 'referral', 'reserve_special', 'network_fund']),
+    type: z.enum(['cash_rub', 'pv', 'vwc', 'referral', 'reserve_special', 'network_fund', 'receivable', 'hold']),
 });
 
 const ListTransactionsQuery = z.object({
@@ -19,12 +26,105 @@ const ListTransactionsQuery = z.object({
 });
 
 const UserIdParam = z.object({ userId: z.string().uuid() });
+
+/** Выписка: по умолчанию — cash_rub/RUB с начала текущего месяца до текущего момента */
+const MAX_STATEMENT_DAYS = 366;
+const StatementQuery = z
+    .object({
+        type: GetBalanceQuery.shape.type.default('cash_rub'),
+        currency: GetBalanceQuery.shape.currency.default('RUB'),
+        from: z.coerce.date().optional(),
+        to: z.coerce.date().optional(),
+        format: z.enum(['json', 'csv', 'pdf']).default('json'),
+    })
+    .transform((q) => {
+        const now = new Date();
+        return {
+            ...q,
+            from: q.from ?? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+            to: q.to ?? now,
+        };
+    })
+    .refine((q) => q.from < q.to, { message: '`from` must be earlier than `to`' })
+    .refine((q) => q.to.getTime() - q.from.getTime() <= MAX_STATEMENT_DAYS * 86_400_000, {
+        message: `Statement period must not exceed ${MAX_STATEMENT_DAYS} days`,
+    });
+const RunIdParam = z.object({ id: z.string().uuid() });
+
+const TrialBalanceQuery = z.object({
+    asOf: z.coerce.date().optional(),
+    format: z.enum(['json', 'csv']).default('json'),
+});
+
+const RunReconciliationBody = z.object({
+    asOf: z.coerce.date().optional(),
+});
+
+const ListFindingsQuery = z.object({
+    kind: z
+        .enum(['unbalanced_txn', 'empty_txn', 'user_balance_mismatch', 'negative_account', 'orphan_account'])
+        .optional(),
+    limit: z.coerce.number().int().min(1).max(1000).default(100),
+    offset: z.coerce.number().int().min(0).default(0),
+    format: z.enum(['json', 'csv']).default('json'),
+});
+
+/* ───────────────── CSV ───────────────── */
+
+const trialBalanceCsv: CsvColumn<TrialBalanceRow>[] = [
+    { header: 'type', value: (r) => r.type },
+    { header: 'currency', value: (r) => r.currency },
+    { header: 'accounts', value: (r) => r.accounts },
+    { header: 'debit', value: (r) => r.debit.toFixed(2) },
+    { header: 'credit', value: (r) => r.credit.toFixed(2) },
+    { header: 'balance', value: (r) => r.balance.toFixed(2) },
+];
+
+const findingsCsv: CsvColumn<LedgerReconciliationFinding>[] = [
+    { header: 'kind', value: (f) => f.kind },
+    { header: 'severity', value: (f) => f.severity },
+    { header: 'txn_id', value: (f) => f.txnId },
+    { header: 'account_id', value: (f) => f.accountId },
+    { header: 'user_id', value: (f) => f.userId },
+    { header: 'currency', value: (f) => f.currency },
+    { header: 'expected', value: (f) => f.expected },
+    { header: 'actual', value: (f) => f.actual },
+    { header: 'details', value: (f) => f.details },
+];
 const TypeParam = z.object({ type: z.string().min(1) });
 
+/* ───────────────── Statement ───────────────── */
+
+async function sendStatement(
+    res: Response,
+    userId: string,
+    query: z.infer<typeof StatementQuery>,
+): Promise<Response> {
+    const { format, ...params } = query;
+    const statement: AccountStatement = await accountStatementService.getStatement(userId, params);
+
+    if (format === 'json') return res.json({ success: true, statement });
+
+    const filename = `statement-${params.type}-${params.currency}-${params.from.toISOString().slice(0, 10)}`;
+    if (format === 'csv') return sendCsv(res, `${filename}.csv`, accountStatementService.toCsv(statement));
+
+    const user = await usersStorage.getUserById(userId);
+    const holder =
+        [user?.firstName, user?.lastName].filter(Boolean).join(' ') || user?.email || userId;
+    const pdf = await accountStatementService.renderPdf(statement, holder);
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}.pdf"`);
+    return res.send(pdf);
+}
+
 /* ───────────────── Ledger Controller ───────────────── */
 
 export const ledgerController = {
-    /** GET /api/ledger/my-accounts */
+    /**
+     * GET /api/ledger/my-accounts
+     * balance — доступные средства, pending — бонусы в окне возврата (ближайшее освобождение — nextReleaseAt)
+     */
     getMyAccounts: [
         authMiddleware,
         asyncHandler(async (req: Request, res: Response) => {
@@ -33,19 +133,28 @@ export const ledgerController = {
             const rubAcc = await ledgerStorage.ensureAccount(userId, 'RUB', 'cash_rub', 'user');
             const vwcAcc = await ledgerStorage.ensureAccount(userId, 'VWC', 'vwc', 'user');
             const pvAcc  = await ledgerStorage.ensureAccount(userId, 'PV',  'pv',  'user');
+            const refAcc = await ledgerStorage.ensureAccount(userId, 'RUB', 'referral', 'user');
 
-            const [rubBal, vwcBal, pvBal] = await Promise.all([
+            const [rubBal, vwcBal, pvBal, refBal, pending] = await Promise.all([
                 ledgerStorage.getBalance(rubAcc.id),
                 ledgerStorage.getBalance(vwcAcc.id),
                 ledgerStorage.getBalance(pvAcc.id),
+                ledgerStorage.getBalance(refAcc.id),
+                bonusHoldService.getPending(userId),
             ]);
 
+            const held = (type: string, currency: string) => {
+                const row = pending.find((p) => p.targetType === type && p.currency === currency);
+                return { pending: (row?.amount ?? 0).toFixed(2), nextReleaseAt: row?.nextReleaseAt ?? null };
+            };
+
             return res.json({
                 success: true,
                 accounts: [
-                    { id: rubAcc.id, currency: 'RUB', type: 'cash_rub', balance: rubBal.toFixed(2) },
-                    { id: vwcAcc.id, currency: 'VWC', type: 'vwc',     balance: vwcBal.toFixed(2) },
-                    { id: pvAcc.id,  currency: 'PV',  type: 'pv',      balance: pvBal.toFixed(0) },
+                    { id: rubAcc.id, currency: 'RUB', type: 'cash_rub', balance: rubBal.toFixed(2), ...held('cash_rub', 'RUB') },
+                    { id: vwcAcc.id, currency: 'VWC', type: 'vwc',      balance: vwcBal.toFixed(2), ...held('vwc', 'VWC') },
+                    { id: pvAcc.id,  currency: 'PV',  type: 'pv',       balance: pvBal.toFixed(0) },
+                    { id: refAcc.id, currency: 'RUB', type: 'referral', balance: refBal.toFixed(2), ...held('referral', 'RUB') },
                 ],
             });
         }),
@@ -99,8 +208,32 @@ export const ledgerController = {
         }),
     ],
 
+    /** GET /api/ledger/statement?type=&currency=&from=&to=&format=json|csv|pdf */
+    getMyStatement: [
+        authMiddleware,
+        asyncHandler(async (req: Request, res: Response) => {
+            const query = StatementQuery.parse(req.query);
+            return sendStatement(res, req.user!.id, query);
+        }),
+    ],
+
     /* ───────────────── Admin Ledger ───────────────── */
 
+    /** GET /api/admin/ledger/statement/:userId?type=&currency=&from=&to=&format=json|csv|pdf */
+    getUserStatement: [
+        authMiddleware,
+        requireAdmin,
+        asyncHandler(async (req: Request, res: Response) => {
+            const { userId } = UserIdParam.parse(req.params);
+            const query = StatementQuery.parse(req.query);
+
+            const user = await usersStorage.getUserById(userId);
+            if (!user) throw new AppError(AppErrorCode.NOT_FOUND, 'User not found', 404);
+
+            return sendStatement(res, userId, query);
+        }),
+    ],
+
     /** GET /api/admin/ledger/accounts */
     listAllAccounts: [
         authMiddleware,
@@ -192,6 +325,101 @@ export const ledgerController = {
         }),
     ],
 
+    /* ───────────────── Reconciliation ───────────────── */
+
+    /** GET /api/admin/ledger/trial-balance?asOf=&format=csv */
+    getTrialBalance: [
+        authMiddleware,
+        requireAdmin,
+        asyncHandler(async (req: Request, res: Response) => {
+            const { asOf, format } = TrialBalanceQuery.parse(req.query);
+
+            const trialBalance = await ledgerReconciliationService.getTrialBalance(asOf ?? new Date());
+
+            if (format === 'csv') {
+                const day = trialBalance.asOf.slice(0, 10);
+                return sendCsv(res, `trial-balance-${day}.csv`, toCsv(trialBalanceCsv, trialBalance.rows));
+            }
+            return res.json({ success: true, trialBalance });
+        }),
+    ],
+
+    /** POST /api/admin/ledger/reconciliation/runs */
+    runReconciliation: [
+        authMiddleware,
+        requireAdmin,
+        asyncHandler(async (req: Request, res: Response) => {
+            const { asOf } = RunReconciliationBody.parse(req.body ?? {});
+
+            const run = await ledgerReconciliationService.run({
+                ...(asOf ? { asOf } : {}),
+                trigger: 'manual',
+                triggeredBy: req.user!.id,
+            });
+            return res.status(201).json({ success: true, run });
+        }),
+    ],
+
+    /** GET /api/admin/ledger/reconciliation/runs */
+    listReconciliationRuns: [
+        authMiddleware,
+        requireAdmin,
+        asyncHandler(async (req: Request, res: Response) => {
+            const { limit, offset } = ListTransactionsQuery.parse(req.query);
+
+            const runs = await ledgerReconciliationStorage.listRuns({ limit, offset });
+            return res.json({
+                success: true,
+                runs: runs.map(({ trialBalance: _tb, ...run }) => run),
+                pagination: { limit, offset },
+            });
+        }),
+    ],
+
+    /** GET /api/admin/ledger/reconciliation/runs/:id */
+    getReconciliationRun: [
+        authMiddleware,
+        requireAdmin,
+        asyncHandler(async (req: Request, res: Response) => {
+            const { id } = RunIdParam.parse(req.params);
+
+            const run = await ledgerReconciliationStorage.getRun(id);
+            if (!run) throw new AppError(AppErrorCode.NOT_FOUND, 'Reconciliation run not found', 404);
+
+            const findingsByKind = await ledgerReconciliationStorage.countFindingsByKind(id);
+            return res.json({ success: true, run, findingsByKind });
+        }),
+    ],
+
+    /** GET /api/admin/ledger/reconciliation/runs/:id/findings?kind=&format=csv */
+    listReconciliationFindings: [
+        authMiddleware,
+        requireAdmin,
+        asyncHandler(async (req: Request, res: Response) => {
+            const { id } = RunIdParam.parse(req.params);
+            const { kind, limit, offset, format } = ListFindingsQuery.parse(req.query);
+
+            const run = await ledgerReconciliationStorage.getRun(id);
+            if (!run) throw new AppError(AppErrorCode.NOT_FOUND, 'Reconciliation run not found', 404);
+
+            if (format === 'csv') {
+                // CSV — все сохранённые находки прогона, без пагинации
+                const findings = await ledgerReconciliationStorage.listFindings(id, {
+                    ...(kind ? { kind } : {}),
+                    limit: Math.max(run.findingsCount, 1),
+                });
+                return sendCsv(res, `reconciliation-${id}.csv`, toCsv(findingsCsv, findings));
+            }
+
+            const findings = await ledgerReconciliationStorage.listFindings(id, {
+                ...(kind ? { kind } : {}),
+                limit,
+                offset,
+            });
+            return res.json({ success: true, findings, pagination: { limit, offset } });
+        }),
+    ],
+
     /** POST /api/admin/ledger/manual-posting */
     createManualPosting: [
         authMiddleware,
@@ -0,0 +1,153 @@
+// backend/src/controllers/levelsMatrixController.ts
+import type { Request, Response } from 'express';
+import { z } from 'zod';
+import { authMiddleware } from '../middleware/auth';
+import { requireAdmin } from '../middleware/rbacMiddleware';
+import { asyncHandler, AppError, AppErrorCode } from '../middleware/errorHandler';
+import { levelsMatrixService, LEVELS_COUNT } from '../services/levelsMatrixService';
+
+/* ───────────────── Validation Schemas ───────────────── */
+
+const ZRate = z.coerce.number().min(0).max(1);
+
+const MatrixSchema = z.object({
+    sumMode: z.enum(['reserve_7pct', 'full']).default('reserve_7pct'),
+    levels: z.array(ZRate).length(LEVELS_COUNT),
+    fastLevels: z.array(ZRate).length(LEVELS_COUNT),
+});
+
+const CreateVersionSchema = MatrixSchema.extend({
+    versionNote: z.string().max(500).optional(),
+    // Сразу запланировать (опционально)
+    activateAt: z.coerce.date().optional(),
+});
+
+const ScheduleSchema = z.object({
+    activateAt: z.coerce.date().optional(), // по умолчанию — немедленно
+});
+
+const IdParams = z.object({ id: z.string().uuid() });
+
+/* ───────────────── Levels Matrix Controller (ADMIN) ───────────────── */
+
+export const levelsMatrixController = {
+    /** GET /api/admin/levels-matrix — все версии + действующая сейчас */
+    listVersions: [
+        authMiddleware,
+        requireAdmin,
+        asyncHandler(async (_req: Request, res: Response) => {
+            const versions = await levelsMatrixService.list();
+            const current = await levelsMatrixService.resolveAt(new Date());
+
+            return res.json({ success: true, versions, currentVersionId: current.versionId });
+        }),
+    ],
+
+    /** GET /api/admin/levels-matrix/:id */
+    getVersion: [
+        authMiddleware,
+        requireAdmin,
+        asyncHandler(async (req: Request, res: Response) => {
+            const { id } = IdParams.parse(req.params);
+            const version = await levelsMatrixService.getById(id);
+            if (!version) {
+                throw new AppError(AppErrorCode.NOT_FOUND, 'Levels matrix version not found', 404);
+            }
+            return res.json({ success: true, version });
+        }),
+    ],
+
+    /** POST /api/admin/levels-matrix/validate — проверить матрицу без сохранения */
+    validateMatrix: [
+        authMiddleware,
+        requireAdmin,
+        asyncHandler(async (req: Request, res: Response) => {
+            const body = MatrixSchema.parse(req.body);
+            const validation = levelsMatrixService.validate(body);
+            return res.json({ success: true, ...validation });
+        }),
+    ],
+
+    /** POST /api/admin/levels-matrix — создать версию (черновик или сразу с activateAt) */
+    createVersion: [
+        authMiddleware,
+        requireAdmin,
+        asyncHandler(async (req: Request, res: Response) => {
+            const body = CreateVersionSchema.parse(req.body);
+
+            const validation = levelsMatrixService.validate(body);
+            if (!validation.valid) {
+                throw new AppError(AppErrorCode.VALIDATION_ERROR, validation.errors.join('; '), 400);
+            }
+
+            const telegramId = req.user?.telegramId ?? null;
+            let version = await levelsMatrixService.createVersion(
+                {
+                    sumMode: body.sumMode,
+                    levels: body.levels,
+                    fastLevels: body.fastLevels,
+                    versionNote: body.versionNote ?? null,
+                },
+                telegramId
+            );
+
+            if (body.activateAt) {
+                version = await levelsMatrixService.scheduleVersion(version.id, body.activateAt, telegramId);
+            }
+
+            return res.status(201).json({
+                success: true,
+                message: 'Levels matrix version created',
+                version,
+                validation,
+            });
+        }),
+    ],
+
+    /** POST /api/admin/levels-matrix/:id/schedule — запланировать вступление в силу */
+    scheduleVersion: [
+        authMiddleware,
+        requireAdmin,
+        asyncHandler(async (req: Request, res: Response) => {
+            const { id } = IdParams.parse(req.params);
+            const { activateAt } = ScheduleSchema.parse(req.body ?? {});
+
+            const existing = await levelsMatrixService.getById(id);
+            if (!existing) {
+                throw new AppError(AppErrorCode.NOT_FOUND, 'Levels matrix version not found', 404);
+            }
+
+            try {
+                const version = await levelsMatrixService.scheduleVersion(
+                    id,
+                    activateAt ?? new Date(),
+                    req.user?.telegramId ?? null
+                );
+                return res.json({ success: true, message: 'Levels matrix version scheduled', version });
+            } catch (err: any) {
+                throw new AppError(AppErrorCode.VALIDATION_ERROR, err?.message ?? 'Cannot schedule version', 400);
+            }
+        }),
+    ],
+
+    /** DELETE /api/admin/levels-matrix/:id/schedule — снять с расписания (до вступления в силу) */
+    unscheduleVersion: [
+        authMiddleware,
+        requireAdmin,
+        asyncHandler(async (req: Request, res: Response) => {
+            const { id } = IdParams.parse(req.params);
+
+            const existing = await levelsMatrixService.getById(id);
+            if (!existing) {
+                throw new AppError(AppErrorCode.NOT_FOUND, 'Levels matrix version not found', 404);
+            }
+
+            try {
+                const version = await levelsMatrixService.unscheduleVersion(id);
+                return res.json({ success: true, message: 'Levels matrix version unscheduled', version });
+            } catch (err: any) {
+                throw new AppError(AppErrorCode.VALIDATION_ERROR, err?.message ?? 'Cannot unschedule version', 400);
+            }
+        }),
+    ],
+};
@@ -1,21 +1,27 @@
 // backend/src/controllers/ordersController.ts
 import type { Request, Response } from 'express';
 import { z } from 'zod';
-import { inArray, sql, eq, and, gte } from 'drizzle-orm';
+import { inArray, sql, eq, and } from 'drizzle-orm';
 import { authMiddleware } from '../middleware/auth';
 import { requireAdmin } from '../middleware/rbacMiddleware';
 import { asyncHandler, AppError, AppErrorCode } from '../middleware/errorHandler';
 import ordersStorage from '#storage/ordersStorage';
 import { orderItemStorage } from '#storage/orderItemStorage';
 import { orderLifecycleService } from '../services/orderLifecycleService';
+import { orderReturnService } from '../services/orderReturnService';
 import { promoCodeService } from '../services/promoCodeService';
 import { deliveryFeeService } from '../services/deliveryFeeService';
+import { buildParcel } from '../services/delivery';
+import { deliveryTrackingService } from '../services/deliveryTrackingService';
+import { stockReservationService } from '../services/stockReservationService';
+import { deliveryEventsStorage } from '#storage/deliveryEventsStorage';
 import {
     orderStatusEnum,
     deliveryStatusEnum,
     paymentMethodEnum
 } from '#db/schema/enums';
 import { db } from '#db/db';
+import { orderBaseAccruals } from '#utils/money';
 
 /* ───────────────── Enums ───────────────── */
 
@@ -38,6 +44,17 @@ const CreateOrderSchema = z.object({
     paymentMethod: z.enum(paymentMethodEnum.enumValues),
     deliveryAddress: z.string().max(1000).optional(),
     deliveryService: z.enum(['sdek', 'russianpost', 'yandex']).optional(),
+    // Для тарифа и отправления у перевозчика (см. GET /api/delivery/pickup-points)
+    deliveryDestination: z
+        .object({
+            postalCode: z.string().regex(/^\d{6}$/).optional(),
+            city: z.string().max(200).optional(),
+            cityCode: z.number().int().positive().optional(),
+            pickupPointCode: z.string().max(100).optional(),
+            recipientName: z.string().max(200).optional(),
+            recipientPhone: z.string().max(30).optional()
+        })
+        .optional(),
     promoCode: z.string().max(50).optional(),
     idempotencyKey: z.string().uuid().optional()
 });
@@ -51,6 +68,21 @@ const UpdateDeliveryStatusSchema = z.object({
     trackingCode: z.string().optional()
 });
 
+const CreateReturnSchema = z.object({
+    items: z
+        .array(
+            z.object({
+                orderItemId: z.string().uuid(),
+                qty: z.number().int().positive(),
+                restock: z.boolean().optional()
+            })
+        )
+        .min(1)
+        .optional(),
+    reason: z.string().max(1000).optional(),
+    restock: z.boolean().optional()
+});
+
 const ListOrdersQuery = z.object({
     status: ZOrderStatus.optional(),
     deliveryStatus: ZDeliveryStatus.optional(),
@@ -116,12 +148,20 @@ export const ordersController = {
                         400
                     );
 
-                // Stock check
+                // Products (наличие + габариты для посылки)
                 const { product } = await import('../db/schema/products');
                 const productIds = items.map(i => i.productId);
 
                 const products = await tx
-                    .select({ id: product.id, stock: product.stock, name: product.name })
+                    .select({
+                        id: product.id,
+                        stock: product.stock,
+                        name: product.name,
+                        weightG: product.weightG,
+                        lengthCm: product.lengthCm,
+                        widthCm: product.widthCm,
+                        heightCm: product.heightCm
+                    })
                     .from(product)
                     .where(inArray(product.id, productIds))
                     .for('update');
@@ -138,38 +178,11 @@ export const ordersController = {
                             `Товар ${item.productName} не найден`,
                             404
                         );
-
-                    if (prod.stock < item.qty)
-                        throw new AppError(
-                            AppErrorCode.VALIDATION_ERROR,
-                            `Недостаточно товара "${prod.name}". Доступно ${prod.stock}, нужно ${item.qty}`,
-                            400
-                        );
                 }
 
-                /* ───────────────── ATOMIC STOCK UPDATE (C-3 FIX) ───────────────── */
-                for (const item of items) {
-                    const result = await tx
-                        .update(product)
-                        .set({
-                            stock: sql`stock - ${item.qty}`,
-                            updatedAt: new Date()
-                        })
-                        .where(
-                            and(
-                                eq(product.id, item.productId),
-                                gte(product.stock, item.qty)
-                            )
-                        )
-                        .returning({ id: product.id });
-
-                    if (result.length === 0)
-                        throw new AppError(
-                            AppErrorCode.VALIDATION_ERROR,
-                            `Недостаточно товара (productId=${item.productId})`,
-                            400
-                        );
-                }
+                /* ───────────── STOCK RESERVATION (stock списывается при оплате) ───────────── */
+                // Доступно = stock − чужие активные резервы; резерв держится до таймаута оплаты
+                await stockReservationService.reserveOrder(draft.id, tx);
 
                 /* ───────────────── Promo, Delivery, Totals ───────────────── */
                 const subtotal = items.reduce(
@@ -225,21 +238,23 @@ export const ordersController = {
                 // Согласно Registry.md: order_base = eligible товары после всех скидок, КРОМЕ доставки
                 const orderBase = eligibleSubtotal - promoDiscount - referralDiscount;
 
-                // ✅ РАССЧИТАТЬ PV согласно Registry.md: PV = floor(order_base / 200)
-                const pvEarned = Math.floor(orderBase / 200);
-
-                // ✅ РАССЧИТАТЬ VWC кэшбек согласно Registry.md: VWC = round(order_base * 0.05, 2)
-                const vwcCashback = Math.round(orderBase * 0.05 * 100) / 100;
-
-                // ✅ РАССЧИТАТЬ Network Fund согласно Registry.md: NetworkFund = round(order_base * 0.50, 2)
-                const networkFundRub = Math.round(orderBase * 0.50 * 100) / 100;
+                // ✅ PV, VWC кэшбек и Network Fund от order_base согласно Registry.md
+                const { pvEarned, vwcCashback, networkFundRub } = orderBaseAccruals(orderBase);
 
                 // Расчет доставки (используем ПОЛНЫЙ subtotal для проверки бесплатной доставки, НЕ orderBase)
                 const deliveryFeeResult =
                     await deliveryFeeService.calculateFee({
                         deliveryService: body.deliveryService ?? null,
                         deliveryAddress: body.deliveryAddress ?? null,
-                        cartSubtotalRub: subtotal // ← Используем subtotal (ВСЕ товары, не только eligible)
+                        cartSubtotalRub: subtotal, // ← Используем subtotal (ВСЕ товары, не только eligible)
+                        destination: body.deliveryDestination ?? null,
+                        parcel: buildParcel(
+                            items.map(i => ({
+                                ...productMap.get(i.productId),
+                                qty: i.qty,
+                                unitPriceRub: Number(i.unitPriceRub)
+                            }))
+                        )
                     });
 
                 const deliveryFee = deliveryFeeResult.feeRub;
@@ -253,6 +268,7 @@ export const ordersController = {
                     paymentMethod: body.paymentMethod,
                     deliveryAddress: body.deliveryAddress,
                     deliveryService: body.deliveryService,
+                    deliveryDestination: body.deliveryDestination ?? null,
                     deliveryFeeRub: String(deliveryFee),
                     deliveryRequired: !!body.deliveryAddress,
 
@@ -392,7 +408,9 @@ export const ordersController = {
                     items: items.map(i => ({
                         id: i.id,
                         productId: i.productId,
+                        variantId: i.variantId,
                         productName: i.productName,
+                        variantName: i.variantName,
                         productSlug: i.productSlug,
                         qty: i.qty,
                         unitPriceRub: i.unitPriceRub,
@@ -513,7 +531,9 @@ export const ordersController = {
                     items: items.map(i => ({
                         id: i.id,
                         productId: i.productId,
+                        variantId: i.variantId,
                         productName: i.productName,
+                        variantName: i.variantName,
                         productSlug: i.productSlug,
                         qty: i.qty,
                         unitPriceRub: i.unitPriceRub,
@@ -536,14 +556,19 @@ export const ordersController = {
 
             const { status } = UpdateOrderStatusSchema.parse(req.body);
 
-            const updated = await ordersStorage.update(orderId, {
-                status
-            });
+            // paid / canceled — через lifecycle: списание резерва со склада или его снятие
+            const updated = await orderLifecycleService.setStatusByAdmin(orderId, status);
+            if (!updated)
+                throw new AppError(
+                    AppErrorCode.NOT_FOUND,
+                    'Order not found',
+                    404
+                );
 
             return res.json({
                 success: true,
                 message: `Order status updated to ${status}`,
-                order: { id: updated!.id, status: updated!.status }
+                order: { id: updated.id, status: updated.status }
             });
         })
     ],
@@ -560,21 +585,20 @@ export const ordersController = {
             const { deliveryStatus, trackingCode } =
                 UpdateDeliveryStatusSchema.parse(req.body);
 
-            const updated = await ordersStorage.update(orderId, {
-                deliveryStatus,
-                ...(trackingCode
-                    ? { deliveryTrackingCode: trackingCode }
-                    : {})
+            // Та же цепочка, что у событий перевозчика: delivery_event + последствия статуса
+            const { order: updated } = await deliveryTrackingService.setManual(orderId, deliveryStatus, {
+                trackingCode,
+                createdBy: req.user!.id
             });
 
             return res.json({
                 success: true,
                 message: `Delivery status updated to ${deliveryStatus}`,
                 order: {
-                    id: updated!.id,
-                    deliveryStatus: updated!.deliveryStatus,
-                    deliveryTrackingCode:
-                    (updated as any).deliveryTrackingCode
+                    id: updated.id,
+                    status: updated.status,
+                    deliveryStatus: updated.deliveryStatus,
+                    deliveryTrackingCode: updated.deliveryTrackingCode
                 }
             });
         })
@@ -609,14 +633,7 @@ export const ordersController = {
     getDeliveryHistory: [
         authMiddleware,
         asyncHandler(async (req: Request, res: Response) => {
-            const { deliveryEvent } = await import(
-                '../db/schema/notifications'
-                );
-            const { db } = await import('../db/db');
-            const { eq, desc } = await import('drizzle-orm');
-
             const orderId = z.string().uuid().parse(req.params.id);
-            const userId = (req as any).userId;
 
             const order = await ordersStorage.getById(orderId);
             if (!order)
@@ -626,31 +643,30 @@ export const ordersController = {
                     404
                 );
 
-            const isAdmin = req.headers['x-user-role'] === 'admin';
-
-            if (!isAdmin && order.userId !== userId)
+            if (order.userId !== req.user!.id && !req.user!.isAdmin)
                 throw new AppError(
                     AppErrorCode.FORBIDDEN,
-                    'Access denied',
+                    'You do not have access to this order',
                     403
                 );
 
-            const events = await db
-                .select()
-                .from(deliveryEvent)
-                .where(eq(deliveryEvent.orderId, orderId))
-                .orderBy(desc(deliveryEvent.createdAt));
+            const events = await deliveryEventsStorage.listByOrder(orderId, 'asc');
 
+            // Покупателю — лента без служебных полей (payload, источник события)
             return res.json({
                 success: true,
                 orderId,
+                deliveryStatus: order.deliveryStatus,
+                deliveryService: order.deliveryService,
+                deliveryTrackingCode: order.deliveryTrackingCode,
                 deliveryHistory: events.map(e => ({
                     id: e.id,
                     provider: e.provider,
                     status: e.status,
                     providerStatus: e.providerStatus,
-                    payload: e.payload,
-                    createdAt: e.createdAt
+                    description: e.description,
+                    location: e.location,
+                    occurredAt: e.occurredAt ?? e.createdAt
                 }))
             });
         })
@@ -661,12 +677,6 @@ export const ordersController = {
         authMiddleware,
         requireAdmin,
         asyncHandler(async (req: Request, res: Response) => {
-            const { deliveryEvent } = await import(
-                '../db/schema/notifications'
-                );
-            const { db } = await import('../db/db');
-            const { eq, desc } = await import('drizzle-orm');
-
             const orderId = z.string().uuid().parse(req.params.id);
 
             const order = await ordersStorage.getById(orderId);
@@ -677,11 +687,7 @@ export const ordersController = {
                     404
                 );
 
-            const events = await db
-                .select()
-                .from(deliveryEvent)
-                .where(eq(deliveryEvent.orderId, orderId))
-                .orderBy(desc(deliveryEvent.createdAt));
+            const events = await deliveryEventsStorage.listByOrder(orderId, 'desc');
 
             return res.json({
                 success: true,
@@ -697,7 +703,11 @@ export const ordersController = {
                     provider: e.provider,
                     status: e.status,
                     providerStatus: e.providerStatus,
+                    source: e.source,
+                    description: e.description,
+                    location: e.location,
                     payload: e.payload,
+                    occurredAt: e.occurredAt,
                     createdAt: e.createdAt
                 }))
             });
@@ -709,21 +719,14 @@ export const ordersController = {
         authMiddleware,
         requireAdmin,
         asyncHandler(async (req: Request, res: Response) => {
-            const { deliveryEvent } = await import(
-                '../db/schema/notifications'
-                );
-            const { db } = await import('../db/db');
-
             const orderId = z.string().uuid().parse(req.params.id);
 
             const AddDeliveryEventSchema = z.object({
-                provider: z.enum(['sdek', 'russianpost', 'yandex']).optional(),
                 status: z.enum([
                     'pending',
                     'in_transit',
                     'delivered',
                     'returned',
-                    'not_required',
                     'lost'
                 ]),
                 providerStatus: z.string().optional(),
@@ -732,36 +735,11 @@ export const ordersController = {
 
             const body = AddDeliveryEventSchema.parse(req.body);
 
-            const order = await ordersStorage.getById(orderId);
-            if (!order)
-                throw new AppError(
-                    AppErrorCode.NOT_FOUND,
-                    'Order not found',
-                    404
-                );
-
-            const providerForDb = body.provider ?? null;
-
-            const [event] = await db
-                .insert(deliveryEvent)
-                .values({
-                    orderId,
-                    provider: providerForDb,
-                    status: body.status,
-                    providerStatus: body.providerStatus ?? null,
-                    payload: body.payload ?? null
-                })
-                .returning();
-
-            if (body.status === 'delivered') {
-                await ordersStorage.update(orderId, {
-                    deliveryStatus: 'delivered'
-                });
-            } else if (body.status === 'in_transit') {
-                await ordersStorage.update(orderId, {
-                    deliveryStatus: 'in_transit'
-                });
-            }
+            const { event } = await deliveryTrackingService.setManual(orderId, body.status, {
+                providerStatus: body.providerStatus,
+                payload: body.payload,
+                createdBy: req.user!.id
+            });
 
             return res.status(201).json({
                 success: true,
@@ -819,5 +797,45 @@ export const ordersController = {
                 pagination: { limit, offset }
             });
         })
+    ],
+
+    /* ───────────────── ADMIN: Order Returns ───────────────── */
+    createReturn: [
+        authMiddleware,
+        requireAdmin,
+        asyncHandler(async (req: Request, res: Response) => {
+            const { id: orderId } = z
+                .object({ id: z.string().uuid() })
+                .parse(req.params);
+
+            const body = CreateReturnSchema.parse(req.body ?? {});
+
+            const { orderReturn, summary } = await orderReturnService.createReturn(orderId, {
+                ...(body.items ? { items: body.items } : {}),
+                ...(body.reason ? { reason: body.reason } : {}),
+                ...(body.restock !== undefined ? { restock: body.restock } : {}),
+                createdBy: req.user!.id
+            });
+
+            return res.status(201).json({
+                success: true,
+                return: orderReturn,
+                summary
+            });
+        })
+    ],
+
+    listReturns: [
+        authMiddleware,
+        requireAdmin,
+        asyncHandler(async (req: Request, res: Response) => {
+            const { id: orderId } = z
+                .object({ id: z.string().uuid() })
+                .parse(req.params);
+
+            const returns = await orderReturnService.listReturns(orderId);
+
+            return res.json({ success: true, orderId, returns });
+        })
     ]
 };
@@ -7,7 +7,15 @@ import { asyncHandler, AppError, AppErrorCode } from '../middleware/errorHandler
 import { paymentsStorage } from '#storage/paymentsStorage';
 import ordersStorage from '../storage/ordersStorage';
 import { paymentProcessor } from '../services/paymentProcessor';
-import { tinkoffService } from '../services/tinkoff/tinkoffService';
+import { paymentRefundService } from '../services/paymentRefundService';
+import { checkoutPaymentService } from '../services/checkoutPaymentService';
+import { stockReservationService } from '../services/stockReservationService';
+import { paymentProviders, fakeProviderEnabled } from '../services/paymentProviders';
+import { paymentReconciliationService } from '../services/paymentReconciliationService';
+import { paymentWebhooksStorage } from '#storage/paymentWebhooksStorage';
+import { paymentMismatchesStorage } from '#storage/paymentMismatchesStorage';
+import type { PaymentMismatch } from '#db/schema/payments';
+import { toCsv, sendCsv, type CsvColumn } from '#utils/csv';
 import { paymentMethodEnum, paymentStatusEnum } from '#db/schema/enums';
 
 /* ───────────────── Enums (из БД) ───────────────── */
@@ -23,6 +31,8 @@ const CreatePaymentSchema = z.object({
     orderId: z.string().uuid(),
     amountRub: z.number().positive(),
     method: ZPaymentMethod, // 'card' | 'sbp' | 'wallet' | 'cash' | 'promo'
+    // Смешанная оплата (card / sbp): часть суммы списывается с баланса пользователя
+    walletAmountRub: z.number().positive().optional(),
 });
 
 const TinkoffWebhookSchema = z.object({
@@ -42,8 +52,54 @@ const ListPaymentsQuery = z.object({
     offset: z.coerce.number().int().min(0).default(0),
 });
 
+const RefundPaymentSchema = z.object({
+    // Не указано — полный возврат (весь невозвращённый остаток заказа)
+    items: z
+        .array(
+            z.object({
+                orderItemId: z.string().uuid(),
+                qty: z.number().int().positive(),
+                restock: z.boolean().optional(),
+            })
+        )
+        .min(1)
+        .optional(),
+    includeDelivery: z.boolean().optional(),
+    reason: z.string().max(1000).optional(),
+    restock: z.boolean().optional(),
+    idempotencyKey: z.string().min(8).max(256),
+});
+
+const ListMismatchesQuery = z.object({
+    // По умолчанию — только открытые
+    open: z.enum(['true', 'false', 'all']).default('true'),
+    kind: z.enum(['missed_webhook', 'paid_order_not_paid', 'amount_mismatch', 'status_regression']).optional(),
+    limit: z.coerce.number().int().min(1).max(500).default(50),
+    offset: z.coerce.number().int().min(0).default(0),
+    format: z.enum(['json', 'csv']).default('json'),
+});
+
+const ResolveMismatchSchema = z.object({
+    resolution: z.string().min(1).max(1000),
+});
+
 /* ───────────────── Helpers ───────────────── */
 
+const mismatchesCsv: CsvColumn<PaymentMismatch>[] = [
+    { header: 'detected_at', value: (m) => m.detectedAt },
+    { header: 'last_seen_at', value: (m) => m.lastSeenAt },
+    { header: 'kind', value: (m) => m.kind },
+    { header: 'payment_id', value: (m) => m.paymentId },
+    { header: 'order_id', value: (m) => m.orderId },
+    { header: 'local_status', value: (m) => m.localStatus },
+    { header: 'provider_status', value: (m) => m.providerStatus },
+    { header: 'order_status', value: (m) => m.orderStatus },
+    { header: 'repaired', value: (m) => m.repaired },
+    { header: 'resolved_at', value: (m) => m.resolvedAt },
+    { header: 'resolution', value: (m) => m.resolution },
+    { header: 'details', value: (m) => m.details },
+];
+
 const toPgMoney = (v: number) => v.toFixed(2);
 
 /** Маппинг статусов Tinkoff → наши PaymentStatus */
@@ -79,37 +135,29 @@ export const paymentController = {
                 throw new AppError(AppErrorCode.FORBIDDEN, 'You do not have access to this order', 403);
             }
 
-            // Уже оплачен? Считаем сумму 'captured'
+            // Уже оплачен? Сумма 'captured' покрывает заказ. Списанная с баланса часть смешанной
+            // оплаты сама по себе заказ не закрывает — после брошенной карточной части остаток можно оплатить заново
             const capturedTotal = await paymentsStorage.sumCapturedForOrder(body.orderId);
-            if (Number(capturedTotal) > 0) {
+            if (Number(capturedTotal) > 0 && Number(capturedTotal) >= Number(ord.totalPayableRub)) {
                 throw new AppError(AppErrorCode.VALIDATION_ERROR, 'Order is already paid', 400);
             }
 
+            // Резерв товара на время оплаты: продлевает взятый при оформлении или берёт заново (409 — товара нет)
+            await stockReservationService.reserveOrder(body.orderId);
+
             // Update order status to pending (awaiting payment)
             await ordersStorage.updateOrderStatus(body.orderId, 'pending');
 
-            // For card payments, use Tinkoff
-            if (body.method === 'card') {
-                const result = await tinkoffService.createPayment({
+            // Карта / СБП — через провайдера (card + walletAmountRub → смешанная оплата)
+            if (body.method === 'card' || body.method === 'sbp') {
+                const result = await checkoutPaymentService.startPayment({
                     orderId: body.orderId,
+                    userId,
+                    method: body.method,
                     amountRub: body.amountRub,
-                    description: `Оплата заказа ${body.orderId}`,
-                    customerKey: req.user!.id, // Use telegram ID as customer key
+                    ...(body.walletAmountRub ? { walletAmountRub: body.walletAmountRub } : {}),
                 });
-
-                if (!result.success) {
-                    throw new AppError(
-                        AppErrorCode.VALIDATION_ERROR,
-                        result.error || 'Failed to create payment',
-                        400
-                    );
-                }
-
-                // Get the created payment from DB
-                const payment = await paymentsStorage.getByExternalId(result.paymentId);
-                if (!payment) {
-                    throw new AppError(AppErrorCode.NOT_FOUND, 'Payment not found after creation', 500);
-                }
+                const { payment, walletPayment } = result;
 
                 return res.status(201).json({
                     success: true,
@@ -120,12 +168,21 @@ export const paymentController = {
                         amountRub: payment.amountRub,
                         status: payment.status,
                         method: payment.method,
+                        provider: payment.provider,
                         paymentUrl: result.paymentUrl,
+                        qrPayload: result.qrPayload,
                         createdAt: payment.createdAt,
                     },
+                    walletPayment: walletPayment
+                        ? { id: walletPayment.id, amountRub: walletPayment.amountRub, status: walletPayment.status }
+                        : null,
                 });
             }
 
+            if (body.walletAmountRub) {
+                throw new AppError(AppErrorCode.VALIDATION_ERROR, 'walletAmountRub is allowed only for card and sbp', 400);
+            }
+
             // For other payment methods (wallet, cash, etc.) - use old flow
             const payment = await paymentsStorage.create({
                 orderId: body.orderId,
@@ -231,8 +288,8 @@ export const paymentController = {
         asyncHandler(async (req: Request, res: Response) => {
             const body = TinkoffWebhookSchema.parse(req.body);
 
-            // Use Tinkoff service to handle notification (includes Token verification)
-            const result = await tinkoffService.handleNotification(body);
+            // Журнал + дедупликация + защита от регресса статуса; подпись проверяется внутри
+            const result = await paymentReconciliationService.handleTinkoffWebhook(body);
 
             if (!result.success) {
                 console.warn('[Tinkoff Webhook] Error:', result.error);
@@ -243,6 +300,36 @@ export const paymentController = {
         }),
     ],
 
+    /** POST /api/payments/fake/:externalId/:result (confirm | fail) — подтвердить / отклонить платёж fake-провайдера (dev) */
+    fakeProviderResult: [
+        authMiddleware,
+        asyncHandler(async (req: Request, res: Response) => {
+            if (!fakeProviderEnabled) throw new AppError(AppErrorCode.NOT_FOUND, 'Not found', 404);
+
+            const { externalId, result } = z
+                .object({ externalId: z.string().min(1), result: z.enum(['confirm', 'fail']) })
+                .parse(req.params);
+
+            const pay = await paymentsStorage.getByExternalId(externalId);
+            const ord = pay ? await ordersStorage.getById(pay.orderId) : null;
+            if (!pay || !ord) throw new AppError(AppErrorCode.NOT_FOUND, 'Payment not found', 404);
+            if (ord.userId !== req.user!.id && !req.user!.isAdmin) {
+                throw new AppError(AppErrorCode.FORBIDDEN, 'You do not have access to this payment', 403);
+            }
+
+            const outcome = await paymentProviders.get('fake').handleNotification({
+                externalId,
+                status: result === 'confirm' ? 'CONFIRMED' : 'REJECTED',
+            });
+            if (!outcome.success) {
+                throw new AppError(AppErrorCode.NOT_FOUND, outcome.error ?? 'Payment not found', 404);
+            }
+
+            const payment = await paymentsStorage.getByExternalId(externalId);
+            return res.json({ success: true, payment });
+        }),
+    ],
+
     /** GET /api/payments/tinkoff/success — Success redirect from Tinkoff */
     tinkoffSuccess: [
         asyncHandler(async (req: Request, res: Response) => {
@@ -324,6 +411,116 @@ export const paymentController = {
         }),
     ],
 
+    /** POST /api/admin/payments/:id/refund — возврат (полный / по позициям) через Cancel провайдера */
+    refundPayment: [
+        authMiddleware,
+        requireAdmin,
+        asyncHandler(async (req: Request, res: Response) => {
+            const { id: paymentId } = z.object({ id: z.string().uuid() }).parse(req.params);
+            const body = RefundPaymentSchema.parse(req.body ?? {});
+
+            const result = await paymentRefundService.refund(paymentId, {
+                ...(body.items ? { items: body.items } : {}),
+                ...(body.includeDelivery !== undefined ? { includeDelivery: body.includeDelivery } : {}),
+                ...(body.reason ? { reason: body.reason } : {}),
+                ...(body.restock !== undefined ? { restock: body.restock } : {}),
+                idempotencyKey: body.idempotencyKey,
+                createdBy: req.user!.id,
+            });
+
+            return res.status(result.duplicate ? 200 : 201).json({
+                success: true,
+                refund: result.refund,
+                return: result.orderReturn,
+                summary: result.summary,
+                duplicate: result.duplicate,
+            });
+        }),
+    ],
+
+    /** GET /api/admin/payments/:id/refunds — возвраты по платежу */
+    listPaymentRefunds: [
+        authMiddleware,
+        requireAdmin,
+        asyncHandler(async (req: Request, res: Response) => {
+            const { id: paymentId } = z.object({ id: z.string().uuid() }).parse(req.params);
+
+            const payment = await paymentsStorage.getById(paymentId);
+            if (!payment) throw new AppError(AppErrorCode.NOT_FOUND, 'Payment not found', 404);
+
+            const refunds = await paymentRefundService.listForPayment(paymentId);
+            return res.json({ success: true, paymentId, refunds });
+        }),
+    ],
+
+    /** GET /api/admin/payments/:id/webhooks — журнал уведомлений провайдера по платежу */
+    listPaymentWebhooks: [
+        authMiddleware,
+        requireAdmin,
+        asyncHandler(async (req: Request, res: Response) => {
+            const { id: paymentId } = z.object({ id: z.string().uuid() }).parse(req.params);
+
+            const payment = await paymentsStorage.getById(paymentId);
+            if (!payment) throw new AppError(AppErrorCode.NOT_FOUND, 'Payment not found', 404);
+
+            const webhooks = payment.externalId
+                ? await paymentWebhooksStorage.list({ externalIds: [payment.externalId], limit: 200 })
+                : [];
+            return res.json({ success: true, paymentId, webhooks });
+        }),
+    ],
+
+    /** POST /api/admin/payments/reconciliation/run — сверка зависших платежей с провайдером */
+    runReconciliation: [
+        authMiddleware,
+        requireAdmin,
+        asyncHandler(async (_req: Request, res: Response) => {
+            const result = await paymentReconciliationService.reconcileStuck();
+            return res.json({ success: true, result });
+        }),
+    ],
+
+    /** GET /api/admin/payments/reconciliation/mismatches?open=&kind=&format=csv — отчёт о расхождениях */
+    listMismatches: [
+        authMiddleware,
+        requireAdmin,
+        asyncHandler(async (req: Request, res: Response) => {
+            const q = ListMismatchesQuery.parse(req.query);
+
+            const params = {
+                ...(q.open !== 'all' ? { open: q.open === 'true' } : {}),
+                ...(q.kind ? { kind: q.kind } : {}),
+            };
+
+            if (q.format === 'csv') {
+                const all = await paymentMismatchesStorage.list({ ...params, limit: 10000 });
+                return sendCsv(res, 'payment-mismatches.csv', toCsv(mismatchesCsv, all));
+            }
+
+            const mismatches = await paymentMismatchesStorage.list({ ...params, limit: q.limit, offset: q.offset });
+            return res.json({ success: true, mismatches, pagination: { limit: q.limit, offset: q.offset } });
+        }),
+    ],
+
+    /** POST /api/admin/payments/reconciliation/mismatches/:id/resolve — закрыть расхождение */
+    resolveMismatch: [
+        authMiddleware,
+        requireAdmin,
+        asyncHandler(async (req: Request, res: Response) => {
+            const { id } = z.object({ id: z.string().uuid() }).parse(req.params);
+            const { resolution } = ResolveMismatchSchema.parse(req.body ?? {});
+
+            const existing = await paymentMismatchesStorage.getById(id);
+            if (!existing) throw new AppError(AppErrorCode.NOT_FOUND, 'Mismatch not found', 404);
+            if (existing.resolvedAt) {
+                throw new AppError(AppErrorCode.VALIDATION_ERROR, 'Mismatch is already resolved', 409);
+            }
+
+            const mismatch = await paymentMismatchesStorage.resolve(id, req.user!.id, resolution);
+            return res.json({ success: true, mismatch: mismatch ?? (await paymentMismatchesStorage.getById(id)) });
+        }),
+    ],
+
     /** GET /api/admin/payments/stats — простая статистика (админ) */
     getPaymentStats: [
         authMiddleware,
@@ -7,9 +7,18 @@ import {
     ProductListQueryDto,
     ProductIdParamDto,
     ProductSlugParamDto,
+    ProductSuggestQueryDto,
+    RecommendationsQueryDto,
+    CartRecommendationsQueryDto,
 } from '#db/shemaTypes/productsType';
+import {
+    ProductVariantCreateDto,
+    ProductVariantUpdateDto,
+    ProductVariantParamDto,
+} from '#db/shemaTypes/productVariantsType';
+import { ProductBundleDto } from '#db/shemaTypes/productBundlesType';
 
-import { authMiddleware } from '../middleware/auth';
+import { authMiddleware, optionalAuthMiddleware } from '../middleware/auth';
 import { requireAdmin } from '../middleware/rbacMiddleware';
 import { asyncHandler, AppError, AppErrorCode } from '../middleware/errorHandler';
 import { errorMonitoringService } from '../services/errorMonitoringService';
@@ -20,7 +29,17 @@ import { category } from '#db/schema/categories';
 
 import { eq, inArray } from 'drizzle-orm';
 import { productStorage } from '#storage/productsStorage';
+import { stockReservationsStorage } from '#storage/stockReservationsStorage';
 import { redisCache } from '../services/redisCache';
+import { inventoryService } from '../services/inventoryService';
+import { inventoryMovementsStorage } from '#storage/inventoryMovementsStorage';
+import { productVariantsStorage } from '#storage/productVariantsStorage';
+import { productVariantService } from '../services/productVariantService';
+import { productBundleService } from '../services/productBundleService';
+import { recommendationService } from '../services/recommendationService';
+import { productBundlesStorage, bundleStock, toPublicBundleItem, type PublicBundleItem } from '#storage/productBundlesStorage';
+import type { ProductVariant } from '#db/schema/productVariants';
+import type { ProductImageItem } from '#db/schema/products';
 
 /* ───────────────── Helpers ───────────────── */
 
@@ -50,6 +69,7 @@ async function resolveCategoryId(input: z.infer<typeof CategoryInputDto>): Promi
 
 function uniqueFieldFromError(e: any): 'slug' | 'sku' | undefined {
     const msg = String(e?.detail || e?.message || '').toLowerCase();
+    if (msg.includes('ux_product_variant_sku_nullable')) return 'sku';
     if (msg.includes('uq_product_slug') || msg.includes('slug')) return 'slug';
     if (msg.includes('ux_product_sku_nullable') || msg.includes('sku')) return 'sku';
     return undefined;
@@ -83,6 +103,61 @@ async function attachCategory<T extends { id: string }>(rows: T[]) {
     return rows.map((r) => ({ ...r, category: map.get(r.id) ?? null }));
 }
 
+// Наборы: состав и сколько наборов собирается из остатков компонентов (своего stock у набора нет)
+async function attachBundles<T extends { id: string; isBundle: boolean; stock: number }>(rows: T[]) {
+    const map = await productBundlesStorage.listComponents(rows.filter((r) => r.isBundle).map((r) => r.id));
+    return rows.map((r) => {
+        const components = map.get(r.id);
+        return components
+            ? { ...r, stock: bundleStock(components), bundleItems: components.map(toPublicBundleItem) }
+            : { ...r, bundleItems: [] as PublicBundleItem[] };
+    });
+}
+
+// Активные варианты для витрины (карточка и список)
+async function attachVariants<T extends { id: string }>(rows: T[]) {
+    const map = await productVariantsStorage.listByProducts(rows.map((r) => r.id), { activeOnly: true });
+    return rows.map((r) => ({ ...r, variants: map.get(r.id) ?? ([] as ProductVariant[]) }));
+}
+
+// Товары витрины по списку id в его порядке (рекомендации отдают id по убыванию веса)
+async function loadShowcase(ids: string[]) {
+    if (ids.length === 0) return [];
+    const rows = await db.select().from(product).where(inArray(product.id, ids));
+    const byId = new Map(rows.map((r) => [r.id, r]));
+    const ordered = ids.map((id) => byId.get(id)).filter((r): r is NonNullable<typeof r> => !!r);
+    return attachBundles(await attachVariants(await attachCategory(ordered)));
+}
+
+const MovementsQueryDto = z.object({
+    variantId: z.string().uuid().optional(),
+    type: z.enum(['receipt', 'sale', 'return', 'adjustment', 'write_off', 'reservation']).optional(),
+    limit: z.coerce.number().int().min(1).max(200).default(50),
+    offset: z.coerce.number().int().min(0).default(0),
+});
+
+const ManualMovementDto = z.object({
+    type: z.enum(['receipt', 'write_off', 'adjustment']),
+    // Для товара с вариантами — обязателен
+    variantId: z.string().uuid().optional(),
+    // receipt / write_off — количество; adjustment — знаковое изменение
+    qty: z.number().int().refine((v) => v !== 0, 'qty must not be 0'),
+    reason: z.string().trim().min(1).max(500).optional(),
+    reference: z.string().trim().min(1).max(200).optional(),
+}).refine((b) => b.type === 'adjustment' || b.qty > 0, { message: 'qty must be positive for receipt and write_off', path: ['qty'] });
+
+const ReceiptImportQueryDto = z.object({
+    reference: z.string().trim().min(1).max(200).optional(),
+    dryRun: z.enum(['true', 'false']).transform((v) => v === 'true').optional(),
+});
+
+const StockLevelsQueryDto = z.object({
+    q: z.string().trim().min(1).optional(),
+    reservedOnly: z.enum(['true', 'false']).transform((v) => v === 'true').optional(),
+    limit: z.coerce.number().int().min(1).max(200).default(50),
+    offset: z.coerce.number().int().min(0).default(0),
+});
+
 /* ───────────────── Products Controller ───────────────── */
 
 export const productsController = {
@@ -102,6 +177,7 @@ export const productsController = {
                 ...(d.orderBy && { orderBy: d.orderBy }),
                 ...(d.orderDir && { orderDir: d.orderDir }),
                 ...(d.categoryId && { categoryId: d.categoryId }),
+                ...(d.manufacturer && { manufacturer: d.manufacturer }),
                 limit: d.limit,
                 offset: d.offset,
             };
@@ -113,13 +189,65 @@ export const productsController = {
                 return res.json(JSON.parse(cached));
             }
 
-            const rows = await productStorage.list(listParams as any);
-            const withCategory = await attachCategory(rows);
+            // Счётчики фасетов — по тем же фильтрам без пагинации
+            const [rows, total, facets] = await Promise.all([
+                productStorage.list(listParams as any),
+                productStorage.count(listParams as any),
+                productStorage.facets(listParams as any),
+            ]);
+            const withCategory = await attachBundles(await attachVariants(await attachCategory(rows)));
+            const payload = { success: true, data: withCategory, total, facets };
 
             // Cache for short TTL (20s)
-            await redisCache.set(cacheKey, JSON.stringify(withCategory), 20);
+            await redisCache.set(cacheKey, JSON.stringify(payload), 20);
+
+            return res.json(payload);
+        }),
+    ],
+
+    /** GET /api/products/suggest — подсказки строки поиска витрины */
+    suggestProducts: [
+        asyncHandler(async (req: Request, res: Response) => {
+            const validated = (req as any).validated?.query as z.infer<typeof ProductSuggestQueryDto> | undefined;
+            const { q, limit } = validated ?? ProductSuggestQueryDto.parse(req.query);
+
+            const cacheKey = `products:suggest:${limit}:${q.toLowerCase()}`;
+            const cached = await redisCache.get(cacheKey);
+            if (cached) return res.json(JSON.parse(cached));
 
-            return res.json(withCategory);
+            const payload = { success: true, data: await productStorage.suggest(q, limit) };
+            await redisCache.set(cacheKey, JSON.stringify(payload), 60);
+            return res.json(payload);
+        }),
+    ],
+
+    /** GET /api/products/:id/also-bought — «с этим товаром покупают» */
+    getAlsoBought: [
+        asyncHandler(async (req: Request, res: Response) => {
+            const { id } = ProductIdParamDto.parse(req.params);
+            const { limit } = RecommendationsQueryDto.parse(req.query);
+            const data = await loadShowcase(await recommendationService.alsoBought(id, limit));
+            return res.json({ success: true, data });
+        }),
+    ],
+
+    /** GET /api/products/recommendations/cart?ids= — допродажа к корзине */
+    getCartRecommendations: [
+        asyncHandler(async (req: Request, res: Response) => {
+            const { ids, limit } = CartRecommendationsQueryDto.parse(req.query);
+            const data = await loadShowcase(await recommendationService.forCart(ids, limit));
+            return res.json({ success: true, data });
+        }),
+    ],
+
+    /** GET /api/products/recommendations/for-you — подборка на главной (гостю — хиты) */
+    getPersonalRecommendations: [
+        optionalAuthMiddleware,
+        asyncHandler(async (req: Request, res: Response) => {
+            const { limit } = RecommendationsQueryDto.parse(req.query);
+            const userId = req.user?.id ?? null;
+            const data = await loadShowcase(await recommendationService.forUser(userId, limit));
+            return res.json({ success: true, data, personalized: userId !== null });
         }),
     ],
 
@@ -131,7 +259,7 @@ export const productsController = {
             const p = await productStorage.getById(parsed.id);
             if (!p) throw new AppError(AppErrorCode.NOT_FOUND, 'Product not found', 404);
 
-            const [withCat] = await attachCategory([p]);
+            const [withCat] = await attachBundles(await attachVariants(await attachCategory([p])));
             return res.json({ success: true, data: withCat });
         }),
     ],
@@ -144,7 +272,7 @@ export const productsController = {
             const p = await productStorage.getBySlug(parsed.slug);
             if (!p) throw new AppError(AppErrorCode.NOT_FOUND, 'Product not found', 404);
 
-            const [withCat] = await attachCategory([p]);
+            const [withCat] = await attachBundles(await attachVariants(await attachCategory([p])));
             return res.json({ success: true, data: withCat });
         }),
     ],
@@ -170,6 +298,7 @@ export const productsController = {
             const categoryId = await resolveCategoryId(catParsed);
 
             const {
+                stock,
                 originalPrice,
                 customPv,
                 customCashback,
@@ -207,7 +336,12 @@ export const productsController = {
             };
 
             try {
-                const created = await productStorage.create(payload as any);
+                // Остаток только через журнал: товар создаётся пустым, начальный остаток — приходом
+                let created = await productStorage.create({ ...payload, stock: 0 } as any);
+                if (stock > 0) {
+                    await inventoryService.move(created.id, { type: 'receipt', qty: stock, reason: 'Initial stock', userId: req.user!.id });
+                    created = (await productStorage.getById(created.id)) ?? created;
+                }
                 const [withCat] = await attachCategory([created]);
 
                 // ✅ Task 4.3: Инвалидируем кэш продуктов после создания
@@ -262,8 +396,32 @@ export const productsController = {
                 delete (clean as any).categorySlug;
             }
 
+            // Остаток — корректировкой в журнале, а не перезаписью колонки
+            const stock = clean['stock'] as number | undefined;
+            delete clean['stock'];
+
             try {
-                const updated = await productStorage.update(idParsed.id, clean as any);
+                let updated = Object.keys(clean).length > 0
+                    ? await productStorage.update(idParsed.id, clean as any)
+                    : await productStorage.getById(idParsed.id);
+                if (!updated) throw new Error('Product not found');
+                // У товара с вариантами остаток — сумма по вариантам; форма присылает его как есть
+                const hasVariants = (await productVariantsStorage.productsWithVariants([idParsed.id])).size > 0;
+                if (stock !== undefined && hasVariants && stock !== updated.stock) {
+                    throw new AppError(AppErrorCode.VALIDATION_ERROR, 'Product has variants: edit stock per variant', 409);
+                }
+                // Остаток набора — на компонентах
+                if (stock !== undefined && updated.isBundle && stock !== updated.stock) {
+                    throw new AppError(AppErrorCode.VALIDATION_ERROR, 'Product is a bundle: stock is managed on its components', 409);
+                }
+                if (stock !== undefined && !hasVariants && !updated.isBundle) {
+                    await inventoryService.setStock(idParsed.id, stock, { reason: 'Stock edited in product card', userId: req.user!.id });
+                }
+                // Порог изменён без движения — проверить остаток по новому порогу
+                if (stock === undefined && 'lowStockThreshold' in clean) await inventoryService.checkLowStock([idParsed.id]);
+                if (stock !== undefined || 'lowStockThreshold' in clean) {
+                    updated = (await productStorage.getById(idParsed.id)) ?? updated;
+                }
 
                 // ✅ Task 4.3: Инвалидируем кэш продуктов после обновления
                 // await redisCache.invalidateProducts();
@@ -307,6 +465,217 @@ export const productsController = {
         }),
     ],
 
+    /* ───────── Остатки и резервы (ADMIN) ───────── */
+
+    /** GET /api/admin/products/stock — на складе / в резерве / доступно по товарам */
+    getStockLevels: [
+        authMiddleware,
+        requireAdmin,
+        asyncHandler(async (req: Request, res: Response) => {
+            const q = StockLevelsQueryDto.parse(req.query);
+            const { items, total } = await stockReservationsStorage.listLevels({
+                search: q.q,
+                reservedOnly: q.reservedOnly,
+                limit: q.limit,
+                offset: q.offset,
+            });
+            return res.json({ success: true, data: items, total, limit: q.limit, offset: q.offset });
+        }),
+    ],
+
+    /** GET /api/admin/products/:id/stock — остатки товара и активные резервы по заказам */
+    getProductStock: [
+        authMiddleware,
+        requireAdmin,
+        asyncHandler(async (req: Request, res: Response) => {
+            const { id } = ProductIdParamDto.parse(req.params);
+
+            const p = await productStorage.getById(id);
+            if (!p) throw new AppError(AppErrorCode.NOT_FOUND, 'Product not found', 404);
+
+            const [reservations, variants] = await Promise.all([
+                stockReservationsStorage.listActiveByProduct(id),
+                productVariantsStorage.listByProduct(id),
+            ]);
+            const reserved = reservations.reduce((sum, r) => sum + r.qty, 0);
+            const reservedOf = (variantId: string) =>
+                reservations.filter((r) => r.variantId === variantId).reduce((sum, r) => sum + r.qty, 0);
+            return res.json({
+                success: true,
+                data: {
+                    productId: id,
+                    name: p.name,
+                    sku: p.sku,
+                    onHand: p.stock,
+                    reserved,
+                    available: Math.max(p.stock - reserved, 0),
+                    variants: variants.map((v) => ({
+                        variantId: v.id,
+                        name: v.name,
+                        sku: v.sku,
+                        isActive: v.isActive,
+                        onHand: v.stock,
+                        reserved: reservedOf(v.id),
+                        available: Math.max(v.stock - reservedOf(v.id), 0),
+                    })),
+                    reservations,
+                },
+            });
+        }),
+    ],
+
+    /* ───────── Варианты товара (ADMIN) ───────── */
+
+    /** GET /api/admin/products/:id/variants — все варианты, включая выключенные */
+    getProductVariants: [
+        authMiddleware,
+        requireAdmin,
+        asyncHandler(async (req: Request, res: Response) => {
+            const { id } = ProductIdParamDto.parse(req.params);
+            const p = await productStorage.getById(id);
+            if (!p) throw new AppError(AppErrorCode.NOT_FOUND, 'Product not found', 404);
+
+            return res.json({ success: true, data: await productVariantService.list(id) });
+        }),
+    ],
+
+    /** POST /api/admin/products/:id/variants */
+    createProductVariant: [
+        authMiddleware,
+        requireAdmin,
+        asyncHandler(async (req: Request, res: Response) => {
+            const { id } = ProductIdParamDto.parse(req.params);
+            const body = ProductVariantCreateDto.parse(req.body);
+
+            try {
+                const variant = await productVariantService.create(
+                    id,
+                    { ...body, images: body.images as ProductImageItem[] | undefined },
+                    req.user!.id
+                );
+                return res.status(201).json({ success: true, data: variant });
+            } catch (e) {
+                if (isPgUniqueError(e)) throw new AppError(AppErrorCode.VALIDATION_ERROR, 'Duplicate sku', 409, { field: 'sku' });
+                throw e;
+            }
+        }),
+    ],
+
+    /** PATCH /api/admin/products/:id/variants/:variantId */
+    updateProductVariant: [
+        authMiddleware,
+        requireAdmin,
+        asyncHandler(async (req: Request, res: Response) => {
+            const { id, variantId } = ProductVariantParamDto.parse(req.params);
+            const body = ProductVariantUpdateDto.parse(req.body);
+
+            try {
+                const variant = await productVariantService.update(
+                    id,
+                    variantId,
+                    { ...body, images: body.images as ProductImageItem[] | undefined },
+                    req.user!.id
+                );
+                return res.json({ success: true, data: variant });
+            } catch (e) {
+                if (isPgUniqueError(e)) throw new AppError(AppErrorCode.VALIDATION_ERROR, 'Duplicate sku', 409, { field: 'sku' });
+                throw e;
+            }
+        }),
+    ],
+
+    /** DELETE /api/admin/products/:id/variants/:variantId — вариант из заказов выключается */
+    deleteProductVariant: [
+        authMiddleware,
+        requireAdmin,
+        asyncHandler(async (req: Request, res: Response) => {
+            const { id, variantId } = ProductVariantParamDto.parse(req.params);
+            const result = await productVariantService.remove(id, variantId);
+            return res.json({ success: true, data: { id: variantId, ...result } });
+        }),
+    ],
+
+    /* ───────── Наборы (ADMIN) ───────── */
+
+    /** GET /api/admin/products/:id/bundle — состав набора, раскладка цены, доступно наборов */
+    getProductBundle: [
+        authMiddleware,
+        requireAdmin,
+        asyncHandler(async (req: Request, res: Response) => {
+            const { id } = ProductIdParamDto.parse(req.params);
+            return res.json({ success: true, data: await productBundleService.get(id) });
+        }),
+    ],
+
+    /** PUT /api/admin/products/:id/bundle — задать состав; пустой список — товар больше не набор */
+    setProductBundle: [
+        authMiddleware,
+        requireAdmin,
+        asyncHandler(async (req: Request, res: Response) => {
+            const { id } = ProductIdParamDto.parse(req.params);
+            const { items } = ProductBundleDto.parse(req.body);
+            return res.json({ success: true, data: await productBundleService.setItems(id, items) });
+        }),
+    ],
+
+    /** GET /api/admin/products/:id/movements — журнал движения товара */
+    getProductMovements: [
+        authMiddleware,
+        requireAdmin,
+        asyncHandler(async (req: Request, res: Response) => {
+            const { id } = ProductIdParamDto.parse(req.params);
+            const q = MovementsQueryDto.parse(req.query);
+
+            const p = await productStorage.getById(id);
+            if (!p) throw new AppError(AppErrorCode.NOT_FOUND, 'Product not found', 404);
+
+            const { items, total } = await inventoryMovementsStorage.listByProduct(id, q);
+            return res.json({ success: true, data: items, total, stock: p.stock, limit: q.limit, offset: q.offset });
+        }),
+    ],
+
+    /** POST /api/admin/products/:id/movements — приход / списание / корректировка вручную */
+    createProductMovement: [
+        authMiddleware,
+        requireAdmin,
+        asyncHandler(async (req: Request, res: Response) => {
+            const { id } = ProductIdParamDto.parse(req.params);
+            const body = ManualMovementDto.parse(req.body);
+
+            const { movement, stock } = await inventoryService.move(id, { ...body, userId: req.user!.id });
+            return res.status(201).json({ success: true, data: movement, stock });
+        }),
+    ],
+
+    /** POST /api/admin/products/stock/receipts — приход от поставщика из CSV (text/csv) */
+    importStockReceipts: [
+        authMiddleware,
+        requireAdmin,
+        asyncHandler(async (req: Request, res: Response) => {
+            const q = ReceiptImportQueryDto.parse(req.query);
+            if (typeof req.body !== 'string' || req.body.trim() === '') {
+                throw new AppError(AppErrorCode.VALIDATION_ERROR, 'Send the CSV file as the request body (Content-Type: text/csv)', 400);
+            }
+
+            const result = await inventoryService.importReceipts(req.body, {
+                userId: req.user!.id,
+                reference: q.reference,
+                dryRun: q.dryRun,
+            });
+            return res.status(result.applied ? 201 : 200).json({ success: true, data: result });
+        }),
+    ],
+
+    /** GET /api/admin/products/stock/verify — расхождения product.stock с журналом */
+    verifyStock: [
+        authMiddleware,
+        requireAdmin,
+        asyncHandler(async (_req: Request, res: Response) => {
+            const mismatches = await inventoryService.verify();
+            return res.json({ success: true, data: mismatches, ok: mismatches.length === 0 });
+        }),
+    ],
+
     /* ───────── ЕДИНСТВЕННАЯ категория товара ───────── */
 
     /** GET /api/products/:id/category — вернуть объект категории или null */
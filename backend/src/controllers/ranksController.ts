@@ -7,6 +7,7 @@ import { asyncHandler, AppError, AppErrorCode } from '../middleware/errorHandler
 import { ranksStorage } from '../storage/ranksStorage';
 import { mlmRankEnum } from '#db/schema/enums';
 import type { RankRuleInput } from '../storage/ranksStorage';
+import { rankEvaluationService, previousMonth } from '../services/rankEvaluationService';
 
 /* ───────────────── Enums (from DB) ───────────────── */
 
@@ -41,6 +42,9 @@ const UpdateRankSchema = z.object({
     isCreator: z.boolean().optional(),
 }).partial();
 
+// Месяц квалификации: 'YYYY-MM' (по умолчанию — предыдущий календарный месяц)
+const ZMonth = z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, 'Month must be in YYYY-MM format');
+
 /* ───────────────── Ranks Controller ───────────────── */
 
 export const ranksController = {
@@ -199,4 +203,36 @@ export const ranksController = {
             });
         }),
     ],
+
+    /* ───────────────── Admin Rank Evaluation ───────────────── */
+
+    /** GET /api/admin/ranks/evaluation/preview?month=YYYY-MM — dry-run квалификации (ADMIN) */
+    previewEvaluation: [
+        authMiddleware,
+        requireAdmin,
+        asyncHandler(async (req: Request, res: Response) => {
+            const { month } = z.object({ month: ZMonth.optional() }).parse(req.query);
+
+            const result = await rankEvaluationService.evaluateMonth(month ?? previousMonth(), { dryRun: true });
+
+            return res.json({ success: true, ...result });
+        }),
+    ],
+
+    /** POST /api/admin/ranks/evaluation/close — закрыть месяц и применить ранги (ADMIN) */
+    closeMonth: [
+        authMiddleware,
+        requireAdmin,
+        asyncHandler(async (req: Request, res: Response) => {
+            const { month } = z.object({ month: ZMonth.optional() }).parse(req.body ?? {});
+
+            const result = await rankEvaluationService.evaluateMonth(month ?? previousMonth(), { dryRun: false });
+
+            return res.json({
+                success: true,
+                message: 'Rank evaluation applied',
+                ...result,
+            });
+        }),
+    ],
 };
@@ -1,7 +1,7 @@
 // backend/src/controllers/reviewController.ts
 import type { Request, Response } from 'express';
 import { z } from 'zod';
-import { authMiddleware } from "../middleware/auth";
+import { authMiddleware, optionalAuthMiddleware } from "../middleware/auth";
 import { asyncHandler } from "../middleware/errorHandler";
 import { reviewService } from "../services/reviewService";
 import { requireAdmin } from "../middleware/rbacMiddleware";
@@ -20,7 +20,11 @@ const PublicListQuery = z.object({
     productId: z.string().uuid(),
     limit: z.coerce.number().int().min(1).max(100).optional(),
     offset: z.coerce.number().int().min(0).optional(),
-    order: z.enum(['newest','oldest','rating_desc','rating_asc']).optional(),
+    order: z.enum(['newest','oldest','rating_desc','rating_asc','helpful']).optional(),
+});
+
+const ReplyBody = z.object({
+    body: z.string().trim().min(1).max(5000),
 });
 
 const AdminListQuery = z.object({
@@ -63,13 +67,15 @@ export const reviewController = {
         }),
     ],
 
-    // GET /api/reviews (public, by product)
+    // GET /api/reviews (public, by product; с токеном — отметка votedHelpful)
     listPublic: [
+        optionalAuthMiddleware,
         asyncHandler(async (req: Request, res: Response) => {
             const q = PublicListQuery.parse(req.query);
             // убираем undefined-ключи
             const params = {
                 productId: q.productId,
+                ...(req.user ? { viewerId: req.user.id } : {}),
                 ...(q.limit  !== undefined ? { limit:  q.limit  } : {}),
                 ...(q.offset !== undefined ? { offset: q.offset } : {}),
                 ...(q.order  !== undefined ? { order:  q.order  } : {}),
@@ -79,6 +85,26 @@ export const reviewController = {
         }),
     ],
 
+    // PUT /api/reviews/:id/helpful
+    voteHelpful: [
+        authMiddleware,
+        asyncHandler(async (req: Request, res: Response) => {
+            const { id } = IdParam.parse(req.params);
+            const result = await reviewService.voteHelpful(id, req.user!.id);
+            return res.json({ success: true, data: { id, ...result } });
+        }),
+    ],
+
+    // DELETE /api/reviews/:id/helpful
+    removeHelpfulVote: [
+        authMiddleware,
+        asyncHandler(async (req: Request, res: Response) => {
+            const { id } = IdParam.parse(req.params);
+            const result = await reviewService.removeHelpfulVote(id, req.user!.id);
+            return res.json({ success: true, data: { id, ...result } });
+        }),
+    ],
+
     // ADMIN: GET /api/admin/reviews
     adminList: [
         authMiddleware,
@@ -120,6 +146,29 @@ export const reviewController = {
             return res.json({ success: true, data: updated });
         }),
     ],
+
+    // ADMIN: PUT /api/admin/reviews/:id/reply
+    adminReply: [
+        authMiddleware,
+        requireAdmin,
+        asyncHandler(async (req: Request, res: Response) => {
+            const { id } = IdParam.parse(req.params);
+            const { body } = ReplyBody.parse(req.body ?? {});
+            const updated = await reviewService.replyToReview({ reviewId: id, adminId: req.user!.id, body });
+            return res.json({ success: true, data: updated });
+        }),
+    ],
+
+    // ADMIN: DELETE /api/admin/reviews/:id/reply
+    adminDeleteReply: [
+        authMiddleware,
+        requireAdmin,
+        asyncHandler(async (req: Request, res: Response) => {
+            const { id } = IdParam.parse(req.params);
+            const updated = await reviewService.deleteReply(id, req.user!.id);
+            return res.json({ success: true, data: updated });
+        }),
+    ],
 };
 
 // локально в этом файле — не забыть объявить UpdateBody
@@ -0,0 +1,133 @@
+// backend/src/controllers/subscriptionsController.ts
+import type { Request, Response } from 'express';
+import { z } from 'zod';
+import { authMiddleware } from '../middleware/auth';
+import { asyncHandler } from '../middleware/errorHandler';
+import { subscriptionService } from '../services/subscriptionService';
+
+/* ───────────────── Validation Schemas ───────────────── */
+
+const ItemSchema = z.object({
+    productId: z.string().uuid(),
+    variantId: z.string().uuid().nullable().optional(),
+    qty: z.number().int().min(1).max(20),
+});
+
+const DeliverySchema = {
+    deliveryService: z.enum(['sdek', 'russianpost', 'yandex']).nullable().optional(),
+    deliveryAddress: z.string().max(1000).nullable().optional(),
+    // Как в оформлении заказа (см. GET /api/delivery/pickup-points)
+    deliveryDestination: z
+        .object({
+            postalCode: z.string().regex(/^\d{6}$/).optional(),
+            city: z.string().max(200).optional(),
+            cityCode: z.number().int().positive().optional(),
+            pickupPointCode: z.string().max(100).optional(),
+            recipientName: z.string().max(200).optional(),
+            recipientPhone: z.string().max(30).optional(),
+        })
+        .nullable()
+        .optional(),
+};
+
+const CreateSubscriptionSchema = z.object({
+    items: z.array(ItemSchema).min(1).max(20),
+    intervalMonths: z.number().int().min(1).max(6).default(1),
+    paymentSource: z.enum(['card', 'wallet']),
+    firstRunAt: z.coerce.date().optional(),
+    ...DeliverySchema,
+});
+
+const UpdateSubscriptionSchema = z.object({
+    items: z.array(ItemSchema).min(1).max(20).optional(),
+    intervalMonths: z.number().int().min(1).max(6).optional(),
+    paymentSource: z.enum(['card', 'wallet']).optional(),
+    nextRunAt: z.coerce.date().optional(),
+    ...DeliverySchema,
+});
+
+const IdParam = z.object({ id: z.string().uuid() });
+
+/* ───────────────── Subscriptions Controller ───────────────── */
+
+export const subscriptionsController = {
+    // GET /api/subscriptions
+    list: [
+        authMiddleware,
+        asyncHandler(async (req: Request, res: Response) => {
+            const data = await subscriptionService.listMine(req.user!.id);
+            return res.json({ success: true, data });
+        }),
+    ],
+
+    // POST /api/subscriptions
+    create: [
+        authMiddleware,
+        asyncHandler(async (req: Request, res: Response) => {
+            const body = CreateSubscriptionSchema.parse(req.body);
+            const data = await subscriptionService.create(req.user!.id, body);
+            return res.status(201).json({ success: true, data });
+        }),
+    ],
+
+    // PATCH /api/subscriptions/:id
+    update: [
+        authMiddleware,
+        asyncHandler(async (req: Request, res: Response) => {
+            const { id } = IdParam.parse(req.params);
+            const body = UpdateSubscriptionSchema.parse(req.body ?? {});
+            const data = await subscriptionService.update(id, req.user!.id, body);
+            return res.json({ success: true, data });
+        }),
+    ],
+
+    // POST /api/subscriptions/:id/pause
+    pause: [
+        authMiddleware,
+        asyncHandler(async (req: Request, res: Response) => {
+            const { id } = IdParam.parse(req.params);
+            const data = await subscriptionService.pause(id, req.user!.id);
+            return res.json({ success: true, data });
+        }),
+    ],
+
+    // POST /api/subscriptions/:id/resume
+    resume: [
+        authMiddleware,
+        asyncHandler(async (req: Request, res: Response) => {
+            const { id } = IdParam.parse(req.params);
+            const data = await subscriptionService.resume(id, req.user!.id);
+            return res.json({ success: true, data });
+        }),
+    ],
+
+    // POST /api/subscriptions/:id/skip
+    skip: [
+        authMiddleware,
+        asyncHandler(async (req: Request, res: Response) => {
+            const { id } = IdParam.parse(req.params);
+            const data = await subscriptionService.skip(id, req.user!.id);
+            return res.json({ success: true, data });
+        }),
+    ],
+
+    // POST /api/subscriptions/:id/cancel
+    cancel: [
+        authMiddleware,
+        asyncHandler(async (req: Request, res: Response) => {
+            const { id } = IdParam.parse(req.params);
+            const data = await subscriptionService.cancel(id, req.user!.id);
+            return res.json({ success: true, data });
+        }),
+    ],
+
+    // POST /api/subscriptions/:id/run-now
+    runNow: [
+        authMiddleware,
+        asyncHandler(async (req: Request, res: Response) => {
+            const { id } = IdParam.parse(req.params);
+            const data = await subscriptionService.runNow(id, req.user!.id);
+            return res.status(data.outcome === 'failed' ? 400 : 201).json({ success: data.outcome !== 'failed', data });
+        }),
+    ],
+};
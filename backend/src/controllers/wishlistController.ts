@@ -0,0 +1,72 @@
+// backend/src/controllers/wishlistController.ts
+import type { Request, Response } from 'express';
+import { z } from 'zod';
+import { authMiddleware } from '../middleware/auth';
+import { asyncHandler } from '../middleware/errorHandler';
+import { wishlistService } from '../services/wishlistService';
+
+/* ───────────────── Validation Schemas ───────────────── */
+
+const ProductIdParam = z.object({ productId: z.string().uuid() });
+
+/* ───────────────── Wishlist Controller ───────────────── */
+
+export const wishlistController = {
+    // GET /api/wishlist
+    list: [
+        authMiddleware,
+        asyncHandler(async (req: Request, res: Response) => {
+            const data = await wishlistService.list(req.user!.id);
+            return res.json({ success: true, data });
+        }),
+    ],
+
+    // GET /api/wishlist/ids
+    state: [
+        authMiddleware,
+        asyncHandler(async (req: Request, res: Response) => {
+            const data = await wishlistService.state(req.user!.id);
+            return res.json({ success: true, data });
+        }),
+    ],
+
+    // PUT /api/wishlist/:productId
+    add: [
+        authMiddleware,
+        asyncHandler(async (req: Request, res: Response) => {
+            const { productId } = ProductIdParam.parse(req.params);
+            const data = await wishlistService.add(req.user!.id, productId);
+            return res.status(data.added ? 201 : 200).json({ success: true, data });
+        }),
+    ],
+
+    // DELETE /api/wishlist/:productId
+    remove: [
+        authMiddleware,
+        asyncHandler(async (req: Request, res: Response) => {
+            const { productId } = ProductIdParam.parse(req.params);
+            await wishlistService.remove(req.user!.id, productId);
+            return res.json({ success: true });
+        }),
+    ],
+
+    // PUT /api/wishlist/back-in-stock/:productId
+    requestBackInStock: [
+        authMiddleware,
+        asyncHandler(async (req: Request, res: Response) => {
+            const { productId } = ProductIdParam.parse(req.params);
+            const data = await wishlistService.requestBackInStock(req.user!.id, productId);
+            return res.status(data.created ? 201 : 200).json({ success: true, data });
+        }),
+    ],
+
+    // DELETE /api/wishlist/back-in-stock/:productId
+    cancelBackInStock: [
+        authMiddleware,
+        asyncHandler(async (req: Request, res: Response) => {
+            const { productId } = ProductIdParam.parse(req.params);
+            await wishlistService.cancelBackInStock(req.user!.id, productId);
+            return res.json({ success: true });
+        }),
+    ],
+};
@@ -0,0 +1,74 @@
+// backend/src/db/schema/binaryBonus.ts
+import {
+    pgTable,
+    uuid,
+    text,
+    numeric,
+    index,
+    uniqueIndex,
+    check,
+} from 'drizzle-orm/pg-core';
+import { sql } from 'drizzle-orm';
+import { appUser } from './users';
+import { createdAtCol } from './_common';
+
+/**
+ * Binary Bonus Log - журнал обработки PV заказа в бинарной матрице
+ *
+ * Одна строка = один предок (userId) в placement-дереве для одного заказа:
+ * - фиксирует, в какую ногу и сколько PV пришло
+ * - сколько PV сматчено (слабая нога), выплачено и сгорело по лимиту периода
+ * - UNIQUE(order_id, user_id) — идемпотентность повторной обработки заказа
+ *
+ * Используется для расчёта лимитов за период и для сторно (возврат заказа).
+ */
+export const binaryBonusLog = pgTable(
+    'binary_bonus_log',
+    {
+        id: uuid('id').primaryKey().defaultRandom(),
+
+        // Заказ-источник объёма (без FK, как в ledger_txn)
+        orderId: uuid('order_id').notNull(),
+
+        // Получатель объёма/бонуса (предок в матрице)
+        userId: uuid('user_id')
+            .notNull()
+            .references(() => appUser.id, { onDelete: 'cascade' }),
+
+        // Покупатель
+        sourceUserId: uuid('source_user_id').references(() => appUser.id, { onDelete: 'set null' }),
+
+        // Нога, в которую пришёл объём: 'left' | 'right'
+        leg: text('leg').notNull(),
+
+        // Период лимита: 'YYYY-MM-01'
+        period: text('period').notNull(),
+
+        pvAdded: numeric('pv_added', { precision: 12, scale: 2 }).notNull().default('0'),
+        matchedPv: numeric('matched_pv', { precision: 12, scale: 2 }).notNull().default('0'),
+        flushedPv: numeric('flushed_pv', { precision: 12, scale: 2 }).notNull().default('0'),
+        payoutRub: numeric('payout_rub', { precision: 12, scale: 2 }).notNull().default('0'),
+        // Сколько из pv_added уже снято с ноги возвратами заказа
+        pvReversed: numeric('pv_reversed', { precision: 12, scale: 2 }).notNull().default('0'),
+
+        // Ledger txn выплаты (если была)
+        ledgerTxnId: uuid('ledger_txn_id'),
+
+        createdAt: createdAtCol(),
+    },
+    (t) => ({
+        uxOrderUser: uniqueIndex('ux_binary_bonus_log_order_user').on(t.orderId, t.userId),
+
+        ixUserPeriod: index('ix_binary_bonus_log_user_period').on(t.userId, t.period),
+        ixOrder: index('ix_binary_bonus_log_order').on(t.orderId),
+
+        chkLeg: check('chk_binary_bonus_log_leg', sql`${t.leg} IN ('left', 'right')`),
+        chkNonNeg: check(
+            'chk_binary_bonus_log_non_neg',
+            sql`${t.pvAdded} >= 0 AND ${t.matchedPv} >= 0 AND ${t.flushedPv} >= 0 AND ${t.payoutRub} >= 0 AND ${t.pvReversed} >= 0`
+        ),
+    })
+);
+
+export type BinaryBonusLog = typeof binaryBonusLog.$inferSelect;
+export type NewBinaryBonusLog = typeof binaryBonusLog.$inferInsert;
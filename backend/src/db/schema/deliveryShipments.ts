@@ -0,0 +1,43 @@
+// backend/drizzle/schema/deliveryShipments.ts
+import {
+    pgTable, uuid, text, integer, jsonb, index, uniqueIndex, check,
+} from 'drizzle-orm/pg-core';
+import { sql } from 'drizzle-orm';
+import { order } from './orders';
+import { deliveryServiceEnum } from './enums';
+import { createdAtCol, updatedAtCol } from './_common';
+
+/**
+ * Отправление у перевозчика (одно на заказ).
+ * Строка появляется при первой попытке создания после оплаты; failed-отправления
+ * и созданные без трек-номера добирает задача delivery-shipments-sync.
+ */
+export const deliveryShipment = pgTable('delivery_shipment', {
+    id: uuid('id').primaryKey().defaultRandom(),
+
+    orderId: uuid('order_id').notNull().references(() => order.id, { onDelete: 'cascade' }),
+    carrier: deliveryServiceEnum('carrier').notNull(),
+
+    // 'pending' | 'created' | 'failed'
+    status: text('status').notNull().default('pending'),
+    // id у перевозчика: uuid заказа СДЭК, id backlog Почты, request_id Яндекса
+    externalId:   text('external_id'),
+    trackingCode: text('tracking_code'),
+    carrierStatus: text('carrier_status'),
+
+    attempts:  integer('attempts').notNull().default(0),
+    lastError: text('last_error'),
+    // Что отправили перевозчику (грузоместо, адресат) — для разбора ошибок
+    request:   jsonb('request'),
+
+    createdAt: createdAtCol(),
+    updatedAt: updatedAtCol(),
+}, (t) => ({
+    uxOrder:  uniqueIndex('ux_delivery_shipment_order').on(t.orderId),
+    ixStatus: index('ix_delivery_shipment_status').on(t.status),
+
+    chkStatus: check('chk_delivery_shipment_status', sql`${t.status} IN ('pending', 'created', 'failed')`),
+}));
+
+export type DeliveryShipment    = typeof deliveryShipment.$inferSelect;
+export type NewDeliveryShipment = typeof deliveryShipment.$inferInsert;
@@ -12,7 +12,8 @@ export const deliveryStatusEnum = pgEnum('delivery_status', [
 ]);
 
 export const paymentMethodEnum = pgEnum('payment_method', [
-    'card','sbp','wallet','cash','promo', // 'mixed' removed - not implemented
+    'card','sbp','wallet','cash','promo',
+    'mixed', // часть с кошелька (ledger) + остаток картой / СБП
 ]);
 
 export const paymentStatusEnum = pgEnum('payment_status', [
@@ -30,10 +31,11 @@ export const ledgerOpTypeEnum = pgEnum('ledger_op_type', [
     'first_pool','airdrop','achievement','adjustment',
     'withdrawal_request','withdrawal_payout',
     'cashback','network_bonus','referral_bonus','network_fund_allocation',
+    'hold_release','withdrawal_unlock',
 ]);
 
 export const accountTypeEnum = pgEnum('account_type', [
-    'cash_rub','pv','vwc','referral','reserve_special','network_fund',
+    'cash_rub','pv','vwc','referral','reserve_special','network_fund','receivable','hold',
 ]);
 
 export const ownerTypeEnum    = pgEnum('owner_type', ['user','system']);
@@ -47,6 +49,11 @@ export const blogStatusEnum      = pgEnum('blog_status', ['published','draft']);
 export const addressTypeEnum     = pgEnum('address_type', ['home','work']);
 export const rbacRoleEnum        = pgEnum('rbac_role', ['admin','finance','support','editor']);
 
+/** Ставка НДС в чеке 54-ФЗ (значения Tax из API Тинькофф) */
+export const vatRateEnum = pgEnum('vat_rate', [
+    'none','vat0','vat5','vat7','vat10','vat20','vat105','vat107','vat110','vat120',
+]);
+
 /** Вывод средств */
 export const withdrawalStatusEnum = pgEnum('withdrawal_status', [
     'requested','in_review','approved','rejected','paid','canceled',
@@ -11,10 +11,15 @@ export { address } from './addresses';
 // Network (держим отдельно, чтобы не дублировать с users.ts)
 export { networkEdge } from './network';
 export { matrixPlacement } from './matrixPlacement';
+export { binaryBonusLog } from './binaryBonus';
 
 // Catalog
 export { category } from './categories';
 export { product } from './products';
+export { productVariant } from './productVariants';
+export { productBundleItem } from './productBundles';
+export { stockReservation } from './stockReservations';
+export { inventoryMovement } from './inventory';
 
 // Promotions
 export { promotion, promotionProduct } from './promotions';
@@ -26,24 +31,35 @@ export { uploadedMedia } from './media';
 // Orders & Payments
 export { order } from './orders';
 // Если добавишь таблицу позиций заказа в отдельном файле — раскомментируй:
-export { orderItem } from './orderItem';
+export { orderItem, orderItemComponent } from './orderItem';
 
-export { payment } from './payments';
+export { payment, paymentRefund, paymentWebhook, paymentMismatch } from './payments';
+export { orderReturn, orderReturnItem } from './orderReturns';
+export { subscription, subscriptionItem } from './subscriptions';
+export { wishlistItem, backInStockRequest } from './wishlist';
+export { productAffinity, userRecommendation } from './recommendations';
 
 // Promo codes
 export { promoCode, promoCodeUsage } from './promoCodes';
 
-// export { deliveryEvent } from './delivery_events';
+export { deliveryEvent } from './notifications';
+export { deliveryShipment } from './deliveryShipments';
 
 // System logs & notifications
 export { notification, orderLog, userActivityLog, analyticsTag } from './system';
 
+// Scheduled jobs
+export { scheduledJob, jobRun } from './scheduledJobs';
+
 // Ledger
 export { ledgerAccount, ledgerTxn, ledgerPosting } from './ledger';
+export { ledgerReconciliationRun, ledgerReconciliationFinding } from './ledgerReconciliation';
+export { ledgerHold } from './ledgerHolds';
 
 // Levels / Ranks / Settings
 export { levelsMatrixVersions } from './levels-matrix';
 export { rankRules } from './ranks';
+export { mlmMonthlyStats } from './mlmAnalytics';
 export { settings, adminAuditLog } from './settings';
 export { settlementSettings } from './settlementSettings';
 
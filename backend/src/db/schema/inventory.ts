@@ -0,0 +1,56 @@
+// backend/drizzle/schema/inventory.ts
+import {
+    pgTable, uuid, text, integer, index, check,
+} from 'drizzle-orm/pg-core';
+import { sql } from 'drizzle-orm';
+import { product } from './products';
+import { productVariant } from './productVariants';
+import { order } from './orders';
+import { appUser } from './users';
+import { createdAtCol } from './_common';
+
+/**
+ * Журнал движения товара. product.stock = сумма qty всех движений, кроме reservation
+ * (резервы остаток не меняют — их сумма равна количеству в активных резервах).
+ * Движение варианта (variant_id) меняет и остаток варианта, и product.stock.
+ *
+ *   receipt     — приход от поставщика (вручную или CSV)
+ *   sale        — продажа: резерв переведён в продажу при оплате
+ *   return      — возврат на склад (возврат заказа, отмена оплаченного)
+ *   adjustment  — ручная корректировка (инвентаризация, правка остатка в карточке)
+ *   write_off   — списание (брак, просрочка)
+ *   reservation — резерв под заказ (+) и его снятие / перевод в продажу (−)
+ */
+export const inventoryMovement = pgTable('inventory_movement', {
+    id: uuid('id').primaryKey().defaultRandom(),
+
+    productId: uuid('product_id').notNull().references(() => product.id, { onDelete: 'cascade' }),
+    variantId: uuid('variant_id').references(() => productVariant.id, { onDelete: 'set null' }),
+    type: text('type').notNull(),
+    // Знаковое изменение: + приход, − расход
+    qty: integer('qty').notNull(),
+    // Остаток после движения (у варианта — остаток варианта); у reservation — NULL
+    stockAfter: integer('stock_after'),
+
+    reason: text('reason'),
+    // Номер накладной поставщика, имя CSV-файла и т.п.
+    reference: text('reference'),
+    orderId: uuid('order_id').references(() => order.id, { onDelete: 'set null' }),
+    userId:  uuid('user_id').references(() => appUser.id, { onDelete: 'set null' }),
+
+    createdAt: createdAtCol(),
+}, (t) => ({
+    ixProductCreated: index('ix_inventory_movement_product_created').on(t.productId, t.createdAt),
+    ixOrder: index('ix_inventory_movement_order').on(t.orderId),
+    ixVariant: index('ix_inventory_movement_variant').on(t.variantId).where(sql`${t.variantId} IS NOT NULL`),
+
+    chkType: check(
+        'chk_inventory_movement_type',
+        sql`${t.type} IN ('receipt', 'sale', 'return', 'adjustment', 'write_off', 'reservation')`
+    ),
+    chkQty: check('chk_inventory_movement_qty_nonzero', sql`${t.qty} <> 0`),
+}));
+
+export type InventoryMovement    = typeof inventoryMovement.$inferSelect;
+export type NewInventoryMovement = typeof inventoryMovement.$inferInsert;
+export type InventoryMovementType = 'receipt' | 'sale' | 'return' | 'adjustment' | 'write_off' | 'reservation';
@@ -0,0 +1,72 @@
+// backend/src/db/schema/ledgerHolds.ts
+import {
+    pgTable,
+    uuid,
+    text,
+    numeric,
+    timestamp,
+    index,
+    uniqueIndex,
+    check,
+} from 'drizzle-orm/pg-core';
+import { sql } from 'drizzle-orm';
+import { appUser } from './users';
+import { ledgerAccount, ledgerTxn } from './ledger';
+import { accountTypeEnum, currencyEnum } from './enums';
+import { createdAtCol } from './_common';
+
+/**
+ * Ledger Hold - бонус за доставленный заказ, замороженный на время окна возврата
+ *
+ * Начисление идёт на пользовательский счёт `hold` (pending), по release_at фоновая задача
+ * переносит остаток (за вычетом сторно по возвратам) на целевой счёт target_type.
+ */
+export const ledgerHold = pgTable(
+    'ledger_hold',
+    {
+        id: uuid('id').primaryKey().defaultRandom(),
+
+        userId: uuid('user_id')
+            .notNull()
+            .references(() => appUser.id, { onDelete: 'cascade' }),
+        orderId: uuid('order_id'), // без FK, как ledger_txn.order_id
+
+        // Исходное начисление (Дт user:hold / Кт system) и счёт холда
+        txnId: uuid('txn_id')
+            .notNull()
+            .references(() => ledgerTxn.id, { onDelete: 'cascade' }),
+        holdAccountId: uuid('hold_account_id')
+            .notNull()
+            .references(() => ledgerAccount.id),
+
+        // Куда переносится при освобождении
+        targetType: accountTypeEnum('target_type').notNull(),
+        currency: currencyEnum('currency').notNull(),
+        amount: numeric('amount', { precision: 12, scale: 2 }).notNull(),
+
+        releaseAt: timestamp('release_at', { withTimezone: true }).notNull(),
+        // 'held' | 'released' | 'canceled' (полностью сторнирован возвратом)
+        status: text('status').notNull().default('held'),
+
+        releasedAmount: numeric('released_amount', { precision: 12, scale: 2 }),
+        releaseTxnId: uuid('release_txn_id'),
+        releasedAt: timestamp('released_at', { withTimezone: true }),
+
+        createdAt: createdAtCol(),
+    },
+    (t) => ({
+        uxTxn: uniqueIndex('ux_ledger_hold_txn').on(t.txnId),
+        ixDue: index('ix_ledger_hold_due').on(t.status, t.releaseAt),
+        ixUser: index('ix_ledger_hold_user').on(t.userId, t.status),
+        ixOrder: index('ix_ledger_hold_order').on(t.orderId),
+
+        chkStatus: check('chk_ledger_hold_status', sql`${t.status} IN ('held', 'released', 'canceled')`),
+        chkAmount: check(
+            'chk_ledger_hold_amount',
+            sql`${t.amount} > 0 AND (${t.releasedAmount} IS NULL OR ${t.releasedAmount} >= 0)`
+        ),
+    })
+);
+
+export type LedgerHold = typeof ledgerHold.$inferSelect;
+export type NewLedgerHold = typeof ledgerHold.$inferInsert;
@@ -0,0 +1,105 @@
+// backend/src/db/schema/ledgerReconciliation.ts
+import {
+    pgTable,
+    uuid,
+    text,
+    integer,
+    numeric,
+    jsonb,
+    timestamp,
+    index,
+    check,
+} from 'drizzle-orm/pg-core';
+import { sql } from 'drizzle-orm';
+import { appUser } from './users';
+import { currencyEnum } from './enums';
+import { createdAtCol } from './_common';
+
+/**
+ * Ledger Reconciliation Run - прогон сверки леджера на дату as_of
+ *
+ * Проверки: двойная запись по txn × валюте, app_user.balance vs cash_rub,
+ * отрицательные и «осиротевшие» счета. Оборотно-сальдовая ведомость (trial balance)
+ * на as_of сохраняется вместе с прогоном.
+ */
+export const ledgerReconciliationRun = pgTable(
+    'ledger_reconciliation_run',
+    {
+        id: uuid('id').primaryKey().defaultRandom(),
+
+        // Дата, на которую считаются остатки (проводки с created_at <= as_of)
+        asOf: timestamp('as_of', { withTimezone: true }).notNull(),
+
+        // 'schedule' | 'manual'
+        trigger: text('trigger').notNull().default('manual'),
+        // 'running' | 'ok' | 'issues' | 'failed'
+        status: text('status').notNull().default('running'),
+
+        triggeredBy: uuid('triggered_by').references(() => appUser.id, { onDelete: 'set null' }),
+
+        findingsCount: integer('findings_count').notNull().default(0),
+        // Сколько txn / счетов / пользователей проверено
+        stats: jsonb('stats'),
+        trialBalance: jsonb('trial_balance'),
+        error: text('error'),
+
+        startedAt: timestamp('started_at', { withTimezone: true }).notNull().defaultNow(),
+        finishedAt: timestamp('finished_at', { withTimezone: true }),
+        createdAt: createdAtCol(),
+    },
+    (t) => ({
+        ixStarted: index('ix_ledger_recon_run_started').on(t.startedAt),
+
+        chkTrigger: check('chk_ledger_recon_run_trigger', sql`${t.trigger} IN ('schedule', 'manual')`),
+        chkStatus: check(
+            'chk_ledger_recon_run_status',
+            sql`${t.status} IN ('running', 'ok', 'issues', 'failed')`
+        ),
+    })
+);
+
+/**
+ * Ledger Reconciliation Finding - расхождение, найденное прогоном
+ */
+export const ledgerReconciliationFinding = pgTable(
+    'ledger_reconciliation_finding',
+    {
+        id: uuid('id').primaryKey().defaultRandom(),
+
+        runId: uuid('run_id')
+            .notNull()
+            .references(() => ledgerReconciliationRun.id, { onDelete: 'cascade' }),
+
+        // 'unbalanced_txn' | 'empty_txn' | 'user_balance_mismatch' | 'negative_account' | 'orphan_account'
+        kind: text('kind').notNull(),
+        // 'error' | 'warning'
+        severity: text('severity').notNull().default('error'),
+
+        // Без FK: находка должна пережить удаление счёта / txn / пользователя
+        txnId: uuid('txn_id'),
+        accountId: uuid('account_id'),
+        userId: uuid('user_id'),
+        currency: currencyEnum('currency'),
+
+        expected: numeric('expected', { precision: 14, scale: 2 }),
+        actual: numeric('actual', { precision: 14, scale: 2 }),
+        details: jsonb('details'),
+
+        createdAt: createdAtCol(),
+    },
+    (t) => ({
+        ixRun: index('ix_ledger_recon_finding_run').on(t.runId),
+        ixKind: index('ix_ledger_recon_finding_kind').on(t.runId, t.kind),
+
+        chkKind: check(
+            'chk_ledger_recon_finding_kind',
+            sql`${t.kind} IN ('unbalanced_txn', 'empty_txn', 'user_balance_mismatch', 'negative_account', 'orphan_account')`
+        ),
+        chkSeverity: check('chk_ledger_recon_finding_severity', sql`${t.severity} IN ('error', 'warning')`),
+    })
+);
+
+export type LedgerReconciliationRun = typeof ledgerReconciliationRun.$inferSelect;
+export type NewLedgerReconciliationRun = typeof ledgerReconciliationRun.$inferInsert;
+export type LedgerReconciliationFinding = typeof ledgerReconciliationFinding.$inferSelect;
+export type NewLedgerReconciliationFinding = typeof ledgerReconciliationFinding.$inferInsert;
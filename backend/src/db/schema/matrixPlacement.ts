@@ -58,6 +58,14 @@ export const matrixPlacement = pgTable(
             .notNull()
             .default('0'),
 
+        // Несматченный остаток (carry-over) по ногам для бинарного бонуса
+        leftCarryPv: numeric('left_carry_pv', { precision: 12, scale: 2 })
+            .notNull()
+            .default('0'),
+        rightCarryPv: numeric('right_carry_pv', { precision: 12, scale: 2 })
+            .notNull()
+            .default('0'),
+
         // Счётчики прямых рефералов в каждой ноге
         leftLegCount: integer('left_leg_count').notNull().default(0),
         rightLegCount: integer('right_leg_count').notNull().default(0),
@@ -93,6 +101,12 @@ export const matrixPlacement = pgTable(
             sql`${t.leftLegVolume} >= 0 AND ${t.rightLegVolume} >= 0`
         ),
 
+        // CHECK: carry >= 0
+        chkCarry: check(
+            'chk_matrix_placement_carry',
+            sql`${t.leftCarryPv} >= 0 AND ${t.rightCarryPv} >= 0`
+        ),
+
         // CHECK: counts >= 0
         chkCounts: check(
             'chk_matrix_placement_counts',
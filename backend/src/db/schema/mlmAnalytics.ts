@@ -21,6 +21,14 @@ export const mlmMonthlyStats = pgTable('mlm_monthly_stats', {
     loAmount: numeric('lo_amount', { precision: 14, scale: 2 }).notNull().default('0'),
     rank: mlmRankEnum('rank').notNull().default('member'),
 
+    // Метрики квалификации (заполняются при закрытии месяца)
+    pvAmount: numeric('pv_amount', { precision: 14, scale: 2 }).notNull().default('0'),
+    activePartners: integer('active_partners').notNull().default(0),
+    branches: integer('branches').notNull().default(0),
+    // Ранг, на который пользователь выполнил условия в этом месяце (NULL — месяц не закрыт)
+    qualifiedRank: mlmRankEnum('qualified_rank'),
+    closedAt: timestamp('closed_at', { withTimezone: true }),
+
     createdAt: createdAtCol(),
     updatedAt: updatedAtCol(),
 }, (t) => ({
@@ -7,8 +7,10 @@ import {
     timestamp,
     jsonb,
     index,
+    uniqueIndex,
     serial,
 } from 'drizzle-orm/pg-core';
+import { sql } from 'drizzle-orm';
 
 import { createdAtCol } from './_common';
 import {
@@ -89,6 +91,19 @@ export const deliveryEvent = pgTable(
         /** Статус, который приходит от API курьера (если есть) */
         providerStatus: text('provider_status'),
 
+        /** Откуда событие: webhook / poll (опрос перевозчика) / admin */
+        source: text('source').notNull().default('admin'),
+
+        /** Текст статуса и город — для ленты отслеживания у покупателя */
+        description: text('description'),
+        location: text('location'),
+
+        /** Время события у перевозчика (created_at — время получения) */
+        occurredAt: timestamp('occurred_at', { withTimezone: true }),
+
+        /** carrier:externalId:providerStatus:occurredAt — одно событие перевозчика пишется один раз */
+        dedupKey: text('dedup_key'),
+
         /** Любые дополнительные данные */
         payload: jsonb('payload'),
 
@@ -97,6 +112,9 @@ export const deliveryEvent = pgTable(
             .notNull(),
     },
     (t) => ({
+        uxDedup: uniqueIndex('ux_delivery_event_dedup')
+            .on(t.dedupKey)
+            .where(sql`${t.dedupKey} IS NOT NULL`),
         ixOrder: index('ix_delivery_event_order').on(t.orderId),
         ixStatus: index('ix_delivery_event_status').on(t.status),
         ixProvider: index('ix_delivery_event_provider').on(t.provider),
@@ -3,6 +3,7 @@ import { sql } from 'drizzle-orm';
 import { createdAtCol, updatedAtCol } from './_common';
 import { order } from './orders';
 import { product } from './products'; // ← добавляем импорт, это безопасно
+import { productVariant } from './productVariants';
 
 export const orderItem = pgTable(
     'order_item',
@@ -17,7 +18,11 @@ export const orderItem = pgTable(
             .notNull()
             .references(() => product.id, { onDelete: 'restrict' }),
 
+        // Вариант (фасовка / вкус); NULL — товар без вариантов
+        variantId: uuid('variant_id').references(() => productVariant.id, { onDelete: 'restrict' }),
+
         productName: text('product_name').notNull(),
+        variantName: text('variant_name'),
         productSlug: text('product_slug'),
         imageUrl: text('image_url'),
         categoryId: uuid('category_id'),
@@ -48,6 +53,7 @@ export const orderItem = pgTable(
         // Индексы
         ixOrder: index('ix_order_item_order').on(t.orderId),
         ixProduct: index('ix_order_item_product').on(t.productId),
+        ixVariant: index('ix_order_item_variant').on(t.variantId).where(sql`${t.variantId} IS NOT NULL`),
 
         // ✅ FIX-2: Unique constraint - один товар один раз в заказе
         uqOrderProduct: index('uq_order_item_order_product').on(t.orderId, t.productId),
@@ -55,3 +61,40 @@ export const orderItem = pgTable(
 );
 
 export type OrderItem = typeof orderItem.$inferSelect;
+
+/**
+ * Компоненты позиции-набора на момент добавления в корзину: резерв, списание и возврат на склад
+ * идут по ним, а цена набора разложена по компонентам (amount_rub — доля цены одного набора)
+ * для чека и описи посылки.
+ */
+export const orderItemComponent = pgTable(
+    'order_item_component',
+    {
+        id: uuid('id').primaryKey().defaultRandom(),
+
+        orderItemId: uuid('order_item_id')
+            .notNull()
+            .references(() => orderItem.id, { onDelete: 'cascade' }),
+        productId: uuid('product_id')
+            .notNull()
+            .references(() => product.id, { onDelete: 'restrict' }),
+        variantId: uuid('variant_id').references(() => productVariant.id, { onDelete: 'restrict' }),
+
+        productName: text('product_name').notNull(),
+        variantName: text('variant_name'),
+        sku: text('sku'),
+
+        // Штук компонента в одном наборе
+        qty: integer('qty').notNull(),
+        amountRub: numeric('amount_rub', { precision: 12, scale: 2 }).notNull(),
+
+        createdAt: createdAtCol(),
+    },
+    (t) => ({
+        chkQty: check('chk_order_item_component_qty', sql`${t.qty} > 0`),
+        chkAmount: check('chk_order_item_component_amount', sql`${t.amountRub} >= 0`),
+        ixOrderItem: index('ix_order_item_component_item').on(t.orderItemId),
+    })
+);
+
+export type OrderItemComponent = typeof orderItemComponent.$inferSelect;
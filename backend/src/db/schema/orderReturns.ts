@@ -0,0 +1,99 @@
+// backend/src/db/schema/orderReturns.ts
+import {
+    pgTable,
+    uuid,
+    text,
+    integer,
+    numeric,
+    boolean,
+    jsonb,
+    index,
+    uniqueIndex,
+    check,
+} from 'drizzle-orm/pg-core';
+import { sql } from 'drizzle-orm';
+import { appUser } from './users';
+import { order } from './orders';
+import { orderItem } from './orderItem';
+import { createdAtCol } from './_common';
+
+/**
+ * Order Return - возврат (полный или частичный) доставленного заказа
+ *
+ * share_before / share_after — накопленная доля возвращённой стоимости заказа
+ * до и после этого возврата (0..1). Сторно каждой ledger_txn заказа делается
+ * на разницу долей, поэтому серия частичных возвратов в сумме даёт ровно полный.
+ */
+export const orderReturn = pgTable(
+    'order_return',
+    {
+        id: uuid('id').primaryKey().defaultRandom(),
+
+        orderId: uuid('order_id')
+            .notNull()
+            .references(() => order.id, { onDelete: 'cascade' }),
+
+        // 'partial' | 'full'
+        kind: text('kind').notNull(),
+        reason: text('reason'),
+
+        // Стоимость возвращённых позиций (по line_total_rub)
+        amountRub: numeric('amount_rub', { precision: 12, scale: 2 }).notNull().default('0'),
+        pvReturned: integer('pv_returned').notNull().default(0),
+
+        shareBefore: numeric('share_before', { precision: 9, scale: 6 }).notNull().default('0'),
+        shareAfter: numeric('share_after', { precision: 9, scale: 6 }).notNull(),
+
+        // Итог сторно: число txn, суммы по валютам, долги (receivable)
+        summary: jsonb('summary'),
+
+        createdBy: uuid('created_by').references(() => appUser.id, { onDelete: 'set null' }),
+        createdAt: createdAtCol(),
+    },
+    (t) => ({
+        ixOrder: index('ix_order_return_order').on(t.orderId),
+
+        chkKind: check('chk_order_return_kind', sql`${t.kind} IN ('partial', 'full')`),
+        chkShare: check(
+            'chk_order_return_share',
+            sql`${t.shareBefore} >= 0 AND ${t.shareAfter} >= ${t.shareBefore} AND ${t.shareAfter} <= 1`
+        ),
+    })
+);
+
+/**
+ * Order Return Item - возвращённые позиции (order_item × qty)
+ */
+export const orderReturnItem = pgTable(
+    'order_return_item',
+    {
+        id: uuid('id').primaryKey().defaultRandom(),
+
+        returnId: uuid('return_id')
+            .notNull()
+            .references(() => orderReturn.id, { onDelete: 'cascade' }),
+        orderItemId: uuid('order_item_id')
+            .notNull()
+            .references(() => orderItem.id, { onDelete: 'cascade' }),
+
+        qty: integer('qty').notNull(),
+        amountRub: numeric('amount_rub', { precision: 12, scale: 2 }).notNull().default('0'),
+        pvTotal: integer('pv_total').notNull().default(0),
+
+        // Вернули ли товар на склад (брак/вскрытая упаковка — нет)
+        restocked: boolean('restocked').notNull().default(true),
+
+        createdAt: createdAtCol(),
+    },
+    (t) => ({
+        uxReturnItem: uniqueIndex('ux_order_return_item').on(t.returnId, t.orderItemId),
+        ixOrderItem: index('ix_order_return_item_order_item').on(t.orderItemId),
+
+        chkQty: check('chk_order_return_item_qty', sql`${t.qty} > 0`),
+    })
+);
+
+export type OrderReturn = typeof orderReturn.$inferSelect;
+export type NewOrderReturn = typeof orderReturn.$inferInsert;
+export type OrderReturnItem = typeof orderReturnItem.$inferSelect;
+export type NewOrderReturnItem = typeof orderReturnItem.$inferInsert;
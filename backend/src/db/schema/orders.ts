@@ -9,13 +9,26 @@ import {
     boolean,
     text,
     check,
+    jsonb,
 } from 'drizzle-orm/pg-core';
 
 import { sql } from 'drizzle-orm';
 import { appUser } from './users';
+import { subscription } from './subscriptions';
 import { orderStatusEnum, deliveryStatusEnum, paymentMethodEnum } from './enums';
 import { createdAtCol, updatedAtCol } from './_common';
 
+export type DeliveryDestination = {
+    postalCode?: string | undefined;
+    city?: string | undefined;
+    /** Код города в справочнике СДЭК */
+    cityCode?: number | undefined;
+    /** Код ПВЗ / постамата (СДЭК), индекс ОПС (Почта), id станции (Яндекс) */
+    pickupPointCode?: string | undefined;
+    recipientName?: string | undefined;
+    recipientPhone?: string | undefined;
+};
+
 export const order = pgTable(
     'order',
     {
@@ -90,6 +103,8 @@ export const order = pgTable(
             .notNull()
             .default('0'),
         deliveryAddress: text('delivery_address'),
+        // Куда везти для API перевозчика: индекс / город / ПВЗ, получатель
+        deliveryDestination: jsonb('delivery_destination').$type<DeliveryDestination>(),
         deliveryTrackingCode: text('delivery_tracking_code'),
 
         deliveredAt: timestamp('delivered_at', { withTimezone: true }),
@@ -97,6 +112,12 @@ export const order = pgTable(
         // ✅ Idempotency key для предотвращения дублирования заказов
         idempotencyKey: text('idempotency_key'),
 
+        // Заказ создан подпиской (автопополнение); скидка подписчика — отдельной суммой
+        subscriptionId: uuid('subscription_id').references(() => subscription.id, { onDelete: 'set null' }),
+        subscriptionDiscountRub: numeric('subscription_discount_rub', { precision: 12, scale: 2 })
+            .notNull()
+            .default('0'),
+
         createdAt: createdAtCol(),
         updatedAt: updatedAtCol(),
     },
@@ -143,6 +164,11 @@ export const order = pgTable(
             sql`${t.referralDiscountRub} >= 0`
         ),
 
+        chkSubscriptionDiscount: check(
+            'chk_subscription_discount_nonneg',
+            sql`${t.subscriptionDiscountRub} >= 0`
+        ),
+
         // Индексы
         ixOrderUser: index('ix_order_user').on(t.userId),
         ixOrderDeliveredAt: index('ix_order_delivered_at').on(t.deliveredAt),
@@ -150,6 +176,7 @@ export const order = pgTable(
         ixOrderIdempotencyKey: index('ix_order_idempotency_key').on(t.idempotencyKey),
         // ✅ FIX-2: Индекс для быстрого поиска по referrer
         ixOrderReferralUser: index('ix_order_referral_user').on(t.referralUserId),
+        ixOrderSubscription: index('ix_order_subscription').on(t.subscriptionId),
     })
 );
 
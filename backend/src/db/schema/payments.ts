@@ -1,9 +1,11 @@
 // backend/drizzle/schema/payments.ts
 import {
-    pgTable, uuid, text, timestamp, numeric, index, uniqueIndex, check,
+    pgTable, uuid, text, timestamp, numeric, boolean, jsonb, index, uniqueIndex, check,
 } from 'drizzle-orm/pg-core';
 import { sql } from 'drizzle-orm';
 import { order } from './orders';
+import { orderReturn } from './orderReturns';
+import { appUser } from './users';
 import { createdAtCol, updatedAtCol } from './_common';
 import { currencyEnum, paymentMethodEnum, paymentStatusEnum } from './enums';
 
@@ -14,6 +16,8 @@ export const payment = pgTable('payment', {
 
     method: paymentMethodEnum('method').notNull(),       // 'card' | 'vwc'
     status: paymentStatusEnum('status').notNull(),
+    // Провайдер (paymentProviders): 'tinkoff' | 'sbp' | 'fake' | 'wallet'; NULL — ручной платёж
+    provider: text('provider'),
 
     amountRub: numeric('amount_rub', { precision: 12, scale: 2 }).notNull(),
     currency:  currencyEnum('currency').notNull().default('RUB'),
@@ -46,3 +50,126 @@ export const payment = pgTable('payment', {
 
 export type Payment    = typeof payment.$inferSelect;
 export type NewPayment = typeof payment.$inferInsert;
+
+/**
+ * Возврат средств по платежу (Cancel у провайдера).
+ * Строка создаётся до вызова провайдера (idempotency_key), order_return — после успешного Cancel.
+ */
+export const paymentRefund = pgTable('payment_refund', {
+    id: uuid('id').primaryKey().defaultRandom(),
+
+    paymentId: uuid('payment_id').notNull().references(() => payment.id, { onDelete: 'cascade' }),
+    orderId:   uuid('order_id').notNull().references(() => order.id, { onDelete: 'cascade' }),
+    returnId:  uuid('return_id').references(() => orderReturn.id, { onDelete: 'set null' }),
+
+    amountRub: numeric('amount_rub', { precision: 12, scale: 2 }).notNull(),
+    // 'pending' | 'succeeded' | 'failed'
+    status: text('status').notNull().default('pending'),
+    providerStatus: text('provider_status'),          // REFUNDED / PARTIAL_REFUNDED / ...
+
+    idempotencyKey: text('idempotency_key').notNull(),
+
+    // Запрос: позиции [{ orderItemId, qty, restock? }] (null — весь остаток), доставка, чек
+    items: jsonb('items').$type<Array<{ orderItemId: string; qty: number; restock?: boolean }>>(),
+    includeDelivery: boolean('include_delivery').notNull().default(false),
+    restock: boolean('restock').notNull().default(true),
+    receipt: jsonb('receipt'),
+    reason: text('reason'),
+
+    errorCode:    text('error_code'),
+    errorMessage: text('error_message'),
+
+    createdBy: uuid('created_by').references(() => appUser.id, { onDelete: 'set null' }),
+    createdAt: createdAtCol(),
+    completedAt: timestamp('completed_at', { withTimezone: true }),
+}, (t) => ({
+    uxIdempotency: uniqueIndex('ux_payment_refund_idempotency').on(t.idempotencyKey),
+    ixPayment: index('ix_payment_refund_payment').on(t.paymentId),
+    ixOrder:   index('ix_payment_refund_order').on(t.orderId),
+
+    chkStatus: check('chk_payment_refund_status', sql`${t.status} IN ('pending', 'succeeded', 'failed')`),
+    chkAmount: check('chk_payment_refund_amount', sql`${t.amountRub} > 0`),
+}));
+
+export type PaymentRefund    = typeof paymentRefund.$inferSelect;
+export type NewPaymentRefund = typeof paymentRefund.$inferInsert;
+
+/**
+ * Входящие уведомления провайдера (сырые, все подряд — в т.ч. с неверной подписью и дубли).
+ * dedup_key = provider:PaymentId:Status — заполнен только у принятого к обработке уведомления,
+ * уникальный индекс отсекает повторную обработку при ретраях провайдера.
+ */
+export const paymentWebhook = pgTable('payment_webhook', {
+    id: uuid('id').primaryKey().defaultRandom(),
+
+    provider:   text('provider').notNull(),
+    externalId: text('external_id'),                  // PaymentId у провайдера
+    orderId:    text('order_id'),                     // OrderId как пришёл (может быть чужим / битым)
+    status:     text('status'),                       // CONFIRMED / REJECTED / ...
+    amountRub:  numeric('amount_rub', { precision: 12, scale: 2 }),
+
+    payload: jsonb('payload').notNull(),
+    signatureValid: boolean('signature_valid').notNull(),
+    dedupKey: text('dedup_key'),
+
+    // 'received' | 'processed' | 'duplicate' | 'stale' | 'rejected' | 'failed'
+    outcome: text('outcome').notNull().default('received'),
+    error: text('error'),
+
+    receivedAt:  timestamp('received_at', { withTimezone: true }).notNull().defaultNow(),
+    processedAt: timestamp('processed_at', { withTimezone: true }),
+}, (t) => ({
+    uxDedup: uniqueIndex('ux_payment_webhook_dedup')
+        .on(t.dedupKey)
+        .where(sql`${t.dedupKey} IS NOT NULL`),
+    ixExternal: index('ix_payment_webhook_external').on(t.provider, t.externalId),
+    ixReceived: index('ix_payment_webhook_received').on(t.receivedAt),
+
+    chkOutcome: check(
+        'chk_payment_webhook_outcome',
+        sql`${t.outcome} IN ('received', 'processed', 'duplicate', 'stale', 'rejected', 'failed')`
+    ),
+}));
+
+export type PaymentWebhook    = typeof paymentWebhook.$inferSelect;
+export type NewPaymentWebhook = typeof paymentWebhook.$inferInsert;
+
+/**
+ * Расхождения платежа с провайдером (сверка paymentReconciliationWorker и уведомления).
+ * Открытое расхождение одного вида по платежу — одно: повторное обнаружение обновляет last_seen_at.
+ */
+export const paymentMismatch = pgTable('payment_mismatch', {
+    id: uuid('id').primaryKey().defaultRandom(),
+
+    paymentId: uuid('payment_id').notNull().references(() => payment.id, { onDelete: 'cascade' }),
+    orderId:   uuid('order_id').notNull().references(() => order.id, { onDelete: 'cascade' }),
+
+    // 'missed_webhook' | 'paid_order_not_paid' | 'amount_mismatch' | 'status_regression'
+    kind: text('kind').notNull(),
+    localStatus:    text('local_status'),             // payment.status на момент обнаружения
+    providerStatus: text('provider_status'),
+    orderStatus:    text('order_status'),
+    details: jsonb('details'),
+
+    // Статус исправлен автоматически (иначе — нужен разбор админом)
+    repaired: boolean('repaired').notNull().default(false),
+
+    detectedAt: timestamp('detected_at', { withTimezone: true }).notNull().defaultNow(),
+    lastSeenAt: timestamp('last_seen_at', { withTimezone: true }).notNull().defaultNow(),
+    resolvedAt: timestamp('resolved_at', { withTimezone: true }),
+    resolvedBy: uuid('resolved_by').references(() => appUser.id, { onDelete: 'set null' }),
+    resolution: text('resolution'),
+}, (t) => ({
+    uxOpen: uniqueIndex('ux_payment_mismatch_open')
+        .on(t.paymentId, t.kind)
+        .where(sql`${t.resolvedAt} IS NULL`),
+    ixDetected: index('ix_payment_mismatch_detected').on(t.detectedAt),
+
+    chkKind: check(
+        'chk_payment_mismatch_kind',
+        sql`${t.kind} IN ('missed_webhook', 'paid_order_not_paid', 'amount_mismatch', 'status_regression')`
+    ),
+}));
+
+export type PaymentMismatch    = typeof paymentMismatch.$inferSelect;
+export type NewPaymentMismatch = typeof paymentMismatch.$inferInsert;
@@ -0,0 +1,36 @@
+// backend/drizzle/schema/productBundles.ts
+import { pgTable, uuid, integer, index, unique, check } from 'drizzle-orm/pg-core';
+import { sql } from 'drizzle-orm';
+import { createdAtCol } from './_common';
+import { product } from './products';
+import { productVariant } from './productVariants';
+
+/**
+ * Состав набора (курс на 3 месяца = 3 банки): набор — обычный товар с is_bundle = true,
+ * своей ценой, PV и кэшбеком. Своего остатка у набора нет — доступно столько наборов,
+ * сколько собирается из остатков компонентов; резерв и списание идут по компонентам.
+ */
+export const productBundleItem = pgTable('product_bundle_item', {
+    id: uuid('id').primaryKey().defaultRandom(),
+
+    bundleId: uuid('bundle_id').notNull().references(() => product.id, { onDelete: 'cascade' }),
+    productId: uuid('product_id').notNull().references(() => product.id, { onDelete: 'restrict' }),
+    // Обязателен, если у компонента есть варианты
+    variantId: uuid('variant_id').references(() => productVariant.id, { onDelete: 'restrict' }),
+
+    // Штук компонента в одном наборе
+    qty: integer('qty').notNull(),
+    sortOrder: integer('sort_order').notNull().default(0),
+
+    createdAt: createdAtCol(),
+}, (t) => ({
+    ixBundle: index('ix_product_bundle_item_bundle').on(t.bundleId, t.sortOrder),
+    ixProduct: index('ix_product_bundle_item_product').on(t.productId),
+    uxComponent: unique('ux_product_bundle_item_component').on(t.bundleId, t.productId, t.variantId).nullsNotDistinct(),
+
+    chkQtyPos: check('chk_product_bundle_item_qty_pos', sql`${t.qty} > 0`),
+    chkNotSelf: check('chk_product_bundle_item_not_self', sql`${t.bundleId} <> ${t.productId}`),
+}));
+
+export type ProductBundleItem    = typeof productBundleItem.$inferSelect;
+export type NewProductBundleItem = typeof productBundleItem.$inferInsert;
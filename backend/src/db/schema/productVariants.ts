@@ -0,0 +1,66 @@
+// backend/drizzle/schema/productVariants.ts
+import {
+    pgTable, uuid, text, varchar, integer, numeric, boolean, jsonb,
+    index, uniqueIndex, check,
+} from 'drizzle-orm/pg-core';
+import { sql } from 'drizzle-orm';
+import { createdAtCol, updatedAtCol } from './_common';
+import { product, type ProductImageItem } from './products';
+
+/**
+ * Вариант товара: фасовка (60 / 120 капсул), вкус, размер — со своим SKU, ценой и остатком.
+ * Отзывы, slug, описание и категория остаются у товара.
+ *
+ * Если у товара есть варианты, product.stock = сумма остатков вариантов: движения журнала
+ * пишутся с variant_id и меняют оба остатка (inventoryMovementsStorage.applyStock).
+ */
+export const productVariant = pgTable('product_variant', {
+    id: uuid('id').primaryKey().defaultRandom(),
+
+    productId: uuid('product_id').notNull().references(() => product.id, { onDelete: 'cascade' }),
+
+    // Подпись в карточке и корзине: «120 капсул, лимон»
+    name: text('name').notNull(),
+    size: text('size'),
+    flavor: text('flavor'),
+    packCount: integer('pack_count'),
+
+    sku: varchar('sku', { length: 100 }),
+    price: numeric('price', { precision: 12, scale: 2 }).notNull(),
+    originalPrice: numeric('original_price', { precision: 12, scale: 2 }),
+    stock: integer('stock').notNull().default(0),
+
+    // NULL — как у товара
+    customPv: integer('custom_pv'),
+    customCashback: numeric('custom_cashback', { precision: 5, scale: 2 }),
+
+    // Пусто — картинки товара
+    images: jsonb('images')
+        .$type<ProductImageItem[]>()
+        .notNull()
+        .default(sql`'[]'::jsonb`),
+
+    sortOrder: integer('sort_order').notNull().default(0),
+    // Выключенный вариант не продаётся, но остаётся в старых заказах
+    isActive: boolean('is_active').notNull().default(true),
+
+    createdAt: createdAtCol(),
+    updatedAt: updatedAtCol(),
+}, (t) => ({
+    ixProduct: index('ix_product_variant_product').on(t.productId, t.sortOrder),
+    uxSkuNullable: uniqueIndex('ux_product_variant_sku_nullable')
+        .on(t.sku)
+        .where(sql`${t.sku} IS NOT NULL`),
+
+    chkPriceNonNeg: check('chk_product_variant_price_nonneg', sql`${t.price} >= 0`),
+    chkStockNonNeg: check('chk_product_variant_stock_nonneg', sql`${t.stock} >= 0`),
+    chkPackPos:     check('chk_product_variant_pack_count_pos', sql`${t.packCount} IS NULL OR ${t.packCount} > 0`),
+    chkPvNonNeg:    check('chk_product_variant_custom_pv_nonneg', sql`${t.customPv} IS NULL OR ${t.customPv} >= 0`),
+    chkCashback01:  check(
+        'chk_product_variant_cashback_0_100',
+        sql`${t.customCashback} IS NULL OR (${t.customCashback} >= 0 AND ${t.customCashback} <= 100)`
+    ),
+}));
+
+export type ProductVariant    = typeof productVariant.$inferSelect;
+export type NewProductVariant = typeof productVariant.$inferInsert;
@@ -1,11 +1,11 @@
 // backend/drizzle/schema/products.ts
 import {
-    pgTable, uuid, text, varchar, integer, numeric, boolean, jsonb,
+    pgTable, uuid, text, varchar, integer, numeric, boolean, jsonb, timestamp,
     index, uniqueIndex, check
 } from 'drizzle-orm/pg-core';
 import { sql } from 'drizzle-orm';
 import { createdAtCol, updatedAtCol } from './_common';
-import { productStatusEnum, uiStatusEnum } from './enums';
+import { productStatusEnum, uiStatusEnum, vatRateEnum } from './enums';
 import { category } from './categories'; // ← проверьте путь импорта
 
 export type ProductImageItem = {
@@ -16,6 +16,9 @@ export type ProductImageItem = {
     sortOrder: number;
 };
 
+/** Число опубликованных отзывов по каждой оценке 1..5 */
+export type RatingDistribution = Record<'1' | '2' | '3' | '4' | '5', number>;
+
 export const product = pgTable('product', {
     id: uuid('id').primaryKey().defaultRandom(),
 
@@ -30,9 +33,15 @@ export const product = pgTable('product', {
     price: numeric('price', { precision: 12, scale: 2 }).notNull(),
     originalPrice: numeric('original_price', { precision: 12, scale: 2 }),
 
+    // Остаток на складе: меняется только движениями inventory_movement (сверка — inventoryService.verify)
     stock: integer('stock').notNull().default(0),
     sku: varchar('sku', { length: 100 }),
 
+    // Порог остатка для Telegram-уведомления админам; NULL — не следить
+    lowStockThreshold: integer('low_stock_threshold'),
+    // Когда ушло уведомление; сбрасывается, когда остаток поднимается выше порога
+    lowStockAlertedAt: timestamp('low_stock_alerted_at', { withTimezone: true }),
+
     // ← единичная категория (обязательная)
     categoryId: uuid('category_id')
         .notNull()
@@ -51,6 +60,8 @@ export const product = pgTable('product', {
     usage: text('usage'),
     additionalInfo: text('additional_info'),
     composition: jsonb('composition'),
+    // search_vector (tsvector, GENERATED) создаётся миграцией 0021 и намеренно не описан здесь,
+    // чтобы select() не тащил его в ответы; в запросах — через productSearchWhere / productSearchRank из productsStorage
 
     // ✅ НОВЫЕ ПОЛЯ (2025-11-20)
     seoKeywords: text('seo_keywords'),
@@ -63,6 +74,26 @@ export const product = pgTable('product', {
     customPv: integer('custom_pv'),
     customCashback: numeric('custom_cashback', { precision: 5, scale: 2 }),
 
+    // Набор из других товаров (product_bundle_item): остаток считается по компонентам, stock набора = 0
+    isBundle: boolean('is_bundle').notNull().default(false),
+
+    // Сводка по опубликованным отзывам; пересчитывает reviewsStorage.refreshProductRating
+    rating: numeric('rating', { precision: 3, scale: 2 }).notNull().default('0'),
+    reviewCount: integer('review_count').notNull().default(0),
+    ratingDistribution: jsonb('rating_distribution')
+        .$type<RatingDistribution>()
+        .notNull()
+        .default(sql`'{"1":0,"2":0,"3":0,"4":0,"5":0}'::jsonb`),
+
+    // НДС для чека 54-ФЗ; NULL — ставка по умолчанию (TINKOFF_RECEIPT_VAT)
+    vat: vatRateEnum('vat'),
+
+    // Вес и габариты упаковки единицы товара для тарифов доставки; NULL — значения по умолчанию (DELIVERY_DEFAULT_*)
+    weightG:  integer('weight_g'),
+    lengthCm: integer('length_cm'),
+    widthCm:  integer('width_cm'),
+    heightCm: integer('height_cm'),
+
     // единый источник истины по картинкам
     images: jsonb('images')
         .$type<ProductImageItem[]>()
@@ -92,7 +123,9 @@ export const product = pgTable('product', {
     // sanity-checks
     chkPriceNonNeg: check('chk_product_price_nonneg', sql`${t.price} >= 0`),
     chkStockNonNeg: check('chk_product_stock_nonneg', sql`${t.stock} >= 0`),
+    chkLowStockNonNeg: check('chk_product_low_stock_threshold_nonneg', sql`${t.lowStockThreshold} IS NULL OR ${t.lowStockThreshold} >= 0`),
     chkPvNonNeg:    check('chk_product_custom_pv_nonneg', sql`${t.customPv} IS NULL OR ${t.customPv} >= 0`),
+    chkWeightPos:   check('chk_product_weight_pos', sql`${t.weightG} IS NULL OR ${t.weightG} > 0`),
     chkCashback01:  check(
         'chk_product_cashback_0_100',
         sql`${t.customCashback} IS NULL OR (${t.customCashback} >= 0 AND ${t.customCashback} <= 100)`
@@ -0,0 +1,48 @@
+// backend/drizzle/schema/recommendations.ts
+import {
+    pgTable, uuid, integer, doublePrecision, timestamp, index, primaryKey,
+} from 'drizzle-orm/pg-core';
+import { appUser } from './users';
+import { product } from './products';
+
+/**
+ * Совместные покупки: «с товаром X покупают Y».
+ * Считается задачей recommendations-refresh по доставленным заказам за окно
+ * RECOMMENDATIONS_WINDOW_DAYS и пересобирается целиком.
+ *
+ *   co_orders — в скольких заказах были оба товара
+ *   score     — co_orders / sqrt(заказы X × заказы Y), 0..1: популярный Y не забивает редкие пары
+ */
+export const productAffinity = pgTable('product_affinity', {
+    productId: uuid('product_id').notNull().references(() => product.id, { onDelete: 'cascade' }),
+    relatedProductId: uuid('related_product_id').notNull().references(() => product.id, { onDelete: 'cascade' }),
+
+    coOrders: integer('co_orders').notNull(),
+    score: doublePrecision('score').notNull(),
+
+    computedAt: timestamp('computed_at', { withTimezone: true }).notNull(),
+}, (t) => ({
+    pk: primaryKey({ name: 'pk_product_affinity', columns: [t.productId, t.relatedProductId] }),
+    ixTop: index('ix_product_affinity_top').on(t.productId, t.score),
+}));
+
+export type ProductAffinity = typeof productAffinity.$inferSelect;
+
+/**
+ * Персональная подборка для главной: товары, которые покупают вместе с купленными пользователем
+ * (уже купленные не предлагаются). Пересобирается той же задачей, position — 1..N.
+ */
+export const userRecommendation = pgTable('user_recommendation', {
+    userId: uuid('user_id').notNull().references(() => appUser.id, { onDelete: 'cascade' }),
+    productId: uuid('product_id').notNull().references(() => product.id, { onDelete: 'cascade' }),
+
+    score: doublePrecision('score').notNull(),
+    position: integer('position').notNull(),
+
+    computedAt: timestamp('computed_at', { withTimezone: true }).notNull(),
+}, (t) => ({
+    pk: primaryKey({ name: 'pk_user_recommendation', columns: [t.userId, t.productId] }),
+    ixUserPosition: index('ix_user_recommendation_position').on(t.userId, t.position),
+}));
+
+export type UserRecommendation = typeof userRecommendation.$inferSelect;
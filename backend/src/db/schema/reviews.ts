@@ -1,5 +1,5 @@
 import {
-    pgTable, uuid, text, boolean, smallint, timestamp,
+    pgTable, uuid, text, boolean, smallint, integer, timestamp,
     index, primaryKey, uniqueIndex, check, jsonb,
 } from 'drizzle-orm/pg-core';
 import { sql } from 'drizzle-orm';
@@ -33,10 +33,20 @@ export const productReview = pgTable(
             .default(sql`'[]'::jsonb`),
 
         status: text('status').notNull().default('pending'),
+        // Выводится из доставленных заказов автора (reviewService), клиент не задаёт
         verifiedPurchase: boolean('verified_purchase')
             .notNull()
             .default(false),
 
+        // Счётчик «полезно» — product_review_vote
+        helpfulCount: integer('helpful_count').notNull().default(0),
+
+        // Официальный ответ магазина
+        replyBody: text('reply_body'),
+        replyAuthorId: uuid('reply_author_id')
+            .references(() => appUser.id, { onDelete: 'set null' }),
+        repliedAt: timestamp('replied_at', { withTimezone: true }),
+
         publishedAt: timestamp('published_at', { withTimezone: true }),
         createdAt: createdAtCol(),
         updatedAt: updatedAtCol(),
@@ -53,6 +63,10 @@ export const productReview = pgTable(
         ),
         ixUser: index('ix_review_user').on(t.userId),
         ixPublished: index('ix_review_published_at').on(t.publishedAt),
+        ixProductHelpful: index('ix_review_product_helpful').on(
+            t.productId,
+            t.helpfulCount,
+        ),
 
         chkRating: check(
             'chk_review_rating',
@@ -79,11 +93,34 @@ export const productReviewImage = pgTable(
     }),
 );
 
+/* ======================== HELPFUL VOTES ======================== */
+
+export const productReviewVote = pgTable(
+    'product_review_vote',
+    {
+        reviewId: uuid('review_id')
+            .references(() => productReview.id, { onDelete: 'cascade' })
+            .notNull(),
+
+        userId: uuid('user_id')
+            .references(() => appUser.id, { onDelete: 'cascade' })
+            .notNull(),
+
+        createdAt: createdAtCol(),
+    },
+    (t) => ({
+        pk: primaryKey({ name: 'pk_review_vote', columns: [t.reviewId, t.userId] }),
+        ixUser: index('ix_review_vote_user').on(t.userId),
+    }),
+);
+
 /* ======================== TYPES ======================== */
 
 
 export type ProductReview = InferSelectModel<typeof productReview>;
 export type NewProductReview = InferInsertModel<typeof productReview>;
 
+export type ProductReviewVote = InferSelectModel<typeof productReviewVote>;
+
 export type ProductReviewImage = InferSelectModel<typeof productReviewImage>;
 export type NewProductReviewImage = InferInsertModel<typeof productReviewImage>;
@@ -0,0 +1,106 @@
+// backend/src/db/schema/scheduledJobs.ts
+import {
+    pgTable,
+    uuid,
+    text,
+    integer,
+    boolean,
+    jsonb,
+    timestamp,
+    index,
+    check,
+} from 'drizzle-orm/pg-core';
+import { sql } from 'drizzle-orm';
+import { appUser } from './users';
+import { createdAtCol, updatedAtCol } from './_common';
+
+/**
+ * Scheduled Job - периодическая задача планировщика (jobScheduler)
+ *
+ * Определение задачи (handler, cron по умолчанию) живёт в коде,
+ * здесь — состояние: пауза, следующий запуск, итог последнего запуска.
+ * Статусы — TEXT с CHECK, как в notification.
+ */
+export const scheduledJob = pgTable(
+    'scheduled_job',
+    {
+        // Уникальное имя задачи: 'payment-timeout', 'option3-monthly', ...
+        name: text('name').primaryKey(),
+        description: text('description'),
+
+        cronExpression: text('cron_expression').notNull(),
+        isPaused: boolean('is_paused').notNull().default(false),
+
+        // Повторы при ошибке (0 — без повторов)
+        maxRetries: integer('max_retries').notNull().default(0),
+        retryDelayMs: integer('retry_delay_ms').notNull().default(30000),
+
+        // TTL распределённой блокировки (redlock) на время выполнения
+        lockTtlMs: integer('lock_ttl_ms').notNull().default(600000),
+
+        nextRunAt: timestamp('next_run_at', { withTimezone: true }),
+        lastRunAt: timestamp('last_run_at', { withTimezone: true }),
+        // 'succeeded' | 'failed' | 'skipped'
+        lastStatus: text('last_status'),
+
+        createdAt: createdAtCol(),
+        updatedAt: updatedAtCol(),
+    },
+    (t) => ({
+        ixNextRun: index('ix_scheduled_job_next_run').on(t.nextRunAt),
+        chkRetries: check(
+            'chk_scheduled_job_retries',
+            sql`${t.maxRetries} >= 0 AND ${t.retryDelayMs} >= 0 AND ${t.lockTtlMs} > 0`
+        ),
+    })
+);
+
+/**
+ * Job Run - история запусков задач
+ *
+ * Одна строка = одна попытка (повторы пишутся отдельными строками с attempt > 1).
+ */
+export const jobRun = pgTable(
+    'job_run',
+    {
+        id: uuid('id').primaryKey().defaultRandom(),
+
+        jobName: text('job_name')
+            .notNull()
+            .references(() => scheduledJob.name, { onDelete: 'cascade' }),
+
+        // 'schedule' | 'manual'
+        trigger: text('trigger').notNull().default('schedule'),
+        // 'running' | 'succeeded' | 'failed' | 'skipped'
+        status: text('status').notNull().default('running'),
+        attempt: integer('attempt').notNull().default(1),
+
+        // Админ, запустивший задачу вручную
+        triggeredBy: uuid('triggered_by').references(() => appUser.id, { onDelete: 'set null' }),
+
+        startedAt: timestamp('started_at', { withTimezone: true }).notNull().defaultNow(),
+        finishedAt: timestamp('finished_at', { withTimezone: true }),
+        durationMs: integer('duration_ms'),
+
+        // Итог handler'а (сводка) или причина пропуска
+        result: jsonb('result'),
+        error: text('error'),
+
+        createdAt: createdAtCol(),
+    },
+    (t) => ({
+        ixJobStarted: index('ix_job_run_job_started').on(t.jobName, t.startedAt),
+        ixStatus: index('ix_job_run_status').on(t.status),
+
+        chkTrigger: check('chk_job_run_trigger', sql`${t.trigger} IN ('schedule', 'manual')`),
+        chkStatus: check(
+            'chk_job_run_status',
+            sql`${t.status} IN ('running', 'succeeded', 'failed', 'skipped')`
+        ),
+    })
+);
+
+export type ScheduledJob = typeof scheduledJob.$inferSelect;
+export type NewScheduledJob = typeof scheduledJob.$inferInsert;
+export type JobRun = typeof jobRun.$inferSelect;
+export type NewJobRun = typeof jobRun.$inferInsert;
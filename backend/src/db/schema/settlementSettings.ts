@@ -27,6 +27,12 @@ export const settlementSettings = pgTable('settlement_settings', {
     roundingPv:    text('rounding_pv').notNull().default('floor'),      // 'floor'   (PV)
     calcTimezone:  text('calc_timezone').notNull().default('Europe/Moscow'),
     isCompressionEnabled: boolean('is_compression_enabled').notNull().default(false),
+    // Компрессия: активен, если личный PV за последние N дней >= min PV
+    compressionActivityDays: integer('compression_activity_days').notNull().default(30),
+    compressionMinPv: numeric('compression_min_pv', { precision: 12, scale: 2 }).notNull().default('1'),
+
+    // Окно возврата: бонусы за доставленный заказ N дней висят на счёте hold (0 = без холда)
+    bonusHoldDays: integer('bonus_hold_days').notNull().default(14),
 
     // Fast Start / Infinity / Опцион 3%
     fastStartWeeks: integer('fast_start_weeks').notNull().default(8),
@@ -34,6 +40,10 @@ export const settlementSettings = pgTable('settlement_settings', {
     infinityRate: numeric('infinity_rate', { precision: 6, scale: 4 }).notNull().default('0.0025'), // 0.25%
     optionBonusPercent: numeric('option_bonus_percent', { precision: 5, scale: 2 }).notNull().default('3'),
 
+    // Бинарный бонус: % от слабой ноги и лимит выплат на пользователя за месяц (NULL = без лимита)
+    binaryBonusPercent: numeric('binary_bonus_percent', { precision: 5, scale: 2 }).notNull().default('10'),
+    binaryPeriodCapRub: numeric('binary_period_cap_rub', { precision: 12, scale: 2 }),
+
     // Версионирование
     isActive: boolean('is_active').notNull().default(true),
 
@@ -53,12 +63,18 @@ export const settlementSettings = pgTable('settlement_settings', {
     chkVwcCash:  check('chk_settle_vwc_cash',  sql`${t.vwcCashbackPercent}     >= 0 AND ${t.vwcCashbackPercent}     <= 100`),
     chkOptBonus: check('chk_settle_opt_bonus', sql`${t.optionBonusPercent}     >= 0 AND ${t.optionBonusPercent}     <= 100`),
 
+    chkBinary:   check('chk_settle_binary',    sql`${t.binaryBonusPercent}     >= 0 AND ${t.binaryBonusPercent}     <= 100`),
+    chkBinaryCap: check('chk_settle_binary_cap', sql`${t.binaryPeriodCapRub} IS NULL OR ${t.binaryPeriodCapRub} >= 0`),
+
     chkInfinity: check('chk_settle_infinity',  sql`${t.infinityRate} >= 0 AND ${t.infinityRate} <= 1`),
 
     chkMoneyNonNeg: check('chk_settle_money_nonneg',
         sql`${t.freeShippingThresholdRub} >= 0 AND ${t.deliveryBasePriceRub} >= 0`),
 
     chkWeeks: check('chk_settle_fast_weeks',   sql`${t.fastStartWeeks} BETWEEN 1 AND 52`),
+    chkCompression: check('chk_settle_compression',
+        sql`${t.compressionActivityDays} BETWEEN 1 AND 365 AND ${t.compressionMinPv} >= 0`),
+    chkBonusHold: check('chk_settle_bonus_hold', sql`${t.bonusHoldDays} BETWEEN 0 AND 365`),
 
     // допускаем только ожидаемые режимы округления (оставил расширяемые наборы)
     chkRoundingMoney: check('chk_settle_rounding_money',
@@ -0,0 +1,46 @@
+// backend/drizzle/schema/stockReservations.ts
+import {
+    pgTable, uuid, text, integer, timestamp, index, unique, check,
+} from 'drizzle-orm/pg-core';
+import { sql } from 'drizzle-orm';
+import { product } from './products';
+import { productVariant } from './productVariants';
+import { order } from './orders';
+import { createdAtCol, updatedAtCol } from './_common';
+
+/**
+ * Резерв товара под заказ (одна строка на товар / вариант заказа).
+ * product.stock (у варианта — product_variant.stock) — остаток на складе;
+ * доступно = stock − активные непросроченные резервы.
+ *
+ *   active    — держит товар до expires_at (оформление / начало оплаты)
+ *   released  — снят: отмена заказа, таймаут оплаты
+ *   converted — продан: stock уменьшен при оплате
+ */
+export const stockReservation = pgTable('stock_reservation', {
+    id: uuid('id').primaryKey().defaultRandom(),
+
+    productId: uuid('product_id').notNull().references(() => product.id, { onDelete: 'cascade' }),
+    variantId: uuid('variant_id').references(() => productVariant.id, { onDelete: 'cascade' }),
+    orderId:   uuid('order_id').notNull().references(() => order.id, { onDelete: 'cascade' }),
+    qty:       integer('qty').notNull(),
+
+    // 'active' | 'released' | 'converted'
+    status:    text('status').notNull().default('active'),
+    expiresAt: timestamp('expires_at', { withTimezone: true }).notNull(),
+    // 'canceled' | 'expired'
+    releaseReason: text('release_reason'),
+
+    createdAt: createdAtCol(),
+    updatedAt: updatedAtCol(),
+}, (t) => ({
+    uxOrderItem: unique('ux_stock_reservation_order_item').on(t.orderId, t.productId, t.variantId).nullsNotDistinct(),
+    ixProductActive: index('ix_stock_reservation_product_active').on(t.productId).where(sql`${t.status} = 'active'`),
+    ixExpires: index('ix_stock_reservation_expires').on(t.expiresAt).where(sql`${t.status} = 'active'`),
+
+    chkQty:    check('chk_stock_reservation_qty_pos', sql`${t.qty} > 0`),
+    chkStatus: check('chk_stock_reservation_status', sql`${t.status} IN ('active', 'released', 'converted')`),
+}));
+
+export type StockReservation    = typeof stockReservation.$inferSelect;
+export type NewStockReservation = typeof stockReservation.$inferInsert;
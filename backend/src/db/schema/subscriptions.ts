@@ -0,0 +1,83 @@
+// backend/drizzle/schema/subscriptions.ts
+import {
+    pgTable, uuid, text, integer, jsonb, timestamp, index, unique, check,
+} from 'drizzle-orm/pg-core';
+import { sql } from 'drizzle-orm';
+import { appUser } from './users';
+import { product } from './products';
+import { productVariant } from './productVariants';
+import { createdAtCol, updatedAtCol } from './_common';
+import type { DeliveryDestination } from './orders';
+
+/**
+ * Подписка на автопополнение (курс добавок раз в N месяцев).
+ * Задача subscriptions-run в next_run_at собирает заказ из subscription_item обычным путём
+ * (позиции → резерв → итоги) и оплачивает его с баланса или сохранённой картой (RebillId Тинькофф).
+ *
+ *   active   — заказы создаются по расписанию
+ *   paused   — расписание стоит, пока пользователь не возобновит
+ *   canceled — окончательно
+ */
+export const subscription = pgTable('subscription', {
+    id: uuid('id').primaryKey().defaultRandom(),
+
+    userId: uuid('user_id').notNull().references(() => appUser.id, { onDelete: 'cascade' }),
+
+    // 'active' | 'paused' | 'canceled'
+    status: text('status').notNull().default('active'),
+    intervalMonths: integer('interval_months').notNull().default(1),
+
+    // Дата следующего заказа; день месяца не больше 28, чтобы расписание не съезжало на коротких месяцах
+    nextRunAt: timestamp('next_run_at', { withTimezone: true }).notNull(),
+    // Повтор после неудачной оплаты / сборки; NULL — ждём next_run_at
+    retryAt: timestamp('retry_at', { withTimezone: true }),
+    failedAttempts: integer('failed_attempts').notNull().default(0),
+    // Для какого next_run_at уже ушло напоминание о списании
+    notifiedRunAt: timestamp('notified_run_at', { withTimezone: true }),
+
+    // 'card' | 'wallet'
+    paymentSource: text('payment_source').notNull(),
+    // Сохранённая карта: RebillId из уведомления о первой (рекуррентной) оплате
+    rebillId: text('rebill_id'),
+
+    deliveryService: text('delivery_service'),
+    deliveryAddress: text('delivery_address'),
+    deliveryDestination: jsonb('delivery_destination').$type<DeliveryDestination>(),
+
+    pausedAt: timestamp('paused_at', { withTimezone: true }),
+    canceledAt: timestamp('canceled_at', { withTimezone: true }),
+
+    createdAt: createdAtCol(),
+    updatedAt: updatedAtCol(),
+}, (t) => ({
+    ixUser: index('ix_subscription_user').on(t.userId),
+    ixDue: index('ix_subscription_due').on(t.nextRunAt).where(sql`${t.status} = 'active'`),
+
+    chkStatus: check('chk_subscription_status', sql`${t.status} IN ('active', 'paused', 'canceled')`),
+    chkSource: check('chk_subscription_payment_source', sql`${t.paymentSource} IN ('card', 'wallet')`),
+    chkInterval: check('chk_subscription_interval', sql`${t.intervalMonths} BETWEEN 1 AND 6`),
+}));
+
+export type Subscription    = typeof subscription.$inferSelect;
+export type NewSubscription = typeof subscription.$inferInsert;
+
+/** Что и сколько везти в каждом заказе подписки */
+export const subscriptionItem = pgTable('subscription_item', {
+    id: uuid('id').primaryKey().defaultRandom(),
+
+    subscriptionId: uuid('subscription_id').notNull().references(() => subscription.id, { onDelete: 'cascade' }),
+    productId: uuid('product_id').notNull().references(() => product.id, { onDelete: 'cascade' }),
+    // Обязателен, если у товара есть варианты
+    variantId: uuid('variant_id').references(() => productVariant.id, { onDelete: 'cascade' }),
+    qty: integer('qty').notNull(),
+
+    createdAt: createdAtCol(),
+}, (t) => ({
+    ixSubscription: index('ix_subscription_item_subscription').on(t.subscriptionId),
+    uxLine: unique('ux_subscription_item_line').on(t.subscriptionId, t.productId, t.variantId).nullsNotDistinct(),
+
+    chkQtyPos: check('chk_subscription_item_qty_pos', sql`${t.qty} > 0`),
+}));
+
+export type SubscriptionItem    = typeof subscriptionItem.$inferSelect;
+export type NewSubscriptionItem = typeof subscriptionItem.$inferInsert;
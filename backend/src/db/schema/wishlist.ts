@@ -0,0 +1,53 @@
+// backend/drizzle/schema/wishlist.ts
+import {
+    pgTable, uuid, integer, timestamp, index, unique, uniqueIndex,
+} from 'drizzle-orm/pg-core';
+import { sql } from 'drizzle-orm';
+import { appUser } from './users';
+import { product } from './products';
+import { notification } from './system';
+import { createdAtCol } from './_common';
+
+/** Избранное пользователя: один товар — одна запись */
+export const wishlistItem = pgTable('wishlist_item', {
+    id: uuid('id').primaryKey().defaultRandom(),
+
+    userId: uuid('user_id').notNull().references(() => appUser.id, { onDelete: 'cascade' }),
+    productId: uuid('product_id').notNull().references(() => product.id, { onDelete: 'cascade' }),
+
+    createdAt: createdAtCol(),
+}, (t) => ({
+    uxUserProduct: unique('ux_wishlist_item_user_product').on(t.userId, t.productId),
+    ixProduct: index('ix_wishlist_item_product').on(t.productId),
+}));
+
+export type WishlistItem    = typeof wishlistItem.$inferSelect;
+export type NewWishlistItem = typeof wishlistItem.$inferInsert;
+
+/**
+ * «Сообщить о поступлении»: запись ждёт, пока product.stock не станет > 0.
+ * После уведомления notified_at заполняется, notification_id — запись в notification;
+ * на тот же товар можно подписаться снова, когда он опять закончится.
+ */
+export const backInStockRequest = pgTable('back_in_stock_request', {
+    id: uuid('id').primaryKey().defaultRandom(),
+
+    userId: uuid('user_id').notNull().references(() => appUser.id, { onDelete: 'cascade' }),
+    productId: uuid('product_id').notNull().references(() => product.id, { onDelete: 'cascade' }),
+
+    notifiedAt: timestamp('notified_at', { withTimezone: true }),
+    // Запись в notification: канал и статус отправки
+    notificationId: integer('notification_id').references(() => notification.id, { onDelete: 'set null' }),
+
+    createdAt: createdAtCol(),
+}, (t) => ({
+    uxPending: uniqueIndex('ux_back_in_stock_pending')
+        .on(t.userId, t.productId)
+        .where(sql`${t.notifiedAt} IS NULL`),
+    ixProductPending: index('ix_back_in_stock_product_pending')
+        .on(t.productId)
+        .where(sql`${t.notifiedAt} IS NULL`),
+}));
+
+export type BackInStockRequest    = typeof backInStockRequest.$inferSelect;
+export type NewBackInStockRequest = typeof backInStockRequest.$inferInsert;
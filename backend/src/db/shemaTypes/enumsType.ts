@@ -31,6 +31,10 @@ export type DeliveryStatus = z.infer<typeof DeliveryStatus>;
 export const PaymentMethod = z.enum(['card', 'vwc']);
 export type PaymentMethod = z.infer<typeof PaymentMethod>;
 
+/** НДС позиции чека 54-ФЗ */
+export const VatRate = z.enum(['none', 'vat0', 'vat5', 'vat7', 'vat10', 'vat20', 'vat105', 'vat107', 'vat110', 'vat120']);
+export type VatRate = z.infer<typeof VatRate>;
+
 export const PaymentStatus = z.enum(['init', 'awaiting', 'authorized', 'captured', 'refunded', 'failed']);
 export type PaymentStatus = z.infer<typeof PaymentStatus>;
 
@@ -52,7 +56,7 @@ export const LedgerOpType = z.enum([
 export type LedgerOpType = z.infer<typeof LedgerOpType>;
 
 /** Типы счётов и владение */
-export const AccountType = z.enum(['cash_rub', 'pv', 'vwc', 'referral', 'reserve_special', 'network_fund']);
+export const AccountType = z.enum(['cash_rub', 'pv', 'vwc', 'referral', 'reserve_special', 'network_fund', 'receivable', 'hold']);
 export type AccountType = z.infer<typeof AccountType>;
 
 export const OwnerType = z.enum(['user', 'system']);
@@ -0,0 +1,17 @@
+import { z } from 'zod';
+import { uuid } from './commonsType';
+
+// ====== Состав набора (курс / комплект) ======
+export const ProductBundleItemDto = z.object({
+    productId: uuid,
+    // Обязателен для товара с вариантами
+    variantId: uuid.nullable().optional(),
+    qty: z.number().int().positive().max(100),
+});
+export type ProductBundleItemDto = z.infer<typeof ProductBundleItemDto>;
+
+// Пустой список — товар перестаёт быть набором
+export const ProductBundleDto = z.object({
+    items: z.array(ProductBundleItemDto).max(50),
+});
+export type ProductBundleDto = z.infer<typeof ProductBundleDto>;
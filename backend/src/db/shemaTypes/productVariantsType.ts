@@ -0,0 +1,38 @@
+import { z } from 'zod';
+import { uuid } from './commonsType';
+import { ProductImageMetadata } from './productsType';
+
+// ====== Вариант товара (фасовка / вкус / размер) ======
+export const ProductVariantDto = z.object({
+    name: z.string().trim().min(1).max(200),
+    size: z.string().trim().max(100).nullable().optional(),
+    flavor: z.string().trim().max(100).nullable().optional(),
+    packCount: z.number().int().positive().nullable().optional(),
+
+    sku: z.string().trim().min(1).max(100).nullable().optional(),
+    price: z.coerce.number().nonnegative(),
+    originalPrice: z.coerce.number().nonnegative().nullable().optional(),
+    // Остаток: при создании — начальный приход, при изменении — корректировка в журнале
+    stock: z.number().int().min(0).optional(),
+
+    // null — как у товара; cashback, как и у товара, — доля 0..1
+    customPv: z.number().int().min(0).nullable().optional(),
+    customCashback: z.number().min(0).max(1).nullable().optional(),
+
+    // Пусто — картинки товара
+    images: z.array(ProductImageMetadata).optional(),
+
+    sortOrder: z.number().int().min(0).optional(),
+    isActive: z.boolean().optional(),
+});
+export type ProductVariantDto = z.infer<typeof ProductVariantDto>;
+
+export const ProductVariantCreateDto = ProductVariantDto;
+export type ProductVariantCreateDto = z.infer<typeof ProductVariantCreateDto>;
+
+export const ProductVariantUpdateDto = ProductVariantDto.partial()
+    .refine((obj) => Object.keys(obj).length > 0, 'Body must not be empty');
+export type ProductVariantUpdateDto = z.infer<typeof ProductVariantUpdateDto>;
+
+export const ProductVariantParamDto = z.object({ id: uuid, variantId: uuid });
+export type ProductVariantParamDto = z.infer<typeof ProductVariantParamDto>;
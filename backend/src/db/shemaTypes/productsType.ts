@@ -1,6 +1,6 @@
 import { z } from 'zod';
 import { uuid, timestamp, slug } from './commonsType';
-import { ProductStatus, UiStatus, HowToTake } from './enumsType';
+import { ProductStatus, UiStatus, HowToTake, VatRate } from './enumsType';
 
 // Схема для метаданных изображения
 export const ProductImageMetadata = z.object({
@@ -37,6 +37,14 @@ export const ProductDto = z.object({
     customPv: z.number().int().min(0).optional(),
     // В API — доля 0..1 (проценты фронт может хранить отдельно)
     customCashback: z.number().min(0).max(1).optional(),
+    // НДС для чека; null — ставка по умолчанию
+    vat: VatRate.nullable().optional(),
+
+    // Вес (г) и габариты (см) единицы товара в упаковке — для расчёта доставки
+    weightG: z.number().int().positive().nullable().optional(),
+    lengthCm: z.number().int().positive().nullable().optional(),
+    widthCm: z.number().int().positive().nullable().optional(),
+    heightCm: z.number().int().positive().nullable().optional(),
 
     composition: z.preprocess(
         (val) => {
@@ -57,6 +65,8 @@ export const ProductDto = z.object({
 
     stock: z.number().int().min(0).default(0),
     sku: z.string().max(100).optional(),
+    // Порог для уведомления о низком остатке; null — не следить
+    lowStockThreshold: z.number().int().min(0).nullable().optional(),
 
     capsuleCount: z.number().int().min(0).optional(),
     capsuleVolume: z.string().optional(),
@@ -75,6 +85,11 @@ export const ProductDto = z.object({
     seoDescription: z.string().optional(),
     seoKeywords: z.string().optional(),
 
+    // Сводка опубликованных отзывов — только чтение (reviewsStorage.refreshProductRating)
+    rating: z.coerce.number().min(0).max(5).optional(),
+    reviewCount: z.number().int().min(0).optional(),
+    ratingDistribution: z.record(z.enum(['1', '2', '3', '4', '5']), z.number().int().min(0)).optional(),
+
     createdAt: timestamp,
     updatedAt: timestamp,
 });
@@ -84,6 +99,9 @@ export type ProductDto = z.infer<typeof ProductDto>;
 export const ProductCreateDto = ProductDto.omit({
     id: true,
     status: true,
+    rating: true,
+    reviewCount: true,
+    ratingDistribution: true,
     createdAt: true,
     updatedAt: true,
 }).extend({
@@ -115,14 +133,37 @@ export const ProductListQueryDto = z.object({
     inStock: z.coerce.boolean().optional(),
     minPrice: z.coerce.number().nonnegative().optional(),
     maxPrice: z.coerce.number().nonnegative().optional(),
-    orderBy: z.enum(['createdAt','price','name']).optional(),
+    orderBy: z.enum(['createdAt','price','name','relevance']).optional(),
     orderDir: z.enum(['asc','desc']).optional(),
     categoryId: z.string().uuid().optional(),
+    manufacturer: z.string().trim().min(1).max(200).optional(),
     limit: z.coerce.number().int().min(1).max(100).default(20),
     offset: z.coerce.number().int().min(0).default(0),
 });
 export type ProductListQueryDto = z.infer<typeof ProductListQueryDto>;
 
+// Подсказки поиска витрины
+export const ProductSuggestQueryDto = z.object({
+    q: z.string().trim().min(2).max(100),
+    limit: z.coerce.number().int().min(1).max(10).default(6),
+});
+export type ProductSuggestQueryDto = z.infer<typeof ProductSuggestQueryDto>;
+
+// Рекомендации: «с этим товаром покупают», подборка на главной
+export const RecommendationsQueryDto = z.object({
+    limit: z.coerce.number().int().min(1).max(24).default(8),
+});
+export type RecommendationsQueryDto = z.infer<typeof RecommendationsQueryDto>;
+
+// Допродажа к корзине: ids=<uuid>,<uuid>,...
+export const CartRecommendationsQueryDto = RecommendationsQueryDto.extend({
+    ids: z
+        .string()
+        .transform((v) => v.split(',').map((s) => s.trim()).filter(Boolean))
+        .pipe(z.array(uuid).min(1).max(50)),
+});
+export type CartRecommendationsQueryDto = z.infer<typeof CartRecommendationsQueryDto>;
+
 // ====== Вариант для ФОРМЫ (удобно на фронте): проценты 0..100 и непустая хотя бы одна картинка ======
 export const ProductFormSchema = ProductCreateDto.extend({
     // в форме cashback как проценты (0..100)
@@ -23,6 +23,9 @@ import authRouter from '#routes/authRoute';
 
 import withdrawalsRouter, { adminWithdrawalsRouter } from './routes/withdrawals.routes';
 import addressesRouter from './routes/addresses.routes';
+import subscriptionsRouter from './routes/subscriptions.routes';
+import wishlistRouter from './routes/wishlist.routes';
+import deliveryRouter from './routes/delivery.routes';
 import reviewsRouter, { adminReviewsRouter } from './routes/reviews.routes';
 
 // New routes
@@ -42,6 +45,8 @@ import settingsRouter, { adminSettingsRouter } from './routes/settings.routes';
 import blogRouter, { adminBlogRouter } from './routes/blog.routes';
 import bonusPreferencesRouter, { adminBonusPreferencesRouter } from './routes/userBonusPreferences.routes';
 import { adminStatsRouter } from './routes/stats.routes';
+import { adminJobsRouter } from './routes/jobs.routes';
+import { adminLevelsMatrixRouter } from './routes/levelsMatrix.routes';
 import promoCodesRouter from './routes/promoCodes.routes';
 import partnerUpgradeRouter from './routes/partnerUpgrade.routes';
 import freedomSharesRouter from './routes/freedomShares.routes';
@@ -55,7 +60,7 @@ import cookieParser from 'cookie-parser';
 
 import { loadSettlementSettings } from '#config/settlementSettings';
 import { performanceMonitor } from './services/performanceMonitor';
-import { initPaymentTimeoutWorker } from './services/paymentTimeoutWorker';
+import { initJobScheduler } from './services/scheduledJobs';
 
 const STRICT_BOOT = process.env.STRICT_BOOT === 'true';
 if (process.env.NODE_ENV === 'test' && !('SKIP_ENUM_SYNC' in process.env)) {
@@ -76,14 +81,9 @@ const require = createRequire(import.meta.url);
 // ---------------------- Parsers ----------------------
 await loadSettlementSettings();
 
-// ✅ Запускаем payment timeout worker (отменяет неоплаченные заказы)
+// ✅ Запускаем планировщик задач (payment timeout, option 3%, ранги, очистка медиа)
 if (process.env.NODE_ENV !== 'test') {
-    initPaymentTimeoutWorker({
-        paymentTimeoutMinutes: Number(process.env.PAYMENT_TIMEOUT_MINUTES || 30),
-        workerIntervalMs: Number(process.env.PAYMENT_TIMEOUT_WORKER_INTERVAL_MS || 5 * 60 * 1000),
-        batchSize: Number(process.env.PAYMENT_TIMEOUT_BATCH_SIZE || 50),
-        enableLogging: process.env.PAYMENT_TIMEOUT_LOGGING !== 'false',
-    });
+    await initJobScheduler();
 }
 
 app.use(express.json({ limit: '10mb' }));
@@ -121,15 +121,15 @@ app.get('/api/admin/metrics/health', async (_req, res) => {
     res.json(await performanceMonitor.getSystemHealth());
 });
 
-// ✅ Ручной запуск payment timeout worker (для админки/отладки)
+// ✅ Ручной запуск payment timeout worker (для админки/отладки) — через планировщик
 app.post('/api/admin/workers/payment-timeout/run', async (_req, res) => {
     try {
-        const { paymentTimeoutWorker } = await import('./services/paymentTimeoutWorker');
-        const result = await paymentTimeoutWorker.runOnce();
+        const { jobScheduler } = await import('./services/jobScheduler');
+        const outcome = await jobScheduler.trigger('payment-timeout');
         res.json({
-            success: true,
-            message: 'Payment timeout worker completed',
-            result,
+            success: outcome.status === 'succeeded',
+            message: `Payment timeout worker ${outcome.status}`,
+            result: outcome.runs.at(-1)?.result ?? null,
         });
     } catch (error: any) {
         res.status(500).json({
@@ -182,6 +182,8 @@ app.use('/api/admin/settings', adminSettingsRouter);
 app.use('/api/admin/blog', adminBlogRouter);
 app.use('/api/admin/bonus-preferences', adminBonusPreferencesRouter);
 app.use('/api/admin/stats', adminStatsRouter);
+app.use('/api/admin/jobs', adminJobsRouter);
+app.use('/api/admin/levels-matrix', adminLevelsMatrixRouter);
 app.use('/api/admin/activation-packages', adminActivationPackageRouter); // Admin Activation Packages
 app.use('/api', partnerUpgradeRouter); // Partner upgrade (admin only)
 app.use('/api', networkFundRouter); // Network fund (admin only)
@@ -232,6 +234,9 @@ app.use('/api/admin/products', adminProductsRouter); // Admin full CRUD
 app.use('/api/admin/categories', categoriesRouter);
 app.use('/api/withdrawals', withdrawalsRouter);
 app.use('/api/addresses', addressesRouter);
+app.use('/api/subscriptions', subscriptionsRouter);
+app.use('/api/wishlist', wishlistRouter);
+app.use('/api/delivery', deliveryRouter);
 app.use('/api/reviews', reviewsRouter);
 
 // ---------------------- Site scripts (custom head/body scripts) ----------------------
@@ -0,0 +1,88 @@
+// src/routes/delivery.routes.ts
+import { Router } from 'express';
+import { deliveryController } from '../controllers/deliveryController';
+
+const deliveryRouter = Router();
+
+/**
+ * @openapi
+ * /api/delivery/quote:
+ *   post:
+ *     tags: [Orders]
+ *     summary: Стоимость доставки корзины у перевозчика
+ *     operationId: delivery_quote
+ *     security: [ { BearerAuth: [] } ]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               carrier: { type: string, enum: [sdek, russianpost, yandex] }
+ *               destination:
+ *                 type: object
+ *                 properties:
+ *                   postalCode: { type: string, pattern: '^\d{6}$' }
+ *                   city: { type: string }
+ *                   cityCode: { type: integer, description: 'Код города СДЭК' }
+ *                   pickupPointCode: { type: string }
+ *               address: { type: string }
+ *             required: [carrier]
+ *           examples:
+ *             example:
+ *               value: { carrier: "sdek", destination: { cityCode: 44, postalCode: "101000" }, address: "Москва, ул. Пушкина, д. 1" }
+ *     responses:
+ *       200: { description: OK, content: { application/json: { schema: { $ref: '#/components/schemas/SuccessEnvelope' } } } }
+ *       400: { description: Bad Request, content: { application/json: { schema: { $ref: '#/components/schemas/ErrorResponse' } } } }
+ *       401: { description: Unauthorized, content: { application/json: { schema: { $ref: '#/components/schemas/ErrorResponse' } } } }
+ *       404: { description: Not Found, content: { application/json: { schema: { $ref: '#/components/schemas/ErrorResponse' } } } }
+ */
+deliveryRouter.post('/quote', ...deliveryController.quote);
+
+/**
+ * @openapi
+ * /api/delivery/pickup-points:
+ *   get:
+ *     tags: [Orders]
+ *     summary: Пункты выдачи перевозчика (ПВЗ, постаматы, отделения)
+ *     operationId: delivery_pickupPoints
+ *     parameters:
+ *       - { in: query, name: carrier, required: true, schema: { type: string, enum: [sdek, russianpost, yandex] } }
+ *       - { in: query, name: city, schema: { type: string } }
+ *       - { in: query, name: postalCode, schema: { type: string } }
+ *       - { in: query, name: cityCode, schema: { type: integer } }
+ *       - { in: query, name: limit, schema: { type: integer, minimum: 1, maximum: 100, default: 50 } }
+ *     responses:
+ *       200: { description: OK, content: { application/json: { schema: { $ref: '#/components/schemas/SuccessEnvelope' } } } }
+ *       400: { description: Bad Request, content: { application/json: { schema: { $ref: '#/components/schemas/ErrorResponse' } } } }
+ *       502: { description: Carrier API error, content: { application/json: { schema: { $ref: '#/components/schemas/ErrorResponse' } } } }
+ */
+deliveryRouter.get('/pickup-points', ...deliveryController.pickupPoints);
+
+/**
+ * @openapi
+ * /api/delivery/webhooks/{carrier}/{token}:
+ *   post:
+ *     tags: [Orders]
+ *     summary: Вебхук статусов отправлений (СДЭК ORDER_STATUS); Почта России и Яндекс опрашиваются по расписанию
+ *     operationId: delivery_webhook
+ *     parameters:
+ *       - { in: path, name: carrier, required: true, schema: { type: string, enum: [sdek, russianpost, yandex] } }
+ *       - { in: path, name: token, required: true, schema: { type: string }, description: 'DELIVERY_WEBHOOK_SECRET' }
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema: { type: object }
+ *           examples:
+ *             cdek:
+ *               value: { type: "ORDER_STATUS", uuid: "72753031-4c3a-4a4e-ab3c-d8b5a3f2b2a1", attributes: { is_return: false, cdek_number: "1106207236", number: "3f0c6a5e-8d0b-4f55-9d2a-0f1d3c2b1a00", code: "DELIVERED", status_date_time: "2024-05-14T12:30:00+0300", city_name: "Москва" } }
+ *     responses:
+ *       200: { description: OK, content: { application/json: { schema: { $ref: '#/components/schemas/SuccessEnvelope' } } } }
+ *       400: { description: Carrier does not send webhooks, content: { application/json: { schema: { $ref: '#/components/schemas/ErrorResponse' } } } }
+ *       403: { description: Invalid webhook token, content: { application/json: { schema: { $ref: '#/components/schemas/ErrorResponse' } } } }
+ */
+deliveryRouter.post('/webhooks/:carrier/:token', ...deliveryController.webhook);
+
+export default deliveryRouter;
@@ -0,0 +1,13 @@
+// backend/src/routes/jobs.routes.ts
+import { Router } from 'express';
+import { jobsController } from '../controllers/jobsController';
+
+/* ───────────────── Admin Routes ───────────────── */
+export const adminJobsRouter = Router();
+
+adminJobsRouter.get('/', ...jobsController.listJobs);
+adminJobsRouter.get('/:name', ...jobsController.getJob);
+adminJobsRouter.get('/:name/runs', ...jobsController.listRuns);
+adminJobsRouter.post('/:name/trigger', ...jobsController.triggerJob);
+adminJobsRouter.post('/:name/pause', ...jobsController.pauseJob);
+adminJobsRouter.post('/:name/resume', ...jobsController.resumeJob);
@@ -10,6 +10,7 @@ export const ledgerRouter = Router();
 
 ledgerRouter.get('/my-accounts', ...toHandlers(ledgerController.getMyAccounts));
 ledgerRouter.get('/my-transactions', ...toHandlers(ledgerController.getMyTransactions));
+ledgerRouter.get('/statement', ...toHandlers(ledgerController.getMyStatement));
 
 /* ───────────────── Admin Routes ───────────────── */
 export const adminLedgerRouter = Router();
@@ -17,5 +18,12 @@ export const adminLedgerRouter = Router();
 adminLedgerRouter.get('/accounts', ...toHandlers(ledgerController.listAllAccounts));
 adminLedgerRouter.get('/accounts/:userId', ...toHandlers(ledgerController.getUserAccounts));
 adminLedgerRouter.get('/transactions/:userId', ...toHandlers(ledgerController.getUserTransactions));
+adminLedgerRouter.get('/statement/:userId', ...toHandlers(ledgerController.getUserStatement));
+
+adminLedgerRouter.get('/trial-balance', ...toHandlers(ledgerController.getTrialBalance));
+adminLedgerRouter.post('/reconciliation/runs', ...toHandlers(ledgerController.runReconciliation));
+adminLedgerRouter.get('/reconciliation/runs', ...toHandlers(ledgerController.listReconciliationRuns));
+adminLedgerRouter.get('/reconciliation/runs/:id', ...toHandlers(ledgerController.getReconciliationRun));
+adminLedgerRouter.get('/reconciliation/runs/:id/findings', ...toHandlers(ledgerController.listReconciliationFindings));
 
 export default ledgerRouter;
@@ -0,0 +1,13 @@
+// backend/src/routes/levelsMatrix.routes.ts
+import { Router } from 'express';
+import { levelsMatrixController } from '../controllers/levelsMatrixController';
+
+/* ───────────────── Admin Routes ───────────────── */
+export const adminLevelsMatrixRouter = Router();
+
+adminLevelsMatrixRouter.get('/', ...levelsMatrixController.listVersions);
+adminLevelsMatrixRouter.post('/', ...levelsMatrixController.createVersion);
+adminLevelsMatrixRouter.post('/validate', ...levelsMatrixController.validateMatrix);
+adminLevelsMatrixRouter.get('/:id', ...levelsMatrixController.getVersion);
+adminLevelsMatrixRouter.post('/:id/schedule', ...levelsMatrixController.scheduleVersion);
+adminLevelsMatrixRouter.delete('/:id/schedule', ...levelsMatrixController.unscheduleVersion);
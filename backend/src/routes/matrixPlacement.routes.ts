@@ -4,6 +4,7 @@ import { authMiddleware } from '../middleware/auth';
 import { requireAdmin } from '../middleware/rbacMiddleware';
 import { asyncHandler, AppError, AppErrorCode } from '../middleware/errorHandler';
 import { matrixPlacementService } from '../services/matrixPlacementService';
+import { binaryBonusService } from '../services/binaryBonusService';
 import { z } from 'zod';
 
 const router = Router();
@@ -41,6 +42,8 @@ router.get(
                 level: placement.level,
                 leftLegVolume: placement.leftLegVolume,
                 rightLegVolume: placement.rightLegVolume,
+                leftCarryPv: placement.leftCarryPv,
+                rightCarryPv: placement.rightCarryPv,
                 leftLegCount: placement.leftLegCount,
                 rightLegCount: placement.rightLegCount,
                 parentId: placement.parentId,
@@ -57,6 +60,31 @@ router.get(
     })
 );
 
+/**
+ * GET /api/matrix/my-binary
+ * Сводка бинарных бонусов за текущий месяц (выплачено / сматчено / сгорело по лимиту)
+ */
+router.get(
+    '/matrix/my-binary',
+    authMiddleware,
+    asyncHandler(async (req, res) => {
+        const userId = req.user!.id;
+
+        const summary = await binaryBonusService.getPeriodSummary(userId);
+
+        return res.json({
+            success: true,
+            binary: {
+                period: summary.period,
+                paidRub: summary.paidRub.toFixed(2),
+                matchedPv: summary.matchedPv.toFixed(2),
+                flushedPv: summary.flushedPv.toFixed(2),
+                capRub: summary.capRub != null ? summary.capRub.toFixed(2) : null,
+            },
+        });
+    })
+);
+
 /**
  * GET /api/matrix/my-downline
  * Получить downline в матрице
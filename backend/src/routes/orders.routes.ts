@@ -130,6 +130,36 @@ router.get('/:id', ...ordersController.getOrderById);
  */
 router.post('/:id/cancel', ...ordersController.cancelOrder);
 
+/**
+ * @swagger
+ * /api/orders/{id}/delivery-history:
+ *   get:
+ *     tags: [Orders]
+ *     operationId: orders_delivery_history
+ *     security:
+ *       - BearerAuth: []
+ *     summary: Лента отслеживания доставки заказа (от старых событий к новым)
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema: { $ref: '#/components/schemas/UUID' }
+ *     responses:
+ *       200:
+ *         description: Статус доставки, трек-номер и события перевозчика
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SuccessEnvelope'
+ *       403:
+ *         description: Чужой заказ
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get('/:id/delivery-history', ...ordersController.getDeliveryHistory);
+
 export default router;
 
 /* ───────────────── Admin Routes ───────────────── */
@@ -305,6 +335,141 @@ adminOrdersRouter.put('/:id/delivery-status', ...ordersController.updateDelivery
  */
 adminOrdersRouter.post('/:id/mark-delivered', ...ordersController.markAsDelivered);
 
+/**
+ * @swagger
+ * /api/admin/orders/{id}/delivery-events:
+ *   get:
+ *     tags: [Orders]
+ *     operationId: admin_orders_delivery_events
+ *     summary: События доставки заказа — вебхуки, опрос перевозчика, ручные (ADMIN)
+ *     x-roles: ["admin"]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema: { $ref: '#/components/schemas/UUID' }
+ *     responses:
+ *       200:
+ *         description: События, новые первыми
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SuccessEnvelope'
+ *   post:
+ *     tags: [Orders]
+ *     operationId: admin_orders_add_delivery_event
+ *     summary: Ручное событие доставки (ADMIN); delivered / lost / returned запускают начисления или возврат денег
+ *     x-roles: ["admin"]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema: { $ref: '#/components/schemas/UUID' }
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [status]
+ *             properties:
+ *               status: { type: string, enum: [pending, in_transit, delivered, returned, lost] }
+ *               providerStatus: { type: string }
+ *               payload: { type: object }
+ *     responses:
+ *       201:
+ *         description: Событие записано
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SuccessEnvelope'
+ *       409:
+ *         description: Статус доставки не может перейти назад
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+adminOrdersRouter.get('/:id/delivery-events', ...ordersController.getOrderDeliveryEvents);
+adminOrdersRouter.post('/:id/delivery-events', ...ordersController.addDeliveryEvent);
+
+/**
+ * @swagger
+ * /api/admin/orders/{id}/returns:
+ *   post:
+ *     tags: [Orders]
+ *     operationId: admin_orders_create_return
+ *     summary: Оформить возврат (полный или по позициям) со сторно всех начислений (ADMIN)
+ *     x-roles: ["admin"]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema: { $ref: '#/components/schemas/UUID' }
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               items:
+ *                 type: array
+ *                 description: Без items возвращается весь остаток заказа
+ *                 items:
+ *                   type: object
+ *                   required: [orderItemId, qty]
+ *                   properties:
+ *                     orderItemId: { $ref: '#/components/schemas/UUID' }
+ *                     qty: { type: integer, minimum: 1 }
+ *                     restock: { type: boolean }
+ *               reason: { type: string }
+ *               restock: { type: boolean, default: true }
+ *           examples:
+ *             partial:
+ *               value: { items: [{ orderItemId: "00000000-0000-0000-0000-000000000000", qty: 1 }], reason: "Брак" }
+ *     responses:
+ *       201:
+ *         description: Возврат оформлен, начисления сторнированы
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SuccessEnvelope'
+ *       409:
+ *         description: Заказ не в статусе delivered / returned_partial или возврат уже выполняется
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *   get:
+ *     tags: [Orders]
+ *     operationId: admin_orders_list_returns
+ *     summary: Возвраты заказа (ADMIN)
+ *     x-roles: ["admin"]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema: { $ref: '#/components/schemas/UUID' }
+ *     responses:
+ *       200:
+ *         description: Список возвратов с позициями
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SuccessEnvelope'
+ */
+adminOrdersRouter.post('/:id/returns', ...ordersController.createReturn);
+adminOrdersRouter.get('/:id/returns', ...ordersController.listReturns);
+
 /**
  * ✅ Task 4.2: Админ-эндпойнты для просмотра истории начислений
  * GET /api/admin/orders/:id/logs - все логи заказа
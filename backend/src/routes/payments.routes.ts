@@ -14,6 +14,9 @@ router.post('/tinkoff/notification', ...paymentController.tinkoffNotification);
 router.get('/tinkoff/success', ...paymentController.tinkoffSuccess);
 router.get('/tinkoff/fail', ...paymentController.tinkoffFail);
 
+/* ───────────────── Fake provider (dev / tests) ───────────────── */
+router.post('/fake/:externalId/:result', ...paymentController.fakeProviderResult);
+
 export default router;
 
 /* ───────────────── Admin Routes ───────────────── */
@@ -21,5 +24,11 @@ export const adminPaymentsRouter = Router();
 
 adminPaymentsRouter.get('/', ...paymentController.listAllPayments);
 adminPaymentsRouter.get('/stats', ...paymentController.getPaymentStats);  // ✅ ДОБАВЛЕНО
+adminPaymentsRouter.post('/reconciliation/run', ...paymentController.runReconciliation);
+adminPaymentsRouter.get('/reconciliation/mismatches', ...paymentController.listMismatches);
+adminPaymentsRouter.post('/reconciliation/mismatches/:id/resolve', ...paymentController.resolveMismatch);
 adminPaymentsRouter.post('/:id/retry', ...paymentController.retryPayment); // ✅ ДОБАВЛЕНО
+adminPaymentsRouter.post('/:id/refund', ...paymentController.refundPayment);
+adminPaymentsRouter.get('/:id/refunds', ...paymentController.listPaymentRefunds);
+adminPaymentsRouter.get('/:id/webhooks', ...paymentController.listPaymentWebhooks);
 adminPaymentsRouter.get('/:id', ...paymentController.getPaymentStatus);
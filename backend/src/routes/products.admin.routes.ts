@@ -1,5 +1,5 @@
 // Admin routes for products (full CRUD)
-import { Router } from 'express';
+import express, { Router } from 'express';
 import { validateQuery, validateBody, validateParams } from '../middleware/validateRequest';
 import { productsController } from '../controllers/productsController';
 
@@ -10,6 +10,12 @@ import {
     ProductListQueryDto,
     ProductSlugParamDto, ProductUpdateDto
 } from "#db/shemaTypes/productsType";
+import {
+    ProductVariantCreateDto,
+    ProductVariantParamDto,
+    ProductVariantUpdateDto,
+} from "#db/shemaTypes/productVariantsType";
+import { ProductBundleDto } from "#db/shemaTypes/productBundlesType";
 
 export const adminProductsRouter = Router();
 
@@ -25,6 +31,385 @@ adminProductsRouter.get(
     ...productsController.getProducts,
 );
 
+/**
+ * @openapi
+ * /api/admin/products/stock:
+ *   get:
+ *     tags: [Admin]
+ *     summary: Остатки по товарам — на складе, в резерве, доступно
+ *     description: |
+ *       onHand — product.stock (списывается при оплате заказа);
+ *       reserved — активные непросроченные резервы неоплаченных заказов;
+ *       available = onHand − reserved.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: q
+ *         schema: { type: string }
+ *         description: Поиск по названию или SKU
+ *       - in: query
+ *         name: reservedOnly
+ *         schema: { type: string, enum: ['true', 'false'] }
+ *       - in: query
+ *         name: limit
+ *         schema: { type: integer, default: 50, maximum: 200 }
+ *       - in: query
+ *         name: offset
+ *         schema: { type: integer, default: 0 }
+ *     responses:
+ *       200:
+ *         description: Список остатков, сначала товары с резервами
+ */
+adminProductsRouter.get(
+    '/stock',
+    ...productsController.getStockLevels,
+);
+
+/**
+ * @openapi
+ * /api/admin/products/stock/verify:
+ *   get:
+ *     tags: [Admin]
+ *     summary: Сверка остатков с журналом движения
+ *     description: Товары, у которых product.stock не равен сумме движений журнала (кроме резервов).
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Список расхождений (stock / journal); ok = true, если расхождений нет
+ */
+adminProductsRouter.get(
+    '/stock/verify',
+    ...productsController.verifyStock,
+);
+
+/**
+ * @openapi
+ * /api/admin/products/stock/receipts:
+ *   post:
+ *     tags: [Admin]
+ *     summary: Импорт прихода от поставщика из CSV
+ *     description: |
+ *       Тело — CSV (разделитель «;» или «,»). Заголовок: sku или product_id, qty;
+ *       необязательно reason, reference. Файл проверяется целиком: при ошибке в любой
+ *       строке ничего не записывается (422, details.errors — номера строк).
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: reference
+ *         schema: { type: string }
+ *         description: Номер накладной для строк без reference
+ *       - in: query
+ *         name: dryRun
+ *         schema: { type: string, enum: ['true', 'false'] }
+ *         description: Только проверить файл
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         text/csv:
+ *           schema: { type: string }
+ *           example: "sku;qty;reference\nMG-B6;24;INV-1042"
+ *     responses:
+ *       201:
+ *         description: Приход записан
+ *       200:
+ *         description: dryRun — строки распознаны, ничего не записано
+ *       422:
+ *         description: Ошибки в строках файла
+ */
+adminProductsRouter.post(
+    '/stock/receipts',
+    express.text({ type: ['text/csv', 'text/plain', 'application/csv'], limit: '5mb' }),
+    ...productsController.importStockReceipts,
+);
+
+/**
+ * @openapi
+ * /api/admin/products/{id}/movements:
+ *   get:
+ *     tags: [Admin]
+ *     summary: Журнал движения товара
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema: { type: string, format: uuid }
+ *       - in: query
+ *         name: variantId
+ *         schema: { type: string, format: uuid }
+ *       - in: query
+ *         name: type
+ *         schema: { type: string, enum: [receipt, sale, return, adjustment, write_off, reservation] }
+ *       - in: query
+ *         name: limit
+ *         schema: { type: integer, default: 50, maximum: 200 }
+ *       - in: query
+ *         name: offset
+ *         schema: { type: integer, default: 0 }
+ *     responses:
+ *       200:
+ *         description: Движения от новых к старым (qty со знаком, stockAfter, причина, заказ, пользователь)
+ *   post:
+ *     tags: [Admin]
+ *     summary: Приход, списание или корректировка вручную
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema: { type: string, format: uuid }
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [type, qty]
+ *             properties:
+ *               type: { type: string, enum: [receipt, write_off, adjustment] }
+ *               variantId: { type: string, format: uuid, description: 'Обязателен для товара с вариантами' }
+ *               qty: { type: integer, description: 'receipt / write_off — количество; adjustment — со знаком' }
+ *               reason: { type: string }
+ *               reference: { type: string }
+ *     responses:
+ *       201:
+ *         description: Движение записано, stock — новый остаток
+ *       409:
+ *         description: Расход больше остатка
+ */
+adminProductsRouter.get(
+    '/:id/movements',
+    validateParams(ProductIdParamDto),
+    ...productsController.getProductMovements,
+);
+
+adminProductsRouter.post(
+    '/:id/movements',
+    validateParams(ProductIdParamDto),
+    ...productsController.createProductMovement,
+);
+
+/**
+ * @openapi
+ * /api/admin/products/{id}/variants:
+ *   get:
+ *     tags: [Admin]
+ *     summary: Варианты товара (фасовка, вкус, размер), включая выключенные
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema: { type: string, format: uuid }
+ *     responses:
+ *       200:
+ *         description: Варианты по sortOrder
+ *   post:
+ *     tags: [Admin]
+ *     summary: Добавить вариант
+ *     description: Первый вариант забирает остаток товара; дальше остаток ведётся по вариантам.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema: { type: string, format: uuid }
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [name, price]
+ *             properties:
+ *               name: { type: string, example: '120 капсул, лимон' }
+ *               size: { type: string, nullable: true }
+ *               flavor: { type: string, nullable: true }
+ *               packCount: { type: integer, nullable: true }
+ *               sku: { type: string, nullable: true }
+ *               price: { type: number }
+ *               originalPrice: { type: number, nullable: true }
+ *               stock: { type: integer, description: 'Начальный остаток (приход в журнал)' }
+ *               customPv: { type: integer, nullable: true, description: 'null — как у товара' }
+ *               customCashback: { type: number, nullable: true, description: 'Доля 0..1; null — как у товара' }
+ *               images: { type: array, items: { type: object } }
+ *               sortOrder: { type: integer }
+ *               isActive: { type: boolean }
+ *     responses:
+ *       201:
+ *         description: Вариант создан
+ *       409:
+ *         description: SKU занят или у товара есть резервы без варианта
+ */
+adminProductsRouter.get(
+    '/:id/variants',
+    validateParams(ProductIdParamDto),
+    ...productsController.getProductVariants,
+);
+
+adminProductsRouter.post(
+    '/:id/variants',
+    validateParams(ProductIdParamDto),
+    validateBody(ProductVariantCreateDto),
+    ...productsController.createProductVariant,
+);
+
+/**
+ * @openapi
+ * /api/admin/products/{id}/variants/{variantId}:
+ *   patch:
+ *     tags: [Admin]
+ *     summary: Изменить вариант (stock — корректировкой в журнале)
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema: { type: string, format: uuid }
+ *       - in: path
+ *         name: variantId
+ *         required: true
+ *         schema: { type: string, format: uuid }
+ *     responses:
+ *       200:
+ *         description: Обновлённый вариант
+ *       404:
+ *         description: Вариант не найден
+ *   delete:
+ *     tags: [Admin]
+ *     summary: Удалить вариант
+ *     description: Вариант, который есть в заказах, выключается (deactivated), а не удаляется.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema: { type: string, format: uuid }
+ *       - in: path
+ *         name: variantId
+ *         required: true
+ *         schema: { type: string, format: uuid }
+ *     responses:
+ *       200:
+ *         description: deleted / deactivated
+ *       409:
+ *         description: У варианта есть остаток
+ */
+adminProductsRouter.patch(
+    '/:id/variants/:variantId',
+    validateParams(ProductVariantParamDto),
+    validateBody(ProductVariantUpdateDto),
+    ...productsController.updateProductVariant,
+);
+
+adminProductsRouter.delete(
+    '/:id/variants/:variantId',
+    validateParams(ProductVariantParamDto),
+    ...productsController.deleteProductVariant,
+);
+
+/**
+ * @openapi
+ * /api/admin/products/{id}/bundle:
+ *   get:
+ *     tags: [Admin]
+ *     summary: Состав набора
+ *     description: Компоненты с раскладкой цены набора (allocatedRub), PV набора и сколько наборов доступно.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema: { type: string, format: uuid }
+ *     responses:
+ *       200:
+ *         description: items, available, pvEach
+ *       404:
+ *         description: Товар не найден
+ *   put:
+ *     tags: [Admin]
+ *     summary: Задать состав набора
+ *     description: |
+ *       Заменяет состав целиком. Пустой items — товар перестаёт быть набором.
+ *       Своего остатка у набора нет: резерв и списание идут по компонентам.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema: { type: string, format: uuid }
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [items]
+ *             properties:
+ *               items:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required: [productId, qty]
+ *                   properties:
+ *                     productId: { type: string, format: uuid }
+ *                     variantId: { type: string, format: uuid, nullable: true, description: 'Обязателен для товара с вариантами' }
+ *                     qty: { type: integer, minimum: 1 }
+ *     responses:
+ *       200:
+ *         description: Новый состав
+ *       409:
+ *         description: У товара есть остаток или варианты, либо компонент — сам набор
+ */
+adminProductsRouter.get(
+    '/:id/bundle',
+    validateParams(ProductIdParamDto),
+    ...productsController.getProductBundle,
+);
+
+adminProductsRouter.put(
+    '/:id/bundle',
+    validateParams(ProductIdParamDto),
+    validateBody(ProductBundleDto),
+    ...productsController.setProductBundle,
+);
+
+/**
+ * @openapi
+ * /api/admin/products/{id}/stock:
+ *   get:
+ *     tags: [Admin]
+ *     summary: Остатки товара и активные резервы по заказам
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema: { type: string, format: uuid }
+ *     responses:
+ *       200:
+ *         description: onHand / reserved / available и резервы (заказ, количество, срок)
+ *       404:
+ *         description: Товар не найден
+ */
+adminProductsRouter.get(
+    '/:id/stock',
+    validateParams(ProductIdParamDto),
+    ...productsController.getProductStock,
+);
+
 // Get product by ID
 adminProductsRouter.get(
     '/:id',
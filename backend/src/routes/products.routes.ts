@@ -2,7 +2,7 @@
 import { Router } from 'express';
 import { validateQuery, validateParams } from '../middleware/validateRequest';
 import { productsController } from '../controllers/productsController';
-import {ProductIdParamDto, ProductListQueryDto, ProductSlugParamDto} from "#db/shemaTypes/productsType";
+import {ProductIdParamDto, ProductListQueryDto, ProductSlugParamDto, ProductSuggestQueryDto} from "#db/shemaTypes/productsType";
 
 export const productsRouter = Router();
 
@@ -15,13 +15,39 @@ productsRouter.get(
     ...productsController.getProductBySlug,
 );
 
-// Get all products (with filters)
+// Search suggestions for the storefront search box (before /:id)
+productsRouter.get(
+    '/suggest',
+    validateQuery(ProductSuggestQueryDto),
+    ...productsController.suggestProducts,
+);
+
+// Home page picks: personal for a signed-in user, best sellers for guests (before /:id)
+productsRouter.get(
+    '/recommendations/for-you',
+    ...productsController.getPersonalRecommendations,
+);
+
+// Cart cross-sell: products bought together with the cart contents
+productsRouter.get(
+    '/recommendations/cart',
+    ...productsController.getCartRecommendations,
+);
+
+// Get all products (with filters, full-text search and facet counts)
 productsRouter.get(
     '/',
     validateQuery(ProductListQueryDto),
     ...productsController.getProducts,
 );
 
+// Customers who bought this product also bought
+productsRouter.get(
+    '/:id/also-bought',
+    validateParams(ProductIdParamDto),
+    ...productsController.getAlsoBought,
+);
+
 // Get product by ID
 productsRouter.get(
     '/:id',
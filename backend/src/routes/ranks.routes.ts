@@ -13,6 +13,9 @@ export default router;
 /* ───────────────── Admin Routes ───────────────── */
 export const adminRanksRouter = Router();
 
+adminRanksRouter.get('/evaluation/preview', ...ranksController.previewEvaluation);
+adminRanksRouter.post('/evaluation/close', ...ranksController.closeMonth);
+
 adminRanksRouter.post('/', ...ranksController.createRank);
 adminRanksRouter.put('/:rank', ...ranksController.updateRank);
 adminRanksRouter.delete('/:rank', ...ranksController.deleteRank);
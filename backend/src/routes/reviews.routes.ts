@@ -12,12 +12,16 @@ reviewsRouter.get('/', ...reviewController.listPublic);
 reviewsRouter.post('/', reviewLimiter, ...reviewController.create);
 reviewsRouter.put('/:id', ...reviewController.update);
 reviewsRouter.delete('/:id', ...reviewController.remove);
+reviewsRouter.put('/:id/helpful', ...reviewController.voteHelpful);
+reviewsRouter.delete('/:id/helpful', ...reviewController.removeHelpfulVote);
 
 // Admin
 const adminReviewsRouter = Router();
 adminReviewsRouter.get('/', ...reviewController.adminList);
 adminReviewsRouter.post('/:id/approve', ...reviewController.adminApprove);
 adminReviewsRouter.post('/:id/reject', ...reviewController.adminReject);
+adminReviewsRouter.put('/:id/reply', ...reviewController.adminReply);
+adminReviewsRouter.delete('/:id/reply', ...reviewController.adminDeleteReply);
 
 export default reviewsRouter;
 export { adminReviewsRouter };
@@ -0,0 +1,118 @@
+// src/routes/subscriptions.routes.ts
+import { Router } from 'express';
+import { subscriptionsController } from '../controllers/subscriptionsController';
+
+const subscriptionsRouter = Router();
+
+/**
+ * @openapi
+ * /api/subscriptions:
+ *   get:
+ *     tags: [Orders]
+ *     summary: Подписки на автопополнение текущего пользователя
+ *     operationId: subscriptions_list
+ *     security: [ { BearerAuth: [] } ]
+ *     responses:
+ *       200: { description: OK, content: { application/json: { schema: { $ref: '#/components/schemas/SuccessEnvelope' } } } }
+ *       401: { description: Unauthorized, content: { application/json: { schema: { $ref: '#/components/schemas/ErrorResponse' } } } }
+ *   post:
+ *     tags: [Orders]
+ *     summary: Оформить подписку (товары, количество, период, оплата с баланса или картой)
+ *     operationId: subscriptions_create
+ *     security: [ { BearerAuth: [] } ]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               items:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     productId: { type: string, format: uuid }
+ *                     variantId: { type: string, format: uuid, nullable: true }
+ *                     qty: { type: integer, minimum: 1, maximum: 20 }
+ *                   required: [productId, qty]
+ *               intervalMonths: { type: integer, minimum: 1, maximum: 6, default: 1 }
+ *               paymentSource: { type: string, enum: [card, wallet] }
+ *               firstRunAt: { type: string, format: date-time, description: 'По умолчанию — завтра; 29–31 число переносится на 1-е' }
+ *               deliveryService: { type: string, enum: [sdek, russianpost, yandex], nullable: true }
+ *               deliveryAddress: { type: string, nullable: true }
+ *               deliveryDestination: { type: object, nullable: true }
+ *             required: [items, paymentSource]
+ *           examples:
+ *             example:
+ *               value: { items: [ { productId: "00000000-0000-0000-0000-000000000000", qty: 2 } ], intervalMonths: 1, paymentSource: "wallet", deliveryService: "sdek", deliveryAddress: "Москва, ул. Пушкина, д. 1" }
+ *     responses:
+ *       201: { description: Created, content: { application/json: { schema: { $ref: '#/components/schemas/SuccessEnvelope' } } } }
+ *       400: { description: Bad Request, content: { application/json: { schema: { $ref: '#/components/schemas/ErrorResponse' } } } }
+ *       401: { description: Unauthorized, content: { application/json: { schema: { $ref: '#/components/schemas/ErrorResponse' } } } }
+ *       404: { description: Product not found, content: { application/json: { schema: { $ref: '#/components/schemas/ErrorResponse' } } } }
+ */
+subscriptionsRouter.get('/', ...subscriptionsController.list);
+subscriptionsRouter.post('/', ...subscriptionsController.create);
+
+/**
+ * @openapi
+ * /api/subscriptions/{id}:
+ *   patch:
+ *     tags: [Orders]
+ *     summary: Изменить состав, период, способ оплаты, доставку или дату следующего заказа
+ *     operationId: subscriptions_update
+ *     security: [ { BearerAuth: [] } ]
+ *     parameters: [ { in: path, name: id, required: true, schema: { type: string, format: uuid } } ]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema: { type: object, additionalProperties: true }
+ *     responses:
+ *       200: { description: OK, content: { application/json: { schema: { $ref: '#/components/schemas/SuccessEnvelope' } } } }
+ *       400: { description: Bad Request, content: { application/json: { schema: { $ref: '#/components/schemas/ErrorResponse' } } } }
+ *       404: { description: Not Found, content: { application/json: { schema: { $ref: '#/components/schemas/ErrorResponse' } } } }
+ *       409: { description: Subscription is canceled, content: { application/json: { schema: { $ref: '#/components/schemas/ErrorResponse' } } } }
+ */
+subscriptionsRouter.patch('/:id', ...subscriptionsController.update);
+
+/**
+ * @openapi
+ * /api/subscriptions/{id}/{action}:
+ *   post:
+ *     tags: [Orders]
+ *     summary: Пауза, возобновление, пропуск ближайшего заказа или отмена подписки
+ *     operationId: subscriptions_action
+ *     security: [ { BearerAuth: [] } ]
+ *     parameters:
+ *       - { in: path, name: id, required: true, schema: { type: string, format: uuid } }
+ *       - { in: path, name: action, required: true, schema: { type: string, enum: [pause, resume, skip, cancel] } }
+ *     responses:
+ *       200: { description: OK, content: { application/json: { schema: { $ref: '#/components/schemas/SuccessEnvelope' } } } }
+ *       404: { description: Not Found, content: { application/json: { schema: { $ref: '#/components/schemas/ErrorResponse' } } } }
+ *       409: { description: Not allowed in current status, content: { application/json: { schema: { $ref: '#/components/schemas/ErrorResponse' } } } }
+ */
+subscriptionsRouter.post('/:id/pause', ...subscriptionsController.pause);
+subscriptionsRouter.post('/:id/resume', ...subscriptionsController.resume);
+subscriptionsRouter.post('/:id/skip', ...subscriptionsController.skip);
+subscriptionsRouter.post('/:id/cancel', ...subscriptionsController.cancel);
+
+/**
+ * @openapi
+ * /api/subscriptions/{id}/run-now:
+ *   post:
+ *     tags: [Orders]
+ *     summary: Заказ по подписке сейчас (первая поставка; без сохранённой карты вернёт paymentUrl для её привязки)
+ *     operationId: subscriptions_runNow
+ *     security: [ { BearerAuth: [] } ]
+ *     parameters: [ { in: path, name: id, required: true, schema: { type: string, format: uuid } } ]
+ *     responses:
+ *       201: { description: Order placed, content: { application/json: { schema: { $ref: '#/components/schemas/SuccessEnvelope' } } } }
+ *       400: { description: Order or payment failed, content: { application/json: { schema: { $ref: '#/components/schemas/ErrorResponse' } } } }
+ *       404: { description: Not Found, content: { application/json: { schema: { $ref: '#/components/schemas/ErrorResponse' } } } }
+ *       409: { description: Not active or previous order awaits payment, content: { application/json: { schema: { $ref: '#/components/schemas/ErrorResponse' } } } }
+ */
+subscriptionsRouter.post('/:id/run-now', ...subscriptionsController.runNow);
+
+export default subscriptionsRouter;
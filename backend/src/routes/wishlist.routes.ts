@@ -0,0 +1,88 @@
+// src/routes/wishlist.routes.ts
+import { Router } from 'express';
+import { wishlistController } from '../controllers/wishlistController';
+
+const wishlistRouter = Router();
+
+/**
+ * @openapi
+ * /api/wishlist:
+ *   get:
+ *     tags: [Users]
+ *     summary: Избранное текущего пользователя (товары с ценой, остатком и отметкой «сообщить о поступлении»)
+ *     operationId: wishlist_list
+ *     security: [ { BearerAuth: [] } ]
+ *     responses:
+ *       200: { description: OK, content: { application/json: { schema: { $ref: '#/components/schemas/SuccessEnvelope' } } } }
+ *       401: { description: Unauthorized, content: { application/json: { schema: { $ref: '#/components/schemas/ErrorResponse' } } } }
+ */
+wishlistRouter.get('/', ...wishlistController.list);
+
+/**
+ * @openapi
+ * /api/wishlist/ids:
+ *   get:
+ *     tags: [Users]
+ *     summary: id товаров в избранном и в ожидании поступления (для отметок в каталоге)
+ *     operationId: wishlist_state
+ *     security: [ { BearerAuth: [] } ]
+ *     responses:
+ *       200: { description: "{ productIds, backInStockProductIds }", content: { application/json: { schema: { $ref: '#/components/schemas/SuccessEnvelope' } } } }
+ *       401: { description: Unauthorized, content: { application/json: { schema: { $ref: '#/components/schemas/ErrorResponse' } } } }
+ */
+wishlistRouter.get('/ids', ...wishlistController.state);
+
+/**
+ * @openapi
+ * /api/wishlist/back-in-stock/{productId}:
+ *   put:
+ *     tags: [Users]
+ *     summary: Сообщить о поступлении товара (Telegram; без него подписка ждёт почтовой отправки)
+ *     operationId: wishlist_requestBackInStock
+ *     security: [ { BearerAuth: [] } ]
+ *     parameters: [ { in: path, name: productId, required: true, schema: { type: string, format: uuid } } ]
+ *     responses:
+ *       200: { description: Already requested, content: { application/json: { schema: { $ref: '#/components/schemas/SuccessEnvelope' } } } }
+ *       201: { description: Created, content: { application/json: { schema: { $ref: '#/components/schemas/SuccessEnvelope' } } } }
+ *       404: { description: Product not found, content: { application/json: { schema: { $ref: '#/components/schemas/ErrorResponse' } } } }
+ *       409: { description: Product is in stock or is a bundle, content: { application/json: { schema: { $ref: '#/components/schemas/ErrorResponse' } } } }
+ *   delete:
+ *     tags: [Users]
+ *     summary: Отменить ожидание поступления
+ *     operationId: wishlist_cancelBackInStock
+ *     security: [ { BearerAuth: [] } ]
+ *     parameters: [ { in: path, name: productId, required: true, schema: { type: string, format: uuid } } ]
+ *     responses:
+ *       200: { description: OK, content: { application/json: { schema: { $ref: '#/components/schemas/SuccessEnvelope' } } } }
+ *       404: { description: Not Found, content: { application/json: { schema: { $ref: '#/components/schemas/ErrorResponse' } } } }
+ */
+wishlistRouter.put('/back-in-stock/:productId', ...wishlistController.requestBackInStock);
+wishlistRouter.delete('/back-in-stock/:productId', ...wishlistController.cancelBackInStock);
+
+/**
+ * @openapi
+ * /api/wishlist/{productId}:
+ *   put:
+ *     tags: [Users]
+ *     summary: Добавить товар в избранное (повторно — без ошибки)
+ *     operationId: wishlist_add
+ *     security: [ { BearerAuth: [] } ]
+ *     parameters: [ { in: path, name: productId, required: true, schema: { type: string, format: uuid } } ]
+ *     responses:
+ *       200: { description: Already in wishlist, content: { application/json: { schema: { $ref: '#/components/schemas/SuccessEnvelope' } } } }
+ *       201: { description: Added, content: { application/json: { schema: { $ref: '#/components/schemas/SuccessEnvelope' } } } }
+ *       404: { description: Product not found, content: { application/json: { schema: { $ref: '#/components/schemas/ErrorResponse' } } } }
+ *   delete:
+ *     tags: [Users]
+ *     summary: Убрать товар из избранного
+ *     operationId: wishlist_remove
+ *     security: [ { BearerAuth: [] } ]
+ *     parameters: [ { in: path, name: productId, required: true, schema: { type: string, format: uuid } } ]
+ *     responses:
+ *       200: { description: OK, content: { application/json: { schema: { $ref: '#/components/schemas/SuccessEnvelope' } } } }
+ *       404: { description: Not Found, content: { application/json: { schema: { $ref: '#/components/schemas/ErrorResponse' } } } }
+ */
+wishlistRouter.put('/:productId', ...wishlistController.add);
+wishlistRouter.delete('/:productId', ...wishlistController.remove);
+
+export default wishlistRouter;
@@ -0,0 +1,264 @@
+// backend/src/services/accountStatementService.ts
+import { existsSync } from 'fs';
+import PDFDocument from 'pdfkit';
+import { accountTypeEnum, currencyEnum, ledgerOpTypeEnum } from '#db/schema/enums';
+import { ledgerStorage, type StatementPostingRow } from '#storage/ledgerStorage';
+import { roundHalfUp } from '#utils/money';
+import { toCsv, type CsvColumn } from '#utils/csv';
+
+/**
+ * Account Statement Service
+ * Выписка по счёту пользователя за период [from, to):
+ *   входящий остаток → строки с нарастающим остатком → исходящий остаток.
+ *
+ * Знак как у ledgerStorage.getBalance: дебет счёта — приход, кредит — расход.
+ */
+
+type Currency = (typeof currencyEnum.enumValues)[number];
+type AccountType = (typeof accountTypeEnum.enumValues)[number];
+type LedgerOpType = (typeof ledgerOpTypeEnum.enumValues)[number];
+
+export interface StatementLine {
+    postingId: string;
+    txnId: string;
+    date: Date;
+    opType: LedgerOpType;
+    description: string;
+    operationId: string;
+    orderId: string | null;
+    /** Приход (> 0) / расход (< 0) */
+    amount: number;
+    balance: number;
+}
+
+export interface AccountStatement {
+    account: { id: string; ownerId: string | null; type: AccountType; currency: Currency };
+    period: { from: Date; to: Date };
+    openingBalance: number;
+    closingBalance: number;
+    totalIn: number;
+    totalOut: number;
+    lines: StatementLine[];
+    /** Строк за период больше MAX_LINES — выписка обрезана, closingBalance посчитан по счёту */
+    truncated: boolean;
+}
+
+/** Не больше строк в одной выписке (для длинных периодов — дробить запрос) */
+const MAX_LINES = 10_000;
+
+const OP_LABELS: Record<LedgerOpType, string> = {
+    order_accrual: 'Начисление по заказу',
+    order_payment: 'Оплата заказа',
+    refund: 'Возврат',
+    reward: 'Вознаграждение',
+    transfer: 'Перевод',
+    fast_start: 'Бонус Fast Start',
+    infinity: 'Бонус Infinity',
+    option_bonus: 'Бонус Option 3%',
+    activation_bonus: 'Бонус за активацию',
+    first_pool: 'Первый пул',
+    airdrop: 'Airdrop',
+    achievement: 'Бонус за достижение',
+    adjustment: 'Корректировка',
+    withdrawal_request: 'Заявка на вывод',
+    withdrawal_payout: 'Выплата средств',
+    withdrawal_unlock: 'Возврат заявки на вывод',
+    cashback: 'Кэшбэк',
+    network_bonus: 'Сетевой бонус',
+    referral_bonus: 'Реферальный бонус',
+    network_fund_allocation: 'Отчисление в сетевой фонд',
+    hold_release: 'Зачисление после окна возврата',
+};
+
+const shortId = (id: string) => id.slice(0, 8);
+const cents = (x: number | string) => Math.round(Number(x) * 100);
+
+/**
+ * Человекочитаемое описание операции по op_type и meta транзакции
+ */
+export function describeStatementLine(row: StatementPostingRow): string {
+    const meta = row.meta ?? {};
+    const isReversal = Boolean(row.reversalOf || meta.reversalOf);
+
+    let label: string = OP_LABELS[row.opType] ?? row.opType;
+    if (meta.kind === 'binary') label = 'Бинарный бонус';
+    else if (meta.kind === 'receivable_settlement') label = 'Погашение задолженности';
+    else if (meta.kind === 'cashback') label = OP_LABELS.cashback;
+
+    const parts = [isReversal && row.opType !== 'refund' ? `Сторно: ${label.toLowerCase()}` : label];
+
+    const level = row.level ?? (typeof meta.level === 'number' ? meta.level : null);
+    if (level) parts.push(`L${level}`);
+    if (row.orderId) parts.push(`заказ №${shortId(row.orderId)}`);
+    if (typeof meta.returnId === 'string') parts.push(`возврат №${shortId(meta.returnId)}`);
+    if (typeof meta.withdrawalId === 'string') parts.push(`заявка №${shortId(meta.withdrawalId)}`);
+    if (typeof meta.period === 'string') parts.push(`период ${meta.period}`);
+
+    return parts.join(', ');
+}
+
+/** Шрифт с кириллицей для PDF: STATEMENT_PDF_FONT или DejaVu из системных пакетов */
+function resolvePdfFont(): string | null {
+    const candidates = [
+        process.env.STATEMENT_PDF_FONT,
+        '/usr/share/fonts/dejavu/DejaVuSans.ttf', // alpine: font-dejavu
+        '/usr/share/fonts/truetype/dejavu/DejaVuSans.ttf', // debian: fonts-dejavu-core
+    ];
+    return candidates.find((p): p is string => Boolean(p) && existsSync(p as string)) ?? null;
+}
+
+const fmt = (x: number) => x.toFixed(2);
+const fmtDate = (d: Date) => d.toISOString().slice(0, 10);
+const fmtDateTime = (d: Date) => d.toISOString().slice(0, 16).replace('T', ' ');
+
+export class AccountStatementService {
+    /**
+     * Выписка по счёту пользователя (type + currency) за период [from, to)
+     */
+    async getStatement(
+        userId: string,
+        params: { type: AccountType; currency: Currency; from: Date; to: Date }
+    ): Promise<AccountStatement> {
+        const { type, currency, from, to } = params;
+        const acc = await ledgerStorage.ensureAccount(userId, currency, type, 'user');
+
+        const [opening, rows] = await Promise.all([
+            ledgerStorage.getBalanceAt(acc.id, from),
+            ledgerStorage.listStatementPostings(acc.id, { from, to }, MAX_LINES + 1),
+        ]);
+
+        const truncated = rows.length > MAX_LINES;
+        const page = truncated ? rows.slice(0, MAX_LINES) : rows;
+
+        // Считаем в копейках, чтобы нарастающий остаток не накапливал погрешность float
+        let running = cents(opening);
+        let totalIn = 0;
+        let totalOut = 0;
+
+        const lines: StatementLine[] = page.map((row) => {
+            const delta = row.side === 'debit' ? cents(row.amount) : -cents(row.amount);
+            running += delta;
+            if (delta > 0) totalIn += delta;
+            else totalOut -= delta;
+
+            return {
+                postingId: row.postingId,
+                txnId: row.txnId,
+                date: row.createdAt,
+                opType: row.opType,
+                description: describeStatementLine(row),
+                operationId: row.operationId,
+                orderId: row.orderId,
+                amount: delta / 100,
+                balance: running / 100,
+            };
+        });
+
+        const closing = truncated ? await ledgerStorage.getBalanceAt(acc.id, to) : running / 100;
+
+        return {
+            account: { id: acc.id, ownerId: acc.ownerId, type: acc.type, currency: acc.currency },
+            period: { from, to },
+            openingBalance: roundHalfUp(opening, 2),
+            closingBalance: roundHalfUp(closing, 2),
+            totalIn: totalIn / 100,
+            totalOut: totalOut / 100,
+            lines,
+            truncated,
+        };
+    }
+
+    toCsv(statement: AccountStatement): string {
+        type CsvRow = Partial<Omit<StatementLine, 'date' | 'description' | 'balance'>> &
+            Pick<StatementLine, 'date' | 'description' | 'balance'>;
+
+        const columns: CsvColumn<CsvRow>[] = [
+            { header: 'date', value: (l) => l.date },
+            { header: 'description', value: (l) => l.description },
+            { header: 'op_type', value: (l) => l.opType },
+            { header: 'in', value: (l) => (l.amount && l.amount > 0 ? fmt(l.amount) : '') },
+            { header: 'out', value: (l) => (l.amount && l.amount < 0 ? fmt(-l.amount) : '') },
+            { header: 'balance', value: (l) => fmt(l.balance) },
+            { header: 'operation_id', value: (l) => l.operationId },
+            { header: 'order_id', value: (l) => l.orderId },
+        ];
+
+        // Входящий/исходящий остаток — отдельными строками в начале и конце
+        return toCsv(columns, [
+            { date: statement.period.from, description: 'Входящий остаток', balance: statement.openingBalance },
+            ...statement.lines,
+            { date: statement.period.to, description: 'Исходящий остаток', balance: statement.closingBalance },
+        ]);
+    }
+
+    /**
+     * PDF-выписка (A4). holder — ФИО / e-mail владельца для шапки.
+     */
+    renderPdf(statement: AccountStatement, holder: string): Promise<Buffer> {
+        return new Promise((resolve, reject) => {
+            const doc = new PDFDocument({ size: 'A4', margin: 40 });
+            const chunks: Buffer[] = [];
+            doc.on('data', (c: Buffer) => chunks.push(c));
+            doc.on('end', () => resolve(Buffer.concat(chunks)));
+            doc.on('error', reject);
+
+            const font = resolvePdfFont();
+            if (font) doc.font(font);
+
+            const { account, period } = statement;
+            const left = doc.page.margins.left;
+            const width = doc.page.width - doc.page.margins.left - doc.page.margins.right;
+            // date | description | in | out | balance
+            const cols = [90, width - 90 - 3 * 70, 70, 70, 70];
+
+            const row = (cells: string[], opts: { bold?: boolean } = {}) => {
+                if (doc.y > doc.page.height - doc.page.margins.bottom - 30) doc.addPage();
+                const y = doc.y;
+                let x = left;
+                let height = 0;
+                doc.fontSize(opts.bold ? 9 : 8);
+                cells.forEach((text, i) => {
+                    const w = cols[i]!;
+                    const align = i >= 2 ? 'right' : 'left';
+                    doc.text(text, x, y, { width: w - 4, align });
+                    height = Math.max(height, doc.y - y);
+                    x += w;
+                });
+                doc.y = y + height + 3;
+            };
+
+            doc.fontSize(14).text('Выписка по счёту', left, doc.y);
+            doc.moveDown(0.5);
+            doc.fontSize(9)
+                .text(`Владелец: ${holder}`)
+                .text(`Счёт: ${account.type} / ${account.currency} (${account.id})`)
+                .text(`Период: ${fmtDate(period.from)} — ${fmtDate(period.to)} (UTC)`)
+                .text(`Сформирована: ${fmtDateTime(new Date())} UTC`);
+            doc.moveDown();
+
+            row(['Дата', 'Операция', 'Приход', 'Расход', 'Остаток'], { bold: true });
+            row([fmtDate(period.from), 'Входящий остаток', '', '', fmt(statement.openingBalance)]);
+
+            for (const l of statement.lines) {
+                row([
+                    fmtDateTime(l.date),
+                    l.description,
+                    l.amount > 0 ? fmt(l.amount) : '',
+                    l.amount < 0 ? fmt(-l.amount) : '',
+                    fmt(l.balance),
+                ]);
+            }
+
+            row(['', 'Итого обороты', fmt(statement.totalIn), fmt(statement.totalOut), ''], { bold: true });
+            row([fmtDate(period.to), 'Исходящий остаток', '', '', fmt(statement.closingBalance)], { bold: true });
+
+            if (statement.truncated) {
+                doc.moveDown().fontSize(8).text('Выписка обрезана: сократите период, чтобы получить все операции.', left);
+            }
+
+            doc.end();
+        });
+    }
+}
+
+export const accountStatementService = new AccountStatementService();
@@ -0,0 +1,464 @@
+// backend/src/services/binaryBonusService.ts
+import { db } from '#db/db';
+import { matrixPlacement } from '#db/schema/matrixPlacement';
+import { binaryBonusLog } from '#db/schema/binaryBonus';
+import { appUser } from '#db/schema/users';
+import { and, eq, sql } from 'drizzle-orm';
+import { settlementSettingsRuntime } from '#config/settlementSettings';
+import { roundHalfUp } from '#utils/money';
+import walletService from './walletService';
+import { orderLoggingService } from './orderLoggingService';
+import type { MatrixPosition } from './matrixPlacementService';
+
+/**
+ * Binary Bonus Service
+ * Бинарный бонус по placement-дереву (matrix_placement)
+ *
+ * Правила:
+ *   - PV заказа поднимается ко ВСЕМ предкам покупателя в матрице
+ *     (в ногу, в которой находится покупатель относительно предка)
+ *   - left/right_leg_volume — накопительная статистика, left/right_carry_pv — несматченный остаток
+ *   - Бонус = binaryBonusPercent% от слабой ноги (min(carryL, carryR)) в рублях (PV × pvRubPerPv)
+ *   - Сматченный объём списывается с обеих ног, остаток сильной ноги переносится (carry-over)
+ *   - Лимит выплат на пользователя за месяц (binaryPeriodCapRub): превышение сгорает (flush)
+ *   - Если бюджета заказа не хватает, невыплаченный объём остаётся в carry до следующих заказов
+ *   - Выплата: ledger txn 'network_bonus' (network_fund → cash_rub пользователя)
+ *   - Идемпотентность: binary_bonus_log UNIQUE(order_id, user_id) + operationId `order:<id>:binary:<userId>`
+ */
+
+export interface BinaryPayout {
+    userId: string;
+    leg: MatrixPosition;
+    matchedPv: number;
+    flushedPv: number;
+    payoutRub: number;
+}
+
+export interface BinaryDistributionResult {
+    orderId: string;
+    pv: number;
+    ancestorsProcessed: number;
+    totalPaidRub: number;
+    payouts: BinaryPayout[];
+}
+
+/** Результат транзакции по одному предку: что выплатить после коммита */
+interface AppliedVolume {
+    logId: string;
+    carryLeft: number;
+    carryRight: number;
+    payout: BinaryPayout;
+}
+
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+const MAX_DEPTH = 1000;
+
+/** YYYY-MM-01 в UTC (как mlm_monthly_stats.month) */
+function periodKey(input?: Date): string {
+    const d = input ?? new Date();
+    const y = d.getUTCFullYear();
+    const m = String(d.getUTCMonth() + 1).padStart(2, '0');
+    return `${y}-${m}-01`;
+}
+
+export class BinaryBonusService {
+    /**
+     * Обработать PV заказа: поднять объём по всем предкам и выплатить бинарные бонусы
+     *
+     * @param orderId - ID заказа (ключ идемпотентности)
+     * @param buyerId - покупатель
+     * @param pv - PV заказа
+     * @param budgetRub - бюджет бинарных бонусов из сетевого фонда по этому заказу (на всех предков)
+     */
+    async processOrderVolume(
+        orderId: string,
+        buyerId: string,
+        pv: number,
+        budgetRub: number
+    ): Promise<BinaryDistributionResult> {
+        const result: BinaryDistributionResult = {
+            orderId,
+            pv,
+            ancestorsProcessed: 0,
+            totalPaidRub: 0,
+            payouts: [],
+        };
+
+        if (!(pv > 0)) return result;
+
+        const period = periodKey();
+
+        // Идём вверх от покупателя: child → parent → ...
+        let [node] = await db
+            .select({ userId: matrixPlacement.userId, parentId: matrixPlacement.parentId, position: matrixPlacement.position })
+            .from(matrixPlacement)
+            .where(eq(matrixPlacement.userId, buyerId))
+            .limit(1);
+
+        const visited = new Set<string>([buyerId]);
+
+        while (node?.parentId && result.ancestorsProcessed < MAX_DEPTH) {
+            const ancestorId = node.parentId;
+            if (visited.has(ancestorId)) break; // защита от циклов
+            visited.add(ancestorId);
+
+            const leg: MatrixPosition = node.position === 'right' ? 'right' : 'left';
+
+            const payout = await this.applyVolumeToAncestor({
+                orderId,
+                buyerId,
+                ancestorId,
+                leg,
+                pv,
+                period,
+                budgetRub,
+            });
+
+            if (payout) {
+                result.ancestorsProcessed += 1;
+                if (payout.payoutRub > 0 || payout.flushedPv > 0) {
+                    result.payouts.push(payout);
+                }
+                result.totalPaidRub = roundHalfUp(result.totalPaidRub + payout.payoutRub, 2);
+            }
+
+            [node] = await db
+                .select({ userId: matrixPlacement.userId, parentId: matrixPlacement.parentId, position: matrixPlacement.position })
+                .from(matrixPlacement)
+                .where(eq(matrixPlacement.userId, ancestorId))
+                .limit(1);
+        }
+
+        return result;
+    }
+
+    /**
+     * Добавить PV в ногу предка, сматчить carry и выплатить бонус
+     *
+     * Объёмы, carry и binary_bonus_log пишутся одной транзакцией; проводка в ledger — уже после коммита
+     * (walletService работает на своём соединении). Если проводка упала, лог остаётся с payout_rub > 0
+     * и ledger_txn_id = NULL: повторная обработка заказа дозачисляет выплату по тому же
+     * operationId `order:<id>:binary:<userId>`, так что двойного начисления не будет.
+     *
+     * @returns null если заказ уже обработан для этого предка или предок не размещён в матрице
+     */
+    private async applyVolumeToAncestor(params: {
+        orderId: string;
+        buyerId: string;
+        ancestorId: string;
+        leg: MatrixPosition;
+        pv: number;
+        period: string;
+        budgetRub: number;
+    }): Promise<BinaryPayout | null> {
+        const { orderId, buyerId, ancestorId, leg, pv, period, budgetRub } = params;
+
+        const applied = await db.transaction(async (tx): Promise<AppliedVolume | null> => {
+            // 1. Идемпотентность: один лог на (order, предок)
+            const [logRow] = await tx
+                .insert(binaryBonusLog)
+                .values({
+                    orderId,
+                    userId: ancestorId,
+                    sourceUserId: buyerId,
+                    leg,
+                    period,
+                    pvAdded: pv.toFixed(2),
+                })
+                .onConflictDoNothing()
+                .returning({ id: binaryBonusLog.id });
+
+            if (!logRow) return this.findUnpostedPayout(tx, orderId, ancestorId);
+
+            // 2. Блокируем placement предка
+            const [placement] = await tx
+                .select()
+                .from(matrixPlacement)
+                .where(eq(matrixPlacement.userId, ancestorId))
+                .for('update')
+                .limit(1);
+
+            if (!placement) {
+                // Предок — корень без собственной записи в матрице: объём учитывать негде
+                await tx.delete(binaryBonusLog).where(eq(binaryBonusLog.id, logRow.id));
+                return null;
+            }
+
+            let carryLeft = Number(placement.leftCarryPv ?? 0) + (leg === 'left' ? pv : 0);
+            let carryRight = Number(placement.rightCarryPv ?? 0) + (leg === 'right' ? pv : 0);
+            const leftTotal = Number(placement.leftLegVolume ?? 0) + (leg === 'left' ? pv : 0);
+            const rightTotal = Number(placement.rightLegVolume ?? 0) + (leg === 'right' ? pv : 0);
+
+            // 3. Матчинг слабой ноги
+            const matchedPv = Math.min(carryLeft, carryRight);
+            let consumedPv = 0;
+            let flushedPv = 0;
+            let payoutRub = 0;
+
+            const eligible = placement.isActive === 'true' && (await this.isEligible(tx, ancestorId));
+
+            if (matchedPv > 0 && eligible) {
+                const percent = settlementSettingsRuntime.binaryBonusPercent;
+                const rubPerPv = settlementSettingsRuntime.pvRubPerPv;
+                const grossRub = roundHalfUp(matchedPv * rubPerPv * (percent / 100), 2);
+
+                if (grossRub > 0) {
+                    // Лимит периода: всё, что выше — сгорает
+                    const capRub = settlementSettingsRuntime.binaryPeriodCapRub;
+                    const paidInPeriod = capRub != null ? await this.getPaidInPeriod(tx, ancestorId, period) : 0;
+                    const capLeft = capRub != null ? Math.max(0, capRub - paidInPeriod) : grossRub;
+                    const payableRub = Math.min(grossRub, capLeft);
+
+                    // Бюджет заказа: остаток — по логам заказа, так что при повторной обработке
+                    // уже выплаченные предки учитываются. Невыплаченное остаётся в carry
+                    const budgetLeft = Math.max(0, budgetRub - (await this.getPaidForOrder(tx, orderId)));
+                    payoutRub = roundHalfUp(Math.min(payableRub, budgetLeft), 2);
+
+                    const forfeitedRub = grossRub - payableRub;
+                    flushedPv = roundHalfUp(matchedPv * (forfeitedRub / grossRub), 2);
+                    consumedPv = roundHalfUp(matchedPv * ((payoutRub + forfeitedRub) / grossRub), 2);
+                }
+            }
+
+            carryLeft = Math.max(0, roundHalfUp(carryLeft - consumedPv, 2));
+            carryRight = Math.max(0, roundHalfUp(carryRight - consumedPv, 2));
+
+            // 4. Обновляем объёмы и carry
+            await tx
+                .update(matrixPlacement)
+                .set({
+                    leftLegVolume: leftTotal.toFixed(2),
+                    rightLegVolume: rightTotal.toFixed(2),
+                    leftCarryPv: carryLeft.toFixed(2),
+                    rightCarryPv: carryRight.toFixed(2),
+                    updatedAt: new Date(),
+                })
+                .where(eq(matrixPlacement.userId, ancestorId));
+
+            await tx
+                .update(binaryBonusLog)
+                .set({
+                    matchedPv: Math.max(0, consumedPv - flushedPv).toFixed(2),
+                    flushedPv: flushedPv.toFixed(2),
+                    payoutRub: payoutRub.toFixed(2),
+                })
+                .where(eq(binaryBonusLog.id, logRow.id));
+
+            return {
+                logId: logRow.id,
+                carryLeft,
+                carryRight,
+                payout: {
+                    userId: ancestorId,
+                    leg,
+                    matchedPv: Math.max(0, roundHalfUp(consumedPv - flushedPv, 2)),
+                    flushedPv,
+                    payoutRub,
+                },
+            };
+        });
+
+        if (!applied) return null;
+
+        // 5. Выплата через ledger после коммита (идемпотентно по operationId)
+        if (applied.payout.payoutRub > 0) {
+            await this.postPayout(orderId, buyerId, period, applied);
+        }
+
+        return applied.payout;
+    }
+
+    /**
+     * Лог уже есть: если его выплата не дошла до ledger (упали между коммитом и проводкой) —
+     * вернуть её для дозачисления, иначе заказ для предка обработан
+     */
+    private async findUnpostedPayout(tx: Tx, orderId: string, ancestorId: string): Promise<AppliedVolume | null> {
+        const [log] = await tx
+            .select()
+            .from(binaryBonusLog)
+            .where(and(eq(binaryBonusLog.orderId, orderId), eq(binaryBonusLog.userId, ancestorId)))
+            .limit(1);
+
+        if (!log || log.ledgerTxnId || Number(log.payoutRub) <= 0) return null;
+
+        const [placement] = await tx
+            .select({ leftCarryPv: matrixPlacement.leftCarryPv, rightCarryPv: matrixPlacement.rightCarryPv })
+            .from(matrixPlacement)
+            .where(eq(matrixPlacement.userId, ancestorId))
+            .limit(1);
+
+        return {
+            logId: log.id,
+            carryLeft: Number(placement?.leftCarryPv ?? 0),
+            carryRight: Number(placement?.rightCarryPv ?? 0),
+            payout: {
+                userId: ancestorId,
+                leg: log.leg as MatrixPosition,
+                matchedPv: Number(log.matchedPv),
+                flushedPv: Number(log.flushedPv),
+                payoutRub: Number(log.payoutRub),
+            },
+        };
+    }
+
+    /** Проводка network_bonus и привязка её к binary_bonus_log */
+    private async postPayout(orderId: string, buyerId: string, period: string, applied: AppliedVolume): Promise<void> {
+        const { payout, carryLeft, carryRight } = applied;
+
+        const { txn } = await walletService.creditUser(payout.userId, payout.payoutRub, {
+            currency: 'RUB',
+            userType: 'cash_rub',
+            systemType: 'network_fund',
+            opType: 'network_bonus',
+            options: {
+                operationId: `order:${orderId}:binary:${payout.userId}`,
+                memo: `Binary bonus ${settlementSettingsRuntime.binaryBonusPercent}% of weaker leg`,
+                orderId,
+                meta: {
+                    kind: 'binary',
+                    buyerId,
+                    leg: payout.leg,
+                    period,
+                    matchedPv: payout.matchedPv,
+                    carryLeft,
+                    carryRight,
+                },
+            },
+        });
+
+        await db
+            .update(binaryBonusLog)
+            .set({ ledgerTxnId: txn.id })
+            .where(eq(binaryBonusLog.id, applied.logId));
+
+        await orderLoggingService.logBinaryBonus(orderId, payout.userId, payout.payoutRub, carryLeft, carryRight);
+    }
+
+    /**
+     * Снять объём возвращённого заказа с ног предков
+     *
+     * @param share - накопленная доля возврата заказа (0..1); снимается разница
+     *                до pv_added × share, поэтому повторный вызов ничего не меняет
+     * @returns сколько PV снято в этом вызове (сумма по всем предкам)
+     *
+     * Уже сматченный объём назад не «размачивается»: carry уменьшается не ниже 0,
+     * а выплаченный бинарный бонус сторнируется по ledger_txn заказа.
+     */
+    async reverseOrderVolume(orderId: string, share: number): Promise<number> {
+        const logs = await db.select().from(binaryBonusLog).where(eq(binaryBonusLog.orderId, orderId));
+        let removed = 0;
+
+        for (const log of logs) {
+            const pvAdded = Number(log.pvAdded ?? 0);
+            const target = share >= 1 ? pvAdded : roundHalfUp(pvAdded * share, 2);
+            const delta = roundHalfUp(target - Number(log.pvReversed ?? 0), 2);
+            if (delta <= 0) continue;
+
+            await db.transaction(async (tx) => {
+                const [placement] = await tx
+                    .select()
+                    .from(matrixPlacement)
+                    .where(eq(matrixPlacement.userId, log.userId))
+                    .for('update')
+                    .limit(1);
+
+                if (placement) {
+                    const isLeft = log.leg === 'left';
+                    const volume = Number(isLeft ? placement.leftLegVolume : placement.rightLegVolume);
+                    const carry = Number(isLeft ? placement.leftCarryPv : placement.rightCarryPv);
+                    const nextVolume = Math.max(0, roundHalfUp(volume - delta, 2)).toFixed(2);
+                    const nextCarry = Math.max(0, roundHalfUp(carry - delta, 2)).toFixed(2);
+
+                    await tx
+                        .update(matrixPlacement)
+                        .set(
+                            isLeft
+                                ? { leftLegVolume: nextVolume, leftCarryPv: nextCarry, updatedAt: new Date() }
+                                : { rightLegVolume: nextVolume, rightCarryPv: nextCarry, updatedAt: new Date() }
+                        )
+                        .where(eq(matrixPlacement.userId, log.userId));
+                }
+
+                await tx
+                    .update(binaryBonusLog)
+                    .set({ pvReversed: target.toFixed(2) })
+                    .where(eq(binaryBonusLog.id, log.id));
+            });
+
+            removed += delta;
+        }
+
+        return roundHalfUp(removed, 2);
+    }
+
+    /**
+     * Бинарный бонус получают только partner / partner_pro (Registry: customer без бонусов)
+     */
+    private async isEligible(tx: Tx, userId: string): Promise<boolean> {
+        const [user] = await tx
+            .select({ mlmStatus: appUser.mlmStatus, isActive: appUser.isActive })
+            .from(appUser)
+            .where(eq(appUser.id, userId))
+            .limit(1);
+
+        if (!user || user.isActive === false) return false;
+        return user.mlmStatus === 'partner' || user.mlmStatus === 'partner_pro';
+    }
+
+    /**
+     * Сумма бинарных выплат пользователю за период
+     */
+    private async getPaidInPeriod(tx: Tx, userId: string, period: string): Promise<number> {
+        const [row] = await tx
+            .select({ total: sql<string>`COALESCE(SUM(${binaryBonusLog.payoutRub}), 0)` })
+            .from(binaryBonusLog)
+            .where(and(eq(binaryBonusLog.userId, userId), eq(binaryBonusLog.period, period)));
+
+        return Number(row?.total ?? 0);
+    }
+
+    /**
+     * Сумма бинарных выплат по заказу (всем предкам)
+     */
+    private async getPaidForOrder(tx: Tx, orderId: string): Promise<number> {
+        const [row] = await tx
+            .select({ total: sql<string>`COALESCE(SUM(${binaryBonusLog.payoutRub}), 0)` })
+            .from(binaryBonusLog)
+            .where(eq(binaryBonusLog.orderId, orderId));
+
+        return Number(row?.total ?? 0);
+    }
+
+    /**
+     * Получить сводку бинарных бонусов пользователя за период
+     */
+    async getPeriodSummary(userId: string, month?: Date): Promise<{
+        period: string;
+        paidRub: number;
+        matchedPv: number;
+        flushedPv: number;
+        capRub: number | null;
+    }> {
+        const period = periodKey(month);
+        const [row] = await db
+            .select({
+                paid: sql<string>`COALESCE(SUM(${binaryBonusLog.payoutRub}), 0)`,
+                matched: sql<string>`COALESCE(SUM(${binaryBonusLog.matchedPv}), 0)`,
+                flushed: sql<string>`COALESCE(SUM(${binaryBonusLog.flushedPv}), 0)`,
+            })
+            .from(binaryBonusLog)
+            .where(and(eq(binaryBonusLog.userId, userId), eq(binaryBonusLog.period, period)));
+
+        return {
+            period,
+            paidRub: Number(row?.paid ?? 0),
+            matchedPv: Number(row?.matched ?? 0),
+            flushedPv: Number(row?.flushed ?? 0),
+            capRub: settlementSettingsRuntime.binaryPeriodCapRub,
+        };
+    }
+}
+
+// Singleton экземпляр
+export const binaryBonusService = new BinaryBonusService();
@@ -0,0 +1,160 @@
+// backend/src/services/bonusHoldService.ts
+import { settlementSettingsRuntime } from '#config/settlementSettings';
+import { ledgerStorage } from '#storage/ledgerStorage';
+import { ledgerHoldsStorage, type PendingHoldRow } from '#storage/ledgerHoldsStorage';
+import type { LedgerHold } from '#db/schema/ledgerHolds';
+import { roundHalfUp } from '#utils/money';
+import walletService, {
+    type AccountType,
+    type Currency,
+    type LedgerOpType,
+    type TransferOptions,
+} from './walletService';
+import { errorMonitoringService } from './errorMonitoringService';
+
+/**
+ * Bonus Hold Service
+ * Бонусы за доставленный заказ (кэшбэк, L1-L15, Fast Start, Infinity) в течение окна возврата
+ * (settlement_settings.bonus_hold_days) лежат на счёте пользователя `hold` и не доступны к выводу.
+ *
+ *   начисление:   Дт user:hold       / Кт system:<source>   + запись ledger_hold
+ *   возврат:      orderReturnService сторнирует исходную txn — сторно кредитует hold
+ *   освобождение: Дт user:<target>   / Кт user:hold         (остаток за вычетом сторно)
+ */
+
+const DAY_MS = 86_400_000;
+
+export class BonusHoldService {
+    /**
+     * Начислить бонус через холд. При bonus_hold_days = 0 — сразу на целевой счёт.
+     * Идемпотентно по options.operationId (как walletService.creditUser).
+     */
+    async creditWithHold(
+        userId: string,
+        amount: number,
+        params: {
+            currency: Currency;
+            targetType: AccountType;
+            systemType?: AccountType;
+            opType: LedgerOpType;
+            /** Начало окна возврата (обычно order.deliveredAt) */
+            heldFrom?: Date;
+            options?: TransferOptions;
+        }
+    ) {
+        const { currency, targetType, systemType, opType, options } = params;
+        const holdDays = settlementSettingsRuntime.bonusHoldDays;
+
+        if (!(holdDays > 0)) {
+            return walletService.creditUser(userId, amount, {
+                currency,
+                userType: targetType,
+                ...(systemType ? { systemType } : {}),
+                opType,
+                ...(options ? { options } : {}),
+            });
+        }
+
+        const result = await walletService.creditUser(userId, amount, {
+            currency,
+            userType: 'hold',
+            ...(systemType ? { systemType } : {}),
+            opType,
+            options: { ...(options ?? {}), meta: { ...(options?.meta ?? {}), holdTarget: targetType } },
+        });
+
+        const holdPosting = result.postings[0];
+        if (holdPosting) {
+            await ledgerHoldsStorage.create({
+                userId,
+                orderId: options?.orderId ?? null,
+                txnId: result.txn.id,
+                holdAccountId: holdPosting.debitAccountId,
+                targetType,
+                currency,
+                amount: holdPosting.amount,
+                releaseAt: new Date((params.heldFrom ?? new Date()).getTime() + holdDays * DAY_MS),
+            });
+        }
+
+        return result;
+    }
+
+    /**
+     * Освободить холды с истёкшим окном возврата (фоновая задача)
+     */
+    async releaseDue(now: Date = new Date(), batchSize = 200): Promise<{
+        released: number;
+        canceled: number;
+        failed: number;
+    }> {
+        let released = 0;
+        let canceled = 0;
+        let failed = 0;
+
+        for (;;) {
+            const due = await ledgerHoldsStorage.listDue(now, batchSize);
+            if (due.length === 0) break;
+
+            for (const hold of due) {
+                try {
+                    const outcome = await this.release(hold);
+                    if (outcome === 'released') released++;
+                    else canceled++;
+                } catch (error) {
+                    failed++;
+                    errorMonitoringService.logError('error', `Failed to release ledger hold ${hold.id}`, error as Error);
+                }
+            }
+
+            // Упавшие холды остаются 'held' — не крутим их повторно в этом же прогоне
+            if (due.length < batchSize || failed > 0) break;
+        }
+
+        return { released, canceled, failed };
+    }
+
+    /**
+     * Перенос остатка холда на целевой счёт. Остаток = сумма − сторно, не больше баланса hold.
+     */
+    private async release(hold: LedgerHold): Promise<'released' | 'canceled'> {
+        const reversed = await ledgerHoldsStorage.getReversedAmount(hold);
+        const holdBalance = await ledgerStorage.getBalance(hold.holdAccountId);
+        const amount = roundHalfUp(Math.min(Number(hold.amount) - reversed, holdBalance), 2);
+
+        if (!(amount > 0)) {
+            await ledgerHoldsStorage.finish(hold.id, { status: 'canceled', releasedAmount: 0 });
+            return 'canceled';
+        }
+
+        const target = await walletService.ensureUserAccount(hold.userId, hold.currency, hold.targetType);
+        const { txn } = await walletService.transferByAccounts(
+            target.id,
+            hold.holdAccountId,
+            amount,
+            hold.currency,
+            'hold_release',
+            {
+                operationId: `hold:${hold.id}:release`,
+                userId: hold.userId,
+                ...(hold.orderId ? { orderId: hold.orderId } : {}),
+                memo: 'Return window closed: bonus released',
+                meta: { holdId: hold.id, originalTxnId: hold.txnId, reversed },
+            }
+        );
+
+        await ledgerHoldsStorage.finish(hold.id, {
+            status: 'released',
+            releasedAmount: amount,
+            releaseTxnId: txn.id,
+        });
+        return 'released';
+    }
+
+    /** Ожидающие освобождения суммы пользователя по целевому счёту */
+    getPending(userId: string): Promise<PendingHoldRow[]> {
+        return ledgerHoldsStorage.pendingByUser(userId);
+    }
+}
+
+export const bonusHoldService = new BonusHoldService();
@@ -0,0 +1,234 @@
+// backend/src/services/checkoutPaymentService.ts
+import type { Payment } from '#db/schema/payments';
+import { paymentsStorage } from '#storage/paymentsStorage';
+import ordersStorage from '#storage/ordersStorage';
+import { roundHalfUp } from '#utils/money';
+import { AppError, AppErrorCode } from '../middleware/errorHandler';
+import { walletService } from './walletService';
+import { tinkoffReceiptService, type TinkoffReceiptService } from './tinkoff/tinkoffReceipt';
+import { TinkoffOrdersRepository } from './tinkoff/tinkoffRepositories';
+import type { OrdersRepo } from './tinkoffPaymentService';
+import { paymentProviders, type PaymentProviderRegistry, type ProviderInitResult, type ProviderMethod } from './paymentProviders';
+import { errorMonitoringService } from './errorMonitoringService';
+
+/**
+ * Checkout Payment Service
+ * Оплата заказа через провайдера (карта / СБП), в том числе смешанная:
+ *
+ *   1. walletAmountRub > 0 — списание с cash_rub пользователя (payOrderFromWallet),
+ *      отдельный платёж method='wallet', provider='wallet' сразу captured; заказ — paymentMethod 'mixed'
+ *   2. остаток — init у провайдера, выбранного по методу (paymentProviders.forMethod)
+ *   3. init не прошёл или провайдер прислал отказ — списание с кошелька возвращается (rollbackWalletLeg)
+ *
+ * Заказ целиком с баланса (без провайдера) — payFromWallet.
+ *
+ * Проводки кошелька идемпотентны по id платежа: payment:<id> / payment:<id>:rollback.
+ */
+
+export interface StartPaymentInput {
+    orderId: string;
+    userId: string;
+    method: ProviderMethod;
+    /** Полная сумма к оплате */
+    amountRub: number;
+    /** Часть суммы с баланса пользователя (cash_rub) */
+    walletAmountRub?: number;
+    description?: string;
+}
+
+export interface StartPaymentResult {
+    /** Платёж провайдера (карточная / СБП часть) */
+    payment: Payment;
+    walletPayment: Payment | null;
+    paymentUrl?: string;
+    qrPayload?: string;
+}
+
+const WALLET_PROVIDER = 'wallet';
+
+export class CheckoutPaymentService {
+    constructor(
+        private providers: PaymentProviderRegistry = paymentProviders,
+        private receipts: TinkoffReceiptService = tinkoffReceiptService,
+        private orders: OrdersRepo = new TinkoffOrdersRepository()
+    ) {}
+
+    async startPayment(input: StartPaymentInput): Promise<StartPaymentResult> {
+        const total = roundHalfUp(input.amountRub, 2);
+        const walletAmount = roundHalfUp(input.walletAmountRub ?? 0, 2);
+        const providerAmount = roundHalfUp(total - walletAmount, 2);
+
+        if (walletAmount < 0) {
+            throw new AppError(AppErrorCode.VALIDATION_ERROR, 'walletAmountRub must not be negative', 400);
+        }
+        if (providerAmount <= 0) {
+            throw new AppError(
+                AppErrorCode.VALIDATION_ERROR,
+                'walletAmountRub must be less than the order amount',
+                400,
+                { amountRub: total, walletAmountRub: walletAmount }
+            );
+        }
+
+        let provider;
+        try {
+            provider = this.providers.forMethod(input.method);
+        } catch (e) {
+            throw new AppError(AppErrorCode.VALIDATION_ERROR, (e as Error).message, 400);
+        }
+
+        // Чек 54-ФЗ — на сумму, которая проходит через провайдера
+        let receipt;
+        if (this.receipts.enabled) {
+            try {
+                receipt = await this.receipts.forOrder(input.orderId, providerAmount);
+            } catch (e) {
+                throw new AppError(AppErrorCode.VALIDATION_ERROR, (e as Error).message, 400);
+            }
+        }
+
+        const walletPayment = walletAmount > 0 ? await this.chargeWallet(input, walletAmount) : null;
+
+        let init: ProviderInitResult;
+        try {
+            init = await provider.init({
+                orderId: input.orderId,
+                amountRub: providerAmount,
+                description: input.description ?? `Оплата заказа ${input.orderId}`,
+                method: input.method,
+                customerKey: input.userId,
+                ...(receipt ? { receipt } : {}),
+            });
+        } catch (e) {
+            errorMonitoringService.logError('error', `Order ${input.orderId}: ${provider.name} init failed`, e as Error);
+            init = { success: false, error: (e as Error).message };
+        }
+
+        if (!init.success) {
+            if (walletPayment) await this.rollbackWalletLeg(input.orderId, 'payment init failed');
+            throw new AppError(AppErrorCode.VALIDATION_ERROR, init.error || 'Failed to create payment', 400);
+        }
+
+        const payment = await paymentsStorage.getByExternalId(init.externalId);
+        if (!payment) {
+            throw new AppError(AppErrorCode.INTERNAL_ERROR, 'Payment not found after creation', 500);
+        }
+
+        await ordersStorage.update(input.orderId, { paymentMethod: walletPayment ? 'mixed' : input.method });
+
+        return {
+            payment,
+            walletPayment,
+            ...(init.paymentUrl ? { paymentUrl: init.paymentUrl } : {}),
+            ...(init.qrPayload ? { qrPayload: init.qrPayload } : {}),
+        };
+    }
+
+    /**
+     * Оплата всего заказа с баланса (автозаказ подписки): платёж wallet сразу captured,
+     * заказ — paid и onPaid. Баланса не хватает — INSUFFICIENT_BALANCE, заказ не трогаем.
+     */
+    async payFromWallet(input: { orderId: string; userId: string; amountRub: number }): Promise<Payment> {
+        const amount = roundHalfUp(input.amountRub, 2);
+        if (amount <= 0) {
+            throw new AppError(AppErrorCode.VALIDATION_ERROR, 'amountRub must be positive', 400);
+        }
+
+        const payment = await this.chargeWallet(input, amount);
+        await ordersStorage.update(input.orderId, { paymentMethod: 'wallet' });
+        await this.settleOrder(input.orderId, true);
+        return payment;
+    }
+
+    /**
+     * Результат оплаты у провайдера без собственного OrdersRepo (fake):
+     * статус заказа, onPaid при успехе, откат кошелька при отказе.
+     */
+    async settleOrder(orderId: string, isPaid: boolean): Promise<boolean> {
+        const changed = await this.orders.updateStatus(orderId, isPaid ? 'paid' : 'failed');
+        if (!changed) return false;
+
+        if (isPaid) {
+            try {
+                const { orderLifecycleService } = await import('./orderLifecycleService');
+                await orderLifecycleService.onPaid(orderId);
+            } catch (err) {
+                console.error(`❌ Failed to execute onPaid lifecycle for order ${orderId}:`, err);
+            }
+            return true;
+        }
+
+        await this.rollbackWalletLeg(orderId, 'payment failed');
+        return true;
+    }
+
+    /**
+     * Вернуть на баланс пользователя списанную часть смешанной оплаты.
+     * Повторный вызов безопасен: платёж уже refunded, проводка — по тому же operationId.
+     * @returns сумма возврата
+     */
+    async rollbackWalletLeg(orderId: string, reason: string): Promise<number> {
+        const legs = (await paymentsStorage.listByOrder(orderId)).filter(
+            (p) => p.provider === WALLET_PROVIDER && p.status === 'captured'
+        );
+        if (legs.length === 0) return 0;
+
+        const ord = await ordersStorage.getById(orderId);
+        if (!ord) return 0;
+
+        let total = 0;
+        for (const leg of legs) {
+            const amount = Number(leg.amountRub);
+            await walletService.refundOrderToWallet(ord.userId, orderId, amount, {
+                currency: 'RUB',
+                options: {
+                    operationId: `payment:${leg.id}:rollback`,
+                    memo: `Возврат оплаты заказа с баланса: ${reason}`,
+                    meta: { paymentId: leg.id, reason },
+                },
+            });
+            await paymentsStorage.markRefunded(leg.id);
+            total += amount;
+        }
+        return roundHalfUp(total, 2);
+    }
+
+    /** Списание части заказа с cash_rub пользователя */
+    private async chargeWallet(input: { orderId: string; userId: string }, amount: number): Promise<Payment> {
+        const { balance } = await walletService.getUserBalance(input.userId, 'RUB', 'cash_rub');
+        if (balance < amount) {
+            throw new AppError(AppErrorCode.INSUFFICIENT_BALANCE, 'Insufficient wallet balance', 400, {
+                balance,
+                walletAmountRub: amount,
+            });
+        }
+
+        const leg = await paymentsStorage.createPayment({
+            orderId: input.orderId,
+            method: 'wallet',
+            provider: WALLET_PROVIDER,
+            status: 'init',
+            amountRub: amount.toFixed(2),
+            currency: 'RUB',
+        });
+
+        try {
+            await walletService.payOrderFromWallet(input.userId, input.orderId, amount, {
+                currency: 'RUB',
+                options: {
+                    operationId: `payment:${leg.id}`,
+                    memo: 'Оплата заказа с баланса',
+                    meta: { paymentId: leg.id },
+                },
+            });
+        } catch (e) {
+            // Параллельное списание успело раньше — баланса уже не хватает
+            await paymentsStorage.markFailed(leg.id, 'WALLET_DEBIT_FAILED', (e as Error).message);
+            throw new AppError(AppErrorCode.INSUFFICIENT_BALANCE, 'Insufficient wallet balance', 400);
+        }
+
+        return (await paymentsStorage.markCaptured(leg.id)) ?? leg;
+    }
+}
+
+export const checkoutPaymentService = new CheckoutPaymentService();
@@ -0,0 +1,280 @@
+// backend/src/services/delivery/cdek.ts
+import { CarrierApiError, type CarrierHttp, type CarrierHttpRequest } from './http';
+import type {
+    CarrierAdapter,
+    CreateShipmentRequest,
+    DeliveryDestination,
+    DeliveryStatus,
+    Parcel,
+    PickupPoint,
+    PickupPointQuery,
+    ShipmentInfo,
+    TariffQuote,
+    TrackingEvent,
+    TrackingUpdate,
+} from './types';
+
+/**
+ * СДЭК API v2 (https://api.cdek.ru/v2, тестовый контур https://api.edu.cdek.ru/v2).
+ *
+ *   POST /oauth/token          — client_credentials, токен кэшируется до истечения
+ *   POST /calculator/tariff    — стоимость по тарифу (склад-дверь / склад-склад)
+ *   GET  /deliverypoints       — ПВЗ и постаматы по коду города / индексу
+ *   POST /orders               — регистрация заказа; cdek_number приходит асинхронно (GET /orders/{uuid})
+ *   GET  /orders/{uuid}        — statuses[] — история статусов (новые первыми)
+ *
+ * Вебхук ORDER_STATUS (подписка POST /webhooks) присылает каждый новый статус;
+ * статусы возвратного заказа приходят с attributes.is_return и пишутся как RETURN_<code>.
+ */
+
+const CDEK_STATUS: Record<string, DeliveryStatus | null> = {
+    CREATED: 'pending',
+    ACCEPTED: 'pending',
+    RECEIVED_AT_SHIPMENT_WAREHOUSE: 'in_transit',
+    READY_TO_SHIP_AT_SENDING_OFFICE: 'in_transit',
+    READY_FOR_SHIPMENT_IN_SENDER_CITY: 'in_transit',
+    TAKEN_BY_TRANSPORTER_FROM_SENDER_CITY: 'in_transit',
+    SENT_TO_TRANSIT_CITY: 'in_transit',
+    ACCEPTED_IN_TRANSIT_CITY: 'in_transit',
+    SENT_TO_RECIPIENT_CITY: 'in_transit',
+    ACCEPTED_IN_RECIPIENT_CITY: 'in_transit',
+    ACCEPTED_AT_PICK_UP_POINT: 'in_transit',
+    POSTOMAT_POSTED: 'in_transit',
+    TAKEN_BY_COURIER: 'in_transit',
+    NOT_DELIVERED: 'in_transit',
+    DELIVERED: 'delivered',
+    POSTOMAT_RECEIVED: 'delivered',
+    // Возвратный заказ вручён нам
+    RETURN_DELIVERED: 'returned',
+    INVALID: null,
+    REMOVED: null,
+};
+
+/** "2024-05-14T12:30:00+0300" — СДЭК отдаёт смещение без двоеточия */
+function parseCdekDate(value: unknown): Date {
+    const d = new Date(String(value ?? '').replace(/([+-]\d{2})(\d{2})$/, '$1:$2'));
+    return Number.isNaN(d.getTime()) ? new Date() : d;
+}
+
+export interface CdekConfig {
+    baseUrl: string;
+    account: string;
+    secret: string;
+    /** Код города отправителя (справочник СДЭК) */
+    fromCityCode: number;
+    /** Код ПВЗ, куда сдаём посылки; без него — забор от адреса отправителя */
+    shipmentPoint?: string;
+    /** «Посылка склад-дверь» / «Посылка склад-склад» */
+    doorTariff: number;
+    pickupTariff: number;
+}
+
+export class CdekAdapter implements CarrierAdapter {
+    readonly name = 'sdek' as const;
+    private token: { value: string; expiresAt: number } | null = null;
+
+    constructor(private config: CdekConfig, private http: CarrierHttp) {}
+
+    async calculate(parcel: Parcel, destination: DeliveryDestination, address?: string | null): Promise<TariffQuote> {
+        const mode = destination.pickupPointCode ? 'pickup' : 'door';
+        const tariffCode = mode === 'pickup' ? this.config.pickupTariff : this.config.doorTariff;
+
+        const body = await this.call({
+            method: 'POST',
+            url: '/calculator/tariff',
+            body: {
+                tariff_code: tariffCode,
+                from_location: { code: this.config.fromCityCode },
+                to_location: this.toLocation(destination, address),
+                packages: [this.toPackage(parcel)],
+            },
+        });
+
+        return {
+            carrier: this.name,
+            tariffCode: String(tariffCode),
+            priceRub: Number(body.total_sum),
+            mode,
+            ...(body.period_min != null ? { minDays: Number(body.period_min) } : {}),
+            ...(body.period_max != null ? { maxDays: Number(body.period_max) } : {}),
+        };
+    }
+
+    async findPickupPoints(query: PickupPointQuery): Promise<PickupPoint[]> {
+        const body = await this.call({
+            method: 'GET',
+            url: '/deliverypoints',
+            query: {
+                city_code: query.cityCode,
+                postal_code: query.postalCode,
+                type: 'ALL',
+                size: query.limit ?? 50,
+            },
+        });
+
+        return (Array.isArray(body) ? body : []).map((p: any) => ({
+            carrier: this.name,
+            code: String(p.code),
+            name: p.name ?? String(p.code),
+            address: p.location?.address_full ?? p.location?.address ?? '',
+            ...(p.location?.city ? { city: p.location.city } : {}),
+            ...(p.location?.postal_code ? { postalCode: p.location.postal_code } : {}),
+            ...(p.location?.latitude != null ? { latitude: Number(p.location.latitude) } : {}),
+            ...(p.location?.longitude != null ? { longitude: Number(p.location.longitude) } : {}),
+            ...(p.work_time ? { workTime: p.work_time } : {}),
+        }));
+    }
+
+    async createShipment(req: CreateShipmentRequest): Promise<ShipmentInfo> {
+        const toPoint = req.destination.pickupPointCode;
+        // Вес по позициям СДЭК требует, а у нас он есть только суммарный — делим поровну на единицы
+        const units = req.items.reduce((sum, i) => sum + i.quantity, 0) || 1;
+        const unitWeightG = Math.max(1, Math.round(req.parcel.weightG / units));
+        const body = await this.call({
+            method: 'POST',
+            url: '/orders',
+            body: {
+                number: req.orderId,
+                tariff_code: toPoint ? this.config.pickupTariff : this.config.doorTariff,
+                ...(this.config.shipmentPoint
+                    ? { shipment_point: this.config.shipmentPoint }
+                    : { from_location: { code: this.config.fromCityCode } }),
+                ...(toPoint
+                    ? { delivery_point: toPoint }
+                    : { to_location: this.toLocation(req.destination, req.address) }),
+                recipient: {
+                    name: req.recipient.name,
+                    phones: [{ number: req.recipient.phone }],
+                    ...(req.recipient.email ? { email: req.recipient.email } : {}),
+                },
+                packages: [
+                    {
+                        number: '1',
+                        ...this.toPackage(req.parcel),
+                        items: req.items.map((i) => ({
+                            name: i.name,
+                            ware_key: i.sku || i.name,
+                            amount: i.quantity,
+                            cost: i.priceRub,
+                            // Заказ оплачен онлайн — наложенного платежа нет
+                            payment: { value: 0 },
+                            weight: unitWeightG,
+                        })),
+                    },
+                ],
+            },
+        });
+
+        const uuid = body.entity?.uuid;
+        if (!uuid) throw new CarrierApiError(this.name, 200, 'Order uuid is missing in response', body);
+        return this.getShipment(uuid);
+    }
+
+    async getShipment(externalId: string): Promise<ShipmentInfo> {
+        const body = await this.call({ method: 'GET', url: `/orders/${encodeURIComponent(externalId)}` });
+        const entity = body.entity ?? {};
+        const statuses: Array<{ code: string }> = entity.statuses ?? [];
+        // Запрос на регистрацию ещё обрабатывается — статуса заказа нет, смотрим состояние запроса
+        const requestState = body.requests?.[0]?.state;
+
+        return {
+            externalId,
+            trackingCode: entity.cdek_number ? String(entity.cdek_number) : null,
+            status: statuses[0]?.code ?? requestState ?? 'ACCEPTED',
+        };
+    }
+
+    async getTracking(shipment: { externalId: string }): Promise<TrackingEvent[]> {
+        const body = await this.call({ method: 'GET', url: `/orders/${encodeURIComponent(shipment.externalId)}` });
+        const statuses: any[] = body.entity?.statuses ?? [];
+        return statuses
+            .map((st) => ({
+                providerStatus: String(st.code),
+                ...(st.name ? { description: String(st.name) } : {}),
+                ...(st.city ? { location: String(st.city) } : {}),
+                occurredAt: parseCdekDate(st.date_time),
+            }))
+            .reverse();
+    }
+
+    mapStatus(providerStatus: string): DeliveryStatus | null {
+        if (providerStatus in CDEK_STATUS) return CDEK_STATUS[providerStatus]!;
+        // Прочие статусы возвратного заказа — посылка едет обратно
+        return providerStatus.startsWith('RETURN_') ? 'in_transit' : null;
+    }
+
+    parseWebhook(body: any): TrackingUpdate[] {
+        if (body?.type !== 'ORDER_STATUS' || !body.attributes?.code) return [];
+        const a = body.attributes;
+        return [
+            {
+                providerStatus: a.is_return ? `RETURN_${a.code}` : String(a.code),
+                ...(a.status_name ? { description: String(a.status_name) } : {}),
+                ...(a.city_name ? { location: String(a.city_name) } : {}),
+                occurredAt: parseCdekDate(a.status_date_time ?? body.date_time),
+                ...(body.uuid && !a.is_return ? { externalId: String(body.uuid) } : {}),
+                ...(a.cdek_number && !a.is_return ? { trackingCode: String(a.cdek_number) } : {}),
+                ...(a.number ? { orderNumber: String(a.number) } : {}),
+            },
+        ];
+    }
+
+    /* ───────── helpers ───────── */
+
+    private toLocation(destination: DeliveryDestination, address?: string | null) {
+        return {
+            ...(destination.cityCode ? { code: destination.cityCode } : {}),
+            ...(destination.postalCode ? { postal_code: destination.postalCode } : {}),
+            ...(destination.city ? { city: destination.city } : {}),
+            ...(address ? { address } : {}),
+        };
+    }
+
+    private toPackage(parcel: Parcel) {
+        return {
+            weight: parcel.weightG,
+            length: parcel.lengthCm,
+            width: parcel.widthCm,
+            height: parcel.heightCm,
+        };
+    }
+
+    private async accessToken(): Promise<string> {
+        if (this.token && this.token.expiresAt > Date.now()) return this.token.value;
+
+        const resp = await this.http.request({
+            method: 'POST',
+            url: `${this.config.baseUrl}/oauth/token`,
+            form: {
+                grant_type: 'client_credentials',
+                client_id: this.config.account,
+                client_secret: this.config.secret,
+            },
+        });
+        if (resp.status !== 200 || !resp.body?.access_token) {
+            throw new CarrierApiError(this.name, resp.status, 'Authorization failed', resp.body);
+        }
+
+        // Обновляем за минуту до истечения
+        const ttlSec = Number(resp.body.expires_in ?? 3600);
+        this.token = { value: resp.body.access_token, expiresAt: Date.now() + (ttlSec - 60) * 1000 };
+        return this.token.value;
+    }
+
+    private async call(req: CarrierHttpRequest): Promise<any> {
+        const token = await this.accessToken();
+        const resp = await this.http.request({
+            ...req,
+            url: `${this.config.baseUrl}${req.url}`,
+            headers: { Authorization: `Bearer ${token}`, ...req.headers },
+        });
+
+        const errors: Array<{ code?: string; message?: string }> =
+            resp.body?.errors ?? resp.body?.requests?.flatMap((r: any) => r.errors ?? []) ?? [];
+        if (resp.status >= 400 || errors.length > 0) {
+            const message = errors.map((e) => e.message ?? e.code).join('; ') || `HTTP ${resp.status}`;
+            throw new CarrierApiError(this.name, resp.status, message, resp.body);
+        }
+        return resp.body;
+    }
+}
@@ -0,0 +1,128 @@
+// backend/src/services/delivery/fakes/cdekFake.ts
+import { randomUUID } from 'crypto';
+import type { CarrierHttpRequest, CarrierHttpResponse } from '../http';
+import { FakeCarrierHttp, fakeTariffRub } from './fakeHttp';
+
+interface FakeCdekStatus {
+    code: string;
+    name: string;
+    date_time: string;
+    city?: string;
+}
+
+/** Fake API СДЭК v2: OAuth, калькулятор, ПВЗ, заказы, статусы */
+export class FakeCdekHttp extends FakeCarrierHttp {
+    orders = new Map<string, { number: string; cdekNumber: string; body: any; statuses: FakeCdekStatus[] }>();
+    private seq = 0;
+
+    /**
+     * Новый статус заказа: попадает в GET /orders/{uuid}, возвращается тело вебхука ORDER_STATUS.
+     * isReturn — статус возвратного заказа (в истории прямого заказа не появляется).
+     */
+    pushStatus(uuid: string, code: string, opts: { city?: string; at?: Date; isReturn?: boolean } = {}): any {
+        const ord = this.orders.get(uuid);
+        if (!ord) throw new Error(`Fake CDEK order ${uuid} not found`);
+        const status: FakeCdekStatus = {
+            code,
+            name: code,
+            date_time: (opts.at ?? new Date()).toISOString().replace('Z', '+0000'),
+            ...(opts.city ? { city: opts.city } : {}),
+        };
+        if (!opts.isReturn) ord.statuses.unshift(status);
+        return {
+            type: 'ORDER_STATUS',
+            date_time: status.date_time,
+            uuid: opts.isReturn ? randomUUID() : uuid,
+            attributes: {
+                is_return: !!opts.isReturn,
+                cdek_number: opts.isReturn ? String(2_000_000_000 + this.seq) : ord.cdekNumber,
+                number: ord.number,
+                code,
+                status_date_time: status.date_time,
+                ...(opts.city ? { city_name: opts.city } : {}),
+            },
+        };
+    }
+
+    protected handle(path: string, req: CarrierHttpRequest): CarrierHttpResponse {
+        if (path.endsWith('/oauth/token')) {
+            if (!req.form?.client_id || !req.form?.client_secret) {
+                return { status: 401, body: { error: 'invalid_client' } };
+            }
+            return this.ok({ access_token: 'fake-cdek-token', token_type: 'bearer', expires_in: 3600 });
+        }
+
+        if (!req.headers?.Authorization?.startsWith('Bearer ')) {
+            return { status: 401, body: { errors: [{ code: 'v2_token_expired', message: 'Unauthorized' }] } };
+        }
+
+        if (path.endsWith('/calculator/tariff')) {
+            const body = req.body as any;
+            const weight = Number(body.packages?.[0]?.weight ?? 0);
+            // Склад-дверь (137) дороже склад-склад (136) на курьерскую доставку
+            const door = body.tariff_code !== 136;
+            return this.ok({
+                total_sum: fakeTariffRub(weight, door ? 350 : 250, 60),
+                period_min: 2,
+                period_max: 4,
+                currency: 'RUB',
+            });
+        }
+
+        if (path.endsWith('/deliverypoints')) {
+            const city = String(req.query?.city_code ?? req.query?.postal_code ?? '44');
+            return this.ok([1, 2].map((n) => ({
+                code: `FAKE${city}${n}`,
+                name: `ПВЗ ${n}`,
+                type: 'PVZ',
+                work_time: 'Пн-Вс 10:00-21:00',
+                location: {
+                    city: 'Москва',
+                    postal_code: String(req.query?.postal_code ?? '101000'),
+                    address: `ул. Тестовая, ${n}`,
+                    address_full: `Москва, ул. Тестовая, ${n}`,
+                    latitude: 55.75 + n / 100,
+                    longitude: 37.61 + n / 100,
+                },
+            })));
+        }
+
+        if (path.endsWith('/orders') && req.method === 'POST') {
+            const body = req.body as any;
+            const duplicate = [...this.orders.values()].some((o) => o.number === body.number);
+            if (duplicate) {
+                return {
+                    status: 400,
+                    body: {
+                        requests: [{ type: 'CREATE', state: 'INVALID', errors: [{ code: 'v2_entity_duplicate', message: 'Order number already exists' }] }],
+                    },
+                };
+            }
+            const uuid = randomUUID();
+            this.orders.set(uuid, {
+                number: body.number,
+                cdekNumber: String(1_000_000_000 + ++this.seq),
+                body,
+                statuses: [{ code: 'CREATED', name: 'Создан', date_time: new Date().toISOString().replace('Z', '+0000') }],
+            });
+            return { status: 202, body: { entity: { uuid }, requests: [{ type: 'CREATE', state: 'ACCEPTED' }] } };
+        }
+
+        const orderMatch = path.match(/\/orders\/([^/]+)$/);
+        if (orderMatch && req.method === 'GET') {
+            const ord = this.orders.get(decodeURIComponent(orderMatch[1]!));
+            if (!ord) return { status: 404, body: { errors: [{ code: 'v2_entity_not_found', message: 'Order not found' }] } };
+            return this.ok({
+                entity: {
+                    uuid: orderMatch[1],
+                    number: ord.number,
+                    cdek_number: ord.cdekNumber,
+                    statuses: ord.statuses,
+                },
+                requests: [{ type: 'CREATE', state: 'SUCCESSFUL' }],
+            });
+        }
+
+        return this.notFound(path);
+    }
+}
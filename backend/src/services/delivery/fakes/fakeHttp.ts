@@ -0,0 +1,46 @@
+// backend/src/services/delivery/fakes/fakeHttp.ts
+import type { CarrierHttp, CarrierHttpRequest, CarrierHttpResponse } from '../http';
+
+/**
+ * Основа fake-транспортов перевозчиков: запоминает запросы и отвечает как API перевозчика
+ * (в памяти, без сети). Ответ на путь можно переопределить через respond().
+ */
+export abstract class FakeCarrierHttp implements CarrierHttp {
+    calls: CarrierHttpRequest[] = [];
+    private overrides = new Map<string, (req: CarrierHttpRequest) => CarrierHttpResponse>();
+
+    /** path — окончание pathname, например '/calculator/tariff' */
+    respond(path: string, fn: (req: CarrierHttpRequest) => CarrierHttpResponse): this {
+        this.overrides.set(path, fn);
+        return this;
+    }
+
+    last(path: string): CarrierHttpRequest | undefined {
+        return [...this.calls].reverse().find((c) => new URL(c.url).pathname.endsWith(path));
+    }
+
+    async request(req: CarrierHttpRequest): Promise<CarrierHttpResponse> {
+        this.calls.push(req);
+        const path = new URL(req.url).pathname;
+
+        for (const [suffix, fn] of this.overrides) {
+            if (path.endsWith(suffix)) return fn(req);
+        }
+        return this.handle(path, req);
+    }
+
+    protected abstract handle(path: string, req: CarrierHttpRequest): CarrierHttpResponse;
+
+    protected ok(body: unknown): CarrierHttpResponse {
+        return { status: 200, body };
+    }
+
+    protected notFound(path: string): CarrierHttpResponse {
+        return { status: 404, body: { message: `Unknown path ${path}` } };
+    }
+}
+
+/** Простая тарифная сетка fake-перевозчиков: база + за каждый начатый килограмм */
+export function fakeTariffRub(weightG: number, baseRub: number, perKgRub: number): number {
+    return baseRub + Math.ceil(Math.max(weightG, 1) / 1000) * perKgRub;
+}
@@ -0,0 +1,104 @@
+// backend/src/services/delivery/fakes/russianPostFake.ts
+import type { CarrierHttpRequest, CarrierHttpResponse } from '../http';
+import { FakeCarrierHttp, fakeTariffRub } from './fakeHttp';
+
+interface FakeOperation {
+    type: number;
+    attr: number;
+    name: string;
+    place: string;
+    at: Date;
+}
+
+/** Fake API Почты России (Отправка): тариф, отделения, backlog; SOAP-трекинг по ШПИ */
+export class FakeRussianPostHttp extends FakeCarrierHttp {
+    backlog = new Map<number, { orderNum: string; barcode: string; body: any }>();
+    history = new Map<string, FakeOperation[]>();
+    private seq = 0;
+
+    /** Операция в истории отправления (getOperationHistory) */
+    pushOperation(barcode: string, type: number, attr: number, opts: { name?: string; place?: string; at?: Date } = {}): void {
+        const list = this.history.get(barcode) ?? [];
+        list.push({ type, attr, name: opts.name ?? `${type}.${attr}`, place: opts.place ?? 'Москва 101000', at: opts.at ?? new Date() });
+        this.history.set(barcode, list);
+    }
+
+    protected handle(path: string, req: CarrierHttpRequest): CarrierHttpResponse {
+        if (path.endsWith('/rtm34')) return this.operationHistory(req.rawBody ?? '');
+
+        if (!req.headers?.Authorization?.startsWith('AccessToken ') || !req.headers?.['X-User-Authorization']) {
+            return { status: 401, body: { code: '1001', desc: 'Unauthorized' } };
+        }
+
+        if (path.endsWith('/1.0/tariff')) {
+            const body = req.body as any;
+            const rub = fakeTariffRub(Number(body.mass ?? 0), 200, 45);
+            return this.ok({
+                'total-rate': Math.round((rub / 1.2) * 100),
+                'total-vat': rub * 100 - Math.round((rub / 1.2) * 100),
+                'delivery-time': { 'min-days': 3, 'max-days': 7 },
+            });
+        }
+
+        if (path.endsWith('/postoffice/1.0/by-address')) {
+            return this.ok({ postoffices: ['101000', '101001'], 'is-matched': true });
+        }
+
+        const officeMatch = path.match(/\/postoffice\/1\.0\/(\d{6})$/);
+        if (officeMatch) {
+            const index = officeMatch[1];
+            return this.ok({
+                'postal-code': index,
+                'address-source': `Москва, Почтовая ул., ${index!.slice(-2)}`,
+                settlement: 'Москва',
+                latitude: '55.757',
+                longitude: '37.633',
+            });
+        }
+
+        if (path.endsWith('/1.0/user/backlog') && req.method === 'PUT') {
+            const items = req.body as any[];
+            const ids: number[] = [];
+            for (const item of items) {
+                const id = ++this.seq;
+                // ШПИ внутренних отправлений — 14 цифр
+                this.backlog.set(id, { orderNum: item['order-num'], barcode: `8010${String(id).padStart(10, '0')}`, body: item });
+                ids.push(id);
+            }
+            return this.ok({ 'result-ids': ids });
+        }
+
+        const backlogMatch = path.match(/\/1\.0\/backlog\/(\d+)$/);
+        if (backlogMatch) {
+            const item = this.backlog.get(Number(backlogMatch[1]));
+            if (!item) return { status: 404, body: { code: '1004', desc: 'Shipment not found' } };
+            return this.ok({ id: Number(backlogMatch[1]), 'order-num': item.orderNum, barcode: item.barcode });
+        }
+
+        return this.notFound(path);
+    }
+
+    private operationHistory(envelope: string): CarrierHttpResponse {
+        const barcode = envelope.match(/<data:Barcode>([^<]*)<\/data:Barcode>/)?.[1] ?? '';
+        if (!/<data:login>[^<]+<\/data:login>/.test(envelope)) {
+            return {
+                status: 500,
+                body: '<S:Envelope xmlns:S="http://www.w3.org/2003/05/soap-envelope"><S:Body><S:Fault><S:Reason><S:Text>Authorization error</S:Text></S:Reason></S:Fault></S:Body></S:Envelope>',
+            };
+        }
+
+        const records = (this.history.get(barcode) ?? [])
+            .map(
+                (op) =>
+                    `<ns3:historyRecord><ns3:AddressParameters><ns3:OperationAddress><ns3:Description>${op.place}</ns3:Description></ns3:OperationAddress></ns3:AddressParameters>` +
+                    `<ns3:OperationParameters><ns3:OperType><ns3:Id>${op.type}</ns3:Id><ns3:Name>${op.name}</ns3:Name></ns3:OperType>` +
+                    `<ns3:OperAttr><ns3:Id>${op.attr}</ns3:Id><ns3:Name>${op.name}</ns3:Name></ns3:OperAttr>` +
+                    `<ns3:OperDate>${op.at.toISOString()}</ns3:OperDate></ns3:OperationParameters></ns3:historyRecord>`
+            )
+            .join('');
+        return {
+            status: 200,
+            body: `<S:Envelope xmlns:S="http://www.w3.org/2003/05/soap-envelope"><S:Body><ns7:getOperationHistoryResponse xmlns:ns3="http://russianpost.org/operationhistory/data" xmlns:ns7="http://russianpost.org/operationhistory"><ns3:OperationHistoryData>${records}</ns3:OperationHistoryData></ns7:getOperationHistoryResponse></S:Body></S:Envelope>`,
+        };
+    }
+}
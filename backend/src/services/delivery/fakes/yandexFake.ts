@@ -0,0 +1,84 @@
+// backend/src/services/delivery/fakes/yandexFake.ts
+import { randomUUID } from 'crypto';
+import type { CarrierHttpRequest, CarrierHttpResponse } from '../http';
+import { FakeCarrierHttp, fakeTariffRub } from './fakeHttp';
+
+/** Fake API Яндекс Доставки (b2b platform): калькулятор, ПВЗ, офферы, заявки */
+export class FakeYandexDeliveryHttp extends FakeCarrierHttp {
+    offers = new Map<string, any>();
+    requests = new Map<string, { operatorRequestId: string; offer: any; history: Array<{ status: string; description: string; timestamp_utc: string }> }>();
+
+    /** Новый статус заявки в /request/history и /request/info */
+    pushStatus(requestId: string, status: string, at = new Date()): void {
+        const request = this.requests.get(requestId);
+        if (!request) throw new Error(`Fake Yandex request ${requestId} not found`);
+        request.history.push({ status, description: status, timestamp_utc: at.toISOString() });
+    }
+
+    protected handle(path: string, req: CarrierHttpRequest): CarrierHttpResponse {
+        if (!req.headers?.Authorization?.startsWith('Bearer ')) {
+            return { status: 401, body: { code: 'unauthorized', message: 'Not authorized request' } };
+        }
+        const body = req.body as any;
+
+        if (path.endsWith('/pricing-calculator')) {
+            const rub = fakeTariffRub(Number(body.total_weight ?? 0), body.tariff === 'self_pickup' ? 180 : 320, 50);
+            return this.ok({ pricing_total: `${rub} RUB`, delivery_days: 2 });
+        }
+
+        if (path.endsWith('/location/detect')) {
+            return this.ok({ variants: [{ geo_id: 213, address: body.location }] });
+        }
+
+        if (path.endsWith('/pickup-points/list')) {
+            return this.ok({
+                points: [1, 2].map((n) => ({
+                    id: `fake-station-${n}`,
+                    name: `Пункт выдачи ${n}`,
+                    type: 'pickup_point',
+                    address: { full_address: `Москва, Тверская ул., ${n}`, locality: 'Москва', postal_code: '125009' },
+                    position: { latitude: 55.76 + n / 100, longitude: 37.6 + n / 100 },
+                })),
+            });
+        }
+
+        if (path.endsWith('/offers/create')) {
+            const offerId = randomUUID();
+            this.offers.set(offerId, body);
+            return this.ok({
+                offers: [{ offer_id: offerId, expires_at: new Date(Date.now() + 600_000).toISOString(), offer_details: { pricing_total: '300 RUB' } }],
+            });
+        }
+
+        if (path.endsWith('/offers/confirm')) {
+            const offer = this.offers.get(body.offer_id);
+            if (!offer) return { status: 404, body: { code: 'offer_not_found', message: 'Offer not found' } };
+            const requestId = randomUUID();
+            this.requests.set(requestId, {
+                operatorRequestId: offer.info?.operator_request_id,
+                offer,
+                history: [{ status: 'CREATED', description: 'Заявка создана', timestamp_utc: new Date().toISOString() }],
+            });
+            return this.ok({ request_id: requestId });
+        }
+
+        if (path.endsWith('/request/info')) {
+            const id = String(req.query?.request_id ?? '');
+            const request = this.requests.get(id);
+            if (!request) return { status: 404, body: { code: 'not_found', message: 'Request not found' } };
+            return this.ok({
+                request_id: id,
+                state: { status: request.history[request.history.length - 1]!.status },
+                request: { info: { operator_request_id: request.operatorRequestId } },
+            });
+        }
+
+        if (path.endsWith('/request/history')) {
+            const request = this.requests.get(String(req.query?.request_id ?? ''));
+            if (!request) return { status: 404, body: { code: 'not_found', message: 'Request not found' } };
+            return this.ok({ state_history: request.history });
+        }
+
+        return this.notFound(path);
+    }
+}
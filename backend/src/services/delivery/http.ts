@@ -0,0 +1,82 @@
+// backend/src/services/delivery/http.ts
+
+/**
+ * HTTP-транспорт к API перевозчиков.
+ * Адаптеры собирают запрос целиком (URL, заголовки, тело), транспорт только отправляет —
+ * поэтому в тестах и dev его заменяет fake, который отвечает как API перевозчика.
+ */
+
+export interface CarrierHttpRequest {
+    method: 'GET' | 'POST' | 'PUT';
+    url: string;
+    headers?: Record<string, string>;
+    query?: Record<string, string | number | undefined>;
+    /** JSON-тело */
+    body?: unknown;
+    /** application/x-www-form-urlencoded (OAuth СДЭК) */
+    form?: Record<string, string>;
+    /** Готовое тело как есть, Content-Type задаёт адаптер (SOAP трекинга Почты России) */
+    rawBody?: string;
+}
+
+export interface CarrierHttpResponse {
+    status: number;
+    body: any;
+}
+
+export interface CarrierHttp {
+    request(req: CarrierHttpRequest): Promise<CarrierHttpResponse>;
+}
+
+export class CarrierApiError extends Error {
+    constructor(
+        public carrier: string,
+        public status: number,
+        message: string,
+        public body?: unknown
+    ) {
+        super(`${carrier}: ${message}`);
+        this.name = 'CarrierApiError';
+    }
+}
+
+export function buildUrl(url: string, query?: CarrierHttpRequest['query']): string {
+    if (!query) return url;
+    const params = new URLSearchParams();
+    for (const [k, v] of Object.entries(query)) {
+        if (v !== undefined) params.set(k, String(v));
+    }
+    const qs = params.toString();
+    return qs ? `${url}?${qs}` : url;
+}
+
+export const fetchCarrierHttp: CarrierHttp = {
+    async request(req) {
+        const headers: Record<string, string> = { Accept: 'application/json', ...req.headers };
+        let body: string | undefined;
+        if (req.rawBody !== undefined) {
+            body = req.rawBody;
+        } else if (req.form) {
+            headers['Content-Type'] = 'application/x-www-form-urlencoded';
+            body = new URLSearchParams(req.form).toString();
+        } else if (req.body !== undefined) {
+            headers['Content-Type'] ??= 'application/json';
+            body = JSON.stringify(req.body);
+        }
+
+        const resp = await fetch(buildUrl(req.url, req.query), {
+            method: req.method,
+            headers,
+            ...(body !== undefined ? { body } : {}),
+            signal: AbortSignal.timeout(15_000),
+        });
+        const text = await resp.text();
+        let parsed: unknown = null;
+        try {
+            parsed = text ? JSON.parse(text) : null;
+        } catch {
+            parsed = text;
+        }
+        return { status: resp.status, body: parsed };
+    },
+};
@@ -0,0 +1,111 @@
+// backend/src/services/delivery/index.ts
+import { fetchCarrierHttp, type CarrierHttp } from './http';
+import { CdekAdapter } from './cdek';
+import { RussianPostAdapter } from './russianPost';
+import { YandexDeliveryAdapter } from './yandex';
+import { FakeCdekHttp } from './fakes/cdekFake';
+import { FakeRussianPostHttp } from './fakes/russianPostFake';
+import { FakeYandexDeliveryHttp } from './fakes/yandexFake';
+import type { CarrierAdapter, CarrierName } from './types';
+
+export type {
+    CarrierAdapter,
+    CarrierName,
+    CreateShipmentRequest,
+    DeliveryDestination,
+    DeliveryStatus,
+    Parcel,
+    ParcelItem,
+    PickupPoint,
+    PickupPointQuery,
+    ShipmentInfo,
+    TariffQuote,
+    TrackingEvent,
+    TrackingUpdate,
+} from './types';
+export { CarrierApiError, fetchCarrierHttp, type CarrierHttp } from './http';
+export { CdekAdapter, RussianPostAdapter, YandexDeliveryAdapter };
+export { FakeCdekHttp, FakeRussianPostHttp, FakeYandexDeliveryHttp };
+export { buildParcel, loadOrderParcel, parcelDefaults } from './parcel';
+
+/**
+ * Реестр перевозчиков по order.deliveryService.
+ * Перевозчик без ключей API не регистрируется — для него остаётся базовая цена доставки
+ * и отправление не создаётся.
+ *
+ * ENV:
+ *   DELIVERY_FAKE_HTTP — true | false: fake API перевозчиков в памяти (по умолчанию включён вне production)
+ */
+export class CarrierRegistry {
+    private adapters = new Map<CarrierName, CarrierAdapter>();
+
+    constructor(adapters: CarrierAdapter[]) {
+        for (const a of adapters) this.adapters.set(a.name, a);
+    }
+
+    has(name: string): name is CarrierName {
+        return this.adapters.has(name as CarrierName);
+    }
+
+    get(name: string): CarrierAdapter {
+        const a = this.adapters.get(name as CarrierName);
+        if (!a) throw new Error(`Carrier "${name}" is not available`);
+        return a;
+    }
+
+    names(): CarrierName[] {
+        return [...this.adapters.keys()];
+    }
+}
+
+export const deliveryFakeHttpEnabled =
+    process.env.DELIVERY_FAKE_HTTP !== undefined
+        ? process.env.DELIVERY_FAKE_HTTP === 'true'
+        : process.env.NODE_ENV !== 'production';
+
+const transport = (fake: () => CarrierHttp): CarrierHttp => (deliveryFakeHttpEnabled ? fake() : fetchCarrierHttp);
+const configured = (...keys: Array<string | undefined>) => deliveryFakeHttpEnabled || keys.every(Boolean);
+
+const env = process.env;
+
+export const carriers = new CarrierRegistry(
+    [
+        configured(env.CDEK_API_ACCOUNT, env.CDEK_API_SECRET) &&
+            new CdekAdapter(
+                {
+                    baseUrl: env.CDEK_API_URL || 'https://api.cdek.ru/v2',
+                    account: env.CDEK_API_ACCOUNT || 'fake',
+                    secret: env.CDEK_API_SECRET || 'fake',
+                    fromCityCode: Number(env.CDEK_FROM_CITY_CODE || 44),
+                    ...(env.CDEK_SHIPMENT_POINT ? { shipmentPoint: env.CDEK_SHIPMENT_POINT } : {}),
+                    doorTariff: Number(env.CDEK_TARIFF_DOOR || 137),
+                    pickupTariff: Number(env.CDEK_TARIFF_PICKUP || 136),
+                },
+                transport(() => new FakeCdekHttp())
+            ),
+        configured(env.RUSSIANPOST_API_KEY, env.RUSSIANPOST_USER_KEY) &&
+            new RussianPostAdapter(
+                {
+                    baseUrl: env.RUSSIANPOST_API_URL || 'https://otpravka-api.pochta.ru',
+                    accessToken: env.RUSSIANPOST_API_KEY || 'fake',
+                    userKey: env.RUSSIANPOST_USER_KEY || 'fake',
+                    fromPostalCode: env.RUSSIANPOST_FROM_POSTAL_CODE || '101000',
+                    mailType: env.RUSSIANPOST_MAIL_TYPE || 'POSTAL_PARCEL',
+                    mailCategory: env.RUSSIANPOST_MAIL_CATEGORY || 'ORDINARY',
+                    trackingUrl: env.RUSSIANPOST_TRACKING_URL || 'https://tracking.russianpost.ru/rtm34',
+                    trackingLogin: env.RUSSIANPOST_TRACKING_LOGIN || 'fake',
+                    trackingPassword: env.RUSSIANPOST_TRACKING_PASSWORD || 'fake',
+                },
+                transport(() => new FakeRussianPostHttp())
+            ),
+        configured(env.YANDEX_DELIVERY_API_KEY, env.YANDEX_DELIVERY_SOURCE_STATION_ID) &&
+            new YandexDeliveryAdapter(
+                {
+                    baseUrl: env.YANDEX_DELIVERY_API_URL || 'https://b2b-authproxy.taxi.yandex.net/api/b2b/platform',
+                    token: env.YANDEX_DELIVERY_API_KEY || 'fake',
+                    sourceStationId: env.YANDEX_DELIVERY_SOURCE_STATION_ID || 'fake-warehouse',
+                },
+                transport(() => new FakeYandexDeliveryHttp())
+            ),
+    ].filter((a): a is CdekAdapter | RussianPostAdapter | YandexDeliveryAdapter => !!a)
+);
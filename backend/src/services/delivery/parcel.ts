@@ -0,0 +1,113 @@
+// backend/src/services/delivery/parcel.ts
+import { eq, inArray, sql } from 'drizzle-orm';
+import { db } from '#db/db';
+import { orderItem } from '#db/schema/orderItem';
+import { product } from '#db/schema/products';
+import { productBundlesStorage } from '#storage/productBundlesStorage';
+import type { Parcel, ParcelItem } from './types';
+
+/**
+ * Грузоместо заказа из веса / габаритов товаров.
+ * Товары без заполненных размеров считаются по DELIVERY_DEFAULT_* (г / см).
+ * Коробка: длина и ширина — по самому большому товару, высота — сумма высот всех единиц.
+ */
+
+export const parcelDefaults = {
+    weightG: Number(process.env.DELIVERY_DEFAULT_WEIGHT_G || 500),
+    lengthCm: Number(process.env.DELIVERY_DEFAULT_LENGTH_CM || 20),
+    widthCm: Number(process.env.DELIVERY_DEFAULT_WIDTH_CM || 15),
+    heightCm: Number(process.env.DELIVERY_DEFAULT_HEIGHT_CM || 10),
+    /** Вес упаковки заказа сверх товаров */
+    packagingG: Number(process.env.DELIVERY_PACKAGING_WEIGHT_G || 100),
+};
+
+export interface ParcelLine {
+    qty: number;
+    unitPriceRub: number;
+    weightG?: number | null;
+    lengthCm?: number | null;
+    widthCm?: number | null;
+    heightCm?: number | null;
+}
+
+export function buildParcel(lines: ParcelLine[], defaults = parcelDefaults): Parcel {
+    let weightG = defaults.packagingG;
+    let lengthCm = 0;
+    let widthCm = 0;
+    let heightCm = 0;
+    let declaredValueRub = 0;
+
+    for (const line of lines) {
+        // Размеры кладём «длинной стороной вдоль»: L ≥ W ≥ H
+        const [l, w, h] = [
+            line.lengthCm ?? defaults.lengthCm,
+            line.widthCm ?? defaults.widthCm,
+            line.heightCm ?? defaults.heightCm,
+        ].sort((a, b) => b - a) as [number, number, number];
+
+        weightG += (line.weightG ?? defaults.weightG) * line.qty;
+        lengthCm = Math.max(lengthCm, l);
+        widthCm = Math.max(widthCm, w);
+        heightCm += h * line.qty;
+        declaredValueRub += line.unitPriceRub * line.qty;
+    }
+
+    return {
+        weightG,
+        lengthCm: lengthCm || defaults.lengthCm,
+        widthCm: widthCm || defaults.widthCm,
+        heightCm: heightCm || defaults.heightCm,
+        declaredValueRub: Math.round(declaredValueRub * 100) / 100,
+    };
+}
+
+/** Грузоместо и опись по позициям заказа; набор — компонентами (вес и цена по раскладке) */
+export async function loadOrderParcel(orderId: string): Promise<{ parcel: Parcel; items: ParcelItem[] }> {
+    const itemRows = await db
+        .select({
+            id: orderItem.id,
+            // Вариант — в названии позиции описи
+            name: sql<string>`concat_ws(', ', ${orderItem.productName}, ${orderItem.variantName})`,
+            sku: orderItem.sku,
+            qty: orderItem.qty,
+            unitPriceRub: orderItem.unitPriceRub,
+            weightG: product.weightG,
+            lengthCm: product.lengthCm,
+            widthCm: product.widthCm,
+            heightCm: product.heightCm,
+        })
+        .from(orderItem)
+        .innerJoin(product, eq(product.id, orderItem.productId))
+        .where(eq(orderItem.orderId, orderId));
+
+    const components = await productBundlesStorage.componentsByOrderItems(itemRows.map((r) => r.id));
+    const componentIds = [...new Set([...components.values()].flat().map((c) => c.productId))];
+    const dims = new Map(
+        componentIds.length
+            ? (
+                  await db
+                      .select({ id: product.id, weightG: product.weightG, lengthCm: product.lengthCm, widthCm: product.widthCm, heightCm: product.heightCm })
+                      .from(product)
+                      .where(inArray(product.id, componentIds))
+              ).map(({ id, ...d }) => [id, d])
+            : []
+    );
+
+    const rows = itemRows.flatMap((r) => {
+        const comps = components.get(r.id);
+        if (!comps) return [r];
+        return comps.map((c) => ({
+            name: [c.productName, c.variantName].filter(Boolean).join(', '),
+            sku: c.sku,
+            qty: r.qty * c.qty,
+            // Цена единицы компонента — его доля в цене набора
+            unitPriceRub: String(Math.round((Number(c.amountRub) / c.qty) * 100) / 100),
+            ...(dims.get(c.productId) ?? { weightG: null, lengthCm: null, widthCm: null, heightCm: null }),
+        }));
+    });
+
+    return {
+        parcel: buildParcel(rows.map((r) => ({ ...r, unitPriceRub: Number(r.unitPriceRub) }))),
+        items: rows.map((r) => ({ name: r.name, sku: r.sku, quantity: r.qty, priceRub: Number(r.unitPriceRub) })),
+    };
+}
@@ -0,0 +1,259 @@
+// backend/src/services/delivery/russianPost.ts
+import { CarrierApiError, type CarrierHttp, type CarrierHttpRequest } from './http';
+import type {
+    CarrierAdapter,
+    CreateShipmentRequest,
+    DeliveryDestination,
+    DeliveryStatus,
+    Parcel,
+    PickupPoint,
+    PickupPointQuery,
+    ShipmentInfo,
+    TariffQuote,
+    TrackingEvent,
+} from './types';
+
+/**
+ * Почта России, API Отправка (https://otpravka-api.pochta.ru).
+ * Авторизация: Authorization: AccessToken <token> + X-User-Authorization: Basic <base64(login:password)>.
+ *
+ *   POST /1.0/tariff                 — стоимость (копейки) и сроки
+ *   GET  /postoffice/1.0/{index}     — отделение по индексу
+ *   GET  /postoffice/1.0/by-address  — индексы отделений по адресу / городу
+ *   PUT  /1.0/user/backlog           — создание отправления; ШПИ (трек-номер) сразу в GET /1.0/backlog/{id}
+ *
+ * Трекинг — отдельный SOAP-сервис (https://tracking.russianpost.ru/rtm34, getOperationHistory)
+ * со своими логином и паролем; вебхуков нет, только опрос.
+ */
+
+export interface RussianPostConfig {
+    baseUrl: string;
+    accessToken: string;
+    /** base64(login:password) личного кабинета */
+    userKey: string;
+    /** Индекс места приёма (наше отделение) */
+    fromPostalCode: string;
+    mailType: string;
+    mailCategory: string;
+    trackingUrl: string;
+    trackingLogin: string;
+    trackingPassword: string;
+}
+
+/**
+ * Операции трекинга: «тип» или «тип.атрибут».
+ * 2 — вручение (2.2 — отправителю, т.е. возврат дошёл до нас), 5 — невручение (5.1 утрачено, 5.2 изъято),
+ * 16 — уничтожение; остальное — посылка в пути (приём, обработка, досылка, возврат, таможня).
+ */
+const RP_STATUS: Record<string, DeliveryStatus | null> = {
+    '1': 'in_transit',
+    '2': 'delivered',
+    '2.2': 'returned',
+    '3': 'in_transit',
+    '4': 'in_transit',
+    '5': null,
+    '5.1': 'lost',
+    '5.2': 'lost',
+    '6': 'in_transit',
+    '8': 'in_transit',
+    '9': 'in_transit',
+    '12': 'in_transit',
+    '13': 'in_transit',
+    '14': 'in_transit',
+    '16': 'lost',
+};
+
+function xmlEscape(value: string): string {
+    return value.replace(/[<>&'"]/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+/** Текст первого элемента с таким локальным именем (префиксы пространств имён игнорируются) */
+function xmlText(xml: string, tag: string): string | undefined {
+    const m = xml.match(new RegExp(`<(?:\\w+:)?${tag}>([\\s\\S]*?)</(?:\\w+:)?${tag}>`));
+    return m?.[1]?.trim();
+}
+
+export class RussianPostAdapter implements CarrierAdapter {
+    readonly name = 'russianpost' as const;
+
+    constructor(private config: RussianPostConfig, private http: CarrierHttp) {}
+
+    async calculate(parcel: Parcel, destination: DeliveryDestination): Promise<TariffQuote> {
+        const indexTo = destination.pickupPointCode ?? destination.postalCode;
+        if (!indexTo) throw new CarrierApiError(this.name, 400, 'Postal code is required');
+
+        const body = await this.call({
+            method: 'POST',
+            url: '/1.0/tariff',
+            body: {
+                'index-from': this.config.fromPostalCode,
+                'index-to': indexTo,
+                'mail-category': this.config.mailCategory,
+                'mail-type': this.config.mailType,
+                mass: parcel.weightG,
+                dimension: { length: parcel.lengthCm, width: parcel.widthCm, height: parcel.heightCm },
+                fragile: false,
+            },
+        });
+
+        const kopecks = Number(body['total-rate'] ?? 0) + Number(body['total-vat'] ?? 0);
+        const time = body['delivery-time'] ?? {};
+        return {
+            carrier: this.name,
+            tariffCode: `${this.config.mailType}:${this.config.mailCategory}`,
+            priceRub: kopecks / 100,
+            // Посылку получают в отделении, если не заказана доставка до двери
+            mode: 'pickup',
+            ...(time['min-days'] != null ? { minDays: Number(time['min-days']) } : {}),
+            ...(time['max-days'] != null ? { maxDays: Number(time['max-days']) } : {}),
+        };
+    }
+
+    async findPickupPoints(query: PickupPointQuery): Promise<PickupPoint[]> {
+        let indexes: string[] = [];
+        if (query.postalCode) {
+            indexes = [query.postalCode];
+        } else if (query.city) {
+            const body = await this.call({
+                method: 'GET',
+                url: '/postoffice/1.0/by-address',
+                query: { address: query.city },
+            });
+            indexes = (body.postoffices ?? []).map(String);
+        }
+
+        const points: PickupPoint[] = [];
+        for (const index of indexes.slice(0, query.limit ?? 20)) {
+            const office = await this.call({ method: 'GET', url: `/postoffice/1.0/${encodeURIComponent(index)}` });
+            points.push({
+                carrier: this.name,
+                code: String(office['postal-code'] ?? index),
+                name: `Отделение ${office['postal-code'] ?? index}`,
+                address: office['address-source'] ?? '',
+                postalCode: String(office['postal-code'] ?? index),
+                ...(office.settlement ? { city: office.settlement } : {}),
+                ...(office.latitude != null ? { latitude: Number(office.latitude) } : {}),
+                ...(office.longitude != null ? { longitude: Number(office.longitude) } : {}),
+            });
+        }
+        return points;
+    }
+
+    async createShipment(req: CreateShipmentRequest): Promise<ShipmentInfo> {
+        const indexTo = req.destination.pickupPointCode ?? req.destination.postalCode;
+        if (!indexTo) throw new CarrierApiError(this.name, 400, 'Postal code is required');
+
+        const [givenName, ...rest] = req.recipient.name.trim().split(/\s+/);
+        const body = await this.call({
+            method: 'PUT',
+            url: '/1.0/user/backlog',
+            body: [
+                {
+                    'order-num': req.orderId,
+                    'postoffice-code': this.config.fromPostalCode,
+                    'mail-type': this.config.mailType,
+                    'mail-category': this.config.mailCategory,
+                    'mail-direct': 643,
+                    mass: req.parcel.weightG,
+                    dimension: {
+                        length: req.parcel.lengthCm,
+                        width: req.parcel.widthCm,
+                        height: req.parcel.heightCm,
+                    },
+                    'insr-value': Math.round(req.parcel.declaredValueRub * 100),
+                    'given-name': givenName || req.recipient.name,
+                    surname: rest.join(' ') || '-',
+                    'recipient-name': req.recipient.name,
+                    'tel-address': Number(req.recipient.phone.replace(/\D/g, '')),
+                    'address-type-to': 'DEFAULT',
+                    'index-to': Number(indexTo),
+                    'place-to': req.destination.city ?? '',
+                    'region-to': req.destination.city ?? '',
+                    'street-to': req.address ?? '',
+                },
+            ],
+        });
+
+        const id = body['result-ids']?.[0];
+        if (id == null) {
+            const errors = (body.errors ?? []).flatMap((e: any) => e['error-codes'] ?? []);
+            const message = errors.map((e: any) => e.description ?? e.code).join('; ') || 'Shipment was not created';
+            throw new CarrierApiError(this.name, 200, message, body);
+        }
+        return this.getShipment(String(id));
+    }
+
+    async getShipment(externalId: string): Promise<ShipmentInfo> {
+        const body = await this.call({ method: 'GET', url: `/1.0/backlog/${encodeURIComponent(externalId)}` });
+        return {
+            externalId,
+            trackingCode: body.barcode ? String(body.barcode) : null,
+            // Отправление в «новых» ЛК, пока не собрано в партию
+            status: body['batch-name'] ? 'IN_BATCH' : 'BACKLOG',
+        };
+    }
+
+    async getTracking(shipment: { trackingCode: string | null }): Promise<TrackingEvent[]> {
+        if (!shipment.trackingCode) return [];
+        const resp = await this.http.request({
+            method: 'POST',
+            url: this.config.trackingUrl,
+            headers: { 'Content-Type': 'application/soap+xml;charset=UTF-8' },
+            rawBody: `<soap:Envelope xmlns:soap="http://www.w3.org/2003/05/soap-envelope" xmlns:oper="http://russianpost.org/operationhistory" xmlns:data="http://russianpost.org/operationhistory/data" xmlns:soapenv="http://schemas.xmlsoap.org/soap/envelope/">
+<soap:Header/>
+<soap:Body>
+<oper:getOperationHistory>
+<data:OperationHistoryRequest><data:Barcode>${xmlEscape(shipment.trackingCode)}</data:Barcode><data:MessageType>0</data:MessageType><data:Language>RUS</data:Language></data:OperationHistoryRequest>
+<data:AuthorizationHeader soapenv:mustUnderstand="1"><data:login>${xmlEscape(this.config.trackingLogin)}</data:login><data:password>${xmlEscape(this.config.trackingPassword)}</data:password></data:AuthorizationHeader>
+</oper:getOperationHistory>
+</soap:Body>
+</soap:Envelope>`,
+        });
+
+        const xml = typeof resp.body === 'string' ? resp.body : '';
+        if (resp.status >= 400 || /<(?:\w+:)?Fault>/.test(xml)) {
+            throw new CarrierApiError(this.name, resp.status, xmlText(xml, 'Text') ?? xmlText(xml, 'faultstring') ?? `HTTP ${resp.status}`, xml);
+        }
+
+        return (xml.match(/<(?:\w+:)?historyRecord>[\s\S]*?<\/(?:\w+:)?historyRecord>/g) ?? []).map((record) => {
+            const operType = xmlText(record, 'OperType') ?? '';
+            const operAttr = xmlText(record, 'OperAttr') ?? '';
+            const type = xmlText(operType, 'Id') ?? '';
+            const attr = xmlText(operAttr, 'Id');
+            const name = xmlText(operAttr, 'Name') ?? xmlText(operType, 'Name');
+            const place = xmlText(xmlText(record, 'OperationAddress') ?? '', 'Description');
+            const date = new Date(xmlText(record, 'OperDate') ?? '');
+            return {
+                providerStatus: attr ? `${type}.${attr}` : type,
+                ...(name ? { description: name } : {}),
+                ...(place ? { location: place } : {}),
+                occurredAt: Number.isNaN(date.getTime()) ? new Date() : date,
+            };
+        });
+    }
+
+    mapStatus(providerStatus: string): DeliveryStatus | null {
+        if (providerStatus in RP_STATUS) return RP_STATUS[providerStatus]!;
+        const type = providerStatus.split('.')[0]!;
+        return RP_STATUS[type] ?? null;
+    }
+
+    private async call(req: CarrierHttpRequest): Promise<any> {
+        const resp = await this.http.request({
+            ...req,
+            url: `${this.config.baseUrl}${req.url}`,
+            headers: {
+                Authorization: `AccessToken ${this.config.accessToken}`,
+                'X-User-Authorization': `Basic ${this.config.userKey}`,
+                'Content-Type': 'application/json;charset=UTF-8',
+                ...req.headers,
+            },
+        });
+
+        if (resp.status >= 400) {
+            const message = resp.body?.desc ?? resp.body?.message ?? `HTTP ${resp.status}`;
+            throw new CarrierApiError(this.name, resp.status, message, resp.body);
+        }
+        return resp.body ?? {};
+    }
+}
@@ -0,0 +1,108 @@
+// backend/src/services/delivery/types.ts
+import type { DeliveryDestination } from '#db/schema/orders';
+import type { deliveryStatusEnum } from '#db/schema/enums';
+
+/**
+ * Контракт перевозчика: тариф / ПВЗ / создание отправления / статус.
+ * Имя совпадает со значением order.deliveryService (delivery_service enum).
+ */
+
+export type CarrierName = 'sdek' | 'russianpost' | 'yandex';
+
+export type { DeliveryDestination };
+
+export type DeliveryStatus = (typeof deliveryStatusEnum.enumValues)[number];
+
+/** Грузоместо: суммарный вес и габариты коробки */
+export interface Parcel {
+    weightG: number;
+    lengthCm: number;
+    widthCm: number;
+    heightCm: number;
+    /** Объявленная ценность (страховка) */
+    declaredValueRub: number;
+}
+
+export interface ParcelItem {
+    name: string;
+    sku?: string | null;
+    quantity: number;
+    priceRub: number;
+}
+
+export interface TariffQuote {
+    carrier: CarrierName;
+    tariffCode: string;
+    priceRub: number;
+    /** door — курьером по адресу, pickup — в ПВЗ / отделение / постамат */
+    mode: 'door' | 'pickup';
+    minDays?: number;
+    maxDays?: number;
+}
+
+export interface PickupPointQuery {
+    city?: string | undefined;
+    postalCode?: string | undefined;
+    cityCode?: number | undefined;
+    limit?: number | undefined;
+}
+
+export interface PickupPoint {
+    carrier: CarrierName;
+    code: string;
+    name: string;
+    address: string;
+    city?: string;
+    postalCode?: string;
+    latitude?: number;
+    longitude?: number;
+    workTime?: string;
+}
+
+export interface CreateShipmentRequest {
+    orderId: string;
+    parcel: Parcel;
+    items: ParcelItem[];
+    destination: DeliveryDestination;
+    /** Адрес доставки одной строкой (order.deliveryAddress) */
+    address?: string | null;
+    recipient: { name: string; phone: string; email?: string | null };
+}
+
+export interface ShipmentInfo {
+    externalId: string;
+    /** Трек-номер; у СДЭК появляется после асинхронной регистрации заказа */
+    trackingCode: string | null;
+    status: string;
+}
+
+/** Событие трекинга в терминах перевозчика */
+export interface TrackingEvent {
+    /** Код статуса у перевозчика (СДЭК: DELIVERED, Почта: «2.1» — тип.атрибут операции) */
+    providerStatus: string;
+    description?: string;
+    location?: string;
+    occurredAt: Date;
+}
+
+/** Событие из вебхука: по какому отправлению — решает то поле, что прислал перевозчик */
+export interface TrackingUpdate extends TrackingEvent {
+    externalId?: string;
+    trackingCode?: string;
+    /** Наш номер заказа, переданный перевозчику при создании (order.id) */
+    orderNumber?: string;
+}
+
+export interface CarrierAdapter {
+    readonly name: CarrierName;
+    calculate(parcel: Parcel, destination: DeliveryDestination, address?: string | null): Promise<TariffQuote>;
+    findPickupPoints(query: PickupPointQuery): Promise<PickupPoint[]>;
+    createShipment(req: CreateShipmentRequest): Promise<ShipmentInfo>;
+    getShipment(externalId: string): Promise<ShipmentInfo>;
+    /** История статусов отправления, от старых к новым */
+    getTracking(shipment: { externalId: string; trackingCode: string | null }): Promise<TrackingEvent[]>;
+    /** Статус перевозчика → delivery_status; null — событие не меняет статус доставки */
+    mapStatus(providerStatus: string): DeliveryStatus | null;
+    /** Разбор вебхука; у перевозчиков без вебхуков не реализован — только опрос */
+    parseWebhook?(body: unknown): TrackingUpdate[];
+}
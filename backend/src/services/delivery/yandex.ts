@@ -0,0 +1,207 @@
+// backend/src/services/delivery/yandex.ts
+import { CarrierApiError, type CarrierHttp, type CarrierHttpRequest } from './http';
+import type {
+    CarrierAdapter,
+    CreateShipmentRequest,
+    DeliveryDestination,
+    DeliveryStatus,
+    Parcel,
+    PickupPoint,
+    PickupPointQuery,
+    ShipmentInfo,
+    TariffQuote,
+    TrackingEvent,
+} from './types';
+
+/**
+ * Яндекс Доставка, «Доставка в другой день» (https://b2b-authproxy.taxi.yandex.net/api/b2b/platform).
+ * Авторизация: Authorization: Bearer <OAuth-токен>.
+ *
+ *   POST /pricing-calculator        — стоимость до адреса (time_interval) или до ПВЗ (self_pickup)
+ *   POST /location/detect           — geo_id города
+ *   POST /pickup-points/list        — ПВЗ и постаматы по geo_id
+ *   POST /offers/create + /confirm  — заявка; request_id служит трек-номером
+ *   GET  /request/info              — статус заявки
+ *   GET  /request/history           — история статусов заявки (опрос, вебхуков нет)
+ */
+
+/** Заявка ещё на складе отправителя / ждёт отгрузки */
+const YANDEX_PENDING = new Set(['CREATED', 'VALIDATING', 'DELIVERY_PROCESSING_STARTED', 'DELIVERY_TRACK_RECIEVED', 'SORTING_CENTER_PROCESSING_STARTED', 'SORTING_CENTER_TRACK_RECEIVED']);
+/** Служебные и конечные статусы без смены статуса доставки */
+const YANDEX_IGNORED = new Set(['VALIDATING_ERROR', 'CANCELLED', 'CANCELLED_USER', 'CANCELLED_BY_RECIPIENT', 'FINISHED']);
+
+export interface YandexDeliveryConfig {
+    baseUrl: string;
+    token: string;
+    /** Склад отправителя (platform_station_id) */
+    sourceStationId: string;
+}
+
+/** "350.5 RUB" → 350.5 */
+function parseMoney(value: unknown): number {
+    const n = parseFloat(String(value ?? '').replace(',', '.'));
+    return Number.isFinite(n) ? n : 0;
+}
+
+export class YandexDeliveryAdapter implements CarrierAdapter {
+    readonly name = 'yandex' as const;
+
+    constructor(private config: YandexDeliveryConfig, private http: CarrierHttp) {}
+
+    async calculate(parcel: Parcel, destination: DeliveryDestination, address?: string | null): Promise<TariffQuote> {
+        const mode = destination.pickupPointCode ? 'pickup' : 'door';
+        const tariff = mode === 'pickup' ? 'self_pickup' : 'time_interval';
+
+        const body = await this.call({
+            method: 'POST',
+            url: '/pricing-calculator',
+            body: {
+                source: { platform_station_id: this.config.sourceStationId },
+                destination: destination.pickupPointCode
+                    ? { platform_station_id: destination.pickupPointCode }
+                    : { address: address ?? destination.city ?? '' },
+                tariff,
+                total_weight: parcel.weightG,
+                total_assessed_price: Math.round(parcel.declaredValueRub * 100),
+                client_price: 0,
+                payment_method: 'already_paid',
+                places: [{ physical_dims: this.toDims(parcel) }],
+            },
+        });
+
+        return {
+            carrier: this.name,
+            tariffCode: tariff,
+            priceRub: parseMoney(body.pricing_total),
+            mode,
+            ...(body.delivery_days != null ? { minDays: Number(body.delivery_days), maxDays: Number(body.delivery_days) } : {}),
+        };
+    }
+
+    async findPickupPoints(query: PickupPointQuery): Promise<PickupPoint[]> {
+        const location = query.city ?? query.postalCode;
+        if (!location) return [];
+
+        const detected = await this.call({ method: 'POST', url: '/location/detect', body: { location } });
+        const geoId = detected.variants?.[0]?.geo_id;
+        if (geoId == null) return [];
+
+        const body = await this.call({
+            method: 'POST',
+            url: '/pickup-points/list',
+            body: { geo_id: geoId, type: 'pickup_point', is_yandex_branded: false },
+        });
+
+        return (body.points ?? []).slice(0, query.limit ?? 50).map((p: any) => ({
+            carrier: this.name,
+            code: String(p.id),
+            name: p.name ?? String(p.id),
+            address: p.address?.full_address ?? '',
+            ...(p.address?.locality ? { city: p.address.locality } : {}),
+            ...(p.address?.postal_code ? { postalCode: p.address.postal_code } : {}),
+            ...(p.position?.latitude != null ? { latitude: Number(p.position.latitude) } : {}),
+            ...(p.position?.longitude != null ? { longitude: Number(p.position.longitude) } : {}),
+        }));
+    }
+
+    async createShipment(req: CreateShipmentRequest): Promise<ShipmentInfo> {
+        const toPoint = req.destination.pickupPointCode;
+        const barcode = `${req.orderId}-1`;
+        const [firstName, ...rest] = req.recipient.name.trim().split(/\s+/);
+
+        const created = await this.call({
+            method: 'POST',
+            url: '/offers/create',
+            body: {
+                info: { operator_request_id: req.orderId },
+                source: { platform_station: { platform_id: this.config.sourceStationId } },
+                destination: toPoint
+                    ? { type: 'platform_station', platform_station: { platform_id: toPoint } }
+                    : { type: 'custom_location', custom_location: { details: { full_address: req.address ?? '' } } },
+                items: req.items.map((i) => ({
+                    count: i.quantity,
+                    name: i.name,
+                    article: i.sku || i.name,
+                    place_barcode: barcode,
+                    billing_details: {
+                        unit_price: Math.round(i.priceRub * 100),
+                        assessed_unit_price: Math.round(i.priceRub * 100),
+                    },
+                })),
+                places: [{ barcode, physical_dims: this.toDims(req.parcel) }],
+                billing_info: { payment_method: 'already_paid' },
+                recipient_info: {
+                    first_name: firstName || req.recipient.name,
+                    last_name: rest.join(' '),
+                    phone: req.recipient.phone,
+                    ...(req.recipient.email ? { email: req.recipient.email } : {}),
+                },
+                last_mile_policy: toPoint ? 'self_pickup' : 'time_interval',
+            },
+        });
+
+        const offerId = created.offers?.[0]?.offer_id;
+        if (!offerId) throw new CarrierApiError(this.name, 200, 'No delivery offers available', created);
+
+        const confirmed = await this.call({ method: 'POST', url: '/offers/confirm', body: { offer_id: offerId } });
+        if (!confirmed.request_id) throw new CarrierApiError(this.name, 200, 'Offer was not confirmed', confirmed);
+
+        return this.getShipment(String(confirmed.request_id));
+    }
+
+    async getShipment(externalId: string): Promise<ShipmentInfo> {
+        const body = await this.call({ method: 'GET', url: '/request/info', query: { request_id: externalId } });
+        return {
+            externalId,
+            trackingCode: body.request_id ? String(body.request_id) : externalId,
+            status: body.state?.status ?? 'CREATED',
+        };
+    }
+
+    async getTracking(shipment: { externalId: string }): Promise<TrackingEvent[]> {
+        const body = await this.call({ method: 'GET', url: '/request/history', query: { request_id: shipment.externalId } });
+        const history: any[] = body.state_history ?? [];
+        return history
+            .map((st) => {
+                const at = st.timestamp_utc ? new Date(st.timestamp_utc) : new Date(Number(st.timestamp ?? 0) * 1000);
+                return {
+                    providerStatus: String(st.status),
+                    ...(st.description ? { description: String(st.description) } : {}),
+                    occurredAt: Number.isNaN(at.getTime()) ? new Date() : at,
+                };
+            })
+            .sort((a, b) => a.occurredAt.getTime() - b.occurredAt.getTime());
+    }
+
+    mapStatus(providerStatus: string): DeliveryStatus | null {
+        if (YANDEX_IGNORED.has(providerStatus)) return null;
+        if (YANDEX_PENDING.has(providerStatus)) return 'pending';
+        if (providerStatus === 'DELIVERY_DELIVERED' || providerStatus === 'PARTICULARLY_DELIVERED') return 'delivered';
+        if (providerStatus.endsWith('RETURN_RETURNED')) return 'returned';
+        if (providerStatus.endsWith('_LOST') || providerStatus === 'LOST') return 'lost';
+        return 'in_transit';
+    }
+
+    private toDims(parcel: Parcel) {
+        return {
+            weight_gross: parcel.weightG,
+            dx: parcel.lengthCm,
+            dy: parcel.widthCm,
+            dz: parcel.heightCm,
+        };
+    }
+
+    private async call(req: CarrierHttpRequest): Promise<any> {
+        const resp = await this.http.request({
+            ...req,
+            url: `${this.config.baseUrl}${req.url}`,
+            headers: { Authorization: `Bearer ${this.config.token}`, 'Accept-Language': 'ru', ...req.headers },
+        });
+
+        if (resp.status >= 400) {
+            const message = resp.body?.message ?? resp.body?.code ?? `HTTP ${resp.status}`;
+            throw new CarrierApiError(this.name, resp.status, message, resp.body);
+        }
+        return resp.body ?? {};
+    }
+}
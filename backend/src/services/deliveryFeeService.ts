@@ -1,5 +1,8 @@
 // backend/src/services/deliveryFeeService.ts
 import { settlementSettingsRuntime } from '#config/settlementSettings';
+import { deliveryShipmentService } from './deliveryShipmentService';
+import type { DeliveryDestination, Parcel, TariffQuote } from './delivery';
+import { errorMonitoringService } from './errorMonitoringService';
 
 export interface DeliveryFeeParams {
     deliveryService?: 'sdek' | 'russianpost' | 'yandex' | null;
@@ -7,18 +10,25 @@ export interface DeliveryFeeParams {
     cartSubtotalRub: number;
     weight?: number; // kg
     volume?: number; // cm³
+    /** Индекс / город / ПВЗ для тарифа перевозчика */
+    destination?: DeliveryDestination | null;
+    /** Грузоместо заказа (buildParcel); без него — базовая цена */
+    parcel?: Parcel | null;
 }
 
 export interface DeliveryFeeResult {
     feeRub: number;
     isFree: boolean;
     reason: string;
+    /** Тариф перевозчика, если цена рассчитана по API */
+    quote?: TariffQuote;
 }
 
 /**
  * Сервис расчета стоимости доставки на сервере
  * - Проверяет free shipping threshold из settlementSettings
- * - Возвращает базовую стоимость доставки или 0 если доставка бесплатная
+ * - Считает тариф у перевозчика (delivery/*) по грузоместу и адресу
+ * - Если перевозчик не настроен или API недоступен — базовая стоимость доставки
  */
 export const deliveryFeeService = {
     /**
@@ -47,24 +57,36 @@ export const deliveryFeeService = {
             };
         }
 
-        // 4. Расчет базовой стоимости
-        let calculatedFee = baseDeliveryFee;
-
-        // TODO: В будущем добавить интеграцию с API провайдеров
-        // switch (params.deliveryService) {
-        //     case 'sdek':
-        //         calculatedFee = await this.calculateSDEKFee(params);
-        //         break;
-        //     case 'russianpost':
-        //         calculatedFee = await this.calculateRussianPostFee(params);
-        //         break;
-        //     case 'yandex':
-        //         calculatedFee = await this.calculateYandexFee(params);
-        //         break;
-        // }
+        // 4. Тариф перевозчика
+        if (params.parcel) {
+            try {
+                const quote = await deliveryShipmentService.quote(
+                    params.deliveryService,
+                    params.parcel,
+                    params.destination ?? {},
+                    params.deliveryAddress
+                );
+                if (quote) {
+                    return {
+                        feeRub: quote.priceRub,
+                        isFree: false,
+                        reason: `${params.deliveryService} tariff ${quote.tariffCode}`,
+                        quote,
+                    };
+                }
+            } catch (error) {
+                // Заказ не блокируем: берём базовую цену
+                errorMonitoringService.logError(
+                    'warning',
+                    `Delivery quote failed for ${params.deliveryService}`,
+                    error as Error
+                );
+            }
+        }
 
+        // 5. Базовая стоимость
         return {
-            feeRub: calculatedFee,
+            feeRub: baseDeliveryFee,
             isFree: false,
             reason: `Base delivery fee for ${params.deliveryService}`,
         };
@@ -92,20 +114,4 @@ export const deliveryFeeService = {
 
         return null;
     },
-
-    // Placeholder методы для будущей интеграции
-    // async calculateSDEKFee(params: DeliveryFeeParams): Promise<number> {
-    //     // TODO: SDEK API integration
-    //     return 500;
-    // },
-    //
-    // async calculateRussianPostFee(params: DeliveryFeeParams): Promise<number> {
-    //     // TODO: Russian Post API integration
-    //     return 400;
-    // },
-    //
-    // async calculateYandexFee(params: DeliveryFeeParams): Promise<number> {
-    //     // TODO: Yandex Delivery API integration
-    //     return 450;
-    // },
 };
@@ -0,0 +1,146 @@
+// backend/src/services/deliveryShipmentService.ts
+import type { DeliveryShipment } from '#db/schema/deliveryShipments';
+import ordersStorage from '#storage/ordersStorage';
+import { usersStorage } from '#storage/usersStorage';
+import { deliveryShipmentsStorage } from '#storage/deliveryShipmentsStorage';
+import {
+    carriers,
+    loadOrderParcel,
+    type CarrierRegistry,
+    type DeliveryDestination,
+    type Parcel,
+    type PickupPoint,
+    type PickupPointQuery,
+    type TariffQuote,
+} from './delivery';
+import { errorMonitoringService } from './errorMonitoringService';
+
+/**
+ * Delivery Shipment Service
+ *
+ *   - quote / findPickupPoints — тариф и ПВЗ у перевозчика (checkout, deliveryFeeService)
+ *   - createForOrder — отправление у перевозчика после оплаты (orderLifecycleService.onPaid);
+ *     трек-номер пишется в order.deliveryTrackingCode
+ *   - syncPending — повтор неудачных попыток и получение трек-номера, который перевозчик
+ *     присваивает не сразу (СДЭК); задача delivery-shipments-sync
+ */
+
+export interface ShipmentSyncResult {
+    checked: number;
+    created: number;
+    tracked: number;
+    errors: number;
+}
+
+export class DeliveryShipmentService {
+    constructor(
+        private registry: CarrierRegistry = carriers,
+        private maxAttempts = 5
+    ) {}
+
+    async quote(
+        carrier: string,
+        parcel: Parcel,
+        destination: DeliveryDestination,
+        address?: string | null
+    ): Promise<TariffQuote | null> {
+        if (!this.registry.has(carrier)) return null;
+        return this.registry.get(carrier).calculate(parcel, destination, address);
+    }
+
+    async findPickupPoints(carrier: string, query: PickupPointQuery): Promise<PickupPoint[]> {
+        if (!this.registry.has(carrier)) return [];
+        return this.registry.get(carrier).findPickupPoints(query);
+    }
+
+    /**
+     * Создать отправление по оплаченному заказу. Повторный вызов безопасен:
+     * созданное отправление возвращается как есть, параллельная попытка — null.
+     * Ошибка перевозчика сохраняется в delivery_shipment (status 'failed') и пробрасывается.
+     */
+    async createForOrder(orderId: string): Promise<DeliveryShipment | null> {
+        const ord = await ordersStorage.getById(orderId);
+        if (!ord || !ord.deliveryRequired || !ord.deliveryService) return null;
+        if (!this.registry.has(ord.deliveryService)) return null;
+
+        const existing = await deliveryShipmentsStorage.getByOrder(orderId);
+        if (existing?.status === 'created') return existing;
+
+        const destination: DeliveryDestination = ord.deliveryDestination ?? {};
+        const { parcel, items } = await loadOrderParcel(orderId);
+
+        const row = await deliveryShipmentsStorage.begin({
+            orderId,
+            carrier: ord.deliveryService,
+            request: { parcel, destination, address: ord.deliveryAddress },
+        });
+        if (!row) return null;
+
+        try {
+            const user = await usersStorage.getUserById(ord.userId);
+            const name =
+                destination.recipientName ??
+                ([user?.firstName, user?.lastName].filter(Boolean).join(' ') || user?.username || '');
+            const phone = destination.recipientPhone ?? user?.phone;
+            if (!phone) throw new Error('Recipient phone is missing');
+
+            const info = await this.registry.get(ord.deliveryService).createShipment({
+                orderId,
+                parcel,
+                items,
+                destination,
+                address: ord.deliveryAddress,
+                recipient: { name: name || 'Получатель', phone, email: user?.email ?? null },
+            });
+
+            const saved = await deliveryShipmentsStorage.markCreated(row.id, {
+                externalId: info.externalId,
+                trackingCode: info.trackingCode,
+                carrierStatus: info.status,
+            });
+            if (info.trackingCode) await ordersStorage.update(orderId, { deliveryTrackingCode: info.trackingCode });
+            return saved;
+        } catch (e) {
+            await deliveryShipmentsStorage.markFailed(row.id, (e as Error).message);
+            throw e;
+        }
+    }
+
+    async syncPending(limit = 100): Promise<ShipmentSyncResult> {
+        const result: ShipmentSyncResult = { checked: 0, created: 0, tracked: 0, errors: 0 };
+        const rows = await deliveryShipmentsStorage.listForSync(this.maxAttempts, limit);
+
+        for (const row of rows) {
+            result.checked++;
+            try {
+                if (row.status === 'failed') {
+                    const created = await this.createForOrder(row.orderId);
+                    if (created?.status === 'created') result.created++;
+                    if (created?.trackingCode) result.tracked++;
+                    continue;
+                }
+
+                if (!row.externalId || !this.registry.has(row.carrier)) continue;
+                const info = await this.registry.get(row.carrier).getShipment(row.externalId);
+                await deliveryShipmentsStorage.updateTracking(row.id, {
+                    trackingCode: info.trackingCode,
+                    carrierStatus: info.status,
+                });
+                if (info.trackingCode) {
+                    await ordersStorage.update(row.orderId, { deliveryTrackingCode: info.trackingCode });
+                    result.tracked++;
+                }
+            } catch (e) {
+                result.errors++;
+                errorMonitoringService.logError('error', `Delivery shipment sync failed for order ${row.orderId}`, e as Error);
+            }
+        }
+
+        return result;
+    }
+}
+
+export const deliveryShipmentService = new DeliveryShipmentService(
+    carriers,
+    Number(process.env.DELIVERY_SHIPMENT_MAX_ATTEMPTS || 5)
+);
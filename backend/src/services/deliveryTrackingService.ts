@@ -0,0 +1,260 @@
+// backend/src/services/deliveryTrackingService.ts
+import type { DeliveryShipment } from '#db/schema/deliveryShipments';
+import type { DeliveryEvent } from '#db/schema/notifications';
+import type { Order } from '#db/schema/orders';
+import ordersStorage from '#storage/ordersStorage';
+import { paymentsStorage } from '#storage/paymentsStorage';
+import { deliveryEventsStorage } from '#storage/deliveryEventsStorage';
+import { deliveryShipmentsStorage } from '#storage/deliveryShipmentsStorage';
+import { AppError, AppErrorCode } from '../middleware/errorHandler';
+import { carriers, type CarrierRegistry, type DeliveryStatus, type TrackingEvent } from './delivery';
+import { orderLifecycleService } from './orderLifecycleService';
+import { orderLoggingService } from './orderLoggingService';
+import { orderReturnService } from './orderReturnService';
+import { paymentRefundService } from './paymentRefundService';
+import { errorMonitoringService } from './errorMonitoringService';
+
+/**
+ * Delivery Tracking Service
+ * События перевозчика → delivery_event → статус доставки заказа → жизненный цикл заказа
+ *
+ *   - handleWebhook — вебхук перевозчика (POST /api/delivery/webhooks/:carrier/:token)
+ *   - pollActive — опрос истории незавершённых отправлений (задача delivery-tracking-poll)
+ *   - setManual — статус от админа (PUT /api/admin/orders/:id/delivery-status)
+ *
+ * Статус доставки движется только вперёд: pending → in_transit → delivered | lost | returned.
+ * Переход — compare-and-set по текущему статусу, поэтому повтор вебхука или гонка вебхука
+ * с опросом не запускают последствия дважды:
+ *   in_transit → заказ shipped
+ *   delivered  → markDelivered + orderLifecycleService.onDelivered (начисления)
+ *   lost       → возврат денег вместе с доставкой, товар на склад не возвращается
+ *   returned   → возврат денег за товары (доставка оплачена перевозчику), товар — на склад
+ */
+
+export type DeliveryEventSource = 'webhook' | 'poll' | 'admin';
+
+export interface TrackingIngestResult {
+    /** Новых событий (без повторов) */
+    recorded: number;
+    /** Статус доставки, если он сменился */
+    advancedTo: DeliveryStatus | null;
+}
+
+export interface TrackingPollResult {
+    checked: number;
+    events: number;
+    advanced: number;
+    errors: number;
+}
+
+/** Порядок статусов; у конечных одинаковый ранг — между собой они не переходят */
+const RANK: Record<DeliveryStatus, number> = {
+    not_required: -1,
+    pending: 0,
+    in_transit: 1,
+    delivered: 2,
+    lost: 2,
+    returned: 2,
+};
+
+function canAdvance(from: DeliveryStatus, to: DeliveryStatus): boolean {
+    return RANK[from] >= 0 && RANK[to] > RANK[from];
+}
+
+export class DeliveryTrackingService {
+    constructor(private registry: CarrierRegistry = carriers) {}
+
+    /**
+     * Вебхук перевозчика. Событие по неизвестному отправлению пропускается
+     * (вебхук может прийти и по заказам, созданным в ЛК перевозчика вручную).
+     */
+    async handleWebhook(carrier: string, body: unknown): Promise<TrackingIngestResult[]> {
+        if (!this.registry.has(carrier)) {
+            throw new AppError(AppErrorCode.NOT_FOUND, `Carrier "${carrier}" is not available`, 404);
+        }
+        const adapter = this.registry.get(carrier);
+        if (!adapter.parseWebhook) {
+            throw new AppError(AppErrorCode.VALIDATION_ERROR, `Carrier "${carrier}" does not send webhooks`, 400);
+        }
+
+        const results: TrackingIngestResult[] = [];
+        for (const update of adapter.parseWebhook(body)) {
+            const shipment = await deliveryShipmentsStorage.findForWebhook(carrier, update);
+            if (!shipment) continue;
+            results.push(await this.ingest(shipment, [update], 'webhook'));
+        }
+        return results;
+    }
+
+    async pollActive(limit = 200): Promise<TrackingPollResult> {
+        const result: TrackingPollResult = { checked: 0, events: 0, advanced: 0, errors: 0 };
+        const shipments = await deliveryShipmentsStorage.listForTracking(limit);
+
+        for (const shipment of shipments) {
+            if (!shipment.externalId || !this.registry.has(shipment.carrier)) continue;
+            result.checked++;
+            try {
+                const events = await this.registry.get(shipment.carrier).getTracking({
+                    externalId: shipment.externalId,
+                    trackingCode: shipment.trackingCode,
+                });
+                const ingested = await this.ingest(shipment, events, 'poll');
+                result.events += ingested.recorded;
+                if (ingested.advancedTo) result.advanced++;
+            } catch (e) {
+                result.errors++;
+                errorMonitoringService.logError('error', `Delivery tracking poll failed for order ${shipment.orderId}`, e as Error);
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Записать события отправления (от старых к новым) и продвинуть статус доставки.
+     * Событие, уже записанное раньше (тот же dedup_key), статус не трогает.
+     */
+    async ingest(shipment: DeliveryShipment, events: TrackingEvent[], source: DeliveryEventSource): Promise<TrackingIngestResult> {
+        const adapter = this.registry.get(shipment.carrier);
+        const sorted = [...events].sort((a, b) => a.occurredAt.getTime() - b.occurredAt.getTime());
+        const result: TrackingIngestResult = { recorded: 0, advancedTo: null };
+
+        for (const ev of sorted) {
+            const mapped = adapter.mapStatus(ev.providerStatus);
+            const ord = await ordersStorage.getById(shipment.orderId);
+            if (!ord) break;
+
+            const row = await deliveryEventsStorage.append({
+                orderId: shipment.orderId,
+                provider: shipment.carrier,
+                // Служебное событие (статус не сопоставлен) пишется с текущим статусом доставки
+                status: mapped ?? ord.deliveryStatus,
+                providerStatus: ev.providerStatus,
+                source,
+                description: ev.description ?? null,
+                location: ev.location ?? null,
+                occurredAt: ev.occurredAt,
+                dedupKey: `${shipment.carrier}:${shipment.externalId ?? shipment.orderId}:${ev.providerStatus}:${ev.occurredAt.toISOString()}`,
+                payload: null,
+            });
+            if (!row) continue;
+            result.recorded++;
+
+            if (mapped && (await this.advance(ord, mapped, source))) result.advancedTo = mapped;
+        }
+
+        const last = sorted.at(-1);
+        if (result.recorded > 0 && last) await deliveryShipmentsStorage.setCarrierStatus(shipment.id, last.providerStatus);
+        return result;
+    }
+
+    /** Статус от админа: событие с source 'admin' и те же последствия, что у события перевозчика */
+    async setManual(
+        orderId: string,
+        status: DeliveryStatus,
+        opts: { trackingCode?: string | undefined; providerStatus?: string | undefined; payload?: Record<string, unknown> | undefined; createdBy?: string | undefined } = {}
+    ): Promise<{ order: Order; event: DeliveryEvent }> {
+        let ord = await ordersStorage.getById(orderId);
+        if (!ord) throw new AppError(AppErrorCode.NOT_FOUND, 'Order not found', 404);
+
+        if (ord.deliveryStatus !== status && !canAdvance(ord.deliveryStatus, status)) {
+            throw new AppError(
+                AppErrorCode.VALIDATION_ERROR,
+                `Delivery status cannot change from "${ord.deliveryStatus}" to "${status}"`,
+                409
+            );
+        }
+        if (opts.trackingCode) ord = (await ordersStorage.update(orderId, { deliveryTrackingCode: opts.trackingCode })) ?? ord;
+
+        const event = (await deliveryEventsStorage.append({
+            orderId,
+            provider: ord.deliveryService ?? null,
+            status,
+            providerStatus: opts.providerStatus ?? null,
+            source: 'admin',
+            occurredAt: new Date(),
+            payload: opts.payload || opts.createdBy ? { ...opts.payload, createdBy: opts.createdBy ?? null } : null,
+        }))!;
+
+        if (ord.deliveryStatus !== status) await this.advance(ord, status, 'admin');
+        return { order: (await ordersStorage.getById(orderId)) ?? ord, event };
+    }
+
+    /**
+     * Перевести доставку в новый статус и выполнить последствия.
+     * false — переход не нужен (назад / тот же ранг) или его уже выполнил другой процесс.
+     */
+    private async advance(ord: Order, to: DeliveryStatus, source: DeliveryEventSource): Promise<boolean> {
+        const from = (Object.keys(RANK) as DeliveryStatus[]).filter((s) => canAdvance(s, to));
+        if (!from.includes(ord.deliveryStatus)) return false;
+
+        const updated = await ordersStorage.transitionDeliveryStatus(ord.id, from, to);
+        if (!updated) return false;
+
+        try {
+            if (to === 'in_transit') {
+                await orderLoggingService.logDeliveryStatusChange(ord.id, ord.deliveryStatus, to);
+                if (updated.status === 'paid') await ordersStorage.updateOrderStatus(ord.id, 'shipped');
+            } else if (to === 'delivered') {
+                await ordersStorage.markDelivered(ord.id);
+                await orderLifecycleService.onDelivered(ord.id);
+            } else if (to === 'lost' || to === 'returned') {
+                await orderLoggingService.logDeliveryStatusChange(ord.id, ord.deliveryStatus, to);
+                await this.compensate(updated, to, source);
+            } else {
+                await orderLoggingService.logDeliveryStatusChange(ord.id, ord.deliveryStatus, to);
+            }
+        } catch (e) {
+            // Статус доставки уже сменён — повторять событие нельзя; последствия доводит админ
+            errorMonitoringService.logError('error', `Delivery ${to} handling failed for order ${ord.id}`, e as Error);
+            await orderLoggingService.logEvent({
+                orderId: ord.id,
+                event: 'delivery:compensation_failed',
+                meta: { deliveryStatus: to, source, error: (e as Error).message },
+            });
+        }
+        return true;
+    }
+
+    /**
+     * Возврат денег по утерянной / вернувшейся посылке.
+     * Есть платёж провайдера (карта / СБП) — возврат через провайдера (paymentRefundService, он же создаёт
+     * order_return); оплачено только кошельком — сразу order_return, сторно вернёт деньги на кошелёк.
+     */
+    private async compensate(ord: Order, status: 'lost' | 'returned', source: DeliveryEventSource): Promise<void> {
+        if (ord.status === 'returned_full' || ord.status === 'canceled') return;
+
+        const restock = status === 'returned';
+        const reason = status === 'lost' ? 'Delivery lost by carrier' : 'Parcel returned by carrier';
+
+        const payments = await paymentsStorage.listByOrder(ord.id);
+        const providerPayment = payments.find((p) => p.status === 'captured' && p.provider !== 'wallet' && p.externalId);
+
+        if (providerPayment) {
+            const { refund } = await paymentRefundService.refund(providerPayment.id, {
+                includeDelivery: status === 'lost',
+                restock,
+                reason,
+                idempotencyKey: `delivery:${status}:${ord.id}`,
+            });
+            await orderLoggingService.logEvent({
+                orderId: ord.id,
+                event: `delivery:${status}_refunded`,
+                meta: { source, paymentId: providerPayment.id, refundId: refund.id, amountRub: refund.amountRub },
+            });
+            return;
+        }
+
+        const { orderReturn } = await orderReturnService.createReturn(ord.id, {
+            reason,
+            restock,
+            allowUndelivered: true,
+        });
+        await orderLoggingService.logEvent({
+            orderId: ord.id,
+            event: `delivery:${status}_returned`,
+            meta: { source, returnId: orderReturn.id },
+        });
+    }
+}
+
+export const deliveryTrackingService = new DeliveryTrackingService();
@@ -0,0 +1,45 @@
+// backend/src/services/distributedLock.ts
+
+// 🔐 Distributed Lock (общий для воркеров и планировщика задач)
+import { createClient } from 'redis';
+// @ts-ignore — redlock типы несовместимы с redis v4, но всё работает
+import Redlock from 'redlock';
+
+const redisUrl = process.env.REDIS_URL ?? "redis://localhost:6379";
+const redisClient: any = createClient({ url: redisUrl });
+
+// Redis client — singleton
+redisClient.connect().catch((err: any) =>
+    console.error('Redis connection error in distributedLock:', err)
+);
+
+// Redlock instance: без ретраев — если лок занят, значит задачу уже выполняет другой инстанс
+const redlock: any = new Redlock([redisClient], {
+    retryCount: 0,
+    retryDelay: 200,
+    retryJitter: 200,
+});
+
+/**
+ * Захватить лок
+ * @returns lock или null, если ресурс занят (или Redis недоступен)
+ */
+export async function acquireLock(resource: string, ttlMs: number): Promise<any | null> {
+    try {
+        return await redlock.acquire([resource], ttlMs);
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Освободить лок (ошибки только логируются — лок всё равно истечёт по TTL)
+ */
+export async function releaseLock(lock: any, resource: string): Promise<void> {
+    if (!lock) return;
+    try {
+        await lock.release();
+    } catch (err) {
+        console.error(`Failed to release lock ${resource}:`, err);
+    }
+}
@@ -3,6 +3,7 @@ import { usersStorage } from '../storage/usersStorage';
 import { db } from '#db/db';
 import { settlementSettings } from '../db/schema';
 import { eq } from 'drizzle-orm';
+import type { ResolvedLevelsMatrix } from './levelsMatrixService';
 
 /**
  * Fast Start Bonus Service
@@ -96,21 +97,27 @@ export class FastStartBonusService {
      * @param userId - ID получателя бонуса
      * @param level - уровень в MLM дереве (1-15)
      * @param orderBaseRub - order_base заказа
+     * @param matrix - матрица уровней на момент доставки (fast_levels); без неё — legacy 25% от order_base
+     * @param networkFundRub - сетевой фонд заказа (база для ставок версии матрицы)
      * @returns сумма бонуса в RUB
      */
     async calculateFastStartBonus(
         userId: string,
         level: number,
-        orderBaseRub: number
+        orderBaseRub: number,
+        matrix?: ResolvedLevelsMatrix,
+        networkFundRub?: number
     ): Promise<number> {
         // Fast Start применяется только к L1
         if (level !== 1) return 0;
 
-        const rate = await this.getFastStartRate(userId);
-        if (rate === 0) return 0;
+        const legacyRate = await this.getFastStartRate(userId);
+        if (legacyRate === 0) return 0; // Не в окне Fast Start
+
+        const rate = matrix ? (matrix.fastLevels[level - 1] ?? 0) : legacyRate;
+        const base = matrix?.base === 'network_fund' ? (networkFundRub ?? 0) : orderBaseRub;
 
-        // Fast Start = 25% от L1 оборота
-        const bonus = orderBaseRub * rate;
+        const bonus = base * rate;
         return Math.round(bonus * 100) / 100; // round to 2 decimals
     }
 
@@ -0,0 +1,326 @@
+// backend/src/services/inventoryService.ts
+import { db } from '#db/db';
+import { product } from '#db/schema/products';
+import { productVariant } from '#db/schema/productVariants';
+import type { InventoryMovement } from '#db/schema/inventory';
+import { eq, inArray } from 'drizzle-orm';
+import { inventoryMovementsStorage, type StockMismatch } from '#storage/inventoryMovementsStorage';
+import { productVariantsStorage } from '#storage/productVariantsStorage';
+import { parseCsv } from '#utils/csv';
+import { AppError, AppErrorCode } from '../middleware/errorHandler';
+import { telegramNotificationService } from './telegramNotificationService';
+import { errorMonitoringService } from './errorMonitoringService';
+import { wishlistService } from './wishlistService';
+
+/**
+ * Inventory Service
+ * Ручные движения склада (приход, списание, корректировка), импорт приходов из CSV,
+ * сверка product.stock с журналом и уведомления о низком остатке / о поступлении подписчикам.
+ *
+ * Движения по заказам пишут сами операции заказа через inventoryMovementsStorage:
+ * резерв и продажа — stockReservationService, возврат — orderReturnService, отмена — ordersStorage.cancel.
+ */
+
+export type ManualMovementType = 'receipt' | 'write_off' | 'adjustment';
+
+export interface ManualMovementInput {
+    type: ManualMovementType;
+    /** Обязателен для товара с вариантами */
+    variantId?: string | undefined;
+    /** receipt / write_off — количество (> 0); adjustment — знаковое изменение */
+    qty: number;
+    reason?: string | undefined;
+    reference?: string | undefined;
+    userId?: string | undefined;
+}
+
+export interface ReceiptImportLine {
+    line: number;
+    productId: string;
+    variantId: string | null;
+    sku: string | null;
+    name: string;
+    qty: number;
+    reason: string | null;
+    reference: string | null;
+}
+
+export interface ReceiptImportResult {
+    lines: ReceiptImportLine[];
+    totalQty: number;
+    /** false — dryRun: файл проверен, движения не записаны */
+    applied: boolean;
+}
+
+/** Колонки CSV прихода; товар — по sku (товара или варианта) или product_id */
+const CSV_COLUMNS = ['sku', 'product_id', 'qty', 'reason', 'reference'] as const;
+const MAX_IMPORT_LINES = 5000;
+
+export class InventoryService {
+    /** Ручное движение от админа; расход больше остатка — 409 */
+    async move(productId: string, input: ManualMovementInput): Promise<{ movement: InventoryMovement; stock: number }> {
+        const qty = input.type === 'write_off' ? -Math.abs(input.qty) : input.type === 'receipt' ? Math.abs(input.qty) : input.qty;
+        if (!Number.isInteger(qty) || qty === 0) {
+            throw new AppError(AppErrorCode.VALIDATION_ERROR, 'qty must be a non-zero integer', 400);
+        }
+
+        await this.assertStockItem(productId, input.variantId);
+        const result = await db.transaction((tx) =>
+            inventoryMovementsStorage.applyStock(
+                {
+                    productId,
+                    variantId: input.variantId,
+                    type: input.type,
+                    qty,
+                    reason: input.reason,
+                    reference: input.reference,
+                    userId: input.userId,
+                },
+                tx
+            )
+        );
+        if (!result.movement) {
+            throw new AppError(
+                AppErrorCode.VALIDATION_ERROR,
+                `Not enough stock: on hand ${result.before}, requested ${-qty}`,
+                409,
+                { stock: result.before, requested: -qty }
+            );
+        }
+
+        await this.afterStockChange([productId]);
+        return { movement: result.movement, stock: result.after };
+    }
+
+    /**
+     * Установить остаток (правка в карточке товара или варианта, инвентаризация) — корректировка на разницу.
+     * null — остаток уже такой.
+     */
+    async setStock(
+        productId: string,
+        stock: number,
+        meta: { variantId?: string | undefined; reason?: string | undefined; userId?: string | undefined } = {}
+    ): Promise<InventoryMovement | null> {
+        await this.assertStockItem(productId, meta.variantId);
+        const result = await db.transaction(async (tx) => {
+            const [row] = meta.variantId
+                ? await tx.select({ stock: productVariant.stock }).from(productVariant).where(eq(productVariant.id, meta.variantId)).for('update')
+                : await tx.select({ stock: product.stock }).from(product).where(eq(product.id, productId)).for('update');
+            if (!row) throw new AppError(AppErrorCode.NOT_FOUND, 'Product not found', 404);
+            return inventoryMovementsStorage.applyStock(
+                {
+                    productId,
+                    variantId: meta.variantId,
+                    type: 'adjustment',
+                    qty: stock - row.stock,
+                    reason: meta.reason ?? 'Stock edited',
+                    userId: meta.userId,
+                },
+                tx
+            );
+        });
+        await this.afterStockChange([productId]);
+        return result.movement;
+    }
+
+    /**
+     * Приход от поставщика из CSV (заголовок: sku или product_id, qty; необязательно reason, reference).
+     * sku ищется среди товаров и вариантов; товар с вариантами принимается только по sku варианта.
+     * Файл проверяется целиком: при любой ошибке не пишется ничего — 422 со списком строк.
+     */
+    async importReceipts(
+        csv: string,
+        opts: { userId?: string | undefined; reference?: string | undefined; dryRun?: boolean | undefined } = {}
+    ): Promise<ReceiptImportResult> {
+        const [header, ...rows] = parseCsv(csv);
+        if (!header) throw new AppError(AppErrorCode.VALIDATION_ERROR, 'CSV file is empty', 400);
+        if (rows.length > MAX_IMPORT_LINES) {
+            throw new AppError(AppErrorCode.VALIDATION_ERROR, `CSV has more than ${MAX_IMPORT_LINES} lines`, 400);
+        }
+
+        const col = new Map(header.map((h, i) => [h.trim().toLowerCase(), i]));
+        if (!col.has('qty') || (!col.has('sku') && !col.has('product_id'))) {
+            throw new AppError(
+                AppErrorCode.VALIDATION_ERROR,
+                `CSV header must contain qty and sku or product_id (supported: ${CSV_COLUMNS.join(', ')})`,
+                400
+            );
+        }
+        const cell = (row: string[], name: (typeof CSV_COLUMNS)[number]) => {
+            const i = col.get(name);
+            return i === undefined ? '' : (row[i] ?? '').trim();
+        };
+
+        const skus = rows.map((r) => cell(r, 'sku')).filter(Boolean);
+        const ids = rows.map((r) => cell(r, 'product_id')).filter((v) => /^[0-9a-f-]{36}$/i.test(v));
+        const products = [
+            ...(skus.length ? await db.select().from(product).where(inArray(product.sku, skus)) : []),
+            ...(ids.length ? await db.select().from(product).where(inArray(product.id, ids)) : []),
+        ];
+        const variants = skus.length
+            ? await db
+                  .select({ id: productVariant.id, productId: productVariant.productId, sku: productVariant.sku, name: product.name, variantName: productVariant.name })
+                  .from(productVariant)
+                  .innerJoin(product, eq(product.id, productVariant.productId))
+                  .where(inArray(productVariant.sku, skus))
+            : [];
+        const withVariants = await productVariantsStorage.productsWithVariants(products.map((p) => p.id));
+
+        type Target = { productId: string; variantId: string | null; sku: string | null; name: string };
+        const bySku = new Map<string, Target>();
+        for (const p of products) {
+            if (p.sku && !withVariants.has(p.id)) bySku.set(p.sku, { productId: p.id, variantId: null, sku: p.sku, name: p.name });
+        }
+        for (const v of variants) {
+            bySku.set(v.sku!, { productId: v.productId, variantId: v.id, sku: v.sku, name: `${v.name} (${v.variantName})` });
+        }
+        const byId = new Map(products.map((p) => [p.id, p]));
+
+        const lines: ReceiptImportLine[] = [];
+        const errors: Array<{ line: number; message: string }> = [];
+        rows.forEach((row, i) => {
+            const line = i + 2; // 1 — заголовок
+            const sku = cell(row, 'sku');
+            const id = cell(row, 'product_id');
+            const byProductId = id ? byId.get(id) : undefined;
+            const target: Target | undefined = id
+                ? byProductId && { productId: byProductId.id, variantId: null, sku: byProductId.sku, name: byProductId.name }
+                : bySku.get(sku);
+            if (!target) {
+                const hasVariants = products.some((p) => (p.sku === sku || p.id === id) && withVariants.has(p.id));
+                errors.push({
+                    line,
+                    message: id
+                        ? `Product ${id} not found`
+                        : hasVariants
+                          ? `SKU "${sku}" belongs to a product with variants, use the variant SKU`
+                          : sku
+                            ? `SKU "${sku}" not found`
+                            : 'sku or product_id is required',
+                });
+                return;
+            }
+            if (!target.variantId && withVariants.has(target.productId)) {
+                errors.push({ line, message: `Product ${target.productId} has variants, use the variant SKU` });
+                return;
+            }
+            if (byId.get(target.productId)?.isBundle) {
+                errors.push({ line, message: `Product ${target.productId} is a bundle, receive its components` });
+                return;
+            }
+            const rawQty = cell(row, 'qty');
+            const qty = Number(rawQty);
+            if (!/^\d+$/.test(rawQty) || qty <= 0) {
+                errors.push({ line, message: `qty must be a positive integer, got "${rawQty}"` });
+                return;
+            }
+            lines.push({
+                line,
+                productId: target.productId,
+                variantId: target.variantId,
+                sku: target.sku,
+                name: target.name,
+                qty,
+                reason: cell(row, 'reason') || null,
+                reference: cell(row, 'reference') || opts.reference || null,
+            });
+        });
+
+        if (errors.length > 0) {
+            throw new AppError(AppErrorCode.VALIDATION_ERROR, 'CSV contains invalid lines', 422, { errors });
+        }
+        if (lines.length === 0) throw new AppError(AppErrorCode.VALIDATION_ERROR, 'CSV has no data lines', 400);
+
+        const totalQty = lines.reduce((sum, l) => sum + l.qty, 0);
+        if (opts.dryRun) return { lines, totalQty, applied: false };
+
+        await db.transaction(async (tx) => {
+            for (const l of lines) {
+                await inventoryMovementsStorage.applyStock(
+                    {
+                        productId: l.productId,
+                        variantId: l.variantId,
+                        type: 'receipt',
+                        qty: l.qty,
+                        reason: l.reason ?? 'Supplier receipt',
+                        reference: l.reference,
+                        userId: opts.userId,
+                    },
+                    tx
+                );
+            }
+        });
+        await this.afterStockChange([...new Set(lines.map((l) => l.productId))]);
+        return { lines, totalQty, applied: true };
+    }
+
+    /** Сверка: товары, у которых product.stock расходится с суммой журнала */
+    verify(): Promise<StockMismatch[]> {
+        return inventoryMovementsStorage.findMismatches();
+    }
+
+    /**
+     * Уведомить админов о товарах, дошедших до порога (один раз, пока остаток не поднимется выше).
+     * Без productIds — по всем товарам. Ошибки не пробрасываются: движение уже записано.
+     */
+    async checkLowStock(productIds?: string[]): Promise<number> {
+        try {
+            await inventoryMovementsStorage.resetRecoveredAlerts(productIds);
+            const claimed = await inventoryMovementsStorage.claimLowStockAlerts(productIds);
+            for (const p of claimed) {
+                await telegramNotificationService.sendLowStockAlert({
+                    name: p.name,
+                    sku: p.sku,
+                    stock: p.stock,
+                    threshold: p.threshold ?? 0,
+                });
+            }
+            return claimed.length;
+        } catch (e) {
+            errorMonitoringService.logError('error', 'Low stock check failed', e as Error);
+            return 0;
+        }
+    }
+
+    /** Сверка и уведомления по всем товарам (задача inventory-verify) */
+    async verifyAndAlert(): Promise<{ mismatches: number; alerts: number; restocked: number }> {
+        const mismatches = await this.verify();
+        if (mismatches.length > 0) {
+            errorMonitoringService.logError('warning', `Stock differs from inventory journal for ${mismatches.length} products`, undefined, {
+                mismatches: mismatches.slice(0, 50),
+            });
+        }
+        return {
+            mismatches: mismatches.length,
+            alerts: await this.checkLowStock(),
+            // остаток мог вернуться и мимо склада: отмена заказа, возврат
+            restocked: await wishlistService.notifyRestocked(),
+        };
+    }
+
+    /** Порог низкого остатка и «сообщить о поступлении» после изменения остатка */
+    private async afterStockChange(productIds: string[]): Promise<void> {
+        await this.checkLowStock(productIds);
+        await wishlistService.notifyRestocked(productIds);
+    }
+
+    /** Товар существует; у товара с вариантами движение пишется только по варианту */
+    private async assertStockItem(productId: string, variantId: string | undefined): Promise<void> {
+        const [row] = await db.select({ id: product.id, isBundle: product.isBundle }).from(product).where(eq(product.id, productId)).limit(1);
+        if (!row) throw new AppError(AppErrorCode.NOT_FOUND, 'Product not found', 404);
+        if (row.isBundle) {
+            throw new AppError(AppErrorCode.VALIDATION_ERROR, 'Product is a bundle: stock is managed on its components', 409);
+        }
+
+        if (variantId) {
+            const variant = await productVariantsStorage.getById(variantId);
+            if (!variant || variant.productId !== productId) {
+                throw new AppError(AppErrorCode.NOT_FOUND, 'Product variant not found', 404);
+            }
+        } else if ((await productVariantsStorage.productsWithVariants([productId])).size > 0) {
+            throw new AppError(AppErrorCode.VALIDATION_ERROR, 'Product has variants: stock is managed per variant', 409);
+        }
+    }
+}
+
+export const inventoryService = new InventoryService();
@@ -0,0 +1,276 @@
+// backend/src/services/jobScheduler.ts
+import { scheduledJobsStorage, type JobRunTrigger } from '#storage/scheduledJobsStorage';
+import type { JobRun, ScheduledJob } from '#db/schema/scheduledJobs';
+import { nextCronRun, parseCron } from '#utils/cron';
+import { acquireLock, releaseLock } from './distributedLock';
+
+/**
+ * Job Scheduler
+ * Периодические задачи с хранением состояния в БД (scheduled_job / job_run)
+ *
+ * Как работает:
+ *   - Задачи регистрируются в коде (register) и синхронизируются в scheduled_job при start()
+ *   - Каждые tickMs планировщик выбирает задачи с next_run_at <= now и is_paused = false
+ *   - Запуск защищён redlock-локом `locks:job:<name>` — одновременно задачу выполняет один инстанс;
+ *     дополнительно слот захватывается CAS-обновлением next_run_at (два инстанса не отработают один слот)
+ *   - При ошибке — до maxRetries повторов с паузой retryDelayMs (каждая попытка — отдельная строка job_run)
+ *   - Пропущенные слоты (сервер был выключен) не догоняются: задача выполняется один раз,
+ *     next_run_at сдвигается на следующий слот после текущего момента
+ */
+
+export interface JobContext {
+    jobName: string;
+    trigger: JobRunTrigger;
+    attempt: number;
+    /** Слот расписания (для scheduled) или момент ручного запуска */
+    scheduledAt: Date;
+}
+
+export interface JobDefinition {
+    name: string;
+    description?: string;
+    cron: string;
+    /** Возвращает сводку, которая сохраняется в job_run.result */
+    handler: (ctx: JobContext) => Promise<unknown>;
+    maxRetries?: number;
+    retryDelayMs?: number;
+    lockTtlMs?: number;
+}
+
+export interface JobRunOutcome {
+    status: 'succeeded' | 'failed' | 'skipped';
+    runs: JobRun[];
+}
+
+const DEFAULT_TICK_MS = 30_000;
+const DEFAULT_RETRY_DELAY_MS = 30_000;
+const DEFAULT_LOCK_TTL_MS = 10 * 60 * 1000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function errorMessage(err: unknown): string {
+    if (err instanceof Error) return err.message;
+    return String(err);
+}
+
+export class JobScheduler {
+    private definitions = new Map<string, JobDefinition>();
+    private running = new Set<string>();
+    private intervalId: NodeJS.Timeout | null = null;
+    private ticking = false;
+
+    /**
+     * Зарегистрировать задачу (до start())
+     * @throws Error при некорректном cron или повторном имени
+     */
+    register(def: JobDefinition): void {
+        if (this.definitions.has(def.name)) {
+            throw new Error(`Job "${def.name}" is already registered`);
+        }
+        parseCron(def.cron);
+        this.definitions.set(def.name, def);
+    }
+
+    getDefinition(name: string): JobDefinition | undefined {
+        return this.definitions.get(name);
+    }
+
+    isRegistered(name: string): boolean {
+        return this.definitions.has(name);
+    }
+
+    /** Выполняется ли задача сейчас в этом процессе */
+    isRunning(name: string): boolean {
+        return this.running.has(name);
+    }
+
+    /**
+     * Синхронизировать определения в БД и запустить тики
+     */
+    async start(tickMs: number = DEFAULT_TICK_MS): Promise<void> {
+        if (this.intervalId) {
+            this.log('Scheduler already running');
+            return;
+        }
+
+        await this.syncDefinitions();
+
+        this.intervalId = setInterval(() => {
+            this.tick().catch((err) => console.error('[JobScheduler] tick error:', err));
+        }, tickMs);
+        this.intervalId.unref?.();
+
+        this.log(`Started with ${this.definitions.size} job(s), tick ${tickMs}ms`);
+    }
+
+    stop(): void {
+        if (this.intervalId) {
+            clearInterval(this.intervalId);
+            this.intervalId = null;
+            this.log('Stopped');
+        }
+    }
+
+    async syncDefinitions(): Promise<void> {
+        const now = new Date();
+        for (const def of this.definitions.values()) {
+            await scheduledJobsStorage.upsertDefinition({
+                name: def.name,
+                description: def.description ?? null,
+                cronExpression: def.cron,
+                maxRetries: def.maxRetries ?? 0,
+                retryDelayMs: def.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS,
+                lockTtlMs: def.lockTtlMs ?? DEFAULT_LOCK_TTL_MS,
+                nextRunAt: nextCronRun(def.cron, now),
+            });
+        }
+    }
+
+    /**
+     * Один проход: запустить все задачи, которым пора.
+     * Задачи стартуют параллельно, флаг ticking снимается сразу после запуска — долгая задача
+     * (или пауза между её повторами) не задерживает остальные и следующие тики; от повторного
+     * запуска той же задачи защищают running, CAS слота и лок.
+     * Промис завершается, когда отработали все запущенные в этом проходе задачи.
+     */
+    async tick(now: Date = new Date()): Promise<void> {
+        if (this.ticking) return;
+        this.ticking = true;
+
+        const started: Promise<void>[] = [];
+        try {
+            const due = await scheduledJobsStorage.listDueJobs(now);
+            for (const job of due) {
+                if (!this.definitions.has(job.name) || this.running.has(job.name)) continue;
+                started.push(
+                    this.runScheduled(job, now).catch((err) =>
+                        console.error(`[JobScheduler] ${job.name} run error:`, err)
+                    )
+                );
+            }
+        } finally {
+            this.ticking = false;
+        }
+
+        await Promise.all(started);
+    }
+
+    /**
+     * Запустить задачу вручную (из админки), независимо от расписания и паузы
+     */
+    async trigger(name: string, triggeredBy?: string | null): Promise<JobRunOutcome> {
+        const def = this.definitions.get(name);
+        if (!def) throw new Error(`Job "${name}" is not registered`);
+
+        return this.execute(def, 'manual', new Date(), triggeredBy ?? null);
+    }
+
+    async pause(name: string): Promise<ScheduledJob | null> {
+        return scheduledJobsStorage.setPaused(name, true);
+    }
+
+    /**
+     * Снять с паузы: следующий запуск — ближайший слот после текущего момента
+     */
+    async resume(name: string): Promise<ScheduledJob | null> {
+        const job = await scheduledJobsStorage.getJob(name);
+        if (!job) return null;
+        return scheduledJobsStorage.setPaused(name, false, nextCronRun(job.cronExpression));
+    }
+
+    private async runScheduled(job: ScheduledJob, now: Date): Promise<void> {
+        const def = this.definitions.get(job.name);
+        if (!def || !job.nextRunAt) return;
+
+        // Захват слота: если другой инстанс уже сдвинул next_run_at — пропускаем
+        const claimed = await scheduledJobsStorage.advanceNextRun(
+            job.name,
+            job.nextRunAt,
+            nextCronRun(job.cronExpression, now)
+        );
+        if (!claimed) return;
+
+        await this.execute(def, 'schedule', job.nextRunAt, null);
+    }
+
+    private async execute(
+        def: JobDefinition,
+        trigger: JobRunTrigger,
+        scheduledAt: Date,
+        triggeredBy: string | null
+    ): Promise<JobRunOutcome> {
+        const job = await scheduledJobsStorage.getJob(def.name);
+        const lockTtlMs = job?.lockTtlMs ?? def.lockTtlMs ?? DEFAULT_LOCK_TTL_MS;
+        const maxRetries = job?.maxRetries ?? def.maxRetries ?? 0;
+        const retryDelayMs = job?.retryDelayMs ?? def.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+
+        const resource = `locks:job:${def.name}`;
+        const lock = this.running.has(def.name) ? null : await acquireLock(resource, lockTtlMs);
+
+        if (!lock) {
+            const skipped = await scheduledJobsStorage.createRun({
+                jobName: def.name,
+                trigger,
+                status: 'skipped',
+                triggeredBy,
+                result: { reason: 'Job is already running on another instance' },
+            });
+            this.log(`⚠️ ${def.name}: lock is held — skipping run`);
+            await scheduledJobsStorage.markLastRun(def.name, 'skipped', new Date());
+            return { status: 'skipped', runs: [skipped] };
+        }
+
+        this.running.add(def.name);
+        const runs: JobRun[] = [];
+        let status: JobRunOutcome['status'] = 'failed';
+
+        try {
+            for (let attempt = 1; attempt <= maxRetries + 1; attempt++) {
+                const run = await scheduledJobsStorage.createRun({
+                    jobName: def.name,
+                    trigger,
+                    attempt,
+                    triggeredBy,
+                });
+                const startedAt = Date.now();
+
+                try {
+                    const result = await def.handler({ jobName: def.name, trigger, attempt, scheduledAt });
+                    runs.push(
+                        await scheduledJobsStorage.finishRun(run.id, {
+                            status: 'succeeded',
+                            durationMs: Date.now() - startedAt,
+                            result: result ?? null,
+                        })
+                    );
+                    status = 'succeeded';
+                    this.log(`✅ ${def.name} succeeded (attempt ${attempt}, ${Date.now() - startedAt}ms)`);
+                    break;
+                } catch (err) {
+                    runs.push(
+                        await scheduledJobsStorage.finishRun(run.id, {
+                            status: 'failed',
+                            durationMs: Date.now() - startedAt,
+                            error: errorMessage(err),
+                        })
+                    );
+                    console.error(`[JobScheduler] ❌ ${def.name} failed (attempt ${attempt}):`, err);
+
+                    if (attempt <= maxRetries) await sleep(retryDelayMs);
+                }
+            }
+        } finally {
+            this.running.delete(def.name);
+            await releaseLock(lock, resource);
+        }
+
+        await scheduledJobsStorage.markLastRun(def.name, status, new Date());
+        return { status, runs };
+    }
+
+    private log(msg: string) {
+        console.log(`[JobScheduler] ${msg}`);
+    }
+}
+
+export const jobScheduler = new JobScheduler();
@@ -0,0 +1,288 @@
+// backend/src/services/ledgerReconciliationService.ts
+import { accountTypeEnum, currencyEnum } from '#db/schema/enums';
+import type {
+    LedgerReconciliationRun,
+    NewLedgerReconciliationFinding,
+} from '#db/schema/ledgerReconciliation';
+import {
+    ledgerReconciliationStorage,
+    type AccountTotalsRow,
+    type ReconciliationTrigger,
+} from '#storage/ledgerReconciliationStorage';
+import { roundHalfUp } from '#utils/money';
+import { errorMonitoringService } from './errorMonitoringService';
+
+/**
+ * Ledger Reconciliation Service
+ * Сверка леджера и оборотно-сальдовая ведомость (trial balance)
+ *
+ * Проверки прогона (на дату as_of):
+ *   - unbalanced_txn        — по txn × валюте дебет ≠ кредит (или счёт другой валюты)       [error]
+ *   - empty_txn             — txn без проводок                                              [warning]
+ *   - user_balance_mismatch — app_user.balance ≠ остаток счёта cash_rub/RUB                 [error]
+ *                             (только для прогона «на сейчас»: app_user.balance не историчен)
+ *   - negative_account      — отрицательный пользовательский счёт (кроме receivable — это долг) [error]
+ *   - orphan_account        — user-счёт без владельца / system-счёт с owner_id              [warning]
+ *
+ * Баланс счёта = дебет − кредит (как ledgerStorage.getBalance).
+ */
+
+type Currency = (typeof currencyEnum.enumValues)[number];
+type AccountType = (typeof accountTypeEnum.enumValues)[number];
+type FindingKind = 'unbalanced_txn' | 'empty_txn' | 'user_balance_mismatch' | 'negative_account' | 'orphan_account';
+
+export interface TrialBalanceRow {
+    type: AccountType;
+    currency: Currency;
+    accounts: number;
+    debit: number;
+    credit: number;
+    balance: number;
+}
+
+export interface TrialBalanceTotal {
+    currency: Currency;
+    debit: number;
+    credit: number;
+    balanced: boolean;
+}
+
+export interface TrialBalance {
+    asOf: string;
+    rows: TrialBalanceRow[];
+    totals: TrialBalanceTotal[];
+}
+
+/** Сколько находок сохраняем за прогон (остальное — только в счётчиках stats) */
+const MAX_STORED_FINDINGS = 5000;
+const EPSILON = 0.005;
+
+export class LedgerReconciliationService {
+    /**
+     * Оборотно-сальдовая ведомость по типу счёта и валюте на дату
+     */
+    async getTrialBalance(asOf: Date = new Date()): Promise<TrialBalance> {
+        const accounts = await ledgerReconciliationStorage.listAccountTotals(asOf);
+        return this.buildTrialBalance(asOf, accounts);
+    }
+
+    /**
+     * Прогон сверки: находки и ведомость сохраняются в ledger_reconciliation_run / _finding
+     */
+    async run(
+        opts: { asOf?: Date; trigger?: ReconciliationTrigger; triggeredBy?: string | null } = {}
+    ): Promise<LedgerReconciliationRun> {
+        const now = new Date();
+        const asOf = opts.asOf ?? now;
+        // app_user.balance — текущее значение, сравнивать его с историческим остатком бессмысленно
+        const checkUserBalances = asOf.getTime() >= now.getTime() - 60_000;
+
+        const run = await ledgerReconciliationStorage.createRun({
+            asOf,
+            trigger: opts.trigger ?? 'manual',
+            triggeredBy: opts.triggeredBy ?? null,
+        });
+
+        try {
+            const findings: Omit<NewLedgerReconciliationFinding, 'runId'>[] = [];
+            const counts: Record<FindingKind, number> = {
+                unbalanced_txn: 0,
+                empty_txn: 0,
+                user_balance_mismatch: 0,
+                negative_account: 0,
+                orphan_account: 0,
+            };
+            const add = (f: Omit<NewLedgerReconciliationFinding, 'runId'> & { kind: FindingKind }) => {
+                counts[f.kind]++;
+                if (findings.length < MAX_STORED_FINDINGS) findings.push(f);
+            };
+
+            // 1) Двойная запись
+            const unbalanced = await ledgerReconciliationStorage.findUnbalancedTxns(asOf);
+            for (const row of unbalanced.rows) {
+                add({
+                    kind: 'unbalanced_txn',
+                    severity: 'error',
+                    txnId: row.txnId,
+                    currency: row.currency,
+                    expected: row.debit,
+                    actual: row.credit,
+                    details: { debit: row.debit, credit: row.credit },
+                });
+            }
+
+            const emptyTxns = await ledgerReconciliationStorage.findEmptyTxns(asOf);
+            for (const row of emptyTxns) {
+                add({
+                    kind: 'empty_txn',
+                    severity: 'warning',
+                    txnId: row.txnId,
+                    details: { opType: row.opType, orderId: row.orderId },
+                });
+            }
+
+            // 2) Счета: отрицательные, осиротевшие, app_user.balance
+            const accounts = await ledgerReconciliationStorage.listAccountTotals(asOf);
+            let userAccounts = 0;
+
+            for (const acc of accounts) {
+                const balance = roundHalfUp(Number(acc.debit) - Number(acc.credit), 2);
+
+                if (acc.ownerType === 'user') {
+                    userAccounts++;
+                    if (!acc.ownerId || !acc.ownerExists) {
+                        add({
+                            kind: 'orphan_account',
+                            severity: 'warning',
+                            accountId: acc.id,
+                            userId: acc.ownerId,
+                            currency: acc.currency,
+                            actual: balance.toFixed(2),
+                            details: { type: acc.type, reason: acc.ownerId ? 'owner_missing' : 'owner_null' },
+                        });
+                    }
+
+                    if (balance < -EPSILON && acc.type !== 'receivable') {
+                        add({
+                            kind: 'negative_account',
+                            severity: 'error',
+                            accountId: acc.id,
+                            userId: acc.ownerId,
+                            currency: acc.currency,
+                            expected: '0.00',
+                            actual: balance.toFixed(2),
+                            details: { type: acc.type },
+                        });
+                    }
+
+                    if (
+                        checkUserBalances &&
+                        acc.ownerExists &&
+                        acc.type === 'cash_rub' &&
+                        acc.currency === 'RUB' &&
+                        Math.abs(Number(acc.userBalance ?? 0) - balance) >= EPSILON
+                    ) {
+                        add({
+                            kind: 'user_balance_mismatch',
+                            severity: 'error',
+                            accountId: acc.id,
+                            userId: acc.ownerId,
+                            currency: 'RUB',
+                            expected: balance.toFixed(2),
+                            actual: Number(acc.userBalance ?? 0).toFixed(2),
+                            details: { source: 'app_user.balance', ledger: 'cash_rub' },
+                        });
+                    }
+                } else if (acc.ownerId) {
+                    add({
+                        kind: 'orphan_account',
+                        severity: 'warning',
+                        accountId: acc.id,
+                        currency: acc.currency,
+                        actual: balance.toFixed(2),
+                        details: { type: acc.type, reason: 'system_with_owner', ownerId: acc.ownerId },
+                    });
+                }
+            }
+
+            if (checkUserBalances) {
+                const noAccount = await ledgerReconciliationStorage.findUsersWithBalanceWithoutCashAccount();
+                for (const row of noAccount) {
+                    add({
+                        kind: 'user_balance_mismatch',
+                        severity: 'error',
+                        userId: row.userId,
+                        currency: 'RUB',
+                        expected: '0.00',
+                        actual: Number(row.balance).toFixed(2),
+                        details: { source: 'app_user.balance', ledger: 'no cash_rub account' },
+                    });
+                }
+            }
+
+            const trialBalance = this.buildTrialBalance(asOf, accounts);
+            const total = Object.values(counts).reduce((s, n) => s + n, 0);
+
+            await ledgerReconciliationStorage.insertFindings(findings.map((f) => ({ ...f, runId: run.id })));
+
+            return ledgerReconciliationStorage.finishRun(run.id, {
+                status: total > 0 ? 'issues' : 'ok',
+                findingsCount: total,
+                stats: {
+                    txnCurrencyGroupsChecked: unbalanced.checked,
+                    accountsChecked: accounts.length,
+                    userAccountsChecked: userAccounts,
+                    userBalancesChecked: checkUserBalances,
+                    findingsByKind: counts,
+                    findingsStored: findings.length,
+                },
+                trialBalance,
+            });
+        } catch (error) {
+            errorMonitoringService.logError('error', 'Ledger reconciliation failed', error as Error);
+            await ledgerReconciliationStorage.finishRun(run.id, {
+                status: 'failed',
+                error: (error as Error)?.message ?? String(error),
+            });
+            throw error;
+        }
+    }
+
+    private buildTrialBalance(asOf: Date, accounts: AccountTotalsRow[]): TrialBalance {
+        const rows = new Map<string, TrialBalanceRow>();
+        const totals = new Map<Currency, TrialBalanceTotal>();
+
+        for (const acc of accounts) {
+            const debit = Number(acc.debit);
+            const credit = Number(acc.credit);
+            const key = `${acc.type}:${acc.currency}`;
+
+            const row = rows.get(key) ?? {
+                type: acc.type as AccountType,
+                currency: acc.currency,
+                accounts: 0,
+                debit: 0,
+                credit: 0,
+                balance: 0,
+            };
+            row.accounts++;
+            row.debit += debit;
+            row.credit += credit;
+            rows.set(key, row);
+
+            const total = totals.get(acc.currency) ?? { currency: acc.currency, debit: 0, credit: 0, balanced: true };
+            total.debit += debit;
+            total.credit += credit;
+            totals.set(acc.currency, total);
+        }
+
+        const typeOrder = accountTypeEnum.enumValues as readonly string[];
+        const currencyOrder = currencyEnum.enumValues as readonly string[];
+
+        return {
+            asOf: asOf.toISOString(),
+            rows: [...rows.values()]
+                .map((r) => ({
+                    ...r,
+                    debit: roundHalfUp(r.debit, 2),
+                    credit: roundHalfUp(r.credit, 2),
+                    balance: roundHalfUp(r.debit - r.credit, 2),
+                }))
+                .sort(
+                    (a, b) =>
+                        typeOrder.indexOf(a.type) - typeOrder.indexOf(b.type) ||
+                        currencyOrder.indexOf(a.currency) - currencyOrder.indexOf(b.currency)
+                ),
+            totals: [...totals.values()]
+                .map((t) => ({
+                    currency: t.currency,
+                    debit: roundHalfUp(t.debit, 2),
+                    credit: roundHalfUp(t.credit, 2),
+                    balanced: Math.abs(t.debit - t.credit) < EPSILON,
+                }))
+                .sort((a, b) => currencyOrder.indexOf(a.currency) - currencyOrder.indexOf(b.currency)),
+        };
+    }
+}
+
+export const ledgerReconciliationService = new LedgerReconciliationService();
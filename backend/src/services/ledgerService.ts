@@ -5,8 +5,10 @@ import { settlementSettingsRuntime } from '#config/settlementSettings';
 import { roundHalfUp } from '#utils/money';
 import { errorMonitoringService } from './errorMonitoringService';
 import { telegramNotificationService } from './telegramNotificationService';
-import walletService from './walletService';
 import { ledgerStorage } from '#storage/ledgerStorage';
+import { levelsMatrixService, type ResolvedLevelsMatrix } from './levelsMatrixService';
+import { referralUplineService } from './referralUplineService';
+import { bonusHoldService } from './bonusHoldService';
 
 type DeliveryStatus = 'pending' | 'shipped' | 'delivered' | string;
 
@@ -18,6 +20,15 @@ function isDelivered(o: any): boolean {
     return o?.deliveryStatus === 'delivered';
 }
 
+/**
+ * Сетевой фонд заказа: order.network_fund_rub, иначе networkFundPercent% от order_base
+ */
+export function resolveNetworkFundRub(o: any, baseRub: number): number {
+    const stored = Number(o?.networkFundRub ?? 0);
+    if (Number.isFinite(stored) && stored > 0) return stored;
+    return roundHalfUp(baseRub * (Number(settlementSettingsRuntime?.networkFundPercent ?? 50) / 100), 2);
+}
+
 async function notifyCashback(userId: string, amount: number) {
     const svc: any = telegramNotificationService as any;
     if (typeof svc.sendCashbackNotification === 'function') {
@@ -69,7 +80,8 @@ export class LedgerService {
      *  - кэшбэк VWC (только partner/partner_pro)
      *  - реферальные бонусы (L1-L15)
      *
-     * Registry.md: начисления ТОЛЬКО при delivered
+     * Registry.md: начисления ТОЛЬКО при delivered.
+     * На время окна возврата начисления лежат на счёте hold (bonusHoldService).
      */
     async processOrderPayment(orderId: string): Promise<void> {
         try {
@@ -96,9 +108,10 @@ export class LedgerService {
             }
 
             const vwcPercent = Number(settlementSettingsRuntime?.vwcCashbackPercent ?? 5);
+            const deliveredAt = order.deliveredAt ? new Date(order.deliveredAt) : new Date();
 
             // 1) КЭШБЭК (идемпотентно)
-            await this.createCashbackTxn(buyer.id, orderId, baseRub, vwcPercent);
+            await this.createCashbackTxn(buyer.id, orderId, baseRub, vwcPercent, deliveredAt);
 
             // 2) РЕФЕРАЛКА (3 уровня)
             const refStart =
@@ -107,7 +120,12 @@ export class LedgerService {
                 null;
 
             if (refStart) {
-                await this.createReferralBonuses(orderId, buyer.id, String(refStart), baseRub);
+                // Матрица уровней, действовавшая на момент доставки
+                const matrix = await levelsMatrixService.resolveAt(deliveredAt);
+                const fundRub = resolveNetworkFundRub(order, baseRub);
+                await this.createReferralBonuses(
+                    orderId, buyer.id, String(refStart), baseRub, fundRub, matrix, deliveredAt
+                );
             }
 
             console.log(`✅ Ledger processing completed for order ${orderId}`);
@@ -118,14 +136,15 @@ export class LedgerService {
     }
 
     /**
-     * Кэшбэк VWC покупателю.
-     * Дт: system:vwc  /  Кт: user:vwc
+     * Кэшбэк VWC покупателю (через холд окна возврата).
+     * Дт: user:hold → user:vwc  /  Кт: system:vwc
      */
     private async createCashbackTxn(
         userId: string,
         orderId: string,
         baseRub: number,
-        percent: number
+        percent: number,
+        deliveredAt: Date
     ): Promise<void> {
         const amountVwc = roundHalfUp(baseRub * (percent / 100), 2);
         if (!(amountVwc > 0)) return;
@@ -144,11 +163,12 @@ export class LedgerService {
             return;
         }
 
-        await walletService.creditUser(userId, amountVwc, {
+        await bonusHoldService.creditWithHold(userId, amountVwc, {
             currency: 'VWC',
-            userType: 'vwc',
+            targetType: 'vwc',
             systemType: 'vwc',
             opType: 'reward',
+            heldFrom: deliveredAt,
             options: {
                 operationId: `order:${orderId}:cashback:vwc`,
                 memo: `VWC cashback ${percent}%`,
@@ -162,59 +182,37 @@ export class LedgerService {
     }
 
     /**
-     * ✅ FIX-4: Реферальные бонусы L1-L15 (Registry.md, без компрессии)
-     * Использует mlmStorage.getUpline() для получения всей цепочки upline
-     * Дт: system:network_fund  /  Кт: user:referral
+     * ✅ FIX-4: Реферальные бонусы L1-L15 (Registry.md)
+     * Получатели — referralUplineService (network_edge; при is_compression_enabled — с компрессией)
+     * Ставки — из версии levels_matrix_versions на момент доставки (или legacy от order_base)
+     * Дт: user:hold → user:referral  /  Кт: system:network_fund
      */
     private async createReferralBonuses(
         orderId: string,
         buyerId: string,
         referrerStartIdOrTelegram: string,
-        baseRub: number
+        baseRub: number,
+        fundRub: number,
+        matrix: ResolvedLevelsMatrix,
+        deliveredAt: Date
     ): Promise<void> {
-        // ✅ Registry.md: бонусы на 15 уровней (без компрессии)
-        const levelPercents = [
-            Number(settlementSettingsRuntime?.referralLevel1Percent ?? 20), // L1: 20%
-            Number(settlementSettingsRuntime?.referralLevel2Percent ?? 5),  // L2: 5%
-            Number(settlementSettingsRuntime?.referralLevel3Percent ?? 1),  // L3: 1%
-            1, 1, 1, 1, 1, // L4-L8: 1%
-            0.5, 0.5, 0.5, 0.5, 0.5, 0.5, 0.5, // L9-L15: 0.5%
-        ];
-
-        // ✅ Получить upline через mlmStorage (использует network_edge)
-        const { getUpline } = await import('#storage/mlmStorage');
-        const upline = await getUpline(buyerId, 15);
-
-        console.log(`📊 Processing referral bonuses for order ${orderId}: ${upline.length} upline levels found`);
-
-        for (const hop of upline) {
-            const level = hop.level;
-            if (level > 15) break;
+        // ✅ Registry.md: бонусы на 15 уровней
+        const rateBaseRub = matrix.base === 'network_fund' ? fundRub : baseRub;
 
-            const referrer = await usersStorage.getUserById(hop.parentId);
-            if (!referrer) {
-                console.log(`⚠️ Referrer ${hop.parentId} not found at L${level}, skip`);
-                continue;
-            }
+        const upline = await referralUplineService.resolve(buyerId, deliveredAt);
 
-            const mlmStatus = referrer.mlmStatus ?? 'customer';
-
-            // ✅ Registry: customer не получает бонусов (кроме L1 с флагом)
-            if (mlmStatus === 'customer') {
-                if (level === 1 && referrer.canReceiveFirstlineBonus) {
-                    // Customer с флагом получает ТОЛЬКО L1
-                    console.log(`✅ Customer ${referrer.id} allowed L1 bonus (canReceiveFirstlineBonus=true)`);
-                } else {
-                    console.log(`⚠️ Skipping L${level} bonus for customer ${referrer.id} (no bonuses for customers)`);
-                    continue;
-                }
-            }
+        console.log(
+            `📊 Processing referral bonuses for order ${orderId}: ${upline.hops.length} recipients` +
+            ` (compression=${upline.compressed}, skipped=${upline.skipped.length})`
+        );
+        for (const skip of upline.skipped) {
+            console.log(`⚠️ Skipping physical L${skip.physicalLevel} upline ${skip.userId} (${skip.reason})`);
+        }
 
-            // ✅ Partner и partner_pro получают все уровни
-            if (mlmStatus !== 'partner' && mlmStatus !== 'partner_pro' && mlmStatus !== 'customer') {
-                console.log(`⚠️ Skipping L${level} bonus for ${referrer.id} - unknown status: ${mlmStatus}`);
-                continue;
-            }
+        for (const hop of upline.hops) {
+            const level = hop.level;
+            const mlmStatus = hop.mlmStatus;
+            const referrer = { id: hop.userId };
 
             // ✅ FIX-FAST-START: Проверка Fast Start для L1 (перекрывает обычный L1)
             // Registry.md: Fast Start = 25% L1 в течение 8 недель ВМЕСТО обычного 20%
@@ -228,22 +226,33 @@ export class LedgerService {
                 }
             }
 
-            const rate = levelPercents[level - 1] ?? 0;
+            const rate = matrix.levels[level - 1] ?? 0;
             if (rate <= 0) continue;
 
-            const bonusRub = roundHalfUp(baseRub * (rate / 100), 2);
+            const bonusRub = roundHalfUp(rateBaseRub * rate, 2);
             if (bonusRub > 0) {
                 try {
-                    await walletService.creditUser(referrer.id, bonusRub, {
+                    await bonusHoldService.creditWithHold(referrer.id, bonusRub, {
                         currency: 'RUB',
-                        userType: 'referral',
+                        targetType: 'referral',
                         systemType: 'network_fund',
                         opType: 'reward',
+                        heldFrom: deliveredAt,
                         options: {
                             operationId: `order:${orderId}:ref:${level}:${referrer.id}`,
                             memo: `L${level} referral bonus`,
                             orderId,
-                            meta: { buyerId, level },
+                            meta: {
+                                buyerId,
+                                level,
+                                physicalLevel: hop.physicalLevel,
+                                compressed: upline.compressed,
+                                rate,
+                                rateBase: matrix.base,
+                                rateBaseRub,
+                                matrixVersionId: matrix.versionId,
+                                matrixSumMode: matrix.sumMode,
+                            },
                         },
                     });
 
@@ -0,0 +1,213 @@
+// backend/src/services/levelsMatrixService.ts
+import { levelsMatrixStorage } from '#storage/levelsMatrixStorage';
+import type { LevelsMatrixVersion } from '#db/schema/levels-matrix';
+import { settlementSettingsRuntime } from '#config/settlementSettings';
+
+/**
+ * Levels Matrix Service
+ * Версии матрицы уровней L1–L15 (levels) и Fast Start (fast_levels)
+ *
+ * Правила:
+ *   - Значения — доли сетевого фонда заказа (order.network_fund_rub), 0..1, ровно 15 уровней
+ *   - Σ(levels) и Σ(fast_levels) = 0.93 при sum_mode='reserve_7pct' (7% фонда — резерв) или 1.00 при 'full'
+ *   - Версия действует с activate_at; для заказа берётся версия, действовавшая на момент доставки
+ *   - Уже вступившую в силу версию нельзя перепланировать — история выплат остаётся воспроизводимой
+ *   - Если ни одной версии не запланировано — legacy-ставки от order_base (как до версионирования)
+ */
+
+export type LevelsSumMode = 'reserve_7pct' | 'full';
+
+export const LEVELS_COUNT = 15;
+
+export const LEVELS_SUM_TARGETS: Record<LevelsSumMode, number> = {
+    reserve_7pct: 0.93,
+    full: 1.0,
+};
+
+const SUM_TOLERANCE = 0.0001;
+
+export interface LevelsMatrixInput {
+    sumMode: LevelsSumMode;
+    levels: number[];
+    fastLevels: number[];
+}
+
+export interface LevelsMatrixValidation {
+    valid: boolean;
+    errors: string[];
+    expectedSum: number;
+    levelsSum: number;
+    fastLevelsSum: number;
+}
+
+export interface ResolvedLevelsMatrix {
+    /** null — legacy-ставки (нет ни одной версии на дату) */
+    versionId: string | null;
+    sumMode: LevelsSumMode | 'legacy';
+    /** База начисления: доля сетевого фонда (версии) или доля order_base (legacy) */
+    base: 'network_fund' | 'order_base';
+    levels: number[];
+    fastLevels: number[];
+}
+
+const round4 = (v: number) => Math.round(v * 10000) / 10000;
+
+/**
+ * Legacy-ставки (доли order_base): L1–L3 из settlement_settings, L4–L8 1%, L9–L15 0.5%.
+ * Fast Start — 25% на L1.
+ */
+function legacyMatrix(): ResolvedLevelsMatrix {
+    const levels = [
+        Number(settlementSettingsRuntime?.referralLevel1Percent ?? 20),
+        Number(settlementSettingsRuntime?.referralLevel2Percent ?? 5),
+        Number(settlementSettingsRuntime?.referralLevel3Percent ?? 1),
+        1, 1, 1, 1, 1,
+        0.5, 0.5, 0.5, 0.5, 0.5, 0.5, 0.5,
+    ].map((p) => p / 100);
+
+    const fastLevels = Array.from({ length: LEVELS_COUNT }, (_, i) => (i === 0 ? 0.25 : 0));
+
+    return { versionId: null, sumMode: 'legacy', base: 'order_base', levels, fastLevels };
+}
+
+function toResolved(row: LevelsMatrixVersion): ResolvedLevelsMatrix {
+    return {
+        versionId: row.id,
+        sumMode: row.sumMode as LevelsSumMode,
+        base: 'network_fund',
+        levels: row.levels.map(Number),
+        fastLevels: row.fastLevels.map(Number),
+    };
+}
+
+export class LevelsMatrixService {
+    /**
+     * Проверить матрицу: длины, диапазон значений, суммы под sum_mode
+     */
+    validate(input: LevelsMatrixInput): LevelsMatrixValidation {
+        const errors: string[] = [];
+        const expectedSum = LEVELS_SUM_TARGETS[input.sumMode];
+
+        const check = (name: 'levels' | 'fastLevels', values: number[]): number => {
+            if (values.length !== LEVELS_COUNT) {
+                errors.push(`${name} must contain exactly ${LEVELS_COUNT} values, got ${values.length}`);
+            }
+            values.forEach((v, i) => {
+                if (!Number.isFinite(v) || v < 0 || v > 1) {
+                    errors.push(`${name}[L${i + 1}] must be between 0 and 1, got ${v}`);
+                }
+            });
+
+            const sum = round4(values.reduce((s, v) => s + (Number.isFinite(v) ? v : 0), 0));
+            if (Math.abs(sum - expectedSum) > SUM_TOLERANCE) {
+                errors.push(`${name} sum is ${sum.toFixed(4)}, expected ${expectedSum.toFixed(2)} for ${input.sumMode}`);
+            }
+            return sum;
+        };
+
+        const levelsSum = check('levels', input.levels);
+        const fastLevelsSum = check('fastLevels', input.fastLevels);
+
+        return { valid: errors.length === 0, errors, expectedSum, levelsSum, fastLevelsSum };
+    }
+
+    /**
+     * Матрица, действовавшая на момент `at` (обычно — момент доставки заказа)
+     */
+    async resolveAt(at: Date = new Date()): Promise<ResolvedLevelsMatrix> {
+        const row = await levelsMatrixStorage.findEffectiveAt(at);
+        return row ? toResolved(row) : legacyMatrix();
+    }
+
+    async list(): Promise<LevelsMatrixVersion[]> {
+        return levelsMatrixStorage.list();
+    }
+
+    async getById(id: string): Promise<LevelsMatrixVersion | null> {
+        return levelsMatrixStorage.getById(id);
+    }
+
+    /**
+     * Создать версию-черновик (без activate_at)
+     * @throws Error если матрица не проходит validate()
+     */
+    async createVersion(
+        input: LevelsMatrixInput & { versionNote?: string | null },
+        createdByTelegramId?: string | null
+    ): Promise<LevelsMatrixVersion> {
+        const validation = this.validate(input);
+        if (!validation.valid) {
+            throw new Error(`Invalid levels matrix: ${validation.errors.join('; ')}`);
+        }
+
+        return levelsMatrixStorage.create({
+            versionNote: input.versionNote ?? null,
+            sumMode: input.sumMode,
+            levels: input.levels.map((v) => v.toFixed(4)),
+            fastLevels: input.fastLevels.map((v) => v.toFixed(4)),
+            activatedByTelegramId: createdByTelegramId ?? null,
+        });
+    }
+
+    /**
+     * Запланировать вступление версии в силу (activateAt <= now — немедленно)
+     * @throws Error если версия не найдена или уже вступила в силу
+     */
+    async scheduleVersion(
+        id: string,
+        activateAt: Date,
+        activatedByTelegramId?: string | null
+    ): Promise<LevelsMatrixVersion> {
+        const version = await levelsMatrixStorage.getById(id);
+        if (!version) throw new Error('Levels matrix version not found');
+
+        const now = new Date();
+        if (version.activateAt && version.activateAt <= now) {
+            throw new Error('Levels matrix version is already in effect and cannot be rescheduled');
+        }
+
+        // Повторная проверка на случай ручных правок в БД
+        const validation = this.validate({
+            sumMode: version.sumMode as LevelsSumMode,
+            levels: version.levels.map(Number),
+            fastLevels: version.fastLevels.map(Number),
+        });
+        if (!validation.valid) {
+            throw new Error(`Invalid levels matrix: ${validation.errors.join('; ')}`);
+        }
+
+        const effectiveAt = activateAt < now ? now : activateAt;
+        await levelsMatrixStorage.setActivateAt(id, effectiveAt, activatedByTelegramId ?? null);
+        await this.activateDue(now);
+
+        return (await levelsMatrixStorage.getById(id))!;
+    }
+
+    /**
+     * Снять запланированную (ещё не вступившую в силу) версию с расписания
+     */
+    async unscheduleVersion(id: string): Promise<LevelsMatrixVersion> {
+        const version = await levelsMatrixStorage.getById(id);
+        if (!version) throw new Error('Levels matrix version not found');
+        if (version.activateAt && version.activateAt <= new Date()) {
+            throw new Error('Levels matrix version is already in effect and cannot be rescheduled');
+        }
+        return (await levelsMatrixStorage.setActivateAt(id, null))!;
+    }
+
+    /**
+     * Синхронизировать флаг is_active с версией, действующей сейчас
+     * (вызывается при планировании и периодической задачей)
+     */
+    async activateDue(now: Date = new Date()): Promise<string | null> {
+        const effective = await levelsMatrixStorage.findEffectiveAt(now);
+        if (!effective) return null;
+        if (!effective.isActive) {
+            await levelsMatrixStorage.setActiveOnly(effective.id);
+            console.log(`📐 Levels matrix version ${effective.id} is now active`);
+        }
+        return effective.id;
+    }
+}
+
+export const levelsMatrixService = new LevelsMatrixService();
@@ -2,7 +2,13 @@
 import { db } from '#db/db';
 import { order } from '#db/schema/orders';
 import { ledgerStorage } from '#storage/ledgerStorage';
-import { matrixPlacementService } from './matrixPlacementService';
+import { binaryBonusService } from './binaryBonusService';
+import walletService from './walletService';
+import { orderLoggingService } from './orderLoggingService';
+import { ranksStorage } from '#storage/ranksStorage';
+import { usersStorage } from '#storage/usersStorage';
+import { getUpline } from '#storage/mlmStorage';
+import { roundHalfUp } from '#utils/money';
 import { eq, sql, and, gte } from 'drizzle-orm';
 import { settlementSettingsRuntime } from '#config/settlementSettings';
 
@@ -27,6 +33,9 @@ export interface NetworkFundAllocation {
     unallocatedRub: number;
 }
 
+/** Глубина upline для ранговых бонусов */
+const RANK_BONUS_MAX_DEPTH = 100;
+
 export class NetworkFundService {
     /**
      * Получить баланс сетевого фонда
@@ -195,6 +204,7 @@ export class NetworkFundService {
 
     /**
      * Распределить бинарные бонусы по матрице
+     * PV поднимается по всем предкам, выплата — % от слабой ноги (см. binaryBonusService)
      */
     private async distributeBinaryBonuses(
         userId: string,
@@ -202,33 +212,87 @@ export class NetworkFundService {
         budget: number,
         pvEarned: number
     ): Promise<number> {
-        // 1. Обновить объём ноги в матрице
-        const placement = await matrixPlacementService.getUserPlacement(userId);
-        if (!placement || !placement.parentId) {
-            return 0; // Нет родителя в матрице
-        }
-
-        // 2. Определить в какую ногу добавить объём
-        const leg = placement.position === 'left' ? 'left' : 'right';
-        await matrixPlacementService.updateLegVolume(placement.parentId, leg, pvEarned);
-
-        // 3. TODO: Рассчитать и начислить бинарный бонус родителю
-        // Бинарный бонус = процент от меньшей ноги
-        // Пока заглушка
-        return 0;
+        const result = await binaryBonusService.processOrderVolume(orderId, userId, pvEarned, budget);
+        return result.totalPaidRub;
     }
 
     /**
-     * Распределить ранговые бонусы
+     * Распределить ранговые бонусы (дифференциально)
+     *
+     * Идём по upline покупателя (network_edge). Каждый квалифицированный участник получает
+     * разницу между bonusPercent своего ранга и максимальным процентом, уже выплаченным ниже по линии:
+     *   amount = budget × (rankPercent − paidPercent) / 100
+     * Участник с рангом не выше уже оплаченного не получает ничего, поэтому младший ранг
+     * никогда не забирает больше старшего, а сумма выплат не превышает budget × max(bonusPercent).
      */
     private async distributeRankBonuses(
         userId: string,
         orderId: string,
         budget: number
     ): Promise<number> {
-        // TODO: Реализовать распределение по рангам
-        // Пока заглушка
-        return 0;
+        if (budget <= 0) return 0;
+
+        // Проценты рангов из rank_rules
+        const rules = await ranksStorage.listRanks({ limit: 100 });
+        const rankPercents = new Map<string, number>(
+            rules.map((r) => [r.rank as string, Math.min(100, Math.max(0, Number(r.bonusPercent ?? 0)))])
+        );
+        const maxPercent = Math.max(0, ...rankPercents.values());
+        if (maxPercent <= 0) return 0;
+
+        const upline = await getUpline(userId, RANK_BONUS_MAX_DEPTH);
+
+        let paidPercent = 0;
+        let distributedRub = 0;
+
+        for (const hop of upline) {
+            if (paidPercent >= maxPercent) break; // дальше делить нечего
+
+            const member = await usersStorage.getUserById(hop.parentId);
+            if (!member || member.isActive === false) continue;
+
+            // Registry: customer не получает сетевых бонусов
+            if (member.mlmStatus !== 'partner' && member.mlmStatus !== 'partner_pro') continue;
+
+            const rank = String(member.rank ?? 'member');
+            const rankPercent = rankPercents.get(rank) ?? 0;
+            if (rankPercent <= paidPercent) continue; // дифференциал: выше по линии — только старший ранг
+
+            const differentialPercent = rankPercent - paidPercent;
+            const amountRub = roundHalfUp(budget * (differentialPercent / 100), 2);
+            paidPercent = rankPercent;
+
+            if (amountRub <= 0) continue;
+
+            const { created } = await walletService.creditUser(member.id, amountRub, {
+                currency: 'RUB',
+                userType: 'cash_rub',
+                systemType: 'network_fund',
+                opType: 'network_bonus',
+                options: {
+                    operationId: `order:${orderId}:rank:${member.id}`,
+                    memo: `Rank bonus (${rank}) ${differentialPercent}%`,
+                    orderId,
+                    meta: {
+                        kind: 'rank',
+                        buyerId: userId,
+                        rank,
+                        level: hop.level,
+                        rankPercent,
+                        differentialPercent,
+                        budgetRub: budget,
+                    },
+                },
+            });
+
+            // Повтор вернул уже существующую проводку — событие balance:rank_bonus уже записано
+            if (created) {
+                await orderLoggingService.logRankBonus(orderId, member.id, rank, amountRub);
+            }
+            distributedRub = roundHalfUp(distributedRub + amountRub, 2);
+        }
+
+        return distributedRub;
     }
 
     /**
@@ -2,7 +2,7 @@
 import { usersStorage } from '../storage/usersStorage';
 import { ordersStorage } from '../storage/ordersStorage';
 import * as mlmStorage from '../storage/mlmStorage';
-import { ledgerStorage } from '../storage/ledgerStorage';
+import walletService from './walletService';
 import { db } from '#db/db';
 import { settlementSettings, order } from '../db/schema';
 import { eq, and, gte, lte, sql } from 'drizzle-orm';
@@ -216,25 +216,21 @@ export class Option3BonusService {
         bonusAmount: number,
         period: string
     ): Promise<void> {
-        // Создать idempotency key
+        // Idempotency key: повторный запуск за тот же период (ретрай задачи) не начисляет второй раз
         const idempotencyKey = `option3_bonus:${userId}:${period}`;
 
-        // Получить счета
-        const systemAccount = await ledgerStorage.ensureAccount(null, 'RUB', 'cash_rub', 'system');
-        const userAccount = await ledgerStorage.ensureAccount(userId, 'RUB', 'cash_rub', 'user');
-
-        // Создать транзакцию
-        await ledgerStorage.createPosting({
-            debitAccountId: userAccount.id,
-            creditAccountId: systemAccount.id,
-            amount: bonusAmount,
+        await walletService.creditUser(userId, bonusAmount, {
             currency: 'RUB',
+            userType: 'cash_rub',
+            systemType: 'cash_rub',
             opType: 'option_bonus',
-            userId,
-            memo: `Option 3% bonus for ${period}`,
-            meta: {
-                period,
-                bonusAmount,
+            options: {
+                operationId: idempotencyKey,
+                memo: `Option 3% bonus for ${period}`,
+                meta: {
+                    period,
+                    bonusAmount,
+                },
             },
         });
     }
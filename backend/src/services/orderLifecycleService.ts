@@ -1,12 +1,17 @@
 // src/services/orderLifecycleService.ts
-import { ledgerService } from './ledgerService';
+import { ledgerService, resolveNetworkFundRub } from './ledgerService';
 import { tryUpgradeToPartner } from './partnerUpgradeService';
 import { networkFundService } from './networkFundService';
 import { type LogOrderEventParams, orderLoggingService } from './orderLoggingService'; // ✅ Task 4.1
 import { fastStartBonusService } from './fastStartBonusService';
 import { infinityBonusService } from './infinityBonusService';
+import { levelsMatrixService } from './levelsMatrixService';
+import { referralUplineService } from './referralUplineService';
+import { bonusHoldService } from './bonusHoldService';
+import { stockReservationService } from './stockReservationService';
+import { reviewService } from './reviewService';
 import { db } from '#db/db';
-import { order as orderTable } from '#db/schema/orders';
+import { order as orderTable, type Order } from '#db/schema/orders';
 import { deliveryStatusEnum, orderStatusEnum } from '#db/schema/enums';
 import { eq } from 'drizzle-orm';
 
@@ -55,6 +60,14 @@ export const orderLifecycleService = {
             // Пробрасываем ошибку дальше, чтобы контроллер знал о проблеме
             throw error;
         }
+
+        // Отзывы, написанные до получения, становятся «проверенной покупкой»
+        // (после начислений: ошибка отзывов не должна их блокировать)
+        try {
+            await reviewService.markVerifiedForOrder(orderId);
+        } catch (error) {
+            console.error(`Verified purchase update failed for order ${orderId}:`, error);
+        }
     },
 
     /**
@@ -81,6 +94,16 @@ export const orderLifecycleService = {
         // ✅ Логируем смену статуса заказа
         await orderLoggingService.logStatusChange(orderId, 'new', 'paid');
 
+        // ✅ Резерв товара → продажа (списание со склада); повторный вызов ничего не списывает
+        try {
+            const { converted } = await stockReservationService.convertOrder(orderId);
+            if (converted > 0) {
+                await orderLoggingService.logEvent({ orderId, event: 'stock:reservation_converted', meta: { lines: converted } });
+            }
+        } catch (error) {
+            console.error(`Stock reservation conversion failed for order ${orderId}:`, error);
+        }
+
         // ✅ Проверяем и выполняем upgrade до Partner (если условия выполнены)
         try {
             await tryUpgradeToPartner(orderRow.userId);
@@ -120,6 +143,44 @@ export const orderLifecycleService = {
         } catch (error) {
             console.error(`Network bonus distribution failed for order ${orderId}:`, error);
         }
+
+        // ✅ Отправление у перевозчика (СДЭК / Почта / Яндекс); при ошибке повторит delivery-shipments-sync
+        try {
+            const { deliveryShipmentService } = await import('./deliveryShipmentService');
+            const shipment = await deliveryShipmentService.createForOrder(orderId);
+            if (shipment) {
+                await orderLoggingService.logEvent({
+                    orderId,
+                    event: 'delivery:shipment_created',
+                    meta: {
+                        carrier: shipment.carrier,
+                        externalId: shipment.externalId,
+                        trackingCode: shipment.trackingCode,
+                    },
+                });
+            }
+        } catch (error) {
+            console.error(`Carrier shipment creation failed for order ${orderId}:`, error);
+        }
+    },
+
+    /**
+     * Смена статуса заказа админом (наличные, перевод, ручное подтверждение).
+     * Те же последствия, что у оплаты через провайдера и отмены:
+     *   paid     — onPaid (резерв → продажа, списание со склада, сетевой фонд)
+     *   canceled — ordersStorage.cancel (снятие резерва / возврат проданного на склад)
+     * onPaid вызывается только при фактической смене статуса — повторный запрос ничего не списывает.
+     */
+    async setStatusByAdmin(orderId: string, status: OrderStatus): Promise<Order | null> {
+        const ordersStorage = (await import('../storage/ordersStorage')).default;
+
+        if (status === ('canceled' as OrderStatus)) return ordersStorage.cancel(orderId);
+
+        const changed = await ordersStorage.transitionStatus(orderId, status);
+        if (!changed) return ordersStorage.getById(orderId);
+
+        if (status === ('paid' as OrderStatus)) await this.onPaid(orderId);
+        return changed;
     },
 
     /**
@@ -135,7 +196,6 @@ export const orderLifecycleService = {
             const { usersStorage } = await import('../storage/usersStorage');
             const ordersStorage = (await import('../storage/ordersStorage')).default;
             const mlmStorage = await import('../storage/mlmStorage');
-            const { ledgerStorage } = await import('../storage/ledgerStorage');
 
             // Получить заказ
             const orderData = await ordersStorage.getById(orderId);
@@ -152,6 +212,15 @@ export const orderLifecycleService = {
                 return;
             }
 
+            // Матрица уровней (fast_levels), действовавшая на момент доставки
+            const deliveredAt = orderData.deliveredAt ? new Date(orderData.deliveredAt) : new Date();
+            const matrix = await levelsMatrixService.resolveAt(deliveredAt);
+            const networkFundRub = resolveNetworkFundRub(orderData, orderBaseRub);
+
+            // Получатель L1 (при компрессии — первый квалифицированный партнёр выше покупателя)
+            const { hops: l1Hops } = await referralUplineService.resolve(buyerId, deliveredAt, { maxLevels: 1 });
+            const fastStartRecipientId = l1Hops[0]?.userId ?? null;
+
             // Получить upline покупателя (до 100 уровней для Infinity)
             const upline = await mlmStorage.getUpline(buyerId, 100);
 
@@ -172,36 +241,40 @@ export const orderLifecycleService = {
                 // ────────────────────────────────────────────────────
                 // 1. Fast Start Bonus (только L1, перекрывает обычный L1)
                 // ────────────────────────────────────────────────────
-                if (level === 1) {
+                if (userId === fastStartRecipientId) {
                     const fastStartBonus = await fastStartBonusService.calculateFastStartBonus(
                         userId,
-                        level,
-                        orderBaseRub
+                        1,
+                        orderBaseRub,
+                        matrix,
+                        networkFundRub
                     );
 
                     if (fastStartBonus > 0) {
                         // Создать idempotency key
                         const idempotencyKey = `fast_start:${orderId}:${userId}`;
 
-                        // Получить счета
-                        const systemAccount = await ledgerStorage.ensureAccount(null, 'RUB', 'cash_rub', 'system');
-                        const userAccount = await ledgerStorage.ensureAccount(userId, 'RUB', 'cash_rub', 'user');
-
-                        // Начислить Fast Start бонус
+                        // Начислить Fast Start бонус (через холд окна возврата)
                         try {
-                            await ledgerStorage.createPosting({
-                                debitAccountId: userAccount.id,
-                                creditAccountId: systemAccount.id,
-                                amount: fastStartBonus,
+                            await bonusHoldService.creditWithHold(userId, fastStartBonus, {
                                 currency: 'RUB',
+                                targetType: 'cash_rub',
+                                systemType: 'cash_rub',
                                 opType: 'fast_start',
-                                userId,
-                                orderId,
-                                memo: `Fast Start bonus L1 for order ${orderId}`,
-                                meta: {
-                                    buyerId,
-                                    orderBaseRub,
-                                    level,
+                                heldFrom: deliveredAt,
+                                options: {
+                                    operationId: idempotencyKey,
+                                    orderId,
+                                    memo: `Fast Start bonus L1 for order ${orderId}`,
+                                    meta: {
+                                        buyerId,
+                                        orderBaseRub,
+                                        level: 1,
+                                        physicalLevel: level,
+                                        rateBase: matrix.base,
+                                        matrixVersionId: matrix.versionId,
+                                        matrixSumMode: matrix.sumMode,
+                                    },
                                 },
                             });
 
@@ -234,25 +307,23 @@ export const orderLifecycleService = {
                             // Создать idempotency key
                             const idempotencyKey = `infinity:${orderId}:${userId}`;
 
-                            // Получить счета
-                            const systemAccount = await ledgerStorage.ensureAccount(null, 'RUB', 'cash_rub', 'system');
-                            const userAccount = await ledgerStorage.ensureAccount(userId, 'RUB', 'cash_rub', 'user');
-
-                            // Начислить Infinity бонус
+                            // Начислить Infinity бонус (через холд окна возврата)
                             try {
-                                await ledgerStorage.createPosting({
-                                    debitAccountId: userAccount.id,
-                                    creditAccountId: systemAccount.id,
-                                    amount: infinityBonus,
+                                await bonusHoldService.creditWithHold(userId, infinityBonus, {
                                     currency: 'RUB',
+                                    targetType: 'cash_rub',
+                                    systemType: 'cash_rub',
                                     opType: 'infinity',
-                                    userId,
-                                    orderId,
-                                    memo: `Infinity bonus L${level} for order ${orderId}`,
-                                    meta: {
-                                        buyerId,
-                                        orderBaseRub,
-                                        level,
+                                    heldFrom: deliveredAt,
+                                    options: {
+                                        operationId: idempotencyKey,
+                                        orderId,
+                                        memo: `Infinity bonus L${level} for order ${orderId}`,
+                                        meta: {
+                                            buyerId,
+                                            orderBaseRub,
+                                            level,
+                                        },
                                     },
                                 });
 
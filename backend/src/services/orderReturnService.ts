@@ -0,0 +1,477 @@
+// backend/src/services/orderReturnService.ts
+import { db } from '#db/db';
+import { order as orderTable } from '#db/schema/orders';
+import { orderItem } from '#db/schema/orderItem';
+import { ledgerAccount } from '#db/schema/ledger';
+import { orderStatusEnum } from '#db/schema/enums';
+import { orderReturn, orderReturnItem, type OrderReturn } from '#db/schema/orderReturns';
+import { and, eq, sql } from 'drizzle-orm';
+import { ledgerStorage } from '#storage/ledgerStorage';
+import { orderReturnsStorage } from '#storage/orderReturnsStorage';
+import { ledgerHoldsStorage } from '#storage/ledgerHoldsStorage';
+import { inventoryMovementsStorage } from '#storage/inventoryMovementsStorage';
+import { productBundlesStorage } from '#storage/productBundlesStorage';
+import { roundHalfUp } from '#utils/money';
+import { AppError, AppErrorCode } from '../middleware/errorHandler';
+import walletService, { toOperationId, type AccountType, type Currency } from './walletService';
+import { binaryBonusService } from './binaryBonusService';
+import { orderLoggingService } from './orderLoggingService';
+
+/**
+ * Order Return Service
+ * Возврат доставленного заказа (полный / частичный по order_item) со сторно всех начислений
+ * (возврат денег по карте — paymentRefundService, допускает и ещё не доставленный заказ)
+ *
+ *   - сторнируются ВСЕ ledger_txn заказа (кэшбэк, L1–L15, Fast Start, Infinity, бинар, ранговые,
+ *     сетевой фонд, PV, оплата с кошелька → возврат на кошелёк)
+ *   - частичный возврат: доля = стоимость возвращённых позиций / стоимость позиций заказа;
+ *     каждая проводка сторнируется на round(amount × share_after) − round(amount × share_before),
+ *     последний возврат добивает остаток до полной суммы
+ *   - PV заказа снимается с ног matrix_placement (binaryBonusService.reverseOrderVolume)
+ *   - товар возвращается на склад (если restock); набор — компонентами
+ *   - если на счёте пользователя не хватает средств, недостача переносится на его счёт
+ *     receivable (долг); долг гасится задачей receivables-settle из новых поступлений
+ *   - бонус в холде (окно возврата) сторнируется со счёта hold; уже освобождённый —
+ *     с целевого счёта холда, переносы hold_release не сторнируются
+ *
+ * Идемпотентность: operationId сторно = `order_return:<returnId>:<txnId>`,
+ * PV ног — binary_bonus_log.pv_reversed. applyReturn можно безопасно повторить.
+ */
+
+type OrderStatus = (typeof orderStatusEnum.enumValues)[number];
+
+export interface ReturnItemInput {
+    orderItemId: string;
+    qty: number;
+    restock?: boolean | undefined;
+}
+
+export interface CreateReturnInput {
+    /** Не указано — возвращается весь остаток заказа */
+    items?: ReturnItemInput[];
+    reason?: string;
+    /** Значение по умолчанию для позиций без явного restock */
+    restock?: boolean;
+    createdBy?: string;
+    /** Возврат денег по оплаченному, но ещё не доставленному заказу (отмена) */
+    allowUndelivered?: boolean;
+}
+
+export interface ReturnSummary {
+    share: number;
+    txnsReversed: number;
+    txnsSkipped: number;
+    reversedByCurrency: Record<string, number>;
+    bonusesReversedRub: number;
+    receivables: Array<{ userId: string; currency: Currency; amount: number }>;
+    pvRemovedFromLegs: number;
+}
+
+/** Возврат разрешён только для доставленного (или уже частично возвращённого) заказа */
+const RETURNABLE_STATUSES: OrderStatus[] = ['delivered', 'returned_partial'];
+/** Возврат платежа до доставки — оплаченный / отправленный заказ */
+const REFUNDABLE_STATUSES: OrderStatus[] = [...RETURNABLE_STATUSES, 'paid', 'shipped'];
+
+/** Бонусные операции (как в orderLifecycleService.calculateAndSaveTotalBonuses) */
+const BONUS_OP_TYPES = ['referral_bonus', 'fast_start', 'infinity'];
+
+/** Счёт, из которого гасится долг в валюте */
+const SETTLEMENT_ACCOUNT: Record<Currency, AccountType> = {
+    RUB: 'cash_rub',
+    VWC: 'vwc',
+    PV: 'pv',
+};
+
+const SHARE_DIGITS = 6;
+
+export class OrderReturnService {
+    /**
+     * Оформить возврат и сразу провести сторно
+     */
+    async createReturn(
+        orderId: string,
+        input: CreateReturnInput = {}
+    ): Promise<{ orderReturn: OrderReturn; summary: ReturnSummary }> {
+        const { created, previousStatus } = await this.recordReturn(orderId, input);
+        await orderLoggingService.logStatusChange(
+            orderId,
+            previousStatus,
+            created.kind === 'full' ? 'returned_full' : 'returned_partial',
+            input.reason
+        );
+
+        const summary = await this.applyReturn(created.id);
+        return { orderReturn: created, summary };
+    }
+
+    /**
+     * Зафиксировать возврат: order_return + позиции, склад, статус заказа, PV заказа (атомарно).
+     * Строка заказа блокируется FOR UPDATE — параллельные возвраты одного заказа идут по очереди.
+     */
+    private async recordReturn(
+        orderId: string,
+        input: CreateReturnInput
+    ): Promise<{ created: OrderReturn; previousStatus: OrderStatus }> {
+        return db.transaction(async (tx) => {
+            const [ord] = await tx
+                .select()
+                .from(orderTable)
+                .where(eq(orderTable.id, orderId))
+                .for('update')
+                .limit(1);
+            if (!ord) throw new AppError(AppErrorCode.NOT_FOUND, 'Order not found', 404);
+            const allowed = input.allowUndelivered ? REFUNDABLE_STATUSES : RETURNABLE_STATUSES;
+            if (!allowed.includes(ord.status)) {
+                throw new AppError(
+                    AppErrorCode.VALIDATION_ERROR,
+                    `Order in status "${ord.status}" cannot be returned`,
+                    409
+                );
+            }
+
+            const items = await tx.select().from(orderItem).where(eq(orderItem.orderId, orderId));
+            const returned = await orderReturnsStorage.getReturnedByItem(orderId);
+            const shareBefore = await orderReturnsStorage.getReturnedShare(orderId);
+
+            const remainingQty = (itemId: string, qty: number) => qty - (returned.get(itemId)?.qty ?? 0);
+
+            const requested: ReturnItemInput[] =
+                input.items ??
+                items
+                    .filter((i) => remainingQty(i.id, i.qty) > 0)
+                    .map((i) => ({ orderItemId: i.id, qty: remainingQty(i.id, i.qty) }));
+
+            if (requested.length === 0) {
+                throw new AppError(AppErrorCode.VALIDATION_ERROR, 'Nothing to return', 400);
+            }
+
+            const lines = requested.map((r) => {
+                const item = items.find((i) => i.id === r.orderItemId);
+                if (!item) {
+                    throw new AppError(AppErrorCode.NOT_FOUND, `Order item ${r.orderItemId} not found in order`, 404);
+                }
+                const left = remainingQty(item.id, item.qty);
+                if (!(Number.isInteger(r.qty) && r.qty > 0 && r.qty <= left)) {
+                    throw new AppError(
+                        AppErrorCode.VALIDATION_ERROR,
+                        `Invalid qty ${r.qty} for item ${item.id}: ${left} left to return`,
+                        400
+                    );
+                }
+
+                // Последний возврат позиции добирает остаток её суммы (без ошибок округления)
+                const lineTotal = Number(item.lineTotalRub);
+                const amountRub =
+                    r.qty === left
+                        ? roundHalfUp(lineTotal - (returned.get(item.id)?.amountRub ?? 0), 2)
+                        : roundHalfUp((lineTotal * r.qty) / item.qty, 2);
+
+                return {
+                    item,
+                    qty: r.qty,
+                    amountRub,
+                    pvTotal: item.isPvEligible ? item.pvEach * r.qty : 0,
+                    restock: r.restock ?? input.restock ?? true,
+                };
+            });
+
+            if (new Set(lines.map((l) => l.item.id)).size !== lines.length) {
+                throw new AppError(AppErrorCode.VALIDATION_ERROR, 'Duplicate order items in return', 400);
+            }
+
+            // Доля возврата после этого возврата
+            const isFull = items.every((i) => {
+                const line = lines.find((l) => l.item.id === i.id);
+                return remainingQty(i.id, i.qty) - (line?.qty ?? 0) === 0;
+            });
+
+            const orderValue = items.reduce((s, i) => s + Number(i.lineTotalRub), 0);
+            const returnedValue =
+                [...returned.values()].reduce((s, r) => s + r.amountRub, 0) +
+                lines.reduce((s, l) => s + l.amountRub, 0);
+
+            let shareAfter: number;
+            if (isFull) {
+                shareAfter = 1;
+            } else if (orderValue > 0) {
+                shareAfter = roundHalfUp(returnedValue / orderValue, SHARE_DIGITS);
+            } else {
+                // Заказ из бесплатных позиций — доля по количеству
+                const totalQty = items.reduce((s, i) => s + i.qty, 0);
+                const returnedQty =
+                    [...returned.values()].reduce((s, r) => s + r.qty, 0) + lines.reduce((s, l) => s + l.qty, 0);
+                shareAfter = roundHalfUp(returnedQty / totalQty, SHARE_DIGITS);
+            }
+            // Неполный возврат не должен округлиться до 1 (иначе txn пометятся сторнированными)
+            if (!isFull) shareAfter = Math.min(shareAfter, 1 - 10 ** -SHARE_DIGITS);
+            shareAfter = Math.max(shareAfter, shareBefore);
+
+            const nextStatus: OrderStatus = isFull ? 'returned_full' : 'returned_partial';
+            const pvReturned = lines.reduce((s, l) => s + l.pvTotal, 0);
+
+            const [row] = await tx
+                .insert(orderReturn)
+                .values({
+                    orderId,
+                    kind: isFull ? 'full' : 'partial',
+                    reason: input.reason ?? null,
+                    amountRub: lines.reduce((s, l) => s + l.amountRub, 0).toFixed(2),
+                    pvReturned,
+                    shareBefore: shareBefore.toFixed(SHARE_DIGITS),
+                    shareAfter: shareAfter.toFixed(SHARE_DIGITS),
+                    createdBy: input.createdBy ?? null,
+                })
+                .returning();
+
+            if (!row) throw new Error('Failed to create order return');
+
+            for (const line of lines) {
+                await tx.insert(orderReturnItem).values({
+                    returnId: row.id,
+                    orderItemId: line.item.id,
+                    qty: line.qty,
+                    amountRub: line.amountRub.toFixed(2),
+                    pvTotal: line.pvTotal,
+                    restocked: line.restock,
+                });
+
+                if (line.restock) {
+                    // Набор возвращается на склад компонентами
+                    const stockLines = await productBundlesStorage.expandStockLines(
+                        [{ id: line.item.id, productId: line.item.productId, variantId: line.item.variantId, qty: line.qty, name: line.item.productName }],
+                        tx
+                    );
+                    for (const sl of stockLines) {
+                        await inventoryMovementsStorage.applyStock(
+                            {
+                                productId: sl.productId,
+                                variantId: sl.variantId,
+                                type: 'return',
+                                qty: sl.qty,
+                                reason: input.reason ?? 'Order return',
+                                orderId,
+                                userId: input.createdBy,
+                            },
+                            tx
+                        );
+                    }
+                }
+            }
+
+            // PV заказа участвует в окне активности (компрессия) и метриках рангов
+            await tx
+                .update(orderTable)
+                .set({
+                    status: nextStatus,
+                    pvEarned: sql`GREATEST(${orderTable.pvEarned} - ${pvReturned}, 0)`,
+                    updatedAt: new Date(),
+                })
+                .where(eq(orderTable.id, orderId));
+
+            return { created: row, previousStatus: ord.status };
+        });
+    }
+
+    /**
+     * Провести сторно по зафиксированному возврату (идемпотентно)
+     */
+    async applyReturn(returnId: string): Promise<ReturnSummary> {
+        const ret = await orderReturnsStorage.getById(returnId);
+        if (!ret) throw new AppError(AppErrorCode.NOT_FOUND, 'Order return not found', 404);
+
+        const shareBefore = Number(ret.shareBefore);
+        const shareAfter = Number(ret.shareAfter);
+        const isFull = shareAfter >= 1;
+
+        const summary: ReturnSummary = {
+            share: shareAfter,
+            txnsReversed: 0,
+            txnsSkipped: 0,
+            reversedByCurrency: {},
+            bonusesReversedRub: 0,
+            receivables: [],
+            pvRemovedFromLegs: 0,
+        };
+
+        // Баланс счетов пользователей, уменьшаемый по ходу сторно
+        const available = new Map<string, number>();
+
+        const txns = await ledgerStorage.listOrderTxns(ret.orderId);
+        for (const txn of txns) {
+            if (txn.reversedAt || txn.opType === 'refund' || txn.opType === 'hold_release') {
+                summary.txnsSkipped++;
+                continue;
+            }
+
+            const postings = await ledgerStorage.listPostings(txn.id);
+            const reversal: Parameters<typeof ledgerStorage.createReversal>[0]['postings'] = [];
+            let txnAmount = 0;
+
+            for (const p of postings) {
+                const amount = Number(p.amount);
+                const target = isFull ? amount : roundHalfUp(amount * shareAfter, 2);
+                const delta = roundHalfUp(target - roundHalfUp(amount * shareBefore, 2), 2);
+                if (delta <= 0) continue;
+
+                // Сторно уменьшает исходный дебетовый счёт. У пользователя — не ниже нуля.
+                let account = await ledgerStorage.getAccountById(p.debitAccountId);
+
+                // Холд уже освобождён — деньги на целевом счёте, сторнируем оттуда
+                if (account?.type === 'hold' && account.ownerId) {
+                    const hold = await ledgerHoldsStorage.getByTxnId(txn.id);
+                    if (hold && hold.status === 'released') {
+                        account = await ledgerStorage.ensureAccount(account.ownerId, p.currency, hold.targetType);
+                    }
+                }
+                const debitAccountId = account?.id ?? p.debitAccountId;
+                let covered = delta;
+
+                if (account?.ownerType === 'user' && account.ownerId && account.type !== 'receivable') {
+                    if (!available.has(account.id)) {
+                        available.set(account.id, await ledgerStorage.getBalance(account.id));
+                    }
+                    const balance = available.get(account.id)!;
+                    covered = roundHalfUp(Math.min(delta, Math.max(0, balance)), 2);
+                    available.set(account.id, roundHalfUp(balance - covered, 2));
+
+                    const shortfall = roundHalfUp(delta - covered, 2);
+                    if (shortfall > 0) {
+                        const receivable = await ledgerStorage.ensureAccount(
+                            account.ownerId,
+                            p.currency,
+                            'receivable'
+                        );
+                        reversal.push({
+                            debitAccountId: p.creditAccountId,
+                            creditAccountId: receivable.id,
+                            amount: shortfall,
+                            currency: p.currency,
+                            memo: `Order return ${ret.id}: receivable for ${p.id}`,
+                        });
+                        summary.receivables.push({ userId: account.ownerId, currency: p.currency, amount: shortfall });
+                    }
+                }
+
+                if (covered > 0) {
+                    reversal.push({
+                        debitAccountId: p.creditAccountId,
+                        creditAccountId: debitAccountId,
+                        amount: covered,
+                        currency: p.currency,
+                    });
+                }
+
+                summary.reversedByCurrency[p.currency] = roundHalfUp(
+                    (summary.reversedByCurrency[p.currency] ?? 0) + delta,
+                    2
+                );
+                txnAmount += delta;
+            }
+
+            if (reversal.length === 0) {
+                summary.txnsSkipped++;
+                continue;
+            }
+
+            const { created } = await ledgerStorage.createReversal({
+                originalTxnId: txn.id,
+                operationId: toOperationId(`order_return:${ret.id}:${txn.id}`),
+                reason: `Order return ${ret.kind}`,
+                postings: reversal,
+                meta: { returnId: ret.id, shareBefore, shareAfter },
+                markReversed: isFull,
+            });
+
+            if (created) {
+                summary.txnsReversed++;
+                if (BONUS_OP_TYPES.includes(txn.opType)) {
+                    summary.bonusesReversedRub = roundHalfUp(summary.bonusesReversedRub + txnAmount, 2);
+                }
+            } else {
+                summary.txnsSkipped++;
+            }
+        }
+
+        // PV с ног бинарной матрицы
+        summary.pvRemovedFromLegs = await binaryBonusService.reverseOrderVolume(ret.orderId, shareAfter);
+
+        if (summary.bonusesReversedRub > 0) {
+            await db
+                .update(orderTable)
+                .set({
+                    bonusesGrantedRub: sql`GREATEST(${orderTable.bonusesGrantedRub} - ${summary.bonusesReversedRub}, 0)`,
+                })
+                .where(eq(orderTable.id, ret.orderId));
+        }
+
+        await orderReturnsStorage.setSummary(ret.id, { ...summary });
+        await orderLoggingService.logEvent({
+            orderId: ret.orderId,
+            event: `order:return_${ret.kind}`,
+            meta: { returnId: ret.id, ...summary },
+        });
+
+        return summary;
+    }
+
+    /**
+     * Возвраты заказа с позициями
+     */
+    async listReturns(orderId: string) {
+        const returns = await orderReturnsStorage.listByOrder(orderId);
+        return Promise.all(
+            returns.map(async (r) => ({ ...r, items: await orderReturnsStorage.listItems(r.id) }))
+        );
+    }
+
+    /**
+     * Погасить долги (отрицательные счета receivable) из доступных средств пользователей
+     * @param userId - только для одного пользователя (иначе по всем должникам)
+     */
+    async settleReceivables(userId?: string): Promise<{
+        accounts: number;
+        settled: number;
+        outstanding: Record<string, number>;
+    }> {
+        const accounts = await db
+            .select()
+            .from(ledgerAccount)
+            .where(
+                and(
+                    eq(ledgerAccount.type, 'receivable'),
+                    eq(ledgerAccount.ownerType, 'user'),
+                    ...(userId ? [eq(ledgerAccount.ownerId, userId)] : [])
+                )
+            );
+
+        let settled = 0;
+        const outstanding: Record<string, number> = {};
+
+        for (const acc of accounts) {
+            if (!acc.ownerId) continue;
+            const debt = -(await ledgerStorage.getBalance(acc.id));
+            if (debt <= 0) continue;
+
+            const source = await walletService.ensureUserAccount(acc.ownerId, acc.currency, SETTLEMENT_ACCOUNT[acc.currency]);
+            const amount = roundHalfUp(Math.min(debt, await ledgerStorage.getBalance(source.id)), 2);
+
+            if (amount > 0) {
+                await walletService.transferByAccounts(acc.id, source.id, amount, acc.currency, 'adjustment', {
+                    userId: acc.ownerId,
+                    memo: 'Receivable settlement (order return)',
+                    meta: { kind: 'receivable_settlement', debtBefore: debt },
+                });
+                settled++;
+            }
+
+            const left = roundHalfUp(debt - Math.max(0, amount), 2);
+            if (left > 0) {
+                outstanding[acc.currency] = roundHalfUp((outstanding[acc.currency] ?? 0) + left, 2);
+            }
+        }
+
+        return { accounts: accounts.length, settled, outstanding };
+    }
+}
+
+export const orderReturnService = new OrderReturnService();
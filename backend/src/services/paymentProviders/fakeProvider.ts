@@ -0,0 +1,74 @@
+// backend/src/services/paymentProviders/fakeProvider.ts
+import { randomUUID } from 'crypto';
+import { paymentsStorage } from '#storage/paymentsStorage';
+import type { TinkoffReceipt } from '../tinkoff/tinkoffReceipt';
+import type { PaymentProvider, ProviderInitRequest, ProviderInitResult, ProviderRefundResult } from './types';
+
+/**
+ * Локальный провайдер для разработки и тестов: без внешнего API.
+ * Платёж ждёт подтверждения — handleNotification({ externalId, status: 'CONFIRMED' | 'REJECTED' })
+ * (в dev — POST /api/payments/fake/:externalId/confirm | fail).
+ */
+export class FakePaymentProvider implements PaymentProvider {
+    readonly name = 'fake' as const;
+    readonly methods = ['card', 'sbp'] as const;
+
+    constructor(private baseUrl = process.env.BASE_DOMAIN || 'http://localhost:5173') {}
+
+    async init(req: ProviderInitRequest): Promise<ProviderInitResult> {
+        const externalId = `fake_${randomUUID()}`;
+
+        await paymentsStorage.createPayment({
+            orderId: req.orderId,
+            method: req.method,
+            provider: this.name,
+            status: 'awaiting',
+            amountRub: req.amountRub.toFixed(2),
+            currency: 'RUB',
+            externalId,
+        });
+
+        return {
+            success: true,
+            externalId,
+            paymentUrl: `${this.baseUrl}/checkout/fake?paymentId=${externalId}`,
+            ...(req.method === 'sbp' ? { qrPayload: `https://qr.nspk.ru/fake/${externalId}` } : {}),
+        };
+    }
+
+    async getStatus(externalId: string) {
+        const pay = await paymentsStorage.getByExternalId(externalId);
+        if (!pay) return { success: false as const, error: 'Payment not found' };
+        return { success: true as const, status: pay.status };
+    }
+
+    async handleNotification(payload: Record<string, any>): Promise<{ success: boolean; error?: string }> {
+        const pay = await paymentsStorage.getByExternalId(String(payload.externalId ?? ''));
+        if (!pay || pay.provider !== this.name) return { success: false, error: 'Payment not found' };
+
+        await this.applyStatus(pay.externalId!, pay.orderId, String(payload.status ?? ''));
+        return { success: true };
+    }
+
+    /** CONFIRMED / REJECTED; повтор по завершённому платежу ничего не меняет */
+    async applyStatus(externalId: string, orderId: string, status: string): Promise<{ changed: boolean }> {
+        const pay = await paymentsStorage.getByExternalId(externalId);
+        if (!pay || pay.status !== 'awaiting') return { changed: false };
+        if (status !== 'CONFIRMED' && status !== 'REJECTED') return { changed: false };
+
+        const isPaid = status === 'CONFIRMED';
+        if (isPaid) await paymentsStorage.markCaptured(pay.id);
+        else await paymentsStorage.markFailed(pay.id, 'FAKE_REJECTED', 'Rejected by fake provider');
+
+        const { checkoutPaymentService } = await import('../checkoutPaymentService');
+        return { changed: await checkoutPaymentService.settleOrder(orderId, isPaid) };
+    }
+
+    async refund(externalId: string, data: { amountRub?: number; receipt?: TinkoffReceipt }): Promise<ProviderRefundResult> {
+        const pay = await paymentsStorage.getByExternalId(externalId);
+        if (!pay) return { success: false, error: 'Payment not found', errorCode: 'NOT_FOUND' };
+
+        const full = data.amountRub == null || data.amountRub >= Number(pay.amountRub);
+        return { success: true, status: full ? 'REFUNDED' : 'PARTIAL_REFUNDED' };
+    }
+}
@@ -0,0 +1,67 @@
+// backend/src/services/paymentProviders/index.ts
+import { tinkoffService } from '../tinkoff/tinkoffService';
+import { TinkoffProvider } from './tinkoffProvider';
+import { SbpProvider } from './sbpProvider';
+import { FakePaymentProvider } from './fakeProvider';
+import type { PaymentProvider, ProviderMethod, ProviderName } from './types';
+
+export type {
+    PaymentProvider,
+    ProviderMethod,
+    ProviderName,
+    ProviderInitRequest,
+    ProviderInitResult,
+    ProviderRefundResult,
+} from './types';
+export { TinkoffProvider, SbpProvider, FakePaymentProvider };
+
+/**
+ * Реестр провайдеров: выбор по методу оплаты (checkout) и по payment.provider (возвраты, webhook).
+ *
+ * ENV:
+ *   PAYMENT_PROVIDER_CARD — tinkoff | fake (по умолчанию tinkoff)
+ *   PAYMENT_PROVIDER_SBP  — sbp | fake     (по умолчанию sbp)
+ *   PAYMENT_FAKE_ENABLED  — true | false   (по умолчанию включён вне production)
+ */
+export class PaymentProviderRegistry {
+    private providers = new Map<ProviderName, PaymentProvider>();
+
+    constructor(providers: PaymentProvider[], private routing: Record<ProviderMethod, ProviderName>) {
+        for (const p of providers) this.providers.set(p.name, p);
+    }
+
+    has(name: string): name is ProviderName {
+        return this.providers.has(name as ProviderName);
+    }
+
+    get(name: string): PaymentProvider {
+        const p = this.providers.get(name as ProviderName);
+        if (!p) throw new Error(`Payment provider "${name}" is not available`);
+        return p;
+    }
+
+    forMethod(method: ProviderMethod): PaymentProvider {
+        const p = this.get(this.routing[method]);
+        if (!p.methods.includes(method)) {
+            throw new Error(`Payment provider "${p.name}" does not support method "${method}"`);
+        }
+        return p;
+    }
+}
+
+export const fakeProviderEnabled =
+    process.env.PAYMENT_FAKE_ENABLED !== undefined
+        ? process.env.PAYMENT_FAKE_ENABLED === 'true'
+        : process.env.NODE_ENV !== 'production';
+
+export const paymentProviders = new PaymentProviderRegistry(
+    [
+        new TinkoffProvider(tinkoffService),
+        new SbpProvider(tinkoffService),
+        ...(fakeProviderEnabled ? [new FakePaymentProvider()] : []),
+    ],
+    {
+        card: (process.env.PAYMENT_PROVIDER_CARD as ProviderName | undefined) ?? 'tinkoff',
+        sbp: (process.env.PAYMENT_PROVIDER_SBP as ProviderName | undefined) ?? 'sbp',
+    }
+);
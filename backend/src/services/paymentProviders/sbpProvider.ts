@@ -0,0 +1,55 @@
+// backend/src/services/paymentProviders/sbpProvider.ts
+import type { TinkoffPaymentService } from '../tinkoffPaymentService';
+import type { PaymentProvider, ProviderInitRequest, ProviderInitResult } from './types';
+
+/**
+ * Оплата по QR СБП через терминал Тинькофф: Init, затем GetQr (DataType=PAYLOAD).
+ * Уведомления и возвраты — те же, что у карточного платежа (один терминал).
+ */
+export class SbpProvider implements PaymentProvider {
+    readonly name = 'sbp' as const;
+    readonly methods = ['sbp'] as const;
+
+    constructor(private service: TinkoffPaymentService) {}
+
+    async init(req: ProviderInitRequest): Promise<ProviderInitResult> {
+        const created = await this.service.createPayment({
+            orderId: req.orderId,
+            amountRub: req.amountRub,
+            description: req.description,
+            method: 'sbp',
+            ...(req.customerKey ? { customerKey: req.customerKey } : {}),
+            ...(req.receipt ? { receipt: req.receipt } : {}),
+        });
+        if (!created.success) return created;
+
+        const qr = await this.service.getQr(created.paymentId);
+        if (!qr.success) {
+            // Платёж создан, но без QR: отдаём страницу оплаты — СБП доступен и на ней
+            return { success: true, externalId: created.paymentId, paymentUrl: created.paymentUrl };
+        }
+
+        return {
+            success: true,
+            externalId: created.paymentId,
+            paymentUrl: created.paymentUrl,
+            qrPayload: qr.payload,
+        };
+    }
+
+    getStatus(externalId: string) {
+        return this.service.getPaymentStatus(externalId);
+    }
+
+    handleNotification(payload: Record<string, any>) {
+        return this.service.handleNotification(payload);
+    }
+
+    applyStatus(externalId: string, orderId: string, status: string) {
+        return this.service.applyStatus(externalId, orderId, status);
+    }
+
+    refund(externalId: string, data: Parameters<TinkoffPaymentService['cancelPayment']>[1]) {
+        return this.service.cancelPayment(externalId, data);
+    }
+}
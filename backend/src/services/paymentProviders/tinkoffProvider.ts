@@ -0,0 +1,43 @@
+// backend/src/services/paymentProviders/tinkoffProvider.ts
+import type { TinkoffPaymentService } from '../tinkoffPaymentService';
+import type { PaymentProvider, ProviderInitRequest, ProviderInitResult } from './types';
+
+/**
+ * Карточный эквайринг Тинькофф (Init → PaymentURL)
+ */
+export class TinkoffProvider implements PaymentProvider {
+    readonly name = 'tinkoff' as const;
+    readonly methods = ['card'] as const;
+
+    constructor(private service: TinkoffPaymentService) {}
+
+    async init(req: ProviderInitRequest): Promise<ProviderInitResult> {
+        const result = await this.service.createPayment({
+            orderId: req.orderId,
+            amountRub: req.amountRub,
+            description: req.description,
+            method: 'card',
+            ...(req.customerKey ? { customerKey: req.customerKey } : {}),
+            ...(req.receipt ? { receipt: req.receipt } : {}),
+        });
+        if (!result.success) return result;
+
+        return { success: true, externalId: result.paymentId, paymentUrl: result.paymentUrl };
+    }
+
+    getStatus(externalId: string) {
+        return this.service.getPaymentStatus(externalId);
+    }
+
+    handleNotification(payload: Record<string, any>) {
+        return this.service.handleNotification(payload);
+    }
+
+    applyStatus(externalId: string, orderId: string, status: string) {
+        return this.service.applyStatus(externalId, orderId, status);
+    }
+
+    refund(externalId: string, data: Parameters<TinkoffPaymentService['cancelPayment']>[1]) {
+        return this.service.cancelPayment(externalId, data);
+    }
+}
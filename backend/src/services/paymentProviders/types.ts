@@ -0,0 +1,53 @@
+// backend/src/services/paymentProviders/types.ts
+import type { TinkoffReceipt } from '../tinkoff/tinkoffReceipt';
+
+/**
+ * Контракт платёжного провайдера: init / status / notify / refund.
+ * Платёж провайдера — строка payment с provider = name и externalId = id у провайдера.
+ */
+
+export type ProviderName = 'tinkoff' | 'sbp' | 'fake';
+
+/** Методы оплаты, которые закрывает внешний провайдер (wallet — только ledger) */
+export type ProviderMethod = 'card' | 'sbp';
+
+export interface ProviderInitRequest {
+    orderId: string;
+    amountRub: number;
+    description: string;
+    method: ProviderMethod;
+    customerKey?: string;
+    /** Чек 54-ФЗ на сумму amountRub */
+    receipt?: TinkoffReceipt;
+}
+
+export type ProviderInitResult =
+    | {
+          success: true;
+          externalId: string;
+          /** Страница оплаты (карта) */
+          paymentUrl?: string;
+          /** Ссылка СБП для QR-кода / перехода в приложение банка */
+          qrPayload?: string;
+      }
+    | { success: false; error: string };
+
+export type ProviderStatusResult = { success: true; status: string } | { success: false; error: string };
+
+export type ProviderRefundResult =
+    | { success: true; status: string; originalAmountRub?: number; newAmountRub?: number }
+    | { success: false; error: string; errorCode?: string };
+
+export interface PaymentProvider {
+    readonly name: ProviderName;
+    readonly methods: readonly ProviderMethod[];
+
+    init(req: ProviderInitRequest): Promise<ProviderInitResult>;
+    getStatus(externalId: string): Promise<ProviderStatusResult>;
+    /** Уведомление провайдера (webhook): статус платежа и заказа, onPaid / откат кошелька */
+    handleNotification(payload: Record<string, any>): Promise<{ success: boolean; error?: string }>;
+    /** Применить статус провайдера (getStatus при сверке); changed — изменён статус заказа */
+    applyStatus(externalId: string, orderId: string, status: string): Promise<{ changed: boolean }>;
+    /** Полный (amountRub не указан) или частичный возврат */
+    refund(externalId: string, data: { amountRub?: number; receipt?: TinkoffReceipt }): Promise<ProviderRefundResult>;
+}
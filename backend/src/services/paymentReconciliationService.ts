@@ -0,0 +1,261 @@
+// backend/src/services/paymentReconciliationService.ts
+import { and, asc, gt, inArray, isNotNull, lt, ne } from 'drizzle-orm';
+import { db } from '#db/db';
+import { payment, type Payment } from '#db/schema/payments';
+import { paymentsStorage } from '#storage/paymentsStorage';
+import ordersStorage from '#storage/ordersStorage';
+import { paymentWebhooksStorage, type WebhookOutcome } from '#storage/paymentWebhooksStorage';
+import { paymentMismatchesStorage } from '#storage/paymentMismatchesStorage';
+import { tinkoffStatusOutcome, tinkoffStatusRank, type TinkoffPaymentService } from './tinkoffPaymentService';
+import { tinkoffService } from './tinkoff/tinkoffService';
+import { paymentProviders, type PaymentProviderRegistry } from './paymentProviders';
+import { errorMonitoringService } from './errorMonitoringService';
+
+/**
+ * Payment Reconciliation Service
+ *
+ * Уведомления Тинькофф (handleTinkoffWebhook):
+ *   - каждое сохраняется в payment_webhook как пришло (в т.ч. с неверной подписью);
+ *   - повтор PaymentId + Status (для PARTIAL_REFUNDED — ещё и Amount) не обрабатывается второй раз;
+ *   - статус «назад» (AUTHORIZED после CONFIRMED, REJECTED после CONFIRMED) — stale, не применяется;
+ *   - Amount не совпадает с суммой платежа — не применяется, расхождение amount_mismatch.
+ *
+ * Сверка (reconcileStuck): платежи провайдеров в init / awaiting / authorized старше minAgeMinutes
+ * опрашиваются через getStatus; статус применяется тем же путём, что и уведомление.
+ * Исправленные и требующие разбора случаи — в payment_mismatch (отчёт для админа).
+ */
+
+export interface PaymentReconciliationConfig {
+    /** Не трогаем свежие платежи — уведомление ещё может прийти */
+    minAgeMinutes: number;
+    /** Старше — не опрашиваем (провайдер уже не изменит статус) */
+    maxAgeDays: number;
+    batchSize: number;
+}
+
+export interface ReconcileResult {
+    checked: number;
+    repaired: number;
+    mismatches: number;
+    errors: number;
+}
+
+const DEFAULT_CONFIG: PaymentReconciliationConfig = {
+    minAgeMinutes: 15,
+    maxAgeDays: 7,
+    batchSize: 100,
+};
+
+/** Незавершённые статусы платежа — кандидаты на сверку */
+const STUCK_STATUSES = ['init', 'awaiting', 'authorized'] as const;
+/** Статус заказа, который не должен остаться после успешной оплаты */
+const NOT_PAID_ORDER_STATUSES = ['new', 'pending', 'canceled'];
+
+/** Статус платежа у нас → эквивалентный статус Тинькофф (если уведомлений ещё не было) */
+const LOCAL_TO_TINKOFF: Partial<Record<Payment['status'], string>> = {
+    authorized: 'AUTHORIZED',
+    captured: 'CONFIRMED',
+    failed: 'REJECTED',
+    refunded: 'REFUNDED',
+};
+
+/** Ключ дедупликации уведомления; частичных возвратов по платежу может быть несколько */
+export function webhookDedupKey(provider: string, externalId: string, status: string, amount?: unknown): string {
+    const base = `${provider}:${externalId}:${status}`;
+    return status === 'PARTIAL_REFUNDED' && amount != null ? `${base}:${amount}` : base;
+}
+
+/**
+ * Устаревшее уведомление: ранг ниже уже применённого, либо другой финальный статус того же ранга
+ * (REJECTED после CONFIRMED и наоборот).
+ */
+export function isStatusRegression(previous: string, next: string): boolean {
+    const prev = tinkoffStatusRank(previous);
+    const cur = tinkoffStatusRank(next);
+    if (cur < prev) return true;
+    return cur === prev && next !== previous && tinkoffStatusOutcome(next) !== 'pending';
+}
+
+export class PaymentReconciliationService {
+    private config: PaymentReconciliationConfig;
+
+    constructor(
+        config: Partial<PaymentReconciliationConfig> = {},
+        private tinkoff: TinkoffPaymentService = tinkoffService,
+        private providers: PaymentProviderRegistry = paymentProviders
+    ) {
+        this.config = { ...DEFAULT_CONFIG, ...config };
+    }
+
+    /* ───────── уведомления ───────── */
+
+    async handleTinkoffWebhook(
+        body: Record<string, any>
+    ): Promise<{ success: boolean; error?: string; outcome: WebhookOutcome }> {
+        const externalId = body.PaymentId != null ? String(body.PaymentId) : null;
+        const status = body.Status != null ? String(body.Status) : null;
+
+        let check: Awaited<ReturnType<TinkoffPaymentService['verifyNotification']>>;
+        try {
+            check = await this.tinkoff.verifyNotification(body);
+        } catch (e) {
+            check = { valid: false, error: (e as Error).message };
+        }
+
+        const { webhook, duplicate } = await paymentWebhooksStorage.record({
+            provider: 'tinkoff',
+            externalId,
+            orderId: body.OrderId != null ? String(body.OrderId) : null,
+            status,
+            amountRub: typeof body.Amount === 'number' ? (body.Amount / 100).toFixed(2) : null,
+            payload: body,
+            signatureValid: check.valid,
+            dedupKey: check.valid && externalId && status ? webhookDedupKey('tinkoff', externalId, status, body.Amount) : null,
+            ...(check.valid ? {} : { outcome: 'rejected' as const, error: check.error, processedAt: new Date() }),
+        });
+
+        if (!check.valid) return { success: false, error: check.error, outcome: 'rejected' };
+        if (duplicate) return { success: true, outcome: 'duplicate' };
+
+        if (!externalId || !status) {
+            await paymentWebhooksStorage.finish(webhook.id, 'rejected', 'PaymentId or Status is missing');
+            return { success: true, outcome: 'rejected' };
+        }
+
+        const pay = await paymentsStorage.getByExternalId(externalId);
+        if (!pay) {
+            // Ответ не OK — провайдер повторит уведомление
+            await paymentWebhooksStorage.finish(webhook.id, 'failed', 'Unknown payment');
+            throw new Error(`Payment not found: ${externalId}`);
+        }
+
+        const last = await paymentWebhooksStorage.getLastProcessed('tinkoff', externalId);
+        const previous = last?.status ?? LOCAL_TO_TINKOFF[pay.status];
+        if (previous && isStatusRegression(previous, status)) {
+            await paymentWebhooksStorage.finish(webhook.id, 'stale', `Status ${status} after ${previous}`);
+            // Деньги списаны, а платёж у нас уже закрыт иначе — нужен разбор
+            if (tinkoffStatusOutcome(status) === 'paid') {
+                await this.recordMismatch(pay, 'status_regression', status, { previous, webhookId: webhook.id });
+            }
+            return { success: true, outcome: 'stale' };
+        }
+
+        const outcome = tinkoffStatusOutcome(status);
+        if ((outcome === 'paid' || outcome === 'authorized') && typeof body.Amount === 'number') {
+            const expected = Math.round(Number(pay.amountRub) * 100);
+            if (body.Amount !== expected) {
+                await paymentWebhooksStorage.finish(webhook.id, 'rejected', 'Amount mismatch');
+                await this.recordMismatch(pay, 'amount_mismatch', status, {
+                    expectedKopecks: expected,
+                    receivedKopecks: body.Amount,
+                    webhookId: webhook.id,
+                });
+                return { success: true, outcome: 'rejected' };
+            }
+        }
+
+        let changed: boolean;
+        try {
+            ({ changed } = await this.tinkoff.applyStatus(externalId, pay.orderId, status));
+        } catch (e) {
+            await paymentWebhooksStorage.finish(webhook.id, 'failed', (e as Error).message);
+            throw e;
+        }
+        await paymentWebhooksStorage.finish(webhook.id, 'processed');
+
+        if (outcome === 'paid' && !changed) await this.checkPaidOrder(pay, status);
+        return { success: true, outcome: 'processed' };
+    }
+
+    /* ───────── сверка с провайдером ───────── */
+
+    async reconcileStuck(now: Date = new Date()): Promise<ReconcileResult> {
+        const result: ReconcileResult = { checked: 0, repaired: 0, mismatches: 0, errors: 0 };
+
+        const stuck = await db
+            .select()
+            .from(payment)
+            .where(
+                and(
+                    inArray(payment.status, [...STUCK_STATUSES]),
+                    isNotNull(payment.externalId),
+                    isNotNull(payment.provider),
+                    ne(payment.provider, 'wallet'),
+                    lt(payment.createdAt, new Date(now.getTime() - this.config.minAgeMinutes * 60_000)),
+                    gt(payment.createdAt, new Date(now.getTime() - this.config.maxAgeDays * 86_400_000))
+                )
+            )
+            .orderBy(asc(payment.createdAt))
+            .limit(this.config.batchSize);
+
+        for (const pay of stuck) {
+            if (!this.providers.has(pay.provider!)) continue;
+            const provider = this.providers.get(pay.provider!);
+            result.checked++;
+
+            try {
+                const state = await provider.getStatus(pay.externalId!);
+                if (!state.success) {
+                    result.errors++;
+                    continue;
+                }
+
+                await provider.applyStatus(pay.externalId!, pay.orderId, state.status);
+
+                const after = await paymentsStorage.getById(pay.id);
+                if (!after || after.status === pay.status) continue;
+
+                // Уведомление потеряно: статус восстановлен по данным провайдера
+                result.repaired++;
+                result.mismatches++;
+                await this.recordMismatch(after, 'missed_webhook', state.status, { before: pay.status }, true);
+
+                if (after.status === 'captured' && (await this.checkPaidOrder(after, state.status))) {
+                    result.mismatches++;
+                }
+            } catch (e) {
+                result.errors++;
+                errorMonitoringService.logError('error', `Payment reconciliation failed for ${pay.id}`, e as Error);
+            }
+        }
+
+        return result;
+    }
+
+    /* ───────── helpers ───────── */
+
+    /** Оплата прошла, а заказ остался неоплаченным / отменён (например, по таймауту) */
+    private async checkPaidOrder(pay: Payment, providerStatus: string): Promise<boolean> {
+        const ord = await ordersStorage.getById(pay.orderId);
+        if (!ord || !NOT_PAID_ORDER_STATUSES.includes(ord.status)) return false;
+
+        await this.recordMismatch(pay, 'paid_order_not_paid', providerStatus, {}, false, ord.status);
+        return true;
+    }
+
+    private async recordMismatch(
+        pay: Payment,
+        kind: Parameters<typeof paymentMismatchesStorage.record>[0]['kind'],
+        providerStatus: string,
+        details: Record<string, unknown>,
+        repaired = false,
+        orderStatus?: string
+    ): Promise<void> {
+        const ord = orderStatus ? null : await ordersStorage.getById(pay.orderId);
+        await paymentMismatchesStorage.record({
+            paymentId: pay.id,
+            orderId: pay.orderId,
+            kind,
+            localStatus: pay.status,
+            providerStatus,
+            orderStatus: orderStatus ?? ord?.status ?? null,
+            details,
+            repaired,
+        });
+    }
+}
+
+export const paymentReconciliationService = new PaymentReconciliationService({
+    minAgeMinutes: Number(process.env.PAYMENT_RECONCILIATION_MIN_AGE_MINUTES || 15),
+    batchSize: Number(process.env.PAYMENT_RECONCILIATION_BATCH_SIZE || 100),
+});
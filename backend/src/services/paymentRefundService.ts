@@ -0,0 +1,248 @@
+// backend/src/services/paymentRefundService.ts
+import { asc, eq } from 'drizzle-orm';
+import { db } from '#db/db';
+import { orderItem } from '#db/schema/orderItem';
+import type { PaymentRefund } from '#db/schema/payments';
+import type { OrderReturn } from '#db/schema/orderReturns';
+import { paymentsStorage } from '#storage/paymentsStorage';
+import { paymentRefundsStorage } from '#storage/paymentRefundsStorage';
+import { orderReturnsStorage } from '#storage/orderReturnsStorage';
+import { AppError, AppErrorCode } from '../middleware/errorHandler';
+import { paymentProviders, type PaymentProviderRegistry, type ProviderRefundResult } from './paymentProviders';
+import { tinkoffReceiptService, type TinkoffReceiptService } from './tinkoff/tinkoffReceipt';
+import { orderReturnService, type ReturnItemInput, type ReturnSummary } from './orderReturnService';
+import { errorMonitoringService } from './errorMonitoringService';
+
+/**
+ * Payment Refund Service
+ * Возврат денег по платежу провайдера (карта / СБП) — полный или частичный по позициям
+ *
+ *   1. сумма и чек возврата — из раскладки чека прихода (tinkoffReceiptService.forRefund)
+ *   2. payment_refund (pending) по idempotency_key — повтор запроса не вызывает Cancel второй раз
+ *   3. refund у провайдера платежа (payment.provider; у Тинькофф — Cancel) → succeeded / failed
+ *   4. после успеха — order_return (статус returned_partial / returned_full, сторно начислений)
+ *
+ * Если Cancel не ответил (сеть), заявка остаётся pending и завершается уведомлением
+ * REFUNDED / PARTIAL_REFUNDED (onProviderRefund). Шаг 4 повторяется, пока не создан order_return.
+ */
+
+export interface RefundInput {
+    /** Не указано — весь невозвращённый остаток заказа */
+    items?: ReturnItemInput[];
+    includeDelivery?: boolean;
+    reason?: string;
+    restock?: boolean;
+    idempotencyKey: string;
+    createdBy?: string;
+}
+
+export interface RefundResult {
+    refund: PaymentRefund;
+    orderReturn: OrderReturn | null;
+    summary: ReturnSummary | null;
+    /** Заявка с этим idempotency_key уже была */
+    duplicate: boolean;
+}
+
+const EPSILON = 0.005;
+
+export class PaymentRefundService {
+    constructor(
+        private providers: PaymentProviderRegistry = paymentProviders,
+        private receipts: TinkoffReceiptService = tinkoffReceiptService
+    ) {}
+
+    async refund(paymentId: string, input: RefundInput): Promise<RefundResult> {
+        const existing = await paymentRefundsStorage.getByIdempotencyKey(input.idempotencyKey);
+        if (existing) {
+            if (existing.paymentId !== paymentId) {
+                throw new AppError(AppErrorCode.DUPLICATE_ENTRY, 'Idempotency key is used by another payment', 409);
+            }
+            return this.completeReturn(existing, true);
+        }
+
+        const pay = await paymentsStorage.getById(paymentId);
+        if (!pay) throw new AppError(AppErrorCode.NOT_FOUND, 'Payment not found', 404);
+        // Карточные платежи до появления payment.provider — Тинькофф
+        const providerName = pay.provider ?? (pay.method === 'card' ? 'tinkoff' : null);
+        if (!pay.externalId || !providerName || !this.providers.has(providerName)) {
+            throw new AppError(AppErrorCode.VALIDATION_ERROR, 'Only provider payments can be refunded via provider', 400);
+        }
+        const provider = this.providers.get(providerName);
+        if (pay.status !== 'captured') {
+            throw new AppError(AppErrorCode.VALIDATION_ERROR, `Payment in status "${pay.status}" cannot be refunded`, 409);
+        }
+
+        const items = await this.resolveItems(pay.orderId, input.items);
+        const returned = await orderReturnsStorage.getReturnedByItem(pay.orderId);
+        const paidRub = Number(pay.amountRub);
+
+        let refundDraft: Awaited<ReturnType<TinkoffReceiptService['forRefund']>>;
+        try {
+            refundDraft = await this.receipts.forRefund(
+                pay.orderId,
+                items.map((i) => ({
+                    orderItemId: i.orderItemId,
+                    qty: i.qty,
+                    qtyBefore: returned.get(i.orderItemId)?.qty ?? 0,
+                })),
+                { paidRub, ...(input.includeDelivery ? { includeDelivery: true } : {}) }
+            );
+        } catch (e) {
+            throw new AppError(AppErrorCode.VALIDATION_ERROR, (e as Error).message, 400);
+        }
+
+        const { receipt, amountRub } = refundDraft;
+        const alreadyRefunded = await paymentRefundsStorage.sumActiveForPayment(pay.id);
+        if (!(amountRub > 0)) {
+            throw new AppError(AppErrorCode.VALIDATION_ERROR, 'Nothing to refund', 400);
+        }
+        if (alreadyRefunded + amountRub > paidRub + EPSILON) {
+            throw new AppError(
+                AppErrorCode.VALIDATION_ERROR,
+                'Refund exceeds captured amount',
+                409,
+                { paidRub, alreadyRefunded, amountRub }
+            );
+        }
+
+        const { refund, created } = await paymentRefundsStorage.create({
+            paymentId: pay.id,
+            orderId: pay.orderId,
+            amountRub: amountRub.toFixed(2),
+            idempotencyKey: input.idempotencyKey,
+            items,
+            includeDelivery: !!input.includeDelivery,
+            restock: input.restock ?? true,
+            receipt,
+            reason: input.reason ?? null,
+            createdBy: input.createdBy ?? null,
+        });
+        // Параллельный запрос с тем же ключом успел раньше
+        if (!created) return this.completeReturn(refund, true);
+
+        let result: ProviderRefundResult;
+        try {
+            result = await provider.refund(pay.externalId, {
+                amountRub,
+                ...(receipt ? { receipt } : {}),
+            });
+        } catch (e) {
+            errorMonitoringService.logError('error', `Refund ${refund.id}: ${provider.name} refund request failed`, e as Error);
+            throw new AppError(
+                AppErrorCode.EXTERNAL_SERVICE_ERROR,
+                'Refund is pending: payment provider did not respond',
+                502,
+                { refundId: refund.id }
+            );
+        }
+
+        if (!result.success) {
+            await paymentRefundsStorage.finish(refund.id, {
+                status: 'failed',
+                errorCode: result.errorCode ?? null,
+                errorMessage: result.error,
+            });
+            throw new AppError(AppErrorCode.EXTERNAL_SERVICE_ERROR, `Refund failed: ${result.error}`, 502, {
+                refundId: refund.id,
+                errorCode: result.errorCode,
+            });
+        }
+
+        const done = await this.markSucceeded(refund, pay.id, paidRub, result.status);
+        return this.completeReturn(done, false);
+    }
+
+    /**
+     * Уведомление провайдера о возврате: завершить самую раннюю pending-заявку по платежу.
+     * Повторное уведомление ничего не меняет (finish — только из pending, order_return — один раз).
+     */
+    async onProviderRefund(externalPaymentId: string, providerStatus: string): Promise<void> {
+        const pay = await paymentsStorage.getByExternalId(externalPaymentId);
+        if (!pay) return;
+
+        const refunds = await paymentRefundsStorage.listByPayment(pay.id);
+        const pending = refunds.filter((r) => r.status === 'pending').at(-1);
+
+        if (pending) {
+            const done = await this.markSucceeded(pending, pay.id, Number(pay.amountRub), providerStatus);
+            await this.completeReturn(done, false);
+        } else {
+            // Заявка уже завершена — только догоняем order_return, если он не создан
+            for (const r of refunds.filter((x) => x.status === 'succeeded' && !x.returnId)) {
+                await this.completeReturn(r, true);
+            }
+        }
+
+        if (providerStatus === 'REFUNDED' && pay.status !== 'refunded') {
+            await paymentsStorage.markRefunded(pay.id);
+        }
+    }
+
+    listForPayment(paymentId: string): Promise<PaymentRefund[]> {
+        return paymentRefundsStorage.listByPayment(paymentId);
+    }
+
+    private async markSucceeded(
+        refund: PaymentRefund,
+        paymentId: string,
+        paidRub: number,
+        providerStatus: string
+    ): Promise<PaymentRefund> {
+        const done = (await paymentRefundsStorage.finish(refund.id, { status: 'succeeded', providerStatus })) ??
+            (await paymentRefundsStorage.getById(refund.id))!;
+
+        const refundedTotal = await paymentRefundsStorage.sumActiveForPayment(paymentId);
+        if (refundedTotal >= paidRub - EPSILON) {
+            await paymentsStorage.markRefunded(paymentId);
+        }
+        return done;
+    }
+
+    /** Возврат заказа по успешной заявке (сторно бонусов, статус заказа), если ещё не создан */
+    private async completeReturn(refund: PaymentRefund, duplicate: boolean): Promise<RefundResult> {
+        if (refund.status !== 'succeeded') {
+            return { refund, orderReturn: null, summary: null, duplicate };
+        }
+
+        if (refund.returnId) {
+            const ret = await orderReturnsStorage.getById(refund.returnId);
+            return { refund, orderReturn: ret, summary: (ret?.summary as ReturnSummary | null) ?? null, duplicate };
+        }
+
+        const { orderReturn, summary } = await orderReturnService.createReturn(refund.orderId, {
+            ...(refund.items ? { items: refund.items } : {}),
+            ...(refund.reason ? { reason: refund.reason } : {}),
+            restock: refund.restock,
+            ...(refund.createdBy ? { createdBy: refund.createdBy } : {}),
+            allowUndelivered: true,
+        });
+        await paymentRefundsStorage.setReturn(refund.id, orderReturn.id);
+
+        return { refund: { ...refund, returnId: orderReturn.id }, orderReturn, summary, duplicate };
+    }
+
+    /** Позиции возврата: указанные или весь невозвращённый остаток */
+    private async resolveItems(orderId: string, items?: ReturnItemInput[]) {
+        if (items) {
+            return items.map((i) => ({
+                orderItemId: i.orderItemId,
+                qty: i.qty,
+                ...(i.restock !== undefined ? { restock: i.restock } : {}),
+            }));
+        }
+
+        const [rows, returned] = await Promise.all([
+            db.select().from(orderItem).where(eq(orderItem.orderId, orderId)).orderBy(asc(orderItem.createdAt)),
+            orderReturnsStorage.getReturnedByItem(orderId),
+        ]);
+        const rest = rows
+            .map((r) => ({ orderItemId: r.id, qty: r.qty - (returned.get(r.id)?.qty ?? 0) }))
+            .filter((r) => r.qty > 0);
+
+        if (rest.length === 0) throw new AppError(AppErrorCode.VALIDATION_ERROR, 'Nothing to refund', 400);
+        return rest;
+    }
+}
+
+export const paymentRefundService = new PaymentRefundService();
@@ -2,106 +2,51 @@
 import { db } from '#db/db';
 import { order } from '#db/schema/orders';
 import { payment } from '#db/schema/payments';
-import { and, eq, lt, sql } from 'drizzle-orm';
+import { and, eq, inArray, lt, sql } from 'drizzle-orm';
 import ordersStorage from '#storage/ordersStorage';
+import { stockReservationsStorage } from '#storage/stockReservationsStorage';
 import { promoCodeService } from './promoCodeService';
-
-// 🔐 Distributed Lock
-import { createClient } from 'redis';
-// @ts-ignore — redlock типы несовместимы с redis v4, но всё работает
-import Redlock from 'redlock';
-
-const redisUrl = process.env.REDIS_URL ?? "redis://localhost:6379";
-const redisClient: any = createClient({ url: redisUrl });
-
-// Redis client — singleton
-redisClient.connect().catch((err: any) =>
-    console.error('Redis connection error in PaymentTimeoutWorker:', err)
-);
-
-// Redlock instance
-const redlock: any = new Redlock([redisClient], {
-    retryCount: 0,
-    retryDelay: 200,
-    retryJitter: 200,
-});
+import { checkoutPaymentService } from './checkoutPaymentService';
 
 export interface PaymentTimeoutWorkerConfig {
     paymentTimeoutMinutes: number;
-    workerIntervalMs: number;
     batchSize: number;
     enableLogging: boolean;
 }
 
+// Часть смешанной оплаты с баланса (checkoutPaymentService) — её закрывает rollbackWalletLeg
+const WALLET_PROVIDER = 'wallet';
+
 const DEFAULT_CONFIG: PaymentTimeoutWorkerConfig = {
     paymentTimeoutMinutes: 30,
-    workerIntervalMs: 5 * 60 * 1000,
     batchSize: 50,
     enableLogging: true,
 };
 
+/**
+ * Отмена неоплаченных заказов по таймауту и снятие просроченных резервов товара.
+ * Срок резерва (stockReservationService) равен таймауту оплаты.
+ * Периодичность и распределённая блокировка — на стороне jobScheduler (задача 'payment-timeout').
+ */
 export class PaymentTimeoutWorker {
     private config: PaymentTimeoutWorkerConfig;
-    private intervalId: NodeJS.Timeout | null = null;
 
     constructor(config: Partial<PaymentTimeoutWorkerConfig> = {}) {
         this.config = { ...DEFAULT_CONFIG, ...config };
     }
 
-    start(): void {
-        if (this.intervalId) {
-            this.log('Worker already running');
-            return;
-        }
-
-        this.log(`Starting payment-timeout-worker (${this.config.paymentTimeoutMinutes}min timeout)`);
-
-        this.runOnce().catch((err) => console.error('PaymentTimeoutWorker error:', err));
-
-        this.intervalId = setInterval(() => {
-            this.runOnce().catch((err) => console.error('PaymentTimeoutWorker error:', err));
-        }, this.config.workerIntervalMs);
-    }
-
-    stop(): void {
-        if (this.intervalId) {
-            clearInterval(this.intervalId);
-            this.intervalId = null;
-            this.log('Payment timeout worker stopped');
-        }
-    }
-
-    async runOnce(): Promise<{ processed: number; errors: number }> {
-        let lock: any = null;
-
-        try {
-            try {
-                lock = await redlock.acquire(['locks:payment-timeout-worker'], 60000);
-            } catch {
-                this.log('⚠️ Another worker holds the distributed lock — skipping run');
-                return { processed: 0, errors: 0 };
-            }
-
-            return await this.processTimeouts();
-        } finally {
-            if (lock) {
-                try {
-                    await (lock as any).release();
-                } catch (err) {
-                    console.error('Failed to release payment-timeout-worker lock:', err);
-                }
-            }
-        }
+    /** Сколько заказ ждёт оплаты; на столько же держится резерв товара */
+    get timeoutMs(): number {
+        return this.config.paymentTimeoutMinutes * 60 * 1000;
     }
 
-    async processTimeouts(): Promise<{ processed: number; errors: number }> {
+    async processTimeouts(): Promise<{ processed: number; errors: number; releasedReservations: number }> {
         let processed = 0;
         let errors = 0;
+        let releasedReservations = 0;
 
         try {
-            const timeoutThreshold = new Date(
-                Date.now() - this.config.paymentTimeoutMinutes * 60 * 1000
-            );
+            const timeoutThreshold = new Date(Date.now() - this.timeoutMs);
 
             const timedOutOrders = await db
                 .select({
@@ -149,15 +94,23 @@ export class PaymentTimeoutWorker {
             }
 
             this.log(`Processed ${processed} orders, ${errors} errors`);
+
+            // Заказы с платежом в ожидании не отменяются, но их резерв по сроку снимается
+            releasedReservations = (await stockReservationsStorage.releaseExpired()).length;
+            if (releasedReservations > 0) this.log(`Released ${releasedReservations} expired stock reservations`);
         } catch (err) {
             console.error('Payment timeout worker error:', err);
             errors++;
         }
 
-        return { processed, errors };
+        return { processed, errors, releasedReservations };
     }
 
     private async cancelTimedOutOrder(orderId: string): Promise<void> {
+        // Смешанная оплата: списанная с баланса часть возвращается (refunded), иначе деньги
+        // пользователя остались бы в отменённом заказе — rollbackWalletLeg берёт только captured
+        await checkoutPaymentService.rollbackWalletLeg(orderId, 'payment timeout');
+
         return db.transaction(async (tx) => {
             await promoCodeService.cancelPromoCodeUsage(orderId);
 
@@ -175,16 +128,13 @@ export class PaymentTimeoutWorker {
                 .where(
                     and(
                         eq(payment.orderId, orderId),
-                        sql`${payment.status} NOT IN ('succeeded', 'refunded', 'canceled')`
+                        inArray(payment.status, ['init', 'awaiting', 'authorized']),
+                        sql`${payment.provider} IS DISTINCT FROM ${WALLET_PROVIDER}`
                     )
                 );
         });
     }
 
-    async runManual(): Promise<{ processed: number; errors: number }> {
-        return this.runOnce();
-    }
-
     private log(msg: string) {
         if (this.config.enableLogging) {
             console.log(`[PaymentTimeoutWorker] ${msg}`);
@@ -192,12 +142,8 @@ export class PaymentTimeoutWorker {
     }
 }
 
-export const paymentTimeoutWorker = new PaymentTimeoutWorker();
-
-export function initPaymentTimeoutWorker(config?: Partial<PaymentTimeoutWorkerConfig>): void {
-    const worker = config ? new PaymentTimeoutWorker(config) : paymentTimeoutWorker;
-    worker.start();
-
-    process.on('SIGTERM', () => worker.stop());
-    process.on('SIGINT', () => worker.stop());
-}
+export const paymentTimeoutWorker = new PaymentTimeoutWorker({
+    paymentTimeoutMinutes: Number(process.env.PAYMENT_TIMEOUT_MINUTES || 30),
+    batchSize: Number(process.env.PAYMENT_TIMEOUT_BATCH_SIZE || 50),
+    enableLogging: process.env.PAYMENT_TIMEOUT_LOGGING !== 'false',
+});
@@ -0,0 +1,129 @@
+// backend/src/services/productBundleService.ts
+import { db } from '#db/db';
+import { product } from '#db/schema/products';
+import { productVariant } from '#db/schema/productVariants';
+import { eq, inArray } from 'drizzle-orm';
+import {
+    productBundlesStorage,
+    allocateBundlePrice,
+    bundlePvEach,
+    bundleStock,
+    type BundleComponent,
+    type BundleItemInput,
+} from '#storage/productBundlesStorage';
+import { productVariantsStorage } from '#storage/productVariantsStorage';
+import { stockReservationsStorage, stockKey } from '#storage/stockReservationsStorage';
+import { AppError, AppErrorCode } from '../middleware/errorHandler';
+
+/**
+ * Product Bundle Service
+ * Набор — товар со своей ценой и PV, собранный из других товаров. Своего остатка у набора нет:
+ * доступно наборов = min(доступно компонента / штук в наборе). Наборы из наборов не собираются,
+ * у набора не бывает вариантов.
+ */
+
+export interface BundleView {
+    items: Array<BundleComponent & { allocatedRub: number }>;
+    /** Сколько наборов доступно к продаже сейчас */
+    available: number;
+    pvEach: number;
+}
+
+export class ProductBundleService {
+    async get(bundleId: string): Promise<BundleView> {
+        const [row] = await db
+            .select({ price: product.price, isPvEligible: product.isPvEligible, customPv: product.customPv })
+            .from(product)
+            .where(eq(product.id, bundleId))
+            .limit(1);
+        if (!row) throw new AppError(AppErrorCode.NOT_FOUND, 'Product not found', 404);
+
+        const components = (await productBundlesStorage.listComponents([bundleId])).get(bundleId) ?? [];
+        const shares = allocateBundlePrice(Number(row.price), components);
+        const reserved = await stockReservationsStorage.reservedByItem(components, {});
+
+        return {
+            items: components.map((c, i) => ({ ...c, allocatedRub: shares[i]! })),
+            available: bundleStock(components, reserved),
+            pvEach: components.length ? bundlePvEach(row, components, shares) : 0,
+        };
+    }
+
+    /** Задать состав набора целиком; пустой состав — обычный товар */
+    async setItems(bundleId: string, items: BundleItemInput[]): Promise<BundleView> {
+        await db.transaction(async (tx) => {
+            const [prod] = await tx
+                .select({ stock: product.stock, isBundle: product.isBundle })
+                .from(product)
+                .where(eq(product.id, bundleId))
+                .for('update');
+            if (!prod) throw new AppError(AppErrorCode.NOT_FOUND, 'Product not found', 404);
+
+            if (items.length > 0 && !prod.isBundle) {
+                if (prod.stock > 0) {
+                    throw new AppError(
+                        AppErrorCode.VALIDATION_ERROR,
+                        `Product has ${prod.stock} in stock, write it off before making it a bundle`,
+                        409,
+                        { stock: prod.stock }
+                    );
+                }
+                if ((await productVariantsStorage.productsWithVariants([bundleId], tx)).size > 0) {
+                    throw new AppError(AppErrorCode.VALIDATION_ERROR, 'Product with variants cannot be a bundle', 409);
+                }
+                if (await productBundlesStorage.isComponent(bundleId, tx)) {
+                    throw new AppError(AppErrorCode.VALIDATION_ERROR, 'Product is a component of another bundle', 409);
+                }
+            }
+
+            await this.assertComponents(bundleId, items, tx);
+            await productBundlesStorage.replace(bundleId, items, tx);
+        });
+        return this.get(bundleId);
+    }
+
+    private async assertComponents(bundleId: string, items: BundleItemInput[], tx: Parameters<Parameters<typeof db.transaction>[0]>[0]) {
+        if (items.length === 0) return;
+
+        const keys = items.map((i) => stockKey(i));
+        if (new Set(keys).size !== keys.length) {
+            throw new AppError(AppErrorCode.VALIDATION_ERROR, 'Duplicate components in bundle', 400);
+        }
+        if (items.some((i) => i.productId === bundleId)) {
+            throw new AppError(AppErrorCode.VALIDATION_ERROR, 'Bundle cannot contain itself', 400);
+        }
+
+        const productIds = [...new Set(items.map((i) => i.productId))];
+        const products = await tx
+            .select({ id: product.id, isBundle: product.isBundle })
+            .from(product)
+            .where(inArray(product.id, productIds));
+        const byId = new Map(products.map((p) => [p.id, p]));
+        const variantIds = items.map((i) => i.variantId).filter((v): v is string => !!v);
+        const variants = variantIds.length
+            ? await tx
+                  .select({ id: productVariant.id, productId: productVariant.productId })
+                  .from(productVariant)
+                  .where(inArray(productVariant.id, variantIds))
+            : [];
+        const variantProduct = new Map(variants.map((v) => [v.id, v.productId]));
+        const withVariants = await productVariantsStorage.productsWithVariants(productIds, tx);
+
+        for (const it of items) {
+            const p = byId.get(it.productId);
+            if (!p) throw new AppError(AppErrorCode.NOT_FOUND, `Product ${it.productId} not found`, 404);
+            if (p.isBundle) {
+                throw new AppError(AppErrorCode.VALIDATION_ERROR, `Product ${it.productId} is a bundle, nested bundles are not supported`, 409);
+            }
+            if (it.variantId) {
+                if (variantProduct.get(it.variantId) !== it.productId) {
+                    throw new AppError(AppErrorCode.NOT_FOUND, `Variant ${it.variantId} of product ${it.productId} not found`, 404);
+                }
+            } else if (withVariants.has(it.productId)) {
+                throw new AppError(AppErrorCode.VALIDATION_ERROR, `Product ${it.productId} has variants, variantId is required`, 400);
+            }
+        }
+    }
+}
+
+export const productBundleService = new ProductBundleService();
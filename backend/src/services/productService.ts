@@ -7,9 +7,20 @@ import {
     type NewProduct as DBNewProduct,
 } from '#db/schema/products';
 import { category } from '#db/schema/categories';
+import { productVariant, type ProductVariant } from '#db/schema/productVariants';
 import { uploadedMedia } from '#db/schema/media';
 import { productStatusEnum, uiStatusEnum } from '#db/schema/enums';
 import { settlementSettingsRuntime } from '#config/settlementSettings';
+import {
+    productBundlesStorage,
+    allocateBundlePrice,
+    bundlePvEach,
+    bundleStock,
+    toPublicBundleItem,
+    type BundleComponent,
+    type PublicBundleItem,
+} from '#storage/productBundlesStorage';
+import { productSearchWhere } from '#storage/productsStorage';
 
 // ===== Если есть промо — оставь true и проверь импорт. Иначе поставь false и закомментируй блоки =====
 const PROMOTIONS_ENABLED = true;
@@ -21,6 +32,26 @@ type ProductRow = Omit<DBProduct, 'images'> & { images: ProductImageRef[] };
 
 type SortKey = 'newest' | 'price_asc' | 'price_desc';
 
+export type PublicVariantDTO = {
+    id: string;
+    name: string;
+    size: string | null;
+    flavor: string | null;
+    packCount: number | null;
+    sku: string | null;
+    stock: number;
+
+    priceRub: number;
+    effectivePriceRub: number;
+    discountPercent: number | null;
+
+    pvEach: number;
+    cashbackRub: number;
+
+    primaryImageUrl: string | null;
+};
+
+/** У товара с вариантами цена / PV / кэшбек — самого дешёвого варианта («от»), stock — сумма по вариантам */
 export type PublicProductDTO = {
     id: string;
     slug: string;
@@ -35,6 +66,9 @@ export type PublicProductDTO = {
     cashbackRub: number;
 
     primaryImageUrl: string | null;
+    variants: PublicVariantDTO[];
+    /** Состав набора; stock набора — сколько наборов собирается из остатков компонентов */
+    bundleItems: PublicBundleItem[];
 };
 
 export type AdminProductDTO = {
@@ -46,6 +80,11 @@ export type AdminProductDTO = {
     cashbackRub: number;
     primaryImageUrl: string | null;
     gallery: Array<{ url: string; role?: 'main' | 'gallery'; alt?: string; sortOrder?: number }>;
+    /** Активные варианты (публичная карточка) */
+    variants?: PublicVariantDTO[];
+    /** Состав набора и сколько наборов в наличии */
+    bundleItems?: PublicBundleItem[];
+    bundleStock?: number;
 };
 
 export type ListParams = {
@@ -189,11 +228,22 @@ function computeEffectivePrice(basePrice: number, promo?: PromoRow): { effective
     return { effective: round2(eff), discountPercent: pct || null };
 }
 
+/** Фикс-цена акции задана для товара — вариант получает ту же скидку пропорционально своей цене */
+function computeVariantPrice(variantPrice: number, productPrice: number, promo?: PromoRow) {
+    if (promo?.fixedPriceRub != null && productPrice > 0) {
+        const { effective, discountPercent } = computeEffectivePrice(productPrice, promo);
+        return { effective: round2(variantPrice * (effective / productPrice)), discountPercent };
+    }
+    return computeEffectivePrice(variantPrice, promo);
+}
+
 /** ВАЖНО: customCashback в БД хранится как ПРОЦЕНТЫ (0..100) */
-function computePvAndCashback(effectivePriceRub: number, row: ProductRow) {
-    const pvEach = row.isPvEligible
-        ? (row.customPv ?? Math.floor(effectivePriceRub / settlementSettingsRuntime.pvRubPerPv))
-        : 0;
+function computePvAndCashback(effectivePriceRub: number, row: ProductRow, components?: BundleComponent[]) {
+    const pvEach = components
+        ? bundlePvEach(row, components, allocateBundlePrice(effectivePriceRub, components))
+        : row.isPvEligible
+            ? (row.customPv ?? Math.floor(effectivePriceRub / settlementSettingsRuntime.pvRubPerPv))
+            : 0;
 
     const percent =
         row.customCashback != null
@@ -204,6 +254,52 @@ function computePvAndCashback(effectivePriceRub: number, row: ProductRow) {
     return { pvEach, cashbackRub };
 }
 
+async function loadActiveVariants(productIds: string[]): Promise<Map<string, ProductVariant[]>> {
+    const map = new Map<string, ProductVariant[]>();
+    if (productIds.length === 0) return map;
+    const rows = await db
+        .select()
+        .from(productVariant)
+        .where(and(inArray(productVariant.productId, productIds), eq(productVariant.isActive, true)))
+        .orderBy(asc(productVariant.sortOrder), asc(productVariant.createdAt));
+    for (const v of rows) map.set(v.productId, [...(map.get(v.productId) ?? []), v]);
+    return map;
+}
+
+/** Вариант на витрине: своя цена, PV / кэшбек — свои или товара, картинка — своя или товара */
+function composeVariantDTO(
+    v: ProductVariant,
+    row: ProductRow,
+    promo: PromoRow | undefined,
+    mediaMap: Map<string, string>,
+    productImageUrl: string | null,
+): PublicVariantDTO {
+    const price = num(v.price);
+    const { effective, discountPercent } = computeVariantPrice(price, num(row.price), promo);
+    const { pvEach, cashbackRub } = computePvAndCashback(effective, {
+        ...row,
+        customPv: v.customPv ?? row.customPv,
+        customCashback: v.customCashback ?? row.customCashback,
+    });
+    const imageId = pickPrimaryImageId(v.images as ProductImageRef[]);
+
+    return {
+        id: v.id,
+        name: v.name,
+        size: v.size,
+        flavor: v.flavor,
+        packCount: v.packCount,
+        sku: v.sku,
+        stock: v.stock,
+        priceRub: round2(price),
+        effectivePriceRub: effective,
+        discountPercent,
+        pvEach,
+        cashbackRub,
+        primaryImageUrl: (imageId ? mediaMap.get(imageId) : null) ?? productImageUrl,
+    };
+}
+
 const publicCache = new TTLCache<{ items: PublicProductDTO[]; total: number }>();
 const productBySlugCache = new TTLCache<AdminProductDTO>();
 
@@ -212,7 +308,7 @@ export const productService = {
     async listPublic(params: ListParams = {}): Promise<{ items: PublicProductDTO[]; total: number }> {
         const { q, categoryId, categorySlug, limit = 20, offset = 0, sort = 'newest' } = params;
 
-        const cacheKey = JSON.stringify({ q, categoryId, categorySlug, limit, offset, sort, v: 3 });
+        const cacheKey = JSON.stringify({ q, categoryId, categorySlug, limit, offset, sort, v: 5 });
         const cached = publicCache.get(cacheKey);
         if (cached) return cached;
 
@@ -221,17 +317,21 @@ export const productService = {
             eq(product.uiStatus, 'active' as (typeof uiStatusEnum.enumValues)[number]),
         ];
 
-        if (q) {
-            const qv = `%${q.trim()}%`;
-            whereParts.push(sql`(${product.name} ILIKE ${qv} OR ${product.description} ILIKE ${qv})`);
+        if (q?.trim()) {
+            whereParts.push(productSearchWhere(q));
         }
         if (categoryId) {
             whereParts.push(eq(product.categoryId, categoryId));
         }
 
+        // Цена товара с вариантами — «от»: минимальная среди активных вариантов
+        const priceFrom = sql`coalesce((
+            SELECT min(${productVariant.price}) FROM ${productVariant}
+            WHERE ${productVariant.productId} = ${product.id} AND ${productVariant.isActive}
+        ), ${product.price})`;
         let orderBy: any = desc(product.createdAt);
-        if (sort === 'price_asc') orderBy = asc(product.price);
-        if (sort === 'price_desc') orderBy = desc(product.price);
+        if (sort === 'price_asc') orderBy = asc(priceFrom);
+        if (sort === 'price_desc') orderBy = desc(priceFrom);
 
         // ===== total (с optional join по slug) =====
         let total: number;
@@ -261,6 +361,7 @@ export const productService = {
                 isPvEligible: product.isPvEligible,
                 customPv: product.customPv,
                 customCashback: product.customCashback, // проценты
+                isBundle: product.isBundle,
                 images: product.images,
             })
             .from(product);
@@ -278,33 +379,47 @@ export const productService = {
                 .limit(limit)
                 .offset(offset)) as unknown as ProductRow[];
 
-        // промо по всем сразу
+        // промо и активные варианты по всем сразу
         const promosMap = PROMOTIONS_ENABLED ? await loadActivePromotions(rows.map((r) => r.id)) : new Map<string, PromoRow>();
-
-        // первичные картинки батчом
-        const primaryIds = rows.map((r) => pickPrimaryImageId(r.images)).filter(Boolean) as string[];
+        const variantsMap = await loadActiveVariants(rows.map((r) => r.id));
+        const bundlesMap = await productBundlesStorage.listComponents(rows.filter((r) => r.isBundle).map((r) => r.id));
+
+        // первичные картинки батчом (у вариантов — свои, если заданы)
+        const primaryIds = [
+            ...rows.map((r) => pickPrimaryImageId(r.images)),
+            ...[...variantsMap.values()].flat().map((v) => pickPrimaryImageId(v.images as ProductImageRef[])),
+        ].filter(Boolean) as string[];
         const mediaMap = await batchResolveMediaUrls([...new Set(primaryIds)]);
 
         const items: PublicProductDTO[] = rows.map((r) => {
             const basePrice = num(r.price);
             const promo = promosMap.get(r.id);
             const { effective, discountPercent } = computeEffectivePrice(basePrice, promo);
-            const { pvEach, cashbackRub } = computePvAndCashback(effective, r);
+            const components = bundlesMap.get(r.id);
+            const { pvEach, cashbackRub } = computePvAndCashback(effective, r, components);
 
             const primaryId = pickPrimaryImageId(r.images);
             const primaryImageUrl = primaryId ? mediaMap.get(primaryId) ?? null : null;
 
+            const variants = (variantsMap.get(r.id) ?? []).map((v) => composeVariantDTO(v, r, promo, mediaMap, primaryImageUrl));
+            const cheapest = variants.reduce<PublicVariantDTO | null>(
+                (min, v) => (!min || v.effectivePriceRub < min.effectivePriceRub ? v : min),
+                null,
+            );
+
             return {
                 id: r.id,
                 slug: r.slug,
                 name: r.name,
-                stock: r.stock,
-                priceRub: round2(basePrice),
-                effectivePriceRub: effective,
-                discountPercent,
-                pvEach,
-                cashbackRub,
+                stock: components ? bundleStock(components) : cheapest ? variants.reduce((sum, v) => sum + v.stock, 0) : r.stock,
+                priceRub: cheapest ? cheapest.priceRub : round2(basePrice),
+                effectivePriceRub: cheapest ? cheapest.effectivePriceRub : effective,
+                discountPercent: cheapest ? cheapest.discountPercent : discountPercent,
+                pvEach: cheapest ? cheapest.pvEach : pvEach,
+                cashbackRub: cheapest ? cheapest.cashbackRub : cashbackRub,
                 primaryImageUrl,
+                variants,
+                bundleItems: components?.map(toPublicBundleItem) ?? [],
             };
         });
 
@@ -334,6 +449,23 @@ export const productService = {
         if (!row) return null;
 
         const dto = await this._toAdminDTO(row);
+
+        const variantRows = (await loadActiveVariants([row.id])).get(row.id) ?? [];
+        if (variantRows.length > 0) {
+            const promosMap = PROMOTIONS_ENABLED ? await loadActivePromotions([row.id]) : new Map<string, PromoRow>();
+            const mediaMap = await batchResolveMediaUrls(
+                variantRows.map((v) => pickPrimaryImageId(v.images as ProductImageRef[])).filter(Boolean) as string[],
+            );
+            dto.variants = variantRows.map((v) => composeVariantDTO(v, row, promosMap.get(row.id), mediaMap, dto.primaryImageUrl));
+        } else {
+            dto.variants = [];
+        }
+        if (row.isBundle) {
+            const components = (await productBundlesStorage.listComponents([row.id])).get(row.id) ?? [];
+            dto.pvEach = computePvAndCashback(dto.effectivePriceRub, row, components).pvEach;
+            dto.bundleItems = components.map(toPublicBundleItem);
+            dto.bundleStock = bundleStock(components);
+        }
         productBySlugCache.set(cacheKey, dto, 10);
         return dto;
     },
@@ -343,9 +475,8 @@ export const productService = {
         const { q, categoryId, categorySlug, limit = 50, offset = 0, sort = 'newest' } = params;
 
         const whereParts: any[] = [];
-        if (q) {
-            const qv = `%${q.trim()}%`;
-            whereParts.push(sql`(${product.name} ILIKE ${qv} OR ${product.description} ILIKE ${qv})`);
+        if (q?.trim()) {
+            whereParts.push(productSearchWhere(q));
         }
         if (categoryId) {
             whereParts.push(eq(product.categoryId, categoryId));
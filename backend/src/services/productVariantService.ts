@@ -0,0 +1,119 @@
+// backend/src/services/productVariantService.ts
+import { db } from '#db/db';
+import { product } from '#db/schema/products';
+import { stockReservation } from '#db/schema/stockReservations';
+import type { ProductVariant } from '#db/schema/productVariants';
+import { and, eq, isNull } from 'drizzle-orm';
+import { productVariantsStorage, type VariantInput, type VariantPatch } from '#storage/productVariantsStorage';
+import { inventoryMovementsStorage } from '#storage/inventoryMovementsStorage';
+import { AppError, AppErrorCode } from '../middleware/errorHandler';
+import { inventoryService } from './inventoryService';
+
+/**
+ * Product Variant Service
+ * Варианты товара в админке. Остаток варианта, как и товара, меняется только движениями журнала:
+ * начальный остаток — приход, правка — корректировка.
+ *
+ * Первый вариант забирает остаток товара: у товара с вариантами product.stock = сумма по вариантам,
+ * а продаётся товар только вариантом.
+ */
+
+export type VariantWriteInput = VariantInput & { stock?: number | undefined };
+
+export class ProductVariantService {
+    list(productId: string): Promise<ProductVariant[]> {
+        return productVariantsStorage.listByProduct(productId);
+    }
+
+    async create(productId: string, input: VariantWriteInput, userId?: string): Promise<ProductVariant> {
+        const { stock, ...fields } = input;
+
+        const variant = await db.transaction(async (tx) => {
+            const [prod] = await tx
+                .select({ stock: product.stock, isBundle: product.isBundle })
+                .from(product)
+                .where(eq(product.id, productId))
+                .for('update');
+            if (!prod) throw new AppError(AppErrorCode.NOT_FOUND, 'Product not found', 404);
+            if (prod.isBundle) throw new AppError(AppErrorCode.VALIDATION_ERROR, 'Bundle cannot have variants', 409);
+
+            const isFirst = (await productVariantsStorage.productsWithVariants([productId], tx)).size === 0;
+            if (isFirst) {
+                // Резерв без варианта при оплате списал бы product.stock мимо вариантов
+                const [held] = await tx
+                    .select({ id: stockReservation.id })
+                    .from(stockReservation)
+                    .where(and(eq(stockReservation.productId, productId), isNull(stockReservation.variantId), eq(stockReservation.status, 'active')))
+                    .limit(1);
+                if (held) {
+                    throw new AppError(AppErrorCode.VALIDATION_ERROR, 'Product has active reservations, add variants after they are paid or released', 409);
+                }
+            }
+
+            const created = await productVariantsStorage.create(productId, fields, tx);
+
+            if (isFirst && prod.stock > 0) {
+                await inventoryMovementsStorage.applyStock(
+                    { productId, type: 'adjustment', qty: -prod.stock, reason: `Stock moved to variant ${created.name}`, userId },
+                    tx
+                );
+                await inventoryMovementsStorage.applyStock(
+                    { productId, variantId: created.id, type: 'adjustment', qty: prod.stock, reason: 'Stock moved from product', userId },
+                    tx
+                );
+            }
+            if (stock) {
+                await inventoryMovementsStorage.applyStock(
+                    { productId, variantId: created.id, type: 'receipt', qty: stock, reason: 'Initial stock', userId },
+                    tx
+                );
+            }
+            return created;
+        });
+
+        return (await productVariantsStorage.getById(variant.id)) ?? variant;
+    }
+
+    async update(productId: string, variantId: string, patch: VariantPatch & { stock?: number | undefined }, userId?: string): Promise<ProductVariant> {
+        await this.get(productId, variantId);
+        const { stock, ...fields } = patch;
+
+        if (Object.keys(fields).length > 0) await productVariantsStorage.update(variantId, fields);
+        if (stock !== undefined) {
+            await inventoryService.setStock(productId, stock, { variantId, reason: 'Stock edited in variant card', userId });
+        }
+        return this.get(productId, variantId);
+    }
+
+    /**
+     * Удалить вариант. С остатком — 409 (сначала списать); вариант из заказов выключается,
+     * чтобы старые заказы сохранили ссылку.
+     */
+    async remove(productId: string, variantId: string): Promise<{ deleted: boolean; deactivated: boolean }> {
+        const variant = await this.get(productId, variantId);
+        if (variant.stock > 0) {
+            throw new AppError(
+                AppErrorCode.VALIDATION_ERROR,
+                `Variant has ${variant.stock} in stock, write it off before deleting`,
+                409,
+                { stock: variant.stock }
+            );
+        }
+        if (await productVariantsStorage.isOrdered(variantId)) {
+            await productVariantsStorage.update(variantId, { isActive: false });
+            return { deleted: false, deactivated: true };
+        }
+        await productVariantsStorage.delete(variantId);
+        return { deleted: true, deactivated: false };
+    }
+
+    private async get(productId: string, variantId: string): Promise<ProductVariant> {
+        const variant = await productVariantsStorage.getById(variantId);
+        if (!variant || variant.productId !== productId) {
+            throw new AppError(AppErrorCode.NOT_FOUND, 'Product variant not found', 404);
+        }
+        return variant;
+    }
+}
+
+export const productVariantService = new ProductVariantService();
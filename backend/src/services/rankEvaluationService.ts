@@ -0,0 +1,439 @@
+// backend/src/services/rankEvaluationService.ts
+import { db } from '#db/db';
+import { and, eq, gte, lt, sql } from 'drizzle-orm';
+import { order } from '#db/schema/orders';
+import { networkEdge } from '#db/schema/network';
+import { appUser } from '#db/schema/users';
+import { mlmRankEnum } from '#db/schema/enums';
+import type { RankRule } from '#db/schema/ranks';
+import { ranksStorage } from '#storage/ranksStorage';
+import { usersStorage } from '#storage/usersStorage';
+import { listClosedMonthlyStats, upsertMonthlyStat } from '#storage/mlmAnalyticsStorage';
+import { telegramNotificationService } from './telegramNotificationService';
+
+/**
+ * Rank Evaluation Service
+ * Автоматическая квалификация рангов по итогам месяца
+ *
+ * Метрики месяца (только доставленные заказы, delivered_at в границах месяца, UTC):
+ *   - PV  — личный PV (order.pv_earned)
+ *   - ЛО  — личный оборот (order.order_base_rub)
+ *   - ГО  — групповой оборот: ЛО + ЛО всего downline по network_edge
+ *   - activePartners — партнёры первой линии с личным PV > 0
+ *   - branches — ветки первой линии с ГО > 0
+ *
+ * Сопоставление с rank_rules:
+ *   requiredPv ↔ PV, requiredLo ↔ ЛО, requiredTurnover ↔ ГО,
+ *   requiredActivePartners ↔ activePartners, requiredBranches ↔ branches
+ *
+ * Решения:
+ *   - Повышение — сразу до максимального выполненного ранга
+ *   - Понижение — только если условия текущего ранга не выполняются
+ *     больше holdMonths закрытых месяцев подряд (включая текущий)
+ *   - Ранги с isCreator назначаются только вручную и движком не трогаются
+ */
+
+export type RankCode = (typeof mlmRankEnum.enumValues)[number];
+
+/** Порядок рангов — порядок значений enum mlm_rank */
+const RANK_ORDER: readonly RankCode[] = mlmRankEnum.enumValues;
+const BASE_RANK: RankCode = 'member';
+
+export interface RankMetrics {
+    pv: number;
+    lo: number;
+    go: number;
+    activePartners: number;
+    branches: number;
+}
+
+export interface RequirementCheck {
+    rank: RankCode;
+    requirement: 'requiredPv' | 'requiredLo' | 'requiredTurnover' | 'requiredActivePartners' | 'requiredBranches';
+    required: number;
+    actual: number;
+    met: boolean;
+}
+
+export type RankAction = 'promote' | 'demote' | 'hold' | 'keep';
+
+export interface RankDecision {
+    userId: string;
+    currentRank: RankCode;
+    qualifiedRank: RankCode;
+    newRank: RankCode;
+    action: RankAction;
+    failedMonths: number;
+    holdMonths: number;
+    metrics: RankMetrics;
+    checks: RequirementCheck[];
+    reasons: string[];
+}
+
+export interface RankEvaluationResult {
+    month: string;          // 'YYYY-MM'
+    dryRun: boolean;
+    evaluated: number;
+    promoted: number;
+    demoted: number;
+    held: number;
+    decisions: RankDecision[];
+}
+
+const REQUIREMENTS: Array<{ key: RequirementCheck['requirement']; metric: keyof RankMetrics; label: string }> = [
+    { key: 'requiredPv', metric: 'pv', label: 'PV' },
+    { key: 'requiredLo', metric: 'lo', label: 'LO' },
+    { key: 'requiredTurnover', metric: 'go', label: 'GO' },
+    { key: 'requiredActivePartners', metric: 'activePartners', label: 'active partners' },
+    { key: 'requiredBranches', metric: 'branches', label: 'branches' },
+];
+
+function rankIndex(rank: string): number {
+    const idx = RANK_ORDER.indexOf(rank as RankCode);
+    return idx < 0 ? 0 : idx;
+}
+
+/** 'YYYY-MM' → границы месяца в UTC и ключ mlm_monthly_stats */
+function monthRange(month: string): { key: string; start: Date; end: Date } {
+    const match = /^(\d{4})-(\d{2})$/.exec(month);
+    if (!match) throw new Error(`Invalid month "${month}", expected YYYY-MM`);
+    const y = Number(match[1]);
+    const m = Number(match[2]);
+    if (m < 1 || m > 12) throw new Error(`Invalid month "${month}", expected YYYY-MM`);
+
+    return {
+        key: `${match[1]}-${match[2]}-01`,
+        start: new Date(Date.UTC(y, m - 1, 1)),
+        end: new Date(Date.UTC(y, m, 1)),
+    };
+}
+
+/** Ключи N предыдущих месяцев ('YYYY-MM-01'), от ближайшего к дальнему */
+function previousMonthKeys(start: Date, count: number): string[] {
+    const keys: string[] = [];
+    for (let i = 1; i <= count; i++) {
+        const d = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() - i, 1));
+        keys.push(`${d.getUTCFullYear()}-${String(d.getUTCMonth() + 1).padStart(2, '0')}-01`);
+    }
+    return keys;
+}
+
+/** Предыдущий календарный месяц в формате 'YYYY-MM' (по умолчанию закрываем его) */
+export function previousMonth(now: Date = new Date()): string {
+    const d = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, 1));
+    return `${d.getUTCFullYear()}-${String(d.getUTCMonth() + 1).padStart(2, '0')}`;
+}
+
+export class RankEvaluationService {
+    /**
+     * Посчитать метрики месяца для всех пользователей сети
+     */
+    async computeMonthlyMetrics(start: Date, end: Date): Promise<Map<string, RankMetrics>> {
+        // 1. Личные PV/ЛО за месяц — одним запросом
+        const personal = await db
+            .select({
+                userId: order.userId,
+                pv: sql<string>`COALESCE(SUM(${order.pvEarned}), 0)`,
+                lo: sql<string>`COALESCE(SUM(${order.orderBaseRub}), 0)`,
+            })
+            .from(order)
+            .where(
+                and(
+                    eq(order.deliveryStatus, 'delivered'),
+                    gte(order.deliveredAt, start),
+                    lt(order.deliveredAt, end)
+                )
+            )
+            .groupBy(order.userId);
+
+        const personalMap = new Map<string, { pv: number; lo: number }>(
+            personal.map((r) => [r.userId, { pv: Number(r.pv), lo: Number(r.lo) }])
+        );
+
+        // 2. Дерево network_edge в памяти
+        const edges = await db
+            .select({ parentId: networkEdge.parentId, childId: networkEdge.childId })
+            .from(networkEdge);
+
+        const children = new Map<string, string[]>();
+        for (const e of edges) {
+            const list = children.get(e.parentId) ?? [];
+            list.push(e.childId);
+            children.set(e.parentId, list);
+        }
+
+        const partners = await db
+            .select({ id: appUser.id, mlmStatus: appUser.mlmStatus })
+            .from(appUser)
+            .where(eq(appUser.isActive, true));
+        const isPartner = new Set<string>(
+            partners
+                .filter((u: { mlmStatus: string }) => u.mlmStatus === 'partner' || u.mlmStatus === 'partner_pro')
+                .map((u: { id: string }) => u.id)
+        );
+
+        // 3. ГО: итеративный post-order обход (без рекурсии — глубокие ветки)
+        const go = new Map<string, number>();
+        const nodes = new Set<string>([...personalMap.keys(), ...children.keys()]);
+        for (const e of edges) nodes.add(e.childId);
+
+        for (const root of nodes) {
+            if (go.has(root)) continue;
+            const stack: Array<{ id: string; expanded: boolean }> = [{ id: root, expanded: false }];
+            const onPath = new Set<string>();
+
+            while (stack.length > 0) {
+                const top = stack[stack.length - 1]!;
+                if (go.has(top.id)) {
+                    stack.pop();
+                    continue;
+                }
+                if (!top.expanded) {
+                    top.expanded = true;
+                    onPath.add(top.id);
+                    for (const c of children.get(top.id) ?? []) {
+                        if (!go.has(c) && !onPath.has(c)) stack.push({ id: c, expanded: false });
+                    }
+                    continue;
+                }
+                let total = personalMap.get(top.id)?.lo ?? 0;
+                for (const c of children.get(top.id) ?? []) total += go.get(c) ?? 0;
+                go.set(top.id, total);
+                onPath.delete(top.id);
+                stack.pop();
+            }
+        }
+
+        // 4. Итог по пользователю
+        const metrics = new Map<string, RankMetrics>();
+        for (const id of nodes) {
+            const firstLine = children.get(id) ?? [];
+            metrics.set(id, {
+                pv: personalMap.get(id)?.pv ?? 0,
+                lo: personalMap.get(id)?.lo ?? 0,
+                go: go.get(id) ?? 0,
+                activePartners: firstLine.filter((c) => isPartner.has(c) && (personalMap.get(c)?.pv ?? 0) > 0).length,
+                branches: firstLine.filter((c) => (go.get(c) ?? 0) > 0).length,
+            });
+        }
+
+        return metrics;
+    }
+
+    /**
+     * Проверить требования ранга
+     */
+    checkRequirements(rule: RankRule, metrics: RankMetrics): RequirementCheck[] {
+        const checks: RequirementCheck[] = [];
+        for (const req of REQUIREMENTS) {
+            const raw = rule[req.key];
+            if (raw == null) continue;
+            const required = Number(raw);
+            const actual = metrics[req.metric];
+            checks.push({ rank: rule.rank as RankCode, requirement: req.key, required, actual, met: actual >= required });
+        }
+        return checks;
+    }
+
+    /**
+     * Оценить месяц (dryRun=true — только показать, кто и почему сменит ранг)
+     * @param month - 'YYYY-MM'
+     */
+    async evaluateMonth(month: string, opts: { dryRun?: boolean } = {}): Promise<RankEvaluationResult> {
+        const dryRun = opts.dryRun ?? true;
+        const { key, start, end } = monthRange(month);
+
+        const rules = await ranksStorage.listRanks({ limit: 100 });
+        const rulesByRank = new Map<RankCode, RankRule>(rules.map((r) => [r.rank as RankCode, r]));
+
+        // Автоматически присваиваемые ранги: есть правило и не isCreator, по возрастанию
+        const autoRanks = RANK_ORDER.filter((r) => {
+            const rule = rulesByRank.get(r);
+            return r !== BASE_RANK && !!rule && !rule.isCreator;
+        });
+
+        const metricsByUser = await this.computeMonthlyMetrics(start, end);
+
+        // История закрытых месяцев для holdMonths
+        const maxHold = Math.max(0, ...rules.map((r) => Number(r.holdMonths ?? 0)));
+        const prevKeys = previousMonthKeys(start, maxHold);
+        const history = await listClosedMonthlyStats(prevKeys);
+        const historyByUser = new Map<string, Map<string, RankCode>>();
+        for (const h of history) {
+            const m = historyByUser.get(h.userId) ?? new Map<string, RankCode>();
+            m.set(h.month, h.qualifiedRank as RankCode);
+            historyByUser.set(h.userId, m);
+        }
+
+        const users = await db
+            .select({ id: appUser.id, rank: appUser.rank, mlmStatus: appUser.mlmStatus })
+            .from(appUser)
+            .where(eq(appUser.isActive, true));
+
+        const result: RankEvaluationResult = {
+            month,
+            dryRun,
+            evaluated: 0,
+            promoted: 0,
+            demoted: 0,
+            held: 0,
+            decisions: [],
+        };
+
+        const empty: RankMetrics = { pv: 0, lo: 0, go: 0, activePartners: 0, branches: 0 };
+
+        for (const user of users as Array<{ id: string; rank: RankCode; mlmStatus: string }>) {
+            const currentRank = user.rank ?? BASE_RANK;
+            const metrics = metricsByUser.get(user.id) ?? empty;
+
+            // Без активности и без ранга — писать нечего
+            if (currentRank === BASE_RANK && metrics.go === 0 && metrics.pv === 0) continue;
+
+            // Ручные ранги (isCreator) движок не трогает
+            if (rulesByRank.get(currentRank)?.isCreator) continue;
+
+            result.evaluated += 1;
+
+            // Квалификация: максимальный авто-ранг, все требования которого выполнены.
+            // Customer не квалифицируется выше базового ранга.
+            let qualifiedRank: RankCode = BASE_RANK;
+            const checks: RequirementCheck[] = [];
+            for (const rank of autoRanks) {
+                const rankChecks = this.checkRequirements(rulesByRank.get(rank)!, metrics);
+                checks.push(...rankChecks);
+                const partnerOk = user.mlmStatus === 'partner' || user.mlmStatus === 'partner_pro';
+                if (partnerOk && rankChecks.every((c) => c.met)) qualifiedRank = rank;
+            }
+
+            const decision = this.decide({
+                userId: user.id,
+                currentRank,
+                qualifiedRank,
+                metrics,
+                checks,
+                holdMonths: Number(rulesByRank.get(currentRank)?.holdMonths ?? 0),
+                history: historyByUser.get(user.id),
+                prevKeys,
+                mlmStatus: user.mlmStatus,
+            });
+
+            if (decision.action === 'promote') result.promoted += 1;
+            if (decision.action === 'demote') result.demoted += 1;
+            if (decision.action === 'hold') result.held += 1;
+            if (decision.action !== 'keep') result.decisions.push(decision);
+
+            if (!dryRun) {
+                await upsertMonthlyStat({
+                    userId: user.id,
+                    month: key,
+                    goAmount: metrics.go,
+                    loAmount: metrics.lo,
+                    pvAmount: metrics.pv,
+                    activePartners: metrics.activePartners,
+                    branches: metrics.branches,
+                    qualifiedRank,
+                    rank: decision.newRank,
+                });
+
+                if (decision.newRank !== currentRank) {
+                    await usersStorage.updateUser(user.id, { rank: decision.newRank });
+                    await telegramNotificationService.sendRankChangeNotification(user.id, decision.newRank);
+                }
+            }
+        }
+
+        if (!dryRun) {
+            console.log(
+                `🏅 Rank evaluation ${month}: evaluated=${result.evaluated}, promoted=${result.promoted}, demoted=${result.demoted}, held=${result.held}`
+            );
+        }
+
+        return result;
+    }
+
+    /**
+     * Решение по одному пользователю
+     */
+    private decide(params: {
+        userId: string;
+        currentRank: RankCode;
+        qualifiedRank: RankCode;
+        metrics: RankMetrics;
+        checks: RequirementCheck[];
+        holdMonths: number;
+        history: Map<string, RankCode> | undefined;
+        prevKeys: string[];
+        mlmStatus: string;
+    }): RankDecision {
+        const { userId, currentRank, qualifiedRank, metrics, checks, holdMonths, history, prevKeys } = params;
+        const cur = rankIndex(currentRank);
+        const q = rankIndex(qualifiedRank);
+
+        const base = {
+            userId,
+            currentRank,
+            qualifiedRank,
+            metrics,
+            holdMonths,
+            checks,
+        };
+
+        if (q > cur) {
+            return {
+                ...base,
+                newRank: qualifiedRank,
+                action: 'promote',
+                failedMonths: 0,
+                reasons: [`All requirements of "${qualifiedRank}" met`],
+            };
+        }
+
+        if (q === cur) {
+            return { ...base, newRank: currentRank, action: 'keep', failedMonths: 0, reasons: [] };
+        }
+
+        // Не выполнены условия текущего ранга: считаем подряд идущие закрытые месяцы без квалификации
+        let failedMonths = 1;
+        for (const k of prevKeys.slice(0, holdMonths)) {
+            const qualified = history?.get(k);
+            if (qualified === undefined || rankIndex(qualified) >= cur) break;
+            failedMonths += 1;
+        }
+
+        const failed = checks
+            .filter((c) => c.rank === currentRank && !c.met)
+            .map((c) => {
+                const label = REQUIREMENTS.find((r) => r.key === c.requirement)?.label ?? c.requirement;
+                return `${label} ${c.actual.toFixed(2)} < ${c.required.toFixed(2)}`;
+            });
+        if (params.mlmStatus !== 'partner' && params.mlmStatus !== 'partner_pro') {
+            failed.push(`status "${params.mlmStatus}" is not a partner`);
+        }
+
+        if (failedMonths > holdMonths) {
+            return {
+                ...base,
+                newRank: qualifiedRank,
+                action: 'demote',
+                failedMonths,
+                reasons: [
+                    ...failed,
+                    `Requirements of "${currentRank}" not met for ${failedMonths} month(s), hold is ${holdMonths}`,
+                ],
+            };
+        }
+
+        return {
+            ...base,
+            newRank: currentRank,
+            action: 'hold',
+            failedMonths,
+            reasons: [
+                ...failed,
+                `Rank held: ${failedMonths} of ${holdMonths} hold month(s) used`,
+            ],
+        };
+    }
+}
+
+export const rankEvaluationService = new RankEvaluationService();
@@ -0,0 +1,92 @@
+// backend/src/services/recommendationService.ts
+import { recommendationsStorage, type RankedProduct, type RebuildResult } from '#storage/recommendationsStorage';
+import { redisCache } from './redisCache';
+
+/**
+ * Recommendation Service
+ * Рекомендации по истории доставленных заказов (order_item):
+ *
+ *   «С этим товаром покупают» — product_affinity, карточка товара
+ *   Допродажа к корзине       — сумма близости ко всем товарам корзины
+ *   Подборка на главной       — user_recommendation (персонально), добор и гостям — хиты продаж
+ *
+ * Таблицы пересобирает задача recommendations-refresh; ответы кешируются на RECOMMENDATIONS_CACHE_TTL_SEC
+ * и сбрасываются после пересборки.
+ */
+
+export interface RecommendationConfig {
+    /** Окно истории заказов, дней */
+    windowDays: number;
+    /** Пара товаров учитывается, если встретилась хотя бы в стольких заказах */
+    minCoOrders: number;
+    /** Сколько персональных товаров хранить на пользователя */
+    perUser: number;
+    cacheTtlSec: number;
+}
+
+export const recommendationConfig: RecommendationConfig = {
+    windowDays: Number(process.env.RECOMMENDATIONS_WINDOW_DAYS || 365),
+    minCoOrders: Number(process.env.RECOMMENDATIONS_MIN_CO_ORDERS || 2),
+    perUser: Number(process.env.RECOMMENDATIONS_PER_USER || 24),
+    cacheTtlSec: Number(process.env.RECOMMENDATIONS_CACHE_TTL_SEC || 600),
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const CACHE_PREFIX = 'recommendations:';
+
+export class RecommendationService {
+    constructor(private config: RecommendationConfig = recommendationConfig) {}
+
+    /** Пересборка по доставленным заказам за окно (задача recommendations-refresh) */
+    async refresh(now: Date = new Date()): Promise<RebuildResult> {
+        const result = await recommendationsStorage.rebuild({
+            since: this.since(now),
+            minCoOrders: this.config.minCoOrders,
+            perUser: this.config.perUser,
+            now,
+        });
+        await redisCache.clearCache(`${CACHE_PREFIX}*`);
+        return result;
+    }
+
+    /** id товаров «с этим товаром покупают» */
+    alsoBought(productId: string, limit: number): Promise<string[]> {
+        return this.cached(`product:${productId}:${limit}`, () => recommendationsStorage.related(productId, limit));
+    }
+
+    /** id товаров для допродажи к корзине */
+    forCart(productIds: string[], limit: number): Promise<string[]> {
+        const ids = [...new Set(productIds)].sort();
+        return this.cached(`cart:${ids.join(',')}:${limit}`, () => recommendationsStorage.relatedToMany(ids, limit));
+    }
+
+    /** Подборка на главную: персональная, добитая хитами; гостю — хиты */
+    forUser(userId: string | null, limit: number): Promise<string[]> {
+        return this.cached(`user:${userId ?? 'guest'}:${limit}`, async () => {
+            const picks = userId ? await recommendationsStorage.forUser(userId, limit) : [];
+            if (picks.length >= limit) return picks;
+            const popular = await recommendationsStorage.popular(
+                this.since(new Date()),
+                limit - picks.length,
+                picks.map((p) => p.productId)
+            );
+            return [...picks, ...popular];
+        });
+    }
+
+    private since(now: Date): Date {
+        return new Date(now.getTime() - this.config.windowDays * DAY_MS);
+    }
+
+    private async cached(key: string, load: () => Promise<RankedProduct[]>): Promise<string[]> {
+        const cacheKey = `${CACHE_PREFIX}${key}`;
+        const hit = await redisCache.get(cacheKey);
+        if (hit) return JSON.parse(hit) as string[];
+
+        const ids = (await load()).map((r) => r.productId);
+        await redisCache.set(cacheKey, JSON.stringify(ids), this.config.cacheTtlSec);
+        return ids;
+    }
+}
+
+export const recommendationService = new RecommendationService();
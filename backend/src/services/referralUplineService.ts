@@ -0,0 +1,135 @@
+// backend/src/services/referralUplineService.ts
+import { db } from '#db/db';
+import { order } from '#db/schema/orders';
+import { and, eq, gt, lte, sql } from 'drizzle-orm';
+import { getUpline } from '#storage/mlmStorage';
+import { usersStorage } from '#storage/usersStorage';
+import { settlementSettingsRuntime } from '#config/settlementSettings';
+
+/**
+ * Referral Upline Service
+ * Получатели реферальных бонусов L1–L15 с учётом режима компрессии
+ *
+ * Без компрессии (is_compression_enabled = false, Registry.md):
+ *   - уровни = физические уровни network_edge (1..15)
+ *   - customer пропускается (кроме L1 с canReceiveFirstlineBonus) — его процент сгорает
+ *
+ * С компрессией (is_compression_enabled = true):
+ *   - customer и неактивные партнёры «сжимаются»: следующий квалифицированный партнёр выше
+ *     наследует их уровень
+ *   - активность: личный PV доставленных заказов за compression_activity_days дней
+ *     до момента расчёта >= compression_min_pv
+ *   - customer с canReceiveFirstlineBonus сохраняет L1, только если он прямой реферер покупателя
+ */
+
+export interface ReferralUplineHop {
+    /** Уровень начисления (после компрессии) */
+    level: number;
+    /** Физический уровень в network_edge */
+    physicalLevel: number;
+    userId: string;
+    mlmStatus: string;
+}
+
+export interface ReferralUplineResult {
+    compressed: boolean;
+    hops: ReferralUplineHop[];
+    /** Пропущенные (сжатые / без права на бонус) — для логов */
+    skipped: Array<{ userId: string; physicalLevel: number; reason: string }>;
+}
+
+const MAX_LEVELS = 15;
+/** Сколько физических уровней просматриваем при компрессии */
+const MAX_PHYSICAL_DEPTH = 100;
+
+function isPartner(mlmStatus: string | null | undefined): boolean {
+    return mlmStatus === 'partner' || mlmStatus === 'partner_pro';
+}
+
+export class ReferralUplineService {
+    /**
+     * Личный PV пользователя за окно активности, заканчивающееся в `at`
+     */
+    async getPersonalPvInWindow(userId: string, at: Date, days: number): Promise<number> {
+        const from = new Date(at.getTime() - days * 24 * 60 * 60 * 1000);
+        const [row] = await db
+            .select({ pv: sql<string>`COALESCE(SUM(${order.pvEarned}), 0)` })
+            .from(order)
+            .where(
+                and(
+                    eq(order.userId, userId),
+                    eq(order.deliveryStatus, 'delivered'),
+                    gt(order.deliveredAt, from),
+                    lte(order.deliveredAt, at)
+                )
+            );
+        return Number(row?.pv ?? 0);
+    }
+
+    async isActiveAt(userId: string, at: Date): Promise<boolean> {
+        const pv = await this.getPersonalPvInWindow(userId, at, settlementSettingsRuntime.compressionActivityDays);
+        return pv >= settlementSettingsRuntime.compressionMinPv;
+    }
+
+    /**
+     * Получатели L1–L15 для покупателя
+     * @param at - момент расчёта (доставка заказа) — от него считается окно активности
+     */
+    async resolve(
+        buyerId: string,
+        at: Date = new Date(),
+        opts: { compression?: boolean; maxLevels?: number } = {}
+    ): Promise<ReferralUplineResult> {
+        const compressed = opts.compression ?? settlementSettingsRuntime.isCompressionEnabled;
+        const maxLevels = opts.maxLevels ?? MAX_LEVELS;
+
+        const upline = await getUpline(buyerId, compressed ? MAX_PHYSICAL_DEPTH : maxLevels);
+        const result: ReferralUplineResult = { compressed, hops: [], skipped: [] };
+
+        let level = 0;
+        for (const hop of upline) {
+            if (level >= maxLevels) break;
+
+            const user = await usersStorage.getUserById(hop.parentId);
+            if (!user) {
+                result.skipped.push({ userId: hop.parentId, physicalLevel: hop.level, reason: 'not_found' });
+                if (!compressed) level = hop.level;
+                continue;
+            }
+
+            const mlmStatus = user.mlmStatus ?? 'customer';
+            const firstlineCustomer =
+                mlmStatus === 'customer' && hop.level === 1 && Boolean(user.canReceiveFirstlineBonus);
+
+            if (!compressed) {
+                level = hop.level;
+                if (!isPartner(mlmStatus) && !firstlineCustomer) {
+                    result.skipped.push({ userId: user.id, physicalLevel: hop.level, reason: mlmStatus });
+                    continue;
+                }
+                result.hops.push({ level, physicalLevel: hop.level, userId: user.id, mlmStatus });
+                continue;
+            }
+
+            // Компрессия: уровень получает только квалифицированный участник
+            let qualifies = firstlineCustomer;
+            let reason = mlmStatus;
+            if (isPartner(mlmStatus)) {
+                qualifies = user.isActive !== false && (await this.isActiveAt(user.id, at));
+                reason = 'inactive';
+            }
+
+            if (!qualifies) {
+                result.skipped.push({ userId: user.id, physicalLevel: hop.level, reason });
+                continue;
+            }
+
+            level += 1;
+            result.hops.push({ level, physicalLevel: hop.level, userId: user.id, mlmStatus });
+        }
+
+        return result;
+    }
+}
+
+export const referralUplineService = new ReferralUplineService();
@@ -1,10 +1,6 @@
 // backend/src/services/reviewService.ts
 import { z } from 'zod';
-import { db } from '#db/db';
-import { order as orderTable } from '#db/schema/orders';
-import { orderItem } from '#db/schema/orderItem';
-import { and, eq, sql } from 'drizzle-orm';
-import { reviewsStorage } from '#storage/reviewsStorage';
+import { reviewsStorage, type ProductRating } from '#storage/reviewsStorage';
 import type { ProductReview } from '#db/schema/reviews';
 import { AppError, AppErrorCode } from './../middleware/errorHandler';
 
@@ -21,11 +17,26 @@ const CreateSchema = z.object({
 
 const GetProductReviewsSchema = z.object({
   productId: z.string().uuid(),
+  viewerId: z.string().uuid().optional(),
   limit: z.number().int().min(1).max(100).optional(),
   offset: z.number().int().min(0).optional(),
-  order: z.enum(['newest', 'oldest', 'rating_desc', 'rating_asc']).optional(),
+  order: z.enum(['newest', 'oldest', 'rating_desc', 'rating_asc', 'helpful']).optional(),
 });
 
+const ReplySchema = z.object({
+  reviewId: z.string().uuid(),
+  adminId: z.string().uuid(),
+  body: z.string().trim().min(1).max(5000),
+});
+
+const EMPTY_RATING: ProductRating = {
+  average: 0,
+  total: 0,
+  distribution: { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 },
+};
+
+export type PublicReview = ProductReview & { votedHelpful: boolean };
+
 const UpdateSchema = z.object({
   reviewId: z.string().uuid(),
   userId: z.string().uuid(),
@@ -40,33 +51,15 @@ export const reviewService = {
   async createReview(params: z.infer<typeof CreateSchema>): Promise<ProductReview> {
     const data = CreateSchema.parse(params);
 
-    // 1) Проверить покупку: хотя бы один заказ delivered где есть productId
-    // КРИТИЧНО: Используем delivery_status='delivered', а НЕ order.status
-    const [row] = (await db.execute(sql/*sql*/`
-      SELECT EXISTS (
-        SELECT 1
-        FROM "order" o
-        JOIN order_item oi ON o.id = oi.order_id
-        WHERE o.user_id = ${data.userId}
-          AND oi.product_id = ${data.productId}
-          AND o.delivery_status = 'delivered'
-      ) AS has
-    `)) as unknown as Array<{ has: boolean }>;
-
-    if (!row?.has) {
-      throw new AppError(
-        AppErrorCode.FORBIDDEN,
-        'Only buyers who received the product can leave a review',
-        403,
-      );
-    }
-
-    // 2) Проверить, что ещё не оставлен (уникальный индекс гарантирует, но дадим дружественную ошибку)
+    // 1) Один отзыв на товар (уникальный индекс гарантирует, но дадим дружественную ошибку)
     const existing = await reviewsStorage.getByUserAndProduct(data.userId, data.productId);
     if (existing) {
       throw new AppError(AppErrorCode.DUPLICATE_ENTRY, 'Review already exists', 409);
     }
 
+    // 2) «Проверенная покупка» — только по доставленным заказам автора
+    const verifiedPurchase = await reviewsStorage.hasDeliveredPurchase(data.userId, data.productId);
+
     // 3) Создать pending
     const review = await reviewsStorage.create({
       userId: data.userId,
@@ -75,6 +68,7 @@ export const reviewService = {
       title: data.title,
       body: data.body,
       status: 'pending',
+      verifiedPurchase,
     } as any);
 
     if (data.images?.length) {
@@ -85,31 +79,23 @@ export const reviewService = {
   },
 
   async getProductReviews(params: z.infer<typeof GetProductReviewsSchema>): Promise<{
-    items: ProductReview[];
-    stats: {
-      average: number;
-      total: number;
-      distribution: { 1: number; 2: number; 3: number; 4: number; 5: number };
-    };
+    items: PublicReview[];
+    stats: ProductRating;
   }> {
-    const { productId, limit = 20, offset = 0, order = 'newest' } = GetProductReviewsSchema.parse(params);
-
-    const items = await reviewsStorage.list({ productId, status: 'published', limit, offset, order });
-    const statsRaw = await reviewsStorage.getProductStats(productId, 'published');
-
-    const stats = {
-      average: statsRaw.average,
-      total: statsRaw.total,
-      distribution: {
-        1: statsRaw.distribution[1],
-        2: statsRaw.distribution[2],
-        3: statsRaw.distribution[3],
-        4: statsRaw.distribution[4],
-        5: statsRaw.distribution[5],
-      },
-    } as const;
-
-    return { items, stats } as any;
+    const { productId, viewerId, limit = 20, offset = 0, order = 'newest' } = GetProductReviewsSchema.parse(params);
+
+    const rows = await reviewsStorage.list({ productId, status: 'published', limit, offset, order });
+    const voted = new Set(
+      viewerId ? await reviewsStorage.listVotedReviewIds(viewerId, rows.map((r) => r.id)) : []
+    );
+
+    // Сводка хранится на товаре и пересчитывается при модерации
+    const stats = (await reviewsStorage.getProductRating(productId)) ?? EMPTY_RATING;
+
+    return {
+      items: rows.map((r) => ({ ...r, votedHelpful: voted.has(r.id) })),
+      stats,
+    };
   },
 
   async getUserReview(userId: string, productId: string): Promise<ProductReview | null> {
@@ -128,7 +114,8 @@ export const reviewService = {
       throw new AppError(AppErrorCode.FORBIDDEN, 'Only pending reviews can be updated', 403);
     }
 
-    const updated = await reviewsStorage.update(reviewId, patch as any);
+    const verifiedPurchase = await reviewsStorage.hasDeliveredPurchase(existing.userId, existing.productId);
+    const updated = await reviewsStorage.update(reviewId, { ...patch, verifiedPurchase } as any);
     return updated!;
   },
 
@@ -149,7 +136,15 @@ export const reviewService = {
     const s = z.object({ reviewId: z.string().uuid(), adminId: z.string().uuid() }).parse({ reviewId, adminId });
     const existing = await reviewsStorage.getById(s.reviewId);
     if (!existing) throw new AppError(AppErrorCode.NOT_FOUND, 'Review not found', 404);
+
+    // Заказ мог быть доставлен уже после написания отзыва
+    const verifiedPurchase = await reviewsStorage.hasDeliveredPurchase(existing.userId, existing.productId);
+    if (verifiedPurchase !== existing.verifiedPurchase) {
+      await reviewsStorage.update(s.reviewId, { verifiedPurchase });
+    }
+
     const updated = await reviewsStorage.publish(s.reviewId);
+    await reviewsStorage.refreshProductRating(existing.productId);
     return updated!;
   },
 
@@ -158,9 +153,56 @@ export const reviewService = {
     const existing = await reviewsStorage.getById(s.reviewId);
     if (!existing) throw new AppError(AppErrorCode.NOT_FOUND, 'Review not found', 404);
     const updated = await reviewsStorage.reject(s.reviewId);
+    if (existing.status === 'published') {
+      await reviewsStorage.refreshProductRating(existing.productId);
+    }
+    return updated!;
+  },
+
+  /** «Полезный отзыв»: один голос на пользователя, за свой отзыв голосовать нельзя */
+  async voteHelpful(reviewId: string, userId: string): Promise<{ helpfulCount: number; voted: true }> {
+    const s = z.object({ reviewId: z.string().uuid(), userId: z.string().uuid() }).parse({ reviewId, userId });
+    const existing = await reviewsStorage.getById(s.reviewId);
+    if (!existing || existing.status !== 'published') {
+      throw new AppError(AppErrorCode.NOT_FOUND, 'Review not found', 404);
+    }
+    if (existing.userId === s.userId) {
+      throw new AppError(AppErrorCode.FORBIDDEN, 'You cannot vote for your own review', 403);
+    }
+    const { helpfulCount } = await reviewsStorage.addVote(s.reviewId, s.userId);
+    return { helpfulCount, voted: true };
+  },
+
+  async removeHelpfulVote(reviewId: string, userId: string): Promise<{ helpfulCount: number; voted: false }> {
+    const s = z.object({ reviewId: z.string().uuid(), userId: z.string().uuid() }).parse({ reviewId, userId });
+    const existing = await reviewsStorage.getById(s.reviewId);
+    if (!existing) throw new AppError(AppErrorCode.NOT_FOUND, 'Review not found', 404);
+    const { helpfulCount } = await reviewsStorage.removeVote(s.reviewId, s.userId);
+    return { helpfulCount, voted: false };
+  },
+
+  /** Официальный ответ магазина; повторный вызов заменяет ответ */
+  async replyToReview(params: z.infer<typeof ReplySchema>): Promise<ProductReview> {
+    const { reviewId, adminId, body } = ReplySchema.parse(params);
+    const existing = await reviewsStorage.getById(reviewId);
+    if (!existing) throw new AppError(AppErrorCode.NOT_FOUND, 'Review not found', 404);
+    const updated = await reviewsStorage.setReply(reviewId, { body, authorId: adminId });
+    return updated!;
+  },
+
+  async deleteReply(reviewId: string, adminId: string): Promise<ProductReview> {
+    const s = z.object({ reviewId: z.string().uuid(), adminId: z.string().uuid() }).parse({ reviewId, adminId });
+    const existing = await reviewsStorage.getById(s.reviewId);
+    if (!existing) throw new AppError(AppErrorCode.NOT_FOUND, 'Review not found', 404);
+    const updated = await reviewsStorage.setReply(s.reviewId, null);
     return updated!;
   },
 
+  /** Заказ доставлен — отзывы покупателя на его товары становятся проверенными */
+  async markVerifiedForOrder(orderId: string): Promise<number> {
+    return reviewsStorage.markVerifiedForOrder(orderId);
+  },
+
     async listAllReviews(filters: {
         status?: 'pending' | 'published' | 'rejected';
         productId?: string;
@@ -0,0 +1,203 @@
+// backend/src/services/scheduledJobs.ts
+import { jobScheduler } from './jobScheduler';
+import { paymentTimeoutWorker } from './paymentTimeoutWorker';
+import { mediaService } from './mediaService';
+import { option3BonusService } from './option3BonusService';
+import { rankEvaluationService, previousMonth } from './rankEvaluationService';
+import { levelsMatrixService } from './levelsMatrixService';
+import { orderReturnService } from './orderReturnService';
+import { ledgerReconciliationService } from './ledgerReconciliationService';
+import { bonusHoldService } from './bonusHoldService';
+import { paymentReconciliationService } from './paymentReconciliationService';
+import { deliveryShipmentService } from './deliveryShipmentService';
+import { deliveryTrackingService } from './deliveryTrackingService';
+import { inventoryService } from './inventoryService';
+import { subscriptionService } from './subscriptionService';
+import { recommendationService } from './recommendationService';
+
+/**
+ * Реестр периодических задач приложения.
+ * Расписание можно переопределить через env (cron-выражение), см. .env.example.
+ */
+
+/** Предыдущий месяц в локальном времени процесса (как считает option3BonusService) */
+function previousLocalMonth(now: Date = new Date()): { year: number; month: number } {
+    const d = new Date(now.getFullYear(), now.getMonth() - 1, 1);
+    return { year: d.getFullYear(), month: d.getMonth() + 1 };
+}
+
+export function registerScheduledJobs(): void {
+    // Отмена неоплаченных заказов по таймауту
+    jobScheduler.register({
+        name: 'payment-timeout',
+        description: 'Cancel orders that were not paid within the payment timeout',
+        cron: process.env.PAYMENT_TIMEOUT_CRON || '*/5 * * * *',
+        lockTtlMs: 60_000,
+        handler: () => paymentTimeoutWorker.processTimeouts(),
+    });
+
+    // Сверка зависших платежей с провайдером (потерянные уведомления)
+    jobScheduler.register({
+        name: 'payment-reconciliation',
+        description: 'Poll the provider for payments stuck in init/awaiting/authorized and repair statuses',
+        cron: process.env.PAYMENT_RECONCILIATION_CRON || '*/15 * * * *',
+        maxRetries: 1,
+        lockTtlMs: 10 * 60 * 1000,
+        handler: () => paymentReconciliationService.reconcileStuck(),
+    });
+
+    // Отправления у перевозчиков: повтор неудачных и трек-номера, присвоенные позже
+    jobScheduler.register({
+        name: 'delivery-shipments-sync',
+        description: 'Retry failed carrier shipments and fetch tracking codes assigned asynchronously',
+        cron: process.env.DELIVERY_SHIPMENTS_SYNC_CRON || '*/20 * * * *',
+        maxRetries: 1,
+        lockTtlMs: 10 * 60 * 1000,
+        handler: () => deliveryShipmentService.syncPending(),
+    });
+
+    // Подписки: напоминание о списании за SUBSCRIPTION_NOTICE_DAYS дней
+    jobScheduler.register({
+        name: 'subscriptions-notify',
+        description: 'Remind subscribers about the upcoming subscription order and charge',
+        cron: process.env.SUBSCRIPTIONS_NOTIFY_CRON || '0 10 * * *',
+        maxRetries: 1,
+        lockTtlMs: 10 * 60 * 1000,
+        handler: () => subscriptionService.notifyUpcoming(),
+    });
+
+    // Подписки: заказ и списание в дату подписки (и повторы после неудачи)
+    jobScheduler.register({
+        name: 'subscriptions-run',
+        description: 'Place and charge orders for due auto-replenishment subscriptions',
+        cron: process.env.SUBSCRIPTIONS_RUN_CRON || '0 * * * *',
+        lockTtlMs: 30 * 60 * 1000,
+        handler: () => subscriptionService.runDue(),
+    });
+
+    // Статусы доставки у перевозчиков без вебхуков (и пропущенные вебхуки СДЭК)
+    jobScheduler.register({
+        name: 'delivery-tracking-poll',
+        description: 'Poll carrier tracking history for undelivered shipments and advance delivery status',
+        cron: process.env.DELIVERY_TRACKING_POLL_CRON || '0 * * * *',
+        maxRetries: 1,
+        lockTtlMs: 30 * 60 * 1000,
+        handler: () => deliveryTrackingService.pollActive(),
+    });
+
+    // Сверка product.stock с журналом движения + уведомления о низком остатке, пропущенные по ходу
+    jobScheduler.register({
+        name: 'inventory-verify',
+        description: 'Compare product stock with the inventory journal and send pending low-stock alerts',
+        cron: process.env.INVENTORY_VERIFY_CRON || '30 4 * * *',
+        maxRetries: 1,
+        lockTtlMs: 10 * 60 * 1000,
+        handler: () => inventoryService.verifyAndAlert(),
+    });
+
+    // Рекомендации: совместные покупки и персональные подборки по доставленным заказам
+    jobScheduler.register({
+        name: 'recommendations-refresh',
+        description: 'Rebuild frequently-bought-together pairs and personal picks from delivered orders',
+        cron: process.env.RECOMMENDATIONS_REFRESH_CRON || '0 5 * * *',
+        maxRetries: 1,
+        lockTtlMs: 30 * 60 * 1000,
+        handler: () => recommendationService.refresh(),
+    });
+
+    // Переключение is_active на запланированную версию матрицы уровней
+    jobScheduler.register({
+        name: 'levels-matrix-activate',
+        description: 'Mark the levels matrix version whose activate_at has passed as active',
+        cron: '*/10 * * * *',
+        lockTtlMs: 60_000,
+        handler: async () => ({ activeVersionId: await levelsMatrixService.activateDue() }),
+    });
+
+    // Погашение долгов после сторно возвратов (receivable) из новых поступлений
+    jobScheduler.register({
+        name: 'receivables-settle',
+        description: 'Offset negative receivable balances left by order returns against available funds',
+        cron: process.env.RECEIVABLES_SETTLE_CRON || '15 * * * *',
+        maxRetries: 1,
+        lockTtlMs: 10 * 60 * 1000,
+        handler: () => orderReturnService.settleReceivables(),
+    });
+
+    // Освобождение бонусов после окна возврата (hold → целевой счёт)
+    jobScheduler.register({
+        name: 'bonus-hold-release',
+        description: 'Release delivery bonuses from hold accounts once the return window has passed',
+        cron: process.env.BONUS_HOLD_RELEASE_CRON || '*/10 * * * *',
+        maxRetries: 1,
+        lockTtlMs: 10 * 60 * 1000,
+        handler: () => bonusHoldService.releaseDue(),
+    });
+
+    // Ночная сверка леджера (двойная запись, app_user.balance, отрицательные счета)
+    jobScheduler.register({
+        name: 'ledger-reconciliation',
+        description: 'Verify ledger double-entry invariants and store a trial balance snapshot',
+        cron: process.env.LEDGER_RECONCILIATION_CRON || '0 4 * * *',
+        maxRetries: 1,
+        lockTtlMs: 30 * 60 * 1000,
+        handler: () => ledgerReconciliationService.run({ trigger: 'schedule' }),
+    });
+
+    // Удаление медиа без привязок (БД + Cloudinary)
+    jobScheduler.register({
+        name: 'media-cleanup',
+        description: 'Delete orphaned uploaded media from the database and Cloudinary',
+        cron: process.env.MEDIA_CLEANUP_CRON || '30 3 * * *',
+        maxRetries: 2,
+        handler: () => mediaService.cleanupOrphanedMedia(200),
+    });
+
+    // Option 3% за прошедший месяц (начисления идемпотентны по userId + period)
+    jobScheduler.register({
+        name: 'option3-monthly',
+        description: 'Grant monthly Option 3% bonuses for the previous month',
+        cron: process.env.OPTION3_MONTHLY_CRON || '0 2 1 * *',
+        maxRetries: 3,
+        retryDelayMs: 5 * 60 * 1000,
+        lockTtlMs: 60 * 60 * 1000,
+        handler: async () => {
+            const { year, month } = previousLocalMonth();
+            const results = await option3BonusService.processMonthlyOption3Distribution(year, month);
+            return {
+                period: `${year}-${String(month).padStart(2, '0')}`,
+                users: results.length,
+                granted: results.filter((r) => r.processed).length,
+                totalBonusRub: results.reduce((sum, r) => sum + r.bonusAmount, 0),
+            };
+        },
+    });
+
+    // Закрытие месяца: квалификация рангов
+    jobScheduler.register({
+        name: 'rank-month-close',
+        description: 'Evaluate monthly rank qualification and apply promotions/demotions',
+        cron: process.env.RANK_MONTH_CLOSE_CRON || '0 3 1 * *',
+        maxRetries: 2,
+        retryDelayMs: 5 * 60 * 1000,
+        lockTtlMs: 60 * 60 * 1000,
+        handler: async () => {
+            const { decisions: _decisions, ...summary } = await rankEvaluationService.evaluateMonth(
+                previousMonth(),
+                { dryRun: false }
+            );
+            return summary;
+        },
+    });
+}
+
+/**
+ * Зарегистрировать задачи и запустить планировщик
+ */
+export async function initJobScheduler(): Promise<void> {
+    registerScheduledJobs();
+    await jobScheduler.start(Number(process.env.JOB_SCHEDULER_TICK_MS || 30_000));
+
+    process.on('SIGTERM', () => jobScheduler.stop());
+    process.on('SIGINT', () => jobScheduler.stop());
+}
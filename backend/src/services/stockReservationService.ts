@@ -0,0 +1,189 @@
+// backend/src/services/stockReservationService.ts
+import { db } from '#db/db';
+import { product } from '#db/schema/products';
+import { order } from '#db/schema/orders';
+import { orderItem } from '#db/schema/orderItem';
+import { productVariant } from '#db/schema/productVariants';
+import type { StockReservation } from '#db/schema/stockReservations';
+import { eq, inArray } from 'drizzle-orm';
+import { stockReservationsStorage, stockKey } from '#storage/stockReservationsStorage';
+import { productVariantsStorage } from '#storage/productVariantsStorage';
+import { productBundlesStorage } from '#storage/productBundlesStorage';
+import { inventoryMovementsStorage } from '#storage/inventoryMovementsStorage';
+import { AppError, AppErrorCode } from '../middleware/errorHandler';
+import { paymentTimeoutWorker } from './paymentTimeoutWorker';
+import { orderLoggingService } from './orderLoggingService';
+import { errorMonitoringService } from './errorMonitoringService';
+import { inventoryService } from './inventoryService';
+
+/**
+ * Stock Reservation Service
+ * Резерв товара между оформлением и оплатой:
+ *
+ *   reserveOrder — оформление (POST /api/orders) и начало оплаты (POST /api/payments):
+ *                  резерв на позиции заказа до now + таймаут оплаты, повторный вызов продлевает
+ *   ordersStorage.cancel / задача payment-timeout — снятие (отмена, истёк срок)
+ *   convertOrder — оплата (orderLifecycleService.onPaid): резерв → продажа, stock уменьшается
+ *
+ * product.stock — остаток на складе; доступно к продаже = stock − активные резервы.
+ * Товар с вариантами резервируется по вариантам: остаток и резервы считаются по product_variant.
+ * Набор резервируется и списывается компонентами (order_item_component).
+ */
+
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export interface ConvertResult {
+    converted: number;
+    /** Позиции, которых на складе не хватило (резерв успел истечь и товар продали другим) */
+    oversold: Array<{ productId: string; variantId: string | null; qty: number; stock: number }>;
+}
+
+export class StockReservationService {
+    constructor(private ttlMs: () => number = () => paymentTimeoutWorker.timeoutMs) {}
+
+    /** Срок резерва, взятого сейчас */
+    expiresAt(from = new Date()): Date {
+        return new Date(from.getTime() + this.ttlMs());
+    }
+
+    /**
+     * Зарезервировать позиции заказа (или продлить уже взятый резерв).
+     * Доступность проверяется под блокировкой строк товара, свой резерв заказа в расчёт не идёт.
+     */
+    async reserveOrder(orderId: string, tx?: Tx): Promise<StockReservation[]> {
+        if (!tx) return db.transaction((t) => this.reserveOrder(orderId, t));
+
+        const [ord] = await tx.select({ status: order.status }).from(order).where(eq(order.id, orderId)).limit(1);
+        if (!ord) throw new AppError(AppErrorCode.NOT_FOUND, 'Order not found', 404);
+        if (ord.status !== 'new' && ord.status !== 'pending') {
+            throw new AppError(AppErrorCode.VALIDATION_ERROR, `Cannot reserve stock for order in status "${ord.status}"`, 409);
+        }
+
+        const orderLines = await tx
+            .select({
+                id: orderItem.id,
+                productId: orderItem.productId,
+                variantId: orderItem.variantId,
+                productName: orderItem.productName,
+                variantName: orderItem.variantName,
+                qty: orderItem.qty,
+            })
+            .from(orderItem)
+            .where(eq(orderItem.orderId, orderId));
+        const items = await productBundlesStorage.expandStockLines(
+            orderLines.map((r) => ({ ...r, name: r.variantName ? `${r.productName} (${r.variantName})` : r.productName })),
+            tx
+        );
+
+        // Несколько строк одной позиции (в т.ч. из наборов) — один резерв на сумму
+        const wanted = new Map<string, { productId: string; variantId: string | null; qty: number; name: string }>();
+        for (const it of items) {
+            const key = stockKey(it);
+            const cur = wanted.get(key);
+            wanted.set(key, { productId: it.productId, variantId: it.variantId, qty: (cur?.qty ?? 0) + it.qty, name: it.name });
+        }
+        if (wanted.size === 0) return [];
+
+        const productIds = [...new Set(items.map((i) => i.productId))];
+        const variantIds = [...new Set(items.map((i) => i.variantId).filter((v): v is string => !!v))];
+        const products = await tx
+            .select({ id: product.id, name: product.name, stock: product.stock })
+            .from(product)
+            .where(inArray(product.id, productIds))
+            .for('update');
+        const variants = variantIds.length
+            ? await tx
+                  .select({ id: productVariant.id, productId: productVariant.productId, stock: productVariant.stock, isActive: productVariant.isActive })
+                  .from(productVariant)
+                  .where(inArray(productVariant.id, variantIds))
+                  .for('update')
+            : [];
+        const productById = new Map(products.map((p) => [p.id, p]));
+        const variantById = new Map(variants.map((v) => [v.id, v]));
+        const withVariants = await productVariantsStorage.productsWithVariants(productIds, tx);
+
+        // Уже проданное по заказу (converted) не резервируется повторно
+        const existing = await stockReservationsStorage.listByOrder(orderId, tx);
+        const soldKeys = new Set(existing.filter((r) => r.status === 'converted').map(stockKey));
+
+        const reserved = await stockReservationsStorage.reservedByItem([...wanted.values()], { excludeOrderId: orderId }, tx);
+
+        const lines: Array<{ productId: string; variantId: string | null; qty: number }> = [];
+        for (const [key, { productId, variantId, qty, name }] of wanted) {
+            if (soldKeys.has(key)) continue;
+            const prod = productById.get(productId);
+            if (!prod) throw new AppError(AppErrorCode.NOT_FOUND, `Товар ${name} не найден`, 404);
+
+            let onHand = prod.stock;
+            if (variantId) {
+                const variant = variantById.get(variantId);
+                if (!variant || variant.productId !== productId || !variant.isActive) {
+                    throw new AppError(AppErrorCode.VALIDATION_ERROR, `Вариант товара "${name}" больше не продаётся`, 409, { productId, variantId });
+                }
+                onHand = variant.stock;
+            } else if (withVariants.has(productId)) {
+                // Остаток товара с вариантами лежит на вариантах — строка без варианта не резервируется
+                throw new AppError(AppErrorCode.VALIDATION_ERROR, `Выберите вариант товара "${name}"`, 409, { productId });
+            }
+
+            const available = Math.max(onHand - (reserved.get(key) ?? 0), 0);
+            if (available < qty) {
+                throw new AppError(
+                    AppErrorCode.VALIDATION_ERROR,
+                    `Недостаточно товара "${name}". Доступно ${available}, нужно ${qty}`,
+                    409,
+                    { productId, variantId, available, requested: qty }
+                );
+            }
+            lines.push({ productId, variantId, qty });
+        }
+
+        const rows = await stockReservationsStorage.upsertForOrder(orderId, lines, this.expiresAt(), tx);
+
+        // В журнал — только изменение: продление того же количества движением не считается
+        const prevActive = new Map(existing.filter((r) => r.status === 'active').map((r) => [stockKey(r), r.qty]));
+        await inventoryMovementsStorage.recordReservations(
+            lines.map((l) => ({ ...l, qty: l.qty - (prevActive.get(stockKey(l)) ?? 0) })),
+            { orderId, reason: 'Reserved for order' },
+            tx
+        );
+        return rows;
+    }
+
+    /**
+     * Оплата: резервы заказа → продажа, stock уменьшается на зарезервированное.
+     * Идемпотентно — converted-строки повторно не списываются.
+     * Снятый по сроку резерв тоже списывается: деньги получены, товар отгружаем; если остатка
+     * не хватило (успели продать другим) — stock обнуляется, недостача уходит в лог заказа.
+     */
+    async convertOrder(orderId: string): Promise<ConvertResult> {
+        const { result, productIds } = await db.transaction(async (tx) => {
+            const rows = (await stockReservationsStorage.lockByOrder(orderId, tx)).filter((r) => r.status !== 'converted');
+            const res: ConvertResult = { converted: rows.length, oversold: [] };
+
+            await inventoryMovementsStorage.recordReservations(
+                rows.filter((r) => r.status === 'active').map((r) => ({ productId: r.productId, variantId: r.variantId, qty: -r.qty })),
+                { orderId, reason: 'Converted to sale' },
+                tx
+            );
+            for (const r of rows) {
+                const { before } = await inventoryMovementsStorage.applyStock(
+                    { productId: r.productId, variantId: r.variantId, type: 'sale', qty: -r.qty, orderId, reason: 'Order paid', onShortage: 'clamp' },
+                    tx
+                );
+                if (before < r.qty) res.oversold.push({ productId: r.productId, variantId: r.variantId, qty: r.qty, stock: before });
+            }
+            await stockReservationsStorage.markConverted(rows.map((r) => r.id), tx);
+            return { result: res, productIds: [...new Set(rows.map((r) => r.productId))] };
+        });
+
+        if (productIds.length > 0) await inventoryService.checkLowStock(productIds);
+        if (result.oversold.length > 0) {
+            errorMonitoringService.logError('warning', `Order ${orderId} paid with insufficient stock`, undefined, { oversold: result.oversold });
+            await orderLoggingService.logEvent({ orderId, event: 'stock:oversold', meta: { lines: result.oversold } });
+        }
+        return result;
+    }
+}
+
+export const stockReservationService = new StockReservationService();
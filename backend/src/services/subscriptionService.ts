@@ -0,0 +1,564 @@
+// backend/src/services/subscriptionService.ts
+import { and, eq, inArray } from 'drizzle-orm';
+import { db } from '#db/db';
+import { order, type Order, type DeliveryDestination } from '#db/schema/orders';
+import { product } from '#db/schema/products';
+import { productVariant } from '#db/schema/productVariants';
+import type { OrderItem } from '#db/schema/orderItem';
+import type { Subscription } from '#db/schema/subscriptions';
+import ordersStorage from '#storage/ordersStorage';
+import { orderItemStorage } from '#storage/orderItemStorage';
+import { productVariantsStorage } from '#storage/productVariantsStorage';
+import {
+    subscriptionsStorage,
+    type SubscriptionItemInput,
+    type SubscriptionItemView,
+    type SubscriptionPaymentSource,
+    type SubscriptionStatus,
+    type SubscriptionWithItems,
+} from '#storage/subscriptionsStorage';
+import { orderBaseAccruals, roundHalfUp } from '#utils/money';
+import { AppError, AppErrorCode } from '../middleware/errorHandler';
+import { stockReservationService } from './stockReservationService';
+import { deliveryFeeService } from './deliveryFeeService';
+import { buildParcel, type CarrierName } from './delivery';
+import { checkoutPaymentService, type CheckoutPaymentService } from './checkoutPaymentService';
+import type { TinkoffPaymentService } from './tinkoffPaymentService';
+import { tinkoffService } from './tinkoff/tinkoffService';
+import { tinkoffReceiptService, type TinkoffReceiptService } from './tinkoff/tinkoffReceipt';
+import { telegramNotificationService } from './telegramNotificationService';
+import { errorMonitoringService } from './errorMonitoringService';
+
+/**
+ * Subscription Service
+ * Автопополнение: пользователь выбирает товары, количество и период (1–6 мес.),
+ * задача subscriptions-run в дату списания создаёт заказ и оплачивает его.
+ *
+ *   Заказ — тот же путь, что у корзины: позиции (orderItemStorage.addItem, цена / PV на сегодня),
+ *   резерв остатков, доставка и итоги как в ordersController.createOrder, плюс скидка подписчика.
+ *   PV заказа попадает в месячные показатели статуса, как у любого доставленного заказа.
+ *
+ *   Оплата:
+ *     wallet — весь заказ с cash_rub (checkoutPaymentService.payFromWallet)
+ *     card   — сохранённая карта Тинькофф (Init + Charge по RebillId); пока карты нет —
+ *              рекуррентный Init (Recurrent=Y), ссылка на оплату уходит в Telegram,
+ *              RebillId приходит в уведомлении об оплате (saveCard)
+ *
+ *   За SUBSCRIPTION_NOTICE_DAYS до списания — напоминание (задача subscriptions-notify).
+ *   Неудача — повтор через сутки; после SUBSCRIPTION_MAX_FAILED_ATTEMPTS подряд подписка на паузе.
+ */
+
+export interface SubscriptionConfig {
+    /** Скидка подписчика, % от стоимости товаров */
+    discountPercent: number;
+    noticeDays: number;
+    maxFailedAttempts: number;
+    retryDelayMs: number;
+}
+
+export const subscriptionConfig: SubscriptionConfig = {
+    discountPercent: Number(process.env.SUBSCRIPTION_DISCOUNT_PERCENT || 5),
+    noticeDays: Number(process.env.SUBSCRIPTION_NOTICE_DAYS || 3),
+    maxFailedAttempts: Number(process.env.SUBSCRIPTION_MAX_FAILED_ATTEMPTS || 3),
+    retryDelayMs: 24 * 60 * 60 * 1000,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** Последний день месяца для списания — в любом месяце он есть */
+const MAX_RUN_DAY = 28;
+
+export interface SubscriptionDelivery {
+    deliveryService?: CarrierName | null | undefined;
+    deliveryAddress?: string | null | undefined;
+    deliveryDestination?: DeliveryDestination | null | undefined;
+}
+
+export interface CreateSubscriptionInput extends SubscriptionDelivery {
+    items: SubscriptionItemInput[];
+    intervalMonths: number;
+    paymentSource: SubscriptionPaymentSource;
+    /** Дата первого заказа; по умолчанию — завтра */
+    firstRunAt?: Date | undefined;
+}
+
+export interface UpdateSubscriptionInput extends SubscriptionDelivery {
+    items?: SubscriptionItemInput[] | undefined;
+    intervalMonths?: number | undefined;
+    paymentSource?: SubscriptionPaymentSource | undefined;
+    nextRunAt?: Date | undefined;
+}
+
+/** Подписка в кабинете: RebillId наружу не отдаём */
+export interface SubscriptionView {
+    id: string;
+    status: SubscriptionStatus;
+    intervalMonths: number;
+    nextRunAt: Date;
+    retryAt: Date | null;
+    failedAttempts: number;
+    paymentSource: SubscriptionPaymentSource;
+    hasSavedCard: boolean;
+    deliveryService: string | null;
+    deliveryAddress: string | null;
+    deliveryDestination: DeliveryDestination | null;
+    items: SubscriptionItemView[];
+    /** Товары по сегодняшним ценам, скидка подписчика и итог без доставки */
+    itemsSubtotalRub: number;
+    discountPercent: number;
+    discountRub: number;
+    estimatedTotalRub: number;
+    createdAt: Date;
+}
+
+export type SubscriptionRunOutcome = 'paid' | 'awaiting_payment' | 'failed';
+
+export interface SubscriptionRunResult {
+    subscriptionId: string;
+    outcome: SubscriptionRunOutcome;
+    orderId?: string;
+    paymentUrl?: string;
+    error?: string;
+}
+
+type Notifier = Pick<typeof telegramNotificationService, 'sendSubscriptionNotice'>;
+
+/** Дата списания не позже 28-го: 29–31 переносятся на 1-е следующего месяца */
+export function normalizeRunDate(date: Date): Date {
+    const d = new Date(date);
+    if (d.getDate() > MAX_RUN_DAY) d.setMonth(d.getMonth() + 1, 1);
+    return d;
+}
+
+/** +n месяцев; день ≤ 28, поэтому не переполняется в следующий месяц */
+export function addMonths(date: Date, months: number): Date {
+    const d = new Date(date);
+    d.setMonth(d.getMonth() + months);
+    return d;
+}
+
+/** Следующая плановая дата после from, строго позже now */
+function nextRunAfter(from: Date, intervalMonths: number, now: Date): Date {
+    let next = addMonths(from, intervalMonths);
+    while (next <= now) next = addMonths(next, intervalMonths);
+    return next;
+}
+
+export class SubscriptionService {
+    constructor(
+        private tinkoff: TinkoffPaymentService = tinkoffService,
+        private checkout: CheckoutPaymentService = checkoutPaymentService,
+        private receipts: TinkoffReceiptService = tinkoffReceiptService,
+        private notifier: Notifier = telegramNotificationService,
+        private config: SubscriptionConfig = subscriptionConfig
+    ) {}
+
+    /* ───────────── Кабинет ───────────── */
+
+    async listMine(userId: string): Promise<SubscriptionView[]> {
+        return (await subscriptionsStorage.listByUser(userId)).map((s) => this.toView(s));
+    }
+
+    async create(userId: string, input: CreateSubscriptionInput, now = new Date()): Promise<SubscriptionView> {
+        await this.assertItems(input.items);
+        const firstRunAt = this.assertRunDate(input.firstRunAt ?? new Date(now.getTime() + DAY_MS), now);
+
+        const row = await subscriptionsStorage.create(
+            {
+                userId,
+                status: 'active',
+                intervalMonths: input.intervalMonths,
+                nextRunAt: firstRunAt,
+                paymentSource: input.paymentSource,
+                ...this.deliveryPatch(input),
+            },
+            input.items
+        );
+        return this.view(row);
+    }
+
+    async update(id: string, userId: string, input: UpdateSubscriptionInput, now = new Date()): Promise<SubscriptionView> {
+        const sub = await this.getOwn(id, userId);
+        if (sub.status === 'canceled') {
+            throw new AppError(AppErrorCode.VALIDATION_ERROR, 'Subscription is canceled', 409);
+        }
+        if (input.items) await this.assertItems(input.items);
+
+        const patch = {
+            ...(input.intervalMonths != null ? { intervalMonths: input.intervalMonths } : {}),
+            ...(input.paymentSource ? { paymentSource: input.paymentSource } : {}),
+            ...(input.nextRunAt ? { nextRunAt: this.assertRunDate(input.nextRunAt, now), retryAt: null } : {}),
+            ...this.deliveryPatch(input),
+        };
+
+        await db.transaction(async (tx) => {
+            await subscriptionsStorage.update(id, patch, tx);
+            if (input.items) await subscriptionsStorage.replaceItems(id, input.items, tx);
+        });
+        return this.view((await subscriptionsStorage.getById(id))!);
+    }
+
+    async pause(id: string, userId: string): Promise<SubscriptionView> {
+        const sub = await this.getOwn(id, userId);
+        if (sub.status !== 'active') {
+            throw new AppError(AppErrorCode.VALIDATION_ERROR, `Cannot pause subscription in status "${sub.status}"`, 409);
+        }
+        return this.view((await subscriptionsStorage.update(id, { status: 'paused', pausedAt: new Date(), retryAt: null }))!);
+    }
+
+    /** Возобновить; прошедшая за время паузы дата списания переносится вперёд по расписанию */
+    async resume(id: string, userId: string, now = new Date()): Promise<SubscriptionView> {
+        const sub = await this.getOwn(id, userId);
+        if (sub.status !== 'paused') {
+            throw new AppError(AppErrorCode.VALIDATION_ERROR, `Cannot resume subscription in status "${sub.status}"`, 409);
+        }
+        const nextRunAt = sub.nextRunAt > now ? sub.nextRunAt : nextRunAfter(sub.nextRunAt, sub.intervalMonths, now);
+        return this.view(
+            (await subscriptionsStorage.update(id, {
+                status: 'active',
+                pausedAt: null,
+                failedAttempts: 0,
+                retryAt: null,
+                nextRunAt,
+            }))!
+        );
+    }
+
+    /** Пропустить ближайший заказ: дата списания сдвигается на один период */
+    async skip(id: string, userId: string): Promise<SubscriptionView> {
+        const sub = await this.getOwn(id, userId);
+        if (sub.status !== 'active') {
+            throw new AppError(AppErrorCode.VALIDATION_ERROR, `Cannot skip subscription in status "${sub.status}"`, 409);
+        }
+        return this.view(
+            (await subscriptionsStorage.update(id, {
+                nextRunAt: addMonths(sub.nextRunAt, sub.intervalMonths),
+                retryAt: null,
+                failedAttempts: 0,
+            }))!
+        );
+    }
+
+    async cancel(id: string, userId: string): Promise<SubscriptionView> {
+        const sub = await this.getOwn(id, userId);
+        if (sub.status === 'canceled') return this.view(sub);
+        return this.view(
+            (await subscriptionsStorage.update(id, { status: 'canceled', canceledAt: new Date(), retryAt: null }))!
+        );
+    }
+
+    /**
+     * Заказ по подписке сейчас, не дожидаясь даты: первая поставка и привязка карты
+     * (для card без сохранённой карты вернётся paymentUrl)
+     */
+    async runNow(id: string, userId: string, now = new Date()): Promise<SubscriptionRunResult> {
+        const sub = await this.getOwn(id, userId);
+        if (sub.status !== 'active') {
+            throw new AppError(AppErrorCode.VALIDATION_ERROR, `Cannot run subscription in status "${sub.status}"`, 409);
+        }
+        const [awaiting] = await db
+            .select({ id: order.id })
+            .from(order)
+            .where(and(eq(order.subscriptionId, id), eq(order.status, 'new')))
+            .limit(1);
+        if (awaiting) {
+            throw new AppError(AppErrorCode.VALIDATION_ERROR, 'Previous subscription order is awaiting payment', 409, {
+                orderId: awaiting.id,
+            });
+        }
+        return this.run(sub, now);
+    }
+
+    /** Уведомление об оплате с RebillId: сохранить карту подписки, по которой создан заказ */
+    async saveCard(orderId: string, rebillId: string): Promise<void> {
+        const sub = await subscriptionsStorage.setRebillIdByOrder(orderId, rebillId);
+        if (sub) console.log(`💳 Subscription ${sub.id}: card saved for recurrent charges`);
+    }
+
+    /* ───────────── Задачи ───────────── */
+
+    /** Напоминания о списании в ближайшие noticeDays дней (задача subscriptions-notify) */
+    async notifyUpcoming(now = new Date()): Promise<{ notified: number }> {
+        const due = await subscriptionsStorage.listToNotify(new Date(now.getTime() + this.config.noticeDays * DAY_MS));
+        const items = await subscriptionsStorage.listItems(due.map((s) => s.id));
+
+        let notified = 0;
+        for (const sub of due) {
+            const view = this.toView({ ...sub, items: items.get(sub.id) ?? [] });
+            await this.notifier.sendSubscriptionNotice(sub.userId, {
+                type: 'upcoming',
+                runAt: sub.nextRunAt,
+                amountRub: view.estimatedTotalRub,
+                paymentSource: view.paymentSource,
+                items: view.items.map((i) => ({
+                    name: i.variantName ? `${i.productName} (${i.variantName})` : i.productName,
+                    qty: i.qty,
+                })),
+            });
+            await subscriptionsStorage.update(sub.id, { notifiedRunAt: sub.nextRunAt });
+            notified++;
+        }
+        return { notified };
+    }
+
+    /** Создать и оплатить заказы по наступившим подпискам (задача subscriptions-run) */
+    async runDue(now = new Date(), limit = 100): Promise<Record<SubscriptionRunOutcome, number>> {
+        const summary: Record<SubscriptionRunOutcome, number> = { paid: 0, awaiting_payment: 0, failed: 0 };
+        for (const sub of await subscriptionsStorage.listDue(now, limit)) {
+            const result = await this.run(sub, now);
+            summary[result.outcome]++;
+        }
+        return summary;
+    }
+
+    /* ───────────── Заказ и оплата ───────────── */
+
+    private async run(sub: Subscription, now: Date): Promise<SubscriptionRunResult> {
+        let placed: Order;
+        try {
+            placed = await this.placeOrder(sub);
+        } catch (e) {
+            return this.fail(sub, (e as Error).message, now);
+        }
+
+        const amountRub = Number(placed.totalPayableRub);
+        const description = `Заказ по подписке ${placed.id}`;
+        let result: SubscriptionRunResult;
+
+        try {
+            if (sub.paymentSource === 'wallet') {
+                await this.checkout.payFromWallet({ orderId: placed.id, userId: sub.userId, amountRub });
+                result = { subscriptionId: sub.id, outcome: 'paid', orderId: placed.id };
+            } else {
+                const receipt = this.receipts.enabled ? await this.receipts.forOrder(placed.id, amountRub) : undefined;
+                await ordersStorage.update(placed.id, { paymentMethod: 'card' });
+
+                if (sub.rebillId) {
+                    const charged = await this.tinkoff.chargeRecurrent({
+                        orderId: placed.id,
+                        amountRub,
+                        description,
+                        customerKey: sub.userId,
+                        rebillId: sub.rebillId,
+                        ...(receipt ? { receipt } : {}),
+                    });
+                    if (!charged.success) throw new Error(charged.error);
+                    result = { subscriptionId: sub.id, outcome: 'paid', orderId: placed.id };
+                } else {
+                    // Карты ещё нет: рекуррентный платёж по ссылке, после оплаты придёт RebillId
+                    const init = await this.tinkoff.createPayment({
+                        orderId: placed.id,
+                        amountRub,
+                        description,
+                        customerKey: sub.userId,
+                        method: 'card',
+                        recurrent: true,
+                        ...(receipt ? { receipt } : {}),
+                    });
+                    if (!init.success) throw new Error(init.error);
+                    await this.notifier.sendSubscriptionNotice(sub.userId, {
+                        type: 'payment_link',
+                        amountRub,
+                        paymentUrl: init.paymentUrl,
+                    });
+                    result = { subscriptionId: sub.id, outcome: 'awaiting_payment', orderId: placed.id, paymentUrl: init.paymentUrl };
+                }
+            }
+        } catch (e) {
+            // Неоплаченный заказ отменяем: резерв снимается, списание с баланса не прошло / возвращено
+            await ordersStorage.cancel(placed.id);
+            return this.fail(sub, (e as Error).message, now);
+        }
+
+        await subscriptionsStorage.update(sub.id, {
+            nextRunAt: nextRunAfter(sub.nextRunAt, sub.intervalMonths, now),
+            retryAt: null,
+            failedAttempts: 0,
+        });
+        return result;
+    }
+
+    /**
+     * Заказ из состава подписки в одной транзакции: позиции по текущим ценам, резерв,
+     * итоги по правилам ordersController.createOrder; скидка подписчика уменьшает и order_base.
+     */
+    private async placeOrder(sub: Subscription): Promise<Order> {
+        const items = (await subscriptionsStorage.listItems([sub.id])).get(sub.id) ?? [];
+        if (items.length === 0) throw new Error('Subscription has no items');
+
+        return db.transaction(async (tx) => {
+            const [draft] = await tx
+                .insert(order)
+                .values({ userId: sub.userId, status: 'pending', subscriptionId: sub.id })
+                .returning();
+
+            let lines: OrderItem[] = [];
+            for (const item of items) {
+                lines = await orderItemStorage.addItem(draft!.id, item.productId, item.qty, tx, item.variantId);
+            }
+
+            await stockReservationService.reserveOrder(draft!.id, tx);
+
+            const dims = await tx
+                .select({
+                    id: product.id,
+                    weightG: product.weightG,
+                    lengthCm: product.lengthCm,
+                    widthCm: product.widthCm,
+                    heightCm: product.heightCm,
+                })
+                .from(product)
+                .where(inArray(product.id, lines.map((l) => l.productId)));
+            const dimsMap = new Map(dims.map((d) => [d.id, d]));
+
+            const rate = this.config.discountPercent / 100;
+            const subtotal = lines.reduce((sum, l) => sum + Number(l.lineTotalRub ?? 0), 0);
+            const eligibleSubtotal = lines
+                .filter((l) => l.isPvEligible)
+                .reduce((sum, l) => sum + Number(l.lineTotalRub ?? 0), 0);
+
+            const subscriptionDiscount = roundHalfUp(subtotal * rate, 2);
+            // order_base — eligible товары после скидки (та же доля, что у всего заказа)
+            const orderBase = roundHalfUp(eligibleSubtotal * (1 - rate), 2);
+            const { pvEarned, vwcCashback, networkFundRub } = orderBaseAccruals(orderBase);
+
+            const { feeRub } = await deliveryFeeService.calculateFee({
+                deliveryService: sub.deliveryService as CarrierName | null,
+                deliveryAddress: sub.deliveryAddress,
+                cartSubtotalRub: subtotal,
+                destination: sub.deliveryDestination,
+                parcel: buildParcel(
+                    lines.map((l) => ({ ...dimsMap.get(l.productId), qty: l.qty, unitPriceRub: Number(l.unitPriceRub) }))
+                ),
+            });
+
+            const [placed] = await tx
+                .update(order)
+                .set({
+                    status: 'new',
+                    deliveryAddress: sub.deliveryAddress,
+                    deliveryService: sub.deliveryService,
+                    deliveryDestination: sub.deliveryDestination,
+                    deliveryFeeRub: String(feeRub),
+                    deliveryRequired: !!sub.deliveryAddress,
+                    itemsSubtotalRub: String(subtotal),
+                    discountTotalRub: '0',
+                    subscriptionDiscountRub: String(subscriptionDiscount),
+                    orderBaseRub: String(orderBase),
+                    pvEarned,
+                    vwcCashback: String(vwcCashback),
+                    networkFundRub: String(networkFundRub),
+                    totalPayableRub: String(roundHalfUp(subtotal - subscriptionDiscount + feeRub, 2)),
+                    updatedAt: new Date(),
+                })
+                .where(eq(order.id, draft!.id))
+                .returning();
+            return placed!;
+        });
+    }
+
+    /** Неудачная попытка: повтор через retryDelayMs, после maxFailedAttempts подряд — пауза */
+    private async fail(sub: Subscription, reason: string, now: Date): Promise<SubscriptionRunResult> {
+        const failedAttempts = sub.failedAttempts + 1;
+        const paused = failedAttempts >= this.config.maxFailedAttempts;
+
+        errorMonitoringService.logError('warning', `Subscription ${sub.id} run failed: ${reason}`);
+        await subscriptionsStorage.update(sub.id, {
+            failedAttempts,
+            retryAt: paused ? null : new Date(now.getTime() + this.config.retryDelayMs),
+            ...(paused ? { status: 'paused', pausedAt: now } : {}),
+        });
+        await this.notifier.sendSubscriptionNotice(sub.userId, { type: 'failed', reason, paused });
+
+        return { subscriptionId: sub.id, outcome: 'failed', error: reason };
+    }
+
+    /* ───────────── Вспомогательное ───────────── */
+
+    private async getOwn(id: string, userId: string): Promise<Subscription> {
+        const sub = await subscriptionsStorage.getForUser(id, userId);
+        if (!sub) throw new AppError(AppErrorCode.NOT_FOUND, 'Subscription not found', 404);
+        return sub;
+    }
+
+    private async view(sub: Subscription): Promise<SubscriptionView> {
+        const items = await subscriptionsStorage.listItems([sub.id]);
+        return this.toView({ ...sub, items: items.get(sub.id) ?? [] });
+    }
+
+    private toView(sub: SubscriptionWithItems): SubscriptionView {
+        const itemsSubtotalRub = roundHalfUp(sub.items.reduce((s, i) => s + i.unitPriceRub * i.qty, 0), 2);
+        const discountRub = roundHalfUp((itemsSubtotalRub * this.config.discountPercent) / 100, 2);
+        return {
+            id: sub.id,
+            status: sub.status as SubscriptionStatus,
+            intervalMonths: sub.intervalMonths,
+            nextRunAt: sub.nextRunAt,
+            retryAt: sub.retryAt,
+            failedAttempts: sub.failedAttempts,
+            paymentSource: sub.paymentSource as SubscriptionPaymentSource,
+            hasSavedCard: !!sub.rebillId,
+            deliveryService: sub.deliveryService,
+            deliveryAddress: sub.deliveryAddress,
+            deliveryDestination: sub.deliveryDestination,
+            items: sub.items,
+            itemsSubtotalRub,
+            discountPercent: this.config.discountPercent,
+            discountRub,
+            estimatedTotalRub: roundHalfUp(itemsSubtotalRub - discountRub, 2),
+            createdAt: sub.createdAt,
+        };
+    }
+
+    private deliveryPatch(input: SubscriptionDelivery) {
+        return {
+            ...(input.deliveryService !== undefined ? { deliveryService: input.deliveryService } : {}),
+            ...(input.deliveryAddress !== undefined ? { deliveryAddress: input.deliveryAddress } : {}),
+            ...(input.deliveryDestination !== undefined ? { deliveryDestination: input.deliveryDestination } : {}),
+        };
+    }
+
+    private assertRunDate(date: Date, now: Date): Date {
+        if (date <= now) {
+            throw new AppError(AppErrorCode.VALIDATION_ERROR, 'Run date must be in the future', 400);
+        }
+        return normalizeRunDate(date);
+    }
+
+    /** Товары на витрине, вариант — свой и включён; у товара с вариантами вариант обязателен */
+    private async assertItems(items: SubscriptionItemInput[]): Promise<void> {
+        if (items.length === 0) {
+            throw new AppError(AppErrorCode.VALIDATION_ERROR, 'Subscription must contain at least one item', 400);
+        }
+        const productIds = [...new Set(items.map((i) => i.productId))];
+        const products = await db
+            .select({ id: product.id, status: product.status })
+            .from(product)
+            .where(inArray(product.id, productIds));
+        const byId = new Map(products.map((p) => [p.id, p]));
+
+        const variantIds = items.map((i) => i.variantId).filter((v): v is string => !!v);
+        const variants = variantIds.length
+            ? await db
+                  .select({ id: productVariant.id, productId: productVariant.productId })
+                  .from(productVariant)
+                  .where(and(inArray(productVariant.id, variantIds), eq(productVariant.isActive, true)))
+            : [];
+        const variantProduct = new Map(variants.map((v) => [v.id, v.productId]));
+        const withVariants = await productVariantsStorage.productsWithVariants(productIds);
+
+        for (const it of items) {
+            if (byId.get(it.productId)?.status !== 'active') {
+                throw new AppError(AppErrorCode.NOT_FOUND, `Product ${it.productId} not found`, 404);
+            }
+            if (it.variantId) {
+                if (variantProduct.get(it.variantId) !== it.productId) {
+                    throw new AppError(AppErrorCode.NOT_FOUND, `Variant ${it.variantId} of product ${it.productId} not found`, 404);
+                }
+            } else if (withVariants.has(it.productId)) {
+                throw new AppError(AppErrorCode.VALIDATION_ERROR, `Product ${it.productId} has variants, variantId is required`, 400);
+            }
+        }
+    }
+}
+
+export const subscriptionService = new SubscriptionService();
@@ -1,6 +1,18 @@
 // src/services/telegramNotificationService.ts
 import { usersStorage } from '#storage/usersStorage';
 
+/** Сообщения подписчику автопополнения (subscriptionService) */
+export type SubscriptionNotice =
+    | {
+          type: 'upcoming';
+          runAt: Date;
+          amountRub: number;
+          paymentSource: 'card' | 'wallet';
+          items: Array<{ name: string; qty: number }>;
+      }
+    | { type: 'payment_link'; amountRub: number; paymentUrl: string }
+    | { type: 'failed'; reason: string; paused: boolean };
+
 interface TelegramNotificationService {
     sendReferralNotification(referrerId: string, newReferral: { firstName?: string; username?: string } | null, level: number): Promise<void>;
     sendBonusNotification(userId: string, amount: number, sourceUserName: string, level: number): Promise<void>;
@@ -8,6 +20,9 @@ interface TelegramNotificationService {
     sendUpgradeNotification(userId: string, status: 'partner' | 'partner_pro'): Promise<void>;
     sendRankChangeNotification(userId: string, rank: 'member' | 'лидер' | 'создатель'): Promise<void>;
     send(userId: string, text: string): Promise<void>;
+    sendLowStockAlert(item: { name: string; sku: string | null; stock: number; threshold: number }): Promise<void>;
+    sendSubscriptionNotice(userId: string, notice: SubscriptionNotice): Promise<void>;
+    sendBackInStockNotice(userId: string, item: { name: string; url: string }): Promise<void>;
 }
 
 function escapeHtml(s: string) {
@@ -126,6 +141,76 @@ class TelegramNotificationServiceImpl implements TelegramNotificationService {
         }
     }
 
+    /** Остаток товара опустился до порога — всем админам */
+    async sendLowStockAlert(item: { name: string; sku: string | null; stock: number; threshold: number }): Promise<void> {
+        const message =
+            `📦 <b>Заканчивается товар</b>\n\n` +
+            `${escapeHtml(item.name)}${item.sku ? ` (<code>${escapeHtml(item.sku)}</code>)` : ''}\n` +
+            `Остаток: <b>${item.stock} шт.</b> (порог ${item.threshold})`;
+        await this.sendToAdmins(message);
+    }
+
+    /** Подписка: напоминание перед списанием, ссылка на оплату, неудачное списание */
+    async sendSubscriptionNotice(userId: string, notice: SubscriptionNotice): Promise<void> {
+        const rub = (v: number) => `${v.toLocaleString('ru-RU', { maximumFractionDigits: 2 })} ₽`;
+        let message: string;
+
+        switch (notice.type) {
+            case 'upcoming':
+                message =
+                    `🔁 <b>Скоро заказ по подписке</b>\n\n` +
+                    notice.items.map((i) => `• ${escapeHtml(i.name)} × ${i.qty}`).join('\n') +
+                    `\n\n${notice.runAt.toLocaleDateString('ru-RU')} спишем около <b>${rub(notice.amountRub)}</b> ` +
+                    `${notice.paymentSource === 'wallet' ? 'с баланса' : 'с привязанной карты'}.\n` +
+                    `Пропустить или приостановить — в личном кабинете, раздел «Подписки».`;
+                break;
+            case 'payment_link':
+                message =
+                    `🔁 <b>Заказ по подписке создан</b>\n\n` +
+                    `К оплате: <b>${rub(notice.amountRub)}</b>. После оплаты карта сохранится для следующих заказов.\n` +
+                    `<a href="${escapeHtml(notice.paymentUrl)}">Оплатить</a>`;
+                break;
+            case 'failed':
+                message =
+                    `⚠️ <b>Не удалось оформить заказ по подписке</b>\n\n${escapeHtml(notice.reason)}\n` +
+                    (notice.paused
+                        ? 'Подписка приостановлена — возобновите её в личном кабинете.'
+                        : 'Попробуем ещё раз завтра.');
+                break;
+        }
+        await this.send(userId, message);
+    }
+
+    /** Товар из «сообщить о поступлении» снова в наличии */
+    async sendBackInStockNotice(userId: string, item: { name: string; url: string }): Promise<void> {
+        const message =
+            `✅ <b>Снова в наличии</b>\n\n` +
+            `${escapeHtml(item.name)} — можно заказать.\n` +
+            `<a href="${escapeHtml(item.url)}">Открыть товар</a>`;
+        await this.send(userId, message);
+    }
+
+    /**
+     * Служебное сообщение админам: чаты из TELEGRAM_ADMIN_CHAT_IDS (через запятую),
+     * если не заданы — активные админы с привязанным Telegram
+     */
+    private async sendToAdmins(text: string): Promise<void> {
+        try {
+            const configured = (process.env.TELEGRAM_ADMIN_CHAT_IDS || '')
+                .split(',')
+                .map((s) => s.trim())
+                .filter(Boolean);
+            const chatIds = configured.length > 0 ? configured : await usersStorage.listAdminTelegramIds();
+            if (chatIds.length === 0) {
+                console.warn('Некому отправить уведомление админам — нет TELEGRAM_ADMIN_CHAT_IDS и админов с Telegram');
+                return;
+            }
+            for (const chatId of chatIds) await this.sendMessage(chatId, text);
+        } catch (e) {
+            console.error('Ошибка отправки уведомления админам:', e);
+        }
+    }
+
     /** Низкоуровневая отправка сообщения пользователю */
     private async sendMessage(telegramId: string, text: string): Promise<void> {
         if (!this.botToken) {
@@ -0,0 +1,403 @@
+// backend/src/services/tinkoff/tinkoffReceipt.ts
+import 'dotenv/config';
+import { asc, eq, inArray, sql } from 'drizzle-orm';
+import { db } from '#db/db';
+import { order } from '#db/schema/orders';
+import { orderItem } from '#db/schema/orderItem';
+import { product } from '#db/schema/products';
+import { appUser } from '#db/schema/users';
+import { vatRateEnum } from '#db/schema/enums';
+import { paymentsStorage } from '#storage/paymentsStorage';
+import { orderReturnsStorage } from '#storage/orderReturnsStorage';
+import { productBundlesStorage, allocateBundlePrice } from '#storage/productBundlesStorage';
+
+/**
+ * Чек 54-ФЗ для Тинькофф (объект Receipt в Init / Cancel, ФФД 1.05)
+ *
+ *   - позиции — из order_item (line_total_rub уже за вычетом скидок позиции), НДС — product.vat;
+ *     набор пробивается компонентами, сумма позиции делится по раскладке order_item_component
+ *   - доставка — отдельная позиция-услуга
+ *   - скидки уровня заказа (промокод, реферальная) и часть, оплаченная не картой (кошелёк),
+ *     распределяются по позициям пропорционально сумме, в копейках методом наибольшего остатка
+ *   - Price × Quantity должно совпадать с Amount: если сумма не делится на количество,
+ *     позиция делится на две (qty − 1 по цене floor и 1 шт. с остатком)
+ *   - чек возврата строится из той же раскладки, что и чек прихода
+ */
+
+type VatRate = (typeof vatRateEnum.enumValues)[number];
+
+export type ReceiptTaxation = 'osn' | 'usn_income' | 'usn_income_outcome' | 'envd' | 'esn' | 'patent';
+export type ReceiptPaymentMethod =
+    | 'full_prepayment'
+    | 'prepayment'
+    | 'advance'
+    | 'full_payment'
+    | 'partial_payment'
+    | 'credit'
+    | 'credit_payment';
+export type ReceiptPaymentObject = 'commodity' | 'service';
+
+export interface TinkoffReceiptItem {
+    Name: string;
+    /** Копейки */
+    Price: number;
+    Quantity: number;
+    /** Копейки, = Price × Quantity */
+    Amount: number;
+    Tax: VatRate;
+    PaymentMethod: ReceiptPaymentMethod;
+    PaymentObject: ReceiptPaymentObject;
+}
+
+export interface TinkoffReceipt {
+    Email?: string;
+    Phone?: string;
+    EmailCompany?: string;
+    Taxation: ReceiptTaxation;
+    Items: TinkoffReceiptItem[];
+}
+
+export interface ReceiptConfig {
+    enabled: boolean;
+    taxation: ReceiptTaxation;
+    defaultVat: VatRate;
+    deliveryVat: VatRate;
+    paymentMethod: ReceiptPaymentMethod;
+    companyEmail: string | null;
+}
+
+export interface ReceiptLine {
+    /** order_item.id (для чека возврата); у компонентов набора — id позиции-набора */
+    id?: string;
+    name: string;
+    qty: number;
+    /** Штук компонента в одном наборе (qty = штук наборов × perUnit); у обычной позиции 1 */
+    perUnit?: number;
+    amountRub: number;
+    vat?: VatRate | null;
+}
+
+const TAXATIONS: ReceiptTaxation[] = ['osn', 'usn_income', 'usn_income_outcome', 'envd', 'esn', 'patent'];
+const PAYMENT_METHODS: ReceiptPaymentMethod[] = [
+    'full_prepayment', 'prepayment', 'advance', 'full_payment', 'partial_payment', 'credit', 'credit_payment',
+];
+const VAT_RATES = vatRateEnum.enumValues as readonly VatRate[];
+
+function pick<T extends string>(value: string | undefined, allowed: readonly T[], fallback: T): T {
+    return value && (allowed as readonly string[]).includes(value) ? (value as T) : fallback;
+}
+
+const defaultVat = pick(process.env.TINKOFF_RECEIPT_VAT, VAT_RATES, 'none');
+
+export const receiptConfig: ReceiptConfig = {
+    enabled: process.env.TINKOFF_RECEIPT_ENABLED !== 'false',
+    taxation: pick(process.env.TINKOFF_TAXATION, TAXATIONS, 'usn_income'),
+    defaultVat,
+    deliveryVat: pick(process.env.TINKOFF_DELIVERY_VAT, VAT_RATES, defaultVat),
+    // Заказ оплачивается до передачи товара — полная предоплата
+    paymentMethod: pick(process.env.TINKOFF_RECEIPT_PAYMENT_METHOD, PAYMENT_METHODS, 'full_prepayment'),
+    companyEmail: process.env.TINKOFF_RECEIPT_EMAIL || null,
+};
+
+const DELIVERY_NAME = 'Доставка';
+const NAME_MAX = 128;
+
+export const toKopecks = (rub: number | string) => Math.round(Number(rub) * 100);
+
+/**
+ * Вычесть скидку из сумм (копейки) пропорционально, метод наибольшего остатка.
+ * Сумма результата = сумма входа − discount (discount ограничен суммой входа).
+ */
+export function allocateDiscount(amounts: number[], discount: number): number[] {
+    const total = amounts.reduce((s, a) => s + a, 0);
+    const d = Math.min(Math.max(discount, 0), total);
+    if (d === 0 || total === 0) return [...amounts];
+
+    const shares = amounts.map((a) => (d * a) / total);
+    const floors = shares.map(Math.floor);
+    let rest = d - floors.reduce((s, f) => s + f, 0);
+
+    const ranked = shares
+        .map((s, i) => ({ i, frac: s - floors[i]! }))
+        .sort((a, b) => b.frac - a.frac || a.i - b.i);
+    for (const { i } of ranked) {
+        if (rest <= 0) break;
+        floors[i]!++;
+        rest--;
+    }
+
+    return amounts.map((a, i) => a - floors[i]!);
+}
+
+/** Позиция чека; сумма, не кратная количеству, делится на две позиции */
+function toItems(
+    name: string,
+    qty: number,
+    amount: number,
+    tax: VatRate,
+    paymentObject: ReceiptPaymentObject,
+    paymentMethod: ReceiptPaymentMethod
+): TinkoffReceiptItem[] {
+    const Name = name.length > NAME_MAX ? `${name.slice(0, NAME_MAX - 1)}…` : name;
+    const base = { Name, Tax: tax, PaymentMethod: paymentMethod, PaymentObject: paymentObject };
+
+    if (amount % qty === 0) {
+        return [{ ...base, Price: amount / qty, Quantity: qty, Amount: amount }];
+    }
+
+    const price = Math.floor(amount / qty);
+    const last = amount - price * (qty - 1);
+    return [
+        { ...base, Price: price, Quantity: qty - 1, Amount: price * (qty - 1) },
+        { ...base, Price: last, Quantity: 1, Amount: last },
+    ];
+}
+
+/**
+ * Раскладка оплаченной суммы по позициям и доставке (копейки).
+ * Скидка = позиции + доставка − оплачено; сначала ложится на товары, остаток — на доставку.
+ */
+export function allocatePaid(lines: ReceiptLine[], deliveryRub: number, paidRub: number) {
+    const itemAmounts = lines.map((l) => toKopecks(l.amountRub));
+    const itemsTotal = itemAmounts.reduce((s, a) => s + a, 0);
+    const delivery = toKopecks(deliveryRub);
+    const paid = toKopecks(paidRub);
+
+    if (paid > itemsTotal + delivery) {
+        throw new Error(`Receipt: paid amount ${paidRub} exceeds order total ${(itemsTotal + delivery) / 100}`);
+    }
+
+    const discount = itemsTotal + delivery - paid;
+    const itemsDiscount = Math.min(discount, itemsTotal);
+
+    return {
+        items: allocateDiscount(itemAmounts, itemsDiscount),
+        delivery: delivery - (discount - itemsDiscount),
+    };
+}
+
+/**
+ * Позиции чека прихода: сумма Amount = paidRub
+ */
+export function buildReceiptItems(
+    lines: ReceiptLine[],
+    opts: { deliveryRub: number; paidRub: number; config?: ReceiptConfig }
+): TinkoffReceiptItem[] {
+    const config = opts.config ?? receiptConfig;
+    const allocated = allocatePaid(lines, opts.deliveryRub, opts.paidRub);
+
+    const items = lines.flatMap((l, i) =>
+        // Бесплатные / полностью оплаченные скидкой позиции в чек не попадают
+        allocated.items[i]! > 0
+            ? toItems(l.name, l.qty, allocated.items[i]!, l.vat ?? config.defaultVat, 'commodity', config.paymentMethod)
+            : []
+    );
+
+    if (allocated.delivery > 0) {
+        items.push(...toItems(DELIVERY_NAME, 1, allocated.delivery, config.deliveryVat, 'service', config.paymentMethod));
+    }
+    return items;
+}
+
+/**
+ * Позиции чека возврата: доля раскладки прихода по возвращённому количеству.
+ * qtyBefore — уже возвращено ранее: сумма по нарастающей, последний возврат добивает остаток.
+ */
+export function buildRefundItems(
+    lines: ReceiptLine[],
+    refund: Array<{ id: string; qty: number; qtyBefore?: number }>,
+    opts: { deliveryRub: number; paidRub: number; includeDelivery?: boolean; config?: ReceiptConfig }
+): TinkoffReceiptItem[] {
+    const config = opts.config ?? receiptConfig;
+    const allocated = allocatePaid(lines, opts.deliveryRub, opts.paidRub);
+    const upTo = (amount: number, qty: number, q: number) => Math.round((amount * q) / qty);
+
+    const items = refund.flatMap((r) => {
+        // Набор — несколько строк чека с одним id
+        const indexes = lines.flatMap((l, i) => (l.id === r.id ? [i] : []));
+        if (indexes.length === 0) throw new Error(`Receipt: order item ${r.id} not found`);
+
+        return indexes.flatMap((idx) => {
+            const line = lines[idx]!;
+            const perUnit = line.perUnit ?? 1;
+            const itemQty = line.qty / perUnit;
+
+            const before = r.qtyBefore ?? 0;
+            if (r.qty <= 0 || before + r.qty > itemQty) {
+                throw new Error(`Receipt: invalid refund quantity for order item ${r.id}`);
+            }
+
+            const amount = allocated.items[idx]!;
+            const refundAmount = upTo(amount, itemQty, before + r.qty) - upTo(amount, itemQty, before);
+            return refundAmount > 0
+                ? toItems(line.name, r.qty * perUnit, refundAmount, line.vat ?? config.defaultVat, 'commodity', config.paymentMethod)
+                : [];
+        });
+    });
+
+    if (opts.includeDelivery && allocated.delivery > 0) {
+        items.push(...toItems(DELIVERY_NAME, 1, allocated.delivery, config.deliveryVat, 'service', config.paymentMethod));
+    }
+    return items;
+}
+
+/** Телефон в формате +7XXXXXXXXXX */
+function normalizePhone(phone: string | null | undefined): string | null {
+    const digits = (phone ?? '').replace(/\D/g, '');
+    if (digits.length === 11 && (digits.startsWith('7') || digits.startsWith('8'))) return `+7${digits.slice(1)}`;
+    if (digits.length === 10) return `+7${digits}`;
+    return null;
+}
+
+export class TinkoffReceiptService {
+    constructor(private config: ReceiptConfig = receiptConfig) {}
+
+    get enabled(): boolean {
+        return this.config.enabled;
+    }
+
+    /**
+     * Чек прихода по заказу на сумму paidRub (сумма Init)
+     */
+    async forOrder(orderId: string, paidRub: number): Promise<TinkoffReceipt> {
+        const src = await this.loadOrder(orderId);
+        return this.wrap(
+            src.contacts,
+            buildReceiptItems(src.lines, { deliveryRub: src.deliveryRub, paidRub, config: this.config })
+        );
+    }
+
+    /**
+     * Чек возврата по позициям заказа. paidRub — сумма прихода (по умолчанию — captured по заказу).
+     * Возвращает и сумму возврата (копейки → ₽) для Cancel; receipt = null, если чеки выключены.
+     */
+    async forRefund(
+        orderId: string,
+        items: Array<{ orderItemId: string; qty: number; qtyBefore?: number }>,
+        opts: { includeDelivery?: boolean; paidRub?: number } = {}
+    ): Promise<{ receipt: TinkoffReceipt | null; amountRub: number }> {
+        const src = await this.loadOrder(orderId);
+        const paidRub = opts.paidRub ?? Number(await paymentsStorage.sumCapturedForOrder(orderId));
+
+        const receiptItems = buildRefundItems(
+            src.lines,
+            items.map((i) => ({ id: i.orderItemId, qty: i.qty, ...(i.qtyBefore ? { qtyBefore: i.qtyBefore } : {}) })),
+            {
+                deliveryRub: src.deliveryRub,
+                paidRub,
+                ...(opts.includeDelivery ? { includeDelivery: true } : {}),
+                config: this.config,
+            }
+        );
+
+        return {
+            receipt: this.config.enabled ? this.wrap(src.contacts, receiptItems) : null,
+            amountRub: receiptItems.reduce((s, i) => s + i.Amount, 0) / 100,
+        };
+    }
+
+    /**
+     * Чек возврата по order_return: позиции возврата, ранее возвращённое — из предыдущих возвратов
+     */
+    async forReturn(
+        returnId: string,
+        opts: { includeDelivery?: boolean; paidRub?: number } = {}
+    ): Promise<{ receipt: TinkoffReceipt | null; amountRub: number }> {
+        const ret = await orderReturnsStorage.getById(returnId);
+        if (!ret) throw new Error(`Order return ${returnId} not found`);
+
+        // Ранее возвращённое количество — по возвратам, оформленным до этого
+        const earlier = (await orderReturnsStorage.listByOrder(ret.orderId)).filter((r) => r.createdAt < ret.createdAt);
+        const qtyBefore = new Map<string, number>();
+        for (const r of earlier) {
+            for (const i of await orderReturnsStorage.listItems(r.id)) {
+                qtyBefore.set(i.orderItemId, (qtyBefore.get(i.orderItemId) ?? 0) + i.qty);
+            }
+        }
+
+        const items = await orderReturnsStorage.listItems(returnId);
+        return this.forRefund(
+            ret.orderId,
+            items.map((i) => ({ orderItemId: i.orderItemId, qty: i.qty, qtyBefore: qtyBefore.get(i.orderItemId) ?? 0 })),
+            opts
+        );
+    }
+
+    private wrap(contacts: { email: string | null; phone: string | null }, items: TinkoffReceiptItem[]): TinkoffReceipt {
+        const email = contacts.email ?? (contacts.phone ? null : this.config.companyEmail);
+        if (!email && !contacts.phone) {
+            throw new Error('Receipt requires customer email or phone (or TINKOFF_RECEIPT_EMAIL)');
+        }
+
+        return {
+            ...(email ? { Email: email } : {}),
+            ...(contacts.phone ? { Phone: contacts.phone } : {}),
+            ...(this.config.companyEmail ? { EmailCompany: this.config.companyEmail } : {}),
+            Taxation: this.config.taxation,
+            Items: items,
+        };
+    }
+
+    private async loadOrder(orderId: string) {
+        const [ord] = await db
+            .select({ userId: order.userId, deliveryFeeRub: order.deliveryFeeRub })
+            .from(order)
+            .where(eq(order.id, orderId))
+            .limit(1);
+        if (!ord) throw new Error(`Order ${orderId} not found`);
+
+        const [items, [user]] = await Promise.all([
+            db
+                .select({
+                    id: orderItem.id,
+                    // Вариант — в названии позиции: «Омега-3, 120 капсул»
+                    name: sql<string>`concat_ws(', ', ${orderItem.productName}, ${orderItem.variantName})`,
+                    qty: orderItem.qty,
+                    amountRub: orderItem.lineTotalRub,
+                    vat: product.vat,
+                })
+                .from(orderItem)
+                .leftJoin(product, eq(product.id, orderItem.productId))
+                .where(eq(orderItem.orderId, orderId))
+                .orderBy(asc(orderItem.createdAt), asc(orderItem.id)),
+            db
+                .select({ email: appUser.email, phone: appUser.phone })
+                .from(appUser)
+                .where(eq(appUser.id, ord.userId))
+                .limit(1),
+        ]);
+
+        const components = await productBundlesStorage.componentsByOrderItems(items.map((i) => i.id));
+        const componentIds = [...new Set([...components.values()].flat().map((c) => c.productId))];
+        const vats = new Map(
+            componentIds.length
+                ? (await db.select({ id: product.id, vat: product.vat }).from(product).where(inArray(product.id, componentIds))).map((p) => [p.id, p.vat])
+                : []
+        );
+
+        return {
+            lines: items.flatMap((i): ReceiptLine[] => {
+                const comps = components.get(i.id);
+                if (!comps) return [{ id: i.id, name: i.name, qty: i.qty, amountRub: Number(i.amountRub), vat: i.vat }];
+
+                // Сумма позиции-набора — по компонентам в пропорции раскладки цены набора
+                const shares = allocateBundlePrice(
+                    Number(i.amountRub),
+                    comps.map((c) => ({ qty: 1, listPriceRub: Number(c.amountRub) }))
+                );
+                return comps.map((c, k) => ({
+                    id: i.id,
+                    name: [c.productName, c.variantName].filter(Boolean).join(', '),
+                    qty: i.qty * c.qty,
+                    perUnit: c.qty,
+                    amountRub: shares[k]!,
+                    vat: vats.get(c.productId) ?? null,
+                }));
+            }),
+            deliveryRub: Number(ord.deliveryFeeRub ?? 0),
+            contacts: { email: user?.email ?? null, phone: normalizePhone(user?.phone) },
+        };
+    }
+}
+
+export const tinkoffReceiptService = new TinkoffReceiptService();
@@ -43,12 +43,14 @@ export class TinkoffPaymentTxRepository implements PaymentTxRepo {
         currency: 'RUB';
         status: 'pending' | 'paid' | 'failed' | 'expired';
         provider: 'tinkoff';
+        method?: 'card' | 'sbp';
         metadata?: Record<string, unknown>;
     }): Promise<void> {
         // Map Tinkoff transaction to our payment schema
         await paymentsStorage.createPayment({
             orderId: tx.orderId,
-            method: 'card', // Tinkoff uses card payments
+            method: tx.method ?? 'card', // карта или СБП через эквайринг Тинькофф
+            provider: tx.method === 'sbp' ? 'sbp' : 'tinkoff',
             status: this.mapStatus(tx.status),
             amountRub: tx.amountRub.toString(),
             currency: tx.currency,
@@ -58,24 +60,36 @@ export class TinkoffPaymentTxRepository implements PaymentTxRepo {
 
     async updateStatus(
         paymentId: string,
-        status: 'pending' | 'paid' | 'failed' | 'expired'
+        status: 'pending' | 'authorized' | 'paid' | 'failed' | 'expired' | 'refunded'
     ): Promise<void> {
         const payment = await paymentsStorage.getByExternalId(paymentId);
         if (!payment) {
             throw new Error(`Payment not found: ${paymentId}`);
         }
 
+        // Запоздалое / повторное уведомление об оплате не откатывает возврат
+        if (payment.status === 'refunded') return;
+        if (payment.status === 'captured' && (status === 'pending' || status === 'authorized')) return;
+
+        if (status === 'refunded') {
+            await paymentsStorage.markRefunded(payment.id);
+            return;
+        }
         await paymentsStorage.updatePaymentStatus(payment.id, this.mapStatus(status));
     }
 
     private mapStatus(
-        tinkoffStatus: 'pending' | 'paid' | 'failed' | 'expired'
+        tinkoffStatus: 'pending' | 'authorized' | 'paid' | 'failed' | 'expired' | 'refunded'
     ): 'init' | 'awaiting' | 'authorized' | 'captured' | 'refunded' | 'failed' {
         switch (tinkoffStatus) {
             case 'pending':
                 return 'awaiting';
+            case 'authorized':
+                return 'authorized';
             case 'paid':
                 return 'captured';
+            case 'refunded':
+                return 'refunded';
             case 'failed':
             case 'expired':
                 return 'failed';
@@ -85,14 +99,23 @@ export class TinkoffPaymentTxRepository implements PaymentTxRepo {
     }
 }
 
+/** Статусы заказа, в которых ждём результат оплаты */
+const AWAITING_PAYMENT = ['new', 'pending'];
+
 /**
  * Orders Repository Adapter
  */
 export class TinkoffOrdersRepository implements OrdersRepo {
-    async updateStatus(orderId: string, status: 'paid' | 'failed'): Promise<void> {
+    async updateStatus(orderId: string, status: 'paid' | 'failed'): Promise<boolean> {
+        // Уведомления повторяются: меняем статус только у заказа, ожидающего оплату,
+        // иначе повтор CONFIRMED вернул бы в 'paid' доставленный / возвращённый заказ
+        const current = await ordersStorage.getById(orderId);
+        if (!current || !AWAITING_PAYMENT.includes(current.status)) return false;
+
         // Map Tinkoff payment status to order status
         // 'paid' -> 'paid', 'failed' -> 'canceled'
         const orderStatus = status === 'paid' ? 'paid' : 'canceled';
         await ordersStorage.updateOrderStatus(orderId, orderStatus);
+        return true;
     }
 }
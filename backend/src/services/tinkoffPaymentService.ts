@@ -1,6 +1,7 @@
 // src/services/tinkoffPaymentService.ts
 import crypto from 'crypto';
 import { z } from 'zod';
+import type { TinkoffReceipt } from './tinkoff/tinkoffReceipt';
 
 /* =========================
    Репозитории (контракты)
@@ -24,20 +25,91 @@ export interface PaymentTxRepo {
         currency: 'RUB';
         status: 'pending' | 'paid' | 'failed' | 'expired';
         provider: 'tinkoff';
+        method?: 'card' | 'sbp';
         metadata?: Record<string, unknown>;
     }): Promise<void>;
 
     updateStatus(
         paymentId: string,
-        status: 'pending' | 'paid' | 'failed' | 'expired'
+        status: 'pending' | 'authorized' | 'paid' | 'failed' | 'expired' | 'refunded'
     ): Promise<void>;
 }
 
 export interface OrdersRepo {
     // ❗ в Vitawin order.id = UUID (string)
-    updateStatus(orderId: string, status: 'paid' | 'failed'): Promise<void>;
+    /** true — статус изменён (повторное уведомление по уже оплаченному заказу → false) */
+    updateStatus(orderId: string, status: 'paid' | 'failed'): Promise<boolean>;
 }
 
+/* =========================
+   Статусы платежа Тинькофф
+   ========================= */
+
+export type TinkoffStatusOutcome = 'pending' | 'authorized' | 'paid' | 'failed' | 'partial_refunded' | 'refunded';
+
+/**
+ * Порядок статусов для защиты от уведомлений не по порядку: статус с меньшим рангом
+ * после большего — устаревший. Неизвестные / промежуточные — 0.
+ * Возврат (заявку завершает paymentRefundService) — заказ не трогаем.
+ */
+const TINKOFF_STATUS_RANK: Record<string, number> = {
+    NEW: 0,
+    FORM_SHOWED: 1,
+    AUTHORIZING: 2,
+    '3DS_CHECKING': 2,
+    '3DS_CHECKED': 2,
+    AUTHORIZED: 3,
+    CONFIRMING: 4,
+    CONFIRMED: 5,
+    REJECTED: 5,
+    AUTH_FAIL: 5,
+    DEADLINE_EXPIRED: 5,
+    REVERSING: 5,
+    REVERSED: 6,
+    CANCELED: 6,
+    REFUNDING: 6,
+    PARTIAL_REFUNDED: 7,
+    REFUNDED: 8,
+};
+
+export function tinkoffStatusRank(status: string): number {
+    return TINKOFF_STATUS_RANK[status] ?? 0;
+}
+
+export function tinkoffStatusOutcome(status: string): TinkoffStatusOutcome {
+    switch (status) {
+        case 'AUTHORIZED': return 'authorized';
+        case 'CONFIRMED': return 'paid';
+        case 'REJECTED':
+        case 'AUTH_FAIL':
+        case 'DEADLINE_EXPIRED':
+        case 'REVERSED':
+        case 'CANCELED': return 'failed';
+        case 'PARTIAL_REFUNDED': return 'partial_refunded';
+        case 'REFUNDED': return 'refunded';
+        default: return 'pending';
+    }
+}
+
+/**
+ * Транспорт к API Тинькофф: POST JSON на `${baseUrl}${method}`.
+ * В тестах подменяется заглушкой, которая запоминает payload.
+ */
+export interface TinkoffTransport {
+    post(url: string, body: Record<string, unknown>): Promise<unknown>;
+}
+
+export const fetchTransport: TinkoffTransport = {
+    async post(url, body) {
+        const resp = await fetch(url, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(body),
+        });
+        return resp.json();
+    },
+};
+
 /* =========================
    Zod-схемы ответов Тинькофф
    ========================= */
@@ -65,13 +137,40 @@ export const TinkoffGetStateResponseSchema = z.object({
 
 export type TinkoffGetStateResponse = z.infer<typeof TinkoffGetStateResponseSchema>;
 
-/* =========================
-   Утилита парсинга JSON
-   ========================= */
-async function parseJson<T>(resp: Response, schema: z.ZodSchema<T>): Promise<T> {
-    const data = await resp.json();
-    return schema.parse(data);
-}
+export const TinkoffCancelResponseSchema = z.object({
+    Success: z.boolean(),
+    ErrorCode: z.string().optional(),
+    Message: z.string().optional(),
+    Details: z.string().optional(),
+    Status: z.string().optional(),
+    PaymentId: z.string().optional(),
+    OriginalAmount: z.number().optional(),
+    NewAmount: z.number().optional(),
+}).passthrough();
+
+export type TinkoffCancelResponse = z.infer<typeof TinkoffCancelResponseSchema>;
+
+export const TinkoffGetQrResponseSchema = z.object({
+    Success: z.boolean(),
+    ErrorCode: z.string().optional(),
+    Message: z.string().optional(),
+    Details: z.string().optional(),
+    PaymentId: z.union([z.string(), z.number()]).optional(),
+    Data: z.string().optional(), // DataType=PAYLOAD — ссылка СБП для QR / перехода в банк
+}).passthrough();
+
+export type TinkoffGetQrResponse = z.infer<typeof TinkoffGetQrResponseSchema>;
+
+export const TinkoffChargeResponseSchema = z.object({
+    Success: z.boolean(),
+    ErrorCode: z.string().optional(),
+    Message: z.string().optional(),
+    Details: z.string().optional(),
+    Status: z.string().optional(),
+    PaymentId: z.union([z.string(), z.number()]).optional(),
+}).passthrough();
+
+export type TinkoffChargeResponse = z.infer<typeof TinkoffChargeResponseSchema>;
 
 /* =========================
    Сервис Тинькофф
@@ -83,7 +182,8 @@ export class TinkoffPaymentService {
         private orders: OrdersRepo,
         private settingsRepo: PaymentSettingsRepo,
         private baseUrlCfg?: { test?: string; prod?: string },
-        private routerCfg?: { notify?: string; success?: string; fail?: string }
+        private routerCfg?: { notify?: string; success?: string; fail?: string },
+        private transport: TinkoffTransport = fetchTransport
     ) {}
 
     private async getActiveSettings(): Promise<TinkoffSettings> {
@@ -111,38 +211,46 @@ export class TinkoffPaymentService {
         return crypto.createHash('sha256').update(concat).digest('hex');
     }
 
+    // Подписанный вызов метода API; Receipt/DATA в подпись не входят
+    private async call<T>(
+        method: 'Init' | 'GetState' | 'Cancel' | 'GetQr' | 'Charge',
+        params: Record<string, any>,
+        schema: z.ZodSchema<T>
+    ): Promise<T> {
+        const settings = await this.getActiveSettings();
+        const body = { TerminalKey: settings.terminalKey, ...params };
+        const Token = this.generateToken(body, settings.secretKey);
+
+        const data = await this.transport.post(`${this.baseUrl(!!settings.isTestMode)}${method}`, { ...body, Token });
+        return schema.parse(data);
+    }
+
     /* ----- API: Init (создание платежа) ----- */
     async createPayment(data: {
         orderId: string;          // UUID из orders.id
         amountRub: number;
         description: string;
         customerKey?: string;
+        receipt?: TinkoffReceipt; // чек 54-ФЗ (сумма позиций = amountRub)
+        method?: 'card' | 'sbp';  // СБП — тот же Init, затем GetQr
+        recurrent?: boolean;      // сохранить карту: в уведомлении об оплате придёт RebillId (нужен customerKey)
     }): Promise<{ success: true; paymentUrl: string; paymentId: string } | { success: false; error: string }> {
         const settings = await this.getActiveSettings();
-        const apiUrl = this.baseUrl(!!settings.isTestMode);
 
         const amountInKopecks = Math.round(data.amountRub * 100);
+        assertReceiptAmount(data.receipt, amountInKopecks);
+        if (data.recurrent && !data.customerKey) {
+            throw new Error('Recurrent payment requires customerKey');
+        }
 
         const params = {
-            TerminalKey: settings.terminalKey,
-            Amount: amountInKopecks,
-            OrderId: data.orderId,
-            Description: data.description,
-            NotificationURL: this.routerCfg?.notify ?? 'https://example.com/api/payment/tinkoff/webhook',
+            ...this.initParams(data, amountInKopecks),
             SuccessURL: this.routerCfg?.success ?? 'https://example.com/checkout/success',
             FailURL: this.routerCfg?.fail ?? 'https://example.com/checkout/fail',
-            ...(data.customerKey ? { CustomerKey: data.customerKey } : {}),
+            ...(data.recurrent ? { Recurrent: 'Y' } : {}),
         };
 
-        const Token = this.generateToken(params, settings.secretKey);
-
-        const resp = await fetch(`${apiUrl}Init`, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ ...params, Token }),
-        });
-
-        const result = await parseJson(resp, TinkoffInitResponseSchema);
+        const result = await this.call('Init', params, TinkoffInitResponseSchema);
 
         if (result.Success && result.PaymentURL && result.PaymentId) {
             await this.payments.create({
@@ -152,11 +260,13 @@ export class TinkoffPaymentService {
                 currency: 'RUB',
                 status: 'pending',
                 provider: 'tinkoff',
+                ...(data.method ? { method: data.method } : {}),
                 metadata: {
                     terminalKey: settings.terminalKey,
                     isTestMode: !!settings.isTestMode,
                     description: data.description,
                     customerKey: data.customerKey,
+                    ...(data.recurrent ? { recurrent: true } : {}),
                 },
             });
 
@@ -169,73 +279,248 @@ export class TinkoffPaymentService {
         };
     }
 
+    /**
+     * ----- API: Init + Charge (списание сохранённой картой) -----
+     * Платёж создаётся обычным Init и проводится Charge по RebillId без участия покупателя.
+     * Итоговый статус Charge применяется сразу (applyStatus); уведомление с тем же статусом потом ничего не изменит.
+     */
+    async chargeRecurrent(data: {
+        orderId: string;
+        amountRub: number;
+        description: string;
+        customerKey: string;
+        rebillId: string;
+        receipt?: TinkoffReceipt;
+    }): Promise<{ success: true; paymentId: string; status: string } | { success: false; error: string; paymentId?: string }> {
+        const settings = await this.getActiveSettings();
+
+        const amountInKopecks = Math.round(data.amountRub * 100);
+        assertReceiptAmount(data.receipt, amountInKopecks);
+
+        const init = await this.call('Init', this.initParams(data, amountInKopecks), TinkoffInitResponseSchema);
+        if (!init.Success || !init.PaymentId) {
+            return { success: false, error: init.Message || init.Details || 'Ошибка при создании платежа' };
+        }
+        const paymentId = init.PaymentId;
+
+        await this.payments.create({
+            paymentId,
+            orderId: data.orderId,
+            amountRub: data.amountRub,
+            currency: 'RUB',
+            status: 'pending',
+            provider: 'tinkoff',
+            method: 'card',
+            metadata: {
+                terminalKey: settings.terminalKey,
+                isTestMode: !!settings.isTestMode,
+                description: data.description,
+                customerKey: data.customerKey,
+                rebillId: data.rebillId,
+            },
+        });
+
+        const charge = await this.call(
+            'Charge',
+            { PaymentId: paymentId, RebillId: data.rebillId },
+            TinkoffChargeResponseSchema
+        );
+
+        // Отказ банка приходит и как Success=false, и как Status=REJECTED — оба закрывают платёж и заказ
+        const status = charge.Success ? (charge.Status ?? 'UNKNOWN') : 'REJECTED';
+        await this.applyStatus(paymentId, data.orderId, status);
+
+        if (charge.Success && tinkoffStatusOutcome(status) !== 'failed') {
+            return { success: true, paymentId, status };
+        }
+        return {
+            success: false,
+            paymentId,
+            error: charge.Message || charge.Details || `Charge declined (${status})`,
+        };
+    }
+
+    // Общие параметры Init: сумма, заказ, уведомления, покупатель, чек
+    private initParams(
+        data: { orderId: string; description: string; customerKey?: string; receipt?: TinkoffReceipt },
+        amountInKopecks: number
+    ) {
+        return {
+            Amount: amountInKopecks,
+            OrderId: data.orderId,
+            Description: data.description,
+            NotificationURL: this.routerCfg?.notify ?? 'https://example.com/api/payment/tinkoff/webhook',
+            ...(data.customerKey ? { CustomerKey: data.customerKey } : {}),
+            ...(data.receipt ? { Receipt: data.receipt } : {}),
+        };
+    }
+
     /* ----- Webhook: уведомление от Тинькофф ----- */
     async handleNotification(notification: Record<string, any>): Promise<{ success: boolean; error?: string }> {
+        const check = await this.verifyNotification(notification);
+        if (!check.valid) return { success: false, error: check.error };
+
+        await this.applyStatus(
+            String(notification.PaymentId ?? ''),
+            String(notification.OrderId ?? ''),
+            String(notification.Status ?? '')
+        );
+
+        // Рекуррентный платёж (Recurrent=Y) оплачен — карта сохранена для следующих списаний подписки
+        if (notification.RebillId && notification.OrderId && tinkoffStatusOutcome(String(notification.Status)) === 'paid') {
+            const { subscriptionService } = await import('./subscriptionService');
+            await subscriptionService.saveCard(String(notification.OrderId), String(notification.RebillId));
+        }
+        return { success: true };
+    }
+
+    /** Проверка TerminalKey и подписи уведомления */
+    async verifyNotification(
+        notification: Record<string, any>
+    ): Promise<{ valid: true } | { valid: false; error: string }> {
         const settings = await this.getActiveSettings();
 
         if (notification.TerminalKey !== settings.terminalKey) {
-            return { success: false, error: 'Invalid TerminalKey' };
+            return { valid: false, error: 'Invalid TerminalKey' };
         }
 
         const expected = this.generateToken(notification, settings.secretKey);
         if (notification.Token !== expected) {
-            return { success: false, error: 'Invalid signature' };
+            return { valid: false, error: 'Invalid signature' };
         }
+        return { valid: true };
+    }
 
-        // isPaid — наш единый флаг успешного платежа
-        const isPaid =
-            notification.Success === true ||
-            notification.Success === 'true' ||
-            notification.Status === 'CONFIRMED';
+    /**
+     * Применить статус платежа Тинькофф (из уведомления или GetState при сверке)
+     * к платежу и заказу. Промежуточные статусы (NEW, FORM_SHOWED, ...) ничего не меняют.
+     * @returns changed — изменён статус заказа
+     */
+    async applyStatus(paymentId: string, orderId: string, status: string): Promise<{ changed: boolean }> {
+        const outcome = tinkoffStatusOutcome(status);
+
+        if (outcome === 'refunded' || outcome === 'partial_refunded') {
+            if (outcome === 'refunded') {
+                await this.payments.updateStatus(paymentId, 'refunded');
+            }
+            const { paymentRefundService } = await import('./paymentRefundService');
+            await paymentRefundService.onProviderRefund(paymentId, status);
+            return { changed: false };
+        }
+
+        if (outcome === 'pending') return { changed: false };
+
+        if (outcome === 'authorized') {
+            // Двухстадийная оплата: деньги заблокированы, заказ ждёт CONFIRMED
+            await this.payments.updateStatus(paymentId, 'authorized');
+            return { changed: false };
+        }
 
-        const paymentId = String(notification.PaymentId ?? '');
-        const orderId = String(notification.OrderId ?? '');
+        // isPaid — наш единый флаг успешного платежа
+        const isPaid = outcome === 'paid';
 
         // 1) фиксируем статус транзакции
         await this.payments.updateStatus(paymentId, isPaid ? 'paid' : 'failed');
 
         // 2) фиксируем статус заказа
-        if (orderId) {
-            await this.orders.updateStatus(orderId, isPaid ? 'paid' : 'failed');
-
-            // ✅ FIX-3: Registry.md — при оплате НЕ начисляем PV/VWC/бонусы
-            // Только: Partner upgrade + Network Fund allocation
-            if (isPaid) {
-                try {
-                    const { orderLifecycleService } = await import('./orderLifecycleService');
-                    await orderLifecycleService.onPaid(orderId);
-                    console.log(`✅ Order ${orderId} marked as paid, lifecycle handlers executed`);
-                } catch (err) {
-                    console.error(`❌ Failed to execute onPaid lifecycle for order ${orderId}:`, err);
-                    // Не бросаем ошибку, чтобы не блокировать webhook
-                }
+        if (!orderId) return { changed: false };
+        const changed = await this.orders.updateStatus(orderId, isPaid ? 'paid' : 'failed');
+
+        // ✅ FIX-3: Registry.md — при оплате НЕ начисляем PV/VWC/бонусы
+        // Только: Partner upgrade + Network Fund allocation
+        if (isPaid && changed) {
+            try {
+                const { orderLifecycleService } = await import('./orderLifecycleService');
+                await orderLifecycleService.onPaid(orderId);
+                console.log(`✅ Order ${orderId} marked as paid, lifecycle handlers executed`);
+            } catch (err) {
+                console.error(`❌ Failed to execute onPaid lifecycle for order ${orderId}:`, err);
+                // Не бросаем ошибку, чтобы не блокировать webhook
             }
         }
 
-        return { success: true };
+        // Смешанная оплата: карточная часть не прошла — возвращаем часть, списанную с кошелька
+        if (!isPaid && changed) {
+            const { checkoutPaymentService } = await import('./checkoutPaymentService');
+            await checkoutPaymentService.rollbackWalletLeg(orderId, 'card payment failed');
+        }
+
+        return { changed };
     }
 
     /* ----- API: GetState (статус платежа) ----- */
     async getPaymentStatus(
         paymentId: string
     ): Promise<{ success: true; status: string } | { success: false; error: string }> {
-        const settings = await this.getActiveSettings();
-        const apiUrl = this.baseUrl(!!settings.isTestMode);
+        const result = await this.call('GetState', { PaymentId: paymentId }, TinkoffGetStateResponseSchema);
 
-        const params = { TerminalKey: settings.terminalKey, PaymentId: paymentId };
-        const Token = this.generateToken(params, settings.secretKey);
+        if (result.Success) {
+            return { success: true, status: result.Status ?? 'UNKNOWN' };
+        }
+        return { success: false, error: result.Message || 'Ошибка получения статуса' };
+    }
 
-        const resp = await fetch(`${apiUrl}GetState`, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ ...params, Token }),
-        });
+    /* ----- API: GetQr (ссылка СБП по созданному платежу) ----- */
+    async getQr(
+        paymentId: string
+    ): Promise<{ success: true; payload: string } | { success: false; error: string }> {
+        const result = await this.call(
+            'GetQr',
+            { PaymentId: paymentId, DataType: 'PAYLOAD' },
+            TinkoffGetQrResponseSchema
+        );
+
+        if (result.Success && result.Data) {
+            return { success: true, payload: result.Data };
+        }
+        return { success: false, error: result.Message || result.Details || 'Ошибка получения QR СБП' };
+    }
 
-        const result = await parseJson(resp, TinkoffGetStateResponseSchema);
+    /* ----- API: Cancel (отмена / возврат, полный или частичный) ----- */
+    async cancelPayment(
+        paymentId: string,
+        data: {
+            amountRub?: number;        // не указано — на всю сумму платежа
+            receipt?: TinkoffReceipt;  // чек возврата 54-ФЗ
+        } = {}
+    ): Promise<
+        | { success: true; status: string; originalAmountRub?: number; newAmountRub?: number }
+        | { success: false; error: string; errorCode?: string }
+    > {
+        const amount = data.amountRub != null ? Math.round(data.amountRub * 100) : undefined;
+        if (amount != null) assertReceiptAmount(data.receipt, amount);
+
+        const result = await this.call(
+            'Cancel',
+            {
+                PaymentId: paymentId,
+                ...(amount != null ? { Amount: amount } : {}),
+                ...(data.receipt ? { Receipt: data.receipt } : {}),
+            },
+            TinkoffCancelResponseSchema
+        );
 
         if (result.Success) {
-            return { success: true, status: result.Status ?? 'UNKNOWN' };
+            return {
+                success: true,
+                status: result.Status ?? 'UNKNOWN',
+                ...(result.OriginalAmount != null ? { originalAmountRub: result.OriginalAmount / 100 } : {}),
+                ...(result.NewAmount != null ? { newAmountRub: result.NewAmount / 100 } : {}),
+            };
         }
-        return { success: false, error: result.Message || 'Ошибка получения статуса' };
+        return {
+            success: false,
+            error: result.Message || result.Details || 'Ошибка отмены платежа',
+            ...(result.ErrorCode ? { errorCode: result.ErrorCode } : {}),
+        };
+    }
+}
+
+/** Сумма позиций чека должна совпадать с суммой операции (иначе касса отклонит чек) */
+function assertReceiptAmount(receipt: TinkoffReceipt | undefined, amountKopecks: number): void {
+    if (!receipt) return;
+    const total = receipt.Items.reduce((s, i) => s + i.Amount, 0);
+    if (total !== amountKopecks) {
+        throw new Error(`Receipt total ${total} does not match payment amount ${amountKopecks}`);
     }
 }
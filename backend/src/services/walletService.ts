@@ -11,7 +11,7 @@ import {
 } from '#db/schema/ledger';
 import { currencyEnum, ledgerOpTypeEnum, accountTypeEnum, ownerTypeEnum } from '#db/schema/enums';
 import { ledgerStorage } from '#storage/ledgerStorage';
-import { randomUUID } from 'crypto';
+import { createHash, randomUUID } from 'crypto';
 
 /* ───────── types ───────── */
 
@@ -47,6 +47,20 @@ function toPgNum(x: number | string): string {
     return typeof x === 'number' ? x.toFixed(2) : x;
 }
 
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * ledger_txn.operation_id — UUID. Строковые ключи идемпотентности
+ * (например `order:<id>:ref:1:<userId>`) детерминированно хэшируются в UUID (v5-формат),
+ * поэтому один и тот же ключ всегда даёт один и тот же operation_id.
+ */
+export function toOperationId(key: string): string {
+    if (UUID_RE.test(key)) return key.toLowerCase();
+    const hex = createHash('sha1').update(`vitawin:ledger:${key}`).digest('hex');
+    const variant = ((parseInt(hex.slice(16, 18), 16) & 0x3f) | 0x80).toString(16);
+    return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-5${hex.slice(13, 16)}-${variant}${hex.slice(18, 20)}-${hex.slice(20, 32)}`;
+}
+
 function assertPositiveAmount(amount: number) {
     if (!(Number.isFinite(amount) && amount > 0)) {
         throw new Error('Amount must be a positive number');
@@ -65,6 +79,7 @@ async function getPostingsByTxnId(txnId: string): Promise<LedgerPosting[]> {
  * Идемпотентное создание проводки (txn + posting).
  * Если operationId уже есть — возвращаем существующие txn/postings (и проверяем совпадение параметров).
  * Если нет — создаём новую txn с заданным или сгенерированным operationId.
+ * created — true только если txn создана этим вызовом.
  */
 async function ensurePosting(params: {
     debitAccountId: string;
@@ -73,12 +88,12 @@ async function ensurePosting(params: {
     currency: Currency;
     opType: LedgerOpType;
     options?: TransferOptions;
-}): Promise<{ txn: LedgerTxn; postings: LedgerPosting[] }> {
+}): Promise<{ txn: LedgerTxn; postings: LedgerPosting[]; created: boolean }> {
     const { debitAccountId, creditAccountId, amount, currency, opType, options } = params;
     assertPositiveAmount(amount);
 
     // 1) идемпотентность
-    const opId = options?.operationId ?? randomUUID();
+    const opId = options?.operationId ? toOperationId(options.operationId) : randomUUID();
     const existing = await ledgerStorage.getTxnByOperationId(opId);
     if (existing) {
         const postings = await getPostingsByTxnId(existing.id);
@@ -92,7 +107,7 @@ async function ensurePosting(params: {
                 existing.opType === opType;
             if (!same) throw new Error('operationId reused with different parameters');
         }
-        return { txn: existing, postings };
+        return { txn: existing, postings, created: false };
     }
 
     // 2) валидация счетов/валют
@@ -145,7 +160,7 @@ async function ensurePosting(params: {
             .returning();
         must(posting, 'Failed to insert posting');
 
-        return { txn, postings: [posting] };
+        return { txn, postings: [posting], created: true };
     });
 }
 
@@ -381,7 +396,7 @@ export const walletService = {
 
     /** Найти txn по operationId и отдать вместе с проводками. */
     async findOperation(operationId: string): Promise<{ txn: LedgerTxn; postings: LedgerPosting[] } | null> {
-        const txn = await ledgerStorage.getTxnByOperationId(operationId);
+        const txn = await ledgerStorage.getTxnByOperationId(toOperationId(operationId));
         if (!txn) return null;
         const postings = await getPostingsByTxnId(txn.id);
         return { txn, postings };
@@ -0,0 +1,123 @@
+// backend/src/services/wishlistService.ts
+import { eq } from 'drizzle-orm';
+import { db } from '#db/db';
+import { product } from '#db/schema/products';
+import { wishlistStorage, type WishlistEntry, type RestockedRequest } from '#storage/wishlistStorage';
+import { systemStorage } from '#storage/systemStorage';
+import { AppError, AppErrorCode } from '../middleware/errorHandler';
+import { telegramNotificationService } from './telegramNotificationService';
+import { errorMonitoringService } from './errorMonitoringService';
+
+/**
+ * Wishlist Service
+ * Избранное и «сообщить о поступлении».
+ *
+ *   Подписаться на поступление можно только на товар без остатка (product.stock = 0).
+ *   Когда остаток снова > 0 (правка в карточке, приход, импорт CSV — inventoryService,
+ *   а также сверка inventory-verify), подписчику с привязанным Telegram уходит уведомление.
+ *   Почтовой отправки пока нет: подписки без Telegram не забираются и остаются
+ *   в ожидании, пока не появится канал доставки.
+ *   Каждое уведомление пишется в notification (event_type = back_in_stock).
+ */
+
+export interface WishlistState {
+    productIds: string[];
+    backInStockProductIds: string[];
+}
+
+type Notifier = Pick<typeof telegramNotificationService, 'sendBackInStockNotice'>;
+
+const EVENT_TYPE = 'back_in_stock';
+
+export class WishlistService {
+    constructor(
+        private notifier: Notifier = telegramNotificationService,
+        private siteUrl: string = process.env.FRONTEND_URL || 'http://localhost:5173'
+    ) {}
+
+    /* ───────────── Избранное ───────────── */
+
+    list(userId: string): Promise<WishlistEntry[]> {
+        return wishlistStorage.listByUser(userId);
+    }
+
+    /** id товаров в избранном и в ожидании поступления — для сердечек в каталоге */
+    async state(userId: string): Promise<WishlistState> {
+        const [productIds, backInStockProductIds] = await Promise.all([
+            wishlistStorage.listProductIds(userId),
+            wishlistStorage.listRequestedProductIds(userId),
+        ]);
+        return { productIds, backInStockProductIds };
+    }
+
+    async add(userId: string, productId: string): Promise<{ added: boolean }> {
+        await this.getActiveProduct(productId);
+        return { added: await wishlistStorage.add(userId, productId) };
+    }
+
+    async remove(userId: string, productId: string): Promise<void> {
+        const removed = await wishlistStorage.remove(userId, productId);
+        if (!removed) throw new AppError(AppErrorCode.NOT_FOUND, 'Product is not in wishlist', 404);
+    }
+
+    /* ───────────── Сообщить о поступлении ───────────── */
+
+    async requestBackInStock(userId: string, productId: string): Promise<{ created: boolean }> {
+        const row = await this.getActiveProduct(productId);
+        if (row.isBundle) {
+            throw new AppError(AppErrorCode.VALIDATION_ERROR, 'Product is a bundle: subscribe to its components', 409);
+        }
+        if (row.stock > 0) {
+            throw new AppError(AppErrorCode.VALIDATION_ERROR, 'Product is in stock', 409, { stock: row.stock });
+        }
+        return { created: await wishlistStorage.request(userId, productId) };
+    }
+
+    async cancelBackInStock(userId: string, productId: string): Promise<void> {
+        const removed = await wishlistStorage.cancelRequest(userId, productId);
+        if (!removed) throw new AppError(AppErrorCode.NOT_FOUND, 'Back-in-stock request not found', 404);
+    }
+
+    /**
+     * Разослать уведомления по товарам, которые снова в наличии.
+     * Без productIds — по всем. Ошибки не пробрасываются: остаток уже изменён.
+     */
+    async notifyRestocked(productIds?: string[]): Promise<number> {
+        try {
+            const claimed = await wishlistStorage.claimRestocked(productIds);
+            for (const request of claimed) await this.notify(request);
+            return claimed.length;
+        } catch (e) {
+            errorMonitoringService.logError('error', 'Back-in-stock notification failed', e as Error);
+            return 0;
+        }
+    }
+
+    private async notify(request: RestockedRequest): Promise<void> {
+        const url = `${this.siteUrl}/product/${request.productSlug}`;
+        const message = `${request.productName} снова в наличии: ${url}`;
+
+        await this.notifier.sendBackInStockNotice(request.userId, { name: request.productName, url });
+        const row = await systemStorage.createNotification({
+            userId: request.userId,
+            eventType: EVENT_TYPE,
+            channel: 'telegram',
+            message,
+            status: 'sent',
+            sentAt: new Date(),
+        });
+        await wishlistStorage.setNotification(request.id, row.id);
+    }
+
+    private async getActiveProduct(productId: string) {
+        const [row] = await db
+            .select({ id: product.id, stock: product.stock, isBundle: product.isBundle, status: product.status })
+            .from(product)
+            .where(eq(product.id, productId))
+            .limit(1);
+        if (!row || row.status !== 'active') throw new AppError(AppErrorCode.NOT_FOUND, 'Product not found', 404);
+        return row;
+    }
+}
+
+export const wishlistService = new WishlistService();
@@ -8,12 +8,15 @@ import {
 } from '#db/schema/withdrawals';
 import { paymentMethodEnum, withdrawalStatusEnum } from '#db/schema/enums';
 import { ledgerStorage } from '#storage/ledgerStorage';
+import { bonusHoldService } from './bonusHoldService';
+import { toOperationId } from './walletService';
 
 // =============================
 // Enums → Zod
 // =============================
 type PaymentMethod = (typeof paymentMethodEnum.enumValues)[number];
 type WithdrawalStatus = (typeof withdrawalStatusEnum.enumValues)[number];
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
 
 const ZPaymentMethod = z.enum(paymentMethodEnum.enumValues as [PaymentMethod, ...PaymentMethod[]]);
 
@@ -110,7 +113,9 @@ export class WithdrawalsService {
 
     /**
      * create()
-     * Идемпотентность + заморозка средств
+     * Идемпотентность + заморозка средств.
+     * Выводятся только освобождённые средства счёта referral: бонусы в окне возврата
+     * лежат на счёте hold (bonusHoldService) и в баланс referral не входят.
      */
     async create(input: z.infer<typeof CreateWithdrawalSchema>): Promise<WithdrawalRequest> {
         const dto = CreateWithdrawalSchema.parse(input);
@@ -126,30 +131,29 @@ export class WithdrawalsService {
             const dup = existing.find((w) => (w.payload as any)?.idempotencyKey === dto.idempotencyKey);
             if (dup) return dup;
 
-            // 1. Лочим ledger_account
-            const lockRes = await tx.execute(sql`
-                SELECT *
+            // 1. Лочим счёт вывода (параллельные заявки ждут, пока эта не создаст блокировку)
+            const withdrawAcc = await ledgerStorage.ensureAccount(dto.userId, 'RUB', 'referral');
+            await tx.execute(sql`
+                SELECT id
                 FROM ledger_account
-                WHERE owner_id = ${dto.userId}
-                  AND account_type = 'referral'
-                  AND currency = 'RUB'
+                WHERE id = ${withdrawAcc.id}
                     FOR UPDATE
             `);
 
-            const lockedAccount = lockRes.rows[0];
-
-            if (!lockedAccount) {
-                throw new ServiceError('NO_ACCOUNT', 'У пользователя нет счёта для вывода', 404);
-            }
-
-            const balance = Number(lockedAccount.amount);
+            const balance = await ledgerStorage.getBalance(withdrawAcc.id);
             const requested = Number(dto.amountRub);
 
             if (balance < requested) {
+                const pending = (await bonusHoldService.getPending(dto.userId))
+                    .filter((p) => p.targetType === 'referral' && p.currency === 'RUB')
+                    .reduce((sum, p) => sum + p.amount, 0);
+
                 throw new ServiceError(
                     'INSUFFICIENT_BALANCE',
-                    `Недостаточно средств: доступно ${balance}, требуется ${requested}`,
+                    `Недостаточно средств: доступно ${balance.toFixed(2)}, требуется ${requested.toFixed(2)}` +
+                        (pending > 0 ? ` (ещё ${pending.toFixed(2)} ожидает окончания срока возврата)` : ''),
                     400,
+                    { available: balance, pending },
                 );
             }
 
@@ -199,12 +203,11 @@ export class WithdrawalsService {
 
             // 4. Блокировка средств: referral → reserve_special
             //    ledger_op_type = 'withdrawal_request'
-            const debitAcc = await ledgerStorage.ensureAccount(dto.userId, 'RUB', 'referral');
             const reserveAcc = await ledgerStorage.ensureAccount(null, 'RUB', 'reserve_special', 'system');
 
             await ledgerStorage.createPosting({
-                debitAccountId: debitAcc.id,
-                creditAccountId: reserveAcc.id,
+                debitAccountId: reserveAcc.id,
+                creditAccountId: withdrawAcc.id,
                 amount: requested,
                 currency: 'RUB',
                 opType: 'withdrawal_request',
@@ -242,10 +245,11 @@ export class WithdrawalsService {
                 payload: newPayload,
                 updatedAt: sql`now()`,
             })
-            .where(eq(withdrawalRequest.id, row.id))
+            .where(and(eq(withdrawalRequest.id, row.id), eq(withdrawalRequest.status, 'requested')))
             .returning();
 
-        return updated!;
+        if (!updated) throw await this.staleState(row.id);
+        return updated;
     }
 
     /**
@@ -277,18 +281,19 @@ export class WithdrawalsService {
                     payload: newPayload,
                     updatedAt: sql`now()`,
                 })
-                .where(eq(withdrawalRequest.id, row.id))
+                .where(and(eq(withdrawalRequest.id, row.id), eq(withdrawalRequest.status, 'approved')))
                 .returning();
 
-            if (!updated) throw new ServiceError('UPDATE_FAILED', 'Failed to update withdrawal', 500);
+            // Параллельный reject уже вернул средства — выплачивать нечего
+            if (!updated) throw await this.staleState(row.id);
 
             // 2) списываем: reserve_special → cash_rub
             const reserveAcc = await ledgerStorage.ensureAccount(null, 'RUB', 'reserve_special', 'system');
             const cashAcc = await ledgerStorage.ensureAccount(null, 'RUB', 'cash_rub', 'system');
 
             await ledgerStorage.createPosting({
-                debitAccountId: reserveAcc.id,
-                creditAccountId: cashAcc.id,
+                debitAccountId: cashAcc.id,
+                creditAccountId: reserveAcc.id,
                 amount: Number(row.amountRub),
                 currency: 'RUB',
                 opType: 'withdrawal_payout',
@@ -318,17 +323,29 @@ export class WithdrawalsService {
             ],
         });
 
-        const [updated] = await db
-            .update(withdrawalRequest)
-            .set({
-                status: 'rejected',
-                payload: newPayload,
-                updatedAt: sql`now()`,
-            })
-            .where(eq(withdrawalRequest.id, row.id))
-            .returning();
+        return db.transaction(async (tx) => {
+            // Смена статуса и разблокировка — вместе: параллельный reject / cancel не пройдёт
+            // проверку статуса и второй раз средства не вернёт
+            const [updated] = await tx
+                .update(withdrawalRequest)
+                .set({
+                    status: 'rejected',
+                    payload: newPayload,
+                    updatedAt: sql`now()`,
+                })
+                .where(
+                    and(
+                        eq(withdrawalRequest.id, row.id),
+                        inArray(withdrawalRequest.status, ['requested', 'approved'] as WithdrawalStatus[]),
+                    ),
+                )
+                .returning();
+
+            if (!updated) throw await this.staleState(row.id);
 
-        return updated!;
+            await this.unlockFunds(updated, tx);
+            return updated;
+        });
     }
 
     /**
@@ -369,13 +386,49 @@ export class WithdrawalsService {
             ],
         });
 
-        const [updated] = await db
-            .update(withdrawalRequest)
-            .set({ status: 'canceled', payload: newPayload, updatedAt: sql`now()` })
-            .where(eq(withdrawalRequest.id, row.id))
-            .returning();
+        return db.transaction(async (tx) => {
+            const [updated] = await tx
+                .update(withdrawalRequest)
+                .set({ status: 'canceled', payload: newPayload, updatedAt: sql`now()` })
+                .where(and(eq(withdrawalRequest.id, row.id), eq(withdrawalRequest.status, 'requested')))
+                .returning();
+
+            if (!updated) throw await this.staleState(row.id);
+
+            await this.unlockFunds(updated, tx);
+            return updated;
+        });
+    }
+
+    /**
+     * Разблокировка при отказе / отмене: reserve_special → referral.
+     * operationId детерминирован (withdrawal:<id>:unlock) — вторая разблокировка той же заявки
+     * упрётся в уникальность operation_id и откатит транзакцию.
+     */
+    private async unlockFunds(row: WithdrawalRequest, tx: Tx): Promise<void> {
+        const withdrawAcc = await ledgerStorage.ensureAccount(row.userId, 'RUB', 'referral');
+        const reserveAcc = await ledgerStorage.ensureAccount(null, 'RUB', 'reserve_special', 'system');
+
+        await ledgerStorage.createPosting(
+            {
+                debitAccountId: withdrawAcc.id,
+                creditAccountId: reserveAcc.id,
+                amount: Number(row.amountRub),
+                currency: 'RUB',
+                opType: 'withdrawal_unlock',
+                userId: row.userId,
+                memo: `Withdrawal unlock ${row.id}`,
+                meta: { withdrawalId: row.id, status: row.status },
+                operationId: toOperationId(`withdrawal:${row.id}:unlock`),
+            },
+            tx,
+        );
+    }
 
-        return updated!;
+    /** Статус сменили параллельно (повторный клик, отмена пользователем) */
+    private async staleState(id: string): Promise<ServiceError> {
+        const current = await this.getById(id);
+        return new ServiceError('INVALID_STATE', `Недопустимое состояние: ${current?.status ?? 'unknown'}`, 409);
     }
 
     private async requireById(id: string): Promise<WithdrawalRequest> {
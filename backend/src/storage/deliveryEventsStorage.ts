@@ -0,0 +1,22 @@
+// src/storage/deliveryEventsStorage.ts
+import { db } from '#db/db';
+import { asc, desc, eq, sql } from 'drizzle-orm';
+import { deliveryEvent, type DeliveryEvent, type NewDeliveryEvent } from '#db/schema/notifications';
+
+export const deliveryEventsStorage = {
+    /** Добавить событие. null — событие с таким dedup_key уже записано (повтор вебхука / опроса) */
+    async append(input: NewDeliveryEvent): Promise<DeliveryEvent | null> {
+        const [row] = await db.insert(deliveryEvent).values(input).onConflictDoNothing().returning();
+        return row ?? null;
+    },
+
+    /** Лента событий заказа: по времени у перевозчика, для ручных — по времени записи */
+    listByOrder(orderId: string, direction: 'asc' | 'desc' = 'asc'): Promise<DeliveryEvent[]> {
+        const at = sql`coalesce(${deliveryEvent.occurredAt}, ${deliveryEvent.createdAt})`;
+        return db
+            .select()
+            .from(deliveryEvent)
+            .where(eq(deliveryEvent.orderId, orderId))
+            .orderBy(direction === 'asc' ? asc(at) : desc(at), direction === 'asc' ? asc(deliveryEvent.createdAt) : desc(deliveryEvent.createdAt));
+    },
+};
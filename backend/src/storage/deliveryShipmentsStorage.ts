@@ -0,0 +1,136 @@
+// src/storage/deliveryShipmentsStorage.ts
+import { db } from '#db/db';
+import { and, asc, eq, inArray, isNull, lt, or, sql } from 'drizzle-orm';
+import { deliveryShipment, type DeliveryShipment, type NewDeliveryShipment } from '#db/schema/deliveryShipments';
+import { order } from '#db/schema/orders';
+
+/** Зависшую попытку (процесс упал между запросом и записью результата) можно повторить через это время */
+const STALE_PENDING_MS = 10 * 60_000;
+
+export const deliveryShipmentsStorage = {
+    async getByOrder(orderId: string): Promise<DeliveryShipment | null> {
+        const [row] = await db.select().from(deliveryShipment).where(eq(deliveryShipment.orderId, orderId)).limit(1);
+        return row ?? null;
+    },
+
+    /** Отправление по данным вебхука: id у перевозчика, трек-номер или наш номер заказа */
+    async findForWebhook(
+        carrier: DeliveryShipment['carrier'],
+        keys: { externalId?: string | undefined; trackingCode?: string | undefined; orderNumber?: string | undefined }
+    ): Promise<DeliveryShipment | null> {
+        const byCarrier = (cond: ReturnType<typeof eq>) =>
+            db.select().from(deliveryShipment).where(and(eq(deliveryShipment.carrier, carrier), cond)).limit(1);
+
+        if (keys.externalId) {
+            const [row] = await byCarrier(eq(deliveryShipment.externalId, keys.externalId));
+            if (row) return row;
+        }
+        if (keys.trackingCode) {
+            const [row] = await byCarrier(eq(deliveryShipment.trackingCode, keys.trackingCode));
+            if (row) return row;
+        }
+        // Номер заказа у перевозчика — order.id; не-uuid в запрос к uuid-колонке не пускаем
+        if (keys.orderNumber && /^[0-9a-f-]{36}$/i.test(keys.orderNumber)) {
+            const [row] = await byCarrier(eq(deliveryShipment.orderId, keys.orderNumber));
+            if (row) return row;
+        }
+        return null;
+    },
+
+    /**
+     * Начать попытку создания отправления: новая строка или повтор failed / зависшей pending.
+     * null — отправление уже создано или его прямо сейчас создаёт другой процесс.
+     */
+    async begin(input: Pick<NewDeliveryShipment, 'orderId' | 'carrier' | 'request'>): Promise<DeliveryShipment | null> {
+        const now = new Date();
+        const [row] = await db
+            .insert(deliveryShipment)
+            .values({ ...input, status: 'pending', attempts: 1 })
+            .onConflictDoUpdate({
+                target: deliveryShipment.orderId,
+                set: {
+                    carrier: input.carrier,
+                    request: input.request ?? null,
+                    status: 'pending',
+                    attempts: sql`${deliveryShipment.attempts} + 1`,
+                    updatedAt: now,
+                },
+                setWhere: or(
+                    eq(deliveryShipment.status, 'failed'),
+                    and(
+                        eq(deliveryShipment.status, 'pending'),
+                        lt(deliveryShipment.updatedAt, new Date(now.getTime() - STALE_PENDING_MS))
+                    )
+                )!,
+            })
+            .returning();
+        return row ?? null;
+    },
+
+    async markCreated(
+        id: string,
+        info: Pick<NewDeliveryShipment, 'externalId' | 'trackingCode' | 'carrierStatus'>
+    ): Promise<DeliveryShipment> {
+        const [row] = await db
+            .update(deliveryShipment)
+            .set({ ...info, status: 'created', lastError: null, updatedAt: new Date() })
+            .where(eq(deliveryShipment.id, id))
+            .returning();
+        return row!;
+    },
+
+    async markFailed(id: string, error: string): Promise<void> {
+        await db
+            .update(deliveryShipment)
+            .set({ status: 'failed', lastError: error, updatedAt: new Date() })
+            .where(eq(deliveryShipment.id, id));
+    },
+
+    async updateTracking(id: string, patch: { trackingCode: string | null; carrierStatus: string }): Promise<DeliveryShipment> {
+        const [row] = await db
+            .update(deliveryShipment)
+            .set({ ...patch, updatedAt: new Date() })
+            .where(eq(deliveryShipment.id, id))
+            .returning();
+        return row!;
+    },
+
+    async setCarrierStatus(id: string, carrierStatus: string): Promise<void> {
+        await db
+            .update(deliveryShipment)
+            .set({ carrierStatus, updatedAt: new Date() })
+            .where(eq(deliveryShipment.id, id));
+    },
+
+    /** Созданные отправления, доставка по которым ещё не завершена, — для опроса трекинга */
+    async listForTracking(limit = 200): Promise<DeliveryShipment[]> {
+        const rows = await db
+            .select({ shipment: deliveryShipment })
+            .from(deliveryShipment)
+            .innerJoin(order, eq(order.id, deliveryShipment.orderId))
+            .where(
+                and(
+                    eq(deliveryShipment.status, 'created'),
+                    inArray(order.deliveryStatus, ['pending', 'in_transit'])
+                )
+            )
+            .orderBy(asc(deliveryShipment.updatedAt))
+            .limit(limit);
+        return rows.map((r) => r.shipment);
+    },
+
+    /** Что добрать: неудачные попытки (пока не исчерпан лимит) и созданные без трек-номера */
+    listForSync(maxAttempts: number, limit = 100): Promise<DeliveryShipment[]> {
+        return db
+            .select()
+            .from(deliveryShipment)
+            .where(
+                or(
+                    and(eq(deliveryShipment.status, 'failed'), lt(deliveryShipment.attempts, maxAttempts)),
+                    and(eq(deliveryShipment.status, 'created'), isNull(deliveryShipment.trackingCode))
+                )
+            )
+            .orderBy(asc(deliveryShipment.updatedAt))
+            .limit(limit);
+    },
+};
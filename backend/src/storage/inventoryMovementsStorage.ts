@@ -0,0 +1,215 @@
+// src/storage/inventoryMovementsStorage.ts
+import { db } from '#db/db';
+import { and, asc, desc, eq, inArray, isNotNull, isNull, lte, ne, or, sql } from 'drizzle-orm';
+import {
+    inventoryMovement,
+    type InventoryMovement,
+    type InventoryMovementType,
+} from '#db/schema/inventory';
+import { product } from '#db/schema/products';
+import { productVariant } from '#db/schema/productVariants';
+
+/** db или транзакция: движение пишется в транзакции операции, которая его вызвала */
+type Executor = Pick<typeof db, 'select' | 'insert' | 'update'>;
+
+export type StockMovementType = Exclude<InventoryMovementType, 'reservation'>;
+
+export interface StockMoveInput {
+    productId: string;
+    /** Вариант: меняются остаток варианта и product.stock (сумма по вариантам) */
+    variantId?: string | null | undefined;
+    type: StockMovementType;
+    /** Знаковое изменение остатка */
+    qty: number;
+    reason?: string | null | undefined;
+    reference?: string | null | undefined;
+    orderId?: string | null | undefined;
+    userId?: string | null | undefined;
+    /**
+     * Расход больше остатка: 'reject' — движение не пишется (movement: null),
+     * 'clamp' — списывается сколько есть (оплаченный заказ отгружаем в любом случае)
+     */
+    onShortage?: 'reject' | 'clamp' | undefined;
+}
+
+export interface StockMoveResult {
+    movement: InventoryMovement | null;
+    /** Остаток до / после: товара или варианта, если он указан */
+    before: number;
+    after: number;
+}
+
+export interface StockMismatch {
+    productId: string;
+    name: string;
+    sku: string | null;
+    stock: number;
+    journal: number;
+}
+
+const journalSum = sql<number>`coalesce(sum(${inventoryMovement.qty}), 0)::int`;
+
+export const inventoryMovementsStorage = {
+    /**
+     * Изменить остаток и записать движение. Строка товара (и варианта) блокируется FOR UPDATE,
+     * поэтому stock_after последовательны для параллельных движений одного товара.
+     */
+    async applyStock(input: StockMoveInput, tx: Executor = db): Promise<StockMoveResult> {
+        const [prod] = await tx
+            .select({ stock: product.stock })
+            .from(product)
+            .where(eq(product.id, input.productId))
+            .for('update');
+        if (!prod) throw new Error(`Product ${input.productId} not found`);
+
+        const variantId = input.variantId ?? null;
+        let before = prod.stock;
+        if (variantId) {
+            const [variant] = await tx
+                .select({ stock: productVariant.stock })
+                .from(productVariant)
+                .where(and(eq(productVariant.id, variantId), eq(productVariant.productId, input.productId)))
+                .for('update');
+            if (!variant) throw new Error(`Variant ${variantId} of product ${input.productId} not found`);
+            before = variant.stock;
+        }
+
+        let qty = input.qty;
+        if (before + qty < 0) {
+            if ((input.onShortage ?? 'reject') === 'reject') return { movement: null, before, after: before };
+            qty = -before;
+        }
+        if (qty === 0) return { movement: null, before, after: before };
+
+        const after = before + qty;
+        const now = new Date();
+        await tx.update(product).set({ stock: prod.stock + qty, updatedAt: now }).where(eq(product.id, input.productId));
+        if (variantId) {
+            await tx.update(productVariant).set({ stock: after, updatedAt: now }).where(eq(productVariant.id, variantId));
+        }
+
+        const [movement] = await tx
+            .insert(inventoryMovement)
+            .values({
+                productId: input.productId,
+                variantId,
+                type: input.type,
+                qty,
+                stockAfter: after,
+                reason: input.reason ?? null,
+                reference: input.reference ?? null,
+                orderId: input.orderId ?? null,
+                userId: input.userId ?? null,
+            })
+            .returning();
+        return { movement: movement!, before, after };
+    },
+
+    /** Движение резерва (+ взят, − снят / продан); остаток не меняется */
+    async recordReservations(
+        lines: Array<{ productId: string; variantId?: string | null | undefined; qty: number }>,
+        meta: { orderId: string; reason: string },
+        tx: Executor = db
+    ): Promise<void> {
+        const rows = lines.filter((l) => l.qty !== 0);
+        if (rows.length === 0) return;
+        await tx.insert(inventoryMovement).values(
+            rows.map((l) => ({
+                productId: l.productId,
+                variantId: l.variantId ?? null,
+                type: 'reservation',
+                qty: l.qty,
+                stockAfter: null,
+                reason: meta.reason,
+                orderId: meta.orderId,
+            }))
+        );
+    },
+
+    async listByProduct(
+        productId: string,
+        params: { type?: InventoryMovementType | undefined; variantId?: string | undefined; limit: number; offset: number }
+    ): Promise<{ items: InventoryMovement[]; total: number }> {
+        const where = and(
+            eq(inventoryMovement.productId, productId),
+            params.variantId ? eq(inventoryMovement.variantId, params.variantId) : undefined,
+            params.type ? eq(inventoryMovement.type, params.type) : undefined
+        );
+        const [items, [count]] = await Promise.all([
+            db
+                .select()
+                .from(inventoryMovement)
+                .where(where)
+                .orderBy(desc(inventoryMovement.createdAt))
+                .limit(params.limit)
+                .offset(params.offset),
+            db.select({ total: sql<number>`count(*)::int` }).from(inventoryMovement).where(where),
+        ]);
+        return { items, total: Number(count?.total ?? 0) };
+    },
+
+    /** Товары, у которых product.stock не совпадает с суммой журнала */
+    async findMismatches(): Promise<StockMismatch[]> {
+        const journal = db
+            .select({ productId: inventoryMovement.productId, total: journalSum.as('total') })
+            .from(inventoryMovement)
+            .where(ne(inventoryMovement.type, 'reservation'))
+            .groupBy(inventoryMovement.productId)
+            .as('journal');
+
+        const rows = await db
+            .select({
+                productId: product.id,
+                name: product.name,
+                sku: product.sku,
+                stock: product.stock,
+                journal: sql<number>`coalesce(${journal.total}, 0)::int`,
+            })
+            .from(product)
+            .leftJoin(journal, eq(journal.productId, product.id))
+            .where(sql`${product.stock} <> coalesce(${journal.total}, 0)`)
+            .orderBy(asc(product.name));
+        return rows.map((r) => ({ ...r, journal: Number(r.journal) }));
+    },
+
+    /**
+     * Отметить уведомление о низком остатке. Возвращает только те товары, которые отметил
+     * этот вызов, — параллельная проверка не отправит уведомление второй раз.
+     */
+    claimLowStockAlerts(productIds?: string[]) {
+        return db
+            .update(product)
+            .set({ lowStockAlertedAt: new Date() })
+            .where(
+                and(
+                    isNotNull(product.lowStockThreshold),
+                    isNull(product.lowStockAlertedAt),
+                    lte(product.stock, sql`${product.lowStockThreshold}`),
+                    productIds ? inArray(product.id, productIds) : undefined
+                )
+            )
+            .returning({
+                productId: product.id,
+                name: product.name,
+                sku: product.sku,
+                stock: product.stock,
+                threshold: product.lowStockThreshold,
+            });
+    },
+
+    /** Остаток поднялся выше порога (или порог снят) — следующее падение снова уведомит */
+    async resetRecoveredAlerts(productIds?: string[]): Promise<number> {
+        const rows = await db
+            .update(product)
+            .set({ lowStockAlertedAt: null })
+            .where(
+                and(
+                    isNotNull(product.lowStockAlertedAt),
+                    or(isNull(product.lowStockThreshold), sql`${product.stock} > ${product.lowStockThreshold}`),
+                    productIds ? inArray(product.id, productIds) : undefined
+                )
+            )
+            .returning({ id: product.id });
+        return rows.length;
+    },
+};
@@ -0,0 +1,102 @@
+// src/storage/ledgerHoldsStorage.ts
+import { db } from '#db/db';
+import { and, asc, eq, lte, sql } from 'drizzle-orm';
+import { ledgerHold, type LedgerHold, type NewLedgerHold } from '#db/schema/ledgerHolds';
+
+/* ───────── types ───────── */
+export type HoldStatus = 'held' | 'released' | 'canceled';
+
+/** Сумма в холде по целевому счёту */
+export type PendingHoldRow = {
+    targetType: string;
+    currency: 'RUB' | 'VWC' | 'PV';
+    amount: number;
+    nextReleaseAt: Date | null;
+};
+
+/**
+ * Сторнированная часть холда: проводки сторно исходной txn, кредитующие счёт холда.
+ * Сторно возврата — reversal_of = operation_id, полное (reverseTransaction) — meta.reversalOf = id.
+ */
+const reversedSql = (h: typeof ledgerHold) => sql<string>`(
+    SELECT COALESCE(SUM(p.amount), 0)
+    FROM ledger_posting p
+    JOIN ledger_txn r ON r.id = p.txn_id
+    JOIN ledger_txn o ON o.id = ${h.txnId}
+    WHERE p.credit_account_id = ${h.holdAccountId}
+      AND (r.reversal_of = o.operation_id OR r.meta ->> 'reversalOf' = o.id::text)
+)`;
+
+/* ───────── storage ───────── */
+export const ledgerHoldsStorage = {
+    /** Идемпотентно по txn_id: повторное начисление не создаёт второй холд */
+    async create(input: NewLedgerHold): Promise<LedgerHold | null> {
+        const [row] = await db.insert(ledgerHold).values(input).onConflictDoNothing().returning();
+        if (row) return row;
+
+        const [existing] = await db.select().from(ledgerHold).where(eq(ledgerHold.txnId, input.txnId)).limit(1);
+        return existing ?? null;
+    },
+
+    async getByTxnId(txnId: string): Promise<LedgerHold | null> {
+        const [row] = await db.select().from(ledgerHold).where(eq(ledgerHold.txnId, txnId)).limit(1);
+        return row ?? null;
+    },
+
+    /** Холды, у которых истекло окно возврата */
+    listDue(now: Date, limit = 200): Promise<LedgerHold[]> {
+        return db
+            .select()
+            .from(ledgerHold)
+            .where(and(eq(ledgerHold.status, 'held'), lte(ledgerHold.releaseAt, now)))
+            .orderBy(asc(ledgerHold.releaseAt))
+            .limit(limit);
+    },
+
+    async getReversedAmount(hold: LedgerHold): Promise<number> {
+        const [row] = await db
+            .select({ reversed: reversedSql(ledgerHold) })
+            .from(ledgerHold)
+            .where(eq(ledgerHold.id, hold.id));
+        return Number(row?.reversed ?? 0);
+    },
+
+    /** Закрыть холд (только из 'held' — защита от двойного освобождения) */
+    async finish(
+        id: string,
+        patch: { status: Exclude<HoldStatus, 'held'>; releasedAmount: number; releaseTxnId?: string | null },
+    ): Promise<LedgerHold | null> {
+        const [row] = await db
+            .update(ledgerHold)
+            .set({
+                status: patch.status,
+                releasedAmount: patch.releasedAmount.toFixed(2),
+                releaseTxnId: patch.releaseTxnId ?? null,
+                releasedAt: new Date(),
+            })
+            .where(and(eq(ledgerHold.id, id), eq(ledgerHold.status, 'held')))
+            .returning();
+        return row ?? null;
+    },
+
+    /** Pending по пользователю: остаток холдов (за вычетом сторно) по целевому счёту и валюте */
+    async pendingByUser(userId: string): Promise<PendingHoldRow[]> {
+        const rows = await db
+            .select({
+                targetType: ledgerHold.targetType,
+                currency: ledgerHold.currency,
+                amount: sql<string>`SUM(GREATEST(${ledgerHold.amount} - ${reversedSql(ledgerHold)}, 0))`,
+                nextReleaseAt: sql<Date | null>`MIN(${ledgerHold.releaseAt})`,
+            })
+            .from(ledgerHold)
+            .where(and(eq(ledgerHold.userId, userId), eq(ledgerHold.status, 'held')))
+            .groupBy(ledgerHold.targetType, ledgerHold.currency);
+
+        return rows.map((r) => ({
+            targetType: r.targetType,
+            currency: r.currency,
+            amount: Number(r.amount ?? 0),
+            nextReleaseAt: r.nextReleaseAt ? new Date(r.nextReleaseAt) : null,
+        }));
+    },
+};
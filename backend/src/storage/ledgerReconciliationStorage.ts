@@ -0,0 +1,271 @@
+// src/storage/ledgerReconciliationStorage.ts
+import { db } from '#db/db';
+import { and, desc, eq, sql } from 'drizzle-orm';
+import {
+    ledgerReconciliationRun,
+    ledgerReconciliationFinding,
+    type LedgerReconciliationRun,
+    type LedgerReconciliationFinding,
+    type NewLedgerReconciliationFinding,
+} from '#db/schema/ledgerReconciliation';
+
+/* ───────── helpers ───────── */
+function must<T>(row: T | undefined, msg = 'Row not found'): T {
+    if (row === undefined) throw new Error(msg);
+    return row;
+}
+
+/* ───────── types ───────── */
+export type ReconciliationTrigger = 'schedule' | 'manual';
+export type ReconciliationStatus = 'running' | 'ok' | 'issues' | 'failed';
+
+/** Обороты и остаток счёта на дату */
+export type AccountTotalsRow = {
+    id: string;
+    ownerType: 'user' | 'system';
+    ownerId: string | null;
+    type: string;
+    currency: 'RUB' | 'VWC' | 'PV';
+    ownerExists: boolean;
+    userBalance: string | null;
+    debit: string;
+    credit: string;
+};
+
+/** txn × валюта, где дебет ≠ кредит (с учётом валюты счетов) */
+export type UnbalancedTxnRow = {
+    txnId: string;
+    currency: 'RUB' | 'VWC' | 'PV';
+    debit: string;
+    credit: string;
+};
+
+const INSERT_CHUNK = 500;
+
+/* ───────── storage ───────── */
+export const ledgerReconciliationStorage = {
+    /* ─────────── проверки (все — по проводкам с created_at <= asOf) ─────────── */
+
+    /**
+     * Двойная запись по txn и валюте: сумма дебетов = сумма кредитов.
+     * Сторона проводки учитывается, только если валюта её счёта совпадает с валютой проводки —
+     * так ловятся и несбалансированные txn, и проводки между счетами разных валют.
+     */
+    async findUnbalancedTxns(asOf: Date): Promise<{ checked: number; rows: UnbalancedTxnRow[] }> {
+        const res = await db.execute<{
+            txn_id: string;
+            currency: 'RUB' | 'VWC' | 'PV';
+            debit: string;
+            credit: string;
+        }>(sql`
+            SELECT p.txn_id,
+                   p.currency,
+                   SUM(CASE WHEN da.currency = p.currency THEN p.amount ELSE 0 END) AS debit,
+                   SUM(CASE WHEN ca.currency = p.currency THEN p.amount ELSE 0 END) AS credit
+            FROM ledger_posting p
+            JOIN ledger_account da ON da.id = p.debit_account_id
+            JOIN ledger_account ca ON ca.id = p.credit_account_id
+            WHERE p.created_at <= ${asOf}
+            GROUP BY p.txn_id, p.currency
+            HAVING ABS(
+                SUM(CASE WHEN da.currency = p.currency THEN p.amount ELSE 0 END) -
+                SUM(CASE WHEN ca.currency = p.currency THEN p.amount ELSE 0 END)
+            ) >= 0.005
+        `);
+
+        const countRes = await db.execute<{ total: string }>(sql`
+            SELECT COUNT(*) AS total
+            FROM (SELECT 1 FROM ledger_posting WHERE created_at <= ${asOf} GROUP BY txn_id, currency) g
+        `);
+
+        return {
+            checked: Number(countRes.rows[0]?.total ?? 0),
+            rows: res.rows.map((r) => ({
+                txnId: r.txn_id,
+                currency: r.currency,
+                debit: String(r.debit),
+                credit: String(r.credit),
+            })),
+        };
+    },
+
+    /** Транзакции без единой проводки */
+    async findEmptyTxns(asOf: Date): Promise<Array<{ txnId: string; opType: string; orderId: string | null }>> {
+        const res = await db.execute<{ id: string; op_type: string; order_id: string | null }>(sql`
+            SELECT t.id, t.op_type, t.order_id
+            FROM ledger_txn t
+            WHERE t.created_at <= ${asOf}
+              AND NOT EXISTS (SELECT 1 FROM ledger_posting p WHERE p.txn_id = t.id)
+        `);
+        return res.rows.map((r) => ({ txnId: r.id, opType: r.op_type, orderId: r.order_id }));
+    },
+
+    /**
+     * Обороты по каждому счёту на дату (+ существует ли владелец, app_user.balance)
+     */
+    async listAccountTotals(asOf: Date): Promise<AccountTotalsRow[]> {
+        const res = await db.execute<{
+            id: string;
+            owner_type: 'user' | 'system';
+            owner_id: string | null;
+            type: string;
+            currency: 'RUB' | 'VWC' | 'PV';
+            owner_exists: boolean;
+            user_balance: string | null;
+            debit: string;
+            credit: string;
+        }>(sql`
+            WITH moves AS (
+                SELECT debit_account_id AS account_id, amount AS debit, 0::numeric AS credit
+                FROM ledger_posting
+                WHERE created_at <= ${asOf}
+                UNION ALL
+                SELECT credit_account_id, 0::numeric, amount
+                FROM ledger_posting
+                WHERE created_at <= ${asOf}
+            )
+            SELECT a.id,
+                   a.owner_type,
+                   a.owner_id,
+                   a.type,
+                   a.currency,
+                   (u.id IS NOT NULL)         AS owner_exists,
+                   u.balance                  AS user_balance,
+                   COALESCE(SUM(m.debit), 0)  AS debit,
+                   COALESCE(SUM(m.credit), 0) AS credit
+            FROM ledger_account a
+            LEFT JOIN moves m ON m.account_id = a.id
+            LEFT JOIN app_user u ON u.id = a.owner_id
+            WHERE a.created_at <= ${asOf}
+            GROUP BY a.id, u.id
+        `);
+
+        return res.rows.map((r) => ({
+            id: r.id,
+            ownerType: r.owner_type,
+            ownerId: r.owner_id,
+            type: r.type,
+            currency: r.currency,
+            ownerExists: Boolean(r.owner_exists),
+            userBalance: r.user_balance,
+            debit: String(r.debit),
+            credit: String(r.credit),
+        }));
+    },
+
+    /** Пользователи с ненулевым app_user.balance, но без счёта cash_rub */
+    async findUsersWithBalanceWithoutCashAccount(): Promise<Array<{ userId: string; balance: string }>> {
+        const res = await db.execute<{ id: string; balance: string }>(sql`
+            SELECT u.id, u.balance
+            FROM app_user u
+            WHERE u.balance <> 0
+              AND NOT EXISTS (
+                  SELECT 1 FROM ledger_account a
+                  WHERE a.owner_type = 'user'
+                    AND a.owner_id = u.id
+                    AND a.type = 'cash_rub'
+                    AND a.currency = 'RUB'
+              )
+        `);
+        return res.rows.map((r) => ({ userId: r.id, balance: String(r.balance) }));
+    },
+
+    /* ─────────── прогоны ─────────── */
+
+    async createRun(input: {
+        asOf: Date;
+        trigger: ReconciliationTrigger;
+        triggeredBy?: string | null;
+    }): Promise<LedgerReconciliationRun> {
+        const [row] = await db
+            .insert(ledgerReconciliationRun)
+            .values({
+                asOf: input.asOf,
+                trigger: input.trigger,
+                triggeredBy: input.triggeredBy ?? null,
+                status: 'running',
+            })
+            .returning();
+        return must(row, 'Failed to create reconciliation run');
+    },
+
+    async finishRun(
+        id: string,
+        patch: {
+            status: Exclude<ReconciliationStatus, 'running'>;
+            findingsCount?: number;
+            stats?: Record<string, unknown>;
+            trialBalance?: unknown;
+            error?: string | null;
+        },
+    ): Promise<LedgerReconciliationRun> {
+        const [row] = await db
+            .update(ledgerReconciliationRun)
+            .set({
+                status: patch.status,
+                findingsCount: patch.findingsCount ?? 0,
+                stats: patch.stats ?? null,
+                trialBalance: patch.trialBalance ?? null,
+                error: patch.error ?? null,
+                finishedAt: new Date(),
+            })
+            .where(eq(ledgerReconciliationRun.id, id))
+            .returning();
+        return must(row, 'Reconciliation run not found');
+    },
+
+    async insertFindings(findings: NewLedgerReconciliationFinding[]): Promise<void> {
+        for (let i = 0; i < findings.length; i += INSERT_CHUNK) {
+            await db.insert(ledgerReconciliationFinding).values(findings.slice(i, i + INSERT_CHUNK));
+        }
+    },
+
+    listRuns(opts: { limit?: number; offset?: number } = {}): Promise<LedgerReconciliationRun[]> {
+        return db
+            .select()
+            .from(ledgerReconciliationRun)
+            .orderBy(desc(ledgerReconciliationRun.startedAt))
+            .limit(opts.limit ?? 20)
+            .offset(opts.offset ?? 0);
+    },
+
+    async getRun(id: string): Promise<LedgerReconciliationRun | null> {
+        const [row] = await db
+            .select()
+            .from(ledgerReconciliationRun)
+            .where(eq(ledgerReconciliationRun.id, id))
+            .limit(1);
+        return row ?? null;
+    },
+
+    listFindings(
+        runId: string,
+        opts: { kind?: string; limit?: number; offset?: number } = {},
+    ): Promise<LedgerReconciliationFinding[]> {
+        return db
+            .select()
+            .from(ledgerReconciliationFinding)
+            .where(
+                and(
+                    eq(ledgerReconciliationFinding.runId, runId),
+                    ...(opts.kind ? [eq(ledgerReconciliationFinding.kind, opts.kind)] : []),
+                ),
+            )
+            .orderBy(ledgerReconciliationFinding.kind, ledgerReconciliationFinding.createdAt)
+            .limit(opts.limit ?? 100)
+            .offset(opts.offset ?? 0);
+    },
+
+    /** Сводка находок прогона по типу */
+    async countFindingsByKind(runId: string): Promise<Record<string, number>> {
+        const rows = await db
+            .select({
+                kind: ledgerReconciliationFinding.kind,
+                count: sql<string>`COUNT(*)`,
+            })
+            .from(ledgerReconciliationFinding)
+            .where(eq(ledgerReconciliationFinding.runId, runId))
+            .groupBy(ledgerReconciliationFinding.kind);
+        return Object.fromEntries(rows.map((r) => [r.kind, Number(r.count)]));
+    },
+};
@@ -8,14 +8,15 @@ import {
     type LedgerTxn,
     type LedgerPosting,
 } from '#db/schema/ledger';
-import { and, eq, sql, desc, isNull, inArray } from 'drizzle-orm';
-import { currencyEnum, ledgerOpTypeEnum } from '#db/schema/enums';
+import { and, eq, sql, desc, isNull, inArray, gte, lt } from 'drizzle-orm';
+import { accountTypeEnum, currencyEnum, ledgerOpTypeEnum } from '#db/schema/enums';
 import { randomUUID } from 'crypto';
 
 type Currency     = (typeof currencyEnum.enumValues)[number];        // 'RUB' | 'VWC' | 'PV'
 type LedgerOpType = (typeof ledgerOpTypeEnum.enumValues)[number];
-type AccountType  = 'cash_rub' | 'pv' | 'vwc' | 'referral' | 'reserve_special' | 'network_fund';
+type AccountType  = (typeof accountTypeEnum.enumValues)[number];
 type OwnerType    = 'user' | 'system';
+type Tx           = Parameters<Parameters<typeof db.transaction>[0]>[0];
 
 /** Вью-модель постинга с данными транзакции (для контроллеров) */
 export type LedgerPostingView = {
@@ -28,6 +29,24 @@ export type LedgerPostingView = {
     operationId: string | null;
 };
 
+/** Строка выписки: проводка по счёту + данные транзакции */
+export type StatementPostingRow = {
+    postingId: string;
+    txnId: string;
+    createdAt: Date;
+    /** 'debit' — приход на счёт (баланс растёт), 'credit' — расход */
+    side: 'debit' | 'credit';
+    amount: string;
+    currency: Currency;
+    memo: string | null;
+    opType: LedgerOpType;
+    operationId: string;
+    orderId: string | null;
+    level: number | null;
+    reversalOf: string | null;
+    meta: Record<string, unknown> | null;
+};
+
 /* ───────── helpers ───────── */
 function must<T>(row: T | undefined, msg = 'Row not found'): T {
     if (row === undefined) throw new Error(msg);
@@ -106,6 +125,67 @@ export const ledgerStorage = {
         return Number(row?.balance ?? 0);
     },
 
+    /** Баланс счёта на момент `at` (проводки с created_at < at). */
+    async getBalanceAt(accountId: string, at: Date): Promise<number> {
+        const res = await db.execute<{ balance: string }>(sql`
+            SELECT COALESCE(SUM(
+                                    CASE
+                                        WHEN debit_account_id  = ${accountId} THEN amount
+                                        WHEN credit_account_id = ${accountId} THEN -amount
+                                        ELSE 0
+                                        END
+                            ), 0) AS balance
+            FROM ${ledgerPosting}
+            WHERE (debit_account_id = ${accountId} OR credit_account_id = ${accountId})
+              AND created_at < ${at};
+        `);
+
+        return Number(res.rows?.[0]?.balance ?? 0);
+    },
+
+    /**
+     * Проводки по счёту за период [from, to) в хронологическом порядке (для выписки).
+     */
+    async listStatementPostings(
+        accountId: string,
+        period: { from: Date; to: Date },
+        limit = 10_000,
+    ): Promise<StatementPostingRow[]> {
+        const rows = await db
+            .select({
+                postingId: ledgerPosting.id,
+                txnId: ledgerPosting.txnId,
+                createdAt: ledgerPosting.createdAt,
+                debitAccountId: ledgerPosting.debitAccountId,
+                amount: ledgerPosting.amount,
+                currency: ledgerPosting.currency,
+                memo: ledgerPosting.memo,
+                opType: ledgerTxn.opType,
+                operationId: ledgerTxn.operationId,
+                orderId: ledgerTxn.orderId,
+                level: ledgerTxn.level,
+                reversalOf: ledgerTxn.reversalOf,
+                meta: ledgerTxn.meta,
+            })
+            .from(ledgerPosting)
+            .innerJoin(ledgerTxn, eq(ledgerPosting.txnId, ledgerTxn.id))
+            .where(
+                and(
+                    sql`(${ledgerPosting.debitAccountId} = ${accountId} OR ${ledgerPosting.creditAccountId} = ${accountId})`,
+                    gte(ledgerPosting.createdAt, period.from),
+                    lt(ledgerPosting.createdAt, period.to),
+                ),
+            )
+            .orderBy(ledgerPosting.createdAt, ledgerPosting.id)
+            .limit(limit);
+
+        return rows.map(({ debitAccountId, meta, ...r }) => ({
+            ...r,
+            side: debitAccountId === accountId ? 'debit' : 'credit',
+            meta: (meta as Record<string, unknown> | null) ?? null,
+        }));
+    },
+
     /** История проводок по счёту (дебет/кредит). */
     listTransactions(accountId: string, limit = 50, offset = 0): Promise<LedgerPosting[]> {
         return db
@@ -122,21 +202,27 @@ export const ledgerStorage = {
     /**
      * Создать двойную проводку (txn + posting).
      * Предполагается, что currency у обоих счетов совпадает (валидируется на уровне приложения/БД).
+     * operationId (UUID) — ключ идемпотентности: повтор упирается в ux_ledger_txn_operation.
+     * tx — провести в транзакции вызывающего (вместе со сменой статуса заявки и т.п.).
      */
-    async createPosting(params: {
-        debitAccountId: string;
-        creditAccountId: string;
-        amount: number;
-        currency: Currency;
-        opType: LedgerOpType;
-        userId?: string;
-        orderId?: string;
-        memo?: string;
-        meta?: Record<string, unknown>;
-    }): Promise<{ txn: LedgerTxn; postings: LedgerPosting[] }> {
-        const opId = randomUUID();
+    async createPosting(
+        params: {
+            debitAccountId: string;
+            creditAccountId: string;
+            amount: number;
+            currency: Currency;
+            opType: LedgerOpType;
+            userId?: string;
+            orderId?: string;
+            memo?: string;
+            meta?: Record<string, unknown>;
+            operationId?: string;
+        },
+        outerTx?: Tx,
+    ): Promise<{ txn: LedgerTxn; postings: LedgerPosting[] }> {
+        const opId = params.operationId ?? randomUUID();
 
-        return db.transaction(async (tx) => {
+        const run = async (tx: Tx) => {
             const [txn] = await tx
                 .insert(ledgerTxn)
                 .values({
@@ -184,7 +270,9 @@ export const ledgerStorage = {
             }
 
             return { txn: must(txn), postings: [must(posting)] };
-        });
+        };
+
+        return outerTx ? run(outerTx) : db.transaction(run);
     },
 
     /** Все счета пользователя. */
@@ -403,6 +491,117 @@ export const ledgerStorage = {
         return { original, reversal };
     },
 
+    /**
+     * Исходные транзакции заказа (без сторнирующих).
+     * Сторно отличаем по reversal_of (частичное) или meta.reversalOf (reverseTransaction).
+     */
+    listOrderTxns(orderId: string): Promise<LedgerTxn[]> {
+        return db
+            .select()
+            .from(ledgerTxn)
+            .where(
+                and(
+                    eq(ledgerTxn.orderId, orderId),
+                    isNull(ledgerTxn.reversalOf),
+                    sql`(${ledgerTxn.meta} ->> 'reversalOf') IS NULL`,
+                ),
+            )
+            .orderBy(ledgerTxn.createdAt);
+    },
+
+    /** Проводки транзакции */
+    listPostings(txnId: string): Promise<LedgerPosting[]> {
+        return db.select().from(ledgerPosting).where(eq(ledgerPosting.txnId, txnId));
+    },
+
+    async getAccountById(accountId: string): Promise<LedgerAccount | null> {
+        const [row] = await db.select().from(ledgerAccount).where(eq(ledgerAccount.id, accountId)).limit(1);
+        return row ?? null;
+    },
+
+    /**
+     * Сторно транзакции произвольным набором проводок (частичный возврат заказа,
+     * перенос недостачи на счёт receivable).
+     * Идемпотентно по operationId. markReversed — исходная txn сторнирована полностью.
+     */
+    async createReversal(params: {
+        originalTxnId: string;
+        operationId: string;
+        reason: string;
+        postings: Array<{
+            debitAccountId: string;
+            creditAccountId: string;
+            amount: number;
+            currency: Currency;
+            memo?: string;
+        }>;
+        meta?: Record<string, unknown>;
+        markReversed?: boolean;
+    }): Promise<{ txn: LedgerTxn; postings: LedgerPosting[]; created: boolean }> {
+        const existing = await this.getTxnByOperationId(params.operationId);
+        if (existing) {
+            return { txn: existing, postings: await this.listPostings(existing.id), created: false };
+        }
+
+        return db.transaction(async (tx) => {
+            const [original] = await tx
+                .select()
+                .from(ledgerTxn)
+                .where(eq(ledgerTxn.id, params.originalTxnId))
+                .for('update')
+                .limit(1);
+
+            if (!original) {
+                throw new Error(`Transaction ${params.originalTxnId} not found`);
+            }
+            if (original.reversedAt) {
+                throw new Error(`Transaction ${params.originalTxnId} already reversed at ${original.reversedAt}`);
+            }
+
+            const [reversalTxn] = await tx
+                .insert(ledgerTxn)
+                .values({
+                    operationId: params.operationId,
+                    opType: 'refund',
+                    userId: original.userId,
+                    orderId: original.orderId,
+                    reversalOf: original.operationId,
+                    meta: {
+                        ...(params.meta ?? {}),
+                        reversalOf: original.id,
+                        reason: params.reason,
+                        originalOpType: original.opType,
+                    },
+                })
+                .returning();
+
+            const postings: LedgerPosting[] = [];
+            for (const p of params.postings) {
+                const [row] = await tx
+                    .insert(ledgerPosting)
+                    .values({
+                        txnId: must(reversalTxn).id,
+                        debitAccountId: p.debitAccountId,
+                        creditAccountId: p.creditAccountId,
+                        amount: toPgNum(p.amount),
+                        currency: p.currency,
+                        memo: p.memo ?? `${params.reason}: reversal of ${original.id}`,
+                    })
+                    .returning();
+                postings.push(must(row));
+            }
+
+            if (params.markReversed) {
+                await tx
+                    .update(ledgerTxn)
+                    .set({ reversedAt: new Date(), reversalTxnId: must(reversalTxn).id })
+                    .where(eq(ledgerTxn.id, original.id));
+            }
+
+            return { txn: must(reversalTxn), postings, created: true };
+        });
+    },
+
     /* ──────────────── 🔥 ДОБАВЛЕННАЯ ФУНКЦИЯ (вариант А) ─────────────── */
 
     /**
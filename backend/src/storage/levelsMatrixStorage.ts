@@ -1,6 +1,7 @@
 import { db } from "#db/db";
-import { eq } from "drizzle-orm";
+import { and, desc, eq, isNotNull, lte } from "drizzle-orm";
 import {levelsMatrixVersions} from "#db/schema";
+import type { LevelsMatrixVersion, NewLevelsMatrixVersion } from "#db/schema/levels-matrix";
 
 export const levelsMatrixStorage = {
     async getActive() {
@@ -11,17 +12,76 @@ export const levelsMatrixStorage = {
         return row ?? null;
     },
 
+    async getById(id: string): Promise<LevelsMatrixVersion | null> {
+        const [row] = await db
+            .select()
+            .from(levelsMatrixVersions)
+            .where(eq(levelsMatrixVersions.id, id))
+            .limit(1);
+        return row ?? null;
+    },
+
+    /**
+     * Версия, действующая на момент `at`: последняя с activate_at <= at
+     */
+    async findEffectiveAt(at: Date): Promise<LevelsMatrixVersion | null> {
+        const [row] = await db
+            .select()
+            .from(levelsMatrixVersions)
+            .where(and(isNotNull(levelsMatrixVersions.activateAt), lte(levelsMatrixVersions.activateAt, at)))
+            .orderBy(desc(levelsMatrixVersions.activateAt), desc(levelsMatrixVersions.createdAt))
+            .limit(1);
+        return row ?? null;
+    },
+
     async list() {
         return db.select().from(levelsMatrixVersions).orderBy(levelsMatrixVersions.createdAt);
     },
 
+    async create(values: Pick<NewLevelsMatrixVersion, 'versionNote' | 'sumMode' | 'levels' | 'fastLevels' | 'activatedByTelegramId'>) {
+        const [row] = await db
+            .insert(levelsMatrixVersions)
+            .values({ ...values, isActive: false, activateAt: null })
+            .returning();
+        return row!;
+    },
+
+    async setActivateAt(id: string, activateAt: Date | null, activatedByTelegramId?: string | null) {
+        const [row] = await db
+            .update(levelsMatrixVersions)
+            .set({
+                activateAt,
+                ...(activatedByTelegramId !== undefined ? { activatedByTelegramId } : {}),
+                updatedAt: new Date(),
+            })
+            .where(eq(levelsMatrixVersions.id, id))
+            .returning();
+        return row ?? null;
+    },
+
+    /** Сделать версию единственной активной (флаг is_active — «действует сейчас») */
+    async setActiveOnly(id: string) {
+        return db.transaction(async (tx) => {
+            await tx.update(levelsMatrixVersions)
+                .set({ isActive: false, updatedAt: new Date() })
+                .where(eq(levelsMatrixVersions.isActive, true));
+
+            const [row] = await tx
+                .update(levelsMatrixVersions)
+                .set({ isActive: true, updatedAt: new Date() })
+                .where(eq(levelsMatrixVersions.id, id))
+                .returning();
+            return row ?? null;
+        });
+    },
+
     async createNew(versionNote: string, levels: string[], fastLevels: string[]) {
         await db.update(levelsMatrixVersions)
             .set({ isActive: false });
 
         const [row] = await db
             .insert(levelsMatrixVersions)
-            .values({ versionNote, levels, fastLevels, isActive: true })
+            .values({ versionNote, levels, fastLevels, isActive: true, activateAt: new Date() })
             .returning();
         return row;
     }
@@ -322,6 +322,8 @@ export const matrixPlacementStorage = {
                 level: matrixPlacement.level,
                 leftLegVolume: matrixPlacement.leftLegVolume,
                 rightLegVolume: matrixPlacement.rightLegVolume,
+                leftCarryPv: matrixPlacement.leftCarryPv,
+                rightCarryPv: matrixPlacement.rightCarryPv,
                 leftLegCount: matrixPlacement.leftLegCount,
                 rightLegCount: matrixPlacement.rightLegCount,
                 isActive: matrixPlacement.isActive,
@@ -14,7 +14,7 @@ import {
     type PoolFirstRule,
     type PoolFirstAward,
 } from '#db/schema/mlmAnalytics';
-import { and, desc, eq, gte, inArray, sql } from 'drizzle-orm';
+import { and, desc, eq, gte, inArray, isNotNull, sql } from 'drizzle-orm';
 
 /** YYYY-MM-01 в UTC */
 function monthKey(input?: Date | string): string {
@@ -64,6 +64,52 @@ export async function listMonthlyStats(opts: {
         .offset(opts.offset ?? 0);
 }
 
+/** Статистика закрытых месяцев для набора пользователей (для правила holdMonths) */
+export async function listClosedMonthlyStats(months: string[]): Promise<MlmMonthlyStat[]> {
+    if (months.length === 0) return [];
+    return db
+        .select()
+        .from(mlmMonthlyStats)
+        .where(and(inArray(mlmMonthlyStats.month, months), isNotNull(mlmMonthlyStats.qualifiedRank)))
+        .orderBy(desc(mlmMonthlyStats.month));
+}
+
+/** Записать итоги месяца (идемпотентно по user+month) */
+export async function upsertMonthlyStat(input: {
+    userId: string;
+    month: Date | string;
+    goAmount: number;
+    loAmount: number;
+    pvAmount: number;
+    activePartners: number;
+    branches: number;
+    qualifiedRank: MlmMonthlyStat['rank'];
+    rank: MlmMonthlyStat['rank'];
+}): Promise<MlmMonthlyStat> {
+    const values = {
+        userId: input.userId,
+        month: monthKey(input.month),
+        goAmount: input.goAmount.toFixed(2),
+        loAmount: input.loAmount.toFixed(2),
+        pvAmount: input.pvAmount.toFixed(2),
+        activePartners: input.activePartners,
+        branches: input.branches,
+        qualifiedRank: input.qualifiedRank,
+        rank: input.rank,
+        closedAt: new Date(),
+    };
+
+    const [row] = await db
+        .insert(mlmMonthlyStats)
+        .values(values)
+        .onConflictDoUpdate({
+            target: [mlmMonthlyStats.userId, mlmMonthlyStats.month],
+            set: { ...values, updatedAt: new Date() },
+        })
+        .returning();
+    return row!;
+}
+
 /* ─────────────────────────────────────────────
    B) matrix_distribution
 ─────────────────────────────────────────────── */
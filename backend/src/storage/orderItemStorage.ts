@@ -1,14 +1,18 @@
 // src/storage/orderItemStorage.ts
-import { and, eq, sql } from 'drizzle-orm';
+import { and, eq, isNull, sql } from 'drizzle-orm';
 import { db } from '#db/db';
 
 import { order } from '#db/schema/orders';
 import { orderItem, type OrderItem } from '#db/schema/orderItem';
 import { product } from '#db/schema/products';
+import { productVariant } from '#db/schema/productVariants';
 import { promotion, promotionProduct } from '#db/schema/promotions';
 
 import { settlementSettingsRuntime } from '#config/settlementSettings';
 import { productStorage } from './productsStorage';
+import { stockReservationsStorage, stockKey } from './stockReservationsStorage';
+import { productVariantsStorage } from './productVariantsStorage';
+import { productBundlesStorage, allocateBundlePrice, bundlePvEach, bundleStock, type BundleComponent } from './productBundlesStorage';
 
 type ProductSnapshot = {
     unitPriceRub: number;
@@ -16,9 +20,12 @@ type ProductSnapshot = {
     isPvEligible: boolean;
     sku: string | null;
     productName: string;
+    variantName: string | null;
     productSlug: string | null;
     primaryImageUrl: null;  // << всегда null
     categoryId: string | null;
+    /** Состав, если товар — набор */
+    components: BundleComponent[] | null;
 };
 
 const round2 = (v: number) => Math.round((v + Number.EPSILON) * 100) / 100;
@@ -30,7 +37,7 @@ async function getPrimaryImageUrlFromJsonb(): Promise<null> {
     return null;
 }
 
-async function getProductSnapshot(productId: string, now = new Date()): Promise<ProductSnapshot | null> {
+async function getProductSnapshot(productId: string, variantId: string | null, now = new Date()): Promise<ProductSnapshot | null> {
     const [row] = await db
         .select({
             id: product.id,
@@ -41,6 +48,7 @@ async function getProductSnapshot(productId: string, now = new Date()): Promise<
             isPvEligible: product.isPvEligible,
             sku: product.sku,
             categoryId: product.categoryId,
+            isBundle: product.isBundle,
             // images: product.images  ← картинки удалены
         })
         .from(product)
@@ -49,6 +57,16 @@ async function getProductSnapshot(productId: string, now = new Date()): Promise<
 
     if (!row) return null;
 
+    // Вариант: своя цена, SKU и PV; выключенный в корзину не попадает
+    const [variant] = variantId
+        ? await db
+              .select({ name: productVariant.name, price: productVariant.price, sku: productVariant.sku, customPv: productVariant.customPv })
+              .from(productVariant)
+              .where(and(eq(productVariant.id, variantId), eq(productVariant.productId, productId), eq(productVariant.isActive, true)))
+              .limit(1)
+        : [];
+    if (variantId && !variant) return null;
+
     const [promo] = await db
         .select({
             percentOff: promotion.percentOff,
@@ -68,30 +86,39 @@ async function getProductSnapshot(productId: string, now = new Date()): Promise<
         .orderBy(sql`coalesce(${promotion.startsAt}, now()) DESC`)
         .limit(1);
 
-    let effectivePrice = Number(row.price ?? 0);
+    const basePrice = Number(row.price ?? 0);
+    let effectivePrice = variant ? Number(variant.price) : basePrice;
 
     if (promo) {
         if (promo.fixedPriceRub != null) {
-            effectivePrice = Number(promo.fixedPriceRub);
+            // Фикс-цена акции задана для товара; вариант получает ту же скидку в процентах от своей цены
+            effectivePrice = variant && basePrice > 0
+                ? effectivePrice * (Number(promo.fixedPriceRub) / basePrice)
+                : Number(promo.fixedPriceRub);
         } else if (promo.percentOff != null) {
             effectivePrice = Math.max(0, effectivePrice * (1 - Number(promo.percentOff) / 100));
         }
     }
 
     const isPvEligible = !!row.isPvEligible;
-    const pvEach = isPvEligible
-        ? (row.customPv ?? Math.floor(effectivePrice / settlementSettingsRuntime.pvRubPerPv))
-        : 0;
+    const components = row.isBundle ? ((await productBundlesStorage.listComponents([productId])).get(productId) ?? []) : null;
+    const pvEach = components
+        ? bundlePvEach(row, components, allocateBundlePrice(round2(effectivePrice), components))
+        : isPvEligible
+          ? (variant?.customPv ?? row.customPv ?? Math.floor(effectivePrice / settlementSettingsRuntime.pvRubPerPv))
+          : 0;
 
     return {
         unitPriceRub: round2(effectivePrice),
         pvEach,
         isPvEligible,
-        sku: row.sku ?? null,
+        sku: variant?.sku ?? row.sku ?? null,
         productName: row.name,
+        variantName: variant?.name ?? null,
         productSlug: row.slug ?? null,
         primaryImageUrl: null,   // << ВСЕГДА null
         categoryId: row.categoryId ?? null,
+        components,
     };
 }
 
@@ -113,27 +140,20 @@ export const orderItemStorage = {
      * @param productId - ID товара
      * @param qty - Количество
      * @param txOverride - Внешняя транзакция (если есть)
+     * @param variantId - Вариант товара (обязателен, если у товара есть варианты)
      */
-    async addItem(orderId: string, productId: string, qty = 1, txOverride?: any): Promise<OrderItem[]> {
+    async addItem(orderId: string, productId: string, qty = 1, txOverride?: any, variantId: string | null = null): Promise<OrderItem[]> {
         if (qty <= 0) throw new Error('Quantity must be positive');
 
         // ✅ FIX-0.1: Используем внешнюю транзакцию если передана
         const executeTx = txOverride ? async (fn: any) => fn(txOverride) : db.transaction.bind(db);
 
         return executeTx(async (tx: any) => {
-            // ✅ FIX-1: Только проверка stock БЕЗ резервирования
-            // Stock будет списан атомарно в ordersController.createOrder
-            const [prod] = await tx
-                .select({ stock: product.stock })
-                .from(product)
-                .where(eq(product.id, productId))
-                .limit(1);
-
-            if (!prod || prod.stock < qty) {
-                throw new Error(`Insufficient stock for product ${productId}`);
-            }
+            // ✅ FIX-1: Только проверка доступности БЕЗ резервирования
+            // Резерв берётся при оформлении (stockReservationService), доступно = stock − резервы
+            await assertAvailable(productId, variantId, qty, orderId, tx);
 
-            const snap = await getProductSnapshot(productId);
+            const snap = await getProductSnapshot(productId, variantId);
             if (!snap) throw new Error('Product not found');
 
             const lineSubtotal = snap.unitPriceRub * qty;
@@ -143,7 +163,7 @@ export const orderItemStorage = {
             const [existing] = await tx
                 .select()
                 .from(orderItem)
-                .where(and(eq(orderItem.orderId, orderId), eq(orderItem.productId, productId)))
+                .where(sameLine(orderId, productId, variantId))
                 .limit(1);
 
             if (existing) {
@@ -155,10 +175,12 @@ export const orderItemStorage = {
                     })
                     .where(eq(orderItem.id, existing.id));
             } else {
-                await tx.insert(orderItem).values({
+                const [inserted] = await tx.insert(orderItem).values({
                     orderId,
                     productId,
+                    variantId,
                     productName: snap.productName,
+                    variantName: snap.variantName,
                     productSlug: snap.productSlug,
                     imageUrl: null,                // << картинка отключена
                     categoryId: snap.categoryId,
@@ -171,7 +193,11 @@ export const orderItemStorage = {
                     isPvEligible:     snap.isPvEligible,
                     pvEach:           snap.pvEach,
                     pvTotal,
-                });
+                }).returning({ id: orderItem.id });
+
+                if (snap.components) {
+                    await productBundlesStorage.snapshot(inserted.id, snap.components, snap.unitPriceRub, tx);
+                }
             }
 
             // ❌ FIX-1: УБРАЛИ reserveStock - stock не меняется при добавлении в cart
@@ -188,14 +214,14 @@ export const orderItemStorage = {
         });
     },
 
-    async setQuantity(orderId: string, productId: string, qty: number) {
+    async setQuantity(orderId: string, productId: string, qty: number, variantId: string | null = null) {
         if (qty < 0) throw new Error('Quantity must be >= 0');
 
         return db.transaction(async (tx) => {
             const [item] = await tx
                 .select()
                 .from(orderItem)
-                .where(and(eq(orderItem.orderId, orderId), eq(orderItem.productId, productId)))
+                .where(sameLine(orderId, productId, variantId))
                 .limit(1);
 
             if (!item) return;
@@ -226,15 +252,7 @@ export const orderItemStorage = {
                 // await productStorage.releaseStock(productId, Math.abs(qtyDiff), tx);
             } else if (qtyDiff > 0) {
                 // ✅ FIX-1: Только проверка доступности БЕЗ резервирования
-                const [prod] = await tx
-                    .select({ stock: product.stock })
-                    .from(product)
-                    .where(eq(product.id, productId))
-                    .limit(1);
-
-                if (!prod || prod.stock < qtyDiff) {
-                    throw new Error(`Insufficient stock for product ${productId}`);
-                }
+                await assertAvailable(productId, variantId, qtyDiff, orderId, tx);
 
                 const unitPrice = Number(item.unitPriceRub);
                 const lineSubtotal = unitPrice * qty;
@@ -259,19 +277,19 @@ export const orderItemStorage = {
         });
     },
 
-    async removeItem(orderId: string, productId: string) {
+    async removeItem(orderId: string, productId: string, variantId: string | null = null) {
         return db.transaction(async (tx) => {
             const [item] = await tx
                 .select()
                 .from(orderItem)
-                .where(and(eq(orderItem.orderId, orderId), eq(orderItem.productId, productId)))
+                .where(sameLine(orderId, productId, variantId))
                 .limit(1);
 
             if (!item) return;
 
             await tx
                 .delete(orderItem)
-                .where(and(eq(orderItem.orderId, orderId), eq(orderItem.productId, productId)));
+                .where(eq(orderItem.id, item.id));
 
             // ❌ FIX-1: УБРАЛИ releaseStock - stock не меняется в cart operations
             // await productStorage.releaseStock(productId, item.qty, tx);
@@ -299,6 +317,63 @@ export const orderItemStorage = {
     },
 };
 
+/** Строка корзины: товар + вариант (NULL — товар без вариантов) */
+function sameLine(orderId: string, productId: string, variantId: string | null) {
+    return and(
+        eq(orderItem.orderId, orderId),
+        eq(orderItem.productId, productId),
+        variantId ? eq(orderItem.variantId, variantId) : isNull(orderItem.variantId),
+    );
+}
+
+/**
+ * Остаток позиции: варианта или товара. null — позиция не продаётся
+ * (нет товара, вариант выключен, у товара есть варианты, а вариант не выбран).
+ */
+async function stockOnHand(productId: string, variantId: string | null, tx: any): Promise<number | null> {
+    if (variantId) {
+        const [variant] = await tx
+            .select({ stock: productVariant.stock })
+            .from(productVariant)
+            .where(and(eq(productVariant.id, variantId), eq(productVariant.productId, productId), eq(productVariant.isActive, true)))
+            .limit(1);
+        return variant ? variant.stock : null;
+    }
+    if ((await productVariantsStorage.productsWithVariants([productId], tx)).size > 0) {
+        throw new Error(`Variant is required for product ${productId}`);
+    }
+    const [prod] = await tx
+        .select({ stock: product.stock })
+        .from(product)
+        .where(eq(product.id, productId))
+        .limit(1);
+    return prod ? prod.stock : null;
+}
+
+/**
+ * Проверить, что позицию можно добавить: доступно (остаток − чужие резервы) не меньше qty.
+ * Набор проверяется по компонентам — сколько наборов из них собирается.
+ */
+async function assertAvailable(productId: string, variantId: string | null, qty: number, orderId: string, tx: any): Promise<void> {
+    const components = (await productBundlesStorage.listComponents([productId], tx)).get(productId);
+    if (components) {
+        const reserved = await stockReservationsStorage.reservedByItem(components, { excludeOrderId: orderId }, tx);
+        if (bundleStock(components, reserved) < qty) throw new Error(`Insufficient stock for product ${productId}`);
+        return;
+    }
+
+    const onHand = await stockOnHand(productId, variantId, tx);
+    if (onHand === null || (await availableQty(productId, variantId, onHand, orderId, tx)) < qty) {
+        throw new Error(`Insufficient stock for product ${productId}`);
+    }
+}
+
+/** Доступно к продаже: остаток минус чужие активные резервы */
+async function availableQty(productId: string, variantId: string | null, stock: number, orderId: string, tx: any): Promise<number> {
+    const reserved = await stockReservationsStorage.reservedByItem([{ productId, variantId }], { excludeOrderId: orderId }, tx);
+    return stock - (reserved.get(stockKey({ productId, variantId })) ?? 0);
+}
+
 /* -----------------------------------------------------------
    Пересчёт итогов заказа
 ------------------------------------------------------------ */
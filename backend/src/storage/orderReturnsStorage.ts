@@ -0,0 +1,60 @@
+// backend/src/storage/orderReturnsStorage.ts
+import { db } from '#db/db';
+import { desc, eq, sql } from 'drizzle-orm';
+import {
+    orderReturn,
+    orderReturnItem,
+    type OrderReturn,
+    type OrderReturnItem,
+} from '#db/schema/orderReturns';
+
+export const orderReturnsStorage = {
+    async getById(id: string): Promise<OrderReturn | null> {
+        const [row] = await db.select().from(orderReturn).where(eq(orderReturn.id, id)).limit(1);
+        return row ?? null;
+    },
+
+    /** Возвраты заказа (новые сверху) */
+    listByOrder(orderId: string): Promise<OrderReturn[]> {
+        return db
+            .select()
+            .from(orderReturn)
+            .where(eq(orderReturn.orderId, orderId))
+            .orderBy(desc(orderReturn.createdAt));
+    },
+
+    listItems(returnId: string): Promise<OrderReturnItem[]> {
+        return db.select().from(orderReturnItem).where(eq(orderReturnItem.returnId, returnId));
+    },
+
+    /**
+     * Уже возвращённое по позициям заказа: order_item_id → { qty, amountRub }
+     */
+    async getReturnedByItem(orderId: string): Promise<Map<string, { qty: number; amountRub: number }>> {
+        const rows = await db
+            .select({
+                orderItemId: orderReturnItem.orderItemId,
+                qty: sql<string>`COALESCE(SUM(${orderReturnItem.qty}), 0)`,
+                amountRub: sql<string>`COALESCE(SUM(${orderReturnItem.amountRub}), 0)`,
+            })
+            .from(orderReturnItem)
+            .innerJoin(orderReturn, eq(orderReturnItem.returnId, orderReturn.id))
+            .where(eq(orderReturn.orderId, orderId))
+            .groupBy(orderReturnItem.orderItemId);
+
+        return new Map(rows.map((r) => [r.orderItemId, { qty: Number(r.qty), amountRub: Number(r.amountRub) }]));
+    },
+
+    /** Накопленная доля возврата заказа (share_after последнего возврата) */
+    async getReturnedShare(orderId: string): Promise<number> {
+        const [row] = await db
+            .select({ share: sql<string>`COALESCE(MAX(${orderReturn.shareAfter}), 0)` })
+            .from(orderReturn)
+            .where(eq(orderReturn.orderId, orderId));
+        return Number(row?.share ?? 0);
+    },
+
+    async setSummary(id: string, summary: Record<string, unknown>): Promise<void> {
+        await db.update(orderReturn).set({ summary }).where(eq(orderReturn.id, id));
+    },
+};
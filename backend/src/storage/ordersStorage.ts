@@ -1,9 +1,8 @@
 // src/storage/ordersStorage.ts
-import { and, asc, desc, eq, gte, lte, inArray, sql } from 'drizzle-orm';
+import { and, asc, desc, eq, gte, lte, inArray, ne, sql } from 'drizzle-orm';
 import { db } from '#db/db';
 import { order, type Order, type NewOrder } from '#db/schema/orders';
-import { orderItem } from '#db/schema/orderItem';
-import { product } from '#db/schema/products';
+import { stockReservation } from '#db/schema/stockReservations';
 import { orderStatusEnum, deliveryStatusEnum } from '#db/schema/enums';
 
 type OrderStatus    = (typeof orderStatusEnum.enumValues)[number];
@@ -20,6 +19,8 @@ function assertDeliveryStatus(v: unknown): asserts v is DeliveryStatus {
 }
 
 import { normalizeOrderNumeric as normalizeNumeric, now } from '../utils/storageHelpers';
+import { stockReservationsStorage } from './stockReservationsStorage';
+import { inventoryMovementsStorage } from './inventoryMovementsStorage';
 
 export const ordersStorage = {
     /** Создать заказ (драфт = pending) */
@@ -118,23 +119,39 @@ export const ordersStorage = {
         return row ?? null;
     },
 
+    /**
+     * Сменить статус, только если заказ ещё не в нём (compare-and-set).
+     * null — статус уже такой (повторный запрос / параллельная смена).
+     */
+    async transitionStatus(id: string, to: OrderStatus): Promise<Order | null> {
+        assertOrderStatus(to);
+        const [row] = await db
+            .update(order)
+            .set({ status: to, updatedAt: now() })
+            .where(and(eq(order.id, id), ne(order.status, to)))
+            .returning();
+        return row ?? null;
+    },
+
     /** Отменить заказ + восстановить stock */
     async cancel(id: string): Promise<Order | null> {
         return db.transaction(async (tx) => {
-            // 1. Get order items to restore stock
-            const items = await tx
-                .select()
-                .from(orderItem)
-                .where(eq(orderItem.orderId, id));
-
-            // 2. Restore stock for each product
-            for (const item of items) {
-                await tx.execute(sql`
-                    UPDATE ${product}
-                    SET stock = stock + ${item.qty},
-                        updated_at = NOW()
-                    WHERE id = ${item.productId}
-                `);
+            // 1. Снять активные резервы — stock они не уменьшали
+            await stockReservationsStorage.releaseForOrder(id, 'canceled', tx);
+
+            // 2. Вернуть на склад проданное (converted: stock уменьшен при оплате); строка
+            //    переходит в released, поэтому повторная отмена товар второй раз не вернёт
+            const sold = await tx
+                .update(stockReservation)
+                .set({ status: 'released', releaseReason: 'canceled', updatedAt: now() })
+                .where(and(eq(stockReservation.orderId, id), eq(stockReservation.status, 'converted')))
+                .returning({ productId: stockReservation.productId, variantId: stockReservation.variantId, qty: stockReservation.qty });
+
+            for (const item of sold) {
+                await inventoryMovementsStorage.applyStock(
+                    { productId: item.productId, variantId: item.variantId, type: 'return', qty: item.qty, reason: 'Order canceled', orderId: id },
+                    tx
+                );
             }
 
             // 3. Cancel order
@@ -148,6 +165,20 @@ export const ordersStorage = {
         });
     },
 
+    /**
+     * Сменить статус доставки, только если текущий — один из from (compare-and-set).
+     * null — статус уже сменил кто-то другой (параллельный вебхук / опрос).
+     */
+    async transitionDeliveryStatus(id: string, from: DeliveryStatus[], to: DeliveryStatus): Promise<Order | null> {
+        assertDeliveryStatus(to);
+        const [row] = await db
+            .update(order)
+            .set({ deliveryStatus: to, updatedAt: now() })
+            .where(and(eq(order.id, id), inArray(order.deliveryStatus, from)))
+            .returning();
+        return row ?? null;
+    },
+
     /** Отметить “в пути” */
     async markInTransit(id: string): Promise<Order | null> {
         const [row] = await db
@@ -0,0 +1,70 @@
+// src/storage/paymentMismatchesStorage.ts
+import { db } from '#db/db';
+import { and, desc, eq, isNotNull, isNull, sql } from 'drizzle-orm';
+import { paymentMismatch, type PaymentMismatch, type NewPaymentMismatch } from '#db/schema/payments';
+
+export type MismatchKind = 'missed_webhook' | 'paid_order_not_paid' | 'amount_mismatch' | 'status_regression';
+
+export const paymentMismatchesStorage = {
+    /**
+     * Зафиксировать расхождение. Открытое расхождение того же вида по платежу
+     * не дублируется — обновляются статусы и last_seen_at.
+     */
+    async record(input: NewPaymentMismatch & { kind: MismatchKind }): Promise<PaymentMismatch> {
+        const now = new Date();
+        const [row] = await db
+            .insert(paymentMismatch)
+            .values({ ...input, detectedAt: now, lastSeenAt: now })
+            .onConflictDoUpdate({
+                target: [paymentMismatch.paymentId, paymentMismatch.kind],
+                targetWhere: sql`${paymentMismatch.resolvedAt} IS NULL`,
+                set: {
+                    localStatus: input.localStatus ?? null,
+                    providerStatus: input.providerStatus ?? null,
+                    orderStatus: input.orderStatus ?? null,
+                    details: input.details ?? null,
+                    repaired: input.repaired ?? false,
+                    lastSeenAt: now,
+                },
+            })
+            .returning();
+        return row!;
+    },
+
+    async getById(id: string): Promise<PaymentMismatch | null> {
+        const [row] = await db.select().from(paymentMismatch).where(eq(paymentMismatch.id, id)).limit(1);
+        return row ?? null;
+    },
+
+    list(params: {
+        open?: boolean;
+        kind?: MismatchKind;
+        limit?: number;
+        offset?: number;
+    } = {}): Promise<PaymentMismatch[]> {
+        const conds = [];
+        if (params.open === true) conds.push(isNull(paymentMismatch.resolvedAt));
+        if (params.open === false) conds.push(isNotNull(paymentMismatch.resolvedAt));
+        if (params.kind) conds.push(eq(paymentMismatch.kind, params.kind));
+
+        let qb = db
+            .select()
+            .from(paymentMismatch)
+            .orderBy(desc(paymentMismatch.lastSeenAt))
+            .limit(params.limit ?? 50)
+            .offset(params.offset ?? 0)
+            .$dynamic();
+        if (conds.length) qb = qb.where(and(...conds));
+        return qb;
+    },
+
+    /** Закрыть расхождение (повторное закрытие ничего не меняет) */
+    async resolve(id: string, resolvedBy: string | null, resolution: string): Promise<PaymentMismatch | null> {
+        const [row] = await db
+            .update(paymentMismatch)
+            .set({ resolvedAt: new Date(), resolvedBy, resolution })
+            .where(and(eq(paymentMismatch.id, id), isNull(paymentMismatch.resolvedAt)))
+            .returning();
+        return row ?? null;
+    },
+};
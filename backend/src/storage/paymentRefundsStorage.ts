@@ -0,0 +1,79 @@
+// src/storage/paymentRefundsStorage.ts
+import { db } from '#db/db';
+import { and, desc, eq, sql } from 'drizzle-orm';
+import { paymentRefund, type PaymentRefund, type NewPaymentRefund } from '#db/schema/payments';
+
+export type RefundStatus = 'pending' | 'succeeded' | 'failed';
+
+export const paymentRefundsStorage = {
+    /**
+     * Создать заявку на возврат. Повтор с тем же idempotency_key возвращает существующую (created = false).
+     */
+    async create(input: NewPaymentRefund): Promise<{ refund: PaymentRefund; created: boolean }> {
+        const [row] = await db.insert(paymentRefund).values(input).onConflictDoNothing().returning();
+        if (row) return { refund: row, created: true };
+
+        const existing = await this.getByIdempotencyKey(input.idempotencyKey);
+        if (!existing) throw new Error('Failed to create payment refund');
+        return { refund: existing, created: false };
+    },
+
+    async getById(id: string): Promise<PaymentRefund | null> {
+        const [row] = await db.select().from(paymentRefund).where(eq(paymentRefund.id, id)).limit(1);
+        return row ?? null;
+    },
+
+    async getByIdempotencyKey(key: string): Promise<PaymentRefund | null> {
+        const [row] = await db
+            .select()
+            .from(paymentRefund)
+            .where(eq(paymentRefund.idempotencyKey, key))
+            .limit(1);
+        return row ?? null;
+    },
+
+    listByPayment(paymentId: string): Promise<PaymentRefund[]> {
+        return db
+            .select()
+            .from(paymentRefund)
+            .where(eq(paymentRefund.paymentId, paymentId))
+            .orderBy(desc(paymentRefund.createdAt));
+    },
+
+    /** Возвращено (и ожидает возврата) по платежу — для лимита суммы */
+    async sumActiveForPayment(paymentId: string): Promise<number> {
+        const [row] = await db
+            .select({ total: sql<string>`COALESCE(SUM(${paymentRefund.amountRub}), 0)` })
+            .from(paymentRefund)
+            .where(and(eq(paymentRefund.paymentId, paymentId), sql`${paymentRefund.status} <> 'failed'`));
+        return Number(row?.total ?? 0);
+    },
+
+    /** Завершить заявку (только из 'pending') */
+    async finish(
+        id: string,
+        patch: {
+            status: Exclude<RefundStatus, 'pending'>;
+            providerStatus?: string | null;
+            errorCode?: string | null;
+            errorMessage?: string | null;
+        }
+    ): Promise<PaymentRefund | null> {
+        const [row] = await db
+            .update(paymentRefund)
+            .set({
+                status: patch.status,
+                providerStatus: patch.providerStatus ?? null,
+                errorCode: patch.errorCode ?? null,
+                errorMessage: patch.errorMessage ?? null,
+                completedAt: new Date(),
+            })
+            .where(and(eq(paymentRefund.id, id), eq(paymentRefund.status, 'pending')))
+            .returning();
+        return row ?? null;
+    },
+
+    async setReturn(id: string, returnId: string): Promise<void> {
+        await db.update(paymentRefund).set({ returnId }).where(eq(paymentRefund.id, id));
+    },
+};
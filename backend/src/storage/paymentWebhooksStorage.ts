@@ -0,0 +1,83 @@
+// src/storage/paymentWebhooksStorage.ts
+import { db } from '#db/db';
+import { and, desc, eq, inArray } from 'drizzle-orm';
+import { paymentWebhook, type PaymentWebhook, type NewPaymentWebhook } from '#db/schema/payments';
+
+export type WebhookOutcome = 'received' | 'processed' | 'duplicate' | 'stale' | 'rejected' | 'failed';
+
+export const paymentWebhooksStorage = {
+    /**
+     * Сохранить уведомление. Если уведомление с тем же dedup_key уже принято —
+     * строка сохраняется без ключа с outcome 'duplicate' (duplicate = true).
+     */
+    async record(input: NewPaymentWebhook): Promise<{ webhook: PaymentWebhook; duplicate: boolean }> {
+        if (input.dedupKey) {
+            const [row] = await db.insert(paymentWebhook).values(input).onConflictDoNothing().returning();
+            if (row) return { webhook: row, duplicate: false };
+        }
+
+        const duplicate = !!input.dedupKey;
+        const [row] = await db
+            .insert(paymentWebhook)
+            .values({
+                ...input,
+                dedupKey: null,
+                ...(duplicate ? { outcome: 'duplicate' as const, processedAt: new Date() } : {}),
+            })
+            .returning();
+        return { webhook: row!, duplicate };
+    },
+
+    /**
+     * Итог обработки. При 'failed' ключ дедупликации снимается — ретрай провайдера обработается заново.
+     */
+    async finish(id: string, outcome: Exclude<WebhookOutcome, 'received' | 'duplicate'>, error?: string): Promise<void> {
+        await db
+            .update(paymentWebhook)
+            .set({
+                outcome,
+                error: error ?? null,
+                processedAt: new Date(),
+                ...(outcome === 'failed' ? { dedupKey: null } : {}),
+            })
+            .where(eq(paymentWebhook.id, id));
+    },
+
+    /** Последнее применённое уведомление по платежу (для защиты от регресса статуса) */
+    async getLastProcessed(provider: string, externalId: string): Promise<PaymentWebhook | null> {
+        const [row] = await db
+            .select()
+            .from(paymentWebhook)
+            .where(
+                and(
+                    eq(paymentWebhook.provider, provider),
+                    eq(paymentWebhook.externalId, externalId),
+                    eq(paymentWebhook.outcome, 'processed')
+                )
+            )
+            .orderBy(desc(paymentWebhook.receivedAt))
+            .limit(1);
+        return row ?? null;
+    },
+
+    list(params: {
+        externalIds?: string[];
+        outcome?: WebhookOutcome;
+        limit?: number;
+        offset?: number;
+    } = {}): Promise<PaymentWebhook[]> {
+        const conds = [];
+        if (params.externalIds) conds.push(inArray(paymentWebhook.externalId, params.externalIds));
+        if (params.outcome) conds.push(eq(paymentWebhook.outcome, params.outcome));
+
+        let qb = db
+            .select()
+            .from(paymentWebhook)
+            .orderBy(desc(paymentWebhook.receivedAt))
+            .limit(params.limit ?? 50)
+            .offset(params.offset ?? 0)
+            .$dynamic();
+        if (conds.length) qb = qb.where(and(...conds));
+        return qb;
+    },
+};
@@ -0,0 +1,223 @@
+// src/storage/productBundlesStorage.ts
+import { db } from '#db/db';
+import { and, asc, eq, inArray, sql } from 'drizzle-orm';
+import { productBundleItem } from '#db/schema/productBundles';
+import { product } from '#db/schema/products';
+import { productVariant } from '#db/schema/productVariants';
+import { orderItemComponent, type OrderItemComponent } from '#db/schema/orderItem';
+import { settlementSettingsRuntime } from '#config/settlementSettings';
+import { stockKey } from './stockReservationsStorage';
+
+/** db или транзакция — состав набора читается в транзакции корзины / резерва */
+type Executor = Pick<typeof db, 'select' | 'insert' | 'update' | 'delete'>;
+
+/** Компонент набора с текущими ценой, остатком и PV-настройками */
+export interface BundleComponent {
+    bundleId: string;
+    productId: string;
+    variantId: string | null;
+    /** Штук в одном наборе */
+    qty: number;
+    productName: string;
+    variantName: string | null;
+    sku: string | null;
+    /** Цена компонента по прайсу (варианта или товара) — вес при раскладке цены набора */
+    listPriceRub: number;
+    /** Остаток варианта или товара */
+    stock: number;
+    isPvEligible: boolean;
+    customPv: number | null;
+    /** Товар активен и вариант (если есть) не выключен */
+    isActive: boolean;
+}
+
+/** Компонент набора на витрине */
+export type PublicBundleItem = Pick<BundleComponent, 'productId' | 'variantId' | 'productName' | 'variantName' | 'qty'>;
+
+export const toPublicBundleItem = ({ productId, variantId, productName, variantName, qty }: BundleComponent): PublicBundleItem =>
+    ({ productId, variantId, productName, variantName, qty });
+
+export interface BundleItemInput {
+    productId: string;
+    variantId?: string | null | undefined;
+    qty: number;
+}
+
+/**
+ * Разложить цену одного набора по компонентам пропорционально прайсу (цена × штук),
+ * в копейках методом наибольшего остатка: сумма долей = цене набора.
+ * Компоненты без цены получают долю по количеству штук.
+ */
+export function allocateBundlePrice(priceRub: number, components: Array<{ qty: number; listPriceRub: number }>): number[] {
+    const total = Math.round(priceRub * 100);
+    const weights = components.map((c) => Math.round(c.listPriceRub * 100) * c.qty);
+    const useQty = weights.every((w) => w === 0);
+    const w = useQty ? components.map((c) => c.qty) : weights;
+    const sum = w.reduce((s, x) => s + x, 0);
+    if (sum === 0) return components.map(() => 0);
+
+    const shares = w.map((x) => (total * x) / sum);
+    const floors = shares.map(Math.floor);
+    let rest = total - floors.reduce((s, f) => s + f, 0);
+    const ranked = shares
+        .map((s, i) => ({ i, frac: s - floors[i]! }))
+        .sort((a, b) => b.frac - a.frac || a.i - b.i);
+    for (const { i } of ranked) {
+        if (rest <= 0) break;
+        floors[i]!++;
+        rest--;
+    }
+    return floors.map((k) => k / 100);
+}
+
+/**
+ * PV одного набора: customPv набора, иначе сумма PV компонентов по тем же правилам, что у товара —
+ * компонент вне PV-программы даёт 0, с customPv — customPv × штук, остальные — от своей доли цены.
+ */
+export function bundlePvEach(
+    bundle: { isPvEligible: boolean; customPv: number | null },
+    components: Array<Pick<BundleComponent, 'qty' | 'isPvEligible' | 'customPv'>>,
+    shares: number[]
+): number {
+    if (!bundle.isPvEligible) return 0;
+    if (bundle.customPv != null) return bundle.customPv;
+    return components.reduce((sum, c, i) => {
+        if (!c.isPvEligible) return sum;
+        if (c.customPv != null) return sum + c.customPv * c.qty;
+        return sum + Math.floor((shares[i] ?? 0) / settlementSettingsRuntime.pvRubPerPv);
+    }, 0);
+}
+
+/** Сколько наборов собирается из остатков; reserved — чужие резервы по stockKey */
+export function bundleStock(components: BundleComponent[], reserved: Map<string, number> = new Map()): number {
+    if (components.length === 0 || components.some((c) => !c.isActive)) return 0;
+    return Math.max(
+        Math.min(...components.map((c) => Math.floor((c.stock - (reserved.get(stockKey(c)) ?? 0)) / c.qty))),
+        0
+    );
+}
+
+export const productBundlesStorage = {
+    /** Состав наборов одним запросом */
+    async listComponents(bundleIds: string[], tx: Executor = db): Promise<Map<string, BundleComponent[]>> {
+        const map = new Map<string, BundleComponent[]>();
+        if (bundleIds.length === 0) return map;
+
+        const rows = await tx
+            .select({
+                bundleId: productBundleItem.bundleId,
+                productId: productBundleItem.productId,
+                variantId: productBundleItem.variantId,
+                qty: productBundleItem.qty,
+                productName: product.name,
+                variantName: productVariant.name,
+                sku: sql<string | null>`coalesce(${productVariant.sku}, ${product.sku})`,
+                listPrice: sql<string>`coalesce(${productVariant.price}, ${product.price})`,
+                stock: sql<number>`coalesce(${productVariant.stock}, ${product.stock})`,
+                isPvEligible: product.isPvEligible,
+                customPv: sql<number | null>`coalesce(${productVariant.customPv}, ${product.customPv})`,
+                isActive: sql<boolean>`${product.status} = 'active' AND coalesce(${productVariant.isActive}, true)`,
+            })
+            .from(productBundleItem)
+            .innerJoin(product, eq(product.id, productBundleItem.productId))
+            .leftJoin(productVariant, eq(productVariant.id, productBundleItem.variantId))
+            .where(inArray(productBundleItem.bundleId, bundleIds))
+            .orderBy(asc(productBundleItem.sortOrder), asc(productBundleItem.createdAt));
+
+        for (const r of rows) {
+            const list = map.get(r.bundleId) ?? [];
+            list.push({
+                ...r,
+                listPriceRub: Number(r.listPrice),
+                stock: Number(r.stock),
+                customPv: r.customPv == null ? null : Number(r.customPv),
+            });
+            map.set(r.bundleId, list);
+        }
+        return map;
+    },
+
+    /** Заменить состав; пустой состав — товар больше не набор */
+    async replace(bundleId: string, items: BundleItemInput[], tx: Executor = db): Promise<void> {
+        await tx.delete(productBundleItem).where(eq(productBundleItem.bundleId, bundleId));
+        if (items.length > 0) {
+            await tx.insert(productBundleItem).values(
+                items.map((it, i) => ({ bundleId, productId: it.productId, variantId: it.variantId ?? null, qty: it.qty, sortOrder: i }))
+            );
+        }
+        await tx.update(product).set({ isBundle: items.length > 0, updatedAt: new Date() }).where(eq(product.id, bundleId));
+    },
+
+    /** Товар входит в какой-нибудь набор (наборы из наборов не собираем) */
+    async isComponent(productId: string, tx: Executor = db): Promise<boolean> {
+        const [row] = await tx
+            .select({ id: productBundleItem.id })
+            .from(productBundleItem)
+            .where(eq(productBundleItem.productId, productId))
+            .limit(1);
+        return !!row;
+    },
+
+    /** Зафиксировать состав позиции-набора и раскладку цены одного набора */
+    async snapshot(orderItemId: string, components: BundleComponent[], unitPriceRub: number, tx: Executor = db): Promise<void> {
+        if (components.length === 0) return;
+        const shares = allocateBundlePrice(unitPriceRub, components);
+        await tx.insert(orderItemComponent).values(
+            components.map((c, i) => ({
+                orderItemId,
+                productId: c.productId,
+                variantId: c.variantId,
+                productName: c.productName,
+                variantName: c.variantName,
+                sku: c.sku,
+                qty: c.qty,
+                amountRub: shares[i]!.toFixed(2),
+            }))
+        );
+    },
+
+    /** Компоненты позиций заказа (только у наборов) */
+    async componentsByOrderItems(orderItemIds: string[], tx: Executor = db): Promise<Map<string, OrderItemComponent[]>> {
+        const map = new Map<string, OrderItemComponent[]>();
+        if (orderItemIds.length === 0) return map;
+        const rows = await tx
+            .select()
+            .from(orderItemComponent)
+            .where(inArray(orderItemComponent.orderItemId, orderItemIds))
+            .orderBy(asc(orderItemComponent.createdAt), asc(orderItemComponent.id));
+        for (const r of rows) map.set(r.orderItemId, [...(map.get(r.orderItemId) ?? []), r]);
+        return map;
+    },
+
+    /**
+     * Складские строки позиций заказа: набор раскрывается в компоненты (qty × штук в наборе),
+     * обычная позиция — как есть
+     */
+    async expandStockLines<T extends { id: string; productId: string; variantId: string | null; qty: number; name: string }>(
+        items: T[],
+        tx: Executor = db
+    ): Promise<Array<{ orderItemId: string; productId: string; variantId: string | null; qty: number; name: string }>> {
+        const components = await this.componentsByOrderItems(items.map((i) => i.id), tx);
+        return items.flatMap((it) => {
+            const comps = components.get(it.id);
+            if (!comps) return [{ orderItemId: it.id, productId: it.productId, variantId: it.variantId, qty: it.qty, name: it.name }];
+            return comps.map((c) => ({
+                orderItemId: it.id,
+                productId: c.productId,
+                variantId: c.variantId,
+                qty: it.qty * c.qty,
+                name: c.variantName ? `${c.productName} (${c.variantName})` : c.productName,
+            }));
+        });
+    },
+
+    /** Наборы среди товаров */
+    async bundleIds(productIds: string[], tx: Executor = db): Promise<Set<string>> {
+        if (productIds.length === 0) return new Set();
+        const rows = await tx
+            .select({ id: product.id })
+            .from(product)
+            .where(and(inArray(product.id, productIds), eq(product.isBundle, true)));
+        return new Set(rows.map((r) => r.id));
+    },
+};
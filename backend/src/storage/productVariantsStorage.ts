@@ -0,0 +1,125 @@
+// src/storage/productVariantsStorage.ts
+import { db } from '#db/db';
+import { and, asc, eq, inArray } from 'drizzle-orm';
+import { productVariant, type ProductVariant, type NewProductVariant } from '#db/schema/productVariants';
+import type { ProductImageItem } from '#db/schema/products';
+import { orderItem } from '#db/schema/orderItem';
+import { must, toPgMoney, normalizeCashbackPercent } from '../utils/storageHelpers';
+
+/** db или транзакция — проверки вариантов идут в транзакции корзины / резерва */
+type Executor = Pick<typeof db, 'select' | 'selectDistinct' | 'insert' | 'update'>;
+
+/** Поля варианта без остатка: остаток меняется только движениями журнала */
+export interface VariantInput {
+    name: string;
+    size?: string | null | undefined;
+    flavor?: string | null | undefined;
+    packCount?: number | null | undefined;
+    sku?: string | null | undefined;
+    price: number | string;
+    originalPrice?: number | string | null | undefined;
+    customPv?: number | null | undefined;
+    /** Доля 0..1 или проценты — хранится в процентах, как у товара */
+    customCashback?: number | null | undefined;
+    images?: ProductImageItem[] | undefined;
+    sortOrder?: number | undefined;
+    isActive?: boolean | undefined;
+}
+
+/** Частичное изменение; undefined — поле не трогать */
+export type VariantPatch = { [K in keyof VariantInput]?: VariantInput[K] | undefined };
+
+function toRow(input: VariantPatch): Partial<NewProductVariant> {
+    const { price, originalPrice, customCashback, ...rest } = input;
+    const row: Partial<NewProductVariant> = {};
+    for (const [k, v] of Object.entries(rest)) {
+        if (v !== undefined) (row as Record<string, unknown>)[k] = v;
+    }
+    if (price !== undefined) row.price = toPgMoney(price)!;
+    if (originalPrice !== undefined) row.originalPrice = toPgMoney(originalPrice) ?? null;
+    if (customCashback !== undefined) {
+        const pct = normalizeCashbackPercent(customCashback);
+        row.customCashback = pct == null ? null : String(pct);
+    }
+    return row;
+}
+
+export const productVariantsStorage = {
+    listByProduct(productId: string, opts: { activeOnly?: boolean } = {}): Promise<ProductVariant[]> {
+        return db
+            .select()
+            .from(productVariant)
+            .where(
+                and(
+                    eq(productVariant.productId, productId),
+                    opts.activeOnly ? eq(productVariant.isActive, true) : undefined
+                )
+            )
+            .orderBy(asc(productVariant.sortOrder), asc(productVariant.createdAt));
+    },
+
+    /** Варианты нескольких товаров одним запросом (витрина) */
+    async listByProducts(productIds: string[], opts: { activeOnly?: boolean } = {}): Promise<Map<string, ProductVariant[]>> {
+        const map = new Map<string, ProductVariant[]>();
+        if (productIds.length === 0) return map;
+        const rows = await db
+            .select()
+            .from(productVariant)
+            .where(
+                and(
+                    inArray(productVariant.productId, productIds),
+                    opts.activeOnly ? eq(productVariant.isActive, true) : undefined
+                )
+            )
+            .orderBy(asc(productVariant.sortOrder), asc(productVariant.createdAt));
+        for (const r of rows) {
+            const list = map.get(r.productId) ?? [];
+            list.push(r);
+            map.set(r.productId, list);
+        }
+        return map;
+    },
+
+    async getById(id: string, tx: Executor = db): Promise<ProductVariant | null> {
+        const [row] = await tx.select().from(productVariant).where(eq(productVariant.id, id)).limit(1);
+        return row ?? null;
+    },
+
+    /** Товары, у которых есть варианты (в т.ч. выключенные): такой товар продаётся только вариантом */
+    async productsWithVariants(productIds: string[], tx: Executor = db): Promise<Set<string>> {
+        if (productIds.length === 0) return new Set();
+        const rows = await tx
+            .selectDistinct({ productId: productVariant.productId })
+            .from(productVariant)
+            .where(inArray(productVariant.productId, productIds));
+        return new Set(rows.map((r) => r.productId));
+    },
+
+    async create(productId: string, input: VariantInput, tx: Executor = db): Promise<ProductVariant> {
+        const [row] = await tx
+            .insert(productVariant)
+            .values({ ...(toRow(input) as NewProductVariant), productId, stock: 0 })
+            .returning();
+        return must(row, 'Failed to create product variant');
+    },
+
+    async update(id: string, patch: VariantPatch): Promise<ProductVariant | null> {
+        const [row] = await db
+            .update(productVariant)
+            .set({ ...toRow(patch), updatedAt: new Date() })
+            .where(eq(productVariant.id, id))
+            .returning();
+        return row ?? null;
+    },
+
+    async delete(id: string): Promise<boolean> {
+        const rows = await db.delete(productVariant).where(eq(productVariant.id, id)).returning({ id: productVariant.id });
+        return rows.length > 0;
+    },
+
+    /** Вариант есть в заказах (order_item ссылается с RESTRICT) — удалить нельзя, только выключить */
+    async isOrdered(id: string): Promise<boolean> {
+        const [row] = await db.select({ id: orderItem.id }).from(orderItem).where(eq(orderItem.variantId, id)).limit(1);
+        return !!row;
+    },
+};
@@ -95,32 +95,51 @@ export type ListProductsParams = {
     maxPrice?: number;
     /** фильтр по категории */
     categoryId?: string;
-    orderBy?: 'createdAt' | 'price' | 'name';
+    manufacturer?: string;
+    /** relevance — по рангу поиска (по умолчанию, если задан q) */
+    orderBy?: 'createdAt' | 'price' | 'name' | 'relevance';
     orderDir?: 'asc' | 'desc';
     limit?: number;
     offset?: number;
 };
 
+// ─────────────────────────── полнотекстовый поиск ───────────────────────────
+
+/** Сгенерированная колонка из миграции 0021 (в схеме Drizzle не описана) */
+const searchVector = sql`${productTable}."search_vector"`;
+
+/** Экранирование % и _ для LIKE */
+const likeEscape = (v: string) => v.replace(/[\\%_]/g, '\\$&');
+
+/** websearch-синтаксис: «витамин -детский», "омега 3"; морфология — русский словарь */
+const searchQuery = (q: string) => sql`websearch_to_tsquery('russian', ${q})`;
+
+/**
+ * Совпадение по поиску: полнотекстовое (имя, SKU, производитель, описания, состав),
+ * с опечатками — по схожести слов с названием (pg_trgm, порог word_similarity_threshold = 0.6),
+ * и префикс артикула
+ */
+export function productSearchWhere(q: string) {
+    const term = q.trim();
+    return or(
+        sql`${searchVector} @@ ${searchQuery(term)}`,
+        sql`${term} <% ${productTable.name}`,
+        ilike(productTable.sku, `${likeEscape(term)}%`),
+    )!;
+}
+
+/** Ранг: вес полей из tsvector + схожесть с названием, чтобы опечатки не уходили в конец */
+export function productSearchRank(q: string) {
+    const term = q.trim();
+    return sql<number>`(ts_rank_cd(${searchVector}, ${searchQuery(term)}) + word_similarity(${term}, ${productTable.name}))`;
+}
+
 // ─────────────────────────── фильтры/сортировки ───────────────────────────
 
 function buildWhere(p: ListProductsParams) {
     const conds: any[] = [];
 
-    if (p.q && p.q.trim()) {
-        const term = `%${p.q.trim()}%`;
-        conds.push(
-            or(
-                ilike(productTable.name, term),
-                ilike(productTable.slug, term),
-                ilike(productTable.description, term),
-                ilike(productTable.longDescription, term),
-                ilike(productTable.manufacturer, term),
-                ilike(productTable.usage, term),
-                ilike(productTable.additionalInfo, term),
-                ilike(productTable.sku, term),
-            ),
-        );
-    }
+    if (p.q && p.q.trim()) conds.push(productSearchWhere(p.q));
 
     if (typeof p.inStock === 'boolean') {
         conds.push(p.inStock ? gt(productTable.stock, 0) : eq(productTable.stock, 0));
@@ -133,19 +152,45 @@ function buildWhere(p: ListProductsParams) {
     if (typeof p.maxPrice === 'number') conds.push(lte(productTable.price, String(p.maxPrice)));
 
     if (p.categoryId) conds.push(eq(productTable.categoryId, p.categoryId));
+    if (p.manufacturer) conds.push(eq(productTable.manufacturer, p.manufacturer));
 
     return conds.length ? and(...conds) : undefined;
 }
 
 function buildOrder(p: ListProductsParams) {
     const dir = (p.orderDir ?? 'desc') === 'asc' ? asc : desc;
-    switch (p.orderBy) {
+    const q = p.q?.trim();
+    switch (p.orderBy ?? (q ? 'relevance' : 'createdAt')) {
         case 'price': return [dir(productTable.price)];
         case 'name':  return [dir(productTable.name)];
+        case 'relevance':
+            return q ? [desc(productSearchRank(q)), desc(productTable.createdAt)] : [desc(productTable.createdAt)];
         default:      return [dir(productTable.createdAt)];
     }
 }
 
+/** Ценовые диапазоны фасета, ₽: [от, до) — последний без верхней границы */
+export const PRICE_BANDS = [
+    { key: '0-1000', min: 0, max: 1000 },
+    { key: '1000-2000', min: 1000, max: 2000 },
+    { key: '2000-5000', min: 2000, max: 5000 },
+    { key: '5000+', min: 5000, max: null },
+] as const;
+
+export type ProductFacets = {
+    categories: Array<{ id: string; slug: string; name: string; count: number }>;
+    priceBands: Array<{ key: string; min: number; max: number | null; count: number }>;
+    manufacturers: Array<{ value: string; count: number }>;
+    stock: { inStock: number; outOfStock: number };
+};
+
+/** Параметры без фильтра своего фасета: счётчики показывают, что будет при переключении значения */
+function withoutFilters(p: ListProductsParams, keys: Array<keyof ListProductsParams>): ListProductsParams {
+    const rest: ListProductsParams = { ...p };
+    for (const k of keys) delete rest[k];
+    return rest;
+}
+
 // ─────────────────────────── инварианты ───────────────────────────
 
 function assertCreateInvariants(input: CreateProductInput) {
@@ -361,6 +406,97 @@ export const productStorage = {
             .offset(offset);
     },
 
+    /** Сколько товаров под фильтрами (без пагинации) */
+    async count(params: ListProductsParams = {}): Promise<number> {
+        const [row] = await db
+            .select({ count: sql<number>`count(*)::int` })
+            .from(productTable)
+            .where(buildWhere(params) ?? sql`true`);
+        return Number(row?.count ?? 0);
+    },
+
+    /** Счётчики фасетов: категория, ценовой диапазон, производитель, наличие */
+    async facets(params: ListProductsParams = {}): Promise<ProductFacets> {
+        const whereOf = (keys: Array<keyof ListProductsParams>) => buildWhere(withoutFilters(params, keys)) ?? sql`true`;
+        // Границы — константы, вставляются литералами: с параметрами CASE в SELECT и GROUP BY не совпадёт
+        const bandCase = sql.join(
+            PRICE_BANDS.map((b) =>
+                b.max == null
+                    ? sql`WHEN ${productTable.price} >= ${sql.raw(String(b.min))} THEN ${sql.raw(`'${b.key}'`)}`
+                    : sql`WHEN ${productTable.price} >= ${sql.raw(String(b.min))} AND ${productTable.price} < ${sql.raw(String(b.max))} THEN ${sql.raw(`'${b.key}'`)}`
+            ),
+            sql` `
+        );
+        const band = sql<string>`CASE ${bandCase} END`;
+
+        const [categories, bands, manufacturers, [stock]] = await Promise.all([
+            db
+                .select({ id: category.id, slug: category.slug, name: category.name, count: sql<number>`count(*)::int` })
+                .from(productTable)
+                .innerJoin(category, eq(productTable.categoryId, category.id))
+                .where(whereOf(['categoryId']))
+                .groupBy(category.id, category.slug, category.name)
+                .orderBy(desc(sql`count(*)`), asc(category.name)),
+            db
+                .select({ key: band, count: sql<number>`count(*)::int` })
+                .from(productTable)
+                .where(whereOf(['minPrice', 'maxPrice']))
+                .groupBy(band),
+            db
+                .select({ value: sql<string>`${productTable.manufacturer}`, count: sql<number>`count(*)::int` })
+                .from(productTable)
+                .where(and(whereOf(['manufacturer']), sql`${productTable.manufacturer} IS NOT NULL`))
+                .groupBy(productTable.manufacturer)
+                .orderBy(desc(sql`count(*)`), asc(productTable.manufacturer))
+                .limit(50),
+            db
+                .select({
+                    inStock: sql<number>`count(*) FILTER (WHERE ${productTable.stock} > 0)::int`,
+                    outOfStock: sql<number>`count(*) FILTER (WHERE ${productTable.stock} = 0)::int`,
+                })
+                .from(productTable)
+                .where(whereOf(['inStock'])),
+        ]);
+
+        const bandCounts = new Map(bands.map((b) => [b.key, Number(b.count)]));
+        return {
+            categories: categories.map((c) => ({ ...c, count: Number(c.count) })),
+            priceBands: PRICE_BANDS.map((b) => ({ key: b.key, min: b.min, max: b.max, count: bandCounts.get(b.key) ?? 0 })),
+            manufacturers: manufacturers.map((m) => ({ value: m.value, count: Number(m.count) })),
+            stock: { inStock: Number(stock?.inStock ?? 0), outOfStock: Number(stock?.outOfStock ?? 0) },
+        };
+    },
+
+    /** Подсказки поиска витрины: активные товары по рангу и категории по названию */
+    async suggest(q: string, limit = 6): Promise<{
+        products: Array<{ id: string; slug: string; name: string; price: string; images: ProductRow['images'] }>;
+        categories: Array<{ id: string; slug: string; name: string }>;
+    }> {
+        const term = q.trim();
+        const visible = and(eq(productTable.status, 'active'), eq(productTable.uiStatus, 'active'));
+        const [products, categories] = await Promise.all([
+            db
+                .select({
+                    id: productTable.id,
+                    slug: productTable.slug,
+                    name: productTable.name,
+                    price: productTable.price,
+                    images: productTable.images,
+                })
+                .from(productTable)
+                .where(and(visible, productSearchWhere(term)))
+                .orderBy(desc(productSearchRank(term)), asc(productTable.name))
+                .limit(limit),
+            db
+                .select({ id: category.id, slug: category.slug, name: category.name })
+                .from(category)
+                .where(and(eq(category.status, 'active'), or(ilike(category.name, `%${likeEscape(term)}%`), sql`${term} <% ${category.name}`)))
+                .orderBy(desc(sql`word_similarity(${term}, ${category.name})`))
+                .limit(3),
+        ]);
+        return { products, categories };
+    },
+
     /**
      * Список + названия категорий (для обратной совместимости оставляем plural-API).
      * Теперь у продукта максимум одно имя категории → массив длиной 0 или 1.
@@ -419,33 +555,4 @@ export const productStorage = {
 
         return product;
     },
-
-    /**
-     * ✅ Зарезервировать товар (уменьшить stock)
-     * Используется при добавлении товара в корзину
-     * ВАЖНО: вызывать только внутри транзакции после checkStockWithLock
-     */
-    async reserveStock(productId: string, qty: number, tx = db): Promise<void> {
-        await tx
-            .update(productTable)
-            .set({
-                stock: sql`${productTable.stock} - ${qty}`,
-                updatedAt: new Date(),
-            })
-            .where(eq(productTable.id, productId));
-    },
-
-    /**
-     * ✅ Освободить резерв товара (увеличить stock)
-     * Используется при удалении товара из корзины или отмене заказа
-     */
-    async releaseStock(productId: string, qty: number, tx = db): Promise<void> {
-        await tx
-            .update(productTable)
-            .set({
-                stock: sql`${productTable.stock} + ${qty}`,
-                updatedAt: new Date(),
-            })
-            .where(eq(productTable.id, productId));
-    },
 };
@@ -0,0 +1,146 @@
+// src/storage/recommendationsStorage.ts
+import { db } from '#db/db';
+import { and, desc, eq, gt, gte, inArray, notInArray, or, sql } from 'drizzle-orm';
+import { productAffinity, userRecommendation } from '#db/schema/recommendations';
+import { product } from '#db/schema/products';
+import { order } from '#db/schema/orders';
+import { orderItem } from '#db/schema/orderItem';
+
+export interface RankedProduct {
+    productId: string;
+    score: number;
+}
+
+export interface RebuildResult {
+    pairs: number;
+    users: number;
+}
+
+/** Что можно показать на витрине: активный товар в наличии (набор — по компонентам, см. attachBundles) */
+const showable = and(eq(product.status, 'active'), or(gt(product.stock, 0), eq(product.isBundle, true)));
+
+// Совместные покупки и персональные подборки (таблицы пересобирает recommendationService.refresh)
+export const recommendationsStorage = {
+    /**
+     * Пересобрать product_affinity и user_recommendation по доставленным заказам с since.
+     * Позиции заказа сводятся к товару (варианты — один товар), пары — в обе стороны.
+     */
+    async rebuild(opts: { since: Date; minCoOrders: number; perUser: number; now: Date }): Promise<RebuildResult> {
+        return db.transaction(async (tx) => {
+            await tx.delete(productAffinity);
+            await tx.delete(userRecommendation);
+
+            const pairs = await tx.execute(sql`
+                WITH lines AS (
+                    SELECT DISTINCT oi.order_id, oi.product_id
+                    FROM order_item oi
+                    JOIN "order" o ON o.id = oi.order_id
+                    WHERE o.status = 'delivered' AND o.delivered_at >= ${opts.since}
+                ),
+                counts AS (
+                    SELECT product_id, COUNT(*) AS n FROM lines GROUP BY product_id
+                ),
+                pairs AS (
+                    SELECT a.product_id, b.product_id AS related_product_id, COUNT(*) AS co
+                    FROM lines a
+                    JOIN lines b ON b.order_id = a.order_id AND b.product_id <> a.product_id
+                    GROUP BY a.product_id, b.product_id
+                    HAVING COUNT(*) >= ${opts.minCoOrders}
+                )
+                INSERT INTO product_affinity (product_id, related_product_id, co_orders, score, computed_at)
+                SELECT p.product_id, p.related_product_id, p.co, p.co / sqrt(ca.n * cb.n), ${opts.now}
+                FROM pairs p
+                JOIN counts ca ON ca.product_id = p.product_id
+                JOIN counts cb ON cb.product_id = p.related_product_id
+            `);
+
+            // Персонально: сумма близости к купленному, без уже купленного
+            const users = await tx.execute(sql`
+                WITH bought AS (
+                    SELECT DISTINCT o.user_id, oi.product_id
+                    FROM order_item oi
+                    JOIN "order" o ON o.id = oi.order_id
+                    WHERE o.status = 'delivered' AND o.delivered_at >= ${opts.since}
+                ),
+                ranked AS (
+                    SELECT b.user_id, pa.related_product_id AS product_id, SUM(pa.score) AS score,
+                           ROW_NUMBER() OVER (PARTITION BY b.user_id ORDER BY SUM(pa.score) DESC, pa.related_product_id) AS position
+                    FROM bought b
+                    JOIN product_affinity pa ON pa.product_id = b.product_id
+                    WHERE NOT EXISTS (
+                        SELECT 1 FROM bought x WHERE x.user_id = b.user_id AND x.product_id = pa.related_product_id
+                    )
+                    GROUP BY b.user_id, pa.related_product_id
+                )
+                INSERT INTO user_recommendation (user_id, product_id, score, position, computed_at)
+                SELECT user_id, product_id, score, position, ${opts.now}
+                FROM ranked
+                WHERE position <= ${opts.perUser}
+            `);
+
+            return { pairs: pairs.rowCount ?? 0, users: users.rowCount ?? 0 };
+        });
+    },
+
+    /** «С этим товаром покупают» */
+    async related(productId: string, limit: number): Promise<RankedProduct[]> {
+        return db
+            .select({ productId: productAffinity.relatedProductId, score: productAffinity.score })
+            .from(productAffinity)
+            .innerJoin(product, eq(product.id, productAffinity.relatedProductId))
+            .where(and(eq(productAffinity.productId, productId), showable))
+            .orderBy(desc(productAffinity.score), desc(productAffinity.coOrders))
+            .limit(limit);
+    },
+
+    /** Допродажа к корзине: близость суммируется по всем товарам корзины, сами они исключаются */
+    async relatedToMany(productIds: string[], limit: number): Promise<RankedProduct[]> {
+        if (productIds.length === 0) return [];
+        const score = sql<number>`sum(${productAffinity.score})`.mapWith(Number);
+        return db
+            .select({ productId: productAffinity.relatedProductId, score })
+            .from(productAffinity)
+            .innerJoin(product, eq(product.id, productAffinity.relatedProductId))
+            .where(
+                and(
+                    inArray(productAffinity.productId, productIds),
+                    notInArray(productAffinity.relatedProductId, productIds),
+                    showable
+                )
+            )
+            .groupBy(productAffinity.relatedProductId)
+            .orderBy(desc(score), productAffinity.relatedProductId)
+            .limit(limit);
+    },
+
+    async forUser(userId: string, limit: number): Promise<RankedProduct[]> {
+        return db
+            .select({ productId: userRecommendation.productId, score: userRecommendation.score })
+            .from(userRecommendation)
+            .innerJoin(product, eq(product.id, userRecommendation.productId))
+            .where(and(eq(userRecommendation.userId, userId), showable))
+            .orderBy(userRecommendation.position)
+            .limit(limit);
+    },
+
+    /** Хиты: больше всего доставленных заказов с since (подборка гостю и добор персональной) */
+    async popular(since: Date, limit: number, excludeIds: string[] = []): Promise<RankedProduct[]> {
+        const orders = sql<number>`count(distinct ${orderItem.orderId})`.mapWith(Number);
+        return db
+            .select({ productId: orderItem.productId, score: orders })
+            .from(orderItem)
+            .innerJoin(order, eq(order.id, orderItem.orderId))
+            .innerJoin(product, eq(product.id, orderItem.productId))
+            .where(
+                and(
+                    eq(order.status, 'delivered'),
+                    gte(order.deliveredAt, since),
+                    excludeIds.length > 0 ? notInArray(orderItem.productId, excludeIds) : undefined,
+                    showable
+                )
+            )
+            .groupBy(orderItem.productId)
+            .orderBy(desc(orders), orderItem.productId)
+            .limit(limit);
+    },
+};
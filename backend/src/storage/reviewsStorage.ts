@@ -6,6 +6,7 @@ import {
     desc,
     eq,
     gte,
+    inArray,
     lte,
     sql,
 } from 'drizzle-orm';
@@ -15,7 +16,11 @@ import { db } from '#db/db';
 import {
     productReview,
     productReviewImage,
+    productReviewVote,
 } from '#db/schema/reviews';
+import { product, type RatingDistribution } from '#db/schema/products';
+import { order } from '#db/schema/orders';
+import { orderItem } from '#db/schema/orderItem';
 
 import type {
     ProductReview,
@@ -42,7 +47,13 @@ export interface ListReviewsParams {
     to?: Date;
     limit?: number;
     offset?: number;
-    order?: 'newest' | 'oldest' | 'rating_desc' | 'rating_asc';
+    order?: 'newest' | 'oldest' | 'rating_desc' | 'rating_asc' | 'helpful';
+}
+
+export interface ProductRating {
+    average: number;
+    total: number;
+    distribution: RatingDistribution;
 }
 
 /* ======================== Storage ======================== */
@@ -170,64 +181,190 @@ export const reviewsStorage = {
 
         let orderBy;
         switch (order) {
-            case 'oldest': orderBy = asc(productReview.createdAt); break;
-            case 'rating_desc': orderBy = desc(productReview.rating); break;
-            case 'rating_asc': orderBy = asc(productReview.rating); break;
-            default: orderBy = desc(productReview.createdAt);
+            case 'oldest': orderBy = [asc(productReview.createdAt)]; break;
+            case 'rating_desc': orderBy = [desc(productReview.rating)]; break;
+            case 'rating_asc': orderBy = [asc(productReview.rating)]; break;
+            // при равных голосах — свежие выше
+            case 'helpful': orderBy = [desc(productReview.helpfulCount), desc(productReview.createdAt)]; break;
+            default: orderBy = [desc(productReview.createdAt)];
         }
 
         return db
             .select()
             .from(productReview)
             .where(where.length ? (and as any)(...where) : undefined)
-            .orderBy(orderBy)
+            .orderBy(...orderBy)
             .limit(limit)
             .offset(offset);
     },
 
     /* ─────────────── PRODUCT STATS ─────────────── */
-    /* ─────────────── PRODUCT STATS ─────────────── */
-    async getProductStats(productId: string, onlyStatus?: ReviewStatus) {
-        const rows = await db.execute(sql/*sql*/`
-            SELECT COALESCE(AVG(rating)::numeric (10, 2), 0) AS avg_rating,
-                   COUNT(*)                                  AS total,
-                   COUNT(*)                                     FILTER (WHERE rating = 5) AS r5, COUNT(*) FILTER (WHERE rating = 4) AS r4, COUNT(*) FILTER (WHERE rating = 3) AS r3, COUNT(*) FILTER (WHERE rating = 2) AS r2, COUNT(*) FILTER (WHERE rating = 1) AS r1
-            FROM "product_review"
-            WHERE product_id = ${productId} ${onlyStatus ? sql`AND status =
-            ${onlyStatus}` : sql``}
-        `) as unknown as Array<{
-            avg_rating: string;
-            total: string;
-            r5: string;
-            r4: string;
-            r3: string;
-            r2: string;
-            r1: string;
-        }>;
-
-        const r = rows[0] ?? {
-            avg_rating: '0',
-            total: '0',
-            r5: '0',
-            r4: '0',
-            r3: '0',
-            r2: '0',
-            r1: '0',
-        };
+    async getProductStats(productId: string, onlyStatus?: ReviewStatus): Promise<ProductRating> {
+        const byRating = (n: number) =>
+            sql<number>`count(*) filter (where ${productReview.rating} = ${n})`.mapWith(Number);
+
+        const [r] = await db
+            .select({
+                average: sql<number>`coalesce(round(avg(${productReview.rating})::numeric, 2), 0)`.mapWith(Number),
+                total: sql<number>`count(*)`.mapWith(Number),
+                r1: byRating(1),
+                r2: byRating(2),
+                r3: byRating(3),
+                r4: byRating(4),
+                r5: byRating(5),
+            })
+            .from(productReview)
+            .where(
+                and(
+                    eq(productReview.productId, productId),
+                    onlyStatus ? eq(productReview.status, onlyStatus) : undefined
+                )
+            );
 
         return {
-            average: Number(r.avg_rating),
-            total: Number(r.total),
+            average: r?.average ?? 0,
+            total: r?.total ?? 0,
             distribution: {
-                5: Number(r.r5),
-                4: Number(r.r4),
-                3: Number(r.r3),
-                2: Number(r.r2),
-                1: Number(r.r1),
+                1: r?.r1 ?? 0,
+                2: r?.r2 ?? 0,
+                3: r?.r3 ?? 0,
+                4: r?.r4 ?? 0,
+                5: r?.r5 ?? 0,
             },
         };
     },
 
+    /** Пересчитать сводку product.rating / review_count / rating_distribution по опубликованным отзывам */
+    async refreshProductRating(productId: string): Promise<ProductRating> {
+        const stats = await this.getProductStats(productId, 'published');
+        await db
+            .update(product)
+            .set({
+                rating: stats.average.toFixed(2),
+                reviewCount: stats.total,
+                ratingDistribution: stats.distribution,
+                updatedAt: new Date(),
+            })
+            .where(eq(product.id, productId));
+        return stats;
+    },
+
+    /** Сводка, сохранённая на товаре (то, что отдаёт витрина) */
+    async getProductRating(productId: string): Promise<ProductRating | null> {
+        const [row] = await db
+            .select({
+                rating: product.rating,
+                reviewCount: product.reviewCount,
+                ratingDistribution: product.ratingDistribution,
+            })
+            .from(product)
+            .where(eq(product.id, productId))
+            .limit(1);
+
+        return row
+            ? { average: Number(row.rating), total: row.reviewCount, distribution: row.ratingDistribution }
+            : null;
+    },
+
+    /* ─────────────── VERIFIED PURCHASE ─────────────── */
+    /** Автор получил товар хотя бы в одном заказе (delivery_status, а не order.status) */
+    async hasDeliveredPurchase(userId: string, productId: string): Promise<boolean> {
+        const [row] = await db
+            .select({ id: order.id })
+            .from(order)
+            .innerJoin(orderItem, eq(orderItem.orderId, order.id))
+            .where(
+                and(
+                    eq(order.userId, userId),
+                    eq(orderItem.productId, productId),
+                    eq(order.deliveryStatus, 'delivered')
+                )
+            )
+            .limit(1);
+
+        return !!row;
+    },
+
+    /** Отметить проверенными отзывы покупателя на товары доставленного заказа */
+    async markVerifiedForOrder(orderId: string): Promise<number> {
+        const res = await db.execute(sql/*sql*/`
+            UPDATE product_review r
+            SET verified_purchase = true, updated_at = now()
+            FROM "order" o
+            JOIN order_item oi ON oi.order_id = o.id
+            WHERE o.id = ${orderId}
+              AND o.delivery_status = 'delivered'
+              AND r.user_id = o.user_id
+              AND r.product_id = oi.product_id
+              AND r.verified_purchase = false
+        `);
+
+        return res.rowCount ?? 0;
+    },
+
+    /* ─────────────── HELPFUL VOTES ─────────────── */
+    async addVote(reviewId: string, userId: string): Promise<{ added: boolean; helpfulCount: number }> {
+        return db.transaction(async (tx) => {
+            const inserted = await tx
+                .insert(productReviewVote)
+                .values({ reviewId, userId })
+                .onConflictDoNothing()
+                .returning({ reviewId: productReviewVote.reviewId });
+
+            const [row] = await tx
+                .update(productReview)
+                .set({ helpfulCount: sql`${productReview.helpfulCount} + ${inserted.length}` })
+                .where(eq(productReview.id, reviewId))
+                .returning({ helpfulCount: productReview.helpfulCount });
+
+            return { added: inserted.length > 0, helpfulCount: row?.helpfulCount ?? 0 };
+        });
+    },
+
+    async removeVote(reviewId: string, userId: string): Promise<{ removed: boolean; helpfulCount: number }> {
+        return db.transaction(async (tx) => {
+            const deleted = await tx
+                .delete(productReviewVote)
+                .where(and(eq(productReviewVote.reviewId, reviewId), eq(productReviewVote.userId, userId)))
+                .returning({ reviewId: productReviewVote.reviewId });
+
+            const [row] = await tx
+                .update(productReview)
+                .set({ helpfulCount: sql`greatest(${productReview.helpfulCount} - ${deleted.length}, 0)` })
+                .where(eq(productReview.id, reviewId))
+                .returning({ helpfulCount: productReview.helpfulCount });
+
+            return { removed: deleted.length > 0, helpfulCount: row?.helpfulCount ?? 0 };
+        });
+    },
+
+    /** За какие из reviewIds пользователь уже голосовал */
+    async listVotedReviewIds(userId: string, reviewIds: string[]): Promise<string[]> {
+        if (reviewIds.length === 0) return [];
+        const rows = await db
+            .select({ reviewId: productReviewVote.reviewId })
+            .from(productReviewVote)
+            .where(and(eq(productReviewVote.userId, userId), inArray(productReviewVote.reviewId, reviewIds)));
+
+        return rows.map((r) => r.reviewId);
+    },
+
+    /* ─────────────── MERCHANT REPLY ─────────────── */
+    async setReply(id: string, reply: { body: string; authorId: string } | null): Promise<Review | null> {
+        const [row] = await db
+            .update(productReview)
+            .set({
+                replyBody: reply?.body ?? null,
+                replyAuthorId: reply?.authorId ?? null,
+                repliedAt: reply ? new Date() : null,
+                updatedAt: new Date(),
+            })
+            .where(eq(productReview.id, id))
+            .returning();
+
+        return row ?? null;
+    },
+
     /* ─────────────── MODERATION ─────────────── */
     async publish(id: string): Promise<Review | null> {
         const [row] = await db
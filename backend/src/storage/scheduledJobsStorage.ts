@@ -0,0 +1,188 @@
+// src/storage/scheduledJobsStorage.ts
+import { db } from '#db/db';
+import { and, desc, eq, isNotNull, lte, sql } from 'drizzle-orm';
+import {
+    scheduledJob,
+    jobRun,
+    type ScheduledJob,
+    type JobRun,
+} from '#db/schema/scheduledJobs';
+
+/* ───────── helpers ───────── */
+function must<T>(row: T | undefined, msg = 'Row not found'): T {
+    if (row === undefined) throw new Error(msg);
+    return row;
+}
+
+/* ───────── types ───────── */
+export type JobRunTrigger = 'schedule' | 'manual';
+export type JobRunStatus = 'running' | 'succeeded' | 'failed' | 'skipped';
+
+export type JobDefinitionInput = {
+    name: string;
+    description?: string | null;
+    cronExpression: string;
+    maxRetries: number;
+    retryDelayMs: number;
+    lockTtlMs: number;
+    nextRunAt: Date;
+};
+
+/* ───────── storage ───────── */
+export const scheduledJobsStorage = {
+    /**
+     * Синхронизировать определение задачи из кода.
+     * Расписание/повторы берутся из кода; пауза и nextRunAt сохраняются,
+     * nextRunAt пересчитывается только если сменился cron.
+     */
+    async upsertDefinition(input: JobDefinitionInput): Promise<ScheduledJob> {
+        const [row] = await db
+            .insert(scheduledJob)
+            .values({
+                name: input.name,
+                description: input.description ?? null,
+                cronExpression: input.cronExpression,
+                maxRetries: input.maxRetries,
+                retryDelayMs: input.retryDelayMs,
+                lockTtlMs: input.lockTtlMs,
+                nextRunAt: input.nextRunAt,
+            })
+            .onConflictDoUpdate({
+                target: scheduledJob.name,
+                set: {
+                    description: input.description ?? null,
+                    maxRetries: input.maxRetries,
+                    retryDelayMs: input.retryDelayMs,
+                    lockTtlMs: input.lockTtlMs,
+                    nextRunAt: sql`CASE
+                        WHEN ${scheduledJob.cronExpression} IS DISTINCT FROM ${input.cronExpression}
+                          OR ${scheduledJob.nextRunAt} IS NULL
+                        THEN ${input.nextRunAt}::timestamptz
+                        ELSE ${scheduledJob.nextRunAt}
+                    END`,
+                    cronExpression: input.cronExpression,
+                    updatedAt: new Date(),
+                },
+            })
+            .returning();
+        return must(row);
+    },
+
+    async listJobs(): Promise<ScheduledJob[]> {
+        return db.select().from(scheduledJob).orderBy(scheduledJob.name);
+    },
+
+    async getJob(name: string): Promise<ScheduledJob | null> {
+        const [row] = await db.select().from(scheduledJob).where(eq(scheduledJob.name, name)).limit(1);
+        return row ?? null;
+    },
+
+    /** Задачи, которым пора запускаться (без паузы, nextRunAt <= now) */
+    async listDueJobs(now: Date = new Date()): Promise<ScheduledJob[]> {
+        return db
+            .select()
+            .from(scheduledJob)
+            .where(
+                and(
+                    eq(scheduledJob.isPaused, false),
+                    isNotNull(scheduledJob.nextRunAt),
+                    lte(scheduledJob.nextRunAt, now)
+                )
+            )
+            .orderBy(scheduledJob.nextRunAt);
+    },
+
+    async setPaused(name: string, isPaused: boolean, nextRunAt?: Date): Promise<ScheduledJob | null> {
+        const [row] = await db
+            .update(scheduledJob)
+            .set({
+                isPaused,
+                ...(nextRunAt ? { nextRunAt } : {}),
+                updatedAt: new Date(),
+            })
+            .where(eq(scheduledJob.name, name))
+            .returning();
+        return row ?? null;
+    },
+
+    /**
+     * Сдвинуть nextRunAt, только если он не изменился с момента чтения
+     * (защита от повторного запуска, если другой инстанс уже отработал слот)
+     * @returns true если слот «захвачен» этим вызовом
+     */
+    async advanceNextRun(name: string, expected: Date, nextRunAt: Date): Promise<boolean> {
+        const rows = await db
+            .update(scheduledJob)
+            .set({ nextRunAt, updatedAt: new Date() })
+            .where(and(eq(scheduledJob.name, name), eq(scheduledJob.nextRunAt, expected)))
+            .returning({ name: scheduledJob.name });
+        return rows.length > 0;
+    },
+
+    async markLastRun(name: string, status: Exclude<JobRunStatus, 'running'>, at: Date): Promise<void> {
+        await db
+            .update(scheduledJob)
+            .set({ lastRunAt: at, lastStatus: status, updatedAt: new Date() })
+            .where(eq(scheduledJob.name, name));
+    },
+
+    /* ───────── runs ───────── */
+
+    async createRun(input: {
+        jobName: string;
+        trigger: JobRunTrigger;
+        attempt?: number;
+        status?: JobRunStatus;
+        triggeredBy?: string | null;
+        result?: unknown;
+    }): Promise<JobRun> {
+        const [row] = await db
+            .insert(jobRun)
+            .values({
+                jobName: input.jobName,
+                trigger: input.trigger,
+                attempt: input.attempt ?? 1,
+                status: input.status ?? 'running',
+                triggeredBy: input.triggeredBy ?? null,
+                result: input.result ?? null,
+                ...(input.status && input.status !== 'running' ? { finishedAt: new Date(), durationMs: 0 } : {}),
+            })
+            .returning();
+        return must(row);
+    },
+
+    async finishRun(
+        id: string,
+        patch: { status: Exclude<JobRunStatus, 'running'>; durationMs: number; result?: unknown; error?: string | null }
+    ): Promise<JobRun> {
+        const [row] = await db
+            .update(jobRun)
+            .set({
+                status: patch.status,
+                finishedAt: new Date(),
+                durationMs: patch.durationMs,
+                result: patch.result ?? null,
+                error: patch.error ?? null,
+            })
+            .where(eq(jobRun.id, id))
+            .returning();
+        return must(row);
+    },
+
+    async listRuns(jobName: string, opts: { limit?: number; offset?: number } = {}): Promise<JobRun[]> {
+        return db
+            .select()
+            .from(jobRun)
+            .where(eq(jobRun.jobName, jobName))
+            .orderBy(desc(jobRun.startedAt))
+            .limit(opts.limit ?? 20)
+            .offset(opts.offset ?? 0);
+    },
+
+    async getRun(id: string): Promise<JobRun | null> {
+        const [row] = await db.select().from(jobRun).where(eq(jobRun.id, id)).limit(1);
+        return row ?? null;
+    },
+};
+
+export default scheduledJobsStorage;
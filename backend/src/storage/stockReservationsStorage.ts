@@ -0,0 +1,224 @@
+// src/storage/stockReservationsStorage.ts
+import { db } from '#db/db';
+import { and, asc, desc, eq, gt, ilike, inArray, lte, ne, or, sql } from 'drizzle-orm';
+import { stockReservation, type StockReservation } from '#db/schema/stockReservations';
+import { product } from '#db/schema/products';
+import { order } from '#db/schema/orders';
+import { productVariant } from '#db/schema/productVariants';
+import { inventoryMovementsStorage } from './inventoryMovementsStorage';
+
+/** db или транзакция — запросы резервов идут в транзакции оформления / оплаты / отмены */
+type Executor = Pick<typeof db, 'select' | 'insert' | 'update'>;
+
+export type ReleaseReason = 'canceled' | 'expired';
+
+/** Позиция склада: товар без вариантов (variantId null) или вариант товара */
+export interface StockItemRef {
+    productId: string;
+    variantId?: string | null | undefined;
+}
+
+/** Ключ позиции склада для Map: резервы и остатки считаются по товару + варианту */
+export const stockKey = (ref: StockItemRef) => `${ref.productId}:${ref.variantId ?? ''}`;
+
+const RELEASE_REASON_TEXT: Record<ReleaseReason, string> = {
+    canceled: 'Order canceled',
+    expired: 'Reservation expired',
+};
+
+export interface StockLevel {
+    productId: string;
+    name: string;
+    sku: string | null;
+    /** Остаток на складе (product.stock) */
+    onHand: number;
+    /** Под активными непросроченными резервами */
+    reserved: number;
+    /** Можно продать: onHand − reserved, не меньше 0 */
+    available: number;
+}
+
+/** Резерв держит товар, пока активен и не истёк; просроченный снимет задача payment-timeout */
+const holding = (at: Date) => and(eq(stockReservation.status, 'active'), gt(stockReservation.expiresAt, at));
+
+const reservedSum = sql<number>`coalesce(sum(${stockReservation.qty}), 0)::int`;
+
+export const stockReservationsStorage = {
+    /**
+     * Зарезервировано по позициям (ключ — stockKey);
+     * excludeOrderId — без резервов самого заказа (повторный резерв)
+     */
+    async reservedByItem(
+        items: StockItemRef[],
+        opts: { excludeOrderId?: string | undefined } = {},
+        tx: Executor = db
+    ): Promise<Map<string, number>> {
+        if (items.length === 0) return new Map();
+        const rows = await tx
+            .select({ productId: stockReservation.productId, variantId: stockReservation.variantId, reserved: reservedSum })
+            .from(stockReservation)
+            .where(
+                and(
+                    inArray(stockReservation.productId, [...new Set(items.map((i) => i.productId))]),
+                    holding(new Date()),
+                    opts.excludeOrderId ? ne(stockReservation.orderId, opts.excludeOrderId) : undefined
+                )
+            )
+            .groupBy(stockReservation.productId, stockReservation.variantId);
+        return new Map(rows.map((r) => [stockKey(r), Number(r.reserved)]));
+    },
+
+    listByOrder(orderId: string, tx: Executor = db): Promise<StockReservation[]> {
+        return tx.select().from(stockReservation).where(eq(stockReservation.orderId, orderId));
+    },
+
+    /** Резервы заказа с блокировкой строк — для перевода в продажу */
+    lockByOrder(orderId: string, tx: Executor): Promise<StockReservation[]> {
+        return tx.select().from(stockReservation).where(eq(stockReservation.orderId, orderId)).for('update');
+    },
+
+    /**
+     * Взять / продлить резервы заказа. Снятые резервы оживают с новым сроком,
+     * проданные (converted) не трогаются.
+     */
+    async upsertForOrder(
+        orderId: string,
+        lines: Array<{ productId: string; variantId: string | null; qty: number }>,
+        expiresAt: Date,
+        tx: Executor = db
+    ): Promise<StockReservation[]> {
+        if (lines.length === 0) return [];
+        return tx
+            .insert(stockReservation)
+            .values(
+                lines.map((l) => ({ orderId, productId: l.productId, variantId: l.variantId, qty: l.qty, status: 'active', expiresAt }))
+            )
+            .onConflictDoUpdate({
+                target: [stockReservation.orderId, stockReservation.productId, stockReservation.variantId],
+                set: {
+                    qty: sql`excluded.qty`,
+                    status: 'active',
+                    expiresAt,
+                    releaseReason: null,
+                    updatedAt: new Date(),
+                },
+                setWhere: ne(stockReservation.status, 'converted'),
+            })
+            .returning();
+    },
+
+    /** Снять активные резервы заказа (с движением reservation в журнале) */
+    async releaseForOrder(orderId: string, reason: ReleaseReason, tx: Executor = db): Promise<StockReservation[]> {
+        const rows = await tx
+            .update(stockReservation)
+            .set({ status: 'released', releaseReason: reason, updatedAt: new Date() })
+            .where(and(eq(stockReservation.orderId, orderId), eq(stockReservation.status, 'active')))
+            .returning();
+        await inventoryMovementsStorage.recordReservations(
+            rows.map((r) => ({ productId: r.productId, variantId: r.variantId, qty: -r.qty })),
+            { orderId, reason: RELEASE_REASON_TEXT[reason] },
+            tx
+        );
+        return rows;
+    },
+
+    /** Снять просроченные резервы (заказ не оплачен в срок) */
+    releaseExpired(now = new Date()): Promise<StockReservation[]> {
+        return db.transaction(async (tx) => {
+            const rows = await tx
+                .update(stockReservation)
+                .set({ status: 'released', releaseReason: 'expired', updatedAt: now })
+                .where(and(eq(stockReservation.status, 'active'), lte(stockReservation.expiresAt, now)))
+                .returning();
+            for (const r of rows) {
+                await inventoryMovementsStorage.recordReservations(
+                    [{ productId: r.productId, variantId: r.variantId, qty: -r.qty }],
+                    { orderId: r.orderId, reason: RELEASE_REASON_TEXT.expired },
+                    tx
+                );
+            }
+            return rows;
+        });
+    },
+
+    async markConverted(ids: string[], tx: Executor): Promise<void> {
+        if (ids.length === 0) return;
+        await tx
+            .update(stockReservation)
+            .set({ status: 'converted', updatedAt: new Date() })
+            .where(inArray(stockReservation.id, ids));
+    },
+
+    /** Остатки для админки: на складе / в резерве / доступно */
+    async listLevels(params: {
+        search?: string | undefined;
+        reservedOnly?: boolean | undefined;
+        limit: number;
+        offset: number;
+    }): Promise<{ items: StockLevel[]; total: number }> {
+        const reserved = db
+            .select({ productId: stockReservation.productId, reserved: reservedSum.as('reserved') })
+            .from(stockReservation)
+            .where(holding(new Date()))
+            .groupBy(stockReservation.productId)
+            .as('reserved');
+
+        const term = params.search ? `%${params.search}%` : null;
+        const where = and(
+            // У набора своего остатка нет — он на компонентах
+            eq(product.isBundle, false),
+            term ? or(ilike(product.name, term), ilike(product.sku, term)) : undefined,
+            params.reservedOnly ? gt(sql`coalesce(${reserved.reserved}, 0)`, 0) : undefined
+        );
+
+        const [rows, [count]] = await Promise.all([
+            db
+                .select({
+                    productId: product.id,
+                    name: product.name,
+                    sku: product.sku,
+                    onHand: product.stock,
+                    reserved: sql<number>`coalesce(${reserved.reserved}, 0)::int`,
+                })
+                .from(product)
+                .leftJoin(reserved, eq(reserved.productId, product.id))
+                .where(where)
+                .orderBy(desc(sql`coalesce(${reserved.reserved}, 0)`), asc(product.name))
+                .limit(params.limit)
+                .offset(params.offset),
+            db
+                .select({ total: sql<number>`count(*)::int` })
+                .from(product)
+                .leftJoin(reserved, eq(reserved.productId, product.id))
+                .where(where),
+        ]);
+
+        return {
+            items: rows.map((r) => {
+                const reservedQty = Number(r.reserved);
+                return { ...r, reserved: reservedQty, available: Math.max(r.onHand - reservedQty, 0) };
+            }),
+            total: Number(count?.total ?? 0),
+        };
+    },
+
+    /** Активные резервы товара с номером и статусом заказа */
+    listActiveByProduct(productId: string) {
+        return db
+            .select({
+                id: stockReservation.id,
+                variantId: stockReservation.variantId,
+                variantName: productVariant.name,
+                orderId: stockReservation.orderId,
+                orderStatus: order.status,
+                qty: stockReservation.qty,
+                expiresAt: stockReservation.expiresAt,
+                createdAt: stockReservation.createdAt,
+            })
+            .from(stockReservation)
+            .innerJoin(order, eq(order.id, stockReservation.orderId))
+            .leftJoin(productVariant, eq(productVariant.id, stockReservation.variantId))
+            .where(and(eq(stockReservation.productId, productId), holding(new Date())))
+            .orderBy(asc(stockReservation.expiresAt));
+    },
+};
@@ -0,0 +1,168 @@
+// src/storage/subscriptionsStorage.ts
+import { db } from '#db/db';
+import { and, asc, desc, eq, inArray, isNull, lte, ne, or, sql } from 'drizzle-orm';
+import {
+    subscription,
+    subscriptionItem,
+    type NewSubscription,
+    type Subscription,
+} from '#db/schema/subscriptions';
+import { product } from '#db/schema/products';
+import { productVariant } from '#db/schema/productVariants';
+import { order } from '#db/schema/orders';
+
+/** db или транзакция — подписка и её состав меняются вместе */
+type Executor = Pick<typeof db, 'select' | 'insert' | 'update' | 'delete'>;
+
+export type SubscriptionStatus = 'active' | 'paused' | 'canceled';
+export type SubscriptionPaymentSource = 'card' | 'wallet';
+
+export interface SubscriptionItemInput {
+    productId: string;
+    variantId?: string | null | undefined;
+    qty: number;
+}
+
+/** Позиция подписки с текущими названием и ценой (для кабинета и напоминания) */
+export interface SubscriptionItemView {
+    productId: string;
+    variantId: string | null;
+    qty: number;
+    productName: string;
+    productSlug: string;
+    variantName: string | null;
+    /** Цена варианта или товара сейчас, без скидки подписчика */
+    unitPriceRub: number;
+}
+
+export type SubscriptionWithItems = Subscription & { items: SubscriptionItemView[] };
+
+/** Срок подписки наступил: повтор после ошибки (retry_at) или плановая дата */
+const dueAt = sql`coalesce(${subscription.retryAt}, ${subscription.nextRunAt})`;
+
+export const subscriptionsStorage = {
+    async getById(id: string, tx: Executor = db): Promise<Subscription | null> {
+        const [row] = await tx.select().from(subscription).where(eq(subscription.id, id)).limit(1);
+        return row ?? null;
+    },
+
+    /** Подписка пользователя; чужая — как несуществующая */
+    async getForUser(id: string, userId: string): Promise<Subscription | null> {
+        const [row] = await db
+            .select()
+            .from(subscription)
+            .where(and(eq(subscription.id, id), eq(subscription.userId, userId)))
+            .limit(1);
+        return row ?? null;
+    },
+
+    /** Подписки пользователя с составом; отменённые — в конце */
+    async listByUser(userId: string): Promise<SubscriptionWithItems[]> {
+        const rows = await db
+            .select()
+            .from(subscription)
+            .where(eq(subscription.userId, userId))
+            .orderBy(sql`${subscription.status} = 'canceled'`, desc(subscription.createdAt));
+
+        const items = await this.listItems(rows.map((r) => r.id));
+        return rows.map((r) => ({ ...r, items: items.get(r.id) ?? [] }));
+    },
+
+    /** Состав подписок (ключ — subscriptionId) */
+    async listItems(subscriptionIds: string[], tx: Executor = db): Promise<Map<string, SubscriptionItemView[]>> {
+        const map = new Map<string, SubscriptionItemView[]>();
+        if (subscriptionIds.length === 0) return map;
+
+        const rows = await tx
+            .select({
+                subscriptionId: subscriptionItem.subscriptionId,
+                productId: subscriptionItem.productId,
+                variantId: subscriptionItem.variantId,
+                qty: subscriptionItem.qty,
+                productName: product.name,
+                productSlug: product.slug,
+                variantName: productVariant.name,
+                price: sql<string>`coalesce(${productVariant.price}, ${product.price})`,
+            })
+            .from(subscriptionItem)
+            .innerJoin(product, eq(product.id, subscriptionItem.productId))
+            .leftJoin(productVariant, eq(productVariant.id, subscriptionItem.variantId))
+            .where(inArray(subscriptionItem.subscriptionId, subscriptionIds))
+            .orderBy(asc(subscriptionItem.createdAt));
+
+        for (const { subscriptionId, price, ...item } of rows) {
+            const list = map.get(subscriptionId) ?? [];
+            list.push({ ...item, variantId: item.variantId ?? null, unitPriceRub: Number(price) });
+            map.set(subscriptionId, list);
+        }
+        return map;
+    },
+
+    async create(input: NewSubscription, items: SubscriptionItemInput[]): Promise<Subscription> {
+        return db.transaction(async (tx) => {
+            const [row] = await tx.insert(subscription).values(input).returning();
+            await this.replaceItems(row!.id, items, tx);
+            return row!;
+        });
+    },
+
+    async update(id: string, patch: Partial<NewSubscription>, tx: Executor = db): Promise<Subscription | null> {
+        const [row] = await tx
+            .update(subscription)
+            .set({ ...patch, updatedAt: new Date() })
+            .where(eq(subscription.id, id))
+            .returning();
+        return row ?? null;
+    },
+
+    async replaceItems(subscriptionId: string, items: SubscriptionItemInput[], tx: Executor = db): Promise<void> {
+        await tx.delete(subscriptionItem).where(eq(subscriptionItem.subscriptionId, subscriptionId));
+        if (items.length === 0) return;
+        await tx.insert(subscriptionItem).values(
+            items.map((i) => ({ subscriptionId, productId: i.productId, variantId: i.variantId ?? null, qty: i.qty }))
+        );
+    },
+
+    /** Активные подписки, по которым пора создавать заказ */
+    listDue(now: Date, limit = 100): Promise<Subscription[]> {
+        return db
+            .select()
+            .from(subscription)
+            .where(and(eq(subscription.status, 'active'), lte(dueAt, now)))
+            .orderBy(asc(dueAt))
+            .limit(limit);
+    },
+
+    /** Активные подписки со списанием до until, по которым ещё не было напоминания */
+    listToNotify(until: Date, limit = 500): Promise<Subscription[]> {
+        return db
+            .select()
+            .from(subscription)
+            .where(
+                and(
+                    eq(subscription.status, 'active'),
+                    lte(subscription.nextRunAt, until),
+                    or(isNull(subscription.notifiedRunAt), ne(subscription.notifiedRunAt, subscription.nextRunAt))
+                )
+            )
+            .orderBy(asc(subscription.nextRunAt))
+            .limit(limit);
+    },
+
+    /** Сохранить карту подписки, по которой оплачен заказ (первая рекуррентная оплата) */
+    async setRebillIdByOrder(orderId: string, rebillId: string): Promise<Subscription | null> {
+        const [row] = await db
+            .update(subscription)
+            .set({ rebillId, updatedAt: new Date() })
+            .where(
+                eq(
+                    subscription.id,
+                    sql`(select ${order.subscriptionId} from ${order} where ${order.id} = ${orderId})`
+                )
+            )
+            .returning();
+        return row ?? null;
+    },
+};
+
+export default subscriptionsStorage;
@@ -1,6 +1,6 @@
 import { db } from '#db/db';
 import {
-    eq, and, desc, asc, ilike, or
+    eq, and, desc, asc, ilike, or, isNotNull
 } from 'drizzle-orm';
 import { z } from 'zod';
 
@@ -308,6 +308,15 @@ async function listActivePartners(): Promise<AppUser[]> {
         );
 }
 
+/** Telegram ID активных админов — для служебных уведомлений */
+async function listAdminTelegramIds(): Promise<string[]> {
+    const rows = await db
+        .select({ telegramId: appUser.telegramId })
+        .from(appUser)
+        .where(and(eq(appUser.isAdmin, true), eq(appUser.isActive, true), isNotNull(appUser.telegramId)));
+    return rows.map((r: { telegramId: string | null }) => String(r.telegramId));
+}
+
 async function deleteUser(id: string): Promise<boolean> {
     const [row] = await db.update(appUser)
         .set({ deletedAt: new Date(), updatedAt: new Date() })
@@ -334,4 +343,5 @@ export const usersStorage = {
     deleteUser,
     updateLastLogin,
     listActivePartners,
+    listAdminTelegramIds,
 };
@@ -0,0 +1,168 @@
+// src/storage/wishlistStorage.ts
+import { db } from '#db/db';
+import { and, desc, eq, gt, inArray, isNotNull, isNull, sql } from 'drizzle-orm';
+import { wishlistItem, backInStockRequest } from '#db/schema/wishlist';
+import { product } from '#db/schema/products';
+import { appUser } from '#db/schema/users';
+
+/** Товар в избранном — данные для карточки в кабинете */
+export interface WishlistEntry {
+    productId: string;
+    name: string;
+    slug: string;
+    price: string;
+    originalPrice: string | null;
+    stock: number;
+    status: string;
+    isBundle: boolean;
+    images: unknown;
+    addedAt: Date;
+    /** Ждёт уведомления о поступлении */
+    backInStockRequested: boolean;
+}
+
+/** Подписка, которую пора отправить: товар снова в наличии */
+export interface RestockedRequest {
+    id: string;
+    userId: string;
+    productId: string;
+    productName: string;
+    productSlug: string;
+}
+
+const pendingRequest = (userId: string) =>
+    sql<boolean>`exists (
+        select 1 from ${backInStockRequest}
+        where ${backInStockRequest.userId} = ${userId}
+          and ${backInStockRequest.productId} = ${product.id}
+          and ${backInStockRequest.notifiedAt} is null
+    )`;
+
+// Избранное и «сообщить о поступлении»
+export const wishlistStorage = {
+    /* ─────────────── Wishlist ─────────────── */
+
+    listByUser(userId: string): Promise<WishlistEntry[]> {
+        return db
+            .select({
+                productId: product.id,
+                name: product.name,
+                slug: product.slug,
+                price: product.price,
+                originalPrice: product.originalPrice,
+                stock: product.stock,
+                status: product.status,
+                isBundle: product.isBundle,
+                images: product.images,
+                addedAt: wishlistItem.createdAt,
+                backInStockRequested: pendingRequest(userId),
+            })
+            .from(wishlistItem)
+            .innerJoin(product, eq(product.id, wishlistItem.productId))
+            .where(eq(wishlistItem.userId, userId))
+            .orderBy(desc(wishlistItem.createdAt));
+    },
+
+    async listProductIds(userId: string): Promise<string[]> {
+        const rows = await db
+            .select({ productId: wishlistItem.productId })
+            .from(wishlistItem)
+            .where(eq(wishlistItem.userId, userId));
+        return rows.map((r) => r.productId);
+    },
+
+    /** Повторное добавление — не ошибка; false — уже было в избранном */
+    async add(userId: string, productId: string): Promise<boolean> {
+        const rows = await db
+            .insert(wishlistItem)
+            .values({ userId, productId })
+            .onConflictDoNothing()
+            .returning({ id: wishlistItem.id });
+        return rows.length > 0;
+    },
+
+    async remove(userId: string, productId: string): Promise<boolean> {
+        const rows = await db
+            .delete(wishlistItem)
+            .where(and(eq(wishlistItem.userId, userId), eq(wishlistItem.productId, productId)))
+            .returning({ id: wishlistItem.id });
+        return rows.length > 0;
+    },
+
+    /* ─────────────── Back in stock ─────────────── */
+
+    async listRequestedProductIds(userId: string): Promise<string[]> {
+        const rows = await db
+            .select({ productId: backInStockRequest.productId })
+            .from(backInStockRequest)
+            .where(and(eq(backInStockRequest.userId, userId), isNull(backInStockRequest.notifiedAt)));
+        return rows.map((r) => r.productId);
+    },
+
+    /** Ожидающая подписка одна на пользователя и товар; false — уже ждёт */
+    async request(userId: string, productId: string): Promise<boolean> {
+        const rows = await db
+            .insert(backInStockRequest)
+            .values({ userId, productId })
+            .onConflictDoNothing()
+            .returning({ id: backInStockRequest.id });
+        return rows.length > 0;
+    },
+
+    async cancelRequest(userId: string, productId: string): Promise<boolean> {
+        const rows = await db
+            .delete(backInStockRequest)
+            .where(
+                and(
+                    eq(backInStockRequest.userId, userId),
+                    eq(backInStockRequest.productId, productId),
+                    isNull(backInStockRequest.notifiedAt)
+                )
+            )
+            .returning({ id: backInStockRequest.id });
+        return rows.length > 0;
+    },
+
+    /**
+     * Забрать ожидающие подписки на товары с остатком > 0 (notified_at проставляется сразу,
+     * поэтому параллельный вызов не отправит то же уведомление второй раз).
+     * Забираются только подписки пользователей с Telegram: почтовой отправки нет,
+     * остальные ждут, пока появится канал доставки.
+     * Без productIds — по всем товарам.
+     */
+    async claimRestocked(productIds?: string[]): Promise<RestockedRequest[]> {
+        if (productIds && productIds.length === 0) return [];
+        const claimed = await db
+            .update(backInStockRequest)
+            .set({ notifiedAt: new Date() })
+            .where(
+                and(
+                    isNull(backInStockRequest.notifiedAt),
+                    productIds ? inArray(backInStockRequest.productId, productIds) : undefined,
+                    inArray(
+                        backInStockRequest.productId,
+                        db.select({ id: product.id }).from(product).where(and(gt(product.stock, 0), eq(product.status, 'active')))
+                    ),
+                    inArray(backInStockRequest.userId, db.select({ id: appUser.id }).from(appUser).where(isNotNull(appUser.telegramId)))
+                )
+            )
+            .returning({ id: backInStockRequest.id, userId: backInStockRequest.userId, productId: backInStockRequest.productId });
+        if (claimed.length === 0) return [];
+
+        const products = await db
+            .select({ id: product.id, name: product.name, slug: product.slug })
+            .from(product)
+            .where(inArray(product.id, [...new Set(claimed.map((c) => c.productId))]));
+        const productById = new Map(products.map((p) => [p.id, p]));
+
+        return claimed.map((c) => ({
+            ...c,
+            productName: productById.get(c.productId)?.name ?? '',
+            productSlug: productById.get(c.productId)?.slug ?? '',
+        }));
+    },
+
+    async setNotification(requestId: string, notificationId: number): Promise<void> {
+        await db.update(backInStockRequest).set({ notificationId }).where(eq(backInStockRequest.id, requestId));
+    },
+};
@@ -0,0 +1,155 @@
+// backend/src/utils/cron.ts
+
+/**
+ * Минимальный парсер cron-выражений (5 полей, локальное время процесса — TZ):
+ *
+ *   ┌ minute (0-59)
+ *   │ ┌ hour (0-23)
+ *   │ │ ┌ day of month (1-31)
+ *   │ │ │ ┌ month (1-12)
+ *   │ │ │ │ ┌ day of week (0-7, 0 и 7 — воскресенье)
+ *   * * * * *
+ *
+ * Поддерживается: `*`, списки `1,15`, диапазоны `1-5`, шаги `*\/5` и `10-40/10`,
+ * алиасы @hourly, @daily, @weekly, @monthly, @yearly.
+ * Если ограничены и day-of-month, и day-of-week — совпадение по любому из них (как в vixie cron).
+ */
+
+export interface CronSchedule {
+    minutes: Set<number>;
+    hours: Set<number>;
+    daysOfMonth: Set<number>;
+    months: Set<number>;
+    daysOfWeek: Set<number>;
+    domRestricted: boolean;
+    dowRestricted: boolean;
+}
+
+const ALIASES: Record<string, string> = {
+    '@hourly': '0 * * * *',
+    '@daily': '0 0 * * *',
+    '@midnight': '0 0 * * *',
+    '@weekly': '0 0 * * 0',
+    '@monthly': '0 0 1 * *',
+    '@yearly': '0 0 1 1 *',
+    '@annually': '0 0 1 1 *',
+};
+
+// Верхняя граница поиска следующего запуска (~5 лет по минутам — с пропуском дней/часов хватает с запасом)
+const MAX_ITERATIONS = 500_000;
+
+function parseField(field: string, min: number, max: number, name: string): Set<number> {
+    const values = new Set<number>();
+
+    for (const part of field.split(',')) {
+        const [rangePart, stepPart] = part.split('/');
+        const step = stepPart === undefined ? 1 : Number(stepPart);
+        if (!Number.isInteger(step) || step < 1) {
+            throw new Error(`Invalid cron step "${part}" in ${name}`);
+        }
+
+        let from: number;
+        let to: number;
+        if (rangePart === '*' || rangePart === undefined) {
+            from = min;
+            to = max;
+        } else if (rangePart.includes('-')) {
+            const [a, b] = rangePart.split('-');
+            from = Number(a);
+            to = Number(b);
+        } else {
+            from = Number(rangePart);
+            to = stepPart === undefined ? from : max;
+        }
+
+        if (!Number.isInteger(from) || !Number.isInteger(to) || from < min || to > max || from > to) {
+            throw new Error(`Invalid cron value "${part}" in ${name} (allowed ${min}-${max})`);
+        }
+
+        for (let v = from; v <= to; v += step) values.add(v);
+    }
+
+    return values;
+}
+
+/**
+ * Разобрать cron-выражение
+ * @throws Error при некорректном выражении
+ */
+export function parseCron(expression: string): CronSchedule {
+    const normalized = ALIASES[expression.trim().toLowerCase()] ?? expression.trim();
+    const fields = normalized.split(/\s+/);
+    if (fields.length !== 5) {
+        throw new Error(`Invalid cron expression "${expression}": expected 5 fields`);
+    }
+
+    const [min, hour, dom, mon, dow] = fields as [string, string, string, string, string];
+
+    const daysOfWeek = parseField(dow, 0, 7, 'day of week');
+    if (daysOfWeek.has(7)) {
+        daysOfWeek.delete(7);
+        daysOfWeek.add(0);
+    }
+
+    return {
+        minutes: parseField(min, 0, 59, 'minute'),
+        hours: parseField(hour, 0, 23, 'hour'),
+        daysOfMonth: parseField(dom, 1, 31, 'day of month'),
+        months: parseField(mon, 1, 12, 'month'),
+        daysOfWeek,
+        domRestricted: dom !== '*',
+        dowRestricted: dow !== '*',
+    };
+}
+
+/** Проверка корректности выражения без исключения */
+export function isValidCron(expression: string): boolean {
+    try {
+        parseCron(expression);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+function dayMatches(s: CronSchedule, d: Date): boolean {
+    const domOk = s.daysOfMonth.has(d.getDate());
+    const dowOk = s.daysOfWeek.has(d.getDay());
+    if (s.domRestricted && s.dowRestricted) return domOk || dowOk;
+    return domOk && dowOk;
+}
+
+/**
+ * Следующий момент запуска строго после `after`
+ */
+export function nextCronRun(expression: string, after: Date = new Date()): Date {
+    const s = parseCron(expression);
+
+    const d = new Date(after.getTime());
+    d.setSeconds(0, 0);
+    d.setMinutes(d.getMinutes() + 1);
+
+    for (let i = 0; i < MAX_ITERATIONS; i++) {
+        if (!s.months.has(d.getMonth() + 1)) {
+            d.setMonth(d.getMonth() + 1, 1);
+            d.setHours(0, 0, 0, 0);
+            continue;
+        }
+        if (!dayMatches(s, d)) {
+            d.setDate(d.getDate() + 1);
+            d.setHours(0, 0, 0, 0);
+            continue;
+        }
+        if (!s.hours.has(d.getHours())) {
+            d.setHours(d.getHours() + 1, 0, 0, 0);
+            continue;
+        }
+        if (!s.minutes.has(d.getMinutes())) {
+            d.setMinutes(d.getMinutes() + 1, 0, 0);
+            continue;
+        }
+        return d;
+    }
+
+    throw new Error(`Cron expression "${expression}" has no upcoming run`);
+}
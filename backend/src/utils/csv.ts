@@ -0,0 +1,84 @@
+// src/utils/csv.ts
+import type { Response } from 'express';
+
+/**
+ * CSV-экспорт отчётов (разделитель «;», UTF-8 с BOM — корректно открывается в Excel)
+ * и разбор входящих файлов (импорт приходов от поставщиков)
+ */
+
+export type CsvColumn<T> = {
+    header: string;
+    value: (row: T) => unknown;
+};
+
+const SEPARATOR = ';';
+
+function escapeCell(value: unknown): string {
+    if (value === null || value === undefined) return '';
+    const str =
+        value instanceof Date
+            ? value.toISOString()
+            : typeof value === 'object'
+                ? JSON.stringify(value)
+                : String(value);
+    return /[";\r\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+}
+
+export function toCsv<T>(columns: CsvColumn<T>[], rows: T[]): string {
+    const lines = [columns.map((c) => escapeCell(c.header)).join(SEPARATOR)];
+    for (const row of rows) {
+        lines.push(columns.map((c) => escapeCell(c.value(row))).join(SEPARATOR));
+    }
+    return '\uFEFF' + lines.join('\r\n') + '\r\n';
+}
+
+export function sendCsv(res: Response, filename: string, csv: string): Response {
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    return res.send(csv);
+}
+
+/**
+ * Разобрать CSV в строки ячеек. Разделитель — «;» или «,» (по первой строке),
+ * кавычки по RFC 4180, BOM и пустые строки пропускаются.
+ */
+export function parseCsv(text: string): string[][] {
+    const src = text.replace(/^\uFEFF/, '');
+    const firstLine = src.slice(0, src.search(/\r?\n|$/));
+    const sep = firstLine.split(';').length >= firstLine.split(',').length ? ';' : ',';
+
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let quoted = false;
+
+    for (let i = 0; i < src.length; i++) {
+        const ch = src[i]!;
+        if (quoted) {
+            if (ch === '"' && src[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (ch === '"') {
+                quoted = false;
+            } else {
+                cell += ch;
+            }
+        } else if (ch === '"') {
+            quoted = true;
+        } else if (ch === sep) {
+            row.push(cell);
+            cell = '';
+        } else if (ch === '\n' || ch === '\r') {
+            if (ch === '\r' && src[i + 1] === '\n') i++;
+            row.push(cell);
+            if (row.some((c) => c.trim() !== '')) rows.push(row);
+            row = [];
+            cell = '';
+        } else {
+            cell += ch;
+        }
+    }
+    row.push(cell);
+    if (row.some((c) => c.trim() !== '')) rows.push(row);
+    return rows;
+}
@@ -26,6 +26,23 @@ export function rubToPv(rub: number): number {
     return roundPv(rub / settlementSettingsRuntime.pvRubPerPv);
 }
 
+/**
+ * Начисления заказа от order_base (Registry.md):
+ * PV = floor(order_base / 200), VWC = round(order_base * 0.05, 2), NetworkFund = round(order_base * 0.50, 2)
+ * Общие для checkout (ordersController.createOrder) и заказов по подписке.
+ */
+export function orderBaseAccruals(orderBase: number): {
+    pvEarned: number;
+    vwcCashback: number;
+    networkFundRub: number;
+} {
+    return {
+        pvEarned: Math.floor(orderBase / 200),
+        vwcCashback: Math.round(orderBase * 0.05 * 100) / 100,
+        networkFundRub: Math.round(orderBase * 0.5 * 100) / 100,
+    };
+}
+
 /** Применить процент (например, 10%) */
 export function applyPercent(amount: number, percent: number): number {
     return roundHalfUp(amount * (percent / 100), 2);
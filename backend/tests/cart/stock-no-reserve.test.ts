@@ -4,6 +4,7 @@ import request from 'supertest';
 import { app } from '../../src/index';
 import { db } from '../../src/db/db';
 import { product } from '../../src/db/schema/products';
+import { stockReservation } from '../../src/db/schema/stockReservations';
 import { eq } from 'drizzle-orm';
 
 describe('FIX-1: Cart Stock Reservation', () => {
@@ -55,7 +56,7 @@ describe('FIX-1: Cart Stock Reservation', () => {
     expect(prod.stock).toBe(10); // NOT 5!
   });
 
-  it('should decrease stock ONLY when creating order', async () => {
+  it('should reserve stock (not decrease it) when creating order', async () => {
     // Add to cart
     await request(app)
       .post('/api/cart')
@@ -85,14 +86,20 @@ describe('FIX-1: Cart Stock Reservation', () => {
       })
       .expect(201);
 
-    // ✅ NOW stock should be 5 (10 - 5)
+    // ✅ Stock is still 10 on hand, 5 of them are reserved until payment
     [prod] = await db
       .select({ stock: product.stock })
       .from(product)
       .where(eq(product.id, testProductId))
       .limit(1);
 
-    expect(prod.stock).toBe(5);
+    expect(prod.stock).toBe(10);
+
+    const reservations = await db
+      .select()
+      .from(stockReservation)
+      .where(eq(stockReservation.productId, testProductId));
+    expect(reservations).toMatchObject([{ qty: 5, status: 'active' }]);
   });
 
   it('should check stock availability WITHOUT reserving', async () => {
@@ -0,0 +1,168 @@
+// backend/tests/delivery/carriers.test.ts
+/**
+ * Перевозчики поверх fake HTTP API (delivery/*, deliveryShipmentService)
+ *
+ * 1. Тариф считается по весу и габаритам, ПВЗ дешевле двери; OAuth СДЭК запрашивается один раз
+ * 2. Отправление после оплаты: трек-номер в order.deliveryTrackingCode, повтор не создаёт второй заказ
+ * 3. Ошибка API перевозчика — отправление failed, syncPending создаёт его повторно
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { eq } from 'drizzle-orm';
+import { db } from '../../src/db/db';
+import { appUser } from '../../src/db/schema/users';
+import { product } from '../../src/db/schema/products';
+import { order } from '../../src/db/schema/orders';
+import { orderItem } from '../../src/db/schema/orderItem';
+import { deliveryShipment } from '../../src/db/schema/deliveryShipments';
+import {
+    CarrierRegistry,
+    CdekAdapter,
+    FakeCdekHttp,
+    FakeRussianPostHttp,
+    RussianPostAdapter,
+    buildParcel,
+} from '../../src/services/delivery';
+import { DeliveryShipmentService } from '../../src/services/deliveryShipmentService';
+
+const cdekConfig = {
+    baseUrl: 'https://api.edu.cdek.ru/v2',
+    account: 'test',
+    secret: 'test',
+    fromCityCode: 44,
+    doorTariff: 137,
+    pickupTariff: 136,
+};
+
+describe('Carrier integrations (fake HTTP)', () => {
+    let cdekHttp: FakeCdekHttp;
+    let shipments: DeliveryShipmentService;
+    let orderId: string;
+
+    beforeEach(async () => {
+        await db.delete(deliveryShipment);
+        await db.delete(orderItem);
+        await db.delete(order);
+        await db.delete(product);
+        await db.delete(appUser);
+
+        cdekHttp = new FakeCdekHttp();
+        shipments = new DeliveryShipmentService(new CarrierRegistry([new CdekAdapter(cdekConfig, cdekHttp)]));
+
+        const [user] = await db
+            .insert(appUser)
+            .values({
+                email: 'delivery@test.com',
+                phone: '+79990001122',
+                firstName: 'Иван',
+                lastName: 'Петров',
+                telegramId: `delivery_${Date.now()}`,
+                referralCode: `DELIVERY_${Date.now()}`,
+            })
+            .returning();
+
+        const [prod] = await db
+            .insert(product)
+            .values({ name: 'Омега-3', price: '1500', stock: 10, isActive: true, weightG: 400, lengthCm: 12, widthCm: 7, heightCm: 7 })
+            .returning();
+
+        const [ord] = await db
+            .insert(order)
+            .values({
+                userId: user.id,
+                status: 'paid',
+                itemsSubtotalRub: '3000',
+                orderBaseRub: '3000',
+                totalPayableRub: '3000',
+                deliveryService: 'sdek',
+                deliveryRequired: true,
+                deliveryAddress: 'Москва, ул. Пушкина, д. 1',
+                deliveryDestination: { cityCode: 44, postalCode: '101000' },
+            })
+            .returning();
+        orderId = ord.id;
+
+        await db.insert(orderItem).values({
+            orderId,
+            productId: prod.id,
+            productName: 'Омега-3',
+            qty: 2,
+            unitPriceRub: '1500',
+            lineSubtotalRub: '3000',
+            lineTotalRub: '3000',
+        });
+    });
+
+    it('тариф зависит от веса и способа получения', async () => {
+        const parcel = buildParcel([{ qty: 2, unitPriceRub: 1500, weightG: 400, lengthCm: 12, widthCm: 7, heightCm: 7 }]);
+        expect(parcel).toMatchObject({ weightG: 900, lengthCm: 12, widthCm: 7, heightCm: 14, declaredValueRub: 3000 });
+
+        const door = await shipments.quote('sdek', parcel, { cityCode: 44 });
+        const pickup = await shipments.quote('sdek', parcel, { cityCode: 44, pickupPointCode: 'MSK1' });
+        expect(door).toMatchObject({ carrier: 'sdek', tariffCode: '137', mode: 'door', priceRub: 410 });
+        expect(pickup).toMatchObject({ tariffCode: '136', mode: 'pickup', priceRub: 310 });
+        expect(cdekHttp.calls.filter((c) => c.url.endsWith('/oauth/token'))).toHaveLength(1);
+
+        const post = new RussianPostAdapter(
+            {
+                baseUrl: 'https://otpravka-api.pochta.ru',
+                accessToken: 't',
+                userKey: 'u',
+                fromPostalCode: '101000',
+                mailType: 'POSTAL_PARCEL',
+                mailCategory: 'ORDINARY',
+                trackingUrl: 'https://tracking.russianpost.ru/rtm34',
+                trackingLogin: 'login',
+                trackingPassword: 'password',
+            },
+            new FakeRussianPostHttp()
+        );
+        expect(await post.calculate(parcel, { postalCode: '190000' })).toMatchObject({ priceRub: 245, minDays: 3, maxDays: 7 });
+
+        // Перевозчика нет в реестре (не заданы ключи API) — тарифа нет, остаётся базовая цена
+        expect(await shipments.quote('yandex', parcel, { city: 'Москва' })).toBeNull();
+    });
+
+    it('после оплаты создаётся отправление и трек-номер попадает в заказ', async () => {
+        const created = await shipments.createForOrder(orderId);
+        expect(created).toMatchObject({ carrier: 'sdek', status: 'created', attempts: 1 });
+        expect(created!.trackingCode).toMatch(/^\d{10}$/);
+
+        const sent = cdekHttp.last('/orders')!.body as any;
+        expect(sent).toMatchObject({
+            number: orderId,
+            tariff_code: 137,
+            to_location: { code: 44, postal_code: '101000', address: 'Москва, ул. Пушкина, д. 1' },
+            recipient: { name: 'Иван Петров', phones: [{ number: '+79990001122' }] },
+            packages: [{ weight: 900, height: 14 }],
+        });
+
+        const [ord] = await db.select().from(order).where(eq(order.id, orderId));
+        expect(ord.deliveryTrackingCode).toBe(created!.trackingCode);
+
+        expect(await shipments.createForOrder(orderId)).toMatchObject({ id: created!.id });
+        expect(cdekHttp.orders.size).toBe(1);
+    });
+
+    it('ошибка перевозчика сохраняется, синхронизация повторяет создание', async () => {
+        let down = true;
+        const handle = (cdekHttp as any).handle.bind(cdekHttp);
+        cdekHttp.respond('/orders', (req) =>
+            down && req.method === 'POST'
+                ? { status: 502, body: { errors: [{ code: 'service_unavailable', message: 'Service unavailable' }] } }
+                : handle(new URL(req.url).pathname, req)
+        );
+
+        await expect(shipments.createForOrder(orderId)).rejects.toThrow('Service unavailable');
+        const [failed] = await db.select().from(deliveryShipment);
+        expect(failed).toMatchObject({ status: 'failed', attempts: 1, lastError: 'sdek: Service unavailable' });
+
+        down = false;
+        expect(await shipments.syncPending()).toMatchObject({ checked: 1, created: 1, tracked: 1, errors: 0 });
+
+        const [row] = await db.select().from(deliveryShipment);
+        expect(row).toMatchObject({ status: 'created', attempts: 2, lastError: null });
+        const [ord] = await db.select().from(order).where(eq(order.id, orderId));
+        expect(ord.deliveryTrackingCode).toBe(row.trackingCode);
+    });
+});
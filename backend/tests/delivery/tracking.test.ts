@@ -0,0 +1,202 @@
+// backend/tests/delivery/tracking.test.ts
+/**
+ * Трекинг доставки (deliveryTrackingService поверх fake HTTP перевозчиков)
+ *
+ * 1. Вебхук СДЭК: delivery_event, in_transit → заказ shipped, DELIVERED → заказ delivered; повтор не пишется
+ * 2. Опрос Почты России: утеря — статус lost и возврат денег без возврата товара на склад
+ * 3. Опрос Яндекса: возврат отправителю — returned, товар на склад
+ * 4. Статус доставки не идёт назад, в том числе от админа
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { eq } from 'drizzle-orm';
+import { db } from '../../src/db/db';
+import { appUser } from '../../src/db/schema/users';
+import { product } from '../../src/db/schema/products';
+import { order } from '../../src/db/schema/orders';
+import { orderItem } from '../../src/db/schema/orderItem';
+import { orderReturn } from '../../src/db/schema/orderReturns';
+import { deliveryShipment } from '../../src/db/schema/deliveryShipments';
+import { deliveryEvent } from '../../src/db/schema/notifications';
+import {
+    CarrierRegistry,
+    CdekAdapter,
+    FakeCdekHttp,
+    FakeRussianPostHttp,
+    FakeYandexDeliveryHttp,
+    RussianPostAdapter,
+    YandexDeliveryAdapter,
+} from '../../src/services/delivery';
+import { DeliveryShipmentService } from '../../src/services/deliveryShipmentService';
+import { DeliveryTrackingService } from '../../src/services/deliveryTrackingService';
+
+describe('Delivery tracking', () => {
+    let cdekHttp: FakeCdekHttp;
+    let postHttp: FakeRussianPostHttp;
+    let yandexHttp: FakeYandexDeliveryHttp;
+    let shipments: DeliveryShipmentService;
+    let tracking: DeliveryTrackingService;
+    let userId: string;
+    let productId: string;
+
+    async function paidOrder(carrier: 'sdek' | 'russianpost' | 'yandex') {
+        const [ord] = await db
+            .insert(order)
+            .values({
+                userId,
+                status: 'paid',
+                itemsSubtotalRub: '3000',
+                orderBaseRub: '3000',
+                totalPayableRub: '3000',
+                deliveryService: carrier,
+                deliveryRequired: true,
+                deliveryStatus: 'pending',
+                deliveryAddress: 'Москва, ул. Пушкина, д. 1',
+                deliveryDestination: { cityCode: 44, postalCode: '101000' },
+            })
+            .returning();
+        await db.insert(orderItem).values({
+            orderId: ord.id,
+            productId,
+            productName: 'Омега-3',
+            qty: 2,
+            unitPriceRub: '1500',
+            lineSubtotalRub: '3000',
+            lineTotalRub: '3000',
+        });
+        const shipment = await shipments.createForOrder(ord.id);
+        return { orderId: ord.id, shipment: shipment! };
+    }
+
+    const getOrder = async (id: string) => (await db.select().from(order).where(eq(order.id, id)))[0]!;
+    const getStock = async () => (await db.select().from(product).where(eq(product.id, productId)))[0]!.stock;
+
+    beforeEach(async () => {
+        await db.delete(orderReturn);
+        await db.delete(deliveryEvent);
+        await db.delete(deliveryShipment);
+        await db.delete(orderItem);
+        await db.delete(order);
+        await db.delete(product);
+        await db.delete(appUser);
+
+        cdekHttp = new FakeCdekHttp();
+        postHttp = new FakeRussianPostHttp();
+        yandexHttp = new FakeYandexDeliveryHttp();
+        const registry = new CarrierRegistry([
+            new CdekAdapter(
+                { baseUrl: 'https://api.edu.cdek.ru/v2', account: 'test', secret: 'test', fromCityCode: 44, doorTariff: 137, pickupTariff: 136 },
+                cdekHttp
+            ),
+            new RussianPostAdapter(
+                {
+                    baseUrl: 'https://otpravka-api.pochta.ru',
+                    accessToken: 't',
+                    userKey: 'u',
+                    fromPostalCode: '101000',
+                    mailType: 'POSTAL_PARCEL',
+                    mailCategory: 'ORDINARY',
+                    trackingUrl: 'https://tracking.russianpost.ru/rtm34',
+                    trackingLogin: 'login',
+                    trackingPassword: 'password',
+                },
+                postHttp
+            ),
+            new YandexDeliveryAdapter({ baseUrl: 'https://b2b.taxi.tst.yandex.net/api/b2b/platform', token: 't', sourceStationId: 'wh' }, yandexHttp),
+        ]);
+        shipments = new DeliveryShipmentService(registry);
+        tracking = new DeliveryTrackingService(registry);
+
+        const [user] = await db
+            .insert(appUser)
+            .values({
+                email: 'tracking@test.com',
+                phone: '+79990001122',
+                firstName: 'Иван',
+                lastName: 'Петров',
+                telegramId: `tracking_${Date.now()}`,
+                referralCode: `TRACKING_${Date.now()}`,
+            })
+            .returning();
+        userId = user.id;
+
+        const [prod] = await db
+            .insert(product)
+            .values({ name: 'Омега-3', price: '1500', stock: 10, isActive: true, weightG: 400 })
+            .returning();
+        productId = prod.id;
+    });
+
+    it('вебхук СДЭК двигает заказ: в пути → отправлен, вручён → доставлен', async () => {
+        const { orderId, shipment } = await paidOrder('sdek');
+        const t0 = Date.now();
+
+        const accepted = cdekHttp.pushStatus(shipment.externalId!, 'ACCEPTED_IN_RECIPIENT_CITY', { city: 'Москва', at: new Date(t0) });
+        expect(await tracking.handleWebhook('sdek', accepted)).toEqual([{ recorded: 1, advancedTo: 'in_transit' }]);
+        expect(await getOrder(orderId)).toMatchObject({ status: 'shipped', deliveryStatus: 'in_transit' });
+
+        // Повтор того же вебхука — без новой строки и без смены статуса
+        expect(await tracking.handleWebhook('sdek', accepted)).toEqual([{ recorded: 0, advancedTo: null }]);
+
+        // Опрос видит ту же историю: пишется только CREATED, статус, пришедший вебхуком, не дублируется
+        expect(await tracking.pollActive()).toMatchObject({ checked: 1, events: 1, advanced: 0 });
+
+        const delivered = cdekHttp.pushStatus(shipment.externalId!, 'DELIVERED', { at: new Date(t0 + 60_000) });
+        await tracking.handleWebhook('sdek', delivered);
+        const ord = await getOrder(orderId);
+        expect(ord).toMatchObject({ status: 'delivered', deliveryStatus: 'delivered' });
+        expect(ord.deliveredAt).not.toBeNull();
+
+        const events = await db.select().from(deliveryEvent).where(eq(deliveryEvent.orderId, orderId));
+        expect(events.map((e) => e.providerStatus).sort()).toEqual(['ACCEPTED_IN_RECIPIENT_CITY', 'CREATED', 'DELIVERED']);
+        expect(events.find((e) => e.providerStatus === 'ACCEPTED_IN_RECIPIENT_CITY')).toMatchObject({
+            source: 'webhook',
+            status: 'in_transit',
+            location: 'Москва',
+        });
+    });
+
+    it('утеря на Почте России — возврат денег, товар на склад не возвращается', async () => {
+        const { orderId, shipment } = await paidOrder('russianpost');
+        const t0 = Date.now();
+        postHttp.pushOperation(shipment.trackingCode!, 1, 1, { name: 'Единичный', at: new Date(t0) });
+        postHttp.pushOperation(shipment.trackingCode!, 5, 1, { name: 'Утрачено', at: new Date(t0 + 60_000) });
+
+        expect(await tracking.pollActive()).toMatchObject({ checked: 1, events: 2, errors: 0 });
+
+        expect(await getOrder(orderId)).toMatchObject({ status: 'returned_full', deliveryStatus: 'lost' });
+        const [ret] = await db.select().from(orderReturn).where(eq(orderReturn.orderId, orderId));
+        expect(ret).toMatchObject({ kind: 'full' });
+        expect(await getStock()).toBe(10);
+
+        // Больше не опрашивается — доставка завершена
+        expect(await tracking.pollActive()).toMatchObject({ checked: 0 });
+    });
+
+    it('возврат отправителю в Яндексе — товар возвращается на склад', async () => {
+        const { orderId, shipment } = await paidOrder('yandex');
+        const t0 = Date.now();
+        yandexHttp.pushStatus(shipment.externalId!, 'DELIVERY_TRANSPORTATION', new Date(t0));
+        yandexHttp.pushStatus(shipment.externalId!, 'DELIVERY_CAN_NOT_BE_COMPLETED', new Date(t0 + 60_000));
+        yandexHttp.pushStatus(shipment.externalId!, 'RETURN_RETURNED', new Date(t0 + 120_000));
+
+        await tracking.pollActive();
+
+        expect(await getOrder(orderId)).toMatchObject({ status: 'returned_full', deliveryStatus: 'returned' });
+        expect(await getStock()).toBe(12);
+    });
+
+    it('статус доставки не откатывается назад', async () => {
+        const { orderId } = await paidOrder('sdek');
+        await tracking.setManual(orderId, 'in_transit', { trackingCode: 'MANUAL1' });
+        expect(await getOrder(orderId)).toMatchObject({ status: 'shipped', deliveryStatus: 'in_transit', deliveryTrackingCode: 'MANUAL1' });
+
+        await expect(tracking.setManual(orderId, 'pending')).rejects.toMatchObject({ statusCode: 409 });
+
+        // CREATED у СДЭК — pending: событие пишется, статус не меняется
+        await tracking.pollActive();
+        expect(await getOrder(orderId)).toMatchObject({ deliveryStatus: 'in_transit' });
+        const events = await db.select().from(deliveryEvent).where(eq(deliveryEvent.orderId, orderId));
+        expect(events.map((e) => e.source).sort()).toEqual(['admin', 'poll']);
+    });
+});
@@ -0,0 +1,77 @@
+// backend/tests/helpers/tinkoffStub.ts
+import crypto from 'crypto';
+import {
+    TinkoffPaymentService,
+    type TinkoffTransport,
+    type PaymentTxRepo,
+    type OrdersRepo,
+    type PaymentSettingsRepo,
+} from '../../src/services/tinkoffPaymentService';
+
+/**
+ * Заглушка API Тинькофф: запоминает запросы (метод + payload) и отвечает успехом.
+ * Ответ на метод можно переопределить через respond().
+ */
+export class TinkoffStub implements TinkoffTransport {
+    calls: Array<{ method: string; body: Record<string, any> }> = [];
+    private responses = new Map<string, (body: Record<string, any>) => unknown>();
+
+    respond(method: string, fn: (body: Record<string, any>) => unknown): this {
+        this.responses.set(method, fn);
+        return this;
+    }
+
+    last(method: string): Record<string, any> | undefined {
+        return [...this.calls].reverse().find((c) => c.method === method)?.body;
+    }
+
+    async post(url: string, body: Record<string, unknown>): Promise<unknown> {
+        const method = url.slice(url.lastIndexOf('/') + 1);
+        this.calls.push({ method, body: body as Record<string, any> });
+
+        const custom = this.responses.get(method);
+        if (custom) return custom(body as Record<string, any>);
+
+        switch (method) {
+            case 'Init':
+                return {
+                    Success: true,
+                    Status: 'NEW',
+                    PaymentId: String(this.calls.length),
+                    OrderId: body.OrderId,
+                    Amount: body.Amount,
+                    PaymentURL: 'https://securepay.tinkoff.ru/stub',
+                };
+            case 'Cancel':
+                return {
+                    Success: true,
+                    Status: body.Amount ? 'PARTIAL_REFUNDED' : 'REFUNDED',
+                    PaymentId: body.PaymentId,
+                    NewAmount: 0,
+                };
+            default:
+                return { Success: true, Status: 'CONFIRMED' };
+        }
+    }
+}
+
+/** Сервис Тинькофф поверх заглушки, без записи в БД */
+export function createTinkoffWithStub(stub = new TinkoffStub()) {
+    const payments: PaymentTxRepo = { create: async () => {}, updateStatus: async () => {} };
+    const orders: OrdersRepo = { updateStatus: async () => true };
+    const settings: PaymentSettingsRepo = {
+        getActiveByProvider: async () => ({ terminalKey: 'TestTerminal', secretKey: 'secret', isTestMode: true }),
+    };
+
+    return { stub, service: new TinkoffPaymentService(payments, orders, settings, undefined, undefined, stub) };
+}
+
+/** Подпись уведомления как у Тинькофф (Token = sha256 отсортированных значений + Password) */
+export function signTinkoffNotification(body: Record<string, any>, secretKey = 'secret'): Record<string, any> {
+    const p: Record<string, any> = { ...body, Password: secretKey };
+    const concat = Object.keys(p)
+        .sort()
+        .map((k) => String(p[k] ?? ''))
+        .join('');
+    return { ...body, Token: crypto.createHash('sha256').update(concat).digest('hex') };
+}
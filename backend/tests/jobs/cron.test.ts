@@ -0,0 +1,106 @@
+// backend/tests/jobs/cron.test.ts
+/**
+ * Парсер cron-выражений (utils/cron)
+ *
+ * 1. Диапазоны, шаги, списки, алиасы, воскресенье как 7
+ * 2. Некорректные выражения отклоняются
+ * 3. nextCronRun — строго после момента, переходы через месяц/год,
+ *    day-of-month и day-of-week при обоих ограничениях — по ИЛИ
+ *
+ * Даты — в локальном времени процесса, как и в самом парсере.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseCron, isValidCron, nextCronRun } from '../../src/utils/cron';
+
+const sorted = (s: Set<number>) => [...s].sort((a, b) => a - b);
+
+describe('Cron parser', () => {
+    it('диапазоны, шаги и списки', () => {
+        const s = parseCron('*/20 9-12 1,15,31 * 1-5');
+
+        expect(sorted(s.minutes)).toEqual([0, 20, 40]);
+        expect(sorted(s.hours)).toEqual([9, 10, 11, 12]);
+        expect(sorted(s.daysOfMonth)).toEqual([1, 15, 31]);
+        expect(sorted(parseCron('0 0 1 10-12/1 *').months)).toEqual([10, 11, 12]);
+        expect(sorted(s.daysOfWeek)).toEqual([1, 2, 3, 4, 5]);
+
+        // Шаг от числа — до конца диапазона поля
+        expect(sorted(parseCron('5/20 * * * *').minutes)).toEqual([5, 25, 45]);
+        expect(sorted(parseCron('10-40/10 * * * *').minutes)).toEqual([10, 20, 30, 40]);
+    });
+
+    it('алиасы и воскресенье как 7', () => {
+        expect(parseCron('@daily')).toEqual(parseCron('0 0 * * *'));
+        expect(parseCron('@midnight')).toEqual(parseCron('0 0 * * *'));
+        expect(parseCron('@Hourly')).toEqual(parseCron('0 * * * *'));
+        expect(parseCron('@weekly')).toEqual(parseCron('0 0 * * 0'));
+        expect(parseCron('@monthly')).toEqual(parseCron('0 0 1 * *'));
+        expect(parseCron('@annually')).toEqual(parseCron('@yearly'));
+
+        expect(sorted(parseCron('0 0 * * 5-7').daysOfWeek)).toEqual([0, 5, 6]);
+        expect(parseCron('0 0 * * 7')).toEqual(parseCron('0 0 * * 0'));
+    });
+
+    it('флаги ограничения дня месяца и дня недели', () => {
+        expect(parseCron('0 0 * * *')).toMatchObject({ domRestricted: false, dowRestricted: false });
+        expect(parseCron('0 0 13 * 5')).toMatchObject({ domRestricted: true, dowRestricted: true });
+        expect(parseCron('0 0 * * 1')).toMatchObject({ domRestricted: false, dowRestricted: true });
+    });
+
+    it('отклоняет некорректные выражения', () => {
+        expect(() => parseCron('* * * *')).toThrow(/expected 5 fields/);
+        expect(() => parseCron('* * * * * *')).toThrow(/expected 5 fields/);
+        expect(() => parseCron('@every_5m')).toThrow(/expected 5 fields/);
+        expect(() => parseCron('60 * * * *')).toThrow(/minute/);
+        expect(() => parseCron('0 24 * * *')).toThrow(/hour/);
+        expect(() => parseCron('0 0 0 * *')).toThrow(/day of month/);
+        expect(() => parseCron('0 0 * 13 *')).toThrow(/month/);
+        expect(() => parseCron('0 0 * * 8')).toThrow(/day of week/);
+        expect(() => parseCron('0 5-1 * * *')).toThrow(/Invalid cron value/);
+        expect(() => parseCron('*/0 * * * *')).toThrow(/Invalid cron step/);
+        expect(() => parseCron('*/x * * * *')).toThrow(/Invalid cron step/);
+        expect(() => parseCron('a * * * *')).toThrow(/Invalid cron value/);
+
+        expect(isValidCron('*/5 * * * *')).toBe(true);
+        expect(isValidCron('@daily')).toBe(true);
+        expect(isValidCron('61 * * * *')).toBe(false);
+    });
+});
+
+describe('nextCronRun', () => {
+    it('строго после момента, секунды отбрасываются', () => {
+        expect(nextCronRun('*/15 * * * *', new Date(2026, 2, 2, 10, 7, 30))).toEqual(new Date(2026, 2, 2, 10, 15));
+        expect(nextCronRun('*/15 * * * *', new Date(2026, 2, 2, 10, 15, 0))).toEqual(new Date(2026, 2, 2, 10, 30));
+        expect(nextCronRun('30 10 * * *', new Date(2026, 2, 2, 10, 30))).toEqual(new Date(2026, 2, 3, 10, 30));
+        expect(nextCronRun('* * * * *', new Date(2026, 2, 2, 23, 59, 59))).toEqual(new Date(2026, 2, 3, 0, 0));
+    });
+
+    it('переход через месяц и год', () => {
+        expect(nextCronRun('0 9 1 * *', new Date(2026, 0, 31, 12))).toEqual(new Date(2026, 1, 1, 9, 0));
+        expect(nextCronRun('0 0 31 * *', new Date(2026, 3, 1))).toEqual(new Date(2026, 4, 31));
+        expect(nextCronRun('@yearly', new Date(2026, 5, 15))).toEqual(new Date(2027, 0, 1));
+        expect(nextCronRun('0 0 29 2 *', new Date(2026, 0, 1))).toEqual(new Date(2028, 1, 29));
+    });
+
+    it('день недели', () => {
+        // 2026-03-06 — пятница → следующий будний день понедельник 09.03
+        expect(nextCronRun('0 8 * * 1-5', new Date(2026, 2, 6, 20))).toEqual(new Date(2026, 2, 9, 8, 0));
+        // 7 — воскресенье: 2026-03-02 (пн) → 08.03
+        expect(nextCronRun('0 0 * * 7', new Date(2026, 2, 2))).toEqual(new Date(2026, 2, 8));
+    });
+
+    it('day-of-month и day-of-week — по ИЛИ', () => {
+        // «10-го числа или в пятницу»: с понедельника 02.03 ближе пятница 06.03,
+        // с субботы 07.03 — вторник 10.03
+        expect(nextCronRun('0 0 10 * 5', new Date(2026, 2, 2))).toEqual(new Date(2026, 2, 6));
+        expect(nextCronRun('0 0 10 * 5', new Date(2026, 2, 7))).toEqual(new Date(2026, 2, 10));
+
+        // Ограничен только день месяца — день недели не расширяет выбор
+        expect(nextCronRun('0 0 10 * *', new Date(2026, 2, 2))).toEqual(new Date(2026, 2, 10));
+    });
+
+    it('выражение без будущих запусков', () => {
+        expect(() => nextCronRun('0 0 31 2 *', new Date(2026, 0, 1))).toThrow(/no upcoming run/);
+    });
+});
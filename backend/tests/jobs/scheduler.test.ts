@@ -0,0 +1,249 @@
+// backend/tests/jobs/scheduler.test.ts
+/**
+ * Планировщик задач (JobScheduler) на scheduled_job / job_run
+ *
+ * 1. Слот расписания захватывается один раз — два инстанса не выполняют его дважды
+ * 2. Повторы при ошибке с паузой retryDelayMs, каждая попытка — своя строка job_run
+ * 3. После maxRetries + 1 попыток запуск завершается со статусом failed
+ * 4. Лок занят другим инстансом — запуск пропускается и записывается как skipped
+ * 5. Пауза/снятие с паузы и ручной запуск (в том числе на паузе)
+ * 6. Долгая задача не задерживает другие задачи и следующий тик
+ *
+ * Redis-лок (distributedLock) замокан: по умолчанию захват всегда успешен.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { asc, eq } from 'drizzle-orm';
+import { db } from '../../src/db/db';
+import { scheduledJob, jobRun } from '../../src/db/schema/scheduledJobs';
+import { JobScheduler, type JobContext, type JobDefinition } from '../../src/services/jobScheduler';
+import { acquireLock, releaseLock } from '../../src/services/distributedLock';
+
+vi.mock('../../src/services/distributedLock', () => ({
+    acquireLock: vi.fn(async () => ({ resource: 'mock-lock' })),
+    releaseLock: vi.fn(async () => {}),
+}));
+
+const JOB = 'test-job';
+
+async function createScheduler(def: Partial<JobDefinition> = {}) {
+    const scheduler = new JobScheduler();
+    scheduler.register({ name: JOB, cron: '* * * * *', handler: async () => ({ ok: true }), ...def });
+    await scheduler.syncDefinitions();
+    return scheduler;
+}
+
+async function getJob() {
+    const [row] = await db.select().from(scheduledJob).where(eq(scheduledJob.name, JOB));
+    return row!;
+}
+
+async function listRuns() {
+    return db.select().from(jobRun).where(eq(jobRun.jobName, JOB)).orderBy(asc(jobRun.attempt), asc(jobRun.startedAt));
+}
+
+/** Сделать задачу «пора запускать»: слот минутой раньше now */
+async function makeDue(now: Date) {
+    const slot = new Date(now.getTime() - 60_000);
+    slot.setSeconds(0, 0);
+    await db.update(scheduledJob).set({ nextRunAt: slot }).where(eq(scheduledJob.name, JOB));
+    return slot;
+}
+
+describe('Job scheduler', () => {
+    beforeEach(async () => {
+        vi.clearAllMocks();
+        await db.delete(jobRun);
+        await db.delete(scheduledJob);
+    });
+
+    it('слот выполняется один раз при двух инстансах', async () => {
+        const handler = vi.fn(async (_ctx: JobContext) => ({ ok: true }));
+        const first = await createScheduler({ handler });
+        const second = await createScheduler({ handler });
+
+        const now = new Date();
+        const slot = await makeDue(now);
+
+        await Promise.all([first.tick(now), second.tick(now)]);
+        await first.tick(now);
+
+        expect(handler).toHaveBeenCalledTimes(1);
+        expect(handler.mock.calls[0]![0]).toMatchObject({
+            jobName: JOB,
+            trigger: 'schedule',
+            attempt: 1,
+            scheduledAt: slot,
+        });
+
+        const job = await getJob();
+        expect(job.nextRunAt!.getTime()).toBeGreaterThan(now.getTime());
+        expect(job.lastStatus).toBe('succeeded');
+
+        const runs = await listRuns();
+        expect(runs).toHaveLength(1);
+        expect(runs[0]).toMatchObject({ trigger: 'schedule', status: 'succeeded', result: { ok: true } });
+        expect(releaseLock).toHaveBeenCalledTimes(1);
+    });
+
+    it('повторы с паузой между попытками', async () => {
+        let calls = 0;
+        const handler = vi.fn(async (_ctx: JobContext) => {
+            calls++;
+            if (calls < 3) throw new Error(`boom ${calls}`);
+            return { processed: 5 };
+        });
+        const scheduler = await createScheduler({ handler, maxRetries: 2, retryDelayMs: 20 });
+
+        const startedAt = Date.now();
+        const outcome = await scheduler.trigger(JOB);
+
+        expect(outcome.status).toBe('succeeded');
+        expect(handler).toHaveBeenCalledTimes(3);
+        expect(handler.mock.calls.map(([ctx]) => ctx.attempt)).toEqual([1, 2, 3]);
+        // Две паузы по retryDelayMs между тремя попытками
+        expect(Date.now() - startedAt).toBeGreaterThanOrEqual(35);
+
+        const runs = await listRuns();
+        expect(runs.map((r) => [r.attempt, r.status, r.error])).toEqual([
+            [1, 'failed', 'boom 1'],
+            [2, 'failed', 'boom 2'],
+            [3, 'succeeded', null],
+        ]);
+        expect(runs[2]!.result).toEqual({ processed: 5 });
+        expect((await getJob()).lastStatus).toBe('succeeded');
+    });
+
+    it('после исчерпания попыток — failed', async () => {
+        const handler = vi.fn(async (_ctx: JobContext) => {
+            throw new Error('still broken');
+        });
+        const scheduler = await createScheduler({ handler, maxRetries: 1, retryDelayMs: 1 });
+
+        const outcome = await scheduler.trigger(JOB);
+
+        expect(outcome.status).toBe('failed');
+        expect(outcome.runs).toHaveLength(2);
+        expect(handler).toHaveBeenCalledTimes(2);
+
+        const runs = await listRuns();
+        expect(runs.map((r) => [r.attempt, r.status])).toEqual([
+            [1, 'failed'],
+            [2, 'failed'],
+        ]);
+        expect(runs.every((r) => r.error === 'still broken' && r.finishedAt !== null)).toBe(true);
+        expect((await getJob()).lastStatus).toBe('failed');
+        expect(releaseLock).toHaveBeenCalledTimes(1);
+    });
+
+    it('лок занят — запуск пропущен и записан', async () => {
+        const handler = vi.fn(async (_ctx: JobContext) => ({ ok: true }));
+        const scheduler = await createScheduler({ handler });
+        vi.mocked(acquireLock).mockResolvedValueOnce(null);
+
+        const now = new Date();
+        await makeDue(now);
+        await scheduler.tick(now);
+
+        expect(handler).not.toHaveBeenCalled();
+        expect(acquireLock).toHaveBeenCalledWith(`locks:job:${JOB}`, expect.any(Number));
+        expect(releaseLock).not.toHaveBeenCalled();
+
+        const runs = await listRuns();
+        expect(runs).toHaveLength(1);
+        expect(runs[0]).toMatchObject({
+            trigger: 'schedule',
+            status: 'skipped',
+            result: { reason: 'Job is already running on another instance' },
+        });
+
+        const job = await getJob();
+        expect(job.lastStatus).toBe('skipped');
+        // Слот всё равно сдвинут — пропущенный запуск не повторяется на следующем тике
+        expect(job.nextRunAt!.getTime()).toBeGreaterThan(now.getTime());
+    });
+
+    it('пауза, снятие с паузы и ручной запуск', async () => {
+        const handler = vi.fn(async (_ctx: JobContext) => ({ ok: true }));
+        const scheduler = await createScheduler({ handler });
+
+        const paused = await scheduler.pause(JOB);
+        expect(paused!.isPaused).toBe(true);
+
+        const now = new Date();
+        const slot = await makeDue(now);
+        await scheduler.tick(now);
+        expect(handler).not.toHaveBeenCalled();
+        expect((await getJob()).nextRunAt).toEqual(slot);
+
+        // Ручной запуск не зависит от паузы
+        const outcome = await scheduler.trigger(JOB);
+        expect(outcome.status).toBe('succeeded');
+        expect(handler).toHaveBeenCalledTimes(1);
+        expect(handler.mock.calls[0]![0]).toMatchObject({ trigger: 'manual', attempt: 1 });
+
+        const runs = await listRuns();
+        expect(runs).toHaveLength(1);
+        expect(runs[0]).toMatchObject({ trigger: 'manual', status: 'succeeded', triggeredBy: null });
+
+        // Снятие с паузы: пропущенный слот не догоняется, следующий запуск — в будущем
+        const resumed = await scheduler.resume(JOB);
+        expect(resumed!.isPaused).toBe(false);
+        expect(resumed!.nextRunAt!.getTime()).toBeGreaterThan(now.getTime());
+
+        await scheduler.tick(now);
+        expect(handler).toHaveBeenCalledTimes(1);
+
+        expect(await scheduler.resume('unknown-job')).toBeNull();
+        await expect(scheduler.trigger('unknown-job')).rejects.toThrow(/not registered/);
+    });
+
+    it('долгая задача не блокирует другие и следующий тик', async () => {
+        let finishSlow!: () => void;
+        const slowDone = new Promise<void>((resolve) => (finishSlow = resolve));
+        const slow = vi.fn(async (_ctx: JobContext) => {
+            await slowDone;
+            return { slow: true };
+        });
+        const fast = vi.fn(async (_ctx: JobContext) => ({ fast: true }));
+
+        const scheduler = new JobScheduler();
+        scheduler.register({ name: JOB, cron: '* * * * *', handler: slow });
+        scheduler.register({ name: 'fast-job', cron: '* * * * *', handler: fast });
+        await scheduler.syncDefinitions();
+
+        const now = new Date();
+        const slot = new Date(now.getTime() - 60_000);
+        slot.setSeconds(0, 0);
+        await db.update(scheduledJob).set({ nextRunAt: slot });
+
+        const firstTick = scheduler.tick(now);
+        await vi.waitFor(() => expect(fast).toHaveBeenCalledTimes(1));
+        expect(slow).toHaveBeenCalledTimes(1);
+        expect(scheduler.isRunning(JOB)).toBe(true);
+
+        // Следующий слот быстрой задачи отрабатывает, пока долгая ещё идёт
+        const later = new Date(now.getTime() + 120_000);
+        await scheduler.tick(later);
+        expect(fast).toHaveBeenCalledTimes(2);
+        expect(slow).toHaveBeenCalledTimes(1);
+
+        finishSlow();
+        await firstTick;
+        expect(scheduler.isRunning(JOB)).toBe(false);
+        expect((await getJob()).lastStatus).toBe('succeeded');
+    });
+
+    it('register отклоняет повторное имя и некорректный cron', () => {
+        const scheduler = new JobScheduler();
+        scheduler.register({ name: JOB, cron: '@hourly', handler: async () => null });
+
+        expect(() => scheduler.register({ name: JOB, cron: '@daily', handler: async () => null })).toThrow(
+            /already registered/
+        );
+        expect(() => scheduler.register({ name: 'bad-cron', cron: '61 * * * *', handler: async () => null })).toThrow(
+            /Invalid cron value/
+        );
+        expect(scheduler.isRegistered('bad-cron')).toBe(false);
+    });
+});
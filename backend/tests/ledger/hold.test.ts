@@ -0,0 +1,126 @@
+// backend/tests/ledger/hold.test.ts
+/**
+ * Холд бонусов на время окна возврата (bonusHoldService)
+ *
+ * 1. Бонус 500 ₽ за доставку лежит на счёте hold: referral = 0, pending = 500, вывод отклоняется
+ * 2. После окна возврата задача переносит бонус на referral — вывод разрешён
+ * 3. Сторно в окне возврата уменьшает освобождаемую сумму
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { db } from '../../src/db/db';
+import { appUser } from '../../src/db/schema/users';
+import { ledgerPosting, ledgerTxn, ledgerAccount } from '../../src/db/schema/ledger';
+import { ledgerHold } from '../../src/db/schema/ledgerHolds';
+import { withdrawalRequest } from '../../src/db/schema/withdrawals';
+import { settlementSettingsRuntime } from '../../src/config/settlementSettings';
+import { bonusHoldService } from '../../src/services/bonusHoldService';
+import { withdrawalsService } from '../../src/services/withdrawalService';
+import { ledgerStorage } from '../../src/storage/ledgerStorage';
+import walletService from '../../src/services/walletService';
+import { randomUUID } from 'crypto';
+
+const DAY_MS = 86_400_000;
+
+async function balance(userId: string, type: 'referral' | 'hold') {
+    return (await walletService.getUserBalance(userId, 'RUB', type)).balance;
+}
+
+describe('Bonus hold during return window', () => {
+    let userId: string;
+    const deliveredAt = new Date();
+
+    beforeEach(async () => {
+        settlementSettingsRuntime.bonusHoldDays = 14;
+
+        await db.delete(withdrawalRequest);
+        await db.delete(ledgerHold);
+        await db.delete(ledgerPosting);
+        await db.delete(ledgerTxn);
+        await db.delete(ledgerAccount);
+        await db.delete(appUser);
+
+        const [u] = await db
+            .insert(appUser)
+            .values({
+                email: 'hold@test.com',
+                telegramId: `hold_${Date.now()}`,
+                referralCode: `HOLD_${Date.now()}`,
+                mlmStatus: 'partner',
+            })
+            .returning();
+        userId = u.id;
+
+        await bonusHoldService.creditWithHold(userId, 500, {
+            currency: 'RUB',
+            targetType: 'referral',
+            systemType: 'network_fund',
+            opType: 'reward',
+            heldFrom: deliveredAt,
+            options: { operationId: `order:test:ref:1:${userId}`, orderId: randomUUID() },
+        });
+    });
+
+    afterEach(() => {
+        settlementSettingsRuntime.bonusHoldDays = 14;
+    });
+
+    it('бонус в холде недоступен к выводу до окончания окна возврата', async () => {
+        expect(await balance(userId, 'hold')).toBe(500);
+        expect(await balance(userId, 'referral')).toBe(0);
+
+        const [pending] = await bonusHoldService.getPending(userId);
+        expect(pending).toMatchObject({ targetType: 'referral', currency: 'RUB', amount: 500 });
+
+        const withdraw = () =>
+            withdrawalsService.create({
+                userId,
+                amountRub: '400',
+                method: 'sbp',
+                destination: {},
+                idempotencyKey: `hold-test-${userId}`,
+            });
+
+        await expect(withdraw()).rejects.toMatchObject({ code: 'INSUFFICIENT_BALANCE' });
+
+        // Окно ещё не закрыто
+        expect((await bonusHoldService.releaseDue(new Date(deliveredAt.getTime() + 13 * DAY_MS))).released).toBe(0);
+
+        const res = await bonusHoldService.releaseDue(new Date(deliveredAt.getTime() + 15 * DAY_MS));
+        expect(res).toEqual({ released: 1, canceled: 0, failed: 0 });
+        expect(await balance(userId, 'hold')).toBe(0);
+        expect(await balance(userId, 'referral')).toBe(500);
+        expect(await bonusHoldService.getPending(userId)).toEqual([]);
+
+        const created = await withdraw();
+        expect(created.status).toBe('requested');
+        expect(await balance(userId, 'referral')).toBe(100);
+    });
+
+    it('сторно в окне возврата уменьшает освобождаемую сумму', async () => {
+        const [original] = await db.select().from(ledgerTxn);
+        const [posting] = await ledgerStorage.listPostings(original!.id);
+
+        await ledgerStorage.createReversal({
+            originalTxnId: original!.id,
+            operationId: randomUUID(),
+            reason: 'Partial return',
+            postings: [
+                {
+                    debitAccountId: posting!.creditAccountId,
+                    creditAccountId: posting!.debitAccountId,
+                    amount: 200,
+                    currency: 'RUB',
+                },
+            ],
+            markReversed: false,
+        });
+
+        const [pending] = await bonusHoldService.getPending(userId);
+        expect(pending!.amount).toBe(300);
+
+        await bonusHoldService.releaseDue(new Date(deliveredAt.getTime() + 15 * DAY_MS));
+        expect(await balance(userId, 'referral')).toBe(300);
+        expect(await balance(userId, 'hold')).toBe(0);
+    });
+});
@@ -0,0 +1,91 @@
+// backend/tests/ledger/reconciliation.test.ts
+/**
+ * Сверка леджера (ledgerReconciliationService)
+ *
+ * 1. Чистый леджер: прогон 'ok', ведомость сбалансирована по каждой валюте
+ * 2. Проводка со счётом другой валюты, отрицательный счёт и расхождение app_user.balance
+ *    попадают в находки прогона
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { db } from '../../src/db/db';
+import { appUser } from '../../src/db/schema/users';
+import { ledgerPosting, ledgerTxn, ledgerAccount } from '../../src/db/schema/ledger';
+import { ledgerReconciliationRun } from '../../src/db/schema/ledgerReconciliation';
+import { ledgerReconciliationService } from '../../src/services/ledgerReconciliationService';
+import { ledgerReconciliationStorage } from '../../src/storage/ledgerReconciliationStorage';
+import { ledgerStorage } from '../../src/storage/ledgerStorage';
+import walletService from '../../src/services/walletService';
+import { randomUUID } from 'crypto';
+import { eq } from 'drizzle-orm';
+
+async function createUser(label: string) {
+    const [u] = await db
+        .insert(appUser)
+        .values({
+            email: `${label}@test.com`,
+            telegramId: `${label}_${Date.now()}`,
+            referralCode: `${label.toUpperCase()}_${Date.now()}`,
+        })
+        .returning();
+    return u;
+}
+
+describe('Ledger reconciliation', () => {
+    let userId: string;
+
+    beforeEach(async () => {
+        await db.delete(ledgerReconciliationRun);
+        await db.delete(ledgerPosting);
+        await db.delete(ledgerTxn);
+        await db.delete(ledgerAccount);
+        await db.delete(appUser);
+
+        userId = (await createUser('recon')).id;
+    });
+
+    it('чистый леджер — прогон ok, ведомость сбалансирована', async () => {
+        await walletService.creditUser(userId, 100, { currency: 'RUB', opType: 'reward' });
+        await db.update(appUser).set({ balance: '100' }).where(eq(appUser.id, userId));
+
+        const run = await ledgerReconciliationService.run();
+        expect(run.status).toBe('ok');
+        expect(run.findingsCount).toBe(0);
+
+        const tb = await ledgerReconciliationService.getTrialBalance();
+        const rub = tb.totals.find((t) => t.currency === 'RUB');
+        expect(rub).toEqual({ currency: 'RUB', debit: 100, credit: 100, balanced: true });
+
+        const cash = tb.rows.find((r) => r.type === 'cash_rub' && r.currency === 'RUB');
+        expect(cash?.balance).toBe(0); // user +100, system −100
+    });
+
+    it('находит несбалансированную txn, отрицательный счёт и расхождение баланса', async () => {
+        const cash = await ledgerStorage.ensureAccount(userId, 'RUB', 'cash_rub', 'user');
+        const pv = await ledgerStorage.ensureAccount(userId, 'PV', 'pv', 'user');
+
+        const [txn] = await db
+            .insert(ledgerTxn)
+            .values({ operationId: randomUUID(), opType: 'adjustment', userId })
+            .returning();
+        // RUB-проводка с дебетом PV-счёта: кредит cash_rub без парного RUB-дебета
+        await db.insert(ledgerPosting).values({
+            txnId: txn.id,
+            debitAccountId: pv.id,
+            creditAccountId: cash.id,
+            amount: '30',
+            currency: 'RUB',
+        });
+
+        const run = await ledgerReconciliationService.run();
+        expect(run.status).toBe('issues');
+
+        const byKind = await ledgerReconciliationStorage.countFindingsByKind(run.id);
+        expect(byKind).toMatchObject({ unbalanced_txn: 1, negative_account: 1, user_balance_mismatch: 1 });
+
+        const [mismatch] = await ledgerReconciliationStorage.listFindings(run.id, { kind: 'user_balance_mismatch' });
+        expect(mismatch.userId).toBe(userId);
+        expect(Number(mismatch.expected)).toBe(-30);
+        expect(Number(mismatch.actual)).toBe(0);
+    });
+});
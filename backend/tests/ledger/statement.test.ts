@@ -0,0 +1,73 @@
+// backend/tests/ledger/statement.test.ts
+/**
+ * Выписка по счёту (accountStatementService)
+ *
+ * До периода: +500 ₽. В периоде: +200 ₽ (реферальный бонус), −50 ₽ (выплата).
+ * Входящий остаток 500, нарастающий 700 → 650, исходящий 650.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { db } from '../../src/db/db';
+import { appUser } from '../../src/db/schema/users';
+import { ledgerPosting, ledgerTxn, ledgerAccount } from '../../src/db/schema/ledger';
+import { accountStatementService } from '../../src/services/accountStatementService';
+import walletService from '../../src/services/walletService';
+import { eq } from 'drizzle-orm';
+
+describe('Account statement', () => {
+    let userId: string;
+    let from: Date;
+
+    beforeEach(async () => {
+        await db.delete(ledgerPosting);
+        await db.delete(ledgerTxn);
+        await db.delete(ledgerAccount);
+        await db.delete(appUser);
+
+        const [u] = await db
+            .insert(appUser)
+            .values({
+                email: 'statement@test.com',
+                telegramId: `statement_${Date.now()}`,
+                referralCode: `STATEMENT_${Date.now()}`,
+            })
+            .returning();
+        userId = u.id;
+
+        const { postings } = await walletService.creditUser(userId, 500, { currency: 'RUB', opType: 'reward' });
+        // Первое начисление — «прошлый месяц»
+        await db
+            .update(ledgerPosting)
+            .set({ createdAt: new Date(Date.now() - 40 * 86_400_000) })
+            .where(eq(ledgerPosting.id, postings[0]!.id));
+
+        from = new Date(Date.now() - 86_400_000);
+        await walletService.creditUser(userId, 200, { currency: 'RUB', opType: 'referral_bonus' });
+        await walletService.debitUser(userId, 50, { currency: 'RUB', opType: 'withdrawal_payout' });
+    });
+
+    it('считает входящий, нарастающий и исходящий остатки', async () => {
+        const st = await accountStatementService.getStatement(userId, {
+            type: 'cash_rub',
+            currency: 'RUB',
+            from,
+            to: new Date(Date.now() + 1000),
+        });
+
+        expect(st.openingBalance).toBe(500);
+        expect(st.lines.map((l) => [l.amount, l.balance])).toEqual([
+            [200, 700],
+            [-50, 650],
+        ]);
+        expect(st.closingBalance).toBe(650);
+        expect(st.totalIn).toBe(200);
+        expect(st.totalOut).toBe(50);
+        expect(st.lines[0]!.description).toBe('Реферальный бонус');
+
+        const csv = accountStatementService.toCsv(st);
+        expect(csv.split('\r\n').filter(Boolean)).toHaveLength(5);
+
+        const pdf = await accountStatementService.renderPdf(st, 'statement@test.com');
+        expect(pdf.subarray(0, 5).toString()).toBe('%PDF-');
+    });
+});
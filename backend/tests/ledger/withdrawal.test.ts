@@ -0,0 +1,101 @@
+// backend/tests/ledger/withdrawal.test.ts
+/**
+ * Заявка на вывод: отказ / отмена возвращают заблокированное ровно один раз (withdrawalsService)
+ *
+ * 1. Параллельные reject + cancel + повторный reject — проходит один, referral пополняется один раз
+ * 2. Разблокировка — отдельная операция withdrawal_unlock, выплату после отказа провести нельзя
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { and, eq } from 'drizzle-orm';
+import { randomUUID } from 'crypto';
+import { db } from '../../src/db/db';
+import { appUser } from '../../src/db/schema/users';
+import { ledgerPosting, ledgerTxn, ledgerAccount } from '../../src/db/schema/ledger';
+import { withdrawalRequest } from '../../src/db/schema/withdrawals';
+import { withdrawalsService } from '../../src/services/withdrawalService';
+import walletService from '../../src/services/walletService';
+
+async function referral(userId: string) {
+    return (await walletService.getUserBalance(userId, 'RUB', 'referral')).balance;
+}
+
+describe('Withdrawal unlock', () => {
+    let userId: string;
+    const adminId = randomUUID();
+
+    beforeEach(async () => {
+        await db.delete(withdrawalRequest);
+        await db.delete(ledgerPosting);
+        await db.delete(ledgerTxn);
+        await db.delete(ledgerAccount);
+        await db.delete(appUser);
+
+        const [u] = await db
+            .insert(appUser)
+            .values({
+                email: 'withdraw@test.com',
+                telegramId: `withdraw_${Date.now()}`,
+                referralCode: `WITHDRAW_${Date.now()}`,
+                mlmStatus: 'partner',
+            })
+            .returning();
+        userId = u.id;
+
+        await walletService.creditUser(userId, 500, {
+            currency: 'RUB',
+            userType: 'referral',
+            opType: 'adjustment',
+            options: { operationId: `test:withdraw:topup:${userId}` },
+        });
+    });
+
+    const request = () =>
+        withdrawalsService.create({
+            userId,
+            amountRub: '400',
+            method: 'sbp',
+            destination: {},
+            idempotencyKey: `withdraw-test-${userId}`,
+        });
+
+    it('параллельные отказ и отмена возвращают средства один раз', async () => {
+        const created = await request();
+        expect(await referral(userId)).toBe(100);
+
+        const results = await Promise.allSettled([
+            withdrawalsService.reject({ id: created.id, adminId, reason: 'Неверные реквизиты' }),
+            withdrawalsService.cancel(created.id, userId),
+            withdrawalsService.reject({ id: created.id, adminId, reason: 'Двойной клик' }),
+        ]);
+
+        expect(results.filter((r) => r.status === 'fulfilled')).toHaveLength(1);
+        for (const r of results.filter((r) => r.status === 'rejected')) {
+            expect((r as PromiseRejectedResult).reason).toMatchObject({ code: 'INVALID_STATE', status: 409 });
+        }
+
+        expect(await referral(userId)).toBe(500);
+
+        const unlocks = await db
+            .select()
+            .from(ledgerTxn)
+            .where(and(eq(ledgerTxn.userId, userId), eq(ledgerTxn.opType, 'withdrawal_unlock')));
+        expect(unlocks).toHaveLength(1);
+        expect(unlocks[0]!.meta).toMatchObject({ withdrawalId: created.id });
+    });
+
+    it('после отказа заявку нельзя выплатить', async () => {
+        const created = await request();
+        await withdrawalsService.approve({ id: created.id, adminId });
+        const rejected = await withdrawalsService.reject({ id: created.id, adminId, reason: 'Отказ' });
+        expect(rejected.status).toBe('rejected');
+
+        await expect(withdrawalsService.markPaid({ id: created.id, adminId, providerInfo: {} })).rejects.toMatchObject({
+            code: 'INVALID_STATE',
+        });
+        await expect(withdrawalsService.reject({ id: created.id, adminId, reason: 'Ещё раз' })).rejects.toMatchObject({
+            code: 'INVALID_STATE',
+        });
+        expect(await referral(userId)).toBe(500);
+    });
+});
@@ -0,0 +1,179 @@
+// backend/tests/mlm/binary.test.ts
+/**
+ * Бинарный бонус (binaryBonusService)
+ *
+ * Дерево:            root
+ *                   /    \
+ *                 left   right
+ *
+ * 1. PV заказа поднимается к предку в нужную ногу
+ * 2. Выплата = % от слабой ноги, остаток сильной ноги переносится (carry)
+ * 3. Повторная обработка заказа не начисляет второй раз
+ * 4. Лимит за период: превышение сгорает
+ * 5. Проводка упала после коммита объёмов — повтор дозачисляет выплату один раз
+ * 6. Повтор после сбоя посреди цепочки не выходит за бюджет заказа
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { db } from '../../src/db/db';
+import { appUser } from '../../src/db/schema/users';
+import { matrixPlacement } from '../../src/db/schema/matrixPlacement';
+import { binaryBonusLog } from '../../src/db/schema/binaryBonus';
+import { binaryBonusService } from '../../src/services/binaryBonusService';
+import walletService from '../../src/services/walletService';
+import { settlementSettingsRuntime } from '../../src/config/settlementSettings';
+import { eq } from 'drizzle-orm';
+import { randomUUID } from 'crypto';
+
+async function createUser(label: string, mlmStatus: 'customer' | 'partner' = 'partner') {
+    const [u] = await db
+        .insert(appUser)
+        .values({
+            email: `${label}@test.com`,
+            telegramId: `${label}_${Date.now()}`,
+            referralCode: `${label.toUpperCase()}_${Date.now()}`,
+            mlmStatus,
+        })
+        .returning();
+    return u;
+}
+
+async function getPlacement(userId: string) {
+    const [row] = await db.select().from(matrixPlacement).where(eq(matrixPlacement.userId, userId));
+    return row;
+}
+
+describe('Binary bonus engine', () => {
+    let rootId: string;
+    let leftId: string;
+    let rightId: string;
+    const originalCap = settlementSettingsRuntime.binaryPeriodCapRub;
+
+    beforeEach(async () => {
+        await db.delete(binaryBonusLog);
+        await db.delete(matrixPlacement);
+        await db.delete(appUser);
+
+        settlementSettingsRuntime.binaryBonusPercent = 10;
+        settlementSettingsRuntime.pvRubPerPv = 200;
+        settlementSettingsRuntime.binaryPeriodCapRub = null;
+
+        rootId = (await createUser('root')).id;
+        leftId = (await createUser('left')).id;
+        rightId = (await createUser('right')).id;
+
+        await db.insert(matrixPlacement).values([
+            { userId: rootId, parentId: null, position: null, level: 0 },
+            { userId: leftId, parentId: rootId, position: 'left', level: 1 },
+            { userId: rightId, parentId: rootId, position: 'right', level: 1 },
+        ]);
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+        settlementSettingsRuntime.binaryPeriodCapRub = originalCap;
+    });
+
+    it('добавляет PV в ногу предка и переносит остаток без выплаты', async () => {
+        const res = await binaryBonusService.processOrderVolume(randomUUID(), leftId, 50, 10_000);
+
+        expect(res.totalPaidRub).toBe(0);
+
+        const root = await getPlacement(rootId);
+        expect(Number(root.leftLegVolume)).toBe(50);
+        expect(Number(root.leftCarryPv)).toBe(50);
+        expect(Number(root.rightCarryPv)).toBe(0);
+    });
+
+    it('платит % от слабой ноги и оставляет carry сильной ноги', async () => {
+        await binaryBonusService.processOrderVolume(randomUUID(), leftId, 50, 10_000);
+        const res = await binaryBonusService.processOrderVolume(randomUUID(), rightId, 20, 10_000);
+
+        // 20 PV × 200 ₽ × 10% = 400 ₽
+        expect(res.totalPaidRub).toBe(400);
+
+        const root = await getPlacement(rootId);
+        expect(Number(root.leftCarryPv)).toBe(30);
+        expect(Number(root.rightCarryPv)).toBe(0);
+        expect(Number(root.rightLegVolume)).toBe(20);
+    });
+
+    it('повторная обработка того же заказа идемпотентна', async () => {
+        await binaryBonusService.processOrderVolume(randomUUID(), leftId, 50, 10_000);
+        const orderId = randomUUID();
+
+        const first = await binaryBonusService.processOrderVolume(orderId, rightId, 20, 10_000);
+        const second = await binaryBonusService.processOrderVolume(orderId, rightId, 20, 10_000);
+
+        expect(first.totalPaidRub).toBe(400);
+        expect(second.totalPaidRub).toBe(0);
+
+        const root = await getPlacement(rootId);
+        expect(Number(root.rightLegVolume)).toBe(20);
+    });
+
+    it('лимит периода: превышение сгорает', async () => {
+        settlementSettingsRuntime.binaryPeriodCapRub = 300;
+
+        await binaryBonusService.processOrderVolume(randomUUID(), leftId, 50, 10_000);
+        const res = await binaryBonusService.processOrderVolume(randomUUID(), rightId, 20, 10_000);
+
+        expect(res.totalPaidRub).toBe(300);
+        expect(res.payouts[0]?.flushedPv).toBe(5);
+
+        const root = await getPlacement(rootId);
+        expect(Number(root.leftCarryPv)).toBe(30);
+        expect(Number(root.rightCarryPv)).toBe(0);
+    });
+
+    it('выплата, не дошедшая до ledger, дозачисляется при повторе', async () => {
+        await binaryBonusService.processOrderVolume(randomUUID(), leftId, 50, 10_000);
+        const orderId = randomUUID();
+
+        const credit = vi.spyOn(walletService, 'creditUser').mockRejectedValueOnce(new Error('ledger down'));
+        await expect(binaryBonusService.processOrderVolume(orderId, rightId, 20, 10_000)).rejects.toThrow('ledger down');
+
+        // Объёмы и лог уже закоммичены, проводки нет
+        const [pending] = await db.select().from(binaryBonusLog).where(eq(binaryBonusLog.orderId, orderId));
+        expect(Number(pending!.payoutRub)).toBe(400);
+        expect(pending!.ledgerTxnId).toBeNull();
+
+        const retry = await binaryBonusService.processOrderVolume(orderId, rightId, 20, 10_000);
+        expect(retry.totalPaidRub).toBe(400);
+        expect(Number((await getPlacement(rootId)).rightLegVolume)).toBe(20);
+
+        const [posted] = await db.select().from(binaryBonusLog).where(eq(binaryBonusLog.orderId, orderId));
+        expect(posted!.ledgerTxnId).not.toBeNull();
+
+        const again = await binaryBonusService.processOrderVolume(orderId, rightId, 20, 10_000);
+        expect(again.totalPaidRub).toBe(0);
+        expect(credit).toHaveBeenCalledTimes(2);
+    });
+
+    it('повтор после сбоя посреди цепочки учитывает уже выплаченных предков в бюджете', async () => {
+        // root ← left ← leftChild; у обоих предков справа уже есть carry
+        const leftChildId = (await createUser('leftchild')).id;
+        await db.insert(matrixPlacement).values({ userId: leftChildId, parentId: leftId, position: 'left', level: 2 });
+        await db.update(matrixPlacement).set({ rightCarryPv: '50' }).where(eq(matrixPlacement.userId, rootId));
+        await db.update(matrixPlacement).set({ rightCarryPv: '50' }).where(eq(matrixPlacement.userId, leftId));
+
+        const orderId = randomUUID();
+        const service = binaryBonusService as any;
+        const apply = service.applyVolumeToAncestor.bind(binaryBonusService);
+        vi.spyOn(service, 'applyVolumeToAncestor')
+            .mockImplementationOnce(apply)
+            .mockRejectedValueOnce(new Error('db down'));
+
+        // 20 PV × 200 ₽ × 10% = 400 ₽ каждому предку, бюджет заказа — 600 ₽
+        await expect(binaryBonusService.processOrderVolume(orderId, leftChildId, 20, 600)).rejects.toThrow('db down');
+        vi.restoreAllMocks();
+
+        const retry = await binaryBonusService.processOrderVolume(orderId, leftChildId, 20, 600);
+        expect(retry.payouts).toEqual([expect.objectContaining({ userId: rootId, payoutRub: 200 })]);
+
+        const logs = await db.select().from(binaryBonusLog).where(eq(binaryBonusLog.orderId, orderId));
+        expect(logs.reduce((sum, l) => sum + Number(l.payoutRub), 0)).toBe(600);
+        // Невыплаченная часть осталась в carry корня
+        expect(Number((await getPlacement(rootId)).rightCarryPv)).toBe(40);
+    });
+});
@@ -0,0 +1,144 @@
+// backend/tests/mlm/compression.test.ts
+/**
+ * Компрессия upline для L1–L15 (referralUplineService)
+ *
+ * Цепочка:  buyer → customer → activeA → inactiveB → activeC
+ *
+ * Без компрессии: уровни физические, customer пропускается (L1 сгорает),
+ *                 неактивный партнёр получает свой уровень.
+ * С компрессией:  customer и неактивный партнёр сжимаются —
+ *                 activeA наследует L1, activeC — L2.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { db } from '../../src/db/db';
+import { appUser } from '../../src/db/schema/users';
+import { networkEdge } from '../../src/db/schema/network';
+import { order } from '../../src/db/schema/orders';
+import { referralUplineService } from '../../src/services/referralUplineService';
+import { settlementSettingsRuntime } from '../../src/config/settlementSettings';
+import { eq } from 'drizzle-orm';
+
+async function createUser(
+    label: string,
+    mlmStatus: 'customer' | 'partner' | 'partner_pro' = 'partner',
+    canReceiveFirstlineBonus = false
+) {
+    const [u] = await db
+        .insert(appUser)
+        .values({
+            email: `${label}@test.com`,
+            telegramId: `${label}_${Date.now()}`,
+            referralCode: `${label.toUpperCase()}_${Date.now()}`,
+            mlmStatus,
+            canReceiveFirstlineBonus,
+        })
+        .returning();
+    return u;
+}
+
+async function deliveredPv(userId: string, pv: number, deliveredAt: Date) {
+    await db.insert(order).values({
+        userId,
+        status: 'delivered',
+        deliveryStatus: 'delivered',
+        pvEarned: pv,
+        deliveredAt,
+    });
+}
+
+describe('Referral upline compression', () => {
+    const now = new Date();
+    const daysAgo = (d: number) => new Date(now.getTime() - d * 24 * 60 * 60 * 1000);
+    const original = { ...settlementSettingsRuntime };
+
+    let buyerId: string;
+    let customerId: string;
+    let activeAId: string;
+    let inactiveBId: string;
+    let activeCId: string;
+
+    beforeEach(async () => {
+        await db.delete(order);
+        await db.delete(networkEdge);
+        await db.delete(appUser);
+
+        settlementSettingsRuntime.compressionActivityDays = 30;
+        settlementSettingsRuntime.compressionMinPv = 10;
+
+        buyerId = (await createUser('buyer', 'customer')).id;
+        customerId = (await createUser('cust', 'customer')).id;
+        activeAId = (await createUser('activea')).id;
+        inactiveBId = (await createUser('inactiveb')).id;
+        activeCId = (await createUser('activec', 'partner_pro')).id;
+
+        await db.insert(networkEdge).values([
+            { parentId: customerId, childId: buyerId },
+            { parentId: activeAId, childId: customerId },
+            { parentId: inactiveBId, childId: activeAId },
+            { parentId: activeCId, childId: inactiveBId },
+        ]);
+
+        await deliveredPv(activeAId, 15, daysAgo(5));
+        await deliveredPv(activeCId, 10, daysAgo(29));
+        // Заказ B вне окна активности
+        await deliveredPv(inactiveBId, 50, daysAgo(45));
+    });
+
+    afterEach(() => {
+        Object.assign(settlementSettingsRuntime, original);
+    });
+
+    it('без компрессии: физические уровни, customer пропускается', async () => {
+        const res = await referralUplineService.resolve(buyerId, now, { compression: false });
+
+        expect(res.compressed).toBe(false);
+        expect(res.hops.map((h) => [h.userId, h.level])).toEqual([
+            [activeAId, 2],
+            [inactiveBId, 3],
+            [activeCId, 4],
+        ]);
+        expect(res.skipped.map((s) => s.userId)).toEqual([customerId]);
+    });
+
+    it('с компрессией: следующий активный партнёр наследует уровень', async () => {
+        const res = await referralUplineService.resolve(buyerId, now, { compression: true });
+
+        expect(res.compressed).toBe(true);
+        expect(res.hops.map((h) => [h.userId, h.level, h.physicalLevel])).toEqual([
+            [activeAId, 1, 2],
+            [activeCId, 2, 4],
+        ]);
+        expect(res.skipped.map((s) => [s.userId, s.reason])).toEqual([
+            [customerId, 'customer'],
+            [inactiveBId, 'inactive'],
+        ]);
+    });
+
+    it('окно активности считается от момента доставки', async () => {
+        // Через 10 дней заказ C (29 дней назад) выходит из 30-дневного окна
+        const later = new Date(now.getTime() + 10 * 24 * 60 * 60 * 1000);
+        const res = await referralUplineService.resolve(buyerId, later, { compression: true });
+
+        expect(res.hops.map((h) => h.userId)).toEqual([activeAId]);
+    });
+
+    it('с компрессией: customer с флагом сохраняет L1 как прямой реферер', async () => {
+        await db.update(appUser).set({ canReceiveFirstlineBonus: true }).where(eq(appUser.id, customerId));
+
+        const res = await referralUplineService.resolve(buyerId, now, { compression: true });
+
+        expect(res.hops.map((h) => [h.userId, h.level])).toEqual([
+            [customerId, 1],
+            [activeAId, 2],
+            [activeCId, 3],
+        ]);
+    });
+
+    it('режим по умолчанию берётся из settlement settings', async () => {
+        settlementSettingsRuntime.isCompressionEnabled = true;
+        const res = await referralUplineService.resolve(buyerId, now);
+        expect(res.compressed).toBe(true);
+        expect(res.hops[0]?.userId).toBe(activeAId);
+    });
+});
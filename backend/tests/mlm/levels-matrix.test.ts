@@ -0,0 +1,76 @@
+// backend/tests/mlm/levels-matrix.test.ts
+/**
+ * Версии матрицы уровней (levelsMatrixService)
+ *
+ * 1. Σ = 0.93 (reserve_7pct) / 1.00 (full) — валидно, иначе ошибка
+ * 2. Для даты берётся версия, действовавшая на тот момент
+ * 3. Без версий — legacy-ставки от order_base
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { db } from '../../src/db/db';
+import { levelsMatrixVersions } from '../../src/db/schema/levels-matrix';
+import { levelsMatrixService } from '../../src/services/levelsMatrixService';
+
+// 0.30 + 0.20 + 12 × 0.03 + 0.07 = 0.93
+const RESERVE_LEVELS = [0.3, 0.2, ...Array(12).fill(0.03), 0.07];
+const FULL_LEVELS = [0.37, 0.2, ...Array(12).fill(0.03), 0.07];
+
+describe('Levels matrix versions', () => {
+    beforeEach(async () => {
+        await db.delete(levelsMatrixVersions);
+    });
+
+    it('проверяет сумму под sum_mode', () => {
+        expect(levelsMatrixService.validate({
+            sumMode: 'reserve_7pct',
+            levels: RESERVE_LEVELS,
+            fastLevels: RESERVE_LEVELS,
+        }).valid).toBe(true);
+
+        expect(levelsMatrixService.validate({
+            sumMode: 'full',
+            levels: FULL_LEVELS,
+            fastLevels: FULL_LEVELS,
+        }).valid).toBe(true);
+
+        const bad = levelsMatrixService.validate({
+            sumMode: 'full',
+            levels: RESERVE_LEVELS,
+            fastLevels: FULL_LEVELS,
+        });
+        expect(bad.valid).toBe(false);
+        expect(bad.errors[0]).toContain('levels sum is 0.9300');
+    });
+
+    it('выбирает версию, действовавшую на дату доставки', async () => {
+        const v1 = await levelsMatrixService.createVersion({
+            sumMode: 'reserve_7pct',
+            levels: RESERVE_LEVELS,
+            fastLevels: RESERVE_LEVELS,
+        });
+        const v2 = await levelsMatrixService.createVersion({
+            sumMode: 'full',
+            levels: FULL_LEVELS,
+            fastLevels: FULL_LEVELS,
+        });
+
+        const t1 = new Date(Date.now() - 60_000);
+        await levelsMatrixService.scheduleVersion(v1.id, t1);
+        const t2 = new Date(Date.now() + 24 * 60 * 60 * 1000);
+        await levelsMatrixService.scheduleVersion(v2.id, t2);
+
+        expect((await levelsMatrixService.resolveAt(new Date())).versionId).toBe(v1.id);
+        expect((await levelsMatrixService.resolveAt(new Date(t2.getTime() + 1000))).versionId).toBe(v2.id);
+
+        // Вступившую в силу версию перепланировать нельзя
+        await expect(levelsMatrixService.scheduleVersion(v1.id, t2)).rejects.toThrow();
+    });
+
+    it('без версий использует legacy-ставки от order_base', async () => {
+        const matrix = await levelsMatrixService.resolveAt(new Date());
+        expect(matrix.versionId).toBeNull();
+        expect(matrix.base).toBe('order_base');
+        expect(matrix.levels).toHaveLength(15);
+    });
+});
@@ -0,0 +1,144 @@
+// backend/tests/mlm/rank-bonus.test.ts
+/**
+ * Ранговые бонусы из сетевого фонда (networkFundService.distributeBonuses)
+ *
+ * Проценты: member 2%, лидер 5%, создатель 10%. Фонд заказа 1000 ₽ → ранговый бюджет 200 ₽.
+ *
+ * Upline покупателя (снизу вверх):
+ *   leaderA (лидер)                → 5%  = 10 ₽
+ *   leaderB (лидер)                → 0   (ранг не выше уже оплаченного)
+ *   creatorCustomer (создатель, customer) → пропуск
+ *   creatorInactive (создатель, неактивен) → пропуск
+ *   memberAbove (member)           → 0   (младший ранг над старшим)
+ *   creator (создатель)            → 10% − 5% = 10 ₽
+ *   creatorTop (создатель)         → 0
+ *
+ * Итого 20 ₽ = budget × max(bonusPercent); повторное распределение не платит второй раз.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { db } from '../../src/db/db';
+import { appUser } from '../../src/db/schema/users';
+import { order } from '../../src/db/schema/orders';
+import { networkEdge } from '../../src/db/schema/network';
+import { rankRules } from '../../src/db/schema/ranks';
+import { orderLog } from '../../src/db/schema/system';
+import { ledgerPosting, ledgerTxn, ledgerAccount } from '../../src/db/schema/ledger';
+import { networkFundService } from '../../src/services/networkFundService';
+import walletService from '../../src/services/walletService';
+import { and, eq } from 'drizzle-orm';
+
+type Rank = 'member' | 'лидер' | 'создатель';
+
+async function createUser(
+    label: string,
+    rank: Rank,
+    opts: { mlmStatus?: 'customer' | 'partner'; isActive?: boolean } = {}
+) {
+    const [u] = await db
+        .insert(appUser)
+        .values({
+            email: `${label}@test.com`,
+            telegramId: `${label}_${Date.now()}`,
+            referralCode: `${label.toUpperCase()}_${Date.now()}`,
+            mlmStatus: opts.mlmStatus ?? 'partner',
+            isActive: opts.isActive ?? true,
+            rank,
+        })
+        .returning();
+    return u;
+}
+
+async function cashBalance(userId: string) {
+    return (await walletService.getUserBalance(userId, 'RUB', 'cash_rub')).balance;
+}
+
+describe('Rank bonus distribution', () => {
+    let orderId: string;
+    const users: Record<string, string> = {};
+
+    beforeEach(async () => {
+        await db.delete(orderLog);
+        await db.delete(ledgerPosting);
+        await db.delete(ledgerTxn);
+        await db.delete(ledgerAccount);
+        await db.delete(networkEdge);
+        await db.delete(order);
+        await db.delete(appUser);
+        await db.delete(rankRules);
+
+        await db.insert(rankRules).values([
+            { rank: 'member', name: 'Участник', bonusPercent: '2' },
+            { rank: 'лидер', name: 'Лидер', bonusPercent: '5' },
+            { rank: 'создатель', name: 'Создатель', bonusPercent: '10' },
+        ]);
+
+        const buyer = await createUser('rb_buyer', 'member', { mlmStatus: 'customer' });
+        const chain: Array<[string, Rank, { mlmStatus?: 'customer' | 'partner'; isActive?: boolean }?]> = [
+            ['leaderA', 'лидер'],
+            ['leaderB', 'лидер'],
+            ['creatorCustomer', 'создатель', { mlmStatus: 'customer' }],
+            ['creatorInactive', 'создатель', { isActive: false }],
+            ['memberAbove', 'member'],
+            ['creator', 'создатель'],
+            ['creatorTop', 'создатель'],
+        ];
+
+        let childId = buyer.id;
+        for (const [label, rank, opts] of chain) {
+            const u = await createUser(`rb_${label}`, rank, opts);
+            users[label] = u.id;
+            await db.insert(networkEdge).values({ parentId: u.id, childId });
+            childId = u.id;
+        }
+
+        const [ord] = await db
+            .insert(order)
+            .values({
+                userId: buyer.id,
+                status: 'delivered',
+                deliveryStatus: 'delivered',
+                pvEarned: 0,
+                itemsSubtotalRub: '10000',
+                orderBaseRub: '10000',
+                totalPayableRub: '10000',
+                networkFundRub: '1000',
+            })
+            .returning();
+        orderId = ord.id;
+    });
+
+    it('дифференциал по рангам и пропуск неактивных и customer', async () => {
+        const res = await networkFundService.distributeBonuses(orderId);
+
+        expect(await cashBalance(users.leaderA!)).toBe(10);
+        expect(await cashBalance(users.creator!)).toBe(10);
+        for (const label of ['leaderB', 'creatorCustomer', 'creatorInactive', 'memberAbove', 'creatorTop']) {
+            expect(await cashBalance(users[label]!)).toBe(0);
+        }
+
+        // Не больше budget × max(bonusPercent) = 200 × 10%
+        expect(res.rankBonusesRub).toBe(20);
+        expect(res.rankBonusesRub).toBeLessThanOrEqual(200 * 0.1);
+    });
+
+    it('повторное распределение заказа не платит и не пишет событие второй раз', async () => {
+        await networkFundService.distributeBonuses(orderId);
+        await networkFundService.distributeBonuses(orderId);
+
+        expect(await cashBalance(users.leaderA!)).toBe(10);
+        expect(await cashBalance(users.creator!)).toBe(10);
+
+        const txns = await db
+            .select()
+            .from(ledgerTxn)
+            .where(and(eq(ledgerTxn.orderId, orderId), eq(ledgerTxn.opType, 'network_bonus')));
+        expect(txns).toHaveLength(2);
+
+        const events = await db
+            .select()
+            .from(orderLog)
+            .where(and(eq(orderLog.orderId, orderId), eq(orderLog.event, 'balance:rank_bonus')));
+        expect(events).toHaveLength(2);
+    });
+});
@@ -0,0 +1,117 @@
+// backend/tests/mlm/rank.test.ts
+/**
+ * Квалификация рангов по итогам месяца (rankEvaluationService)
+ *
+ * 1. Выполнены условия «лидер» → повышение
+ * 2. dry-run ничего не меняет
+ * 3. Не выполнены условия в пределах holdMonths → ранг удерживается
+ * 4. Не выполнены условия дольше holdMonths → понижение
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { db } from '../../src/db/db';
+import { appUser } from '../../src/db/schema/users';
+import { order } from '../../src/db/schema/orders';
+import { rankRules } from '../../src/db/schema/ranks';
+import { mlmMonthlyStats } from '../../src/db/schema/mlmAnalytics';
+import { rankEvaluationService } from '../../src/services/rankEvaluationService';
+import { eq } from 'drizzle-orm';
+
+const MONTH = '2025-03';
+
+async function createUser(label: string, rank: 'member' | 'лидер' = 'member') {
+    const [u] = await db
+        .insert(appUser)
+        .values({
+            email: `${label}@test.com`,
+            telegramId: `${label}_${Date.now()}`,
+            referralCode: `${label.toUpperCase()}_${Date.now()}`,
+            mlmStatus: 'partner',
+            rank,
+        })
+        .returning();
+    return u;
+}
+
+async function deliverOrder(userId: string, pv: number, baseRub: number) {
+    await db.insert(order).values({
+        userId,
+        status: 'delivered',
+        deliveryStatus: 'delivered',
+        pvEarned: pv,
+        orderBaseRub: baseRub.toFixed(2),
+        deliveredAt: new Date(Date.UTC(2025, 2, 15)),
+    });
+}
+
+async function getRank(userId: string) {
+    const [row] = await db.select({ rank: appUser.rank }).from(appUser).where(eq(appUser.id, userId));
+    return row?.rank;
+}
+
+describe('Rank evaluation', () => {
+    beforeEach(async () => {
+        await db.delete(mlmMonthlyStats);
+        await db.delete(order);
+        await db.delete(appUser);
+        await db.delete(rankRules);
+
+        await db.insert(rankRules).values({
+            rank: 'лидер',
+            name: 'Лидер',
+            requiredPv: '50',
+            requiredTurnover: '10000',
+            holdMonths: 1,
+        });
+    });
+
+    it('повышает ранг при выполнении условий', async () => {
+        const user = await createUser('leader');
+        await deliverOrder(user.id, 60, 12_000);
+
+        const res = await rankEvaluationService.evaluateMonth(MONTH, { dryRun: false });
+
+        expect(res.promoted).toBe(1);
+        expect(res.decisions[0]?.newRank).toBe('лидер');
+        expect(await getRank(user.id)).toBe('лидер');
+    });
+
+    it('dry-run показывает решение, но не меняет ранг', async () => {
+        const user = await createUser('preview');
+        await deliverOrder(user.id, 60, 12_000);
+
+        const res = await rankEvaluationService.evaluateMonth(MONTH, { dryRun: true });
+
+        expect(res.decisions[0]?.action).toBe('promote');
+        expect(await getRank(user.id)).toBe('member');
+    });
+
+    it('удерживает ранг в пределах holdMonths', async () => {
+        const user = await createUser('holder', 'лидер');
+        await deliverOrder(user.id, 10, 2_000);
+
+        const res = await rankEvaluationService.evaluateMonth(MONTH, { dryRun: false });
+
+        expect(res.held).toBe(1);
+        expect(res.decisions[0]?.reasons).toContain('PV 10.00 < 50.00');
+        expect(await getRank(user.id)).toBe('лидер');
+    });
+
+    it('понижает ранг после истечения holdMonths', async () => {
+        const user = await createUser('falling', 'лидер');
+        await db.insert(mlmMonthlyStats).values({
+            userId: user.id,
+            month: '2025-02-01',
+            rank: 'лидер',
+            qualifiedRank: 'member',
+            closedAt: new Date(),
+        });
+        await deliverOrder(user.id, 10, 2_000);
+
+        const res = await rankEvaluationService.evaluateMonth(MONTH, { dryRun: false });
+
+        expect(res.demoted).toBe(1);
+        expect(res.decisions[0]?.failedMonths).toBe(2);
+        expect(await getRank(user.id)).toBe('member');
+    });
+});
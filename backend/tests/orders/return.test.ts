@@ -0,0 +1,170 @@
+// backend/tests/orders/return.test.ts
+/**
+ * Возврат заказа со сторно начислений (orderReturnService)
+ *
+ * Заказ: A × 2 по 500 ₽ + B × 1 по 1000 ₽ (стоимость 2000 ₽), спонсор получил 200 ₽ L1.
+ *
+ * 1. Частичный возврат 1 × A (доля 0.25): бонус сторнируется на 50 ₽, товар на складе
+ * 2. Возврат остатка добивает сторно до полной суммы, исходная txn помечается reversed
+ * 3. Если бонус уже потрачен — недостача уходит в receivable и гасится из новых поступлений
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { db } from '../../src/db/db';
+import { appUser } from '../../src/db/schema/users';
+import { product } from '../../src/db/schema/products';
+import { order } from '../../src/db/schema/orders';
+import { orderItem } from '../../src/db/schema/orderItem';
+import { orderReturn } from '../../src/db/schema/orderReturns';
+import { ledgerPosting, ledgerTxn, ledgerAccount } from '../../src/db/schema/ledger';
+import { orderReturnService } from '../../src/services/orderReturnService';
+import walletService from '../../src/services/walletService';
+import { eq } from 'drizzle-orm';
+
+async function createUser(label: string) {
+    const [u] = await db
+        .insert(appUser)
+        .values({
+            email: `${label}@test.com`,
+            telegramId: `${label}_${Date.now()}`,
+            referralCode: `${label.toUpperCase()}_${Date.now()}`,
+            mlmStatus: 'partner',
+        })
+        .returning();
+    return u;
+}
+
+async function cashBalance(userId: string) {
+    return (await walletService.getUserBalance(userId, 'RUB', 'cash_rub')).balance;
+}
+
+describe('Order return reversal', () => {
+    let buyerId: string;
+    let sponsorId: string;
+    let productId: string;
+    let orderId: string;
+    let itemAId: string;
+    let bonusTxnId: string;
+
+    beforeEach(async () => {
+        await db.delete(orderReturn);
+        await db.delete(ledgerPosting);
+        await db.delete(ledgerTxn);
+        await db.delete(ledgerAccount);
+        await db.delete(orderItem);
+        await db.delete(order);
+        await db.delete(product);
+        await db.delete(appUser);
+
+        buyerId = (await createUser('buyer')).id;
+        sponsorId = (await createUser('sponsor')).id;
+
+        const [prod] = await db
+            .insert(product)
+            .values({ name: 'Product', slug: 'product', price: '500', stock: 10 })
+            .returning();
+        productId = prod.id;
+        const [prodB] = await db
+            .insert(product)
+            .values({ name: 'Product B', slug: 'product-b', price: '1000', stock: 5 })
+            .returning();
+
+        const [ord] = await db
+            .insert(order)
+            .values({
+                userId: buyerId,
+                status: 'delivered',
+                deliveryStatus: 'delivered',
+                itemsSubtotalRub: '2000',
+                orderBaseRub: '2000',
+                totalPayableRub: '2000',
+                pvEarned: 20,
+                deliveredAt: new Date(),
+            })
+            .returning();
+        orderId = ord.id;
+
+        const [itemA] = await db
+            .insert(orderItem)
+            .values({
+                orderId,
+                productId,
+                productName: 'Product',
+                qty: 2,
+                unitPriceRub: '500',
+                lineSubtotalRub: '1000',
+                lineTotalRub: '1000',
+                pvEach: 5,
+                pvTotal: 10,
+            })
+            .returning();
+        itemAId = itemA.id;
+
+        await db.insert(orderItem).values({
+            orderId,
+            productId: prodB.id,
+            productName: 'Product B',
+            qty: 1,
+            unitPriceRub: '1000',
+            lineSubtotalRub: '1000',
+            lineTotalRub: '1000',
+            pvEach: 10,
+            pvTotal: 10,
+        });
+
+        const { txn } = await walletService.creditUser(sponsorId, 200, {
+            currency: 'RUB',
+            opType: 'referral_bonus',
+            options: { operationId: `order:${orderId}:ref:1:${sponsorId}`, orderId },
+        });
+        bonusTxnId = txn.id;
+    });
+
+    it('частичный возврат сторнирует долю, полный — остаток', async () => {
+        const partial = await orderReturnService.createReturn(orderId, {
+            items: [{ orderItemId: itemAId, qty: 1 }],
+        });
+
+        expect(partial.orderReturn.kind).toBe('partial');
+        expect(partial.summary.share).toBe(0.25);
+        expect(await cashBalance(sponsorId)).toBe(150);
+
+        const [afterPartial] = await db.select().from(order).where(eq(order.id, orderId));
+        expect(afterPartial.status).toBe('returned_partial');
+        expect(afterPartial.pvEarned).toBe(15);
+
+        const [prod] = await db.select().from(product).where(eq(product.id, productId));
+        expect(prod.stock).toBe(11);
+
+        const full = await orderReturnService.createReturn(orderId, { reason: 'Отказ' });
+        expect(full.orderReturn.kind).toBe('full');
+        expect(await cashBalance(sponsorId)).toBe(0);
+
+        const [original] = await db.select().from(ledgerTxn).where(eq(ledgerTxn.id, bonusTxnId));
+        expect(original.reversedAt).not.toBeNull();
+
+        const [afterFull] = await db.select().from(order).where(eq(order.id, orderId));
+        expect(afterFull.status).toBe('returned_full');
+
+        await expect(orderReturnService.createReturn(orderId)).rejects.toThrow();
+    });
+
+    it('недостача переносится в receivable и гасится из новых поступлений', async () => {
+        // Спонсор уже вывел бонус
+        await walletService.debitUser(sponsorId, 180, { currency: 'RUB', opType: 'withdrawal_payout' });
+
+        const { summary } = await orderReturnService.createReturn(orderId);
+        expect(summary.receivables).toEqual([{ userId: sponsorId, currency: 'RUB', amount: 180 }]);
+        expect(await cashBalance(sponsorId)).toBe(0);
+
+        const receivable = await walletService.getUserBalance(sponsorId, 'RUB', 'receivable');
+        expect(receivable.balance).toBe(-180);
+
+        await walletService.creditUser(sponsorId, 100, { currency: 'RUB', opType: 'reward' });
+        const res = await orderReturnService.settleReceivables(sponsorId);
+
+        expect(res.outstanding).toEqual({ RUB: 80 });
+        expect(await cashBalance(sponsorId)).toBe(0);
+        expect((await walletService.getUserBalance(sponsorId, 'RUB', 'receivable')).balance).toBe(-80);
+    });
+});
@@ -0,0 +1,154 @@
+// backend/tests/orders/stock-reservation.test.ts
+/**
+ * Резерв товара между оформлением и оплатой (stockReservationService)
+ *
+ * 1. Резерв уменьшает доступное, но не stock; второй заказ сверх доступного — 409
+ * 2. Отмена снимает резерв без возврата на склад; оплата списывает stock один раз, отмена оплаченного — возвращает
+ * 3. Просроченный резерв не держит товар и снимается задачей payment-timeout
+ * 4. Статус от админа: paid списывает резерв со склада (один раз), canceled снимает резерв
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { eq } from 'drizzle-orm';
+import { db } from '../../src/db/db';
+import { appUser } from '../../src/db/schema/users';
+import { product } from '../../src/db/schema/products';
+import { order } from '../../src/db/schema/orders';
+import { orderItem } from '../../src/db/schema/orderItem';
+import { stockReservation } from '../../src/db/schema/stockReservations';
+import ordersStorage from '../../src/storage/ordersStorage';
+import { stockReservationsStorage } from '../../src/storage/stockReservationsStorage';
+import { StockReservationService } from '../../src/services/stockReservationService';
+import { PaymentTimeoutWorker } from '../../src/services/paymentTimeoutWorker';
+import { orderLifecycleService } from '../../src/services/orderLifecycleService';
+
+describe('Stock reservations', () => {
+    const reservations = new StockReservationService(() => 30 * 60_000);
+    let userId: string;
+    let productId: string;
+
+    async function newOrder(qty: number) {
+        const [ord] = await db
+            .insert(order)
+            .values({ userId, status: 'new', itemsSubtotalRub: '1000', orderBaseRub: '1000', totalPayableRub: '1000' })
+            .returning();
+        await db.insert(orderItem).values({
+            orderId: ord.id,
+            productId,
+            productName: 'Магний B6',
+            qty,
+            unitPriceRub: '500',
+            lineSubtotalRub: String(500 * qty),
+            lineTotalRub: String(500 * qty),
+        });
+        return ord.id;
+    }
+
+    const getStock = async () => (await db.select().from(product).where(eq(product.id, productId)))[0]!.stock;
+    const getLevel = async () => (await stockReservationsStorage.listLevels({ limit: 10, offset: 0 })).items[0]!;
+
+    beforeEach(async () => {
+        await db.delete(stockReservation);
+        await db.delete(orderItem);
+        await db.delete(order);
+        await db.delete(product);
+        await db.delete(appUser);
+
+        const [user] = await db
+            .insert(appUser)
+            .values({
+                email: 'reserve@test.com',
+                phone: '+79990003344',
+                firstName: 'Анна',
+                lastName: 'Смирнова',
+                telegramId: `reserve_${Date.now()}`,
+                referralCode: `RESERVE_${Date.now()}`,
+            })
+            .returning();
+        userId = user.id;
+
+        const [prod] = await db
+            .insert(product)
+            .values({ name: 'Магний B6', sku: 'MG-B6', price: '500', stock: 10, isActive: true })
+            .returning();
+        productId = prod.id;
+    });
+
+    it('резерв уменьшает доступное, но не остаток', async () => {
+        const first = await newOrder(6);
+        await reservations.reserveOrder(first);
+
+        expect(await getStock()).toBe(10);
+        expect(await getLevel()).toMatchObject({ onHand: 10, reserved: 6, available: 4 });
+
+        const second = await newOrder(5);
+        await expect(reservations.reserveOrder(second)).rejects.toMatchObject({ statusCode: 409 });
+
+        // Повторный резерв того же заказа (начало оплаты) продлевает, а не удваивает
+        await reservations.reserveOrder(first);
+        expect(await getLevel()).toMatchObject({ reserved: 6, available: 4 });
+    });
+
+    it('отмена снимает резерв, оплата списывает остаток один раз', async () => {
+        const first = await newOrder(6);
+        await reservations.reserveOrder(first);
+        await ordersStorage.cancel(first);
+
+        expect(await getStock()).toBe(10);
+        expect(await getLevel()).toMatchObject({ reserved: 0, available: 10 });
+
+        const second = await newOrder(5);
+        await reservations.reserveOrder(second);
+        await db.update(order).set({ status: 'paid' }).where(eq(order.id, second));
+
+        expect(await reservations.convertOrder(second)).toEqual({ converted: 1, oversold: [] });
+        expect(await reservations.convertOrder(second)).toEqual({ converted: 0, oversold: [] });
+        expect(await getStock()).toBe(5);
+        expect(await getLevel()).toMatchObject({ onHand: 5, reserved: 0, available: 5 });
+
+        // Отмена оплаченного возвращает проданное на склад
+        await ordersStorage.cancel(second);
+        expect(await getStock()).toBe(10);
+    });
+
+    it('просроченный резерв не держит товар и снимается по таймауту', async () => {
+        const expired = new StockReservationService(() => -1000);
+        const first = await newOrder(8);
+        await expired.reserveOrder(first);
+
+        expect(await getLevel()).toMatchObject({ reserved: 0, available: 10 });
+        const second = await newOrder(9);
+        await reservations.reserveOrder(second);
+
+        const worker = new PaymentTimeoutWorker({ enableLogging: false });
+        expect(await worker.processTimeouts()).toMatchObject({ processed: 0, releasedReservations: 1 });
+
+        const [row] = await db.select().from(stockReservation).where(eq(stockReservation.orderId, first));
+        expect(row).toMatchObject({ status: 'released', releaseReason: 'expired' });
+    });
+
+    it('paid и canceled от админа проходят через lifecycle', async () => {
+        const paid = await newOrder(4);
+        await reservations.reserveOrder(paid);
+
+        const updated = await orderLifecycleService.setStatusByAdmin(paid, 'paid');
+        expect(updated!.status).toBe('paid');
+        expect(await getStock()).toBe(6);
+
+        const [converted] = await db.select().from(stockReservation).where(eq(stockReservation.orderId, paid));
+        expect(converted!.status).toBe('converted');
+
+        // Повторное подтверждение не списывает второй раз
+        await orderLifecycleService.setStatusByAdmin(paid, 'paid');
+        expect(await getStock()).toBe(6);
+
+        const canceled = await newOrder(3);
+        await reservations.reserveOrder(canceled);
+        expect(await getLevel()).toMatchObject({ onHand: 6, reserved: 3, available: 3 });
+
+        expect((await orderLifecycleService.setStatusByAdmin(canceled, 'canceled'))!.status).toBe('canceled');
+        expect(await getLevel()).toMatchObject({ onHand: 6, reserved: 0, available: 6 });
+        const [released] = await db.select().from(stockReservation).where(eq(stockReservation.orderId, canceled));
+        expect(released).toMatchObject({ status: 'released', releaseReason: 'canceled' });
+    });
+});
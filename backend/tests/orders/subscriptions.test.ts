@@ -0,0 +1,169 @@
+// backend/tests/orders/subscriptions.test.ts
+/**
+ * Подписки на автопополнение (subscriptionService)
+ *
+ * Подписка: Omega-3 (1000 ₽) × 2 раз в месяц, скидка подписчика 10%
+ *
+ * 1. С баланса: заказ оплачен, скидка 200 ₽, к оплате 1800 ₽, PV от order_base после скидки,
+ *    следующая дата — через месяц
+ * 2. Сохранённая карта: Init + Charge по RebillId; отказ банка отменяет заказ и ставит повтор
+ * 3. Пропуск сдвигает дату на период, пауза / возобновление, напоминание уходит один раз
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { eq } from 'drizzle-orm';
+import { db } from '../../src/db/db';
+import { appUser } from '../../src/db/schema/users';
+import { category } from '../../src/db/schema/categories';
+import { product } from '../../src/db/schema/products';
+import { order } from '../../src/db/schema/orders';
+import { orderItem } from '../../src/db/schema/orderItem';
+import { payment } from '../../src/db/schema/payments';
+import { stockReservation } from '../../src/db/schema/stockReservations';
+import { subscription, subscriptionItem } from '../../src/db/schema/subscriptions';
+import { ledgerPosting, ledgerTxn, ledgerAccount } from '../../src/db/schema/ledger';
+import { SubscriptionService, subscriptionConfig } from '../../src/services/subscriptionService';
+import { CheckoutPaymentService } from '../../src/services/checkoutPaymentService';
+import { TinkoffReceiptService, receiptConfig } from '../../src/services/tinkoff/tinkoffReceipt';
+import { FakePaymentProvider, PaymentProviderRegistry } from '../../src/services/paymentProviders';
+import type { SubscriptionNotice } from '../../src/services/telegramNotificationService';
+import walletService from '../../src/services/walletService';
+import { createTinkoffWithStub } from '../helpers/tinkoffStub';
+
+describe('Auto-replenishment subscriptions', () => {
+    const receipts = new TinkoffReceiptService({ ...receiptConfig, enabled: false });
+    const checkout = new CheckoutPaymentService(
+        new PaymentProviderRegistry([new FakePaymentProvider('http://localhost')], { card: 'fake', sbp: 'fake' }),
+        receipts
+    );
+    let notices: SubscriptionNotice[];
+    let userId: string;
+    let productId: string;
+
+    const now = new Date(2026, 2, 10, 12);
+
+    function service(tinkoff = createTinkoffWithStub().service) {
+        return new SubscriptionService(
+            tinkoff,
+            checkout,
+            receipts,
+            { sendSubscriptionNotice: async (_userId, notice) => void notices.push(notice) },
+            { ...subscriptionConfig, discountPercent: 10 }
+        );
+    }
+
+    const subscribe = (svc: SubscriptionService, paymentSource: 'card' | 'wallet') =>
+        svc.create(
+            userId,
+            { items: [{ productId, qty: 2 }], intervalMonths: 1, paymentSource, firstRunAt: new Date(2026, 2, 12, 9) },
+            now
+        );
+
+    beforeEach(async () => {
+        notices = [];
+        await db.delete(payment);
+        await db.delete(stockReservation);
+        await db.delete(orderItem);
+        await db.delete(order);
+        await db.delete(subscriptionItem);
+        await db.delete(subscription);
+        await db.delete(ledgerPosting);
+        await db.delete(ledgerTxn);
+        await db.delete(ledgerAccount);
+        await db.delete(product);
+        await db.delete(category);
+        await db.delete(appUser);
+
+        const [user] = await db
+            .insert(appUser)
+            .values({
+                email: 'subscriber@test.com',
+                telegramId: `subscriber_${Date.now()}`,
+                referralCode: `SUBSCRIBER_${Date.now()}`,
+            })
+            .returning();
+        userId = user.id;
+
+        const [cat] = await db.insert(category).values({ name: 'Омега', slug: 'omega' }).returning();
+        const [omega] = await db
+            .insert(product)
+            .values({ name: 'Omega-3', slug: 'omega-3', price: '1000', stock: 10, categoryId: cat.id, status: 'active' })
+            .returning();
+        productId = omega.id;
+    });
+
+    it('оплачивает заказ с баланса со скидкой подписчика', async () => {
+        await walletService.creditUser(userId, 2000, {
+            currency: 'RUB',
+            opType: 'adjustment',
+            options: { operationId: `test:subscription:topup:${userId}` },
+        });
+        const svc = service();
+        const sub = await subscribe(svc, 'wallet');
+        expect(sub).toMatchObject({ itemsSubtotalRub: 2000, discountRub: 200, estimatedTotalRub: 1800 });
+
+        expect(await svc.runDue(now)).toEqual({ paid: 0, awaiting_payment: 0, failed: 0 });
+        expect(await svc.runDue(new Date(2026, 2, 12, 10))).toEqual({ paid: 1, awaiting_payment: 0, failed: 0 });
+
+        const [ord] = await db.select().from(order).where(eq(order.subscriptionId, sub.id));
+        expect(ord).toMatchObject({
+            status: 'paid',
+            paymentMethod: 'wallet',
+            itemsSubtotalRub: '2000.00',
+            subscriptionDiscountRub: '200.00',
+            orderBaseRub: '1800.00',
+            totalPayableRub: '1800.00',
+            pvEarned: 9,
+        });
+        expect((await walletService.getUserBalance(userId, 'RUB', 'cash_rub')).balance).toBe(200);
+
+        const [row] = await db.select().from(subscription).where(eq(subscription.id, sub.id));
+        expect(row!.nextRunAt).toEqual(new Date(2026, 3, 12, 9));
+    });
+
+    it('списывает сохранённой картой, отказ банка отменяет заказ', async () => {
+        const { stub, service: tinkoff } = createTinkoffWithStub();
+        const svc = service(tinkoff);
+        const sub = await subscribe(svc, 'card');
+        await db.update(subscription).set({ rebillId: 'REBILL-1' }).where(eq(subscription.id, sub.id));
+
+        const due = new Date(2026, 2, 12, 10);
+        expect((await svc.runDue(due)).paid).toBe(1);
+        expect(stub.last('Init')).toMatchObject({ Amount: 180000, CustomerKey: userId });
+        expect(stub.last('Init')).not.toHaveProperty('Recurrent');
+        expect(stub.last('Charge')).toMatchObject({ PaymentId: expect.any(String), RebillId: 'REBILL-1' });
+
+        stub.respond('Charge', () => ({ Success: false, ErrorCode: '51', Message: 'Insufficient funds' }));
+        expect((await svc.runDue(new Date(2026, 3, 12, 10))).failed).toBe(1);
+
+        const orders = await db.select().from(order).where(eq(order.subscriptionId, sub.id));
+        expect(orders.map((o) => o.status).sort()).toEqual(['canceled', 'new']);
+        const [row] = await db.select().from(subscription).where(eq(subscription.id, sub.id));
+        expect(row).toMatchObject({ status: 'active', failedAttempts: 1 });
+        expect(row!.retryAt).not.toBeNull();
+        expect(notices.at(-1)).toMatchObject({ type: 'failed', paused: false });
+    });
+
+    it('пропуск, пауза и напоминание', async () => {
+        const svc = service();
+        const sub = await subscribe(svc, 'wallet');
+
+        expect(await svc.notifyUpcoming(now)).toEqual({ notified: 1 });
+        expect(await svc.notifyUpcoming(now)).toEqual({ notified: 0 });
+        expect(notices[0]).toMatchObject({ type: 'upcoming', amountRub: 1800, items: [{ name: 'Omega-3', qty: 2 }] });
+
+        const skipped = await svc.skip(sub.id, userId);
+        expect(skipped.nextRunAt).toEqual(new Date(2026, 3, 12, 9));
+
+        await svc.pause(sub.id, userId);
+        expect(await svc.runDue(new Date(2026, 3, 12, 10))).toEqual({ paid: 0, awaiting_payment: 0, failed: 0 });
+        await expect(svc.skip(sub.id, userId)).rejects.toMatchObject({ statusCode: 409 });
+
+        // пауза пережила дату списания — возобновление переносит её на следующий период
+        const resumed = await svc.resume(sub.id, userId, new Date(2026, 3, 20));
+        expect(resumed).toMatchObject({ status: 'active' });
+        expect(resumed.nextRunAt).toEqual(new Date(2026, 4, 12, 9));
+
+        expect((await svc.cancel(sub.id, userId)).status).toBe('canceled');
+    });
+});
@@ -0,0 +1,157 @@
+// backend/tests/payments/mixed-checkout.test.ts
+/**
+ * Смешанная оплата: часть с баланса (cash_rub) + остаток картой (checkoutPaymentService, fake-провайдер)
+ *
+ * 1. Списание с баланса + платёж провайдера на остаток; отказ провайдера возвращает деньги на баланс
+ * 2. Ошибка init у провайдера — списание с баланса откатывается сразу
+ * 3. Заказ отменён по таймауту оплаты — списанная с баланса часть возвращается, карточная — failed
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { eq } from 'drizzle-orm';
+import { db } from '../../src/db/db';
+import { appUser } from '../../src/db/schema/users';
+import { order } from '../../src/db/schema/orders';
+import { payment } from '../../src/db/schema/payments';
+import { ledgerPosting, ledgerTxn, ledgerAccount } from '../../src/db/schema/ledger';
+import { CheckoutPaymentService } from '../../src/services/checkoutPaymentService';
+import { PaymentTimeoutWorker } from '../../src/services/paymentTimeoutWorker';
+import { TinkoffReceiptService, receiptConfig } from '../../src/services/tinkoff/tinkoffReceipt';
+import {
+    FakePaymentProvider,
+    PaymentProviderRegistry,
+    type PaymentProvider,
+} from '../../src/services/paymentProviders';
+import walletService from '../../src/services/walletService';
+
+async function cash(userId: string) {
+    return (await walletService.getUserBalance(userId, 'RUB', 'cash_rub')).balance;
+}
+
+describe('Mixed checkout: wallet + card', () => {
+    let userId: string;
+    let orderId: string;
+    const receipts = new TinkoffReceiptService({ ...receiptConfig, enabled: false });
+
+    beforeEach(async () => {
+        await db.delete(payment);
+        await db.delete(order);
+        await db.delete(ledgerPosting);
+        await db.delete(ledgerTxn);
+        await db.delete(ledgerAccount);
+        await db.delete(appUser);
+
+        const [u] = await db
+            .insert(appUser)
+            .values({
+                email: 'mixed@test.com',
+                telegramId: `mixed_${Date.now()}`,
+                referralCode: `MIXED_${Date.now()}`,
+            })
+            .returning();
+        userId = u.id;
+
+        const [ord] = await db
+            .insert(order)
+            .values({
+                userId,
+                status: 'pending',
+                itemsSubtotalRub: '1500',
+                orderBaseRub: '1500',
+                totalPayableRub: '1500',
+            })
+            .returning();
+        orderId = ord.id;
+
+        await walletService.creditUser(userId, 1000, {
+            currency: 'RUB',
+            opType: 'adjustment',
+            options: { operationId: `test:mixed:topup:${userId}` },
+        });
+    });
+
+    it('отказ по карте возвращает списанную с баланса часть', async () => {
+        const fake = new FakePaymentProvider('http://localhost');
+        const checkout = new CheckoutPaymentService(
+            new PaymentProviderRegistry([fake], { card: 'fake', sbp: 'fake' }),
+            receipts
+        );
+
+        const started = await checkout.startPayment({ orderId, userId, method: 'card', amountRub: 1500, walletAmountRub: 600 });
+
+        expect(started.walletPayment).toMatchObject({ method: 'wallet', provider: 'wallet', status: 'captured', amountRub: '600.00' });
+        expect(started.payment).toMatchObject({ method: 'card', provider: 'fake', status: 'awaiting', amountRub: '900.00' });
+        expect(await cash(userId)).toBe(400);
+
+        const [ord] = await db.select().from(order).where(eq(order.id, orderId));
+        expect(ord.paymentMethod).toBe('mixed');
+
+        await fake.handleNotification({ externalId: started.payment.externalId, status: 'REJECTED' });
+        // Повторное уведомление не возвращает деньги второй раз
+        await fake.handleNotification({ externalId: started.payment.externalId, status: 'REJECTED' });
+
+        expect(await cash(userId)).toBe(1000);
+        const [after] = await db.select().from(order).where(eq(order.id, orderId));
+        expect(after.status).toBe('canceled');
+
+        const [walletLeg] = await db.select().from(payment).where(eq(payment.id, started.walletPayment!.id));
+        expect(walletLeg.status).toBe('refunded');
+    });
+
+    it('ошибка init у провайдера откатывает списание с баланса', async () => {
+        const broken: PaymentProvider = {
+            name: 'tinkoff',
+            methods: ['card'],
+            init: async () => ({ success: false, error: 'Terminal blocked' }),
+            getStatus: async () => ({ success: false, error: 'n/a' }),
+            handleNotification: async () => ({ success: true }),
+            applyStatus: async () => ({ changed: false }),
+            refund: async () => ({ success: false, error: 'n/a' }),
+        };
+        const checkout = new CheckoutPaymentService(
+            new PaymentProviderRegistry([broken], { card: 'tinkoff', sbp: 'tinkoff' }),
+            receipts
+        );
+
+        await expect(
+            checkout.startPayment({ orderId, userId, method: 'card', amountRub: 1500, walletAmountRub: 600 })
+        ).rejects.toThrow('Terminal blocked');
+
+        expect(await cash(userId)).toBe(1000);
+        const legs = await db.select().from(payment).where(eq(payment.orderId, orderId));
+        expect(legs).toEqual([expect.objectContaining({ method: 'wallet', status: 'refunded' })]);
+    });
+
+    it('таймаут оплаты возвращает списанную с баланса часть', async () => {
+        const fake = new FakePaymentProvider('http://localhost');
+        const checkout = new CheckoutPaymentService(
+            new PaymentProviderRegistry([fake], { card: 'fake', sbp: 'fake' }),
+            receipts
+        );
+
+        const started = await checkout.startPayment({ orderId, userId, method: 'card', amountRub: 1500, walletAmountRub: 600 });
+        expect(await cash(userId)).toBe(400);
+
+        // Карточная часть брошена (не дошла до ожидания у провайдера), заказ старше таймаута
+        await db.update(payment).set({ status: 'init' }).where(eq(payment.id, started.payment.id));
+        await db
+            .update(order)
+            .set({ createdAt: new Date(Date.now() - 2 * 60 * 60 * 1000) })
+            .where(eq(order.id, orderId));
+
+        const worker = new PaymentTimeoutWorker({ paymentTimeoutMinutes: 30, enableLogging: false });
+        expect(await worker.processTimeouts()).toMatchObject({ processed: 1, errors: 0 });
+        expect(await worker.processTimeouts()).toMatchObject({ processed: 0, errors: 0 });
+
+        expect(await cash(userId)).toBe(1000);
+
+        const [ord] = await db.select().from(order).where(eq(order.id, orderId));
+        expect(ord.status).toBe('canceled');
+
+        const [walletLeg] = await db.select().from(payment).where(eq(payment.id, started.walletPayment!.id));
+        expect(walletLeg.status).toBe('refunded');
+        const [cardLeg] = await db.select().from(payment).where(eq(payment.id, started.payment.id));
+        expect(cardLeg.status).toBe('failed');
+        expect(cardLeg.errorMessage).toContain('Payment timeout');
+    });
+});
@@ -0,0 +1,151 @@
+// backend/tests/payments/receipt.test.ts
+/**
+ * Чек 54-ФЗ в Init / Cancel Тинькофф (tinkoffReceipt)
+ *
+ * Заказ: A × 3 на 900 ₽ (НДС 20%) + B × 1 на 600 ₽ (ставка по умолчанию) + доставка 300 ₽,
+ * промокод 100.01 ₽ → к оплате картой 1699.99 ₽.
+ *
+ * 1. Скидка разнесена по позициям (A − 60.01, B − 40.00), A не делится на 3 — две позиции,
+ *    доставка — отдельная услуга; сумма позиций = Amount
+ * 2. Частичный возврат 1 × A, затем 2 × A — суммы по нарастающей дают ровно оплаченное за A
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { db } from '../../src/db/db';
+import { appUser } from '../../src/db/schema/users';
+import { product } from '../../src/db/schema/products';
+import { order } from '../../src/db/schema/orders';
+import { orderItem } from '../../src/db/schema/orderItem';
+import { TinkoffReceiptService, receiptConfig } from '../../src/services/tinkoff/tinkoffReceipt';
+import { createTinkoffWithStub } from '../helpers/tinkoffStub';
+
+const receipts = new TinkoffReceiptService({
+    ...receiptConfig,
+    taxation: 'usn_income',
+    defaultVat: 'none',
+    deliveryVat: 'none',
+    paymentMethod: 'full_prepayment',
+});
+
+describe('54-FZ receipt for Tinkoff', () => {
+    let orderId: string;
+    let itemAId: string;
+
+    beforeEach(async () => {
+        await db.delete(orderItem);
+        await db.delete(order);
+        await db.delete(product);
+        await db.delete(appUser);
+
+        const [user] = await db
+            .insert(appUser)
+            .values({
+                email: 'buyer@test.com',
+                telegramId: `receipt_${Date.now()}`,
+                referralCode: `RCPT_${Date.now()}`,
+            })
+            .returning();
+
+        const [prodA] = await db
+            .insert(product)
+            .values({ name: 'Omega-3', slug: 'omega-3', price: '300', stock: 10, vat: 'vat20' })
+            .returning();
+        const [prodB] = await db
+            .insert(product)
+            .values({ name: 'Magnesium', slug: 'magnesium', price: '600', stock: 10 })
+            .returning();
+
+        const [ord] = await db
+            .insert(order)
+            .values({
+                userId: user.id,
+                status: 'pending',
+                itemsSubtotalRub: '1500',
+                promoDiscountRub: '100.01',
+                deliveryFeeRub: '300',
+                totalPayableRub: '1699.99',
+            })
+            .returning();
+        orderId = ord.id;
+
+        const [itemA] = await db
+            .insert(orderItem)
+            .values({
+                orderId,
+                productId: prodA.id,
+                productName: 'Omega-3',
+                qty: 3,
+                unitPriceRub: '300',
+                lineSubtotalRub: '900',
+                lineTotalRub: '900',
+            })
+            .returning();
+        itemAId = itemA.id;
+
+        await db.insert(orderItem).values({
+            orderId,
+            productId: prodB.id,
+            productName: 'Magnesium',
+            qty: 1,
+            unitPriceRub: '600',
+            lineSubtotalRub: '600',
+            lineTotalRub: '600',
+        });
+    });
+
+    it('Init: скидка разнесена по позициям, доставка отдельной услугой', async () => {
+        const { stub, service } = createTinkoffWithStub();
+        const receipt = await receipts.forOrder(orderId, 1699.99);
+
+        const res = await service.createPayment({
+            orderId,
+            amountRub: 1699.99,
+            description: 'Оплата заказа',
+            receipt,
+        });
+        expect(res.success).toBe(true);
+
+        const init = stub.last('Init')!;
+        expect(init.Amount).toBe(169999);
+        expect(init.Receipt).toMatchObject({ Email: 'buyer@test.com', Taxation: 'usn_income' });
+
+        const common = { PaymentMethod: 'full_prepayment' };
+        expect(init.Receipt.Items).toEqual([
+            { Name: 'Omega-3', Price: 27999, Quantity: 2, Amount: 55998, Tax: 'vat20', PaymentObject: 'commodity', ...common },
+            { Name: 'Omega-3', Price: 28001, Quantity: 1, Amount: 28001, Tax: 'vat20', PaymentObject: 'commodity', ...common },
+            { Name: 'Magnesium', Price: 56000, Quantity: 1, Amount: 56000, Tax: 'none', PaymentObject: 'commodity', ...common },
+            { Name: 'Доставка', Price: 30000, Quantity: 1, Amount: 30000, Tax: 'none', PaymentObject: 'service', ...common },
+        ]);
+        expect(init.Receipt.Items.reduce((s: number, i: any) => s + i.Amount, 0)).toBe(init.Amount);
+    });
+
+    it('Cancel: чек возврата по нарастающей даёт ровно оплаченное за позицию', async () => {
+        const { stub, service } = createTinkoffWithStub();
+
+        const first = await receipts.forRefund(orderId, [{ orderItemId: itemAId, qty: 1 }], { paidRub: 1699.99 });
+        expect(first.amountRub).toBe(280);
+        await service.cancelPayment('42', { amountRub: first.amountRub, receipt: first.receipt! });
+
+        const cancel = stub.last('Cancel')!;
+        expect(cancel.Amount).toBe(28000);
+        expect(cancel.Receipt.Items).toEqual([
+            expect.objectContaining({ Name: 'Omega-3', Price: 28000, Quantity: 1, Amount: 28000, Tax: 'vat20' }),
+        ]);
+
+        const rest = await receipts.forRefund(orderId, [{ orderItemId: itemAId, qty: 2, qtyBefore: 1 }], {
+            paidRub: 1699.99,
+        });
+        expect(rest.amountRub).toBe(559.99);
+        expect(first.amountRub + rest.amountRub).toBeCloseTo(839.99, 2);
+    });
+
+    it('сумма чека, не совпадающая с Amount, не уходит в банк', async () => {
+        const { stub, service } = createTinkoffWithStub();
+        const receipt = await receipts.forOrder(orderId, 1699.99);
+
+        await expect(
+            service.createPayment({ orderId, amountRub: 1700, description: 'Оплата заказа', receipt })
+        ).rejects.toThrow(/does not match/);
+        expect(stub.calls).toHaveLength(0);
+    });
+});
@@ -0,0 +1,185 @@
+// backend/tests/payments/refund.test.ts
+/**
+ * Возврат платежа через Cancel Тинькофф (paymentRefundService)
+ *
+ * Заказ: A × 2 по 500 ₽ + B × 1 по 1000 ₽, оплачен картой 2000 ₽, доставлен.
+ *
+ * 1. Частичный возврат 1 × A: Cancel на 500 ₽ с чеком, заказ returned_partial
+ * 2. Повтор с тем же idempotencyKey и повторные уведомления PARTIAL_REFUNDED — без второго Cancel / возврата
+ * 3. Полный возврат остатка: платёж refunded, заказ returned_full
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { eq } from 'drizzle-orm';
+import { db } from '../../src/db/db';
+import { appUser } from '../../src/db/schema/users';
+import { product } from '../../src/db/schema/products';
+import { order } from '../../src/db/schema/orders';
+import { orderItem } from '../../src/db/schema/orderItem';
+import { orderReturn } from '../../src/db/schema/orderReturns';
+import { payment, paymentRefund } from '../../src/db/schema/payments';
+import { PaymentRefundService } from '../../src/services/paymentRefundService';
+import { TinkoffReceiptService, receiptConfig } from '../../src/services/tinkoff/tinkoffReceipt';
+import { PaymentProviderRegistry, TinkoffProvider } from '../../src/services/paymentProviders';
+import { createTinkoffWithStub } from '../helpers/tinkoffStub';
+
+describe('Payment refund via Tinkoff Cancel', () => {
+    let orderId: string;
+    let paymentId: string;
+    let itemAId: string;
+    let stub: ReturnType<typeof createTinkoffWithStub>['stub'];
+    let refunds: PaymentRefundService;
+
+    beforeEach(async () => {
+        await db.delete(paymentRefund);
+        await db.delete(payment);
+        await db.delete(orderReturn);
+        await db.delete(orderItem);
+        await db.delete(order);
+        await db.delete(product);
+        await db.delete(appUser);
+
+        const tinkoff = createTinkoffWithStub();
+        stub = tinkoff.stub;
+        refunds = new PaymentRefundService(
+            new PaymentProviderRegistry([new TinkoffProvider(tinkoff.service)], { card: 'tinkoff', sbp: 'tinkoff' }),
+            new TinkoffReceiptService({ ...receiptConfig, enabled: true, defaultVat: 'none' })
+        );
+
+        const [user] = await db
+            .insert(appUser)
+            .values({
+                email: 'refund@test.com',
+                telegramId: `refund_${Date.now()}`,
+                referralCode: `REFUND_${Date.now()}`,
+            })
+            .returning();
+
+        const [prodA] = await db
+            .insert(product)
+            .values({ name: 'Product A', slug: 'product-a', price: '500', stock: 10 })
+            .returning();
+        const [prodB] = await db
+            .insert(product)
+            .values({ name: 'Product B', slug: 'product-b', price: '1000', stock: 5 })
+            .returning();
+
+        const [ord] = await db
+            .insert(order)
+            .values({
+                userId: user.id,
+                status: 'delivered',
+                deliveryStatus: 'delivered',
+                itemsSubtotalRub: '2000',
+                orderBaseRub: '2000',
+                totalPayableRub: '2000',
+                deliveredAt: new Date(),
+            })
+            .returning();
+        orderId = ord.id;
+
+        const [itemA] = await db
+            .insert(orderItem)
+            .values({
+                orderId,
+                productId: prodA.id,
+                productName: 'Product A',
+                qty: 2,
+                unitPriceRub: '500',
+                lineSubtotalRub: '1000',
+                lineTotalRub: '1000',
+            })
+            .returning();
+        itemAId = itemA.id;
+
+        await db.insert(orderItem).values({
+            orderId,
+            productId: prodB.id,
+            productName: 'Product B',
+            qty: 1,
+            unitPriceRub: '1000',
+            lineSubtotalRub: '1000',
+            lineTotalRub: '1000',
+        });
+
+        const [pay] = await db
+            .insert(payment)
+            .values({
+                orderId,
+                method: 'card',
+                status: 'captured',
+                amountRub: '2000',
+                externalId: '777',
+                capturedAt: new Date(),
+            })
+            .returning();
+        paymentId = pay.id;
+    });
+
+    it('частичный возврат идемпотентен по ключу и по уведомлениям', async () => {
+        const first = await refunds.refund(paymentId, {
+            items: [{ orderItemId: itemAId, qty: 1 }],
+            idempotencyKey: 'refund-partial-1',
+        });
+
+        expect(first.duplicate).toBe(false);
+        expect(first.refund).toMatchObject({ status: 'succeeded', amountRub: '500.00', providerStatus: 'PARTIAL_REFUNDED' });
+        expect(first.orderReturn?.kind).toBe('partial');
+
+        const cancel = stub.last('Cancel')!;
+        expect(cancel).toMatchObject({ PaymentId: '777', Amount: 50000 });
+        expect(cancel.Receipt.Items).toEqual([expect.objectContaining({ Name: 'Product A', Amount: 50000 })]);
+
+        const [ord] = await db.select().from(order).where(eq(order.id, orderId));
+        expect(ord.status).toBe('returned_partial');
+
+        // Повтор запроса и уведомлений
+        const again = await refunds.refund(paymentId, {
+            items: [{ orderItemId: itemAId, qty: 1 }],
+            idempotencyKey: 'refund-partial-1',
+        });
+        expect(again.duplicate).toBe(true);
+        expect(again.refund.id).toBe(first.refund.id);
+
+        await refunds.onProviderRefund('777', 'PARTIAL_REFUNDED');
+        await refunds.onProviderRefund('777', 'PARTIAL_REFUNDED');
+
+        expect(stub.calls.filter((c) => c.method === 'Cancel')).toHaveLength(1);
+        expect(await db.select().from(orderReturn).where(eq(orderReturn.orderId, orderId))).toHaveLength(1);
+
+        const [pay] = await db.select().from(payment).where(eq(payment.id, paymentId));
+        expect(pay.status).toBe('captured');
+    });
+
+    it('полный возврат остатка переводит платёж в refunded, заказ — в returned_full', async () => {
+        await refunds.refund(paymentId, { items: [{ orderItemId: itemAId, qty: 1 }], idempotencyKey: 'refund-step-1' });
+        const full = await refunds.refund(paymentId, { idempotencyKey: 'refund-step-2' });
+
+        expect(full.refund.amountRub).toBe('1500.00');
+        expect(full.orderReturn?.kind).toBe('full');
+
+        const [pay] = await db.select().from(payment).where(eq(payment.id, paymentId));
+        expect(pay.status).toBe('refunded');
+
+        const [ord] = await db.select().from(order).where(eq(order.id, orderId));
+        expect(ord.status).toBe('returned_full');
+
+        await expect(
+            refunds.refund(paymentId, { idempotencyKey: 'refund-step-3' })
+        ).rejects.toMatchObject({ statusCode: 409 });
+    });
+
+    it('отказ провайдера фиксируется, заказ не меняется', async () => {
+        stub.respond('Cancel', () => ({ Success: false, ErrorCode: '9999', Message: 'Rejected' }));
+
+        await expect(
+            refunds.refund(paymentId, { items: [{ orderItemId: itemAId, qty: 1 }], idempotencyKey: 'refund-fail-1' })
+        ).rejects.toMatchObject({ statusCode: 502 });
+
+        const [row] = await db.select().from(paymentRefund);
+        expect(row).toMatchObject({ status: 'failed', errorCode: '9999' });
+
+        const [ord] = await db.select().from(order).where(eq(order.id, orderId));
+        expect(ord.status).toBe('delivered');
+    });
+});
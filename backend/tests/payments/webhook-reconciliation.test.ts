@@ -0,0 +1,144 @@
+// backend/tests/payments/webhook-reconciliation.test.ts
+/**
+ * Журнал уведомлений Тинькофф и сверка с провайдером (paymentReconciliationService)
+ *
+ * 1. CONFIRMED применяется один раз: повтор — duplicate, запоздалый AUTHORIZED — stale
+ * 2. Уведомление с неверной подписью сохраняется и отклоняется
+ * 3. Уведомление потеряно: сверка по GetState проводит оплату и пишет расхождение missed_webhook
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { eq } from 'drizzle-orm';
+import { db } from '../../src/db/db';
+import { appUser } from '../../src/db/schema/users';
+import { order } from '../../src/db/schema/orders';
+import { payment, paymentWebhook, paymentMismatch } from '../../src/db/schema/payments';
+import { TinkoffPaymentService } from '../../src/services/tinkoffPaymentService';
+import {
+    TinkoffPaymentTxRepository,
+    TinkoffOrdersRepository,
+} from '../../src/services/tinkoff/tinkoffRepositories';
+import { PaymentProviderRegistry, TinkoffProvider } from '../../src/services/paymentProviders';
+import { PaymentReconciliationService } from '../../src/services/paymentReconciliationService';
+import { TinkoffStub, signTinkoffNotification } from '../helpers/tinkoffStub';
+
+const HOUR_MS = 3_600_000;
+
+describe('Tinkoff webhooks and provider reconciliation', () => {
+    let orderId: string;
+    let paymentId: string;
+    let stub: TinkoffStub;
+    let reconciliation: PaymentReconciliationService;
+
+    const notify = (status: string, extra: Record<string, any> = {}) =>
+        signTinkoffNotification({
+            TerminalKey: 'TestTerminal',
+            OrderId: orderId,
+            Success: true,
+            Status: status,
+            PaymentId: '9001',
+            Amount: 150000,
+            ...extra,
+        });
+
+    beforeEach(async () => {
+        await db.delete(paymentMismatch);
+        await db.delete(paymentWebhook);
+        await db.delete(payment);
+        await db.delete(order);
+        await db.delete(appUser);
+
+        stub = new TinkoffStub();
+        const tinkoff = new TinkoffPaymentService(
+            new TinkoffPaymentTxRepository(),
+            new TinkoffOrdersRepository(),
+            { getActiveByProvider: async () => ({ terminalKey: 'TestTerminal', secretKey: 'secret', isTestMode: true }) },
+            undefined,
+            undefined,
+            stub
+        );
+        reconciliation = new PaymentReconciliationService(
+            { minAgeMinutes: 15 },
+            tinkoff,
+            new PaymentProviderRegistry([new TinkoffProvider(tinkoff)], { card: 'tinkoff', sbp: 'tinkoff' })
+        );
+
+        const [user] = await db
+            .insert(appUser)
+            .values({
+                email: 'webhook@test.com',
+                telegramId: `webhook_${Date.now()}`,
+                referralCode: `WEBHOOK_${Date.now()}`,
+            })
+            .returning();
+
+        const [ord] = await db
+            .insert(order)
+            .values({
+                userId: user.id,
+                status: 'pending',
+                itemsSubtotalRub: '1500',
+                orderBaseRub: '1500',
+                totalPayableRub: '1500',
+            })
+            .returning();
+        orderId = ord.id;
+
+        const [pay] = await db
+            .insert(payment)
+            .values({
+                orderId,
+                method: 'card',
+                provider: 'tinkoff',
+                status: 'awaiting',
+                amountRub: '1500',
+                externalId: '9001',
+                createdAt: new Date(Date.now() - HOUR_MS),
+            })
+            .returning();
+        paymentId = pay.id;
+    });
+
+    it('повтор и запоздалый статус не применяются второй раз', async () => {
+        expect(await reconciliation.handleTinkoffWebhook(notify('CONFIRMED'))).toMatchObject({ outcome: 'processed' });
+        expect(await reconciliation.handleTinkoffWebhook(notify('CONFIRMED'))).toMatchObject({ outcome: 'duplicate' });
+        expect(await reconciliation.handleTinkoffWebhook(notify('AUTHORIZED'))).toMatchObject({ outcome: 'stale' });
+
+        const [pay] = await db.select().from(payment).where(eq(payment.id, paymentId));
+        expect(pay.status).toBe('captured');
+        const [ord] = await db.select().from(order).where(eq(order.id, orderId));
+        expect(ord.status).toBe('paid');
+
+        const log = await db.select().from(paymentWebhook);
+        expect(log.map((w) => w.outcome).sort()).toEqual(['duplicate', 'processed', 'stale']);
+    });
+
+    it('уведомление с неверной подписью сохраняется и отклоняется', async () => {
+        const result = await reconciliation.handleTinkoffWebhook({ ...notify('CONFIRMED'), Token: 'forged' });
+        expect(result).toMatchObject({ success: false, outcome: 'rejected' });
+
+        const [w] = await db.select().from(paymentWebhook);
+        expect(w).toMatchObject({ signatureValid: false, dedupKey: null, outcome: 'rejected' });
+
+        const [pay] = await db.select().from(payment).where(eq(payment.id, paymentId));
+        expect(pay.status).toBe('awaiting');
+    });
+
+    it('сверка восстанавливает оплату при потерянном уведомлении', async () => {
+        stub.respond('GetState', () => ({ Success: true, Status: 'CONFIRMED', PaymentId: '9001' }));
+
+        const result = await reconciliation.reconcileStuck();
+        expect(result).toMatchObject({ checked: 1, repaired: 1, errors: 0 });
+        expect(stub.last('GetState')).toMatchObject({ PaymentId: '9001' });
+
+        const [pay] = await db.select().from(payment).where(eq(payment.id, paymentId));
+        expect(pay.status).toBe('captured');
+        const [ord] = await db.select().from(order).where(eq(order.id, orderId));
+        expect(ord.status).toBe('paid');
+
+        const mismatches = await db.select().from(paymentMismatch);
+        expect(mismatches).toEqual([
+            expect.objectContaining({ kind: 'missed_webhook', repaired: true, localStatus: 'captured', providerStatus: 'CONFIRMED' }),
+        ]);
+    });
+});
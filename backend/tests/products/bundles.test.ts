@@ -0,0 +1,143 @@
+// backend/tests/products/bundles.test.ts
+/**
+ * Наборы (productBundleService, корзина, резерв, чек)
+ *
+ * Набор 900 ₽ = Omega-3 (600 ₽) × 1 + Magnesium (400 ₽) × 2
+ *
+ * 1. Цена набора разложена по прайсу компонентов (385.71 + 514.29), PV — сумма PV компонентов,
+ *    в наличии — сколько наборов собирается из остатков
+ * 2. В корзину набор кладётся в пределах остатков компонентов, состав фиксируется в позиции
+ * 3. Резерв и оплата списывают остатки компонентов; в чеке — компоненты, а не набор
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { eq } from 'drizzle-orm';
+import { db } from '../../src/db/db';
+import { appUser } from '../../src/db/schema/users';
+import { product } from '../../src/db/schema/products';
+import { productBundleItem } from '../../src/db/schema/productBundles';
+import { order } from '../../src/db/schema/orders';
+import { orderItem, orderItemComponent } from '../../src/db/schema/orderItem';
+import { stockReservation } from '../../src/db/schema/stockReservations';
+import { inventoryMovement } from '../../src/db/schema/inventory';
+import { orderItemStorage } from '../../src/storage/orderItemStorage';
+import { ProductBundleService } from '../../src/services/productBundleService';
+import { InventoryService } from '../../src/services/inventoryService';
+import { StockReservationService } from '../../src/services/stockReservationService';
+import { TinkoffReceiptService, receiptConfig } from '../../src/services/tinkoff/tinkoffReceipt';
+
+describe('Product bundles', () => {
+    const bundles = new ProductBundleService();
+    const inventory = new InventoryService();
+    const reservations = new StockReservationService(() => 30 * 60_000);
+    const receipts = new TinkoffReceiptService({ ...receiptConfig, taxation: 'usn_income', defaultVat: 'none' });
+    let userId: string;
+    let omegaId: string;
+    let magnesiumId: string;
+    let bundleId: string;
+
+    const getStock = async (id: string) => (await db.select().from(product).where(eq(product.id, id)))[0]!.stock;
+
+    async function newCart() {
+        const [ord] = await db.insert(order).values({ userId, status: 'pending' }).returning();
+        return ord.id;
+    }
+
+    beforeEach(async () => {
+        await db.delete(stockReservation);
+        await db.delete(inventoryMovement);
+        await db.delete(orderItem);
+        await db.delete(order);
+        await db.delete(productBundleItem);
+        await db.delete(product);
+        await db.delete(appUser);
+
+        const [user] = await db
+            .insert(appUser)
+            .values({
+                email: 'bundles@test.com',
+                telegramId: `bundles_${Date.now()}`,
+                referralCode: `BUNDLES_${Date.now()}`,
+            })
+            .returning();
+        userId = user.id;
+
+        const [omega] = await db
+            .insert(product)
+            .values({ name: 'Omega-3', sku: 'OMEGA', price: '600', stock: 0, isActive: true, customPv: 10 })
+            .returning();
+        const [magnesium] = await db
+            .insert(product)
+            .values({ name: 'Magnesium', sku: 'MAG', price: '400', stock: 0, isActive: true, isPvEligible: false })
+            .returning();
+        const [bundle] = await db
+            .insert(product)
+            .values({ name: 'Набор «Энергия»', sku: 'SET-ENERGY', price: '900', stock: 0, isActive: true })
+            .returning();
+        omegaId = omega.id;
+        magnesiumId = magnesium.id;
+        bundleId = bundle.id;
+
+        await inventory.move(omegaId, { type: 'receipt', qty: 5 });
+        await inventory.move(magnesiumId, { type: 'receipt', qty: 3 });
+    });
+
+    it('раскладывает цену по компонентам и считает PV и наличие', async () => {
+        const view = await bundles.setItems(bundleId, [
+            { productId: omegaId, qty: 1 },
+            { productId: magnesiumId, qty: 2 },
+        ]);
+
+        expect(view.items.map((i) => i.allocatedRub)).toEqual([385.71, 514.29]);
+        expect(view.pvEach).toBe(10);
+        expect(view.available).toBe(1);
+
+        await expect(bundles.setItems(omegaId, [{ productId: magnesiumId, qty: 1 }])).rejects.toMatchObject({ statusCode: 409 });
+        await expect(inventory.move(bundleId, { type: 'receipt', qty: 1 })).rejects.toMatchObject({ statusCode: 409 });
+    });
+
+    it('корзина проверяет остатки компонентов и фиксирует состав', async () => {
+        await bundles.setItems(bundleId, [
+            { productId: omegaId, qty: 1 },
+            { productId: magnesiumId, qty: 2 },
+        ]);
+        const cartId = await newCart();
+
+        await expect(orderItemStorage.addItem(cartId, bundleId, 2)).rejects.toThrow(/Insufficient stock/);
+
+        const [item] = await orderItemStorage.addItem(cartId, bundleId, 1);
+        expect(item).toMatchObject({ qty: 1, unitPriceRub: '900.00' });
+
+        const components = await db.select().from(orderItemComponent).where(eq(orderItemComponent.orderItemId, item!.id));
+        expect(components.map((c) => [c.productName, c.qty, c.amountRub]).sort()).toEqual([
+            ['Magnesium', 2, '514.29'],
+            ['Omega-3', 1, '385.71'],
+        ]);
+    });
+
+    it('резерв и оплата списывают компоненты, чек — по компонентам', async () => {
+        await bundles.setItems(bundleId, [
+            { productId: omegaId, qty: 1 },
+            { productId: magnesiumId, qty: 2 },
+        ]);
+        const cartId = await newCart();
+        await orderItemStorage.addItem(cartId, bundleId, 1);
+
+        await db.update(order).set({ status: 'new' }).where(eq(order.id, cartId));
+        await reservations.reserveOrder(cartId);
+        const result = await reservations.convertOrder(cartId);
+
+        expect(result.oversold).toEqual([]);
+        expect(await getStock(omegaId)).toBe(4);
+        expect(await getStock(magnesiumId)).toBe(1);
+        expect(await getStock(bundleId)).toBe(0);
+        expect(await inventory.verify()).toEqual([]);
+
+        const receipt = await receipts.forOrder(cartId, 900);
+        const amountOf = (name: string) =>
+            receipt.Items.filter((i) => i.Name === name).reduce((s, i) => s + i.Amount, 0);
+        expect(receipt.Items.some((i) => i.Name === 'Набор «Энергия»')).toBe(false);
+        expect(amountOf('Omega-3')).toBe(38571);
+        expect(amountOf('Magnesium')).toBe(51429);
+    });
+});
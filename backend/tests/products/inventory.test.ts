@@ -0,0 +1,84 @@
+// backend/tests/products/inventory.test.ts
+/**
+ * Журнал движения склада и низкий остаток (inventoryService)
+ *
+ * 1. Приход / списание пишутся в журнал, списание сверх остатка — 409; сверка видит правку stock мимо журнала
+ * 2. Импорт прихода из CSV: dryRun ничего не пишет, ошибка в строке — 422 без частичного прихода
+ * 3. Уведомление о пороге отправляется один раз, после пополнения — снова
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { eq } from 'drizzle-orm';
+import { db } from '../../src/db/db';
+import { product } from '../../src/db/schema/products';
+import { inventoryMovement } from '../../src/db/schema/inventory';
+import { InventoryService } from '../../src/services/inventoryService';
+import { telegramNotificationService } from '../../src/services/telegramNotificationService';
+
+describe('Inventory movements', () => {
+    const inventory = new InventoryService();
+    let productId: string;
+
+    const getStock = async () => (await db.select().from(product).where(eq(product.id, productId)))[0]!.stock;
+    const movements = () => db.select().from(inventoryMovement).where(eq(inventoryMovement.productId, productId));
+
+    beforeEach(async () => {
+        vi.restoreAllMocks();
+        await db.delete(inventoryMovement);
+        await db.delete(product);
+
+        const [prod] = await db
+            .insert(product)
+            .values({ name: 'Омега-3', sku: 'OMEGA-3', price: '900', stock: 0, isActive: true })
+            .returning();
+        productId = prod.id;
+    });
+
+    it('приход и списание попадают в журнал, сверка ловит расхождение', async () => {
+        await inventory.move(productId, { type: 'receipt', qty: 10, reference: 'INV-1' });
+        const { stock } = await inventory.move(productId, { type: 'write_off', qty: 3, reason: 'Брак' });
+
+        expect(stock).toBe(7);
+        await expect(inventory.move(productId, { type: 'write_off', qty: 8 })).rejects.toMatchObject({ statusCode: 409 });
+        expect(await getStock()).toBe(7);
+        expect((await movements()).map((m) => [m.type, m.qty, m.stockAfter]).sort()).toEqual([
+            ['receipt', 10, 10],
+            ['write_off', -3, 7],
+        ]);
+        expect(await inventory.verify()).toEqual([]);
+
+        await db.update(product).set({ stock: 50 }).where(eq(product.id, productId));
+        expect(await inventory.verify()).toMatchObject([{ productId, stock: 50, journal: 7 }]);
+    });
+
+    it('импорт CSV: dryRun и ошибка в строке ничего не пишут', async () => {
+        const csv = 'sku;qty;reference\nOMEGA-3;12;PO-77\n';
+        expect(await inventory.importReceipts(csv, { dryRun: true })).toMatchObject({ totalQty: 12, applied: false });
+        expect(await movements()).toHaveLength(0);
+
+        await expect(inventory.importReceipts(`${csv}NOPE;5;PO-77\nOMEGA-3;-1;\n`)).rejects.toMatchObject({
+            statusCode: 422,
+            details: { errors: [{ line: 3 }, { line: 4 }] },
+        });
+        expect(await getStock()).toBe(0);
+
+        await inventory.importReceipts(csv);
+        expect(await getStock()).toBe(12);
+        expect(await movements()).toMatchObject([{ type: 'receipt', qty: 12, reference: 'PO-77' }]);
+    });
+
+    it('уведомление о низком остатке — один раз до пополнения', async () => {
+        const send = vi.spyOn(telegramNotificationService, 'sendLowStockAlert').mockResolvedValue(undefined);
+        await db.update(product).set({ lowStockThreshold: 5 }).where(eq(product.id, productId));
+        await inventory.move(productId, { type: 'receipt', qty: 8 });
+
+        await inventory.move(productId, { type: 'write_off', qty: 4 });
+        await inventory.move(productId, { type: 'write_off', qty: 1 });
+        expect(send).toHaveBeenCalledTimes(1);
+        expect(send).toHaveBeenCalledWith(expect.objectContaining({ stock: 4, threshold: 5 }));
+
+        await inventory.move(productId, { type: 'receipt', qty: 10 });
+        await inventory.setStock(productId, 2);
+        expect(send).toHaveBeenCalledTimes(2);
+    });
+});
@@ -0,0 +1,133 @@
+// backend/tests/products/reviews.test.ts
+/**
+ * Отзывы: проверенная покупка, «полезно», ответ магазина, сводка рейтинга (reviewService)
+ *
+ * 1. verifiedPurchase — только по доставленному заказу; доставка позже отзыва отмечает его
+ * 2. Голос «полезно» один на пользователя, за свой отзыв нельзя, сортировка по полезности
+ * 3. Публикация/отклонение пересчитывают product.rating, review_count, rating_distribution
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { eq } from 'drizzle-orm';
+import { db } from '../../src/db/db';
+import { appUser } from '../../src/db/schema/users';
+import { product } from '../../src/db/schema/products';
+import { order } from '../../src/db/schema/orders';
+import { orderItem } from '../../src/db/schema/orderItem';
+import { productReview, productReviewVote } from '../../src/db/schema/reviews';
+import { reviewService } from '../../src/services/reviewService';
+
+describe('Product reviews', () => {
+    let buyerId: string;
+    let guestId: string;
+    let adminId: string;
+    let productId: string;
+
+    async function placeOrder(userId: string, deliveryStatus: 'delivered' | 'in_transit') {
+        const [ord] = await db
+            .insert(order)
+            .values({
+                userId,
+                status: deliveryStatus === 'delivered' ? 'delivered' : 'shipped',
+                deliveryStatus,
+                itemsSubtotalRub: '900',
+                orderBaseRub: '900',
+                totalPayableRub: '900',
+            })
+            .returning();
+        await db.insert(orderItem).values({
+            orderId: ord.id,
+            productId,
+            productName: 'Омега-3',
+            qty: 1,
+            unitPriceRub: '900',
+            lineSubtotalRub: '900',
+            lineTotalRub: '900',
+        });
+        return ord.id;
+    }
+
+    beforeEach(async () => {
+        await db.delete(productReviewVote);
+        await db.delete(productReview);
+        await db.delete(orderItem);
+        await db.delete(order);
+        await db.delete(product);
+        await db.delete(appUser);
+
+        const [buyer] = await db.insert(appUser).values({ telegramId: 'rev_buyer', referralCode: 'REV_BUYER' }).returning();
+        const [guest] = await db.insert(appUser).values({ telegramId: 'rev_guest', referralCode: 'REV_GUEST' }).returning();
+        const [admin] = await db.insert(appUser).values({ telegramId: 'rev_admin', referralCode: 'REV_ADMIN' }).returning();
+        buyerId = buyer.id;
+        guestId = guest.id;
+        adminId = admin.id;
+
+        const [prod] = await db
+            .insert(product)
+            .values({ name: 'Омега-3', slug: 'omega-3-reviews', price: '900', stock: 10, status: 'active' })
+            .returning();
+        productId = prod.id;
+    });
+
+    const write = (userId: string, rating: number) =>
+        reviewService.createReview({ userId, productId, rating, title: 'Отзыв', body: 'Пью второй месяц' });
+
+    it('проверенная покупка — по доставленному заказу', async () => {
+        await placeOrder(buyerId, 'delivered');
+        const transitId = await placeOrder(guestId, 'in_transit');
+
+        expect((await write(buyerId, 5)).verifiedPurchase).toBe(true);
+        const early = await write(guestId, 4);
+        expect(early.verifiedPurchase).toBe(false);
+
+        await db.update(order).set({ status: 'delivered', deliveryStatus: 'delivered' }).where(eq(order.id, transitId));
+        expect(await reviewService.markVerifiedForOrder(transitId)).toBe(1);
+
+        const [row] = await db.select().from(productReview).where(eq(productReview.id, early.id));
+        expect(row!.verifiedPurchase).toBe(true);
+    });
+
+    it('голоса «полезно» и сортировка по полезности', async () => {
+        const first = await write(buyerId, 5);
+        const second = await write(guestId, 3);
+        await reviewService.approveReview(first.id, adminId);
+        await reviewService.approveReview(second.id, adminId);
+
+        expect(await reviewService.voteHelpful(second.id, buyerId)).toEqual({ helpfulCount: 1, voted: true });
+        expect(await reviewService.voteHelpful(second.id, buyerId)).toEqual({ helpfulCount: 1, voted: true });
+        await reviewService.voteHelpful(second.id, adminId);
+        await expect(reviewService.voteHelpful(first.id, buyerId)).rejects.toMatchObject({ statusCode: 403 });
+
+        const { items } = await reviewService.getProductReviews({ productId, viewerId: buyerId, order: 'helpful' });
+        expect(items.map((r) => [r.id, r.helpfulCount, r.votedHelpful])).toEqual([
+            [second.id, 2, true],
+            [first.id, 0, false],
+        ]);
+
+        expect(await reviewService.removeHelpfulVote(second.id, buyerId)).toEqual({ helpfulCount: 1, voted: false });
+        expect(await reviewService.removeHelpfulVote(second.id, buyerId)).toEqual({ helpfulCount: 1, voted: false });
+    });
+
+    it('модерация пересчитывает сводку рейтинга, ответ магазина', async () => {
+        const first = await write(buyerId, 5);
+        const second = await write(guestId, 2);
+
+        await reviewService.approveReview(first.id, adminId);
+        await reviewService.approveReview(second.id, adminId);
+
+        const [rated] = await db.select().from(product).where(eq(product.id, productId));
+        expect(rated).toMatchObject({
+            rating: '3.50',
+            reviewCount: 2,
+            ratingDistribution: { 1: 0, 2: 1, 3: 0, 4: 0, 5: 1 },
+        });
+
+        await reviewService.rejectReview(second.id, adminId);
+        const { stats } = await reviewService.getProductReviews({ productId });
+        expect(stats).toMatchObject({ average: 5, total: 1 });
+
+        const replied = await reviewService.replyToReview({ reviewId: first.id, adminId, body: 'Спасибо за отзыв!' });
+        expect(replied).toMatchObject({ replyBody: 'Спасибо за отзыв!', replyAuthorId: adminId });
+        expect((await reviewService.deleteReply(first.id, adminId)).replyBody).toBeNull();
+    });
+});
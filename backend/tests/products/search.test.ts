@@ -0,0 +1,108 @@
+// backend/tests/products/search.test.ts
+/**
+ * Поиск по каталогу (productsStorage: list / facets / suggest)
+ *
+ * 1. Морфология: «витамин» находит «Витамины группы B», совпадение в названии выше, чем в описании
+ * 2. Опечатка в названии и ингредиент из состава (composition) тоже находятся
+ * 3. Фасеты: счётчик фасета не зависит от своего же фильтра, остальные фильтры учитываются
+ * 4. Подсказки — только видимые на витрине товары
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { db } from '../../src/db/db';
+import { product } from '../../src/db/schema/products';
+import { category } from '../../src/db/schema/categories';
+import { productStorage } from '../../src/storage/productsStorage';
+
+describe('Product search', () => {
+    let vitaminsId: string;
+
+    beforeEach(async () => {
+        await db.delete(product);
+        await db.delete(category);
+
+        const [vitamins, minerals] = await db
+            .insert(category)
+            .values([
+                { name: 'Витамины', slug: 'vitamins' },
+                { name: 'Минералы', slug: 'minerals' },
+            ])
+            .returning();
+        vitaminsId = vitamins.id;
+
+        await db.insert(product).values([
+            {
+                name: 'Витамины группы B',
+                slug: 'vitamin-b',
+                sku: 'VIT-B',
+                price: '750',
+                stock: 5,
+                categoryId: vitamins.id,
+                manufacturer: 'VitaWin',
+                status: 'active',
+            },
+            {
+                name: 'Магний B6',
+                slug: 'magnesium-b6',
+                sku: 'MAG-B6',
+                description: 'Магний с витамином B6 для нервной системы',
+                price: '1200',
+                stock: 0,
+                categoryId: minerals.id,
+                manufacturer: 'VitaWin',
+                status: 'active',
+            },
+            {
+                name: 'Энергия',
+                slug: 'energy',
+                sku: 'ENERGY',
+                price: '2500',
+                stock: 3,
+                categoryId: minerals.id,
+                manufacturer: 'NordLab',
+                composition: { 'Коэнзим Q10': '100 мг', 'Янтарная кислота': '50 мг' },
+                status: 'active',
+            },
+            {
+                name: 'Витамин C (черновик)',
+                slug: 'vitamin-c-draft',
+                price: '500',
+                stock: 1,
+                categoryId: vitamins.id,
+                status: 'draft',
+            },
+        ]);
+    });
+
+    it('учитывает морфологию и ранжирует название выше описания', async () => {
+        const rows = await productStorage.list({ q: 'витамин', status: 'active' });
+        expect(rows.map((r) => r.slug)).toEqual(['vitamin-b', 'magnesium-b6']);
+    });
+
+    it('прощает опечатку и ищет по составу', async () => {
+        expect((await productStorage.list({ q: 'магнй' })).map((r) => r.slug)).toEqual(['magnesium-b6']);
+        expect((await productStorage.list({ q: 'коэнзим' })).map((r) => r.slug)).toEqual(['energy']);
+    });
+
+    it('считает фасеты без своего фильтра', async () => {
+        const facets = await productStorage.facets({ status: 'active', categoryId: vitaminsId });
+
+        // категория — по всем активным, остальные фасеты — внутри выбранной категории
+        expect(facets.categories.map((c) => [c.slug, c.count])).toEqual([
+            ['minerals', 2],
+            ['vitamins', 1],
+        ]);
+        expect(facets.manufacturers).toEqual([{ value: 'VitaWin', count: 1 }]);
+        expect(facets.priceBands.find((b) => b.key === '0-1000')?.count).toBe(1);
+        expect(facets.stock).toEqual({ inStock: 1, outOfStock: 0 });
+
+        expect(await productStorage.count({ status: 'active', inStock: true })).toBe(2);
+    });
+
+    it('подсказывает только видимые товары и категории', async () => {
+        const { products, categories } = await productStorage.suggest('витамин');
+
+        expect(products.map((p) => p.slug)).toEqual(['vitamin-b', 'magnesium-b6']);
+        expect(categories.map((c) => c.slug)).toEqual(['vitamins']);
+    });
+});
@@ -0,0 +1,112 @@
+// backend/tests/products/variants.test.ts
+/**
+ * Варианты товара (productVariantService, корзина, резерв)
+ *
+ * 1. Первый вариант забирает остаток товара; product.stock = сумма по вариантам и сходится с журналом
+ * 2. В корзину товар с вариантами кладётся только вариантом — с ценой и подписью варианта
+ * 3. Резерв и оплата списывают остаток выбранного варианта
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { eq } from 'drizzle-orm';
+import { db } from '../../src/db/db';
+import { appUser } from '../../src/db/schema/users';
+import { product } from '../../src/db/schema/products';
+import { productVariant } from '../../src/db/schema/productVariants';
+import { order } from '../../src/db/schema/orders';
+import { orderItem } from '../../src/db/schema/orderItem';
+import { stockReservation } from '../../src/db/schema/stockReservations';
+import { inventoryMovement } from '../../src/db/schema/inventory';
+import { orderItemStorage } from '../../src/storage/orderItemStorage';
+import { ProductVariantService } from '../../src/services/productVariantService';
+import { InventoryService } from '../../src/services/inventoryService';
+import { StockReservationService } from '../../src/services/stockReservationService';
+
+describe('Product variants', () => {
+    const variants = new ProductVariantService();
+    const inventory = new InventoryService();
+    const reservations = new StockReservationService(() => 30 * 60_000);
+    let userId: string;
+    let productId: string;
+
+    const getStock = async () => (await db.select().from(product).where(eq(product.id, productId)))[0]!.stock;
+    const getVariantStock = async (id: string) =>
+        (await db.select().from(productVariant).where(eq(productVariant.id, id)))[0]!.stock;
+
+    async function newCart() {
+        const [ord] = await db.insert(order).values({ userId, status: 'pending' }).returning();
+        return ord.id;
+    }
+
+    beforeEach(async () => {
+        await db.delete(stockReservation);
+        await db.delete(inventoryMovement);
+        await db.delete(orderItem);
+        await db.delete(order);
+        await db.delete(productVariant);
+        await db.delete(product);
+        await db.delete(appUser);
+
+        const [user] = await db
+            .insert(appUser)
+            .values({
+                email: 'variants@test.com',
+                phone: '+79990005566',
+                firstName: 'Олег',
+                lastName: 'Петров',
+                telegramId: `variants_${Date.now()}`,
+                referralCode: `VARIANTS_${Date.now()}`,
+            })
+            .returning();
+        userId = user.id;
+
+        const [prod] = await db
+            .insert(product)
+            .values({ name: 'Коллаген', sku: 'COLLAGEN', price: '1500', stock: 0, isActive: true })
+            .returning();
+        productId = prod.id;
+        await inventory.move(productId, { type: 'receipt', qty: 10 });
+    });
+
+    it('первый вариант забирает остаток товара', async () => {
+        const small = await variants.create(productId, { name: '60 капсул', sku: 'COLLAGEN-60', price: 1500 });
+        const big = await variants.create(productId, { name: '120 капсул', sku: 'COLLAGEN-120', price: 2700, stock: 5 });
+
+        expect(small.stock).toBe(10);
+        expect(big.stock).toBe(5);
+        expect(await getStock()).toBe(15);
+        expect(await inventory.verify()).toEqual([]);
+
+        await expect(inventory.setStock(productId, 20)).rejects.toMatchObject({ statusCode: 409 });
+        await expect(variants.remove(productId, small.id)).rejects.toMatchObject({ statusCode: 409 });
+    });
+
+    it('корзина требует вариант и берёт его цену', async () => {
+        const big = await variants.create(productId, { name: '120 капсул', price: 2700 });
+        const cartId = await newCart();
+
+        await expect(orderItemStorage.addItem(cartId, productId, 1)).rejects.toThrow(/Variant is required/);
+
+        const items = await orderItemStorage.addItem(cartId, productId, 2, undefined, big.id);
+        expect(items).toMatchObject([{ variantId: big.id, variantName: '120 капсул', qty: 2, unitPriceRub: '2700.00' }]);
+    });
+
+    it('резерв и оплата списывают остаток варианта', async () => {
+        const small = await variants.create(productId, { name: '60 капсул', price: 1500 });
+        const big = await variants.create(productId, { name: '120 капсул', price: 2700, stock: 4 });
+
+        const cartId = await newCart();
+        await orderItemStorage.addItem(cartId, productId, 3, undefined, big.id);
+        await expect(orderItemStorage.addItem(cartId, productId, 2, undefined, big.id)).rejects.toThrow(/Insufficient stock/);
+
+        await db.update(order).set({ status: 'new' }).where(eq(order.id, cartId));
+        await reservations.reserveOrder(cartId);
+        const result = await reservations.convertOrder(cartId);
+
+        expect(result).toMatchObject({ converted: 1, oversold: [] });
+        expect(await getVariantStock(big.id)).toBe(1);
+        expect(await getVariantStock(small.id)).toBe(10);
+        expect(await getStock()).toBe(11);
+        expect(await inventory.verify()).toEqual([]);
+    });
+});
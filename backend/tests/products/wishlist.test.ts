@@ -0,0 +1,95 @@
+// backend/tests/products/wishlist.test.ts
+/**
+ * Избранное и «сообщить о поступлении» (wishlistService)
+ *
+ * 1. Избранное: повторное добавление без ошибки, отметка ожидания поступления в списке
+ * 2. Подписка только на товар без остатка; приход уведомляет один раз через Telegram,
+ *    подписка без Telegram не забирается и остаётся в ожидании (почтовой отправки нет)
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { eq } from 'drizzle-orm';
+import { db } from '../../src/db/db';
+import { appUser } from '../../src/db/schema/users';
+import { product } from '../../src/db/schema/products';
+import { inventoryMovement } from '../../src/db/schema/inventory';
+import { notification } from '../../src/db/schema/system';
+import { wishlistItem, backInStockRequest } from '../../src/db/schema/wishlist';
+import { InventoryService } from '../../src/services/inventoryService';
+import { wishlistService } from '../../src/services/wishlistService';
+import { telegramNotificationService } from '../../src/services/telegramNotificationService';
+
+describe('Wishlist and back-in-stock', () => {
+    const inventory = new InventoryService();
+    let tgUserId: string;
+    let emailUserId: string;
+    let productId: string;
+
+    beforeEach(async () => {
+        vi.restoreAllMocks();
+        await db.delete(backInStockRequest);
+        await db.delete(wishlistItem);
+        await db.delete(notification);
+        await db.delete(inventoryMovement);
+        await db.delete(product);
+        await db.delete(appUser);
+
+        const [tgUser] = await db
+            .insert(appUser)
+            .values({ telegramId: `wish_${Date.now()}`, referralCode: `WISH_TG_${Date.now()}` })
+            .returning();
+        const [emailUser] = await db
+            .insert(appUser)
+            .values({ email: 'wish@test.com', referralCode: `WISH_EMAIL_${Date.now()}` })
+            .returning();
+        tgUserId = tgUser.id;
+        emailUserId = emailUser.id;
+
+        const [prod] = await db
+            .insert(product)
+            .values({ name: 'Магний B6', slug: 'magnesium-b6', price: '700', stock: 0, status: 'active' })
+            .returning();
+        productId = prod.id;
+    });
+
+    it('избранное: повторное добавление и удаление', async () => {
+        expect(await wishlistService.add(tgUserId, productId)).toEqual({ added: true });
+        expect(await wishlistService.add(tgUserId, productId)).toEqual({ added: false });
+        await wishlistService.requestBackInStock(tgUserId, productId);
+
+        expect(await wishlistService.list(tgUserId)).toMatchObject([
+            { productId, slug: 'magnesium-b6', stock: 0, backInStockRequested: true },
+        ]);
+        expect(await wishlistService.state(tgUserId)).toEqual({ productIds: [productId], backInStockProductIds: [productId] });
+
+        await wishlistService.remove(tgUserId, productId);
+        await expect(wishlistService.remove(tgUserId, productId)).rejects.toMatchObject({ statusCode: 404 });
+    });
+
+    it('приход уведомляет подписчиков один раз и пишет notification', async () => {
+        const send = vi.spyOn(telegramNotificationService, 'sendBackInStockNotice').mockResolvedValue(undefined);
+        expect(await wishlistService.requestBackInStock(tgUserId, productId)).toEqual({ created: true });
+        expect(await wishlistService.requestBackInStock(tgUserId, productId)).toEqual({ created: false });
+        await wishlistService.requestBackInStock(emailUserId, productId);
+
+        await inventory.move(productId, { type: 'receipt', qty: 5 });
+        await inventory.move(productId, { type: 'receipt', qty: 5 });
+
+        expect(send).toHaveBeenCalledTimes(1);
+        expect(send).toHaveBeenCalledWith(tgUserId, expect.objectContaining({ name: 'Магний B6', url: expect.stringContaining('/product/magnesium-b6') }));
+
+        const rows = await db.select().from(notification).where(eq(notification.eventType, 'back_in_stock'));
+        expect(rows.map((r) => [r.userId, r.channel, r.status])).toEqual([[tgUserId, 'telegram', 'sent']]);
+
+        const [tgRequest] = await db.select().from(backInStockRequest).where(eq(backInStockRequest.userId, tgUserId));
+        expect(tgRequest.notifiedAt).not.toBeNull();
+        expect(tgRequest.notificationId).not.toBeNull();
+        const [emailRequest] = await db.select().from(backInStockRequest).where(eq(backInStockRequest.userId, emailUserId));
+        expect(emailRequest.notifiedAt).toBeNull();
+        expect(emailRequest.notificationId).toBeNull();
+        expect((await wishlistService.state(emailUserId)).backInStockProductIds).toEqual([productId]);
+
+        // товар в наличии — ждать нечего
+        await expect(wishlistService.requestBackInStock(tgUserId, productId)).rejects.toMatchObject({ statusCode: 409 });
+    });
+});
@@ -6,6 +6,7 @@ import { Card, CardContent } from '@/components/ui/card';
 import { useAuthStore } from '@/stores/authStore';
 import { useCartStore } from '@/stores/cartStore';
 import FreeShippingProgress from '@/components/FreeShippingProgress';
+import CartRecommendations from '@/components/CartRecommendations';
 import { getProductImageUrl } from '@/utils/imageUtils';
 import { formatPrice } from '@/utils/priceUtils';
 import { DELIVERY_CONFIG } from '@/config/checkoutConfig';
@@ -66,9 +67,11 @@ const Cart = ({ isOpen, onClose }: CartProps) => {
     const items = user
         ? (preview?.items || []) // Авторизован → backend
         : localCartItems.map(item => ({ // НЕ авторизован → localStorage
-            id: item.productId,
+            id: `${item.productId}:${item.variantId ?? ''}`,
             productId: item.productId,
+            variantId: item.variantId ?? null,
             name: item.name,
+            variantName: item.variantName ?? null,
             unitPrice: String(item.price),
             qty: item.quantity,
             subtotal: String(item.price * item.quantity),
@@ -102,28 +105,31 @@ const Cart = ({ isOpen, onClose }: CartProps) => {
     /* ------------------------------
         ✅ FIX-CART-3: Обновление количества
     ------------------------------ */
-    const handleUpdateQuantity = async (productId: string, qty: number) => {
-        if (processingItems.has(productId)) return;
+    const handleUpdateQuantity = async (productId: string, qty: number, variantId: string | null = null) => {
+        const lineKey = `${productId}:${variantId ?? ''}`;
+        if (processingItems.has(lineKey)) return;
 
         // Если НЕ авторизован → localStorage
         if (!user) {
-            updateQuantityLocal(productId, qty);
+            updateQuantityLocal(productId, qty, variantId);
             return;
         }
 
         // Авторизован → backend
-        setProcessingItems(prev => new Set(prev).add(productId));
+        setProcessingItems(prev => new Set(prev).add(lineKey));
 
         try {
             if (qty <= 0) {
                 await updateCart({
                     action: 'remove',
                     product_id: productId,
+                    variant_id: variantId,
                 }).unwrap();
             } else {
                 await updateCart({
                     action: 'update',
                     product_id: productId,
+                    variant_id: variantId,
                     quantity: qty,
                 }).unwrap();
             }
@@ -136,7 +142,7 @@ const Cart = ({ isOpen, onClose }: CartProps) => {
         } finally {
             setProcessingItems(prev => {
                 const next = new Set(prev);
-                next.delete(productId);
+                next.delete(lineKey);
                 return next;
             });
         }
@@ -145,12 +151,13 @@ const Cart = ({ isOpen, onClose }: CartProps) => {
     /* ------------------------------
         ✅ FIX-CART-3: Удаление товара
     ------------------------------ */
-    const handleRemove = async (productId: string) => {
-        if (processingItems.has(productId)) return;
+    const handleRemove = async (productId: string, variantId: string | null = null) => {
+        const lineKey = `${productId}:${variantId ?? ''}`;
+        if (processingItems.has(lineKey)) return;
 
         // Если НЕ авторизован → localStorage
         if (!user) {
-            removeItemLocal(productId);
+            removeItemLocal(productId, variantId);
             toast({
                 title: 'Товар удалён',
                 description: 'Удалён из корзины',
@@ -159,12 +166,13 @@ const Cart = ({ isOpen, onClose }: CartProps) => {
         }
 
         // Авторизован → backend
-        setProcessingItems(prev => new Set(prev).add(productId));
+        setProcessingItems(prev => new Set(prev).add(lineKey));
 
         try {
             await updateCart({
                 action: 'remove',
                 product_id: productId,
+                variant_id: variantId,
             }).unwrap();
 
             toast({
@@ -180,7 +188,7 @@ const Cart = ({ isOpen, onClose }: CartProps) => {
         } finally {
             setProcessingItems(prev => {
                 const next = new Set(prev);
-                next.delete(productId);
+                next.delete(lineKey);
                 return next;
             });
         }
@@ -266,7 +274,8 @@ const Cart = ({ isOpen, onClose }: CartProps) => {
 
                                 <div className="space-y-4">
                                     {items.map(item => {
-                                        const busy = processingItems.has(item.productId);
+                                        const variantId = item.variantId ?? null;
+                                        const busy = processingItems.has(`${item.productId}:${variantId ?? ''}`);
 
                                         return (
                                             <Card key={item.id}>
@@ -282,6 +291,9 @@ const Cart = ({ isOpen, onClose }: CartProps) => {
                                                             <h3 className="font-medium text-sm truncate">
                                                                 {item.name}
                                                             </h3>
+                                                            {item.variantName && (
+                                                                <p className="text-gray-500 text-xs truncate">{item.variantName}</p>
+                                                            )}
 
                                                             <p className="text-gray-500 text-sm">
                                                                 {formatPrice(Number(item.unitPrice))}
@@ -300,7 +312,7 @@ const Cart = ({ isOpen, onClose }: CartProps) => {
                                                                 size="sm"
                                                                 variant="outline"
                                                                 disabled={busy || isUpdating}
-                                                                onClick={() => handleUpdateQuantity(item.productId, item.qty - 1)}
+                                                                onClick={() => handleUpdateQuantity(item.productId, item.qty - 1, variantId)}
                                                                 className="p-0 h-8 w-8"
                                                             >
                                                                 <Minus className="h-3 w-3" />
@@ -314,7 +326,7 @@ const Cart = ({ isOpen, onClose }: CartProps) => {
                                                                 size="sm"
                                                                 variant="outline"
                                                                 disabled={busy || isUpdating}
-                                                                onClick={() => handleUpdateQuantity(item.productId, item.qty + 1)}
+                                                                onClick={() => handleUpdateQuantity(item.productId, item.qty + 1, variantId)}
                                                                 className="p-0 h-8 w-8"
                                                             >
                                                                 <Plus className="h-3 w-3" />
@@ -326,7 +338,7 @@ const Cart = ({ isOpen, onClose }: CartProps) => {
                                                             size="sm"
                                                             variant="ghost"
                                                             disabled={busy || isUpdating}
-                                                            onClick={() => handleRemove(item.productId)}
+                                                            onClick={() => handleRemove(item.productId, variantId)}
                                                             className="text-red-500 p-0 h-8 w-8"
                                                         >
                                                             <Trash2 className="h-4 w-4" />
@@ -338,6 +350,11 @@ const Cart = ({ isOpen, onClose }: CartProps) => {
                                         );
                                     })}
                                 </div>
+
+                                <CartRecommendations
+                                    productIds={items.map((item) => item.productId)}
+                                    onNavigate={onClose}
+                                />
                             </>
                         )}
                     </div>
@@ -0,0 +1,111 @@
+// client/src/components/CartRecommendations.tsx
+
+import { useNavigate } from 'react-router-dom';
+import { Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useAuthStore } from '@/stores/authStore';
+import { useCartStore } from '@/stores/cartStore';
+import { useToast } from '@/hooks/use-toast';
+import { getMainProductImage } from '@/utils/imageUtils';
+import { formatPrice } from '@/utils/priceUtils';
+import { useUpdateCartMutation } from '@/store/api/domains/cartApi';
+import { useGetCartRecommendationsQuery, type Product } from '@/store/api/domains/productsApi';
+
+interface CartRecommendationsProps {
+    productIds: string[];
+    onNavigate: () => void;
+}
+
+/** Допродажа в корзине: что чаще всего покупают вместе с её содержимым */
+const CartRecommendations = ({ productIds, onNavigate }: CartRecommendationsProps) => {
+    const navigate = useNavigate();
+    const { toast } = useToast();
+    const { user } = useAuthStore();
+    const addItemLocal = useCartStore((state) => state.addItem);
+    const [updateCart, { isLoading }] = useUpdateCartMutation();
+
+    const ids = [...new Set(productIds)];
+    const { data: products = [] } = useGetCartRecommendationsQuery(
+        { productIds: ids, limit: 3 },
+        { skip: ids.length === 0 }
+    );
+
+    if (products.length === 0) return null;
+
+    const openProduct = (product: Product) => {
+        onNavigate();
+        navigate(`/product/${product.slug || product.id}`);
+    };
+
+    const handleAdd = async (product: Product) => {
+        // Вариант выбирается на карточке товара
+        if (product.variants?.length) {
+            openProduct(product);
+            return;
+        }
+        try {
+            if (user) {
+                await updateCart({ action: 'add', product_id: product.id, quantity: 1 }).unwrap();
+            } else {
+                addItemLocal({
+                    id: product.id,
+                    name: product.name || product.title || '',
+                    price: Number(product.price) || 0,
+                    customPv: product.customPv ?? null,
+                    customCashback: product.customCashback ?? null,
+                    slug: product.slug,
+                    quantity: 1,
+                    imageUrl: getMainProductImage(product),
+                });
+            }
+            toast({ title: 'Товар добавлен в корзину', description: product.name });
+        } catch (err: any) {
+            toast({
+                title: 'Ошибка',
+                description: err?.data?.message || 'Не удалось добавить товар в корзину',
+                variant: 'destructive',
+            });
+        }
+    };
+
+    return (
+        <div className="mt-6">
+            <h3 className="text-sm font-semibold text-gray-900 mb-3">С этим покупают</h3>
+            <div className="space-y-2">
+                {products.map((product) => (
+                    <div key={product.id} className="flex items-center space-x-3 rounded-md border p-2">
+                        <button type="button" onClick={() => openProduct(product)} className="shrink-0">
+                            <img
+                                src={getMainProductImage(product)}
+                                alt={product.name}
+                                className="h-12 w-12 rounded-md object-contain bg-gray-50"
+                            />
+                        </button>
+                        <div className="flex-1 min-w-0">
+                            <button
+                                type="button"
+                                onClick={() => openProduct(product)}
+                                className="block text-left text-sm font-medium truncate w-full hover:text-emerald-600"
+                            >
+                                {product.name}
+                            </button>
+                            <p className="text-gray-500 text-xs">{formatPrice(Number(product.price))}</p>
+                        </div>
+                        <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={isLoading}
+                            onClick={() => handleAdd(product)}
+                            className="p-0 h-8 w-8 border-emerald-600 text-emerald-600"
+                            aria-label="Добавить в корзину"
+                        >
+                            <Plus className="h-3 w-3" />
+                        </Button>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default CartRecommendations;
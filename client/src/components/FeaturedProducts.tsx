@@ -9,7 +9,7 @@ import { getMainProductImage } from "@/utils/imageUtils";
 import {
     type Product,
 } from "@/store/api/domains/productsApi";
-import {useGetPublicProductsQuery} from "@/store/api/domains";
+import { useGetPersonalRecommendationsQuery, useGetPublicProductsQuery } from "@/store/api/domains";
 import ProductCard from "@/components/ProductCard";
 
 const ProductSkeleton = () => (
@@ -28,10 +28,14 @@ const ProductSkeleton = () => (
 );
 
 const FeaturedProducts = () => {
-    // публичный список товаров
-    const { data: products = [], isLoading } = useGetPublicProductsQuery({
-        limit: 6,
-    });
+    // персональная подборка (гостю — хиты продаж); пока заказов нет — публичный список
+    const { data: picks = [], isLoading: isPicksLoading } = useGetPersonalRecommendationsQuery({ limit: 6 });
+    const { data: fallback = [], isLoading: isFallbackLoading } = useGetPublicProductsQuery(
+        { limit: 6 },
+        { skip: isPicksLoading || picks.length > 0 }
+    );
+    const products = picks.length > 0 ? picks : fallback;
+    const isLoading = isPicksLoading || isFallbackLoading;
 
     const { addItem } = useCartStore();
     const { toast } = useToast();
@@ -40,6 +44,11 @@ const FeaturedProducts = () => {
     const handleAddToCart = useCallback(
          (product: Product) => {
             if (!product) return;
+            // Товар с вариантами кладётся в корзину вариантом — выбор в карточке
+            if (product.variants?.length) {
+                navigate(`/product/${product.slug}`);
+                return;
+            }
             try {
                  addItem({
                     id: product.id,
@@ -64,11 +73,15 @@ const FeaturedProducts = () => {
                 });
             }
         },
-        [addItem, toast]
+        [addItem, navigate, toast]
     );
 
     const handleBuyNow = useCallback(
         async (product: Product) => {
+            if (product.variants?.length) {
+                navigate(`/product/${product.slug}`);
+                return;
+            }
             try {
                  addItem({
                     id: product.id,
@@ -1,8 +1,8 @@
 // client/src/components/ProductCard.tsx
 
-import { useState, memo, useMemo } from "react";
+import { memo, useMemo } from "react";
 import { Link, useNavigate } from "react-router-dom";
-import { Heart, ShoppingCart, Plus, Star } from "lucide-react";
+import { Heart, ShoppingCart, Plus, Star, Bell, BellRing } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -13,6 +13,7 @@ import { ProductBonuses } from "./ProductBonuses";
 import type { Product as ApiProduct } from "@/store/api/domains/productsApi"; // ← каноничный тип
 
 import { useToast } from "@/hooks/use-toast";
+import { useWishlist } from "@/hooks/useWishlist";
 import { useAuthStore } from "@/stores"; // следуем стилю BalanceSection / ReferralProgram
 import {
     useGetCartPreviewQuery,
@@ -38,8 +39,10 @@ const ProductCard = memo(function ProductCard({
                                                   onAddToCart,
                                                   onBuyNow,
                                               }: ProductCardProps) {
-    const [isLiked, setIsLiked] = useState(false);
     const { toast } = useToast();
+    const { isLiked, isWaiting, isBusy: isWishlistBusy, toggleLiked, toggleBackInStock } = useWishlist(product.id);
+    // Нет в наличии — вместо покупки «Сообщить о поступлении» (у набора остаток считается по компонентам)
+    const isOutOfStock = product.stock <= 0 && !product.isBundle;
     const navigate = useNavigate();
 
     const { user, isHydrated } = useAuthStore();
@@ -163,8 +166,10 @@ const ProductCard = memo(function ProductCard({
             <button
                 onClick={(e) => {
                     e.preventDefault();
-                    setIsLiked((v) => !v);
+                    toggleLiked();
                 }}
+                disabled={isWishlistBusy}
+                aria-label={isLiked ? "Убрать из избранного" : "В избранное"}
                 className="absolute top-3 right-3 z-10 p-2 bg-white/90 backdrop-blur-sm rounded-full hover:bg-white transition-colors"
             >
                 <Heart
@@ -250,6 +255,20 @@ const ProductCard = memo(function ProductCard({
                     )}
                 </div>
 
+                {isOutOfStock ? (
+                    <Button
+                        variant="outline"
+                        onClick={(e) => {
+                            e.preventDefault();
+                            toggleBackInStock();
+                        }}
+                        disabled={isWishlistBusy}
+                        className="w-full border-emerald-500 text-emerald-600 hover:bg-emerald-50 font-medium rounded-lg flex items-center justify-center gap-1 sm:gap-2 text-xs sm:text-sm h-8 sm:h-9"
+                    >
+                        {isWaiting ? <BellRing className="w-3 h-3 sm:w-4 sm:h-4" /> : <Bell className="w-3 h-3 sm:w-4 sm:h-4" />}
+                        {isWaiting ? "Сообщим о поступлении" : "Сообщить о поступлении"}
+                    </Button>
+                ) : (
                 <div className="flex gap-1 sm:gap-2">
                     <Button
                         onClick={handleBuyNow}
@@ -271,6 +290,7 @@ const ProductCard = memo(function ProductCard({
                         <span className="hidden xs:inline">Корзина</span>
                     </Button>
                 </div>
+                )}
             </div>
         </Card>
     );
@@ -19,7 +19,7 @@ interface ProductSchemaProps {
   reviewCount?: number;
 }
 
-const ProductSchema = ({ product, rating = 4.8, reviewCount = 247 }: ProductSchemaProps) => {
+const ProductSchema = ({ product, rating = 0, reviewCount = 0 }: ProductSchemaProps) => {
   useEffect(() => {
     // Удаляем существующую Schema.org разметку для товара
     const existingScript = document.querySelector('script[type="application/ld+json"][data-schema="product"]');
@@ -54,15 +54,19 @@ const ProductSchema = ({ product, rating = 4.8, reviewCount = 247 }: ProductSche
           "name": "VitaWin",
           "url": "https://vitawins.ru"
         }
-      },
-      "aggregateRating": {
+      }
+    };
+
+    // Сводка опубликованных отзывов с бэка; без отзывов aggregateRating не отдаём
+    if (reviewCount > 0) {
+      productSchema.aggregateRating = {
         "@type": "AggregateRating",
-        "ratingValue": rating.toString(),
+        "ratingValue": rating.toFixed(2),
         "reviewCount": reviewCount.toString(),
         "bestRating": "5",
         "worstRating": "1"
-      }
-    };
+      };
+    }
 
     // Добавляем дополнительные свойства если есть
     if (product.benefits && product.benefits.length > 0) {
@@ -0,0 +1,133 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Search, X } from 'lucide-react';
+import { Input } from './ui/input';
+import { useGetProductSuggestionsQuery } from '@/store/api/domains';
+import { getMainProductImage } from '@/utils/imageUtils';
+
+interface ProductSearchProps {
+    /** Применённый запрос: сброс снаружи («Сбросить фильтры») очищает строку */
+    query: string;
+    /** Поиск применён (Enter / выбор «Искать …»); пустая строка — сброс */
+    onSearch: (q: string) => void;
+    /** Выбрана категория из подсказок */
+    onCategorySelect?: (slug: string) => void;
+}
+
+/**
+ * Строка поиска каталога с подсказками.
+ * Подсказки приходят с /api/products/suggest после паузы в наборе — морфология и опечатки на backend.
+ */
+const ProductSearch = ({ query, onSearch, onCategorySelect }: ProductSearchProps) => {
+    const navigate = useNavigate();
+    const [value, setValue] = useState('');
+    const [debounced, setDebounced] = useState('');
+    const [isOpen, setIsOpen] = useState(false);
+
+    useEffect(() => {
+        if (!query) setValue('');
+    }, [query]);
+
+    useEffect(() => {
+        const timer = setTimeout(() => setDebounced(value.trim()), 250);
+        return () => clearTimeout(timer);
+    }, [value]);
+
+    const { data } = useGetProductSuggestionsQuery({ q: debounced }, { skip: debounced.length < 2 });
+    const hasSuggestions = !!data && (data.products.length > 0 || data.categories.length > 0);
+
+    const submit = (q: string) => {
+        setIsOpen(false);
+        onSearch(q.trim());
+    };
+
+    const clear = () => {
+        setValue('');
+        submit('');
+    };
+
+    return (
+        <div className="relative w-full max-w-xl mx-auto">
+            <form
+                onSubmit={(e) => {
+                    e.preventDefault();
+                    submit(value);
+                }}
+            >
+                <Input
+                    type="search"
+                    placeholder="Поиск: витамин D, омега, магний…"
+                    value={value}
+                    onChange={(e) => {
+                        setValue(e.target.value);
+                        setIsOpen(true);
+                    }}
+                    onFocus={() => setIsOpen(true)}
+                    onBlur={() => setTimeout(() => setIsOpen(false), 150)}
+                    onKeyDown={(e) => e.key === 'Escape' && setIsOpen(false)}
+                    className="w-full pl-10 pr-10 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+                    aria-label="Поиск товаров"
+                />
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-gray-400" />
+                {value && (
+                    <button
+                        type="button"
+                        onClick={clear}
+                        className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 hover:text-gray-600"
+                        aria-label="Очистить поиск"
+                    >
+                        <X className="h-4 w-4" />
+                    </button>
+                )}
+            </form>
+
+            {isOpen && debounced.length >= 2 && hasSuggestions && (
+                <div className="absolute z-20 mt-1 w-full rounded-lg border border-gray-200 bg-white shadow-lg overflow-hidden">
+                    {data.categories.map((c) => (
+                        <button
+                            key={c.id}
+                            type="button"
+                            onMouseDown={(e) => e.preventDefault()}
+                            onClick={() => {
+                                setIsOpen(false);
+                                onCategorySelect?.(c.slug);
+                            }}
+                            className="flex w-full items-center px-3 py-2 text-left text-sm text-gray-700 hover:bg-emerald-50"
+                        >
+                            <span className="text-gray-400 mr-2">Категория:</span>
+                            {c.name}
+                        </button>
+                    ))}
+                    {data.products.map((p) => (
+                        <button
+                            key={p.id}
+                            type="button"
+                            onMouseDown={(e) => e.preventDefault()}
+                            onClick={() => navigate(`/product/${p.slug}`)}
+                            className="flex w-full items-center gap-3 px-3 py-2 text-left text-sm hover:bg-emerald-50"
+                        >
+                            <img
+                                src={getMainProductImage(p) || '/placeholder.png'}
+                                alt=""
+                                className="h-8 w-8 rounded object-cover"
+                                loading="lazy"
+                            />
+                            <span className="flex-1 text-gray-800">{p.name}</span>
+                            <span className="text-gray-500">{p.price.toLocaleString('ru-RU')} ₽</span>
+                        </button>
+                    ))}
+                    <button
+                        type="button"
+                        onMouseDown={(e) => e.preventDefault()}
+                        onClick={() => submit(value)}
+                        className="flex w-full items-center px-3 py-2 text-left text-sm font-medium text-emerald-700 border-t border-gray-100 hover:bg-emerald-50"
+                    >
+                        Искать «{value.trim()}»
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ProductSearch;
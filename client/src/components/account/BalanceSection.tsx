@@ -94,6 +94,14 @@ function BalanceSection() {
     const pvBalance = pvAccount ? parseInt(pvAccount.balance || "0") : 0;
     const referralBalance = referralAccount ? parseBalance(referralAccount.balance) : 0;
 
+    // Бонусы за доставленные заказы до окончания срока возврата
+    const cashPending = cashAccount?.pending ? parseBalance(cashAccount.pending) : 0;
+    const vwcPending = vwcAccount?.pending ? parseBalance(vwcAccount.pending) : 0;
+    const referralPending = referralAccount?.pending ? parseBalance(referralAccount.pending) : 0;
+
+    const formatReleaseDate = (date?: string | null) =>
+        date ? new Date(date).toLocaleDateString("ru-RU") : null;
+
     // ---- Форма заявки на вывод ----
     const form = useForm<WithdrawalFormData>({
         defaultValues: {
@@ -225,6 +233,14 @@ function BalanceSection() {
                                 <div className="text-sm text-gray-600">
                                     Доступно к выводу (RUB счёт)
                                 </div>
+                                {cashPending > 0 && (
+                                    <div className="mt-2 flex items-center text-sm text-amber-600">
+                                        <Clock className="h-4 w-4 mr-1" />
+                                        Ожидает: {cashPending.toFixed(2)} ₽
+                                        {formatReleaseDate(cashAccount?.nextReleaseAt) &&
+                                            ` (с ${formatReleaseDate(cashAccount?.nextReleaseAt)})`}
+                                    </div>
+                                )}
                             </div>
 
                             <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
@@ -405,6 +421,11 @@ function BalanceSection() {
                             <p className="text-sm text-gray-600">
                                 Доступно к использованию при следующей покупке (1 VWC = 1 ₽)
                             </p>
+                            {vwcPending > 0 && (
+                                <p className="text-sm text-amber-600">
+                                    Ожидает: {vwcPending.toFixed(2)} VWC
+                                </p>
+                            )}
                         </div>
 
                         <div className="mt-4">
@@ -471,10 +492,23 @@ function BalanceSection() {
                                 {accountsLoading ? "..." : `${referralBalance.toFixed(2)} ₽`}
                             </div>
 
+                            {referralPending > 0 && (
+                                <div className="text-sm text-amber-600">
+                                    Ожидает: {referralPending.toFixed(2)} ₽
+                                    {formatReleaseDate(referralAccount?.nextReleaseAt) &&
+                                        ` (с ${formatReleaseDate(referralAccount?.nextReleaseAt)})`}
+                                </div>
+                            )}
+
                             <div className="space-y-1">
                                 <p className="text-xs text-gray-600">
                                     Бонусы L1-L15 от покупок вашей партнёрской сети
                                 </p>
+                                {referralPending > 0 && (
+                                    <p className="text-xs text-gray-500">
+                                        Бонусы станут доступны после окончания срока возврата заказа
+                                    </p>
+                                )}
                             </div>
                         </div>
                     </CardContent>
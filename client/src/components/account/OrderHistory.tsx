@@ -1,12 +1,12 @@
 import { useState } from 'react';
-import { useGetMyOrdersQuery } from '@/store/api/domains';
+import { useGetMyOrdersQuery, useGetDeliveryTrackingQuery } from '@/store/api/domains';
 import type { UiOrder, UiOrderItem } from '@/utils/orders/normalize';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "../ui/card";
 import { Badge } from "../ui/badge";
 import { Button } from "../ui/button";
 import { Separator } from "../ui/separator";
 import { Package, Eye, Truck, Clock, CheckCircle, AlertCircle, Calendar, Gift, ShoppingBag, CreditCard, Wallet } from "lucide-react";
-import { formatDateRu } from '@/utils/dateFormat';
+import { formatDateRu, formatDateTimeRu } from '@/utils/dateFormat';
 
 const statusLabels: Record<string, string> = {
   pending: 'Ожидает обработки',
@@ -35,10 +35,36 @@ const statusIcons: Record<string, any> = {
   new: Package
 };
 
+const deliveryStatusLabels: Record<string, string> = {
+  not_required: 'Не требуется',
+  pending: 'Готовится к отправке',
+  in_transit: 'В пути',
+  delivered: 'Доставлен',
+  lost: 'Утерян перевозчиком',
+  returned: 'Возвращён отправителю'
+};
+
+const deliveryStatusColors: Record<string, string> = {
+  pending: 'bg-yellow-500',
+  in_transit: 'bg-blue-500',
+  delivered: 'bg-green-500',
+  lost: 'bg-red-500',
+  returned: 'bg-orange-500'
+};
+
+const carrierLabels: Record<string, string> = {
+  sdek: 'СДЭК',
+  russianpost: 'Почта России',
+  yandex: 'Яндекс Доставка'
+};
+
 const paymentMethodLabels: Record<string, string> = {
   cash: 'Наличными курьеру',
   balance: 'С баланса',
-  card: 'Банковская карта'
+  card: 'Банковская карта',
+  sbp: 'СБП',
+  wallet: 'С баланса',
+  mixed: 'Баланс + карта'
 };
 
 const paymentStatusLabels: Record<string, string> = {
@@ -187,7 +213,7 @@ function OrderHistory() {
                       {order.deliveryStatus && (
                         <div className="flex items-center gap-2">
                           <Truck className="h-4 w-4" />
-                          Доставка: {order.deliveryStatus}
+                          Доставка: {deliveryStatusLabels[order.deliveryStatus] || order.deliveryStatus}
                         </div>
                       )}
                       {order.paymentStatus && (
@@ -290,6 +316,49 @@ function OrderHistory() {
   );
 }
 
+// Лента отслеживания: события перевозчика от старых к новым
+function DeliveryTimeline({ orderId }: { orderId: string }) {
+  const { data, isLoading, isError } = useGetDeliveryTrackingQuery(orderId);
+
+  if (isLoading) {
+    return <p className="mt-3 text-sm text-gray-500">Загружаем отслеживание…</p>;
+  }
+  if (isError || !data) {
+    return null;
+  }
+
+  return (
+    <div className="mt-3">
+      {data.trackingCode && (
+        <p className="text-sm text-gray-600 mb-3">
+          {data.deliveryService ? `${carrierLabels[data.deliveryService] || data.deliveryService}, ` : ''}
+          трек-номер: <span className="font-mono">{data.trackingCode}</span>
+        </p>
+      )}
+      {data.events.length === 0 ? (
+        <p className="text-sm text-gray-500">Событий доставки пока нет</p>
+      ) : (
+        <ol className="relative border-l border-gray-200 ml-2 space-y-4">
+          {data.events.map((event) => (
+            <li key={event.id} className="ml-4">
+              <span
+                className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full ${deliveryStatusColors[event.status] || 'bg-gray-400'}`}
+              />
+              <div className="text-sm font-medium">
+                {event.description || deliveryStatusLabels[event.status] || event.status}
+              </div>
+              <div className="text-xs text-gray-500">
+                {formatDateTimeRu(event.occurredAt)}
+                {event.location ? ` · ${event.location}` : ''}
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
+
 // Компонент модального окна для деталей заказа
 function OrderDetailsModal({ order, onClose }: { order: UiOrder; onClose: () => void }) {
 
@@ -332,8 +401,9 @@ function OrderDetailsModal({ order, onClose }: { order: UiOrder; onClose: () =>
               <h3 className="font-semibold mb-2">Статус доставки</h3>
               <div className="flex items-center gap-2 text-gray-600">
                 <Truck className="h-4 w-4" />
-                {order.deliveryStatus}
+                {deliveryStatusLabels[order.deliveryStatus] || order.deliveryStatus}
               </div>
+              {order.deliveryStatus !== 'not_required' && <DeliveryTimeline orderId={order.id} />}
             </div>
           )}
 
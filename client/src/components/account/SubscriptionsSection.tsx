@@ -0,0 +1,282 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { CalendarClock, CreditCard, Loader2, Pause, Play, Repeat, SkipForward, Wallet, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useCartStore } from '@/stores/cartStore';
+import {
+  useGetMyAddressesQuery,
+  useGetMySubscriptionsQuery,
+  useCreateSubscriptionMutation,
+  useSubscriptionActionMutation,
+  useRunSubscriptionNowMutation,
+} from '@/store/api/domains';
+import type {
+  Subscription,
+  SubscriptionAction,
+  SubscriptionPaymentSource,
+  SubscriptionStatus,
+} from '@/store/api/domains/subscriptionsApi';
+import { formatAddressOneLine } from '@/utils/address/normalize';
+
+const STATUS_LABEL: Record<SubscriptionStatus, string> = {
+  active: 'Активна',
+  paused: 'На паузе',
+  canceled: 'Отменена',
+};
+
+const INTERVALS = [1, 2, 3, 6];
+const CARRIERS = [
+  { value: 'sdek', label: 'СДЭК' },
+  { value: 'russianpost', label: 'Почта России' },
+  { value: 'yandex', label: 'Яндекс Доставка' },
+] as const;
+
+const rub = (v: number) => `${v.toLocaleString('ru-RU', { maximumFractionDigits: 2 })} ₽`;
+const intervalLabel = (n: number) => (n === 1 ? 'каждый месяц' : `раз в ${n} мес.`);
+
+/**
+ * SubscriptionsSection - Подписки на автопополнение
+ *
+ * - Оформить подписку на товары из корзины: период, оплата с баланса или картой, адрес доставки
+ * - Пропустить ближайший заказ, приостановить / возобновить, отменить
+ * - Карта сохраняется при первой оплате («Заказать сейчас» → страница оплаты)
+ */
+const SubscriptionsSection = () => {
+  const { toast } = useToast();
+  const cartItems = useCartStore((state) => state.items);
+
+  const { data: subscriptions = [], isLoading } = useGetMySubscriptionsQuery();
+  const { data: addresses = [] } = useGetMyAddressesQuery();
+  const [createSubscription, { isLoading: isCreating }] = useCreateSubscriptionMutation();
+  const [subscriptionAction, { isLoading: isActing }] = useSubscriptionActionMutation();
+  const [runNow, { isLoading: isRunning }] = useRunSubscriptionNowMutation();
+
+  const [intervalMonths, setIntervalMonths] = useState(1);
+  const [paymentSource, setPaymentSource] = useState<SubscriptionPaymentSource>('card');
+  const [addressId, setAddressId] = useState<string>('');
+  const [carrier, setCarrier] = useState<(typeof CARRIERS)[number]['value']>('sdek');
+
+  const showError = (error: any, fallback: string) =>
+    toast({ title: 'Ошибка', description: error?.data?.message || fallback, variant: 'destructive' });
+
+  const handleCreate = async () => {
+    const address = addresses.find((a) => a.id === addressId);
+    try {
+      await createSubscription({
+        items: cartItems.map((i) => ({ productId: i.productId, variantId: i.variantId ?? null, qty: i.quantity })),
+        intervalMonths,
+        paymentSource,
+        ...(address ? { deliveryAddress: formatAddressOneLine(address), deliveryService: carrier } : {}),
+      }).unwrap();
+      toast({ title: 'Подписка оформлена', description: 'Первый заказ — завтра, напомним заранее.' });
+    } catch (error: any) {
+      showError(error, 'Не удалось оформить подписку');
+    }
+  };
+
+  const handleAction = async (sub: Subscription, action: SubscriptionAction) => {
+    if (action === 'cancel' && !window.confirm('Отменить подписку? Возобновить её будет нельзя.')) return;
+    try {
+      await subscriptionAction({ id: sub.id, action }).unwrap();
+    } catch (error: any) {
+      showError(error, 'Не удалось изменить подписку');
+    }
+  };
+
+  const handleRunNow = async (sub: Subscription) => {
+    try {
+      const result = await runNow(sub.id).unwrap();
+      if (result.paymentUrl) {
+        window.location.href = result.paymentUrl;
+        return;
+      }
+      toast({ title: 'Заказ оформлен', description: 'Оплачен, следующий — по расписанию.' });
+    } catch (error: any) {
+      showError(error, 'Не удалось оформить заказ');
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-xl font-semibold text-gray-900">Подписки</h2>
+        <p className="text-sm text-gray-600">
+          Регулярная доставка любимых добавок со скидкой подписчика. PV заказов идут в ваш статус каждый месяц.
+        </p>
+      </div>
+
+      {subscriptions.length === 0 && (
+        <p className="text-sm text-gray-500">У вас пока нет подписок.</p>
+      )}
+
+      {subscriptions.map((sub) => (
+        <Card key={sub.id} className={sub.status === 'canceled' ? 'opacity-60' : undefined}>
+          <CardHeader className="pb-3">
+            <div className="flex items-start justify-between gap-2">
+              <div>
+                <CardTitle className="flex items-center gap-2 text-base">
+                  <Repeat className="h-4 w-4 text-emerald-600" />
+                  {intervalLabel(sub.intervalMonths)}
+                </CardTitle>
+                <CardDescription className="mt-1 flex items-center gap-1">
+                  <CalendarClock className="h-4 w-4" />
+                  {sub.status === 'active'
+                    ? `Следующий заказ ${new Date(sub.retryAt ?? sub.nextRunAt).toLocaleDateString('ru-RU')}`
+                    : STATUS_LABEL[sub.status]}
+                </CardDescription>
+              </div>
+              <Badge variant={sub.status === 'active' ? 'default' : 'secondary'}>{STATUS_LABEL[sub.status]}</Badge>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <ul className="text-sm text-gray-700 space-y-1">
+              {sub.items.map((i) => (
+                <li key={`${i.productId}:${i.variantId ?? ''}`} className="flex justify-between">
+                  <span>
+                    {i.productName}
+                    {i.variantName ? ` (${i.variantName})` : ''} × {i.qty}
+                  </span>
+                  <span className="text-gray-500">{rub(i.unitPriceRub * i.qty)}</span>
+                </li>
+              ))}
+            </ul>
+
+            <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+              <span className="flex items-center gap-1 text-gray-600">
+                {sub.paymentSource === 'wallet' ? <Wallet className="h-4 w-4" /> : <CreditCard className="h-4 w-4" />}
+                {sub.paymentSource === 'wallet'
+                  ? 'С баланса'
+                  : sub.hasSavedCard
+                    ? 'Сохранённой картой'
+                    : 'Картой — привяжите при первом заказе'}
+              </span>
+              <span>
+                <span className="text-gray-500 line-through mr-2">{rub(sub.itemsSubtotalRub)}</span>
+                <span className="font-semibold text-gray-900">{rub(sub.estimatedTotalRub)}</span>
+                <span className="text-emerald-600 ml-1">−{sub.discountPercent}%</span>
+              </span>
+            </div>
+
+            {sub.failedAttempts > 0 && sub.status === 'active' && (
+              <p className="text-sm text-amber-600">Последнее списание не прошло — повторим {new Date(sub.retryAt ?? sub.nextRunAt).toLocaleDateString('ru-RU')}.</p>
+            )}
+
+            {sub.status !== 'canceled' && (
+              <div className="flex flex-wrap gap-2 pt-1">
+                {sub.status === 'active' && (
+                  <>
+                    {sub.paymentSource === 'card' && !sub.hasSavedCard && (
+                      <Button size="sm" onClick={() => handleRunNow(sub)} disabled={isRunning}>
+                        <CreditCard className="h-4 w-4 mr-1" /> Заказать сейчас и привязать карту
+                      </Button>
+                    )}
+                    <Button size="sm" variant="outline" onClick={() => handleAction(sub, 'skip')} disabled={isActing}>
+                      <SkipForward className="h-4 w-4 mr-1" /> Пропустить
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => handleAction(sub, 'pause')} disabled={isActing}>
+                      <Pause className="h-4 w-4 mr-1" /> Пауза
+                    </Button>
+                  </>
+                )}
+                {sub.status === 'paused' && (
+                  <Button size="sm" variant="outline" onClick={() => handleAction(sub, 'resume')} disabled={isActing}>
+                    <Play className="h-4 w-4 mr-1" /> Возобновить
+                  </Button>
+                )}
+                <Button size="sm" variant="ghost" className="text-red-600" onClick={() => handleAction(sub, 'cancel')} disabled={isActing}>
+                  <X className="h-4 w-4 mr-1" /> Отменить
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      ))}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Новая подписка</CardTitle>
+          <CardDescription>
+            {cartItems.length > 0
+              ? `Из корзины: ${cartItems.map((i) => `${i.name} × ${i.quantity}`).join(', ')}`
+              : 'Добавьте товары в корзину — подписка оформляется на её состав.'}
+          </CardDescription>
+        </CardHeader>
+        {cartItems.length > 0 && (
+          <CardContent className="space-y-4">
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-1">
+                <Label>Периодичность</Label>
+                <Select value={String(intervalMonths)} onValueChange={(v) => setIntervalMonths(Number(v))}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {INTERVALS.map((n) => (
+                      <SelectItem key={n} value={String(n)}>{intervalLabel(n)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Оплата</Label>
+                <Select value={paymentSource} onValueChange={(v) => setPaymentSource(v as SubscriptionPaymentSource)}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="card">Картой (сохраним при первой оплате)</SelectItem>
+                    <SelectItem value="wallet">С баланса</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Адрес доставки</Label>
+                <Select value={addressId} onValueChange={setAddressId}>
+                  <SelectTrigger><SelectValue placeholder="Самовывоз" /></SelectTrigger>
+                  <SelectContent>
+                    {addresses.map((a) => (
+                      <SelectItem key={a.id} value={a.id}>{formatAddressOneLine(a)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {addressId && (
+                <div className="space-y-1">
+                  <Label>Служба доставки</Label>
+                  <Select value={carrier} onValueChange={(v) => setCarrier(v as typeof carrier)}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {CARRIERS.map((c) => (
+                        <SelectItem key={c.value} value={c.value}>{c.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+            <Button onClick={handleCreate} disabled={isCreating} className="bg-emerald-600 hover:bg-emerald-700">
+              {isCreating ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Repeat className="h-4 w-4 mr-2" />}
+              Оформить подписку
+            </Button>
+          </CardContent>
+        )}
+      </Card>
+    </div>
+  );
+};
+
+export default SubscriptionsSection;
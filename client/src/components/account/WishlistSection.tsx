@@ -0,0 +1,136 @@
+import { Link } from 'react-router-dom';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Bell, BellRing, Heart, Loader2, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { getMainProductImage } from '@/utils/imageUtils';
+import {
+  useGetWishlistQuery,
+  useRemoveFromWishlistMutation,
+  useRequestBackInStockMutation,
+  useCancelBackInStockMutation,
+  type WishlistEntry,
+} from '@/store/api/domains/wishlistApi';
+
+const rub = (v: string | number) => `${Number(v).toLocaleString('ru-RU', { maximumFractionDigits: 2 })} ₽`;
+
+/**
+ * WishlistSection - Избранное
+ *
+ * - Сохранённые товары с ценой и наличием
+ * - Нет в наличии — «Сообщить о поступлении» (Telegram, без него — email)
+ */
+const WishlistSection = () => {
+  const { toast } = useToast();
+  const { data: items = [], isLoading } = useGetWishlistQuery();
+  const [remove, { isLoading: isRemoving }] = useRemoveFromWishlistMutation();
+  const [request, { isLoading: isRequesting }] = useRequestBackInStockMutation();
+  const [cancel, { isLoading: isCanceling }] = useCancelBackInStockMutation();
+  const isBusy = isRemoving || isRequesting || isCanceling;
+
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+    } catch (error: any) {
+      toast({
+        title: 'Ошибка',
+        description: error?.data?.message || 'Не удалось сохранить изменения',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const toggleBackInStock = (item: WishlistEntry) =>
+    run(() =>
+      item.backInStockRequested ? cancel(item.productId).unwrap() : request(item.productId).unwrap()
+    );
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-xl font-semibold text-gray-900">Избранное</h2>
+        <p className="text-sm text-gray-600">
+          Товары, которые вы сохранили. Если товара нет в наличии — сообщим, когда он появится.
+        </p>
+      </div>
+
+      {items.length === 0 && (
+        <div className="flex flex-col items-center py-10 text-gray-500">
+          <Heart className="h-10 w-10 mb-3 text-gray-300" />
+          <p className="text-sm">
+            Нажмите на сердечко в <Link to="/store" className="text-emerald-600 hover:underline">каталоге</Link>, чтобы сохранить товар.
+          </p>
+        </div>
+      )}
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        {items.map((item) => {
+          const outOfStock = item.stock <= 0 && !item.isBundle;
+          return (
+            <Card key={item.productId}>
+              <CardContent className="flex gap-4 p-4">
+                <Link to={`/product/${item.slug}`} className="shrink-0">
+                  <img
+                    src={getMainProductImage({ images: (item.images as any[]) ?? [] })}
+                    alt={item.name}
+                    className="h-20 w-20 rounded-lg object-cover bg-gray-50"
+                    loading="lazy"
+                  />
+                </Link>
+                <div className="flex min-w-0 flex-1 flex-col gap-2">
+                  <Link to={`/product/${item.slug}`} className="font-medium text-gray-900 hover:text-emerald-700 line-clamp-2">
+                    {item.name}
+                  </Link>
+                  <div className="flex items-center gap-2 text-sm">
+                    <span className="font-semibold">{rub(item.price)}</span>
+                    {item.originalPrice && Number(item.originalPrice) > Number(item.price) && (
+                      <span className="text-gray-400 line-through">{rub(item.originalPrice)}</span>
+                    )}
+                    {item.status !== 'active' ? (
+                      <Badge variant="secondary">Снят с продажи</Badge>
+                    ) : outOfStock ? (
+                      <Badge variant="secondary">Нет в наличии</Badge>
+                    ) : (
+                      <Badge className="bg-emerald-100 text-emerald-700 hover:bg-emerald-100">В наличии</Badge>
+                    )}
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    {outOfStock && item.status === 'active' && (
+                      <Button size="sm" variant="outline" onClick={() => toggleBackInStock(item)} disabled={isBusy}>
+                        {item.backInStockRequested ? (
+                          <><BellRing className="h-4 w-4 mr-1" /> Сообщим о поступлении</>
+                        ) : (
+                          <><Bell className="h-4 w-4 mr-1" /> Сообщить о поступлении</>
+                        )}
+                      </Button>
+                    )}
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="text-red-600"
+                      onClick={() => run(() => remove(item.productId).unwrap())}
+                      disabled={isBusy}
+                    >
+                      <Trash2 className="h-4 w-4 mr-1" /> Убрать
+                    </Button>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default WishlistSection;
@@ -100,6 +100,7 @@ export function ProductForm({ product, onSuccess, onCancel }: ProductFormNewProp
             category: (product as any)?.category || '',
             badge: product?.badge || '',
             stock: product?.stock || 0,
+            low_stock_threshold: product?.lowStockThreshold ?? '',
             status: (product?.status || 'active') as 'active' | 'inactive',
             sku: product?.sku || '',
             slug: product?.slug || '',
@@ -202,6 +203,7 @@ export function ProductForm({ product, onSuccess, onCancel }: ProductFormNewProp
             categoryId: selectedCategoryId,
 
             stock: parseInt(data.stock) || 0,
+            lowStockThreshold: data.low_stock_threshold !== '' ? parseInt(data.low_stock_threshold) : null,
             sku: data.sku || undefined,
 
             isPvEligible: true,
@@ -606,6 +608,12 @@ export function ProductForm({ product, onSuccess, onCancel }: ProductFormNewProp
                             <Label htmlFor="sku">SKU</Label>
                             <Input id="sku" {...register('sku')} placeholder="PROD-001" />
                         </div>
+
+                        <div>
+                            <Label htmlFor="low_stock_threshold">Порог остатка</Label>
+                            <Input id="low_stock_threshold" type="number" min={0} {...register('low_stock_threshold')} placeholder="Не уведомлять" />
+                            <p className="text-xs text-gray-500 mt-1">Уведомление в Telegram, когда остаток опустится до порога</p>
+                        </div>
                     </div>
                 </CardContent>
             </Card>
@@ -3,7 +3,7 @@ import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-import {Product} from '@/store/api/domains/productsApi';
+import {Product, useGetAdminStockLevelsQuery} from '@/store/api/domains/productsApi';
 type ImageMeta = {
     alt?: string;
     role?: 'main' | 'gallery';
@@ -47,6 +47,10 @@ export interface ProductListProps {
 }
 
 export function ProductList({ products, searchTerm, onSearchChange, onEdit, onDelete }: ProductListProps) {
+    // Резервы неоплаченных заказов: на складе ≠ доступно к продаже
+    const { data: stockLevels } = useGetAdminStockLevelsQuery({ reservedOnly: true, limit: 200 });
+    const reservedById = new Map((stockLevels?.items ?? []).map((l) => [l.productId, l]));
+
     return (
         <div>
             <div className="flex items-center space-x-2 mb-4">
@@ -88,6 +92,7 @@ export function ProductList({ products, searchTerm, onSearchChange, onEdit, onDe
 
                         // статус по умолчанию — активный
                         const status = (product as any).status ?? 'active';
+                        const level = reservedById.get(product.id);
 
                         return (
                             <TableRow key={product.id}>
@@ -129,6 +134,11 @@ export function ProductList({ products, searchTerm, onSearchChange, onEdit, onDe
                                     <Badge variant={product.stock > 50 ? 'default' : product.stock > 0 ? 'secondary' : 'destructive'}>
                                         {product.stock} шт.
                                     </Badge>
+                                    {level && (
+                                        <div className="text-xs text-gray-500 mt-1">
+                                            резерв {level.reserved} · доступно {level.available}
+                                        </div>
+                                    )}
                                 </TableCell>
 
                                 <TableCell>
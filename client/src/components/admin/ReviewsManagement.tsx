@@ -3,6 +3,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
 import {
   Select,
   SelectContent,
@@ -19,12 +20,18 @@ import {
   Loader2,
   Search,
   MessageSquare,
+  Reply,
+  Store,
+  ThumbsUp,
+  Trash2,
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import {
   useGetAdminReviewsQuery,
   useAdminApproveReviewMutation,
   useAdminRejectReviewMutation,
+  useAdminReplyReviewMutation,
+  useAdminDeleteReviewReplyMutation,
 } from '@/store/api/domains';
 import type {  ReviewStatus } from '@/types/review';
 
@@ -35,6 +42,7 @@ import type {  ReviewStatus } from '@/types/review';
  * - Просмотр всех отзывов (опубликованных, на модерации, отклонённых)
  * - Фильтрация по статусу, рейтингу, товару
  * - Утверждение/отклонение отзывов
+ * - Официальный ответ магазина под отзывом
  */
 const ReviewsManagement = () => {
   const { toast } = useToast();
@@ -42,11 +50,15 @@ const ReviewsManagement = () => {
   const [statusFilter, setStatusFilter] = useState<ReviewStatus | 'all'>('all');
   const [ratingFilter, setRatingFilter] = useState<number | 'all'>('all');
   const [searchQuery, setSearchQuery] = useState('');
+  const [replyingId, setReplyingId] = useState<string | null>(null);
+  const [replyText, setReplyText] = useState('');
 
   // RTK Query hooks
   const { data: reviews = [], isLoading } = useGetAdminReviewsQuery();
   const [approveReview, { isLoading: isApproving }] = useAdminApproveReviewMutation();
   const [rejectReview, { isLoading: isRejecting }] = useAdminRejectReviewMutation();
+  const [replyReview, { isLoading: isReplying }] = useAdminReplyReviewMutation();
+  const [deleteReply, { isLoading: isDeletingReply }] = useAdminDeleteReviewReplyMutation();
 
   // Фильтрация отзывов
   const filteredReviews = reviews.filter((review) => {
@@ -109,6 +121,52 @@ const ReviewsManagement = () => {
     }
   };
 
+  // Открыть форму ответа (с текущим ответом для правки)
+  const handleStartReply = (id: string, current?: string | null) => {
+    setReplyingId(id);
+    setReplyText(current || '');
+  };
+
+  // Сохранить ответ магазина
+  const handleSaveReply = async (id: string) => {
+    if (!replyText.trim()) return;
+
+    try {
+      await replyReview({ id, body: replyText.trim() }).unwrap();
+      setReplyingId(null);
+      setReplyText('');
+      toast({
+        title: 'Ответ сохранён',
+      });
+    } catch (error: any) {
+      toast({
+        title: 'Ошибка',
+        description: error?.data?.message || 'Не удалось сохранить ответ',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  // Удалить ответ магазина
+  const handleDeleteReply = async (id: string) => {
+    if (!confirm('Удалить ответ магазина?')) {
+      return;
+    }
+
+    try {
+      await deleteReply(id).unwrap();
+      toast({
+        title: 'Ответ удалён',
+      });
+    } catch (error: any) {
+      toast({
+        title: 'Ошибка',
+        description: error?.data?.message || 'Не удалось удалить ответ',
+        variant: 'destructive',
+      });
+    }
+  };
+
   // Звёзды рейтинга
   const renderStars = (rating: number) => {
     return (
@@ -342,6 +400,70 @@ const ReviewsManagement = () => {
                         {review.body}
                       </p>
                     )}
+
+                    <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                      <ThumbsUp className="h-3 w-3" />
+                      Полезно: {review.helpfulCount}
+                    </div>
+
+                    {/* Ответ магазина */}
+                    {replyingId === review.id ? (
+                      <div className="space-y-2">
+                        <Textarea
+                          placeholder="Ответ от имени магазина"
+                          value={replyText}
+                          onChange={(e) => setReplyText(e.target.value)}
+                          rows={3}
+                          maxLength={5000}
+                        />
+                        <div className="flex gap-2">
+                          <Button
+                            size="sm"
+                            onClick={() => handleSaveReply(review.id)}
+                            disabled={isReplying || !replyText.trim()}
+                          >
+                            {isReplying && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+                            Сохранить ответ
+                          </Button>
+                          <Button size="sm" variant="outline" onClick={() => setReplyingId(null)}>
+                            Отмена
+                          </Button>
+                        </div>
+                      </div>
+                    ) : review.replyBody ? (
+                      <div className="rounded-md bg-emerald-50 border border-emerald-100 p-3">
+                        <div className="flex items-center justify-between mb-1">
+                          <span className="flex items-center gap-2 text-sm font-medium text-emerald-700">
+                            <Store className="h-4 w-4" />
+                            Ответ магазина
+                          </span>
+                          <div className="flex gap-1">
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => handleStartReply(review.id, review.replyBody)}
+                            >
+                              <Reply className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              className="text-red-600"
+                              onClick={() => handleDeleteReply(review.id)}
+                              disabled={isDeletingReply}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </div>
+                        <p className="text-sm text-gray-700 whitespace-pre-wrap">{review.replyBody}</p>
+                      </div>
+                    ) : (
+                      <Button size="sm" variant="outline" onClick={() => handleStartReply(review.id)}>
+                        <Reply className="h-4 w-4 mr-1" />
+                        Ответить
+                      </Button>
+                    )}
                   </div>
                 </CardContent>
               </Card>
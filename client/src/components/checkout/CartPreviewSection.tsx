@@ -79,6 +79,9 @@ export function CartPreviewSection() {
               {/* Информация о товаре */}
               <div className="flex-1 min-w-0">
                 <p className="text-sm font-medium truncate">{item.name}</p>
+                {item.variantName && (
+                  <p className="text-xs text-muted-foreground truncate">{item.variantName}</p>
+                )}
                 <p className="text-sm text-muted-foreground">
                   {item.qty} × {Number(item.unitPrice).toLocaleString()} ₽
                 </p>
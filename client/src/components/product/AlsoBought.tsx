@@ -0,0 +1,32 @@
+// client/src/components/product/AlsoBought.tsx
+
+import ProductCard from "@/components/ProductCard";
+import { useGetAlsoBoughtProductsQuery } from "@/store/api/domains";
+
+interface AlsoBoughtProps {
+    productId: string;
+    title?: string;
+}
+
+/**
+ * «С этим товаром покупают» — по совместным доставленным заказам.
+ * Пока статистики нет, блок не показываем (ниже и так есть «Похожие товары»).
+ */
+const AlsoBought = ({ productId, title = "С этим товаром покупают" }: AlsoBoughtProps) => {
+    const { data: products = [] } = useGetAlsoBoughtProductsQuery({ productId, limit: 4 });
+
+    if (products.length === 0) return null;
+
+    return (
+        <section className="py-8 mb-8">
+            <h2 className="text-2xl font-bold text-gray-900 mb-6">{title}</h2>
+            <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-3 sm:gap-4">
+                {products.map((product) => (
+                    <ProductCard key={product.id} product={product} />
+                ))}
+            </div>
+        </section>
+    );
+};
+
+export default AlsoBought;
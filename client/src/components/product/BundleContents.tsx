@@ -0,0 +1,32 @@
+import type { BundleItem } from '@/store/api/domains/productsApi';
+
+interface BundleContentsProps {
+    items: BundleItem[];
+}
+
+/** Состав набора на карточке: что и сколько штук входит в один набор */
+const BundleContents = ({ items }: BundleContentsProps) => {
+    if (items.length === 0) return null;
+
+    return (
+        <div className="flex flex-col space-y-2">
+            <span className="text-sm font-medium text-gray-700">В наборе</span>
+            <ul className="rounded-lg border border-gray-200 divide-y divide-gray-100">
+                {items.map((item) => (
+                    <li
+                        key={`${item.productId}:${item.variantId ?? ''}`}
+                        className="flex items-center justify-between px-3 py-2 text-sm text-gray-700"
+                    >
+                        <span>
+                            {item.productName}
+                            {item.variantName && <span className="ml-1 text-gray-500">({item.variantName})</span>}
+                        </span>
+                        <span className="text-gray-500">× {item.qty}</span>
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+};
+
+export default BundleContents;
@@ -1,7 +1,8 @@
 
-import { useState } from 'react';
-import { Heart, Share2, ShoppingCart, Shield, TruckIcon, Star, Coins } from 'lucide-react';
+import { useState, type ReactNode } from 'react';
+import { Heart, Share2, ShoppingCart, Shield, TruckIcon, Star, Coins, Bell, BellRing } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { useWishlist } from '@/hooks/useWishlist';
 import { useProductCalculations } from '@/utils/productCalculations';
 import { ProductBonusesDetailed } from '../ProductBonuses';
 import { useAuthStore } from '@/stores';
@@ -20,10 +21,16 @@ interface ProductInfoProps {
         benefits?: string[];
     };
     onAddToCart: () => void;
+    /** Выбранный вариант: «Купить сейчас» кладёт в корзину его */
+    variantId?: string | null;
+    /** Выбор фасовки / вкуса — под ценой */
+    variantPicker?: ReactNode;
+    /** Товара нет в наличии: вместо покупки — «Сообщить о поступлении» */
+    outOfStock?: boolean;
 }
 
-const ProductInfo = ({ product, onAddToCart }: ProductInfoProps) => {
-    const [isFavorite, setIsFavorite] = useState(false);
+const ProductInfo = ({ product, onAddToCart, variantId = null, variantPicker, outOfStock = false }: ProductInfoProps) => {
+    const { isLiked: isFavorite, isWaiting, isBusy: isWishlistBusy, toggleLiked, toggleBackInStock } = useWishlist(product.id);
     const [isLoading, setIsLoading] = useState(false);
     const { toast } = useToast();
     const { user } = useAuthStore();
@@ -57,6 +64,7 @@ const ProductInfo = ({ product, onAddToCart }: ProductInfoProps) => {
             await updateCart({
                 action: 'add',
                 product_id: product.id,
+                variant_id: variantId,
                 quantity: 1,
             }).unwrap();
 
@@ -77,6 +85,17 @@ const ProductInfo = ({ product, onAddToCart }: ProductInfoProps) => {
         }
     };
 
+    const renderBackInStock = (className: string) => (
+        <button
+          onClick={toggleBackInStock}
+          disabled={isWishlistBusy}
+          className={`${className} border-emerald-600 border text-emerald-600 hover:bg-emerald-50 rounded-xl h-12 w-full flex items-center justify-center font-medium transition-colors`}
+        >
+          {isWaiting ? <BellRing className="h-5 w-5 mr-2" /> : <Bell className="h-5 w-5 mr-2" />}
+          {isWaiting ? 'Сообщим о поступлении — отменить' : 'Нет в наличии — сообщить о поступлении'}
+        </button>
+    );
+
     const handleShare = () => {
         if (navigator.share) {
             navigator.share({
@@ -111,7 +130,9 @@ const ProductInfo = ({ product, onAddToCart }: ProductInfoProps) => {
             <div className="flex items-center space-x-2">
               <button
                 className={`rounded-full p-2 border ${isFavorite ? 'text-red-500 border-red-200' : 'text-gray-400 border-gray-200'}`}
-                onClick={() => setIsFavorite(!isFavorite)}
+                onClick={toggleLiked}
+                disabled={isWishlistBusy}
+                aria-label={isFavorite ? 'Убрать из избранного' : 'В избранное'}
               >
                 <Heart className={`h-4 w-4 lg:h-5 lg:w-5 ${isFavorite ? 'fill-red-500' : ''}`} />
               </button>
@@ -143,6 +164,8 @@ const ProductInfo = ({ product, onAddToCart }: ProductInfoProps) => {
           )}
         </div>
 
+        {variantPicker}
+
         {/* Rating - temporary static data */}
         <div className="flex items-center space-x-2">
           <div className="flex items-center">
@@ -183,31 +206,35 @@ const ProductInfo = ({ product, onAddToCart }: ProductInfoProps) => {
         </div>
       </div>
       {/* Buttons - показываем над характеристиками на мобильной версии */}
-      <div className="lg:hidden grid grid-cols-2 gap-3">
-        <button
-          onClick={handleBuyNow}
-          disabled={isLoading}
-          className="bg-emerald-600 hover:bg-emerald-700 disabled:bg-emerald-400 text-white rounded-xl h-12 flex items-center justify-center font-medium transition-colors"
-        >
-          {isLoading ? (
-            <>
-              <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
-              Добавление...
-            </>
-          ) : (
-            <>
-              <ShoppingCart className="h-5 w-5 mr-2" />
-              Купить сейчас
-            </>
-          )}
-        </button>
-        <button
-          onClick={onAddToCart}
-          className="border-emerald-600 border text-emerald-600 hover:bg-emerald-50 rounded-xl h-12 flex items-center justify-center font-medium transition-colors"
-        >
-          В корзину
-        </button>
-      </div>
+      {outOfStock ? (
+        renderBackInStock('lg:hidden')
+      ) : (
+        <div className="lg:hidden grid grid-cols-2 gap-3">
+          <button
+            onClick={handleBuyNow}
+            disabled={isLoading}
+            className="bg-emerald-600 hover:bg-emerald-700 disabled:bg-emerald-400 text-white rounded-xl h-12 flex items-center justify-center font-medium transition-colors"
+          >
+            {isLoading ? (
+              <>
+                <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
+                Добавление...
+              </>
+            ) : (
+              <>
+                <ShoppingCart className="h-5 w-5 mr-2" />
+                Купить сейчас
+              </>
+            )}
+          </button>
+          <button
+            onClick={onAddToCart}
+            className="border-emerald-600 border text-emerald-600 hover:bg-emerald-50 rounded-xl h-12 flex items-center justify-center font-medium transition-colors"
+          >
+            В корзину
+          </button>
+        </div>
+      )}
       {/* Product Characteristics Table */}
       <div className="bg-gray-50 rounded-xl p-6">
         <h3 className="text-lg font-semibold text-gray-900 mb-4">Характеристики товара</h3>
@@ -313,31 +340,35 @@ const ProductInfo = ({ product, onAddToCart }: ProductInfoProps) => {
         )}
       </div>
       {/* Buttons - показываем после характеристик на десктопной версии */}
-      <div className="hidden lg:grid grid-cols-2 gap-3 pt-4">
-        <button
-          onClick={handleBuyNow}
-          disabled={isLoading}
-          className="bg-emerald-600 hover:bg-emerald-700 disabled:bg-emerald-400 text-white rounded-xl h-12 flex items-center justify-center font-medium transition-colors"
-        >
-          {isLoading ? (
-            <>
-              <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
-              Добавление...
-            </>
-          ) : (
-            <>
-              <ShoppingCart className="h-5 w-5 mr-2" />
-              Купить сейчас
-            </>
-          )}
-        </button>
-        <button
-          onClick={onAddToCart}
-          className="border-emerald-600 border text-emerald-600 hover:bg-emerald-50 rounded-xl h-12 flex items-center justify-center font-medium transition-colors"
-        >
-          В корзину
-        </button>
-      </div>
+      {outOfStock ? (
+        renderBackInStock('hidden lg:flex mt-4')
+      ) : (
+        <div className="hidden lg:grid grid-cols-2 gap-3 pt-4">
+          <button
+            onClick={handleBuyNow}
+            disabled={isLoading}
+            className="bg-emerald-600 hover:bg-emerald-700 disabled:bg-emerald-400 text-white rounded-xl h-12 flex items-center justify-center font-medium transition-colors"
+          >
+            {isLoading ? (
+              <>
+                <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
+                Добавление...
+              </>
+            ) : (
+              <>
+                <ShoppingCart className="h-5 w-5 mr-2" />
+                Купить сейчас
+              </>
+            )}
+          </button>
+          <button
+            onClick={onAddToCart}
+            className="border-emerald-600 border text-emerald-600 hover:bg-emerald-50 rounded-xl h-12 flex items-center justify-center font-medium transition-colors"
+          >
+            В корзину
+          </button>
+        </div>
+      )}
     </div>
   );
 };
@@ -13,6 +13,13 @@ import {
   DialogTitle,
   DialogTrigger,
 } from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import {
   Star,
   User,
@@ -22,6 +29,8 @@ import {
   MessageSquare,
   Edit,
   Trash2,
+  ThumbsUp,
+  Store,
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import {
@@ -29,10 +38,11 @@ import {
   useCreateReviewMutation,
   useUpdateReviewMutation,
   useDeleteReviewMutation,
+  useVoteReviewHelpfulMutation,
+  useRemoveReviewHelpfulVoteMutation,
 } from '@/store/api/domains';
 import { useAuthStore } from '@/stores/authStore';
-import type { Review, CreateReviewDto } from '@/types/review';
-import { calculateAverageRating, getRatingColor } from '@/utils/review/normalize';
+import type { Review, CreateReviewDto, ReviewsOrder } from '@/types/review';
 
 interface ProductReviewsProps {
   productId: string;
@@ -43,8 +53,9 @@ interface ProductReviewsProps {
  * ProductReviews - Компонент отзывов на товар
  *
  * Отображает:
- * - Средний рейтинг и количество отзывов
- * - Список опубликованных отзывов
+ * - Средний рейтинг, количество и распределение оценок (сводка с бэка)
+ * - Список опубликованных отзывов (свежие / полезные) с ответами магазина
+ * - Кнопку «Полезно» (один голос, за свой отзыв нельзя)
  * - Форму для добавления отзыва (для авторизованных)
  * - Редактирование/удаление собственных отзывов
  */
@@ -54,12 +65,16 @@ const ProductReviews = ({ productId, productName }: ProductReviewsProps) => {
 
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingReview, setEditingReview] = useState<Review | null>(null);
+  const [order, setOrder] = useState<ReviewsOrder>('newest');
 
   // RTK Query hooks
-  const { data: reviews = [], isLoading } = useGetPublicReviewsQuery({ productId, status: 'published' });
+  const { data, isLoading } = useGetPublicReviewsQuery({ productId, order });
+  const reviews = data?.items ?? [];
   const [createReview, { isLoading: isCreating }] = useCreateReviewMutation();
   const [updateReview, { isLoading: isUpdating }] = useUpdateReviewMutation();
   const [deleteReview, { isLoading: isDeleting }] = useDeleteReviewMutation();
+  const [voteHelpful, { isLoading: isVoting }] = useVoteReviewHelpfulMutation();
+  const [removeHelpfulVote, { isLoading: isUnvoting }] = useRemoveReviewHelpfulVoteMutation();
 
   // Form state
   const [formData, setFormData] = useState<CreateReviewDto>({
@@ -69,9 +84,10 @@ const ProductReviews = ({ productId, productName }: ProductReviewsProps) => {
     body: '',
   });
 
-  // Статистика
-  const averageRating = calculateAverageRating(reviews);
-  const totalReviews = reviews.length;
+  // Статистика — сводка по всем опубликованным отзывам, а не по текущей странице
+  const averageRating = data?.stats.average ?? 0;
+  const totalReviews = data?.stats.total ?? 0;
+  const distribution = data?.stats.distribution;
 
   // Мой отзыв (если есть)
   const myReview = reviews.find(r => r.userId === user?.id);
@@ -175,6 +191,32 @@ const ProductReviews = ({ productId, productName }: ProductReviewsProps) => {
     }
   };
 
+  // «Полезно»: повторное нажатие снимает голос
+  const handleToggleHelpful = async (review: Review) => {
+    if (!user) {
+      toast({
+        title: 'Требуется авторизация',
+        description: 'Войдите, чтобы оценить отзыв',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    try {
+      if (review.votedHelpful) {
+        await removeHelpfulVote(review.id).unwrap();
+      } else {
+        await voteHelpful(review.id).unwrap();
+      }
+    } catch (error: any) {
+      toast({
+        title: 'Ошибка',
+        description: error?.data?.message || 'Не удалось сохранить оценку',
+        variant: 'destructive',
+      });
+    }
+  };
+
   // Звёзды рейтинга
   const renderStars = (rating: number, size: 'sm' | 'md' | 'lg' = 'md') => {
     const sizeClass = size === 'sm' ? 'h-3 w-3' : size === 'lg' ? 'h-6 w-6' : 'h-4 w-4';
@@ -241,11 +283,31 @@ const ProductReviews = ({ productId, productName }: ProductReviewsProps) => {
               </CardTitle>
               {totalReviews > 0 && (
                 <div className="flex items-center gap-3 mt-3">
-                  {renderStars(averageRating, 'lg')}
+                  {renderStars(Math.round(averageRating), 'lg')}
                   <span className="text-2xl font-bold">{averageRating.toFixed(1)}</span>
                   <span className="text-muted-foreground">({totalReviews} отзывов)</span>
                 </div>
               )}
+              {totalReviews > 0 && distribution && (
+                <div className="mt-3 space-y-1 max-w-xs">
+                  {([5, 4, 3, 2, 1] as const).map((star) => {
+                    const count = distribution[star] ?? 0;
+                    return (
+                      <div key={star} className="flex items-center gap-2 text-xs text-muted-foreground">
+                        <span className="w-3">{star}</span>
+                        <Star className="h-3 w-3 fill-yellow-400 text-yellow-400" />
+                        <div className="flex-1 h-2 rounded bg-gray-100 overflow-hidden">
+                          <div
+                            className="h-full bg-yellow-400"
+                            style={{ width: `${(count / totalReviews) * 100}%` }}
+                          />
+                        </div>
+                        <span className="w-6 text-right">{count}</span>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
             </div>
 
             {canWriteReview && (
@@ -332,6 +394,23 @@ const ProductReviews = ({ productId, productName }: ProductReviewsProps) => {
         </CardHeader>
       </Card>
 
+      {/* Сортировка */}
+      {reviews.length > 1 && (
+        <div className="flex justify-end">
+          <Select value={order} onValueChange={(value) => setOrder(value as ReviewsOrder)}>
+            <SelectTrigger className="w-48">
+              <SelectValue placeholder="Сортировка" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="newest">Сначала новые</SelectItem>
+              <SelectItem value="helpful">Сначала полезные</SelectItem>
+              <SelectItem value="rating_desc">Сначала высокая оценка</SelectItem>
+              <SelectItem value="rating_asc">Сначала низкая оценка</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
       {/* Список отзывов */}
       {totalReviews === 0 ? (
         <Card>
@@ -426,6 +505,31 @@ const ProductReviews = ({ productId, productName }: ProductReviewsProps) => {
                         {review.body}
                       </p>
                     )}
+
+                    {/* Ответ магазина */}
+                    {review.replyBody && (
+                      <div className="rounded-md bg-emerald-50 border border-emerald-100 p-3">
+                        <div className="flex items-center gap-2 text-sm font-medium text-emerald-700 mb-1">
+                          <Store className="h-4 w-4" />
+                          Ответ магазина
+                        </div>
+                        <p className="text-sm text-gray-700 whitespace-pre-wrap">{review.replyBody}</p>
+                      </div>
+                    )}
+
+                    {/* Полезно */}
+                    <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                      <span>Отзыв полезен?</span>
+                      <Button
+                        size="sm"
+                        variant={review.votedHelpful ? 'secondary' : 'outline'}
+                        disabled={isMyReview || isVoting || isUnvoting}
+                        onClick={() => handleToggleHelpful(review)}
+                      >
+                        <ThumbsUp className={`h-4 w-4 mr-1 ${review.votedHelpful ? 'fill-current' : ''}`} />
+                        {review.helpfulCount}
+                      </Button>
+                    </div>
                   </div>
                 </CardContent>
               </Card>
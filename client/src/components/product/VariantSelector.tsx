@@ -0,0 +1,46 @@
+import type { ProductVariant } from '@/store/api/domains/productsApi';
+
+interface VariantSelectorProps {
+    variants: ProductVariant[];
+    selectedId: string | null;
+    onSelect: (variant: ProductVariant) => void;
+}
+
+/**
+ * Выбор варианта товара (фасовка / вкус / размер).
+ * Варианта без остатка не выбрать — кнопка видна, но неактивна.
+ */
+const VariantSelector = ({ variants, selectedId, onSelect }: VariantSelectorProps) => {
+    if (variants.length === 0) return null;
+
+    return (
+        <div className="flex flex-col space-y-2">
+            <span className="text-sm font-medium text-gray-700">Вариант</span>
+            <div className="flex flex-wrap gap-2">
+                {variants.map((v) => {
+                    const isSelected = v.id === selectedId;
+                    const isOut = v.stock <= 0;
+                    return (
+                        <button
+                            key={v.id}
+                            type="button"
+                            onClick={() => onSelect(v)}
+                            disabled={isOut}
+                            aria-pressed={isSelected}
+                            className={`px-3 py-2 rounded-lg border text-sm transition-colors ${
+                                isSelected
+                                    ? 'border-emerald-600 bg-emerald-50 text-emerald-700 font-medium'
+                                    : 'border-gray-200 text-gray-700 hover:border-emerald-300'
+                            } ${isOut ? 'opacity-50 cursor-not-allowed line-through' : ''}`}
+                        >
+                            <span>{v.name}</span>
+                            <span className="ml-2 text-gray-500">{v.price.toLocaleString('ru-RU')} ₽</span>
+                        </button>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
+
+export default VariantSelector;
@@ -0,0 +1,82 @@
+import { useNavigate } from 'react-router-dom';
+import { useToast } from './use-toast';
+import { useAuthStore } from '@/stores';
+import {
+  useGetWishlistStateQuery,
+  useAddToWishlistMutation,
+  useRemoveFromWishlistMutation,
+  useRequestBackInStockMutation,
+  useCancelBackInStockMutation,
+} from '@/store/api/domains/wishlistApi';
+
+/**
+ * Избранное и «сообщить о поступлении» для одного товара.
+ * Отметки берутся из общего запроса /wishlist/ids — один на весь каталог.
+ * Гостя ведём на логин.
+ */
+export const useWishlist = (productId: string) => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { user, isHydrated } = useAuthStore();
+
+  const { data: state } = useGetWishlistStateQuery(undefined, { skip: !isHydrated || !user });
+  const [add, { isLoading: isAdding }] = useAddToWishlistMutation();
+  const [remove, { isLoading: isRemoving }] = useRemoveFromWishlistMutation();
+  const [request, { isLoading: isRequesting }] = useRequestBackInStockMutation();
+  const [cancel, { isLoading: isCanceling }] = useCancelBackInStockMutation();
+
+  const isLiked = !!state?.productIds.includes(productId);
+  const isWaiting = !!state?.backInStockProductIds.includes(productId);
+
+  const showError = (error: any) =>
+    toast({
+      title: 'Ошибка',
+      description: error?.data?.message || 'Не удалось сохранить изменения',
+      variant: 'destructive',
+    });
+
+  const toggleLiked = async () => {
+    if (!user) {
+      navigate('/login');
+      return;
+    }
+    try {
+      if (isLiked) {
+        await remove(productId).unwrap();
+      } else {
+        await add(productId).unwrap();
+        toast({ title: 'Добавлено в избранное' });
+      }
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const toggleBackInStock = async () => {
+    if (!user) {
+      navigate('/login');
+      return;
+    }
+    try {
+      if (isWaiting) {
+        await cancel(productId).unwrap();
+      } else {
+        await request(productId).unwrap();
+        toast({
+          title: 'Сообщим о поступлении',
+          description: 'Напишем в Telegram (или на email), как только товар появится.',
+        });
+      }
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  return {
+    isLiked,
+    isWaiting,
+    isBusy: isAdding || isRemoving || isRequesting || isCanceling,
+    toggleLiked,
+    toggleBackInStock,
+  };
+};
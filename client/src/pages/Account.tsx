@@ -12,6 +12,8 @@ import AddressManagement from '../components/account/AddressManagement';
 import ReferralProgram from '../components/account/ReferralProgram';
 import AccountSettings from '../components/account/AccountSettings';
 import OrderHistory from '../components/account/OrderHistory';
+import SubscriptionsSection from '../components/account/SubscriptionsSection';
+import WishlistSection from '../components/account/WishlistSection';
 import MlmLevelSection from '../components/account/MlmLevelSection';
 import BonusPreferences from '../components/BonusPreferences';
 import MyNetwork from '../components/MyNetwork';
@@ -116,7 +118,7 @@ const Account = () => {
         <Tabs defaultValue="overview" className="space-y-4 md:space-y-6">
           <div className="bg-white shadow-sm rounded-lg p-2">
             {/* Первая строка навигации */}
-            <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-5 gap-2 mb-2">
+            <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-6 gap-2 mb-2">
               <TabsList className="bg-transparent p-0 h-auto">
                 <TabsTrigger value="overview" className="w-full text-xs md:text-sm px-2 py-2 data-[state=active]:bg-blue-50 data-[state=active]:text-blue-700 data-[state=active]:shadow-sm">
                   Обзор
@@ -127,6 +129,11 @@ const Account = () => {
                   Заказы
                 </TabsTrigger>
               </TabsList>
+              <TabsList className="bg-transparent p-0 h-auto">
+                <TabsTrigger value="subscriptions" className="w-full text-xs md:text-sm px-2 py-2 data-[state=active]:bg-blue-50 data-[state=active]:text-blue-700 data-[state=active]:shadow-sm">
+                  Подписки
+                </TabsTrigger>
+              </TabsList>
               <TabsList className="bg-transparent p-0 h-auto">
                 <TabsTrigger value="payment" className="w-full text-xs md:text-sm px-2 py-2 data-[state=active]:bg-blue-50 data-[state=active]:text-blue-700 data-[state=active]:shadow-sm">
                   Оплата
@@ -145,7 +152,12 @@ const Account = () => {
             </div>
             
             {/* Вторая строка навигации */}
-            <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-5 gap-2">
+            <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-6 gap-2">
+              <TabsList className="bg-transparent p-0 h-auto">
+                <TabsTrigger value="wishlist" className="w-full text-xs md:text-sm px-2 py-2 data-[state=active]:bg-blue-50 data-[state=active]:text-blue-700 data-[state=active]:shadow-sm">
+                  Избранное
+                </TabsTrigger>
+              </TabsList>
               <TabsList className="bg-transparent p-0 h-auto">
                 <TabsTrigger value="network" className="w-full text-xs md:text-sm px-2 py-2 data-[state=active]:bg-blue-50 data-[state=active]:text-blue-700 data-[state=active]:shadow-sm">
                   Моя сеть
@@ -182,6 +194,10 @@ const Account = () => {
             <TabsContent value="orders" className="mt-0 pt-2">
               <OrderHistory />
             </TabsContent>
+
+            <TabsContent value="subscriptions" className="mt-0 pt-2">
+              <SubscriptionsSection />
+            </TabsContent>
             
 
             <TabsContent value="payment" className="mt-0 pt-2">
@@ -196,6 +212,10 @@ const Account = () => {
               <ReferralProgram />
             </TabsContent>
             
+            <TabsContent value="wishlist" className="mt-0 pt-2">
+              <WishlistSection />
+            </TabsContent>
+
             <TabsContent value="network" className="mt-0 pt-2">
               <MyNetwork />
             </TabsContent>
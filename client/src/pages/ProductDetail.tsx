@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { useParams } from 'react-router-dom';
 import { useGetPublicProductQuery } from '@/store/api/domains';
 import SEOHead from '../components/SEOHead';
@@ -7,10 +7,13 @@ import Footer from '../components/Footer';
 import Cart from '../components/Cart';
 import ProductGallery from '../components/product/ProductGallery';
 import ProductInfo from '../components/product/ProductInfo';
+import VariantSelector from '../components/product/VariantSelector';
+import BundleContents from '../components/product/BundleContents';
 import ProductReviews from '../components/product/ProductReviews';
 import DetailedDescription from '../components/product/DetailedDescription';
 import ProductInfoSections from '../components/product/ProductInfoSections';
 import RelatedProducts from '../components/product/RelatedProducts';
+import AlsoBought from '../components/product/AlsoBought';
 import CompanyCommitments from '../components/product/CompanyCommitments';
 import ReferralProgram from '../components/account/ReferralProgram';
 import ProductSchema from '../components/ProductSchema';
@@ -33,10 +36,33 @@ const ProductDetail = () => {
     const { data: product, isLoading, error } =
         useGetPublicProductQuery(slug ?? "", { skip: !slug });
 
-    console.log(product)
+    // Выбранный вариант: по умолчанию — первый в наличии
+    const [variantId, setVariantId] = useState<string | null>(null);
+    const variants = product?.variants ?? [];
+    const selectedVariant = variants.find((v) => v.id === variantId)
+        ?? variants.find((v) => v.stock > 0)
+        ?? variants[0]
+        ?? null;
+
+    // Цена, остаток и артикул карточки — выбранного варианта
+    const shownProduct = useMemo(() => {
+        if (!product || !selectedVariant) return product;
+        return {
+            ...product,
+            price: selectedVariant.price,
+            originalPrice: selectedVariant.originalPrice ?? null,
+            stock: selectedVariant.stock,
+            sku: selectedVariant.sku ?? product.sku,
+            customPv: selectedVariant.customPv ?? product.customPv,
+            customCashback: selectedVariant.customCashback ?? product.customCashback,
+            images: selectedVariant.images.length > 0 ? selectedVariant.images : product.images,
+        };
+    }, [product, selectedVariant]);
+
     // Прокрутка при смене товара
     useEffect(() => {
         window.scrollTo(0, 0);
+        setVariantId(null);
     }, [slug]);
 
     const handleAddToCart = async () => {
@@ -57,6 +83,7 @@ const ProductDetail = () => {
             await updateCart({
                 action: 'add',
                 product_id: product.id,
+                variant_id: selectedVariant?.id ?? null,
                 quantity: 1,
             }).unwrap();
 
@@ -84,7 +111,7 @@ const ProductDetail = () => {
     }
 
     // Ошибка / товар не найден
-    if (error || !product) {
+    if (error || !product || !shownProduct) {
         return (
             <div className="min-h-screen bg-gray-50 flex items-center justify-center">
                 <div className="text-center">
@@ -103,10 +130,10 @@ const ProductDetail = () => {
         <div className="min-h-screen bg-gray-50" itemScope itemType="https://schema.org/Product">
             <SEOHead
                 title={`${product.name} — Купить с доставкой | VitaWin`}
-                description={`${product.name} по цене ${product.price} ₽. ${product.description ? product.description.substring(0, 140) + '...' : ''}`}
+                description={`${product.name} по цене ${shownProduct.price} ₽. ${product.description ? product.description.substring(0, 140) + '...' : ''}`}
                 keywords={`${product.name}, ${typeof product.category === 'string' ? product.category : product.category?.name || ''}, витамины, БАД`}
                 ogTitle={`${product.name} | VitaWin`}
-                ogDescription={`Купить ${product.name} по выгодной цене ${product.price} ₽`}
+                ogDescription={`Купить ${product.name} по выгодной цене ${shownProduct.price} ₽`}
                 ogImage={product.images?.[0]?.mediaId || undefined}
             />
 
@@ -115,15 +142,15 @@ const ProductDetail = () => {
                     id: product.id,
                     name: product.name,
                     description: product.description,
-                    price: String(product.price),
+                    price: String(shownProduct.price),
                     images: product.images?.map((img) => img.mediaId) || [],
                     category: typeof product.category === 'string' ? product.category : product.category?.name || '',
-                    stock: product.stock,
+                    stock: shownProduct.stock,
                     slug: product.slug,
-                    sku: product.sku,
+                    sku: shownProduct.sku,
                 }}
-                rating={product.rating ?? 4.8}
-                reviewCount={product.reviews ?? 247}
+                rating={product.rating ?? 0}
+                reviewCount={product.reviews ?? 0}
             />
 
             <Header onCartClick={() => setIsCartOpen(true)} />
@@ -131,10 +158,26 @@ const ProductDetail = () => {
             <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4 lg:py-8">
                 <div className="flex flex-col lg:grid lg:grid-cols-2 gap-4 lg:gap-8 mb-8 lg:mb-12">
                     <ProductGallery
-                        images={product.images?.map((img) => img.mediaId) || []}
+                        images={shownProduct.images?.map((img) => img.mediaId) || []}
                         productName={product.name}
                     />
-                    <ProductInfo product={product} onAddToCart={handleAddToCart} />
+                    <ProductInfo
+                        product={shownProduct}
+                        onAddToCart={handleAddToCart}
+                        variantId={selectedVariant?.id ?? null}
+                        // «Сообщить о поступлении» — по остатку товара целиком, набор — по компонентам
+                        outOfStock={product.stock <= 0 && !product.isBundle}
+                        variantPicker={
+                            <>
+                                <VariantSelector
+                                    variants={variants}
+                                    selectedId={selectedVariant?.id ?? null}
+                                    onSelect={(v) => setVariantId(v.id)}
+                                />
+                                <BundleContents items={product.bundleItems ?? []} />
+                            </>
+                        }
+                    />
                 </div>
 
                 <ProductReviews
@@ -142,6 +185,7 @@ const ProductDetail = () => {
                     productName={product.name}
                 />
 
+                <AlsoBought productId={product.id} />
                 <ProductInfoSections product={product} />
                 <ReferralProgram />
                 <RelatedProducts currentProductId={product.id} currentCategory={product.categoryId} />
@@ -156,7 +200,9 @@ const ProductDetail = () => {
                 <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
                     <div className="bg-white rounded-lg p-6 max-w-sm w-full text-center shadow-xl">
                         <h3 className="text-lg font-semibold mb-2">Товар добавлен в корзину! 🛒</h3>
-                        <p className="text-gray-600">{product.name} добавлен в корзину</p>
+                        <p className="text-gray-600">
+                            {product.name}{selectedVariant ? ` (${selectedVariant.name})` : ''} добавлен в корзину
+                        </p>
                     </div>
                 </div>
             )}
@@ -6,6 +6,7 @@ import Footer from '../components/Footer';
 import Cart from '../components/Cart';
 import StoreSchema from '../components/StoreSchema';
 import ProductCard from '../components/ProductCard';
+import ProductSearch from '../components/ProductSearch';
 import { Button } from '../components/ui/button';
 import { Card, CardContent } from '../components/ui/card';
 import { Badge } from '../components/ui/badge';
@@ -25,7 +26,11 @@ const Store = () => {
 
     // ✅ RTK Query hooks
     const { data: categories = [] } = useGetPublicCategoriesQuery();
-    const { data: productsData, isLoading: loading } = useGetPublicProductsQuery({ limit: 100 });
+    // Поиск — на backend (полнотекстовый, с морфологией), порядок — по релевантности
+    const { data: productsData, isLoading: loading } = useGetPublicProductsQuery({
+        limit: 100,
+        ...(searchQuery && { q: searchQuery }),
+    });
     const allProducts = productsData || [];
 
     // ✅ FIX-CART-1: Conditional cart logic
@@ -55,23 +60,13 @@ const Store = () => {
         return undefined;
     };
 
-    /** Фильтрация + сортировка */
+    /** Фильтрация по категории + сортировка (поиск уже применён на backend) */
     const filteredProducts = useMemo(() => {
-        const q = searchQuery.trim().toLowerCase();
-
         let items = (allProducts || []).filter((product) => {
             if (!product) return false;
 
-            const name = String(product.name || product.title || '').toLowerCase();
-            const description = String(product.description || '').toLowerCase();
-
-            const matchesSearch = !q || name.includes(q) || description.includes(q);
-
             const pCatSlug = productCategorySlug(product);
-            const matchesCategory =
-                selectedCategory === 'all' || pCatSlug === selectedCategory;
-
-            return matchesSearch && matchesCategory;
+            return selectedCategory === 'all' || pCatSlug === selectedCategory;
         });
 
         // создаём копию массива перед сортировкой
@@ -86,7 +81,7 @@ const Store = () => {
         }
 
         return sorted;
-    }, [allProducts, searchQuery, selectedCategory, sortBy, categories]);
+    }, [allProducts, selectedCategory, sortBy, categories]);
 
     /** ✅ FIX-CART-1: Добавление товара с условной логикой */
     const handleAddToCart = async (product: any) => {
@@ -213,6 +208,19 @@ const Store = () => {
                     <p className="text-xl text-gray-600">
                         Найдите идеальные добавки для вашего здоровья
                     </p>
+                    <div className="mt-6">
+                        <ProductSearch
+                            query={searchQuery}
+                            onSearch={(q) => {
+                                setSearchQuery(q);
+                                if (q) scrollToCategory('products-grid');
+                            }}
+                            onCategorySelect={(slug) => {
+                                setSelectedCategory(slug);
+                                scrollToCategory('products-grid');
+                            }}
+                        />
+                    </div>
                 </div>
 
                 {/* Категории */}
@@ -36,6 +36,8 @@ export const baseApi = createApi({
     'Gamification',
     'Rank',
     'ActivationPackage',
+    'Subscription',
+    'Wishlist',
   ],
   refetchOnFocus: true,
   refetchOnReconnect: true,
@@ -5,7 +5,9 @@ export interface CheckoutPreview {
     items: Array<{
         id: string;
         productId: string;
+        variantId?: string | null;
         name: string;
+        variantName?: string | null;
         slug: string;
         imageUrl?: string;
         qty: number;
@@ -27,6 +29,8 @@ export interface CheckoutPreview {
 
 export interface CartItemDto {
     productId: string;
+    variantId?: string | null;
+    variantName?: string | null;
     quantity: number;
     product?: {
         id: string;
@@ -74,6 +78,7 @@ export const cartApi = baseApi.injectEndpoints({
                 data: {
                     items: localItems.map((item) => ({
                         productId: item.productId,
+                        variantId: item.variantId ?? null,
                         quantity: item.quantity,
                     })),
                 },
@@ -83,7 +88,7 @@ export const cartApi = baseApi.injectEndpoints({
         }),
 
         // POST /cart/update
-        updateCart: builder.mutation<CartResponse, { action: string; product_id: string; quantity?: number }>({
+        updateCart: builder.mutation<CartResponse, { action: string; product_id: string; variant_id?: string | null; quantity?: number }>({
             query: (body) => ({
                 url: '/cart',
                 method: 'POST',
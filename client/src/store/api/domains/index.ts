@@ -23,6 +23,8 @@ export * from './paymentsApi';
 export * from './gamificationApi';
 export * from './ranksApi';
 export * from './activationPackageApi';
+export * from './subscriptionsApi';
+export * from './wishlistApi';
 
 // Matrix Placement API — экспортируем только то, что реально существует
 export {
@@ -16,6 +16,25 @@ export interface OrderItem {
 
 export interface Order extends UiOrder {}
 
+export interface DeliveryTrackingEvent {
+  id: string;
+  provider: string | null;
+  status: string;
+  providerStatus: string | null;
+  description: string | null;
+  location: string | null;
+  occurredAt: string;
+}
+
+export interface DeliveryTracking {
+  orderId: string;
+  deliveryStatus: string;
+  deliveryService: string | null;
+  trackingCode: string | null;
+  /** От старых событий к новым */
+  events: DeliveryTrackingEvent[];
+}
+
 export interface OrdersListQueryParams {
   status?: string;
   deliveryStatus?: string;
@@ -65,6 +84,25 @@ export const ordersApi = baseApi.injectEndpoints({
       providesTags: (result, error, id) => [{ type: 'Orders', id }],
     }),
 
+    /**
+     * GET /api/orders/:id/delivery-history
+     * Лента отслеживания доставки (user)
+     */
+    getDeliveryTracking: builder.query<DeliveryTracking, string>({
+      query: (id) => ({
+        url: `/orders/${id}/delivery-history`,
+        method: 'GET',
+      }),
+      transformResponse: (res: any): DeliveryTracking => ({
+        orderId: res?.orderId,
+        deliveryStatus: res?.deliveryStatus,
+        deliveryService: res?.deliveryService ?? null,
+        trackingCode: res?.deliveryTrackingCode ?? null,
+        events: res?.deliveryHistory ?? [],
+      }),
+      providesTags: (result, error, id) => [{ type: 'Orders', id }],
+    }),
+
     /* ─────────── User Mutations ─────────── */
 
     /**
@@ -216,6 +254,7 @@ export const {
   useLazyGetMyOrdersQuery,
   useGetOrderByIdQuery,
   useLazyGetOrderByIdQuery,
+  useGetDeliveryTrackingQuery,
 
   // User mutations
   useCreateOrderMutation,
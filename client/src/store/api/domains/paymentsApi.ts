@@ -13,6 +13,7 @@ export interface Payment {
   currency: string;
   status: 'pending' | 'confirmed' | 'rejected' | 'cancelled';
   paymentUrl?: string;
+  qrPayload?: string; // ссылка СБП для QR-кода
   tinkoffPaymentId?: string;
   tinkoffOrderId?: string;
   createdAt: string;
@@ -22,6 +23,8 @@ export interface Payment {
 export interface CreatePaymentRequest {
   orderId: string;
   amount: number;
+  method?: 'card' | 'sbp';
+  walletAmountRub?: number; // часть суммы с баланса (смешанная оплата)
   description?: string;
   customerEmail?: string;
   customerPhone?: string;
@@ -2,7 +2,9 @@ import { baseApi } from "../baseApi";
 import {
     normalizeProductFromApi,
     normalizeProductsFromApi,
-    denormalizeProductToApi
+    denormalizeProductToApi,
+    normalizeVariantFromApi,
+    denormalizeVariantToApi
 } from '@/utils/products/normalize';
 
 /* ======================== Types ======================== */
@@ -41,9 +43,14 @@ export interface Product {
 
     badge?: string;
     benefits?: string[];
+    /** Средняя оценка опубликованных отзывов (0 — отзывов нет) */
     rating?: number;
+    /** Число опубликованных отзывов */
     reviews?: number;
+    ratingDistribution?: Record<"1" | "2" | "3" | "4" | "5", number>;
     stock: number;
+    /** Порог остатка для Telegram-уведомления админам; null — не следить */
+    lowStockThreshold?: number | null;
     status: "active" | "inactive" | "draft" | "archived";
     uiStatus?: "active" | "inactive";
     sku?: string;
@@ -79,10 +86,57 @@ export interface Product {
      */
     customCashback?: number | null;
 
+    /** Активные варианты (фасовка / вкус); если есть — в корзину кладётся вариант */
+    variants?: ProductVariant[];
+
+    /** Набор из других товаров: своего остатка нет, stock — сколько наборов собирается из компонентов */
+    isBundle?: boolean;
+    bundleItems?: BundleItem[];
+
     createdAt?: string;
     updatedAt?: string;
 }
 
+/**
+ * Вариант товара со своим SKU, ценой и остатком.
+ * customPv / customCashback: null — как у товара; cashback, как и у товара, — ДОЛЯ (0..1)
+ */
+export interface ProductVariant {
+    id: string;
+    productId: string;
+    name: string;
+    size?: string | null;
+    flavor?: string | null;
+    packCount?: number | null;
+    sku?: string | null;
+    price: number;
+    originalPrice?: number | null;
+    stock: number;
+    customPv?: number | null;
+    customCashback?: number | null;
+    images: Product['images'];
+    sortOrder: number;
+    isActive: boolean;
+}
+
+export type ProductVariantInput = Partial<Omit<ProductVariant, 'id' | 'productId'>>;
+
+/** Компонент набора: товар (или его вариант) и сколько штук в одном наборе */
+export interface BundleItem {
+    productId: string;
+    variantId: string | null;
+    productName: string;
+    variantName: string | null;
+    qty: number;
+}
+
+/** Состав набора в админке: доля цены набора на компонент, доступно наборов и PV одного набора */
+export interface ProductBundle {
+    items: Array<BundleItem & { sku: string | null; listPriceRub: number; stock: number; allocatedRub: number }>;
+    available: number;
+    pvEach: number;
+}
+
 export interface ProductsResponse {
     success: boolean;
     products?: Product[];
@@ -96,6 +150,12 @@ export interface ProductResponse {
     data?: Product;
 }
 
+/** Подсказки строки поиска: товары по релевантности и подходящие категории */
+export interface ProductSuggestions {
+    products: Array<{ id: string; slug: string; name: string; price: number; images: Product['images'] }>;
+    categories: Array<{ id: string; slug: string; name: string }>;
+}
+
 export interface ProductListQuery {
     q?: string;
     status?: string;
@@ -105,8 +165,56 @@ export interface ProductListQuery {
     offset?: number;
 }
 
+/** Остатки товара: на складе (списывается при оплате) / в резерве неоплаченных заказов / доступно */
+export interface StockLevel {
+    productId: string;
+    name: string;
+    sku: string | null;
+    onHand: number;
+    reserved: number;
+    available: number;
+}
+
+export type InventoryMovementType = "receipt" | "sale" | "return" | "adjustment" | "write_off" | "reservation";
+
+/** Движение по журналу склада: qty со знаком, stockAfter — остаток после (у резерва null) */
+export interface InventoryMovement {
+    id: string;
+    productId: string;
+    type: InventoryMovementType;
+    qty: number;
+    stockAfter: number | null;
+    reason: string | null;
+    reference: string | null;
+    orderId: string | null;
+    userId: string | null;
+    createdAt: string;
+}
+
+export interface StockReceiptImportResult {
+    lines: Array<{ line: number; productId: string; sku: string | null; name: string; qty: number; reason: string | null; reference: string | null }>;
+    totalQty: number;
+    applied: boolean;
+}
+
+export interface StockLevelsQuery {
+    q?: string;
+    reservedOnly?: boolean;
+    limit?: number;
+    offset?: number;
+}
+
 /* ======================== API ======================== */
 
+// Вариант меняет карточку, остатки и витрину товара
+const variantTags = (id: string) => [
+    { type: "Products" as const, id },
+    { type: "Products" as const, id: `VARIANTS_${id}` },
+    { type: "Products" as const, id: "ADMIN_LIST" },
+    { type: "Products" as const, id: "PUBLIC_LIST" },
+    { type: "Products" as const, id: "STOCK" },
+];
+
 export const productsApi = baseApi.injectEndpoints({
     endpoints: (builder) => ({
         /* ─────────── Public Queries ─────────── */
@@ -139,6 +247,53 @@ export const productsApi = baseApi.injectEndpoints({
                     : [{ type: "Products" as const, id: "PUBLIC_LIST" }],
         }),
 
+        // GET /api/products/suggest — подсказки поиска (морфология и опечатки — на backend)
+        getProductSuggestions: builder.query<ProductSuggestions, { q: string; limit?: number }>({
+            query: (params) => ({
+                url: "/products/suggest",
+                method: "GET",
+                params,
+            }),
+            transformResponse: (res: { data?: ProductSuggestions }) => ({
+                products: (res?.data?.products ?? []).map((p) => ({ ...p, price: Number(p.price) || 0 })),
+                categories: res?.data?.categories ?? [],
+            }),
+            keepUnusedDataFor: 60,
+        }),
+
+        // GET /api/products/:id/also-bought — «с этим товаром покупают»
+        getAlsoBoughtProducts: builder.query<Product[], { productId: string; limit?: number }>({
+            query: ({ productId, limit }) => ({
+                url: `/products/${productId}/also-bought`,
+                method: "GET",
+                params: { limit },
+            }),
+            transformResponse: (res: { data?: any[] }) => normalizeProductsFromApi(res?.data ?? []),
+            providesTags: [{ type: "Products" as const, id: "RECOMMENDATIONS" }],
+        }),
+
+        // GET /api/products/recommendations/cart — допродажа к корзине
+        getCartRecommendations: builder.query<Product[], { productIds: string[]; limit?: number }>({
+            query: ({ productIds, limit }) => ({
+                url: "/products/recommendations/cart",
+                method: "GET",
+                params: { ids: productIds.join(","), limit },
+            }),
+            transformResponse: (res: { data?: any[] }) => normalizeProductsFromApi(res?.data ?? []),
+            providesTags: [{ type: "Products" as const, id: "RECOMMENDATIONS" }],
+        }),
+
+        // GET /api/products/recommendations/for-you — подборка на главной (гостю — хиты продаж)
+        getPersonalRecommendations: builder.query<Product[], { limit?: number } | void>({
+            query: (params) => ({
+                url: "/products/recommendations/for-you",
+                method: "GET",
+                params: params ?? undefined,
+            }),
+            transformResponse: (res: { data?: any[] }) => normalizeProductsFromApi(res?.data ?? []),
+            providesTags: [{ type: "Products" as const, id: "RECOMMENDATIONS" }],
+        }),
+
         // GET /api/products/:id или /api/products/slug/:slug — публичный по id или slug
         getPublicProduct: builder.query<Product, string>({
             query: (identifier) => {
@@ -205,8 +360,151 @@ export const productsApi = baseApi.injectEndpoints({
             providesTags: (result, _e, id) => [{ type: "Products" as const, id }],
         }),
 
+        // GET /api/admin/products/stock — остатки и резервы
+        getAdminStockLevels: builder.query<{ items: StockLevel[]; total: number }, StockLevelsQuery | void>({
+            query: (params) => ({
+                url: "/admin/products/stock",
+                method: "GET",
+                params: params
+                    ? { ...params, ...(params.reservedOnly != null && { reservedOnly: String(params.reservedOnly) }) }
+                    : undefined,
+            }),
+            transformResponse: (res: { data?: StockLevel[]; total?: number }) => ({
+                items: res?.data ?? [],
+                total: res?.total ?? 0,
+            }),
+            providesTags: [{ type: "Products" as const, id: "STOCK" }],
+        }),
+
+        // GET /api/admin/products/:id/movements — журнал движения товара
+        getProductMovements: builder.query<
+            { items: InventoryMovement[]; total: number; stock: number },
+            { id: string; type?: InventoryMovementType; limit?: number; offset?: number }
+        >({
+            query: ({ id, ...params }) => ({
+                url: `/admin/products/${id}/movements`,
+                method: "GET",
+                params,
+            }),
+            transformResponse: (res: { data?: InventoryMovement[]; total?: number; stock?: number }) => ({
+                items: res?.data ?? [],
+                total: res?.total ?? 0,
+                stock: res?.stock ?? 0,
+            }),
+            providesTags: (_r, _e, { id }) => [{ type: "Products" as const, id: `MOVEMENTS_${id}` }],
+        }),
+
+        // GET /api/admin/products/:id/variants — варианты, включая выключенные
+        getProductVariants: builder.query<ProductVariant[], string>({
+            query: (id) => ({
+                url: `/admin/products/${id}/variants`,
+                method: "GET",
+            }),
+            transformResponse: (res: { data?: any[] }) => (res?.data ?? []).map(normalizeVariantFromApi),
+            providesTags: (_r, _e, id) => [{ type: "Products" as const, id: `VARIANTS_${id}` }],
+        }),
+
+        // GET /api/admin/products/:id/bundle — состав набора
+        getProductBundle: builder.query<ProductBundle, string>({
+            query: (id) => ({
+                url: `/admin/products/${id}/bundle`,
+                method: "GET",
+            }),
+            transformResponse: (res: { data: ProductBundle }) => res.data,
+            providesTags: (_r, _e, id) => [{ type: "Products" as const, id: `BUNDLE_${id}` }],
+        }),
+
         /* ─────────── Admin Mutations ─────────── */
 
+        // POST /api/admin/products/:id/movements — приход / списание / корректировка
+        createProductMovement: builder.mutation<
+            { movement: InventoryMovement; stock: number },
+            { id: string; type: "receipt" | "write_off" | "adjustment"; qty: number; reason?: string; reference?: string }
+        >({
+            query: ({ id, ...body }) => ({
+                url: `/admin/products/${id}/movements`,
+                method: "POST",
+                data: body,
+            }),
+            transformResponse: (res: { data: InventoryMovement; stock: number }) => ({ movement: res.data, stock: res.stock }),
+            invalidatesTags: (_r, _e, { id }) => [
+                { type: "Products" as const, id },
+                { type: "Products" as const, id: `MOVEMENTS_${id}` },
+                { type: "Products" as const, id: "ADMIN_LIST" },
+                { type: "Products" as const, id: "STOCK" },
+            ],
+        }),
+
+        // POST /api/admin/products/stock/receipts — приход от поставщика из CSV
+        importStockReceipts: builder.mutation<StockReceiptImportResult, { csv: string; reference?: string; dryRun?: boolean }>({
+            query: ({ csv, reference, dryRun }) => ({
+                url: "/admin/products/stock/receipts",
+                method: "POST",
+                data: csv,
+                headers: { "Content-Type": "text/csv" },
+                params: { ...(reference && { reference }), ...(dryRun != null && { dryRun: String(dryRun) }) },
+            }),
+            transformResponse: (res: { data: StockReceiptImportResult }) => res.data,
+            invalidatesTags: (result) =>
+                result?.applied
+                    ? [
+                          { type: "Products" as const, id: "ADMIN_LIST" },
+                          { type: "Products" as const, id: "STOCK" },
+                      ]
+                    : [],
+        }),
+
+        // POST /api/admin/products/:id/variants — stock задаёт начальный приход
+        createProductVariant: builder.mutation<ProductVariant, { id: string } & ProductVariantInput>({
+            query: ({ id, ...variant }) => ({
+                url: `/admin/products/${id}/variants`,
+                method: "POST",
+                data: denormalizeVariantToApi(variant),
+            }),
+            transformResponse: (res: { data: any }) => normalizeVariantFromApi(res.data),
+            invalidatesTags: (_r, _e, { id }) => variantTags(id),
+        }),
+
+        // PATCH /api/admin/products/:id/variants/:variantId — stock правится корректировкой в журнале
+        updateProductVariant: builder.mutation<ProductVariant, { id: string; variantId: string } & ProductVariantInput>({
+            query: ({ id, variantId, ...patch }) => ({
+                url: `/admin/products/${id}/variants/${variantId}`,
+                method: "PATCH",
+                data: denormalizeVariantToApi(patch),
+            }),
+            transformResponse: (res: { data: any }) => normalizeVariantFromApi(res.data),
+            invalidatesTags: (_r, _e, { id }) => variantTags(id),
+        }),
+
+        // DELETE /api/admin/products/:id/variants/:variantId — вариант из заказов выключается
+        deleteProductVariant: builder.mutation<{ deleted: boolean; deactivated: boolean }, { id: string; variantId: string }>({
+            query: ({ id, variantId }) => ({
+                url: `/admin/products/${id}/variants/${variantId}`,
+                method: "DELETE",
+            }),
+            transformResponse: (res: { data: { deleted: boolean; deactivated: boolean } }) => res.data,
+            invalidatesTags: (_r, _e, { id }) => variantTags(id),
+        }),
+
+        // PUT /api/admin/products/:id/bundle — заменить состав; пустой список — товар больше не набор
+        setProductBundle: builder.mutation<
+            ProductBundle,
+            { id: string; items: Array<{ productId: string; variantId?: string | null; qty: number }> }
+        >({
+            query: ({ id, items }) => ({
+                url: `/admin/products/${id}/bundle`,
+                method: "PUT",
+                data: { items },
+            }),
+            transformResponse: (res: { data: ProductBundle }) => res.data,
+            invalidatesTags: (_r, _e, { id }) => [
+                { type: "Products" as const, id },
+                { type: "Products" as const, id: `BUNDLE_${id}` },
+                { type: "Products" as const, id: "ADMIN_LIST" },
+                { type: "Products" as const, id: "STOCK" },
+            ],
+        }),
+
         // POST /api/admin/products — создать
         createProduct: builder.mutation<Product, Partial<Product>>({
             query: (product) => {
@@ -230,6 +528,7 @@ export const productsApi = baseApi.injectEndpoints({
             invalidatesTags: [
                 { type: "Products" as const, id: "ADMIN_LIST" },
                 { type: "Products" as const, id: "PUBLIC_LIST" },
+                { type: "Products" as const, id: "STOCK" },
             ],
         }),
 
@@ -257,6 +556,7 @@ export const productsApi = baseApi.injectEndpoints({
                 { type: "Products" as const, id },
                 { type: "Products" as const, id: "ADMIN_LIST" },
                 { type: "Products" as const, id: "PUBLIC_LIST" },
+                { type: "Products" as const, id: "STOCK" },
             ],
         }),
 
@@ -270,6 +570,7 @@ export const productsApi = baseApi.injectEndpoints({
                 { type: "Products" as const, id },
                 { type: "Products" as const, id: "ADMIN_LIST" },
                 { type: "Products" as const, id: "PUBLIC_LIST" },
+                { type: "Products" as const, id: "STOCK" },
             ],
         }),
     }),
@@ -282,6 +583,10 @@ export const {
     useGetPublicProductsQuery,
     useLazyGetPublicProductsQuery,
     useGetPublicProductQuery,
+    useGetProductSuggestionsQuery,
+    useGetAlsoBoughtProductsQuery,
+    useGetCartRecommendationsQuery,
+    useGetPersonalRecommendationsQuery,
     useLazyGetPublicProductQuery,
 
     // Admin
@@ -289,9 +594,19 @@ export const {
     useLazyGetAdminProductsQuery,
     useGetAdminProductQuery,
     useLazyGetAdminProductQuery,
+    useGetAdminStockLevelsQuery,
+    useGetProductMovementsQuery,
+    useGetProductVariantsQuery,
+    useGetProductBundleQuery,
 
     // Mutations
     useCreateProductMutation,
     useUpdateProductMutation,
     useDeleteProductMutation,
+    useCreateProductMovementMutation,
+    useImportStockReceiptsMutation,
+    useCreateProductVariantMutation,
+    useUpdateProductVariantMutation,
+    useDeleteProductVariantMutation,
+    useSetProductBundleMutation,
 } = productsApi;
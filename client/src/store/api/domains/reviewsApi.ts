@@ -6,6 +6,9 @@ import type {
   ReviewsResponse,
   ReviewResponse,
   ReviewsQuery,
+  ProductReviewsResponse,
+  ProductReviewsResult,
+  HelpfulVoteResponse,
 } from '@/types/review';
 import { normalizeReviewFromApi, normalizeReviewsFromApi } from '@/utils/review/normalize';
 
@@ -19,7 +22,8 @@ import { normalizeReviewFromApi, normalizeReviewsFromApi } from '@/utils/review/
  * Особенности:
  * - Один пользователь может оставить только один отзыв на товар
  * - Все отзывы проходят модерацию (status: pending → published/rejected)
- * - verifiedPurchase автоматически ставится если пользователь купил товар
+ * - verifiedPurchase автоматически ставится если пользователь получил товар
+ * - «Полезно» — один голос на пользователя; магазин может ответить под отзывом
  */
 export const reviewsApi = baseApi.injectEndpoints({
   endpoints: (builder) => ({
@@ -27,30 +31,26 @@ export const reviewsApi = baseApi.injectEndpoints({
 
     /**
      * GET /api/reviews
-     * Получить опубликованные отзывы
+     * Опубликованные отзывы товара + сводка рейтинга
      *
-     * Доступно всем (без авторизации)
-     * Можно фильтровать по productId
+     * Доступно всем (без авторизации); с токеном приходит votedHelpful
+     * order: 'helpful' — сначала самые полезные
      */
-    getPublicReviews: builder.query<Review[], ReviewsQuery | void>({
-      query: (params = {}) => ({
+    getPublicReviews: builder.query<ProductReviewsResult, ReviewsQuery & { productId: string }>({
+      query: (params) => ({
         url: '/reviews',
         method: 'GET',
         params,
       }),
-      transformResponse: (res: ReviewsResponse) => {
-        const rawReviews = res.reviews || [];
-        return normalizeReviewsFromApi(rawReviews);
-      },
-      providesTags: (result, error, params) => {
-        const productId = params?.productId;
-        return result
-          ? [
-              ...result.map(({ id }) => ({ type: 'Review' as const, id })),
-              { type: 'Review', id: productId ? `PRODUCT_${productId}` : 'PUBLIC_LIST' },
-            ]
-          : [{ type: 'Review', id: productId ? `PRODUCT_${productId}` : 'PUBLIC_LIST' }];
-      },
+      transformResponse: (res: ProductReviewsResponse) => ({
+        items: normalizeReviewsFromApi(res?.data?.items ?? []),
+        stats: res?.data?.stats ?? { average: 0, total: 0, distribution: { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 } },
+      }),
+      providesTags: (result, error, { productId }) => [
+        ...(result?.items ?? []).map(({ id }) => ({ type: 'Review' as const, id })),
+        { type: 'Review', id: `PRODUCT_${productId}` },
+        { type: 'Review', id: 'PUBLIC_LIST' },
+      ],
     }),
 
     /**
@@ -63,7 +63,7 @@ export const reviewsApi = baseApi.injectEndpoints({
         method: 'GET',
       }),
       transformResponse: (res: ReviewResponse) => {
-        return normalizeReviewFromApi(res.review);
+        return normalizeReviewFromApi(res.data);
       },
       providesTags: (result, error, id) => [{ type: 'Review', id }],
     }),
@@ -86,7 +86,7 @@ export const reviewsApi = baseApi.injectEndpoints({
         data,
       }),
       transformResponse: (res: ReviewResponse) => {
-        return normalizeReviewFromApi(res.review);
+        return normalizeReviewFromApi(res.data);
       },
       invalidatesTags: (result, error, { productId }) => [
         { type: 'Review', id: 'PUBLIC_LIST' },
@@ -109,7 +109,7 @@ export const reviewsApi = baseApi.injectEndpoints({
         data,
       }),
       transformResponse: (res: ReviewResponse) => {
-        return normalizeReviewFromApi(res.review);
+        return normalizeReviewFromApi(res.data);
       },
       invalidatesTags: (result, error, { id }) => [
         { type: 'Review', id },
@@ -134,6 +134,32 @@ export const reviewsApi = baseApi.injectEndpoints({
       ],
     }),
 
+    /**
+     * PUT /api/reviews/:id/helpful
+     * Отметить отзыв полезным (повторно — без изменений, за свой отзыв нельзя)
+     */
+    voteReviewHelpful: builder.mutation<HelpfulVoteResponse['data'], string>({
+      query: (id) => ({
+        url: `/reviews/${id}/helpful`,
+        method: 'PUT',
+      }),
+      transformResponse: (res: HelpfulVoteResponse) => res.data,
+      invalidatesTags: (result, error, id) => [{ type: 'Review', id }],
+    }),
+
+    /**
+     * DELETE /api/reviews/:id/helpful
+     * Снять отметку «полезно»
+     */
+    removeReviewHelpfulVote: builder.mutation<HelpfulVoteResponse['data'], string>({
+      query: (id) => ({
+        url: `/reviews/${id}/helpful`,
+        method: 'DELETE',
+      }),
+      transformResponse: (res: HelpfulVoteResponse) => res.data,
+      invalidatesTags: (result, error, id) => [{ type: 'Review', id }],
+    }),
+
     /* ─────────── Admin Review Queries ─────────── */
 
     /**
@@ -149,8 +175,7 @@ export const reviewsApi = baseApi.injectEndpoints({
         params,
       }),
       transformResponse: (res: ReviewsResponse) => {
-        const rawReviews = res.reviews || [];
-        return normalizeReviewsFromApi(rawReviews);
+        return normalizeReviewsFromApi(res?.data ?? []);
       },
       providesTags: (result) =>
         result
@@ -192,6 +217,42 @@ export const reviewsApi = baseApi.injectEndpoints({
         url: `/admin/reviews/${id}/reject`,
         method: 'POST',
       }),
+      invalidatesTags: (result, error, id) => [
+        { type: 'Review', id },
+        { type: 'Review', id: 'ADMIN_LIST' },
+        { type: 'Review', id: 'PUBLIC_LIST' },
+      ],
+    }),
+
+    /**
+     * PUT /api/admin/reviews/:id/reply
+     * Официальный ответ магазина (повторно — заменяет ответ)
+     *
+     * ADMIN only
+     */
+    adminReplyReview: builder.mutation<void, { id: string; body: string }>({
+      query: ({ id, body }) => ({
+        url: `/admin/reviews/${id}/reply`,
+        method: 'PUT',
+        data: { body },
+      }),
+      invalidatesTags: (result, error, { id }) => [
+        { type: 'Review', id },
+        { type: 'Review', id: 'ADMIN_LIST' },
+      ],
+    }),
+
+    /**
+     * DELETE /api/admin/reviews/:id/reply
+     * Убрать ответ магазина
+     *
+     * ADMIN only
+     */
+    adminDeleteReviewReply: builder.mutation<void, string>({
+      query: (id) => ({
+        url: `/admin/reviews/${id}/reply`,
+        method: 'DELETE',
+      }),
       invalidatesTags: (result, error, id) => [
         { type: 'Review', id },
         { type: 'Review', id: 'ADMIN_LIST' },
@@ -213,6 +274,8 @@ export const {
   useCreateReviewMutation,
   useUpdateReviewMutation,
   useDeleteReviewMutation,
+  useVoteReviewHelpfulMutation,
+  useRemoveReviewHelpfulVoteMutation,
 
   // Admin queries
   useGetAdminReviewsQuery,
@@ -221,4 +284,6 @@ export const {
   // Admin mutations
   useAdminApproveReviewMutation,
   useAdminRejectReviewMutation,
+  useAdminReplyReviewMutation,
+  useAdminDeleteReviewReplyMutation,
 } = reviewsApi;
@@ -0,0 +1,111 @@
+import { baseApi } from '../baseApi';
+
+/* ======================== Types ======================== */
+
+export type SubscriptionStatus = 'active' | 'paused' | 'canceled';
+export type SubscriptionPaymentSource = 'card' | 'wallet';
+export type SubscriptionAction = 'pause' | 'resume' | 'skip' | 'cancel';
+
+export interface SubscriptionItem {
+    productId: string;
+    variantId: string | null;
+    qty: number;
+    productName: string;
+    productSlug: string;
+    variantName: string | null;
+    unitPriceRub: number;
+}
+
+export interface Subscription {
+    id: string;
+    status: SubscriptionStatus;
+    intervalMonths: number;
+    nextRunAt: string;
+    retryAt: string | null;
+    failedAttempts: number;
+    paymentSource: SubscriptionPaymentSource;
+    hasSavedCard: boolean;
+    deliveryService: string | null;
+    deliveryAddress: string | null;
+    items: SubscriptionItem[];
+    itemsSubtotalRub: number;
+    discountPercent: number;
+    discountRub: number;
+    estimatedTotalRub: number;
+    createdAt: string;
+}
+
+export interface CreateSubscriptionDto {
+    items: Array<{ productId: string; variantId?: string | null; qty: number }>;
+    intervalMonths: number;
+    paymentSource: SubscriptionPaymentSource;
+    firstRunAt?: string;
+    deliveryService?: 'sdek' | 'russianpost' | 'yandex' | null;
+    deliveryAddress?: string | null;
+}
+
+export interface SubscriptionRunResult {
+    subscriptionId: string;
+    outcome: 'paid' | 'awaiting_payment' | 'failed';
+    orderId?: string;
+    paymentUrl?: string;
+    error?: string;
+}
+
+/* ======================== API ======================== */
+
+/**
+ * Subscriptions API
+ *
+ * Подписки на автопополнение: заказ создаётся по расписанию и оплачивается
+ * с баланса или сохранённой картой; за несколько дней до списания — напоминание в Telegram.
+ */
+export const subscriptionsApi = baseApi.injectEndpoints({
+    endpoints: (builder) => ({
+        /**
+         * GET /api/subscriptions
+         */
+        getMySubscriptions: builder.query<Subscription[], void>({
+            query: () => ({ url: '/subscriptions', method: 'GET' }),
+            transformResponse: (res: { data: Subscription[] }) => res.data ?? [],
+            providesTags: [{ type: 'Subscription', id: 'LIST' }],
+        }),
+
+        /**
+         * POST /api/subscriptions
+         */
+        createSubscription: builder.mutation<Subscription, CreateSubscriptionDto>({
+            query: (data) => ({ url: '/subscriptions', method: 'POST', data }),
+            transformResponse: (res: { data: Subscription }) => res.data,
+            invalidatesTags: [{ type: 'Subscription', id: 'LIST' }],
+        }),
+
+        /**
+         * POST /api/subscriptions/:id/(pause|resume|skip|cancel)
+         */
+        subscriptionAction: builder.mutation<Subscription, { id: string; action: SubscriptionAction }>({
+            query: ({ id, action }) => ({ url: `/subscriptions/${id}/${action}`, method: 'POST' }),
+            transformResponse: (res: { data: Subscription }) => res.data,
+            invalidatesTags: [{ type: 'Subscription', id: 'LIST' }],
+        }),
+
+        /**
+         * POST /api/subscriptions/:id/run-now
+         * Заказ сейчас; без сохранённой карты вернёт paymentUrl
+         */
+        runSubscriptionNow: builder.mutation<SubscriptionRunResult, string>({
+            query: (id) => ({ url: `/subscriptions/${id}/run-now`, method: 'POST' }),
+            transformResponse: (res: { data: SubscriptionRunResult }) => res.data,
+            invalidatesTags: [{ type: 'Subscription', id: 'LIST' }, 'Orders'],
+        }),
+    }),
+});
+
+/* ======================== Hooks ======================== */
+
+export const {
+    useGetMySubscriptionsQuery,
+    useCreateSubscriptionMutation,
+    useSubscriptionActionMutation,
+    useRunSubscriptionNowMutation,
+} = subscriptionsApi;
@@ -0,0 +1,99 @@
+import { baseApi } from '../baseApi';
+
+/* ======================== Types ======================== */
+
+export interface WishlistEntry {
+    productId: string;
+    name: string;
+    slug: string;
+    price: string;
+    originalPrice: string | null;
+    stock: number;
+    status: string;
+    isBundle: boolean;
+    images: unknown;
+    addedAt: string;
+    /** Ждёт уведомления о поступлении */
+    backInStockRequested: boolean;
+}
+
+export interface WishlistState {
+    productIds: string[];
+    backInStockProductIds: string[];
+}
+
+/* ======================== API ======================== */
+
+/**
+ * Wishlist API
+ *
+ * Избранное и «сообщить о поступлении» (Telegram, без него — email).
+ */
+export const wishlistApi = baseApi.injectEndpoints({
+    endpoints: (builder) => ({
+        /**
+         * GET /api/wishlist
+         */
+        getWishlist: builder.query<WishlistEntry[], void>({
+            query: () => ({ url: '/wishlist', method: 'GET' }),
+            transformResponse: (res: { data: WishlistEntry[] }) => res.data ?? [],
+            providesTags: [{ type: 'Wishlist', id: 'LIST' }],
+        }),
+
+        /**
+         * GET /api/wishlist/ids
+         * Отметки для карточек каталога
+         */
+        getWishlistState: builder.query<WishlistState, void>({
+            query: () => ({ url: '/wishlist/ids', method: 'GET' }),
+            transformResponse: (res: { data: WishlistState }) =>
+                res.data ?? { productIds: [], backInStockProductIds: [] },
+            providesTags: [{ type: 'Wishlist', id: 'STATE' }],
+        }),
+
+        /**
+         * PUT /api/wishlist/:productId
+         */
+        addToWishlist: builder.mutation<{ added: boolean }, string>({
+            query: (productId) => ({ url: `/wishlist/${productId}`, method: 'PUT' }),
+            transformResponse: (res: { data: { added: boolean } }) => res.data,
+            invalidatesTags: [{ type: 'Wishlist', id: 'LIST' }, { type: 'Wishlist', id: 'STATE' }],
+        }),
+
+        /**
+         * DELETE /api/wishlist/:productId
+         */
+        removeFromWishlist: builder.mutation<void, string>({
+            query: (productId) => ({ url: `/wishlist/${productId}`, method: 'DELETE' }),
+            invalidatesTags: [{ type: 'Wishlist', id: 'LIST' }, { type: 'Wishlist', id: 'STATE' }],
+        }),
+
+        /**
+         * PUT /api/wishlist/back-in-stock/:productId
+         */
+        requestBackInStock: builder.mutation<{ created: boolean }, string>({
+            query: (productId) => ({ url: `/wishlist/back-in-stock/${productId}`, method: 'PUT' }),
+            transformResponse: (res: { data: { created: boolean } }) => res.data,
+            invalidatesTags: [{ type: 'Wishlist', id: 'LIST' }, { type: 'Wishlist', id: 'STATE' }],
+        }),
+
+        /**
+         * DELETE /api/wishlist/back-in-stock/:productId
+         */
+        cancelBackInStock: builder.mutation<void, string>({
+            query: (productId) => ({ url: `/wishlist/back-in-stock/${productId}`, method: 'DELETE' }),
+            invalidatesTags: [{ type: 'Wishlist', id: 'LIST' }, { type: 'Wishlist', id: 'STATE' }],
+        }),
+    }),
+});
+
+/* ======================== Hooks ======================== */
+
+export const {
+    useGetWishlistQuery,
+    useGetWishlistStateQuery,
+    useAddToWishlistMutation,
+    useRemoveFromWishlistMutation,
+    useRequestBackInStockMutation,
+    useCancelBackInStockMutation,
+} = wishlistApi;
@@ -21,10 +21,12 @@ interface CartStore {
         slug?: string;
         stock?: number;
         quantity: number;
+        variantId?: string | null;
+        variantName?: string | null;
     }) => void;
 
-    removeItem: (productId: string) => void;
-    updateQuantity: (productId: string, quantity: number) => void;
+    removeItem: (productId: string, variantId?: string | null) => void;
+    updateQuantity: (productId: string, quantity: number, variantId?: string | null) => void;
     clearCart: () => void;
     setCartOpen: (isOpen: boolean) => void;
     toggleCart: () => void;
@@ -32,9 +34,14 @@ interface CartStore {
 
     getTotalItems: () => number;
     getTotalPrice: () => number;
-    getItemCount: (productId: string) => number;
+    /** Без variantId — сколько всего штук товара (по всем вариантам) */
+    getItemCount: (productId: string, variantId?: string | null) => number;
 }
 
+// Позиция корзины — товар + вариант: разные фасовки одного товара лежат отдельными строками
+const sameLine = (item: LocalCartItem, productId: string, variantId?: string | null) =>
+    item.productId === productId && (item.variantId ?? null) === (variantId ?? null);
+
 /* ======================== Store ======================== */
 
 export const useCartStore = create<CartStore>()(
@@ -65,7 +72,7 @@ export const useCartStore = create<CartStore>()(
 
             addItem: (product) => {
                 const items = get().items;
-                const existing = items.find((i) => i.productId === product.id);
+                const existing = items.find((i) => sameLine(i, product.id, product.variantId));
 
                 // Для BuyNow: если товар уже есть, не добавляем повторно
                 // quantity передаётся из вызова, но если товар существует - увеличиваем
@@ -74,7 +81,7 @@ export const useCartStore = create<CartStore>()(
                     const quantityToAdd = product.quantity || 1;
                     set({
                         items: items.map((i) =>
-                            i.productId === product.id
+                            sameLine(i, product.id, product.variantId)
                                 ? { ...i, quantity: i.quantity + quantityToAdd }
                                 : i
                         ),
@@ -85,7 +92,9 @@ export const useCartStore = create<CartStore>()(
                             ...items,
                             {
                                 productId: product.id,
+                                variantId: product.variantId ?? null,
                                 name: product.name,
+                                variantName: product.variantName ?? null,
                                 price: product.price,
                                 originalPrice: product.originalPrice ?? null,
                                 customPv: product.customPv ?? null,
@@ -99,18 +108,18 @@ export const useCartStore = create<CartStore>()(
                 }
             },
 
-            removeItem: (productId) => {
-                set({ items: get().items.filter((i) => i.productId !== productId) });
+            removeItem: (productId, variantId) => {
+                set({ items: get().items.filter((i) => !sameLine(i, productId, variantId)) });
             },
 
-            updateQuantity: (productId, quantity) => {
+            updateQuantity: (productId, quantity, variantId) => {
                 if (quantity <= 0) {
-                    get().removeItem(productId);
+                    get().removeItem(productId, variantId);
                     return;
                 }
                 set({
                     items: get().items.map((i) =>
-                        i.productId === productId ? { ...i, quantity } : i
+                        sameLine(i, productId, variantId) ? { ...i, quantity } : i
                     ),
                 });
             },
@@ -132,8 +141,12 @@ export const useCartStore = create<CartStore>()(
             getTotalPrice: () =>
                 get().items.reduce((sum, item) => sum + item.price * item.quantity, 0),
 
-            getItemCount: (productId) =>
-                get().items.find((i) => i.productId === productId)?.quantity || 0,
+            getItemCount: (productId, variantId) =>
+                get()
+                    .items.filter((i) =>
+                        variantId === undefined ? i.productId === productId : sameLine(i, productId, variantId)
+                    )
+                    .reduce((sum, i) => sum + i.quantity, 0),
         }),
         {
             name: 'vitawin-cart',
@@ -3,7 +3,9 @@
 export interface CartItem {
   id: string;
   productId: string;
+  variantId?: string | null;
   name: string;
+  variantName?: string | null;
   slug?: string;
   imageUrl?: string;
   categoryId?: string;
@@ -31,7 +33,9 @@ export interface CartPreview {
 // Используется везде на фронте для единообразия
 export interface LocalCartItem {
   productId: string;              // id товара (Cloudinary ID - гарантированно уникален)
+  variantId?: string | null;      // вариант (фасовка / вкус); позиция = товар + вариант
   name: string;                   // название товара (title || name)
+  variantName?: string | null;    // подпись варианта: «120 капсул, лимон»
   price: number;                  // текущая цена за единицу
   originalPrice?: number | null;  // оригинальная цена (для показа скидки)
   customPv?: number | null;       // абсолютное значение PV (перезаписывает расчет)
@@ -15,7 +15,9 @@ export type AccountType =
   | 'vwc'
   | 'referral'
   | 'reserve_special'
-  | 'network_fund';
+  | 'network_fund'
+  | 'receivable'
+  | 'hold';
 
 export type OwnerType = 'user' | 'system';
 
@@ -34,7 +36,9 @@ export type LedgerOpType =
   | 'achievement'
   | 'adjustment'
   | 'withdrawal_request'
-  | 'withdrawal_payout';
+  | 'withdrawal_payout'
+  | 'withdrawal_unlock'
+  | 'hold_release';
 
 /* ======================== Interfaces ======================== */
 
@@ -49,6 +53,9 @@ export interface LedgerAccount {
   type: AccountType;
   currency: Currency;
   balance: string; // Возвращается как string с backend (NUMERIC)
+  // Бонусы в окне возврата (ещё не доступны) и дата ближайшего освобождения
+  pending?: string;
+  nextReleaseAt?: string | null;
   createdAt: string;
 }
 
@@ -27,7 +27,8 @@ export interface ReviewImage {
  * - Один пользователь может оставить только один отзыв на товар (UNIQUE(productId, userId))
  * - rating: 1..5 звёзд
  * - status: pending (модерация) → published (опубликован) или rejected (отклонён)
- * - verifiedPurchase: true если пользователь действительно купил товар
+ * - verifiedPurchase: true если пользователь действительно получил товар
+ * - replyBody: официальный ответ магазина под отзывом
  */
 export interface Review {
   id: string; // UUID
@@ -37,7 +38,11 @@ export interface Review {
   title?: string | null; // Заголовок отзыва
   body?: string | null; // Текст отзыва
   status: ReviewStatus; // 'pending' | 'published' | 'rejected'
-  verifiedPurchase: boolean; // Подтверждённая покупка
+  verifiedPurchase: boolean; // Подтверждённая покупка (по доставленным заказам, ставит backend)
+  helpfulCount: number; // Сколько человек отметили «полезно»
+  votedHelpful: boolean; // Текущий пользователь уже отметил «полезно»
+  replyBody?: string | null; // Официальный ответ магазина
+  repliedAt?: string | null;
   publishedAt?: string | null; // Дата публикации
   createdAt: string;
   updatedAt: string;
@@ -76,28 +81,53 @@ export interface UpdateReviewDto {
  */
 export interface AdminReviewUpdateDto {
   status?: ReviewStatus;
-  verifiedPurchase?: boolean;
 }
 
 /* ======================== Response Types ======================== */
 
+/**
+ * ProductRatingStats - сводка опубликованных отзывов (хранится на товаре)
+ */
+export interface ProductRatingStats {
+  average: number;
+  total: number;
+  distribution: Record<1 | 2 | 3 | 4 | 5, number>;
+}
+
+export interface ProductReviewsResult {
+  items: Review[];
+  stats: ProductRatingStats;
+}
+
+export interface ProductReviewsResponse {
+  success: boolean;
+  data: { items: any[]; stats: ProductRatingStats };
+}
+
 export interface ReviewsResponse {
   success: boolean;
-  reviews: Review[];
-  total?: number;
+  data: any[];
 }
 
 export interface ReviewResponse {
   success: boolean;
-  review: Review;
+  data: any;
+}
+
+export interface HelpfulVoteResponse {
+  success: boolean;
+  data: { id: string; helpfulCount: number; voted: boolean };
 }
 
 /* ======================== Query Params ======================== */
 
+export type ReviewsOrder = 'newest' | 'oldest' | 'rating_desc' | 'rating_asc' | 'helpful';
+
 export interface ReviewsQuery {
   productId?: string;
   userId?: string;
   status?: ReviewStatus;
   limit?: number;
   offset?: number;
+  order?: ReviewsOrder;
 }
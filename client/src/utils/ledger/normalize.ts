@@ -251,6 +251,8 @@ export function getOpTypeName(opType: string): string {
     adjustment: 'Корректировка',
     withdrawal_request: 'Заявка на вывод',
     withdrawal_payout: 'Выплата',
+    withdrawal_unlock: 'Возврат заявки на вывод',
+    hold_release: 'Зачисление после срока возврата',
   };
 
   return names[opType] || opType;
@@ -12,7 +12,7 @@
  * - Frontend → API: 0.05 * 100 = 5.00 (проценты)
  */
 
-import type { Product } from '@/store/api/domains/productsApi';
+import type { Product, ProductVariant, ProductVariantInput } from '@/store/api/domains/productsApi';
 
 /**
  * Логирование для отладки (включено только в dev режиме)
@@ -137,10 +137,20 @@ export function normalizeProductFromApi(raw: any): Product {
         // Польза товара (JSONB массив строк)
         benefits: Array.isArray(raw.benefits) ? raw.benefits : undefined,
 
+        // Варианты (фасовка / вкус)
+        variants: Array.isArray(raw.variants) ? raw.variants.map(normalizeVariantFromApi) : [],
+
+        // Набор: состав приходит с витрины, stock уже посчитан по компонентам
+        isBundle: Boolean(raw.isBundle),
+        bundleItems: Array.isArray(raw.bundleItems) ? raw.bundleItems : [],
+
+        // Сводка отзывов с бэка: rating / reviewCount / ratingDistribution
+        rating: raw.rating != null ? Number(raw.rating) : undefined,
+        reviews: raw.reviewCount != null ? Number(raw.reviewCount) : raw.reviews != null ? Number(raw.reviews) : undefined,
+        ratingDistribution: raw.ratingDistribution || undefined,
+
         // Legacy поля для обратной совместимости
         badge: raw.badge || undefined,
-        rating: raw.rating != null ? Number(raw.rating) : undefined,
-        reviews: raw.reviews != null ? Number(raw.reviews) : undefined,
 
         // Timestamps
         createdAt: raw.createdAt || undefined,
@@ -192,8 +202,9 @@ export function denormalizeProductToApi(product: Partial<Product>): any {
         category,      // JOIN объект - не отправляем (отправляем только categoryId)
         title,         // legacy alias для name
         badge,         // legacy
-        rating,        // legacy
-        reviews,       // legacy
+        rating,        // readonly: сводка отзывов
+        reviews,       // readonly: сводка отзывов
+        ratingDistribution, // readonly: сводка отзывов
         createdAt,     // readonly
         updatedAt,     // readonly
         customCashback, // заменяем на денормализованный
@@ -213,6 +224,48 @@ export function denormalizeProductToApi(product: Partial<Product>): any {
     return denormalized;
 }
 
+/**
+ * Нормализует вариант товара: цены из NUMERIC-строк в числа,
+ * customCashback — как у товара, ПРОЦЕНТЫ (0..100) → ДОЛИ (0..1)
+ */
+export function normalizeVariantFromApi(raw: any): ProductVariant {
+    return {
+        id: String(raw.id),
+        productId: String(raw.productId),
+        name: String(raw.name || ''),
+        size: raw.size ?? null,
+        flavor: raw.flavor ?? null,
+        packCount: raw.packCount != null ? Number(raw.packCount) : null,
+        sku: raw.sku ?? null,
+        price: Number(raw.price) || 0,
+        originalPrice: raw.originalPrice != null ? Number(raw.originalPrice) : null,
+        stock: Number(raw.stock) || 0,
+        customPv: raw.customPv != null ? Number(raw.customPv) : null,
+        customCashback: raw.customCashback != null ? Number((Number(raw.customCashback) / 100).toFixed(4)) : null,
+        images: Array.isArray(raw.images)
+            ? raw.images.map((img: any, index: number) => ({
+                  mediaId: String(img.mediaId || img.url || ''),
+                  role: (img.role === 'gallery' ? 'gallery' : 'main') as 'main' | 'gallery',
+                  alt: img.alt || undefined,
+                  sortOrder: typeof img.sortOrder === 'number' ? img.sortOrder : index,
+              }))
+            : [],
+        sortOrder: Number(raw.sortOrder) || 0,
+        isActive: raw.isActive ?? true,
+    };
+}
+
+/**
+ * Вариант для API: бэкенд вариантов принимает customCashback ДОЛЕЙ (0..1), как есть
+ */
+export function denormalizeVariantToApi(variant: ProductVariantInput): any {
+    const { images, ...rest } = variant;
+    return {
+        ...rest,
+        ...(images && { images: images.map(({ mediaId, role, alt, sortOrder }) => ({ mediaId, role, alt, sortOrder })) }),
+    };
+}
+
 /**
  * Type alias для понятности кода
  */
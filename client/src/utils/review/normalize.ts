@@ -33,6 +33,10 @@ export function normalizeReviewFromApi(raw: any): Review {
     body: raw.body || null,
     status: (raw.status || 'pending') as ReviewStatus,
     verifiedPurchase: Boolean(raw.verifiedPurchase),
+    helpfulCount: Number(raw.helpfulCount) || 0,
+    votedHelpful: Boolean(raw.votedHelpful),
+    replyBody: raw.replyBody || null,
+    repliedAt: raw.repliedAt || null,
     publishedAt: raw.publishedAt || null,
     createdAt: raw.createdAt || new Date().toISOString(),
     updatedAt: raw.updatedAt || new Date().toISOString(),